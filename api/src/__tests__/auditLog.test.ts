@@ -0,0 +1,162 @@
+/**
+ * Unit tests for audit log ingestion and queries
+ *
+ * @vitest-environment node
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  SYSTEM_AUDIT_PARTITION,
+  buildAuditLogFilter,
+  entityToAuditLogRecord,
+  normalizeClientAuditEntry,
+} from '../utils/auditLog';
+import { siteOwnerHasPermission } from '../utils/siteOwners';
+import type { AuditReporter } from '../utils/auditLog';
+
+const reporter: AuditReporter = {
+  userId: 'user-1',
+  email: 'captain@example.gov.au',
+  brigadeIds: ['brigade-a'],
+  ipAddress: '203.0.113.7',
+  userAgent: 'Mozilla/5.0',
+};
+
+const entry = {
+  id: 'client-id',
+  eventType: 'auth.login',
+  message: 'User logged in: captain@example.gov.au',
+  userId: 'user-1',
+  userEmail: 'captain@example.gov.au',
+  brigadeId: 'brigade-a',
+  timestamp: '2026-12-24T18:00:00.000Z',
+  userAgent: 'Something else',
+};
+
+describe('normalizeClientAuditEntry', () => {
+  it('keeps the caller identity from the token, not the entry', () => {
+    const event = normalizeClientAuditEntry({ ...entry, userId: 'someone-else' }, reporter);
+
+    expect(event).toMatchObject({
+      eventType: 'auth.login',
+      brigadeId: 'brigade-a',
+      userId: 'user-1',
+      userEmail: 'captain@example.gov.au',
+      source: 'client',
+      clientTimestamp: '2026-12-24T18:00:00.000Z',
+      verified: true,
+      ipAddress: '203.0.113.7',
+      userAgent: 'Mozilla/5.0',
+    });
+  });
+
+  it('keeps brigades the caller is not a member of out of their partitions', () => {
+    const event = normalizeClientAuditEntry({ ...entry, brigadeId: 'brigade-b' }, reporter);
+
+    expect(event?.brigadeId).toBe(SYSTEM_AUDIT_PARTITION);
+    expect(event?.metadata).toEqual({ reportedBrigadeId: 'brigade-b' });
+  });
+
+  it('keeps anonymous callers to auth events', () => {
+    const anonymous = { brigadeIds: [] };
+
+    const failedLogin = normalizeClientAuditEntry(
+      { ...entry, eventType: 'auth.login_failed', userEmail: 'someone@example.com' },
+      anonymous
+    );
+    expect(failedLogin).toMatchObject({ brigadeId: SYSTEM_AUDIT_PARTITION, userId: undefined, verified: false });
+    expect(failedLogin?.metadata).toEqual({ reportedEmail: 'someone@example.com', reportedBrigadeId: 'brigade-a' });
+
+    expect(normalizeClientAuditEntry({ ...entry, eventType: 'membership.removed' }, anonymous)).toBeNull();
+  });
+
+  it('keeps malformed entries out of the log', () => {
+    expect(normalizeClientAuditEntry(null, reporter)).toBeNull();
+    expect(normalizeClientAuditEntry({ ...entry, eventType: 'DROP TABLE' }, reporter)).toBeNull();
+    expect(normalizeClientAuditEntry({ ...entry, message: '  ' }, reporter)).toBeNull();
+  });
+
+  it('keeps oversized fields bounded', () => {
+    const event = normalizeClientAuditEntry(
+      { ...entry, message: 'x'.repeat(2000), metadata: { blob: 'y'.repeat(5000) }, timestamp: 'yesterday' },
+      reporter
+    );
+
+    expect(event?.message).toHaveLength(500);
+    expect(event?.metadata).toEqual({ truncated: true });
+    expect(event?.clientTimestamp).toBeUndefined();
+  });
+});
+
+describe('buildAuditLogFilter', () => {
+  it('keeps every filter in the query', () => {
+    expect(buildAuditLogFilter({
+      brigadeId: 'brigade-a',
+      eventType: 'membership.removed',
+      userId: 'user-1',
+      from: '2026-12-01T00:00:00.000Z',
+      to: '2026-12-25T00:00:00.000Z',
+      source: 'server',
+    })).toBe(
+      "PartitionKey eq 'brigade-a' and eventType eq 'membership.removed'"
+      + " and (userId eq 'user-1' or targetUserId eq 'user-1')"
+      + " and occurredAt ge '2026-12-01T00:00:00.000Z' and occurredAt lt '2026-12-25T00:00:00.000Z'"
+      + " and source eq 'server'"
+    );
+  });
+
+  it('keeps a category matching every event type inside it', () => {
+    expect(buildAuditLogFilter({ eventType: 'role' })).toBe("eventType ge 'role.' and eventType lt 'role/'");
+  });
+
+  it('keeps quotes from breaking out of the filter', () => {
+    expect(buildAuditLogFilter({ userId: "x' or '1' eq '1" }))
+      .toBe("(userId eq 'x'' or ''1'' eq ''1' or targetUserId eq 'x'' or ''1'' eq ''1')");
+  });
+});
+
+describe('entityToAuditLogRecord', () => {
+  const stored = {
+    partitionKey: 'brigade-a',
+    rowKey: 'row-1',
+    eventType: 'route.published',
+    message: 'Route published',
+    userId: 'user-1',
+    userEmail: '',
+    resourceId: 'route-1',
+    metadata: '{"from":"draft"}',
+    source: 'server',
+    occurredAt: '2026-12-01T00:00:00.000Z',
+    verified: true,
+  };
+
+  it('keeps the stored fields and drops empty ones', () => {
+    const record = entityToAuditLogRecord(stored);
+
+    expect(record).toMatchObject({
+      id: 'row-1',
+      brigadeId: 'brigade-a',
+      source: 'server',
+      metadata: { from: 'draft' },
+      verified: true,
+    });
+    expect(record.userEmail).toBeUndefined();
+  });
+
+  it('keeps the stored verified flag, even for a signed-in client report', () => {
+    const record = entityToAuditLogRecord({ ...stored, source: 'client', verified: false });
+
+    expect(record).toMatchObject({ source: 'client', userId: 'user-1', verified: false });
+  });
+});
+
+describe('siteOwnerHasPermission', () => {
+  it('keeps site owner access to the permissions they were granted', () => {
+    const auditor = { userId: 'user-1', isSuperAdmin: false, permissions: ['view_audit_logs' as const] };
+
+    expect(siteOwnerHasPermission(auditor, 'view_audit_logs')).toBe(true);
+    expect(siteOwnerHasPermission(auditor, 'review_verifications')).toBe(false);
+    expect(siteOwnerHasPermission({ ...auditor, isSuperAdmin: true }, 'review_verifications')).toBe(true);
+    expect(siteOwnerHasPermission(null, 'view_audit_logs')).toBe(false);
+  });
+});
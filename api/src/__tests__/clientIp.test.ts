@@ -0,0 +1,39 @@
+/**
+ * Unit tests for client IP extraction
+ *
+ * @vitest-environment node
+ */
+
+import { describe, it, expect } from 'vitest';
+import { getClientIp, hashClientIp } from '../utils/clientIp';
+
+const request = (headers: Record<string, string>) => ({ headers: new Headers(headers) });
+
+describe('getClientIp', () => {
+  it('keeps the address Azure saw ahead of anything the caller sent', () => {
+    expect(getClientIp(request({
+      'x-azure-clientip': '203.0.113.7',
+      'x-forwarded-for': '198.51.100.1, 203.0.113.7',
+    }))).toBe('203.0.113.7');
+  });
+
+  it('keeps a spoofed first X-Forwarded-For entry from choosing the key', () => {
+    expect(getClientIp(request({ 'x-forwarded-for': '198.51.100.1, 203.0.113.7:51234' }))).toBe('203.0.113.7');
+  });
+
+  it('keeps IPv6 addresses whole', () => {
+    expect(getClientIp(request({ 'x-forwarded-for': '2001:db8::1' }))).toBe('2001:db8::1');
+  });
+
+  it('keeps requests without proxy headers unkeyed', () => {
+    expect(getClientIp(request({}))).toBeUndefined();
+  });
+});
+
+describe('hashClientIp', () => {
+  it('keeps the same key for an address without storing the address', () => {
+    expect(hashClientIp('203.0.113.7')).toBe(hashClientIp('203.0.113.7'));
+    expect(hashClientIp('203.0.113.7')).not.toContain('203.0.113.7');
+    expect(hashClientIp('203.0.113.7')).not.toBe(hashClientIp('203.0.113.8'));
+  });
+});
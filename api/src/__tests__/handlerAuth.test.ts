@@ -0,0 +1,200 @@
+/**
+ * Handler tests for authentication on /api/broadcast and /api/negotiate
+ *
+ * Tokens are real JWTs run through validateToken; only the JWKS lookup, Table
+ * Storage and Web PubSub are replaced, so a handler that skipped the auth
+ * check would let these requests through.
+ *
+ * @vitest-environment node
+ */
+
+import { describe, it, expect, vi, beforeAll, beforeEach, afterAll } from 'vitest';
+import { generateKeyPairSync } from 'crypto';
+import * as jwt from 'jsonwebtoken';
+import type { HttpRequest, InvocationContext } from '@azure/functions';
+
+const TENANT_ID = '50fcb752-2a4e-4efd-bdc2-e18a5042c5a8';
+const ISSUER = `https://login.microsoftonline.com/${TENANT_ID}/v2.0`;
+
+const trusted = generateKeyPairSync('rsa', { modulusLength: 2048 });
+const attacker = generateKeyPairSync('rsa', { modulusLength: 2048 });
+
+const sendToAll = vi.fn();
+const getClientAccessToken = vi.fn(async () => ({ url: 'wss://pubsub.example/client?access_token=x' }));
+const tables = new Map<string, Record<string, unknown>[]>();
+
+vi.mock('@azure/functions', () => ({ app: { http: vi.fn() } }));
+
+vi.mock('@azure/web-pubsub', () => ({
+  WebPubSubServiceClient: vi.fn(function () {
+    return { group: () => ({ sendToAll, listConnections: async () => (async function* () {})() }), getClientAccessToken };
+  }),
+}));
+
+// The signing key every token claims to be from
+vi.mock('jwks-rsa', () => ({
+  default: () => ({
+    getSigningKey: (_kid: string, callback: (error: Error | null, key?: { getPublicKey: () => string }) => void) =>
+      callback(null, { getPublicKey: () => trusted.publicKey.export({ type: 'spki', format: 'pem' }).toString() }),
+  }),
+}));
+
+/**
+ * In-memory table that understands the `Field eq 'value' and ...` filters the handlers use
+ */
+function fakeTable(name: string) {
+  const rows = () => tables.get(name) ?? [];
+  const matches = (filter: string | undefined) => (row: Record<string, unknown>) =>
+    [...(filter ?? '').matchAll(/(\w+) eq '((?:[^']|'')*)'/g)].every(([, field, value]) => {
+      const key = field === 'PartitionKey' ? 'partitionKey' : field === 'RowKey' ? 'rowKey' : field;
+      return row[key] === value.replace(/''/g, "'");
+    });
+
+  return {
+    listEntities: ({ queryOptions }: { queryOptions?: { filter?: string } } = {}) =>
+      (async function* () {
+        yield* rows().filter(matches(queryOptions?.filter));
+      })(),
+    getEntity: async (partitionKey: string, rowKey: string) => {
+      const row = rows().find(r => r.partitionKey === partitionKey && r.rowKey === rowKey);
+      if (!row) throw Object.assign(new Error('Not Found'), { statusCode: 404 });
+      return row;
+    },
+    upsertEntity: async (entity: Record<string, unknown>) => {
+      tables.set(name, [...rows().filter(r => r.partitionKey !== entity.partitionKey || r.rowKey !== entity.rowKey), entity]);
+      return {};
+    },
+    createEntity: async (entity: Record<string, unknown>) => {
+      tables.set(name, [...rows(), entity]);
+      return {};
+    },
+  };
+}
+
+vi.mock('../utils/storage', () => ({
+  isDevMode: false,
+  getTableClient: vi.fn(async (name: string) => fakeTable(name)),
+}));
+
+function signToken(key: typeof trusted.privateKey, claims: object = {}, options: jwt.SignOptions = {}): string {
+  return jwt.sign(
+    { oid: 'user-oid', tid: TENANT_ID, email: 'operator@example.gov.au', ...claims },
+    key.export({ type: 'pkcs1', format: 'pem' }),
+    { algorithm: 'RS256', issuer: ISSUER, keyid: 'key-1', expiresIn: '1h', ...options }
+  );
+}
+
+function makeRequest({ token, body, query = {} }: { token?: string; body?: unknown; query?: Record<string, string> }): HttpRequest {
+  return {
+    headers: new Headers(token ? { authorization: `Bearer ${token}` } : {}),
+    query: new URLSearchParams(query),
+    params: {},
+    json: async () => body,
+  } as unknown as HttpRequest;
+}
+
+const context = { log: vi.fn(), warn: vi.fn(), error: vi.fn() } as unknown as InvocationContext;
+
+const location = () => ({ routeId: 'route-1', location: [151.2, -33.8], timestamp: Date.now() });
+
+describe('broadcast and negotiate authentication', () => {
+  let broadcast: typeof import('../broadcast').broadcast;
+  let negotiate: typeof import('../negotiate').negotiate;
+
+  beforeAll(async () => {
+    // The shared test setup turns on dev mode, which skips token validation
+    vi.stubEnv('VITE_DEV_MODE', 'false');
+    vi.stubEnv('VITE_ENTRA_CLIENT_ID', '');
+    vi.stubEnv('VITE_ENTRA_AUTHORITY', '');
+    vi.stubEnv('AZURE_WEBPUBSUB_CONNECTION_STRING', 'Endpoint=https://pubsub.example;AccessKey=a;Version=1.0;');
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.resetModules();
+    ({ broadcast } = await import('../broadcast'));
+    ({ negotiate } = await import('../negotiate'));
+  });
+
+  afterAll(() => {
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+  });
+
+  beforeEach(() => {
+    sendToAll.mockClear();
+    getClientAccessToken.mockClear();
+    tables.clear();
+    tables.set('routes', [{ partitionKey: 'brigade-a', rowKey: 'route-1', status: 'active' }]);
+    tables.set('memberships', [{
+      partitionKey: 'brigade-a',
+      rowKey: 'member-1',
+      userId: `user-oid.${TENANT_ID}`,
+      role: 'operator',
+      status: 'active',
+    }]);
+  });
+
+  describe('broadcast', () => {
+    it('keeps a token signed with another key from moving Santa', async () => {
+      const response = await broadcast(makeRequest({ token: signToken(attacker.privateKey), body: location() }), context);
+
+      expect(response.status).toBe(401);
+      expect(response.jsonBody).toMatchObject({ code: 'UNAUTHENTICATED', message: expect.stringContaining('Invalid token') });
+      expect(sendToAll).not.toHaveBeenCalled();
+    });
+
+    it('keeps an expired token from moving Santa', async () => {
+      const expired = signToken(trusted.privateKey, {}, { expiresIn: -60 });
+      const response = await broadcast(makeRequest({ token: expired, body: location() }), context);
+
+      expect(response.status).toBe(401);
+      expect(response.jsonBody).toMatchObject({ message: expect.stringContaining('Token has expired') });
+      expect(sendToAll).not.toHaveBeenCalled();
+    });
+
+    it('keeps requests without a token out', async () => {
+      const response = await broadcast(makeRequest({ body: location() }), context);
+
+      expect(response.status).toBe(401);
+      expect(sendToAll).not.toHaveBeenCalled();
+    });
+
+    it('keeps a valid token from another brigade out', async () => {
+      const response = await broadcast(
+        makeRequest({ token: signToken(trusted.privateKey, { oid: 'someone-else' }), body: location() }),
+        context
+      );
+
+      expect(response.status).toBe(403);
+      expect(sendToAll).not.toHaveBeenCalled();
+    });
+
+    it('keeps delivering for the route operator', async () => {
+      const response = await broadcast(makeRequest({ token: signToken(trusted.privateKey), body: location() }), context);
+
+      expect(response.status).toBe(200);
+      expect(sendToAll).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('negotiate', () => {
+    const query = { routeId: 'route-1', role: 'broadcaster' };
+
+    it('keeps forged and expired tokens from connecting as broadcaster', async () => {
+      const forged = await negotiate(makeRequest({ token: signToken(attacker.privateKey), query }), context);
+      const expired = await negotiate(makeRequest({
+        token: signToken(trusted.privateKey, {}, { expiresIn: -60 }),
+        query,
+      }), context);
+
+      expect(forged.status).toBe(401);
+      expect(expired.status).toBe(401);
+      expect(getClientAccessToken).not.toHaveBeenCalled();
+    });
+
+    it('keeps issuing broadcaster tokens to the route operator', async () => {
+      const response = await negotiate(makeRequest({ token: signToken(trusted.privateKey), query }), context);
+
+      expect(response.status).toBe(200);
+      expect(getClientAccessToken).toHaveBeenCalledWith(expect.objectContaining({ userId: `user-oid.${TENANT_ID}`, roles: [] }));
+    });
+  });
+});
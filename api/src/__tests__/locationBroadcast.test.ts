@@ -0,0 +1,213 @@
+/**
+ * Unit tests for location broadcast validation and backfill ordering
+ *
+ * @vitest-environment node
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  MAX_BROADCAST_AGE_MS,
+  MAX_BROADCAST_CLOCK_SKEW_MS,
+  groupByVehicle,
+  isNewerThanLastKnown,
+  orderBackfill,
+  selectLiveUpdate,
+  validateBackfillBatch,
+  validateLocationBroadcast,
+} from '../utils/locationBroadcast';
+import type { LocationBroadcast } from '../utils/locationBroadcast';
+
+// Server time for validation; the fixture timestamps are a few seconds before it
+const NOW = 10_000;
+
+const point = (timestamp: number, overrides: Partial<LocationBroadcast> = {}): LocationBroadcast => ({
+  routeId: 'route-1',
+  location: [151.2, -33.8],
+  timestamp,
+  ...overrides,
+});
+
+describe('validateLocationBroadcast', () => {
+  it('accepts a valid broadcast and keeps only known fields', () => {
+    const result = validateLocationBroadcast({
+      ...point(1000, { heading: 90, nextWaypointEta: '5 min' }),
+      extra: 'ignored',
+    } as Partial<LocationBroadcast>, NOW);
+
+    expect(result).toEqual({
+      valid: true,
+      location: {
+        routeId: 'route-1',
+        location: [151.2, -33.8],
+        timestamp: 1000,
+        heading: 90,
+        speed: undefined,
+        currentWaypointIndex: undefined,
+        nextWaypointEta: '5 min',
+      },
+    });
+  });
+
+  it('keeps a numeric schedule deviation and drops anything else', () => {
+    const late = validateLocationBroadcast(point(1000, { scheduleDeviation: 420 }), NOW);
+    const invalid = validateLocationBroadcast({
+      ...point(1000),
+      scheduleDeviation: '7 min',
+    } as unknown as Partial<LocationBroadcast>, NOW);
+
+    expect(late.valid && late.location.scheduleDeviation).toBe(420);
+    expect(invalid.valid && invalid.location.scheduleDeviation).toBeUndefined();
+  });
+
+  it('keeps only well-formed waypoint ETAs', () => {
+    const result = validateLocationBroadcast({
+      ...point(1000),
+      waypointEtas: [
+        { waypointId: 'wp-1', eta: 2000 },
+        { waypointId: 'wp-2', eta: 'soon' },
+        { eta: 3000 },
+      ],
+    } as unknown as Partial<LocationBroadcast>, NOW);
+
+    expect(result.valid && result.location.waypointEtas).toEqual([{ waypointId: 'wp-1', eta: 2000 }]);
+    expect(validateLocationBroadcast(point(1000, { waypointEtas: [] }), NOW)).toMatchObject({
+      location: { waypointEtas: undefined },
+    });
+  });
+
+  it('keeps a well-formed stop visit and drops anything else', () => {
+    const arrived = validateLocationBroadcast({
+      ...point(1000),
+      visit: { waypointId: 'wp-1', type: 'arrived', timestamp: 900, extra: true },
+    } as unknown as Partial<LocationBroadcast>, NOW);
+    const invalid = validateLocationBroadcast({
+      ...point(1000),
+      visit: { waypointId: 'wp-1', type: 'parked', timestamp: 900 },
+    } as unknown as Partial<LocationBroadcast>, NOW);
+
+    expect(arrived.valid && arrived.location.visit).toEqual({ waypointId: 'wp-1', type: 'arrived', timestamp: 900 });
+    expect(invalid.valid && invalid.location.visit).toBeUndefined();
+  });
+
+  it('rejects a missing routeId', () => {
+    expect(validateLocationBroadcast({ location: [151.2, -33.8], timestamp: 1000 }, NOW)).toEqual({
+      valid: false,
+      error: 'Missing required field: routeId',
+    });
+  });
+
+  it('rejects malformed or out-of-range coordinates', () => {
+    expect(validateLocationBroadcast({ routeId: 'r', location: [151.2] as unknown as [number, number], timestamp: 1 }, NOW).valid).toBe(false);
+    expect(validateLocationBroadcast({ routeId: 'r', location: [181, 0], timestamp: 1 }, NOW).valid).toBe(false);
+    expect(validateLocationBroadcast({ routeId: 'r', location: [0, -91], timestamp: 1 }, NOW).valid).toBe(false);
+  });
+
+  it('rejects a missing timestamp', () => {
+    expect(validateLocationBroadcast({ routeId: 'r', location: [151.2, -33.8] }, NOW)).toEqual({
+      valid: false,
+      error: 'Missing required field: timestamp',
+    });
+  });
+
+  it('accepts row-key-safe vehicle IDs only', () => {
+    const truck = validateLocationBroadcast(point(1000, { vehicleId: 'vehicle_1_abc' }), NOW);
+    expect(truck.valid && truck.location.vehicleId).toBe('vehicle_1_abc');
+    expect(validateLocationBroadcast(point(1000, { vehicleId: "truck' or 1" }), NOW)).toEqual({
+      valid: false,
+      error: 'Invalid vehicleId',
+    });
+  });
+
+  it('rejects timestamps that are not a recent Unix time', () => {
+    const error = 'Invalid timestamp. Must be a Unix time (ms) within the last 24 hours';
+    expect(validateLocationBroadcast(point(NOW + MAX_BROADCAST_CLOCK_SKEW_MS + 1), NOW)).toEqual({ valid: false, error });
+    expect(validateLocationBroadcast(point(NOW - MAX_BROADCAST_AGE_MS - 1), NOW)).toEqual({ valid: false, error });
+    expect(validateLocationBroadcast(point(Infinity), NOW)).toEqual({ valid: false, error });
+    expect(validateLocationBroadcast({ ...point(NOW), timestamp: '1000' } as unknown as Partial<LocationBroadcast>, NOW)).toEqual({ valid: false, error });
+    expect(validateLocationBroadcast(point(NOW - MAX_BROADCAST_AGE_MS), NOW).valid).toBe(true);
+  });
+
+  it('rejects a heading or speed that is not a finite number in range', () => {
+    expect(validateLocationBroadcast(point(1000, { heading: 360, speed: 0 }), NOW).valid).toBe(true);
+    expect(validateLocationBroadcast(point(1000, { heading: -1 }), NOW).valid).toBe(false);
+    expect(validateLocationBroadcast(point(1000, { heading: NaN }), NOW).valid).toBe(false);
+    expect(validateLocationBroadcast(point(1000, { speed: -2 }), NOW).valid).toBe(false);
+    expect(validateLocationBroadcast(point(1000, { speed: 1e9 }), NOW).valid).toBe(false);
+    expect(validateLocationBroadcast({ ...point(1000), speed: '12' } as unknown as Partial<LocationBroadcast>, NOW).valid).toBe(false);
+  });
+});
+
+describe('validateBackfillBatch', () => {
+  it('keeps the valid points when some of the batch is invalid', () => {
+    const stale = point(NOW - MAX_BROADCAST_AGE_MS - 1);
+    const { locations, rejected } = validateBackfillBatch(
+      'route-1',
+      [point(1000), stale, point(2000, { routeId: 'route-2' }), point(3000)],
+      NOW
+    );
+
+    expect(locations.map(p => p.timestamp)).toEqual([1000, 3000]);
+    expect(rejected).toEqual([
+      { index: 1, error: expect.stringContaining('Invalid timestamp') },
+      { index: 2, error: 'routeId does not match batch routeId' },
+    ]);
+  });
+
+  it('fills in the batch routeId for points that leave it out', () => {
+    const { locations } = validateBackfillBatch('route-1', [{ location: [151.2, -33.8], timestamp: 1000 }], NOW);
+    expect(locations).toEqual([expect.objectContaining({ routeId: 'route-1', timestamp: 1000 })]);
+  });
+});
+
+describe('orderBackfill', () => {
+  it('sorts points chronologically and drops repeated timestamps', () => {
+    const ordered = orderBackfill([point(3000), point(1000), point(2000), point(1000)]);
+    expect(ordered.map(p => p.timestamp)).toEqual([1000, 2000, 3000]);
+  });
+
+  it('keeps points from different vehicles with the same timestamp', () => {
+    const ordered = orderBackfill([point(1000, { vehicleId: 'a' }), point(1000, { vehicleId: 'b' })]);
+    expect(ordered.map(p => p.vehicleId)).toEqual(['a', 'b']);
+  });
+});
+
+describe('groupByVehicle', () => {
+  it('splits a batch per vehicle, keeping each in order', () => {
+    const groups = groupByVehicle([
+      point(1000, { vehicleId: 'a' }),
+      point(2000, { vehicleId: 'b' }),
+      point(3000, { vehicleId: 'a' }),
+    ]);
+    expect(groups.map(group => group.map(p => p.timestamp))).toEqual([[1000, 3000], [2000]]);
+  });
+});
+
+describe('isNewerThanLastKnown', () => {
+  it('treats any position as newer when nothing is cached', () => {
+    expect(isNewerThanLastKnown(1000, null)).toBe(true);
+    expect(isNewerThanLastKnown(1000, undefined)).toBe(true);
+  });
+
+  it('rejects positions at or before the cached timestamp', () => {
+    expect(isNewerThanLastKnown(1000, 1000)).toBe(false);
+    expect(isNewerThanLastKnown(999, 1000)).toBe(false);
+    expect(isNewerThanLastKnown(1001, 1000)).toBe(true);
+  });
+});
+
+describe('selectLiveUpdate', () => {
+  const ordered = [point(1000), point(2000), point(3000)];
+
+  it('delivers only the newest point of a backfill', () => {
+    expect(selectLiveUpdate(ordered, 500)?.timestamp).toBe(3000);
+  });
+
+  it('delivers nothing when viewers already have a newer position', () => {
+    expect(selectLiveUpdate(ordered, 3000)).toBeNull();
+    expect(selectLiveUpdate(ordered, 5000)).toBeNull();
+  });
+
+  it('delivers nothing for an empty batch', () => {
+    expect(selectLiveUpdate([], null)).toBeNull();
+  });
+});
@@ -0,0 +1,108 @@
+/**
+ * Unit tests for "Santa is near" alert validation and proximity
+ *
+ * @vitest-environment node
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  buildNearbyAlertPayload,
+  distanceMeters,
+  isPushServiceHost,
+  isSantaNearby,
+  validateNearbyAlertRequest,
+} from '../utils/nearbyAlerts';
+
+const subscription = {
+  endpoint: 'https://fcm.googleapis.com/fcm/send/abc',
+  keys: {
+    p256dh: Buffer.alloc(65, 4).toString('base64url'),
+    auth: Buffer.alloc(16, 1).toString('base64url'),
+  },
+};
+
+describe('validateNearbyAlertRequest', () => {
+  it('accepts a valid request and keeps only known fields', () => {
+    const result = validateNearbyAlertRequest({
+      subscription: { ...subscription, expirationTime: null },
+      location: [146.04, -34.28],
+      label: '  12 Holly St  ',
+      extra: 'ignored',
+    });
+
+    expect(result).toEqual({
+      valid: true,
+      request: { subscription, location: [146.04, -34.28], label: '12 Holly St' },
+    });
+  });
+
+  it('rejects endpoints that are not https URLs', () => {
+    expect(validateNearbyAlertRequest({ location: [146, -34] }).valid).toBe(false);
+    expect(validateNearbyAlertRequest({
+      subscription: { ...subscription, endpoint: 'http://fcm.googleapis.com/fcm/send/abc' },
+      location: [146, -34],
+    })).toEqual({ valid: false, error: 'Subscription endpoint must use https' });
+  });
+
+  it('rejects endpoints outside the known push services', () => {
+    const error = { valid: false, error: 'Subscription endpoint is not a supported push service' };
+    for (const endpoint of [
+      'https://push.example.com/send/abc',
+      'https://169.254.169.254/metadata',
+      'https://fcm.googleapis.com.attacker.test/send',
+      'https://fcm.googleapis.com:8443/fcm/send/abc',
+      'https://user@fcm.googleapis.com/fcm/send/abc',
+    ]) {
+      expect(validateNearbyAlertRequest({ subscription: { ...subscription, endpoint }, location: [146, -34] })).toEqual(error);
+    }
+  });
+
+  it('rejects malformed keys', () => {
+    expect(validateNearbyAlertRequest({
+      subscription: { ...subscription, keys: { ...subscription.keys, auth: 'short' } },
+      location: [146, -34],
+    })).toEqual({ valid: false, error: 'Invalid subscription keys' });
+  });
+
+  it('rejects malformed or out-of-range coordinates', () => {
+    expect(validateNearbyAlertRequest({ subscription, location: [146] }).valid).toBe(false);
+    expect(validateNearbyAlertRequest({ subscription, location: [146, -91] }).valid).toBe(false);
+  });
+});
+
+describe('isPushServiceHost', () => {
+  it('accepts each browser push service and its subdomains', () => {
+    expect(isPushServiceHost('fcm.googleapis.com')).toBe(true);
+    expect(isPushServiceHost('updates.push.services.mozilla.com')).toBe(true);
+    expect(isPushServiceHost('wns2-par02p.notify.windows.com')).toBe(true);
+    expect(isPushServiceHost('web.push.apple.com')).toBe(true);
+    expect(isPushServiceHost('evilpush.apple.com')).toBe(false);
+    expect(isPushServiceHost('localhost')).toBe(false);
+  });
+});
+
+describe('isSantaNearby', () => {
+  const home: [number, number] = [146.04, -34.28];
+
+  it('measures straight-line distance in meters', () => {
+    // 0.01° of latitude is about 1.1 km
+    expect(distanceMeters(home, [146.04, -34.29])).toBeCloseTo(1112, -1);
+  });
+
+  it('alerts within about five minutes at Santa run speed', () => {
+    // ~1.1 km straight line ≈ 1.4 km by road ≈ 4.3 minutes at 20 km/h
+    expect(isSantaNearby([146.04, -34.29], home)).toBe(true);
+    // ~2.2 km straight line ≈ 8.7 minutes
+    expect(isSantaNearby([146.04, -34.30], home)).toBe(false);
+  });
+});
+
+describe('buildNearbyAlertPayload', () => {
+  it('links to the tracking page and its unsubscribe confirmation', () => {
+    expect(buildNearbyAlertPayload('route-1', 'sub-1', '12 Holly St')).toMatchObject({
+      body: 'Santa is ~5 minutes away from 12 Holly St. Head outside to say hello!',
+      url: '/track/route-1',
+      unsubscribeUrl: '/track/route-1?unsubscribe=sub-1',
+    });
+  });
+});
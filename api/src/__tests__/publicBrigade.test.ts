@@ -0,0 +1,105 @@
+/**
+ * Unit tests for the public brigade page payload
+ *
+ * @vitest-environment node
+ */
+
+import { describe, it, expect } from 'vitest';
+import { buildPublicBrigadePage, toPublicBrigadeProfile } from '../utils/publicBrigade';
+import type { BrigadeRecord, RouteRecord } from '../utils/publicBrigade';
+
+const now = new Date('2026-12-20T12:00:00Z');
+
+const brigade: BrigadeRecord = {
+  slug: 'griffith-rfs',
+  name: 'Griffith RFS',
+  location: 'Griffith, NSW',
+  logo: 'https://example.com/logo.png',
+  themeColor: '#D32F2F',
+  contactEmail: 'santa@example.com',
+};
+
+const route = (id: string, overrides: Partial<RouteRecord> = {}): RouteRecord => ({
+  id,
+  name: `Route ${id}`,
+  date: '2026-12-22',
+  startTime: '18:00',
+  status: 'published',
+  waypoints: [{}, {}, {}],
+  ...overrides,
+});
+
+describe('buildPublicBrigadePage', () => {
+  it('keeps drafts and archived routes off the page', () => {
+    const page = buildPublicBrigadePage(brigade, [
+      route('draft', { status: 'draft' }),
+      route('archived', { status: 'archived' }),
+      route('published'),
+    ], now);
+
+    expect(page.routes.map(r => r.id)).toEqual(['published']);
+  });
+
+  it('keeps recently completed runs and drops older ones', () => {
+    const page = buildPublicBrigadePage(brigade, [
+      route('recent', { status: 'completed', date: '2026-12-15', completedAt: '2026-12-15T21:00:00Z' }),
+      route('old', { status: 'completed', date: '2026-11-01', completedAt: '2026-11-01T21:00:00Z' }),
+      route('no-timestamp', { status: 'completed', date: '2026-12-18' }),
+    ], now);
+
+    expect(page.routes.map(r => r.id)).toEqual(['no-timestamp', 'recent']);
+  });
+
+  it('keeps live runs first, then upcoming soonest first, then recent newest first', () => {
+    const page = buildPublicBrigadePage(brigade, [
+      route('done-early', { status: 'completed', date: '2026-12-12' }),
+      route('later', { date: '2026-12-24' }),
+      route('done-late', { status: 'completed', date: '2026-12-19' }),
+      route('live', { status: 'active', date: '2026-12-20' }),
+      route('sooner', { date: '2026-12-21' }),
+    ], now);
+
+    expect(page.routes.map(r => r.id)).toEqual(['live', 'sooner', 'later', 'done-late', 'done-early']);
+  });
+
+  it('keeps only public summary fields on each route', () => {
+    const page = buildPublicBrigadePage(brigade, [
+      { ...route('r1'), createdBy: 'admin@example.com', navigationSteps: [] } as RouteRecord,
+    ], now);
+
+    expect(page.routes[0]).toEqual({
+      id: 'r1',
+      name: 'Route r1',
+      description: undefined,
+      date: '2026-12-22',
+      startTime: '18:00',
+      endTime: undefined,
+      status: 'published',
+      stopCount: 3,
+      distance: undefined,
+      estimatedDuration: undefined,
+      startedAt: undefined,
+      completedAt: undefined,
+    });
+  });
+});
+
+describe('toPublicBrigadeProfile', () => {
+  it('keeps legacy contact fields as the public contact', () => {
+    expect(toPublicBrigadeProfile(brigade).contact).toEqual({
+      email: 'santa@example.com',
+      phone: undefined,
+      website: undefined,
+    });
+  });
+
+  it('keeps contact undefined when the brigade has no contact details', () => {
+    expect(toPublicBrigadeProfile({ slug: 'quiet', name: 'Quiet RFS' }).contact).toBeUndefined();
+  });
+
+  it('keeps only the public profile fields', () => {
+    const profile = toPublicBrigadeProfile({ ...brigade, allowedDomains: ['example.com'] } as BrigadeRecord);
+
+    expect(Object.keys(profile).sort()).toEqual(['contact', 'location', 'logo', 'name', 'slug', 'themeColor']);
+  });
+});
@@ -0,0 +1,43 @@
+/**
+ * Unit tests for Web PubSub client token options
+ *
+ * @vitest-environment node
+ */
+
+import { describe, it, expect } from 'vitest';
+import { buildClientTokenOptions, getRouteGroupName } from '../utils/pubsubToken';
+
+describe('buildClientTokenOptions', () => {
+  it('keeps broadcasters from sending to the tracking group directly', () => {
+    expect(buildClientTokenOptions('broadcaster', 'route-1')).toEqual({
+      groups: ['route_route-1'],
+      roles: [],
+      expirationTimeInMinutes: 120,
+    });
+  });
+
+  it('keeps editor permissions scoped to the editing group and carries the user ID', () => {
+    expect(buildClientTokenOptions('editor', 'route-1', 'user-1')).toEqual({
+      userId: 'user-1',
+      groups: ['route_route-1_editing'],
+      roles: ['webpubsub.sendToGroup.route_route-1_editing', 'webpubsub.joinLeaveGroup.route_route-1_editing'],
+      expirationTimeInMinutes: 120,
+    });
+  });
+
+  it('keeps viewers receive-only', () => {
+    expect(buildClientTokenOptions('viewer', 'route-1')).toMatchObject({ groups: ['route_route-1'], roles: [] });
+  });
+
+  it('keeps broadcaster connections identified and viewer connections anonymous', () => {
+    expect(buildClientTokenOptions('broadcaster', 'route-1', 'user-1').userId).toBe('user-1');
+    expect(buildClientTokenOptions('viewer', 'route-1', 'user-1').userId).toBeUndefined();
+  });
+
+  it('never grants an unscoped role', () => {
+    for (const role of ['viewer', 'broadcaster', 'editor'] as const) {
+      const { roles } = buildClientTokenOptions(role, 'route-1');
+      expect(roles.every(r => r.endsWith(`.${getRouteGroupName(role, 'route-1')}`))).toBe(true);
+    }
+  });
+});
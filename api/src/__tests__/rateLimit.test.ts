@@ -0,0 +1,40 @@
+/**
+ * Unit tests for in-memory rate limiting
+ *
+ * @vitest-environment node
+ */
+
+import { describe, it, expect } from 'vitest';
+import { createRateLimiter } from '../utils/rateLimit';
+
+describe('createRateLimiter', () => {
+  it('keeps each key to its allowance within a window', () => {
+    const limiter = createRateLimiter({ limit: 5, windowMs: 60_000 });
+
+    expect(limiter.take('203.0.113.7', 3, 0)).toBe(3);
+    expect(limiter.take('203.0.113.7', 3, 1000)).toBe(2);
+    expect(limiter.take('203.0.113.7', 1, 2000)).toBe(0);
+    expect(limiter.take('198.51.100.1', 1, 2000)).toBe(1);
+    expect(limiter.retryAfterSeconds('203.0.113.7', 30_000)).toBe(30);
+  });
+
+  it('keeps granting once the window has passed', () => {
+    const limiter = createRateLimiter({ limit: 1, windowMs: 60_000 });
+
+    expect(limiter.take('ip', 1, 0)).toBe(1);
+    expect(limiter.take('ip', 1, 59_999)).toBe(0);
+    expect(limiter.take('ip', 1, 60_000)).toBe(1);
+  });
+
+  it('keeps memory bounded by dropping expired windows', () => {
+    const limiter = createRateLimiter({ limit: 1, windowMs: 1000, maxKeys: 2 });
+
+    limiter.take('a', 1, 0);
+    limiter.take('b', 1, 0);
+    limiter.take('c', 1, 5000);
+
+    // Asked as of the old window, a dropped key has nothing left to wait for
+    expect(limiter.retryAfterSeconds('a', 0)).toBe(0);
+    expect(limiter.retryAfterSeconds('c', 5000)).toBe(1);
+  });
+});
@@ -0,0 +1,255 @@
+/**
+ * Unit tests for route operator authorization (broadcast / negotiate)
+ *
+ * @vitest-environment node
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import {
+  authorizeRouteOperator,
+  canViewDraftRoutes,
+  getPublicRoute,
+  routeAccessErrorResponse,
+} from '../utils/routeAccess';
+import type { RouteAccessLookups, RouteSummary } from '../utils/routeAccess';
+import type { AuthResult } from '../utils/auth';
+import type { BrigadeMembership } from '../types/membership';
+
+describe('authorizeRouteOperator', () => {
+  const activeRoute: RouteSummary = { id: 'route-1', brigadeId: 'brigade-a', status: 'active' };
+
+  const membership = (overrides: Partial<BrigadeMembership> = {}): BrigadeMembership => ({
+    id: 'member-1',
+    brigadeId: 'brigade-a',
+    userId: 'user-1',
+    role: 'operator',
+    status: 'active',
+    createdAt: '2024-01-01T00:00:00Z',
+    updatedAt: '2024-01-01T00:00:00Z',
+    ...overrides,
+  });
+
+  const authenticated: AuthResult = {
+    authenticated: true,
+    userId: 'user-1',
+    email: 'operator@example.gov.au',
+  };
+
+  function createLookups(
+    route: RouteSummary | null,
+    memberships: BrigadeMembership[]
+  ): RouteAccessLookups {
+    return {
+      getRoute: vi.fn(async () => route),
+      getMembership: vi.fn(async (userId: string, brigadeId: string) =>
+        memberships.find(m => m.userId === userId && m.brigadeId === brigadeId) || null
+      ),
+    };
+  }
+
+  it('should authorize an active operator of the route brigade', async () => {
+    const lookups = createLookups(activeRoute, [membership()]);
+
+    const result = await authorizeRouteOperator(authenticated, 'route-1', lookups);
+
+    expect(result.authorized).toBe(true);
+    expect(result.route).toEqual(activeRoute);
+    expect(result.membership?.role).toBe('operator');
+  });
+
+  it('should authorize a brigade admin', async () => {
+    const lookups = createLookups(activeRoute, [membership({ role: 'admin' })]);
+
+    const result = await authorizeRouteOperator(authenticated, 'route-1', lookups);
+
+    expect(result.authorized).toBe(true);
+  });
+
+  it('should reject a forged token without touching storage', async () => {
+    const lookups = createLookups(activeRoute, [membership()]);
+    const forged: AuthResult = {
+      authenticated: false,
+      error: 'Invalid token (iss=https://evil.example/v2.0, aud=n/a, tid=n/a)',
+    };
+
+    const result = await authorizeRouteOperator(forged, 'route-1', lookups);
+
+    expect(result.authorized).toBe(false);
+    expect(result.status).toBe(401);
+    expect(result.code).toBe('UNAUTHENTICATED');
+    expect(lookups.getRoute).not.toHaveBeenCalled();
+    expect(lookups.getMembership).not.toHaveBeenCalled();
+  });
+
+  it('should reject an expired token', async () => {
+    const lookups = createLookups(activeRoute, [membership()]);
+    const expired: AuthResult = {
+      authenticated: false,
+      error: 'Token has expired (iss=n/a, aud=n/a, tid=n/a)',
+    };
+
+    const result = await authorizeRouteOperator(expired, 'route-1', lookups);
+
+    expect(result.status).toBe(401);
+    expect(result.error).toContain('Token has expired');
+  });
+
+  it('should reject a missing token', async () => {
+    const lookups = createLookups(activeRoute, [membership()]);
+
+    const result = await authorizeRouteOperator(
+      { authenticated: false, error: 'No authorization token provided' },
+      'route-1',
+      lookups
+    );
+
+    expect(result.status).toBe(401);
+  });
+
+  it('should reject an operator from a different brigade', async () => {
+    // User is an operator, but of brigade-b; the route belongs to brigade-a
+    const lookups = createLookups(activeRoute, [membership({ brigadeId: 'brigade-b' })]);
+
+    const result = await authorizeRouteOperator(authenticated, 'route-1', lookups);
+
+    expect(result.authorized).toBe(false);
+    expect(result.status).toBe(403);
+    expect(result.code).toBe('NOT_ROUTE_OPERATOR');
+    expect(lookups.getMembership).toHaveBeenCalledWith('user-1', 'brigade-a');
+  });
+
+  it('should reject viewer memberships', async () => {
+    const lookups = createLookups(activeRoute, [membership({ role: 'viewer' })]);
+
+    const result = await authorizeRouteOperator(authenticated, 'route-1', lookups);
+
+    expect(result.status).toBe(403);
+    expect(result.error).toContain("does not have 'start_navigation' permission");
+  });
+
+  it('should reject memberships that are not active', async () => {
+    const lookups = createLookups(activeRoute, [membership({ status: 'suspended' })]);
+
+    const result = await authorizeRouteOperator(authenticated, 'route-1', lookups);
+
+    expect(result.status).toBe(403);
+    expect(result.error).toBe('User membership is not active');
+  });
+
+  it('should return 404 for unknown routes', async () => {
+    const lookups = createLookups(null, [membership()]);
+
+    const result = await authorizeRouteOperator(authenticated, 'route-missing', lookups);
+
+    expect(result.status).toBe(404);
+    expect(result.code).toBe('ROUTE_NOT_FOUND');
+  });
+
+  it.each(['draft', 'published', 'completed', 'archived'] as const)(
+    'should reject broadcasts for %s routes',
+    async (status) => {
+      const lookups = createLookups({ ...activeRoute, status }, [membership()]);
+
+      const result = await authorizeRouteOperator(authenticated, 'route-1', lookups);
+
+      expect(result.authorized).toBe(false);
+      expect(result.status).toBe(409);
+      expect(result.code).toBe('ROUTE_NOT_ACTIVE');
+    }
+  );
+
+  it('should honour custom allowed statuses', async () => {
+    const lookups = createLookups({ ...activeRoute, status: 'published' }, [membership()]);
+
+    const result = await authorizeRouteOperator(authenticated, 'route-1', lookups, ['published', 'active']);
+
+    expect(result.authorized).toBe(true);
+  });
+
+  it('should check the required permission for live editors', async () => {
+    const draftRoute = { ...activeRoute, status: 'draft' as const };
+
+    const operator = await authorizeRouteOperator(
+      authenticated, 'route-1', createLookups(draftRoute, [membership()]), ['draft', 'published'], 'manage_routes'
+    );
+    const viewer = await authorizeRouteOperator(
+      authenticated, 'route-1', createLookups(draftRoute, [membership({ role: 'viewer' })]), ['draft', 'published'], 'manage_routes'
+    );
+
+    expect(operator.authorized).toBe(true);
+    expect(viewer.status).toBe(403);
+    expect(viewer.error).toContain("does not have 'manage_routes' permission");
+  });
+
+  it('should check membership before revealing route status', async () => {
+    const lookups = createLookups({ ...activeRoute, status: 'draft' }, []);
+
+    const result = await authorizeRouteOperator(authenticated, 'route-1', lookups);
+
+    expect(result.status).toBe(403);
+  });
+});
+
+describe('routeAccessErrorResponse', () => {
+  it('should map the access result to an HTTP response', () => {
+    const response = routeAccessErrorResponse({
+      authorized: false,
+      status: 403,
+      code: 'NOT_ROUTE_OPERATOR',
+      error: 'User is not a member of this brigade',
+    });
+
+    expect(response.status).toBe(403);
+    expect(response.jsonBody).toEqual({
+      error: 'Forbidden',
+      code: 'NOT_ROUTE_OPERATOR',
+      message: 'User is not a member of this brigade',
+    });
+  });
+});
+
+describe('getPublicRoute', () => {
+  const lookupsFor = (route: RouteSummary | null): RouteAccessLookups => ({
+    getRoute: vi.fn(async () => route),
+    getMembership: vi.fn(async () => null),
+  });
+
+  it('should report draft routes as missing', async () => {
+    const draft: RouteSummary = { id: 'route-1', brigadeId: 'brigade-a', status: 'draft' };
+    expect(await getPublicRoute('route-1', lookupsFor(draft))).toBeNull();
+    expect(await getPublicRoute('route-1', lookupsFor(null))).toBeNull();
+  });
+
+  it('should return routes that have been published', async () => {
+    const published: RouteSummary = { id: 'route-1', brigadeId: 'brigade-a', status: 'published' };
+    expect(await getPublicRoute('route-1', lookupsFor(published))).toEqual(published);
+  });
+});
+
+describe('canViewDraftRoutes', () => {
+  const lookupsWith = (status: BrigadeMembership['status'] | null): RouteAccessLookups => ({
+    getRoute: vi.fn(async () => null),
+    getMembership: vi.fn(async (userId: string, brigadeId: string): Promise<BrigadeMembership | null> => status && {
+      id: 'member-1',
+      brigadeId,
+      userId,
+      role: 'viewer',
+      status,
+      createdAt: '2024-01-01T00:00:00Z',
+      updatedAt: '2024-01-01T00:00:00Z',
+    }),
+  });
+  const signedIn: AuthResult = { authenticated: true, userId: 'user-1' };
+
+  it('should show drafts to active members of the brigade only', async () => {
+    expect(await canViewDraftRoutes(signedIn, 'brigade-a', lookupsWith('active'))).toBe(true);
+    expect(await canViewDraftRoutes(signedIn, 'brigade-a', lookupsWith('pending'))).toBe(false);
+    expect(await canViewDraftRoutes(signedIn, 'brigade-a', lookupsWith(null))).toBe(false);
+  });
+
+  it('should hide drafts from anonymous callers without a lookup', async () => {
+    const lookups = lookupsWith('active');
+    expect(await canViewDraftRoutes({ authenticated: false }, 'brigade-a', lookups)).toBe(false);
+    expect(lookups.getMembership).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,103 @@
+/**
+ * Unit tests for merging waypoint progress from several navigator devices
+ *
+ * @vitest-environment node
+ */
+
+import { describe, it, expect } from 'vitest';
+import { mergeWaypointCompletions, writeMergedProgress } from '../utils/routeProgress';
+
+describe('mergeWaypointCompletions', () => {
+  it('keeps stops another vehicle already completed', () => {
+    const stored = [
+      { id: 'wp-1', isCompleted: true, actualArrival: '2024-12-24T08:00:00.000Z', completedByVehicleId: 'truck-2' },
+      { id: 'wp-2', isCompleted: false },
+    ];
+    const incoming = [
+      { id: 'wp-1', name: 'Holly St', isCompleted: false },
+      { id: 'wp-2', name: 'Ivy St', isCompleted: true, completedByVehicleId: 'truck-1' },
+    ];
+
+    expect(mergeWaypointCompletions(stored, incoming)).toEqual([
+      { id: 'wp-1', name: 'Holly St', isCompleted: true, actualArrival: '2024-12-24T08:00:00.000Z', completedByVehicleId: 'truck-2' },
+      { id: 'wp-2', name: 'Ivy St', isCompleted: true, completedByVehicleId: 'truck-1' },
+    ]);
+  });
+
+  it('leaves stops that are new in the save untouched', () => {
+    const incoming = [{ id: 'wp-3', isCompleted: false }];
+    expect(mergeWaypointCompletions([], incoming)).toEqual(incoming);
+  });
+});
+
+describe('writeMergedProgress', () => {
+  interface StoredRoute {
+    status: string;
+    version: string;
+    waypoints: { id: string; isCompleted?: boolean; completedByVehicleId?: string }[];
+  }
+
+  /**
+   * Route table that rejects writes made against an older version, as Table Storage does
+   */
+  function createRouteStore(initial: StoredRoute) {
+    let current = initial;
+    let writes = 0;
+    return {
+      get current() {
+        return current;
+      },
+      load: async () => current,
+      write: async (waypoints: StoredRoute['waypoints'], base: StoredRoute) => {
+        // Yield so concurrent saves both read before either writes
+        await Promise.resolve();
+        if (base.version !== current.version) {
+          throw Object.assign(new Error('Precondition Failed'), { statusCode: 412 });
+        }
+        current = { ...current, waypoints, version: String(++writes + 1) };
+        return current.version;
+      },
+    };
+  }
+
+  const route: StoredRoute = {
+    status: 'active',
+    version: '1',
+    waypoints: [{ id: 'wp-1', isCompleted: false }, { id: 'wp-2', isCompleted: false }],
+  };
+
+  it('keeps both completions when two vehicles save at the same time', async () => {
+    const store = createRouteStore(route);
+    const truck1 = [{ id: 'wp-1', isCompleted: true, completedByVehicleId: 'truck-1' }, { id: 'wp-2', isCompleted: false }];
+    const truck2 = [{ id: 'wp-1', isCompleted: false }, { id: 'wp-2', isCompleted: true, completedByVehicleId: 'truck-2' }];
+
+    await Promise.all([
+      writeMergedProgress(route, truck1, store.load, store.write),
+      writeMergedProgress(route, truck2, store.load, store.write),
+    ]);
+
+    expect(store.current.waypoints).toEqual([
+      { id: 'wp-1', isCompleted: true, completedByVehicleId: 'truck-1' },
+      { id: 'wp-2', isCompleted: true, completedByVehicleId: 'truck-2' },
+    ]);
+  });
+
+  it('keeps the conflict when the route can no longer take the save', async () => {
+    const store = createRouteStore({ ...route, version: '2', status: 'completed' });
+
+    await expect(writeMergedProgress(route, route.waypoints, async () => null, store.write))
+      .rejects.toMatchObject({ statusCode: 412 });
+  });
+
+  it('keeps other storage errors thrown without retrying', async () => {
+    const notFound = Object.assign(new Error('Not Found'), { statusCode: 404 });
+    let calls = 0;
+    const write = async () => {
+      calls++;
+      throw notFound;
+    };
+
+    await expect(writeMergedProgress(route, route.waypoints, async () => route, write)).rejects.toBe(notFound);
+    expect(calls).toBe(1);
+  });
+});
@@ -0,0 +1,130 @@
+/**
+ * Unit tests for route version history
+ *
+ * @vitest-environment node
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  buildRouteRevision,
+  canRestoreRevision,
+  entityToRevision,
+  revisionToEntity,
+  summarizeRouteChanges,
+} from '../utils/routeRevisions';
+import type { RevisionWaypoint, RoutePlan } from '../utils/routeRevisions';
+
+function stop(id: string, order: number, overrides: Partial<RevisionWaypoint> = {}): RevisionWaypoint {
+  return { id, name: `Stop ${id}`, coordinates: [151 + id.charCodeAt(0) / 1000, -33.8], order, ...overrides };
+}
+
+const plan: RoutePlan & { id: string; brigadeId: string } = {
+  id: 'route-1',
+  brigadeId: 'brigade-a',
+  name: 'Christmas Eve run',
+  description: '',
+  date: '2026-12-24',
+  startTime: '18:00',
+  endTime: '',
+  waypoints: [stop('a', 0), stop('b', 1), stop('c', 2)],
+  geometry: { type: 'LineString', coordinates: [[151.097, -33.8], [151.099, -33.8]] },
+  distance: 4200,
+  estimatedDuration: 900,
+  defaultDwellMinutes: 5,
+};
+
+const author = { userId: 'user-1', name: 'Captain Jones', email: 'captain@example.gov.au' };
+const savedAt = new Date('2026-12-01T09:00:00Z');
+
+describe('summarizeRouteChanges', () => {
+  it('keeps new routes summarised by their stop count', () => {
+    expect(summarizeRouteChanges(null, plan)).toBe('Created with 3 stops');
+  });
+
+  it('keeps each kind of stop change counted', () => {
+    const after = {
+      ...plan,
+      waypoints: [
+        stop('c', 0),
+        stop('a', 1, { name: 'Town Square' }),
+        stop('d', 2),
+      ],
+    };
+
+    expect(summarizeRouteChanges(plan, after)).toBe('1 stop added, 1 stop removed, 1 stop renamed, 1 stop reordered');
+  });
+
+  it('keeps plan field changes listed after the stops', () => {
+    const after = { ...plan, date: '2026-12-23', waypoints: [stop('a', 0), stop('c', 1)] };
+
+    expect(summarizeRouteChanges(plan, after)).toBe('1 stop removed; date changed');
+  });
+
+  it('keeps progress-only saves out of the history', () => {
+    const completed = plan.waypoints.map(wp => ({ ...wp, isCompleted: true, actualArrival: '2026-12-24T18:10:00Z' }));
+
+    expect(summarizeRouteChanges(plan, { ...plan, waypoints: completed })).toBe('');
+    expect(buildRouteRevision(plan, { ...plan, waypoints: completed }, savedAt, author)).toBeNull();
+  });
+});
+
+describe('buildRouteRevision', () => {
+  it('keeps who saved the route and a snapshot of its plan', () => {
+    const revision = buildRouteRevision(null, plan, savedAt, author);
+
+    expect(revision).toMatchObject({
+      routeId: 'route-1',
+      brigadeId: 'brigade-a',
+      savedAt: '2026-12-01T09:00:00.000Z',
+      authorId: 'user-1',
+      authorName: 'Captain Jones',
+      summary: 'Created with 3 stops',
+      stopCount: 3,
+    });
+    expect(revision?.snapshot?.waypoints).toEqual(plan.waypoints);
+    expect(revision?.snapshot).not.toHaveProperty('id');
+  });
+
+  it('keeps restores in the history even when nothing changed', () => {
+    const revision = buildRouteRevision(plan, plan, savedAt, author, 'revision-1');
+
+    expect(revision?.summary).toBe('No changes');
+    expect(revision?.restoredFrom).toBe('revision-1');
+  });
+
+  it('keeps newer revisions listed first', () => {
+    const older = buildRouteRevision(null, plan, savedAt, author)!;
+    const newer = buildRouteRevision(null, plan, new Date(savedAt.getTime() + 1000), author)!;
+
+    expect(newer.id < older.id).toBe(true);
+  });
+});
+
+describe('revision entities', () => {
+  it('keeps the snapshot through a round trip to Table Storage', () => {
+    const revision = buildRouteRevision(null, plan, savedAt, author)!;
+    const entity = revisionToEntity(revision);
+
+    expect(typeof entity.waypoints).toBe('string');
+    expect(entityToRevision(entity, true)).toEqual({
+      ...revision,
+      snapshot: { ...revision.snapshot, description: undefined, endTime: undefined },
+    });
+  });
+
+  it('keeps snapshots out of history listings', () => {
+    const entity = revisionToEntity(buildRouteRevision(null, plan, savedAt, author)!);
+
+    expect(entityToRevision(entity, false)).not.toHaveProperty('snapshot');
+  });
+});
+
+describe('canRestoreRevision', () => {
+  it('keeps restores to routes whose plan can still change', () => {
+    expect(canRestoreRevision('draft')).toBe(true);
+    expect(canRestoreRevision('published')).toBe(true);
+    expect(canRestoreRevision('active')).toBe(false);
+    expect(canRestoreRevision('completed')).toBe(false);
+    expect(canRestoreRevision('archived')).toBe(false);
+  });
+});
@@ -0,0 +1,86 @@
+/**
+ * Unit tests for the route status state machine
+ *
+ * @vitest-environment node
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  applyRouteTransition,
+  checkRouteTransition,
+  findRouteTransition,
+} from '../utils/routeStatus';
+import type { TransitionableRoute } from '../utils/routeStatus';
+
+const route = (overrides: Partial<TransitionableRoute> = {}): TransitionableRoute => ({
+  status: 'draft',
+  name: 'Christmas Eve Run',
+  date: '2026-12-24',
+  waypoints: [{}, {}],
+  ...overrides,
+});
+
+const now = new Date('2026-12-24T19:30:00.000Z');
+
+describe('checkRouteTransition', () => {
+  it('keeps each transition to its allowed starting status', () => {
+    expect(checkRouteTransition(route(), 'publish')).toEqual({ ok: true, to: 'published' });
+    expect(checkRouteTransition(route({ status: 'published' }), 'start')).toEqual({ ok: true, to: 'active' });
+    expect(checkRouteTransition(route({ status: 'active' }), 'complete')).toEqual({ ok: true, to: 'completed' });
+    expect(checkRouteTransition(route({ status: 'completed' }), 'archive')).toEqual({ ok: true, to: 'archived' });
+    expect(checkRouteTransition(route({ status: 'published' }), 'revert-to-draft')).toEqual({ ok: true, to: 'draft' });
+  });
+
+  it('keeps out-of-order transitions out with INVALID_TRANSITION', () => {
+    const result = checkRouteTransition(route({ status: 'draft' }), 'start');
+
+    expect(result).toMatchObject({ ok: false, httpStatus: 409, code: 'INVALID_TRANSITION' });
+    expect(checkRouteTransition(route({ status: 'active' }), 'revert-to-draft')).toMatchObject({ code: 'INVALID_TRANSITION' });
+    expect(checkRouteTransition(route({ status: 'archived' }), 'publish')).toMatchObject({ code: 'INVALID_TRANSITION' });
+  });
+
+  it('keeps incomplete routes from being published', () => {
+    const result = checkRouteTransition(route({ name: ' ', waypoints: [{}] }), 'publish');
+
+    expect(result).toMatchObject({ ok: false, httpStatus: 422, code: 'ROUTE_INCOMPLETE' });
+    expect(result.ok === false && result.message).toBe('Route needs a name, at least 2 waypoints before it can be published');
+  });
+
+  it('keeps unknown transitions out with UNKNOWN_TRANSITION', () => {
+    expect(checkRouteTransition(route(), 'teleport')).toMatchObject({ ok: false, httpStatus: 400, code: 'UNKNOWN_TRANSITION' });
+  });
+});
+
+describe('findRouteTransition', () => {
+  it('keeps status changes mapped to their transition', () => {
+    expect(findRouteTransition('published', 'active')).toBe('start');
+    expect(findRouteTransition('published', 'draft')).toBe('revert-to-draft');
+    expect(findRouteTransition('draft', 'completed')).toBeNull();
+  });
+});
+
+describe('applyRouteTransition', () => {
+  it('keeps lifecycle timestamps on the server clock', () => {
+    expect(applyRouteTransition(route({ publishedAt: '2020-01-01T00:00:00.000Z' }), 'publish', now))
+      .toMatchObject({ status: 'published', publishedAt: now.toISOString() });
+    expect(applyRouteTransition(route({ status: 'published' }), 'start', now))
+      .toMatchObject({ status: 'active', startedAt: now.toISOString() });
+  });
+
+  it('keeps the actual duration in step with the completion time', () => {
+    const completed = applyRouteTransition(
+      route({ status: 'active', startedAt: '2026-12-24T18:00:00.000Z' }),
+      'complete',
+      now
+    );
+
+    expect(completed).toMatchObject({ status: 'completed', completedAt: now.toISOString(), actualDuration: 5400 });
+  });
+
+  it('keeps a reverted route unpublished', () => {
+    const reverted = applyRouteTransition(route({ status: 'published', publishedAt: now.toISOString() }), 'revert-to-draft', now);
+
+    expect(reverted.status).toBe('draft');
+    expect(reverted.publishedAt).toBeUndefined();
+  });
+});
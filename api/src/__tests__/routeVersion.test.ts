@@ -0,0 +1,87 @@
+/**
+ * Unit tests for route edit version checks
+ *
+ * @vitest-environment node
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { checkRouteVersion, isVersionCheckedEdit, writeIfUnchanged } from '../utils/routeVersion';
+
+const etag = `W/"datetime'2026-12-01T09%3A00%3A00.000Z'"`;
+
+describe('isVersionCheckedEdit', () => {
+  it('keeps checks to plan edits that leave the status alone', () => {
+    expect(isVersionCheckedEdit('draft', 'draft')).toBe(true);
+    expect(isVersionCheckedEdit('published', 'published')).toBe(true);
+    expect(isVersionCheckedEdit('published', 'active')).toBe(false);
+    expect(isVersionCheckedEdit('active', 'active')).toBe(false);
+    expect(isVersionCheckedEdit('completed', 'completed')).toBe(false);
+  });
+});
+
+describe('checkRouteVersion', () => {
+  it('keeps If-Match required on every save', () => {
+    expect(checkRouteVersion(null, { status: 'active', version: etag }, 'active')).toMatchObject({
+      ok: false,
+      httpStatus: 428,
+      code: 'VERSION_REQUIRED',
+    });
+  });
+
+  it('keeps a stale edit from overwriting a newer version', () => {
+    expect(checkRouteVersion('W/"older"', { status: 'draft', version: etag }, 'draft')).toMatchObject({
+      ok: false,
+      httpStatus: 412,
+      code: 'VERSION_CONFLICT',
+    });
+  });
+
+  it('keeps matching edits accepted', () => {
+    expect(checkRouteVersion(etag, { status: 'published', version: etag }, 'published')).toEqual({ ok: true });
+  });
+
+  it('keeps "*" as an explicit overwrite', () => {
+    expect(checkRouteVersion('*', { status: 'draft', version: etag }, 'draft')).toEqual({ ok: true });
+  });
+
+  it('keeps navigator saves and transitions from being compared with the client version', () => {
+    expect(checkRouteVersion('W/"older"', { status: 'active', version: etag }, 'active')).toEqual({ ok: true });
+    expect(checkRouteVersion('W/"older"', { status: 'published', version: etag }, 'active')).toEqual({ ok: true });
+  });
+});
+
+describe('writeIfUnchanged', () => {
+  const current = { id: 'route-1', status: 'active', version: 'W/"newer"' };
+
+  it('keeps the write result when the version still matches', async () => {
+    const loadCurrent = vi.fn();
+    const write = await writeIfUnchanged(async () => ({ etag }), loadCurrent);
+
+    expect(write).toEqual({ ok: true, result: { etag } });
+    expect(loadCurrent).not.toHaveBeenCalled();
+  });
+
+  it('keeps a concurrent change from being overwritten, returning the route as it is now', async () => {
+    const write = await writeIfUnchanged(
+      () => Promise.reject(Object.assign(new Error('Precondition Failed'), { statusCode: 412 })),
+      async () => current,
+      'Someone else changed this route while its status was being changed'
+    );
+
+    expect(write).toEqual({
+      ok: false,
+      httpStatus: 412,
+      body: {
+        error: 'Route version mismatch',
+        code: 'VERSION_CONFLICT',
+        message: 'Someone else changed this route while its status was being changed',
+        current,
+      },
+    });
+  });
+
+  it('keeps other storage errors thrown', async () => {
+    const notFound = Object.assign(new Error('Not Found'), { statusCode: 404 });
+    await expect(writeIfUnchanged(() => Promise.reject(notFound), async () => current)).rejects.toBe(notFound);
+  });
+});
@@ -0,0 +1,215 @@
+/**
+ * Unit tests for tracking page viewer analytics
+ *
+ * @vitest-environment node
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  HEARTBEAT_INTERVAL_MS,
+  applyConnectionSamples,
+  applyViewerEvent,
+  hashViewerId,
+  roundViewerArea,
+  summarizeViewerSessions,
+  validateViewerEvent,
+} from '../utils/viewerAnalytics';
+import type { ViewerSession } from '../utils/viewerAnalytics';
+
+const MINUTE = 60 * 1000;
+const START = Date.UTC(2026, 11, 24, 8, 0);
+
+function session(overrides: Partial<ViewerSession>): ViewerSession {
+  return {
+    sessionId: 'session-1',
+    viewerHash: 'viewer-a',
+    openedAt: START,
+    lastSeenAt: START,
+    closed: true,
+    embed: false,
+    ...overrides,
+  };
+}
+
+describe('validateViewerEvent', () => {
+  it('keeps only known fields and snaps the area to the grid', () => {
+    const result = validateViewerEvent({
+      sessionId: 'session-1234',
+      viewerId: 'viewer-1234',
+      event: 'open',
+      timeZone: 'Australia/Sydney',
+      area: [146.0412, -34.2788],
+      ipAddress: '203.0.113.9',
+    });
+
+    expect(result).toEqual({
+      valid: true,
+      event: {
+        sessionId: 'session-1234',
+        viewerId: 'viewer-1234',
+        event: 'open',
+        embed: false,
+        timeZone: 'Australia/Sydney',
+        area: [146.05, -34.3],
+      },
+    });
+  });
+
+  it('rejects unknown events and malformed IDs', () => {
+    expect(validateViewerEvent({ sessionId: 'session-1234', viewerId: 'viewer-1234', event: 'click' }).valid).toBe(false);
+    expect(validateViewerEvent({ sessionId: 'x', viewerId: 'viewer-1234', event: 'open' }).valid).toBe(false);
+    expect(validateViewerEvent(null).valid).toBe(false);
+  });
+
+  it('drops an out-of-range area instead of rejecting the event', () => {
+    const result = validateViewerEvent({ sessionId: 'session-1234', viewerId: 'viewer-1234', event: 'open', area: [200, 0] });
+    expect(result.valid && result.event.area).toBeUndefined();
+  });
+});
+
+describe('hashViewerId', () => {
+  it('keeps the same browser distinct across routes', () => {
+    expect(hashViewerId('route-1', 'viewer-1234')).toBe(hashViewerId('route-1', 'viewer-1234'));
+    expect(hashViewerId('route-1', 'viewer-1234')).not.toBe(hashViewerId('route-2', 'viewer-1234'));
+    expect(hashViewerId('route-1', 'viewer-1234')).not.toContain('viewer-1234');
+  });
+});
+
+describe('roundViewerArea', () => {
+  it('snaps to the 0.05 degree grid', () => {
+    expect(roundViewerArea([151.2093, -33.8688])).toEqual([151.2, -33.85]);
+  });
+});
+
+describe('applyViewerEvent', () => {
+  const event = { sessionId: 'session-1234', viewerId: 'viewer-1234', embed: true };
+
+  it('starts a session on open and marks it connected on the first heartbeat', () => {
+    const opened = applyViewerEvent(null, 'route-1', { ...event, event: 'open' }, START);
+    expect(opened).toMatchObject({ openedAt: START, lastSeenAt: START, closed: false, embed: true });
+    expect(opened.connectedAt).toBeUndefined();
+
+    const connected = applyViewerEvent(opened, 'route-1', { ...event, event: 'heartbeat' }, START + 5000);
+    const later = applyViewerEvent(connected, 'route-1', { ...event, event: 'heartbeat' }, START + MINUTE);
+    expect(later).toMatchObject({ connectedAt: START + 5000, lastSeenAt: START + MINUTE });
+
+    expect(applyViewerEvent(later, 'route-1', { ...event, event: 'close' }, START + 2 * MINUTE).closed).toBe(true);
+  });
+});
+
+describe('summarizeViewerSessions', () => {
+  it('keeps an empty summary for a route nobody opened', () => {
+    expect(summarizeViewerSessions('route-1', [], START)).toMatchObject({
+      opens: 0,
+      uniqueViewers: 0,
+      peakConcurrent: 0,
+      averageSessionSeconds: 0,
+      timeline: [],
+    });
+  });
+
+  it('counts unique viewers, embeds and the average session', () => {
+    const summary = summarizeViewerSessions('route-1', [
+      session({ sessionId: 's1', viewerHash: 'a', lastSeenAt: START + 2 * MINUTE }),
+      session({ sessionId: 's2', viewerHash: 'a', lastSeenAt: START + 4 * MINUTE, embed: true }),
+      session({ sessionId: 's3', viewerHash: 'b', lastSeenAt: START }),
+    ], START + 10 * MINUTE);
+
+    expect(summary).toMatchObject({ opens: 3, uniqueViewers: 2, embedOpens: 1, averageSessionSeconds: 120 });
+  });
+
+  it('finds the peak of overlapping connections', () => {
+    const summary = summarizeViewerSessions('route-1', [
+      session({ sessionId: 's1', connectedAt: START, lastSeenAt: START + 10 * MINUTE }),
+      session({ sessionId: 's2', connectedAt: START + 2 * MINUTE, lastSeenAt: START + 5 * MINUTE }),
+      session({ sessionId: 's3', connectedAt: START + 4 * MINUTE, lastSeenAt: START + 6 * MINUTE }),
+      // Connected right as s3 dropped, so it doesn't count alongside it
+      session({ sessionId: 's4', connectedAt: START + 6 * MINUTE, lastSeenAt: START + 7 * MINUTE }),
+      session({ sessionId: 's5' }),
+    ], START + 20 * MINUTE);
+
+    expect(summary.peakConcurrent).toBe(3);
+    expect(summary.peakAt).toBe(START + 4 * MINUTE);
+  });
+
+  it('keeps open sessions connected until their next heartbeat is due', () => {
+    const now = START + 30 * MINUTE;
+    const summary = summarizeViewerSessions('route-1', [
+      session({ connectedAt: START, lastSeenAt: START + 10 * MINUTE, closed: false }),
+    ], now);
+
+    const last = summary.timeline[summary.timeline.length - 1];
+    expect(last.time).toBeLessThanOrEqual(START + 10 * MINUTE + HEARTBEAT_INTERVAL_MS);
+    expect(summary.timeline.every(point => point.viewers === 1)).toBe(true);
+  });
+
+  it('buckets the timeline in five minute steps', () => {
+    const summary = summarizeViewerSessions('route-1', [
+      session({ sessionId: 's1', connectedAt: START, lastSeenAt: START + 12 * MINUTE }),
+      session({ sessionId: 's2', connectedAt: START + 6 * MINUTE, lastSeenAt: START + 8 * MINUTE }),
+    ], START + 60 * MINUTE);
+
+    expect(summary.timeline).toEqual([
+      { time: START, viewers: 1 },
+      { time: START + 5 * MINUTE, viewers: 2 },
+      { time: START + 10 * MINUTE, viewers: 1 },
+    ]);
+  });
+
+  it('groups geography by distinct viewers', () => {
+    const summary = summarizeViewerSessions('route-1', [
+      session({ sessionId: 's1', viewerHash: 'a', area: [146.05, -34.3], timeZone: 'Australia/Sydney' }),
+      session({ sessionId: 's2', viewerHash: 'a', area: [146.05, -34.3], timeZone: 'Australia/Sydney' }),
+      session({ sessionId: 's3', viewerHash: 'b', area: [146.1, -34.3], timeZone: 'Australia/Sydney' }),
+      session({ sessionId: 's4', viewerHash: 'c', timeZone: 'Europe/London' }),
+    ], START);
+
+    expect(summary.areas).toEqual([
+      { location: [146.05, -34.3], viewers: 1 },
+      { location: [146.1, -34.3], viewers: 1 },
+    ]);
+    expect(summary.timeZones).toEqual([
+      { timeZone: 'Australia/Sydney', viewers: 2 },
+      { timeZone: 'Europe/London', viewers: 1 },
+    ]);
+  });
+});
+
+describe('applyConnectionSamples', () => {
+  const summary = summarizeViewerSessions('route-1', [
+    session({ connectedAt: START, lastSeenAt: START + 30 * MINUTE }),
+  ], START + 30 * MINUTE);
+
+  it('keeps peak concurrency to what the service counted, not what pages reported', () => {
+    const measured = applyConnectionSamples(summary, [
+      { time: START, viewers: 4 },
+      { time: START + MINUTE, viewers: 9 },
+      { time: START + 2 * MINUTE, viewers: 9 },
+      { time: START + 3 * MINUTE, viewers: 2 },
+    ]);
+
+    expect(measured.peakConcurrent).toBe(9);
+    expect(measured.peakAt).toBe(START + MINUTE);
+    expect(measured.opens).toBe(summary.opens);
+  });
+
+  it('keeps the busiest sample in each five minute bucket', () => {
+    const measured = applyConnectionSamples(summary, [
+      { time: START, viewers: 1 },
+      { time: START + 3 * MINUTE, viewers: 5 },
+      { time: START + 6 * MINUTE, viewers: 2 },
+      { time: START + 16 * MINUTE, viewers: 3 },
+    ]);
+
+    expect(measured.timeline).toEqual([
+      { time: START, viewers: 5 },
+      { time: START + 5 * MINUTE, viewers: 2 },
+      { time: START + 10 * MINUTE, viewers: 0 },
+      { time: START + 15 * MINUTE, viewers: 3 },
+    ]);
+  });
+
+  it('keeps a route that never went live at zero', () => {
+    expect(applyConnectionSamples(summary, [])).toMatchObject({ peakConcurrent: 0, peakAt: undefined, timeline: [] });
+  });
+});
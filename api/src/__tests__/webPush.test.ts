@@ -0,0 +1,182 @@
+/**
+ * Unit tests for Web Push payload encryption and VAPID signing
+ *
+ * @vitest-environment node
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { createDecipheriv, createECDH, createPublicKey, hkdfSync, randomBytes, verify } from 'crypto';
+import {
+  createVapidAuthorization,
+  encryptPushPayload,
+  forEachConcurrently,
+  getVapidConfig,
+  sendWebPush,
+} from '../utils/webPush';
+
+function createBrowserKeys() {
+  const ecdh = createECDH('prime256v1');
+  const publicKey = ecdh.generateKeys();
+  const authSecret = randomBytes(16);
+  return {
+    ecdh,
+    keys: { p256dh: publicKey.toString('base64url'), auth: authSecret.toString('base64url') },
+  };
+}
+
+/**
+ * What a browser does on receipt (RFC 8291 section 3.4, single record)
+ */
+function decrypt(body: Buffer, browser: ReturnType<typeof createBrowserKeys>): string {
+  const salt = body.subarray(0, 16);
+  const idLength = body.readUInt8(20);
+  const serverPublicKey = body.subarray(21, 21 + idLength);
+  const ciphertext = body.subarray(21 + idLength);
+
+  const userAgentPublicKey = Buffer.from(browser.keys.p256dh, 'base64url');
+  const sharedSecret = browser.ecdh.computeSecret(serverPublicKey);
+  const keyInfo = Buffer.concat([Buffer.from('WebPush: info\0'), userAgentPublicKey, serverPublicKey]);
+  const ikm = Buffer.from(hkdfSync('sha256', sharedSecret, Buffer.from(browser.keys.auth, 'base64url'), keyInfo, 32));
+  const key = Buffer.from(hkdfSync('sha256', ikm, salt, Buffer.from('Content-Encoding: aes128gcm\0'), 16));
+  const nonce = Buffer.from(hkdfSync('sha256', ikm, salt, Buffer.from('Content-Encoding: nonce\0'), 12));
+
+  const decipher = createDecipheriv('aes-128-gcm', key, nonce);
+  decipher.setAuthTag(ciphertext.subarray(ciphertext.length - 16));
+  const padded = Buffer.concat([decipher.update(ciphertext.subarray(0, ciphertext.length - 16)), decipher.final()]);
+
+  expect(padded[padded.length - 1]).toBe(2);
+  return padded.subarray(0, padded.length - 1).toString('utf8');
+}
+
+function createVapidKeys() {
+  const ecdh = createECDH('prime256v1');
+  ecdh.generateKeys();
+  return {
+    publicKey: ecdh.getPublicKey().toString('base64url'),
+    privateKey: ecdh.getPrivateKey().toString('base64url'),
+    subject: 'mailto:santa@example.org',
+  };
+}
+
+describe('encryptPushPayload', () => {
+  it('produces a body the subscribing browser can decrypt', () => {
+    const browser = createBrowserKeys();
+    const body = encryptPushPayload('{"title":"Santa is near"}', browser.keys);
+
+    expect(body.readUInt32BE(16)).toBe(4096);
+    expect(decrypt(body, browser)).toBe('{"title":"Santa is near"}');
+  });
+
+  it('uses a fresh server key for every message', () => {
+    const browser = createBrowserKeys();
+    const first = encryptPushPayload('hello', browser.keys);
+    const second = encryptPushPayload('hello', browser.keys);
+
+    expect(first.subarray(21, 86).equals(second.subarray(21, 86))).toBe(false);
+  });
+
+  it('rejects payloads that do not fit in one record', () => {
+    expect(() => encryptPushPayload('x'.repeat(4000), createBrowserKeys().keys)).toThrow(/too large/);
+  });
+});
+
+describe('createVapidAuthorization', () => {
+  it('signs a JWT for the push service origin with the VAPID key', () => {
+    const vapid = createVapidKeys();
+    const now = Date.UTC(2024, 11, 24, 18);
+    const header = createVapidAuthorization('https://push.example.com/send/abc', vapid, now);
+
+    const match = /^vapid t=([^.]+)\.([^.]+)\.([^,]+), k=(.+)$/.exec(header);
+    expect(match).not.toBeNull();
+    const [, encodedHeader, encodedClaims, signature, key] = match!;
+
+    expect(key).toBe(vapid.publicKey);
+    expect(JSON.parse(Buffer.from(encodedClaims, 'base64url').toString())).toEqual({
+      aud: 'https://push.example.com',
+      exp: now / 1000 + 12 * 60 * 60,
+      sub: 'mailto:santa@example.org',
+    });
+
+    const publicKey = Buffer.from(vapid.publicKey, 'base64url');
+    const verifier = createPublicKey({
+      key: {
+        kty: 'EC',
+        crv: 'P-256',
+        x: publicKey.subarray(1, 33).toString('base64url'),
+        y: publicKey.subarray(33, 65).toString('base64url'),
+      },
+      format: 'jwk',
+    });
+    expect(verify(
+      'sha256',
+      Buffer.from(`${encodedHeader}.${encodedClaims}`),
+      { key: verifier, dsaEncoding: 'ieee-p1363' },
+      Buffer.from(signature, 'base64url')
+    )).toBe(true);
+  });
+});
+
+describe('sendWebPush', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('gives up on a push service that does not answer', async () => {
+    const fetchMock = vi.fn().mockResolvedValue(new Response(null, { status: 201 }));
+    vi.stubGlobal('fetch', fetchMock);
+
+    const result = await sendWebPush(
+      { endpoint: 'https://fcm.googleapis.com/fcm/send/abc', keys: createBrowserKeys().keys },
+      '{}',
+      createVapidKeys()
+    );
+
+    expect(result).toEqual({ statusCode: 201, gone: false });
+    expect(fetchMock.mock.calls[0][1].signal).toBeInstanceOf(AbortSignal);
+  });
+});
+
+describe('forEachConcurrently', () => {
+  it('runs every task with no more than the limit in flight', async () => {
+    let running = 0;
+    let peak = 0;
+    const done: number[] = [];
+
+    await forEachConcurrently([1, 2, 3, 4, 5, 6, 7], 3, async item => {
+      running++;
+      peak = Math.max(peak, running);
+      await new Promise(resolve => setTimeout(resolve, 1));
+      running--;
+      done.push(item);
+    });
+
+    expect(peak).toBe(3);
+    expect(done.sort()).toEqual([1, 2, 3, 4, 5, 6, 7]);
+  });
+
+  it('starts no new tasks once the signal aborts', async () => {
+    const controller = new AbortController();
+    const started: number[] = [];
+
+    await forEachConcurrently([1, 2, 3, 4, 5], 2, async item => {
+      started.push(item);
+      if (item === 2) {
+        controller.abort();
+      }
+      await new Promise(resolve => setTimeout(resolve, 1));
+    }, controller.signal);
+
+    expect(started).toEqual([1, 2]);
+  });
+});
+
+describe('getVapidConfig', () => {
+  it('returns null unless every VAPID setting is present', () => {
+    expect(getVapidConfig({ VAPID_PUBLIC_KEY: 'a', VAPID_PRIVATE_KEY: 'b' })).toBeNull();
+    expect(getVapidConfig({ VAPID_PUBLIC_KEY: 'a', VAPID_PRIVATE_KEY: 'b', VAPID_SUBJECT: 'mailto:x' })).toEqual({
+      publicKey: 'a',
+      privateKey: 'b',
+      subject: 'mailto:x',
+    });
+  });
+});
@@ -3,7 +3,8 @@
  * /api/site-admin/verification - Admin Verification Management API (Site Owner Only)
  * 
  * Handles site owner review and approval/rejection of admin verification requests.
- * These endpoints should be protected by authentication in production.
+ * Every endpoint requires a site owner with the `review_verifications` permission,
+ * and the reviewer recorded on a decision is always the signed-in caller.
  * 
  * Endpoints:
  * - GET /api/site-admin/verification/pending - List pending verification requests
@@ -16,6 +17,9 @@
 
 import { app, HttpRequest, HttpResponseInit, InvocationContext } from '@azure/functions';
 import { TableClient } from '@azure/data-tables';
+import { validateToken } from './utils/auth';
+import { writeAuditEvent } from './utils/auditLog';
+import { authorizeSiteOwner } from './utils/siteOwners';
 import { getTableClient, isDevMode } from './utils/storage';
 
 const VERIFICATION_TABLE = isDevMode ? 'dev-verificationrequests' : 'verificationrequests';
@@ -72,6 +76,11 @@ function verificationRequestToEntity(request: any) {
 // GET /api/site-admin/verification/pending
 async function getPendingVerifications(request: HttpRequest, context: InvocationContext): Promise<HttpResponseInit> {
   try {
+    const access = await authorizeSiteOwner(await validateToken(request), 'review_verifications');
+    if (!access.authorized) {
+      return access.response;
+    }
+
     const client = await getVerificationTableClient();
     
     // Query all pending verifications
@@ -116,6 +125,11 @@ async function getPendingVerifications(request: HttpRequest, context: Invocation
 // GET /api/site-admin/verification/requests/{requestId}?userId=xxx
 async function getVerificationRequestDetails(request: HttpRequest, context: InvocationContext): Promise<HttpResponseInit> {
   try {
+    const access = await authorizeSiteOwner(await validateToken(request), 'review_verifications');
+    if (!access.authorized) {
+      return access.response;
+    }
+
     const requestId = request.params.requestId;
     const userId = request.query.get('userId');
 
@@ -159,14 +173,20 @@ async function getVerificationRequestDetails(request: HttpRequest, context: Invo
 // POST /api/site-admin/verification/requests/{requestId}/approve?userId=xxx
 async function approveVerification(request: HttpRequest, context: InvocationContext): Promise<HttpResponseInit> {
   try {
+    const authResult = await validateToken(request);
+    const access = await authorizeSiteOwner(authResult, 'review_verifications');
+    if (!access.authorized) {
+      return access.response;
+    }
+
     const requestId = request.params.requestId;
     const userId = request.query.get('userId');
     const approvalData = await request.json() as any;
 
-    if (!requestId || !userId || !approvalData.reviewedBy) {
+    if (!requestId || !userId) {
       return {
         status: 400,
-        jsonBody: { error: 'Missing required parameters: requestId, userId, reviewedBy' }
+        jsonBody: { error: 'Missing required parameters: requestId, userId' }
       };
     }
 
@@ -199,7 +219,7 @@ async function approveVerification(request: HttpRequest, context: InvocationCont
     // Approve verification
     const now = new Date().toISOString();
     verificationRequest.status = 'approved';
-    verificationRequest.reviewedBy = approvalData.reviewedBy;
+    verificationRequest.reviewedBy = authResult.userId;
     verificationRequest.reviewedAt = now;
     verificationRequest.reviewNotes = approvalData.reviewNotes;
     verificationRequest.updatedAt = now;
@@ -224,6 +244,17 @@ async function approveVerification(request: HttpRequest, context: InvocationCont
 
     context.log(`Approved verification request: ${requestId} for user: ${userId}`);
 
+    await writeAuditEvent({
+      eventType: 'verification.approved',
+      message: `${authResult.email || authResult.userId} approved ${verificationRequest.email}'s verification`,
+      brigadeId: verificationRequest.brigadeId,
+      userId: authResult.userId,
+      userEmail: authResult.email,
+      targetUserId: userId,
+      resourceId: requestId,
+      metadata: { reviewNotes: verificationRequest.reviewNotes },
+    }, context);
+
     return {
       status: 200,
       jsonBody: verificationRequest
@@ -252,14 +283,20 @@ async function approveVerification(request: HttpRequest, context: InvocationCont
 // POST /api/site-admin/verification/requests/{requestId}/reject?userId=xxx
 async function rejectVerification(request: HttpRequest, context: InvocationContext): Promise<HttpResponseInit> {
   try {
+    const authResult = await validateToken(request);
+    const access = await authorizeSiteOwner(authResult, 'review_verifications');
+    if (!access.authorized) {
+      return access.response;
+    }
+
     const requestId = request.params.requestId;
     const userId = request.query.get('userId');
     const rejectionData = await request.json() as any;
 
-    if (!requestId || !userId || !rejectionData.reviewedBy) {
+    if (!requestId || !userId) {
       return {
         status: 400,
-        jsonBody: { error: 'Missing required parameters: requestId, userId, reviewedBy' }
+        jsonBody: { error: 'Missing required parameters: requestId, userId' }
       };
     }
 
@@ -279,7 +316,7 @@ async function rejectVerification(request: HttpRequest, context: InvocationConte
     // Reject verification
     const now = new Date().toISOString();
     verificationRequest.status = 'rejected';
-    verificationRequest.reviewedBy = rejectionData.reviewedBy;
+    verificationRequest.reviewedBy = authResult.userId;
     verificationRequest.reviewedAt = now;
     verificationRequest.reviewNotes = rejectionData.reviewNotes;
     verificationRequest.updatedAt = now;
@@ -288,6 +325,17 @@ async function rejectVerification(request: HttpRequest, context: InvocationConte
 
     context.log(`Rejected verification request: ${requestId} for user: ${userId}`);
 
+    await writeAuditEvent({
+      eventType: 'verification.rejected',
+      message: `${authResult.email || authResult.userId} rejected ${verificationRequest.email}'s verification`,
+      brigadeId: verificationRequest.brigadeId,
+      userId: authResult.userId,
+      userEmail: authResult.email,
+      targetUserId: userId,
+      resourceId: requestId,
+      metadata: { reviewNotes: verificationRequest.reviewNotes },
+    }, context);
+
     return {
       status: 200,
       jsonBody: verificationRequest
@@ -316,28 +364,28 @@ async function rejectVerification(request: HttpRequest, context: InvocationConte
 // Register HTTP endpoints
 app.http('admin-verification-pending', {
   methods: ['GET'],
-  authLevel: 'anonymous', // TODO: Change to 'function' in production with proper auth
+  authLevel: 'anonymous',
   route: 'site-admin/verification/pending',
   handler: getPendingVerifications
 });
 
 app.http('admin-verification-get', {
   methods: ['GET'],
-  authLevel: 'anonymous', // TODO: Change to 'function' in production with proper auth
+  authLevel: 'anonymous',
   route: 'site-admin/verification/requests/{requestId}',
   handler: getVerificationRequestDetails
 });
 
 app.http('admin-verification-approve', {
   methods: ['POST'],
-  authLevel: 'anonymous', // TODO: Change to 'function' in production with proper auth
+  authLevel: 'anonymous',
   route: 'site-admin/verification/requests/{requestId}/approve',
   handler: approveVerification
 });
 
 app.http('admin-verification-reject', {
   methods: ['POST'],
-  authLevel: 'anonymous', // TODO: Change to 'function' in production with proper auth
+  authLevel: 'anonymous',
   route: 'site-admin/verification/requests/{requestId}/reject',
   handler: rejectVerification
 });
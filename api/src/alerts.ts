@@ -0,0 +1,209 @@
+/**
+ * "Notify me when Santa is near" push subscriptions
+ *
+ * GET /api/alerts/vapid-public-key
+ *   The VAPID public key browsers subscribe with (503 if push is not configured).
+ *
+ * POST /api/routes/{id}/alerts
+ *   Subscribe a point to a single alert when Santa is about 5 minutes away.
+ *   Public endpoint (no authentication) - the route must be published or active.
+ *   Each IP address may subscribe a few times every 10 minutes, and hold at most
+ *   MAX_SUBSCRIPTIONS_PER_CLIENT pending alerts per route.
+ *   Body: { subscription: PushSubscriptionJSON, location: [lng, lat], label? }
+ *   Returns: { id, routeId, unsubscribeUrl } (a tracking page link that turns the alert off)
+ *
+ * DELETE /api/routes/{id}/alerts/{subscriptionId}
+ *   Unsubscribe. The random subscription ID is the only credential, so it is
+ *   only ever given to the subscribing browser and embedded in its alert.
+ *
+ * Alerts are sent from /api/broadcast, and subscriptions are purged when the
+ * route is completed, archived or deleted.
+ */
+
+import { app, HttpRequest, HttpResponseInit, InvocationContext } from '@azure/functions';
+import { getPublicRoute } from './utils/routeAccess';
+import { getVapidConfig } from './utils/webPush';
+import {
+  MAX_SUBSCRIPTIONS_PER_CLIENT,
+  MAX_SUBSCRIPTIONS_PER_ROUTE,
+  validateNearbyAlertRequest,
+} from './utils/nearbyAlerts';
+import {
+  createPushSubscription,
+  deletePushSubscription,
+  listPendingPushSubscriptions,
+} from './utils/pushSubscriptions';
+import { createRateLimiter } from './utils/rateLimit';
+import { getClientIp, hashClientIp } from './utils/clientIp';
+
+// Anyone can subscribe, so each IP address gets a small allowance
+const subscribeLimiter = createRateLimiter({ limit: 10, windowMs: 10 * 60 * 1000 });
+
+export async function getVapidPublicKey(_request: HttpRequest, _context: InvocationContext): Promise<HttpResponseInit> {
+  const vapid = getVapidConfig();
+  if (!vapid) {
+    return {
+      status: 503,
+      jsonBody: { error: 'Push notifications are not configured' }
+    };
+  }
+
+  return {
+    status: 200,
+    jsonBody: { publicKey: vapid.publicKey }
+  };
+}
+
+export async function subscribeToAlerts(request: HttpRequest, context: InvocationContext): Promise<HttpResponseInit> {
+  try {
+    const routeId = request.params.id;
+    if (!routeId) {
+      return {
+        status: 400,
+        jsonBody: { error: 'Missing required parameter: id' }
+      };
+    }
+
+    if (!getVapidConfig()) {
+      return {
+        status: 503,
+        jsonBody: { error: 'Push notifications are not configured' }
+      };
+    }
+
+    const ipKey = getClientIp(request) || 'unknown';
+    if (subscribeLimiter.take(ipKey) === 0) {
+      context.warn(`Throttled nearby alert subscriptions from ${ipKey}`);
+      return {
+        status: 429,
+        headers: { 'Retry-After': String(subscribeLimiter.retryAfterSeconds(ipKey)) },
+        jsonBody: { error: 'Too many requests', message: 'Too many alert sign-ups; try again later' }
+      };
+    }
+
+    const validation = validateNearbyAlertRequest(await request.json());
+    if (!validation.valid) {
+      return {
+        status: 400,
+        jsonBody: { error: validation.error }
+      };
+    }
+
+    const route = await getPublicRoute(routeId);
+    if (!route) {
+      return {
+        status: 404,
+        jsonBody: { error: 'Route not found' }
+      };
+    }
+
+    if (route.status !== 'published' && route.status !== 'active') {
+      return {
+        status: 409,
+        jsonBody: { error: 'This Santa run has finished' }
+      };
+    }
+
+    const pending = await listPendingPushSubscriptions(routeId);
+    if (pending.length >= MAX_SUBSCRIPTIONS_PER_ROUTE) {
+      return {
+        status: 429,
+        jsonBody: { error: 'Too many alerts for this route' }
+      };
+    }
+
+    // Re-subscribing the same browser replaces its pin, so it doesn't count against the cap
+    const clientKey = hashClientIp(ipKey);
+    const fromClient = pending.filter(s =>
+      s.clientKey === clientKey && s.target.endpoint !== validation.request.subscription.endpoint
+    );
+    if (fromClient.length >= MAX_SUBSCRIPTIONS_PER_CLIENT) {
+      return {
+        status: 429,
+        jsonBody: { error: 'Too many alerts from this network for this route' }
+      };
+    }
+
+    const subscription = await createPushSubscription(routeId, validation.request, clientKey);
+
+    context.log(`Created nearby alert ${subscription.id} for route: ${routeId}`);
+
+    return {
+      status: 201,
+      jsonBody: {
+        id: subscription.id,
+        routeId,
+        unsubscribeUrl: `/track/${encodeURIComponent(routeId)}?unsubscribe=${encodeURIComponent(subscription.id)}`,
+      }
+    };
+
+  } catch (error) {
+    context.error('Error creating nearby alert:', error);
+    return {
+      status: 500,
+      jsonBody: {
+        error: 'Failed to create alert',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      }
+    };
+  }
+}
+
+export async function unsubscribeFromAlerts(request: HttpRequest, context: InvocationContext): Promise<HttpResponseInit> {
+  try {
+    const routeId = request.params.id;
+    const subscriptionId = request.params.subscriptionId;
+    if (!routeId || !subscriptionId) {
+      return {
+        status: 400,
+        jsonBody: { error: 'Missing required parameters: id, subscriptionId' }
+      };
+    }
+
+    const deleted = await deletePushSubscription(routeId, subscriptionId);
+    if (!deleted) {
+      return {
+        status: 404,
+        jsonBody: { error: 'Alert not found' }
+      };
+    }
+
+    context.log(`Deleted nearby alert ${subscriptionId} for route: ${routeId}`);
+
+    return {
+      status: 200,
+      jsonBody: { success: true }
+    };
+
+  } catch (error) {
+    context.error('Error deleting nearby alert:', error);
+    return {
+      status: 500,
+      jsonBody: {
+        error: 'Failed to delete alert',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      }
+    };
+  }
+}
+
+app.http('alerts-vapid-public-key', {
+  methods: ['GET'],
+  authLevel: 'anonymous',
+  route: 'alerts/vapid-public-key',
+  handler: getVapidPublicKey
+});
+
+app.http('routes-alerts-subscribe', {
+  methods: ['POST'],
+  authLevel: 'anonymous',
+  route: 'routes/{id}/alerts',
+  handler: subscribeToAlerts
+});
+
+app.http('routes-alerts-unsubscribe', {
+  methods: ['DELETE'],
+  authLevel: 'anonymous',
+  route: 'routes/{id}/alerts/{subscriptionId}',
+  handler: unsubscribeFromAlerts
+});
@@ -0,0 +1,165 @@
+/**
+ * Tracking page viewer analytics
+ *
+ * POST /api/routes/{id}/views
+ *   Record a tracking page event for a published, active or completed route.
+ *   Public endpoint (no authentication), sent with fetch or navigator.sendBeacon,
+ *   and limited per IP address (429 with Retry-After once used up).
+ *   Body: { sessionId, viewerId, event: 'open' | 'heartbeat' | 'close', embed?, timeZone?, area? }
+ *   Returns: 204
+ *
+ * GET /api/routes/{id}/analytics
+ *   Opens, unique viewers, session length and coarse geography from page
+ *   events, with peak concurrent viewers and the viewer timeline from the
+ *   service's connection samples (see utils/viewerConnections).
+ *   Requires authentication and the `manage_routes` permission in the route's brigade.
+ *
+ * No personal data is stored; see utils/viewerAnalytics.
+ */
+
+import { app, HttpRequest, HttpResponseInit, InvocationContext } from '@azure/functions';
+import { validateToken } from './utils/auth';
+import {
+  authorizeRouteOperator,
+  getPublicRoute,
+  routeAccessErrorResponse,
+  tableRouteLookups,
+} from './utils/routeAccess';
+import {
+  applyConnectionSamples,
+  listViewerSessions,
+  recordViewerEvent,
+  summarizeViewerSessions,
+  validateViewerEvent,
+} from './utils/viewerAnalytics';
+import { listViewerConnectionCounts } from './utils/viewerConnections';
+import { getClientIp } from './utils/clientIp';
+import { createRateLimiter } from './utils/rateLimit';
+
+// A page sends an open, a heartbeat a minute and a close; this leaves room for a
+// household of viewers sharing one IP address
+const viewEventLimiter = createRateLimiter({ limit: 60, windowMs: 10 * 60 * 1000 });
+
+export async function recordView(request: HttpRequest, context: InvocationContext): Promise<HttpResponseInit> {
+  try {
+    const routeId = request.params.id;
+    if (!routeId) {
+      return {
+        status: 400,
+        jsonBody: { error: 'Missing required parameter: id' }
+      };
+    }
+
+    const ipKey = getClientIp(request) || 'unknown';
+    if (viewEventLimiter.take(ipKey) === 0) {
+      context.warn(`Throttled tracking page events from ${ipKey}`);
+      return {
+        status: 429,
+        headers: { 'Retry-After': String(viewEventLimiter.retryAfterSeconds(ipKey)) },
+        jsonBody: { error: 'Too many requests', message: 'Too many tracking page events; try again later' }
+      };
+    }
+
+    // sendBeacon posts text/plain, so parse the body ourselves
+    let body: unknown;
+    try {
+      body = JSON.parse(await request.text());
+    } catch {
+      return {
+        status: 400,
+        jsonBody: { error: 'Invalid JSON body' }
+      };
+    }
+
+    const validation = validateViewerEvent(body);
+    if (!validation.valid) {
+      return {
+        status: 400,
+        jsonBody: { error: validation.error }
+      };
+    }
+
+    const route = await getPublicRoute(routeId);
+    if (!route) {
+      return {
+        status: 404,
+        jsonBody: { error: 'Route not found' }
+      };
+    }
+
+    await recordViewerEvent(routeId, validation.event);
+
+    return {
+      status: 204,
+      body: ''
+    };
+
+  } catch (error) {
+    context.error('Error recording tracking page view:', error);
+    return {
+      status: 500,
+      jsonBody: {
+        error: 'Failed to record view',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      }
+    };
+  }
+}
+
+export async function getRouteAnalytics(request: HttpRequest, context: InvocationContext): Promise<HttpResponseInit> {
+  try {
+    const routeId = request.params.id;
+    if (!routeId) {
+      return {
+        status: 400,
+        jsonBody: { error: 'Missing required parameter: id' }
+      };
+    }
+
+    const authResult = await validateToken(request);
+    const access = await authorizeRouteOperator(
+      authResult,
+      routeId,
+      tableRouteLookups,
+      ['draft', 'published', 'active', 'completed', 'archived'],
+      'manage_routes'
+    );
+    if (!access.authorized) {
+      return routeAccessErrorResponse(access);
+    }
+
+    const [sessions, { samples }] = await Promise.all([
+      listViewerSessions(routeId),
+      listViewerConnectionCounts(routeId),
+    ]);
+
+    return {
+      status: 200,
+      jsonBody: applyConnectionSamples(summarizeViewerSessions(routeId, sessions, Date.now()), samples)
+    };
+
+  } catch (error) {
+    context.error('Error loading route analytics:', error);
+    return {
+      status: 500,
+      jsonBody: {
+        error: 'Failed to load route analytics',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      }
+    };
+  }
+}
+
+app.http('route-views', {
+  methods: ['POST'],
+  authLevel: 'anonymous',
+  route: 'routes/{id}/views',
+  handler: recordView
+});
+
+app.http('route-analytics', {
+  methods: ['GET'],
+  authLevel: 'anonymous',
+  route: 'routes/{id}/analytics',
+  handler: getRouteAnalytics
+});
@@ -0,0 +1,313 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+/**
+ * /api/audit - Audit Log API
+ *
+ * Accepts the audit events the SPA queues up and lets brigade admins and site
+ * owners read the trail back. Handlers that change data write their own
+ * events (see utils/auditLog.ts); this endpoint only adds what the client saw
+ * (logins, failed logins and so on), with the caller's identity taken from
+ * their token rather than the request body.
+ *
+ * Endpoints:
+ * - POST /api/audit/batch - Record a batch of client events
+ * - GET /api/audit?brigadeId=&eventType=&userId=&from=&to=&source=&limit= - List entries, newest first
+ * - GET /api/audit/scopes - Brigades the caller may read the audit log for
+ *
+ * Brigade admins (`view_audit_logs` brigade permission) can read their own
+ * brigade's log. Site owners with the `view_audit_logs` permission can read
+ * every brigade's log, plus events outside any brigade.
+ */
+
+import { app, HttpRequest, HttpResponseInit, InvocationContext } from '@azure/functions';
+import { validateToken, checkBrigadePermission, hasPermission } from './utils/auth';
+import { getTableClient, isDevMode } from './utils/storage';
+import { getSiteOwner, siteOwnerHasPermission } from './utils/siteOwners';
+import {
+  listAuditLog,
+  normalizeClientAuditEntry,
+  writeAuditEvent,
+} from './utils/auditLog';
+import type { AuditLogQuery, AuditSource } from './utils/auditLog';
+import { createRateLimiter } from './utils/rateLimit';
+import { getClientIp } from './utils/clientIp';
+
+const MEMBERSHIPS_TABLE = isDevMode ? 'dev-memberships' : 'memberships';
+const BRIGADES_TABLE = isDevMode ? 'dev-brigades' : 'brigades';
+
+// Matches the client's flush threshold with plenty of headroom for retries
+const MAX_BATCH_SIZE = 50;
+
+// Callers without a token can only report auth events (failed logins and the
+// like), so they get a much smaller allowance per IP address (as Azure saw it,
+// see utils/clientIp)
+const anonymousEventLimiter = createRateLimiter({ limit: 20, windowMs: 10 * 60 * 1000 });
+const DEFAULT_LIMIT = 100;
+const MAX_LIMIT = 500;
+
+// Helper to get user's membership in a brigade
+async function getUserMembership(userId: string, brigadeId: string): Promise<any> {
+  const client = await getTableClient(MEMBERSHIPS_TABLE);
+  const entities = client.listEntities({
+    queryOptions: {
+      filter: `PartitionKey eq '${brigadeId.replace(/'/g, "''")}' and userId eq '${userId.replace(/'/g, "''")}'`
+    }
+  });
+
+  for await (const entity of entities) {
+    return {
+      id: entity.rowKey,
+      brigadeId: entity.partitionKey,
+      userId: entity.userId,
+      role: entity.role,
+      status: entity.status,
+    };
+  }
+
+  return null;
+}
+
+// Helper to list a user's active memberships across all brigades
+async function getActiveMemberships(userId: string): Promise<Array<{ brigadeId: string; role: string }>> {
+  const client = await getTableClient(MEMBERSHIPS_TABLE);
+  const entities = client.listEntities({
+    queryOptions: {
+      filter: `userId eq '${userId.replace(/'/g, "''")}' and status eq 'active'`,
+      select: ['PartitionKey', 'role'],
+    }
+  });
+
+  const memberships = [];
+  for await (const entity of entities) {
+    memberships.push({ brigadeId: entity.partitionKey as string, role: entity.role as string });
+  }
+  return memberships;
+}
+
+// POST /api/audit/batch
+async function recordAuditBatch(request: HttpRequest, context: InvocationContext): Promise<HttpResponseInit> {
+  try {
+    const body = await request.json().catch(() => null) as any;
+    if (!body || !Array.isArray(body.logs)) {
+      return {
+        status: 400,
+        jsonBody: { error: 'Request body must be { logs: AuditLogEntry[] }' }
+      };
+    }
+
+    // Events may be reported before sign-in completes, so a token is optional
+    const authResult = await validateToken(request);
+    const userId = authResult.authenticated ? authResult.userId : undefined;
+    const memberships = userId ? await getActiveMemberships(userId) : [];
+
+    const reporter = {
+      userId,
+      email: authResult.authenticated ? authResult.email : undefined,
+      brigadeIds: memberships.map(m => m.brigadeId),
+      ipAddress: getClientIp(request),
+      userAgent: request.headers.get('user-agent') || undefined,
+    };
+
+    let batchSize = Math.min(body.logs.length, MAX_BATCH_SIZE);
+    if (!userId) {
+      const ipKey = reporter.ipAddress || 'unknown';
+      batchSize = anonymousEventLimiter.take(ipKey, batchSize);
+      if (batchSize === 0 && body.logs.length > 0) {
+        context.warn(`Throttled anonymous audit events from ${ipKey}`);
+        return {
+          status: 429,
+          headers: { 'Retry-After': String(anonymousEventLimiter.retryAfterSeconds(ipKey)) },
+          jsonBody: { error: 'Too many requests', message: 'Too many audit events without sign-in; try again later' }
+        };
+      }
+    }
+
+    const logs = body.logs.slice(0, batchSize);
+    let accepted = 0;
+    for (const entry of logs) {
+      const event = normalizeClientAuditEntry(entry, reporter);
+      if (event) {
+        await writeAuditEvent(event, context);
+        accepted++;
+      }
+    }
+
+    const rejected = body.logs.length - accepted;
+    context.log(`Recorded ${accepted} client audit events (${rejected} rejected) from user: ${userId || 'anonymous'}`);
+
+    return {
+      status: 202,
+      jsonBody: { accepted, rejected }
+    };
+
+  } catch (error: any) {
+    context.error('Error recording audit batch:', error);
+
+    return {
+      status: 500,
+      jsonBody: {
+        error: 'Failed to record audit events',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      }
+    };
+  }
+}
+
+// GET /api/audit
+async function getAuditLog(request: HttpRequest, context: InvocationContext): Promise<HttpResponseInit> {
+  try {
+    const authResult = await validateToken(request);
+    if (!authResult.authenticated) {
+      return {
+        status: 401,
+        jsonBody: { error: 'Unauthorized', message: authResult.error || 'Authentication required' }
+      };
+    }
+
+    const brigadeId = request.query.get('brigadeId') || undefined;
+    const from = request.query.get('from') || undefined;
+    const to = request.query.get('to') || undefined;
+    const source = request.query.get('source') || undefined;
+    const limitParam = request.query.get('limit');
+    const limit = limitParam ? Number(limitParam) : DEFAULT_LIMIT;
+
+    if ((from && isNaN(Date.parse(from))) || (to && isNaN(Date.parse(to)))) {
+      return {
+        status: 400,
+        jsonBody: { error: 'from and to must be ISO dates' }
+      };
+    }
+    if (source && source !== 'server' && source !== 'client') {
+      return {
+        status: 400,
+        jsonBody: { error: 'Invalid source. Must be: server or client' }
+      };
+    }
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_LIMIT) {
+      return {
+        status: 400,
+        jsonBody: { error: `limit must be between 1 and ${MAX_LIMIT}` }
+      };
+    }
+
+    // Site owners can read any brigade; everyone else needs the brigade permission
+    const siteOwner = await getSiteOwner(authResult.userId!);
+    if (!siteOwnerHasPermission(siteOwner, 'view_audit_logs')) {
+      if (!brigadeId) {
+        return {
+          status: 400,
+          jsonBody: { error: 'Missing required parameter: brigadeId' }
+        };
+      }
+
+      const permissionCheck = await checkBrigadePermission(
+        authResult.userId!,
+        brigadeId,
+        'view_audit_logs',
+        getUserMembership
+      );
+
+      if (!permissionCheck.authorized) {
+        return {
+          status: 403,
+          jsonBody: { error: 'Forbidden', message: permissionCheck.error || 'Insufficient permissions' }
+        };
+      }
+    }
+
+    const query: AuditLogQuery = {
+      brigadeId,
+      eventType: request.query.get('eventType') || undefined,
+      userId: request.query.get('userId') || undefined,
+      from: from && new Date(from).toISOString(),
+      to: to && new Date(to).toISOString(),
+      source: source as AuditSource | undefined,
+    };
+    const { entries, truncated } = await listAuditLog(query, limit);
+
+    context.log(`Retrieved ${entries.length} audit entries for ${brigadeId ? `brigade: ${brigadeId}` : 'all brigades'}`);
+
+    return {
+      status: 200,
+      jsonBody: { entries, truncated }
+    };
+
+  } catch (error: any) {
+    context.error('Error retrieving audit log:', error);
+
+    return {
+      status: 500,
+      jsonBody: {
+        error: 'Failed to retrieve audit log',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      }
+    };
+  }
+}
+
+// GET /api/audit/scopes
+async function getAuditScopes(request: HttpRequest, context: InvocationContext): Promise<HttpResponseInit> {
+  try {
+    const authResult = await validateToken(request);
+    if (!authResult.authenticated) {
+      return {
+        status: 401,
+        jsonBody: { error: 'Unauthorized', message: authResult.error || 'Authentication required' }
+      };
+    }
+
+    const siteOwner = await getSiteOwner(authResult.userId!);
+    const memberships = await getActiveMemberships(authResult.userId!);
+    const brigadesClient = await getTableClient(BRIGADES_TABLE);
+
+    const brigades = [];
+    for (const membership of memberships.filter(m => hasPermission(m.role, 'view_audit_logs'))) {
+      try {
+        const entity = await brigadesClient.getEntity(membership.brigadeId, membership.brigadeId);
+        brigades.push({ id: membership.brigadeId, name: entity.name as string });
+      } catch {
+        brigades.push({ id: membership.brigadeId, name: membership.brigadeId });
+      }
+    }
+
+    return {
+      status: 200,
+      jsonBody: {
+        allBrigades: siteOwnerHasPermission(siteOwner, 'view_audit_logs'),
+        brigades,
+      }
+    };
+
+  } catch (error: any) {
+    context.error('Error retrieving audit scopes:', error);
+
+    return {
+      status: 500,
+      jsonBody: {
+        error: 'Failed to retrieve audit scopes',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      }
+    };
+  }
+}
+
+// Register HTTP endpoints
+app.http('audit-batch', {
+  methods: ['POST'],
+  authLevel: 'anonymous',
+  route: 'audit/batch',
+  handler: recordAuditBatch
+});
+
+app.http('audit-list', {
+  methods: ['GET'],
+  authLevel: 'anonymous',
+  route: 'audit',
+  handler: getAuditLog
+});
+
+app.http('audit-scopes', {
+  methods: ['GET'],
+  authLevel: 'anonymous',
+  route: 'audit/scopes',
+  handler: getAuditScopes
+});
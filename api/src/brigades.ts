@@ -8,6 +8,7 @@
  * Endpoints:
  * - GET /api/brigades - List all brigades
  * - GET /api/brigades/{id} - Get single brigade
+ * - GET /api/brigades/slug/{slug} - Get a brigade by its URL slug
  * - POST /api/brigades - Create new brigade
  * - PUT /api/brigades/{id} - Update existing brigade
  * - DELETE /api/brigades/{id} - Delete brigade
@@ -286,6 +287,30 @@ app.http('brigades-get-by-rfs', {
   }
 });
 
+app.http('brigades-get-by-slug', {
+  methods: ['GET'],
+  authLevel: 'anonymous',
+  route: 'brigades/slug/{slug}',
+  handler: async (request, context) => {
+    try {
+      const slug = request.params.slug;
+      if (!slug) {
+        return { status: 400, jsonBody: { error: 'Missing required parameter: slug' } };
+      }
+
+      const client = await resolveBrigadesClient();
+      const entities = client.listEntities({ queryOptions: { filter: `slug eq '${slug.replace(/'/g, "''")}'` } });
+      for await (const entity of entities) {
+        return { status: 200, jsonBody: entityToBrigade(entity) };
+      }
+      return { status: 404, jsonBody: { error: 'Brigade not found' } };
+    } catch (error: any) {
+      context.error('Error fetching brigade by slug:', error);
+      return { status: 500, jsonBody: { error: 'Failed to fetch brigade by slug' } };
+    }
+  }
+});
+
 app.http('brigades-get', {
   methods: ['GET'],
   authLevel: 'anonymous',
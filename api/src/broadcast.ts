@@ -4,128 +4,407 @@
  * This function receives location updates from the navigator device
  * and broadcasts them to all viewers watching the specific route.
  * 
+ * Accepted broadcasts are also appended to the route's location history
+ * (see GET /api/routes/{id}/track) and cached as the route's last known
+ * location (see GET /api/routes/{id}/location). A broadcast older than the
+ * last known location is recorded in history but not pushed to viewers.
+ * On multi-vehicle routes each vehicle has its own last known location, and
+ * every message carries the vehicleId so viewers can move the right marker.
+ * Delivered positions also trigger any "Santa is near" push alerts that are
+ * now in range (see /api/routes/{id}/alerts), and sample how many viewers the
+ * route's group holds, at most once a minute, for viewer analytics.
+ * 
+ * Authorization:
+ * - Requires a valid bearer token (Authorization: Bearer <token>)
+ * - Caller must be an active operator/admin of the route's brigade
+ * - Route status must be 'active'
+ * 
  * Body Parameters:
  * - routeId (required): The route ID
+ * - vehicleId (optional): Vehicle broadcasting, on multi-vehicle routes
  * - location (required): [lng, lat] coordinates
  * - timestamp (required): Unix timestamp
  * - heading (optional): Compass bearing (0-360)
  * - speed (optional): Speed in meters/second
  * - currentWaypointIndex (optional): Index of current/next waypoint
  * - nextWaypointEta (optional): ETA to next waypoint
+ * - scheduleDeviation (optional): Seconds behind schedule (negative when ahead)
+ * - waypointEtas (optional): [{ waypointId, eta }] cumulative ETA (Unix ms) for every upcoming stop
+ * - visit (optional): { waypointId, type: 'arrived' | 'departed', timestamp } the vehicle's latest stop visit
+ *
+ * /api/broadcast/batch - Backfill broadcasts queued while the navigator was offline
+ *
+ * Same authorization as /api/broadcast. Body: { routeId, locations: LocationBroadcast[] }
+ * (up to 500, original timestamps). Invalid points are dropped and listed in the
+ * response as `rejected: [{ index, error }]`. Every other point is recorded in
+ * location history; only the newest point of each vehicle is pushed to viewers,
+ * and only if it is newer than that vehicle's last known location, so viewers
+ * are not spammed with stale jumps.
  */
 
 import { app, HttpRequest, HttpResponseInit, InvocationContext } from '@azure/functions';
 import { WebPubSubServiceClient } from '@azure/web-pubsub';
+import { validateToken } from './utils/auth';
+import type { AuthResult } from './utils/auth';
+import { authorizeRouteOperator, routeAccessErrorResponse, tableRouteLookups } from './utils/routeAccess';
+import { appendLocationHistory, appendLocationHistoryBatch } from './utils/locationHistory';
+import { getLastKnownLocation, setLastKnownLocation } from './utils/lastLocation';
+import {
+  MAX_BACKFILL_BATCH_SIZE,
+  groupByVehicle,
+  isNewerThanLastKnown,
+  orderBackfill,
+  selectLiveUpdate,
+  validateBackfillBatch,
+  validateLocationBroadcast,
+} from './utils/locationBroadcast';
+import type { LocationBroadcast } from './utils/locationBroadcast';
+import { MAX_CONCURRENT_PUSHES, forEachConcurrently, getVapidConfig, sendWebPush } from './utils/webPush';
+import { buildNearbyAlertPayload, isSantaNearby } from './utils/nearbyAlerts';
+import {
+  claimPushSubscription,
+  deletePushSubscription,
+  listPendingPushSubscriptions,
+} from './utils/pushSubscriptions';
+import { createRateLimiter } from './utils/rateLimit';
+import { CONNECTION_SAMPLE_INTERVAL_MS, recordConnectionSample } from './utils/viewerConnections';
+import type { GroupConnection } from './utils/viewerConnections';
 
 const HUB_NAME = 'santa-tracking';
 
-interface LocationBroadcast {
-  routeId: string;
-  location: [number, number];
-  timestamp: number;
-  heading?: number;
-  speed?: number;
-  currentWaypointIndex?: number;
-  nextWaypointEta?: string;
+// How long a broadcast keeps starting nearby alerts (sends already started
+// finish within PUSH_REQUEST_TIMEOUT_MS); the rest go out on the next one
+const NEARBY_ALERTS_TIMEOUT_MS = 3_000;
+
+// One connection sample per route each interval, however often vehicles broadcast
+const connectionSampler = createRateLimiter({ limit: 1, windowMs: CONNECTION_SAMPLE_INTERVAL_MS });
+
+/**
+ * Reject unauthenticated callers before reading the body
+ */
+function unauthenticatedResponse(authResult: AuthResult): HttpResponseInit {
+  return {
+    status: 401,
+    jsonBody: { error: 'Unauthorized', code: 'UNAUTHENTICATED', message: authResult.error || 'Authentication required' }
+  };
+}
+
+function getServiceClient(): WebPubSubServiceClient {
+  // Get Web PubSub connection string from environment
+  const connectionString = process.env.AZURE_WEBPUBSUB_CONNECTION_STRING;
+  if (!connectionString) {
+    throw new Error('AZURE_WEBPUBSUB_CONNECTION_STRING is not configured');
+  }
+  return new WebPubSubServiceClient(connectionString, HUB_NAME);
+}
+
+/**
+ * Push a location to every viewer in the route's group
+ */
+async function sendToViewers(location: LocationBroadcast): Promise<string> {
+  const groupName = `route_${location.routeId}`;
+  await getServiceClient().group(groupName).sendToAll(location);
+
+  return groupName;
+}
+
+/**
+ * Record who is connected to the route's group, if it has not been sampled this interval
+ * Samples are best-effort: failures are logged and never fail the broadcast.
+ */
+async function sampleViewerConnections(routeId: string, context: InvocationContext): Promise<void> {
+  if (connectionSampler.take(routeId) === 0) {
+    return;
+  }
+
+  try {
+    const members: GroupConnection[] = [];
+    for await (const member of await getServiceClient().group(`route_${routeId}`).listConnections()) {
+      members.push(member);
+    }
+    await recordConnectionSample(routeId, members);
+  } catch (error) {
+    context.warn(`Failed to sample viewer connections for route ${routeId}:`, error);
+  }
+}
+
+/**
+ * Send "Santa is near" alerts to subscribers now in range, once each.
+ * Alerts are best-effort: failures are logged and never fail the broadcast.
+ * No new alert is started once `signal` aborts; those not yet claimed stay
+ * pending for the next broadcast, so a slow push service only delays them.
+ */
+async function notifyNearbySubscribers(
+  location: LocationBroadcast,
+  context: InvocationContext,
+  signal: AbortSignal
+): Promise<void> {
+  const vapid = getVapidConfig();
+  if (!vapid) {
+    return;
+  }
+
+  try {
+    const subscriptions = await listPendingPushSubscriptions(location.routeId);
+    const nearby = subscriptions.filter(subscription => isSantaNearby(location.location, subscription.location));
+
+    await forEachConcurrently(nearby, MAX_CONCURRENT_PUSHES, async subscription => {
+      try {
+        if (!await claimPushSubscription(subscription)) {
+          return;
+        }
+        const payload = buildNearbyAlertPayload(location.routeId, subscription.id, subscription.label);
+        const result = await sendWebPush(subscription.target, JSON.stringify(payload), vapid);
+        if (result.gone) {
+          await deletePushSubscription(location.routeId, subscription.id);
+        } else if (result.statusCode >= 400) {
+          context.warn(`Push service rejected alert ${subscription.id} for route ${location.routeId}: ${result.statusCode}`);
+        }
+      } catch (pushError) {
+        context.warn(`Failed to send alert ${subscription.id} for route ${location.routeId}:`, pushError);
+      }
+    }, signal);
+
+    if (nearby.length > 0) {
+      context.log(`Sent ${nearby.length} nearby alerts for route: ${location.routeId}`);
+    }
+  } catch (alertError) {
+    context.warn(`Failed to process nearby alerts for route ${location.routeId}:`, alertError);
+  }
+}
+
+/**
+ * Timestamp of the route's (or vehicle's) last known location (null if none or unreadable)
+ */
+async function getLastKnownTimestamp(
+  routeId: string,
+  vehicleId: string | undefined,
+  context: InvocationContext
+): Promise<number | null> {
+  try {
+    const lastKnown = await getLastKnownLocation(routeId, vehicleId);
+    return lastKnown ? lastKnown.timestamp : null;
+  } catch (cacheError) {
+    context.warn(`Failed to read last known location for route ${routeId}:`, cacheError);
+    return null;
+  }
 }
 
 export async function broadcast(request: HttpRequest, context: InvocationContext): Promise<HttpResponseInit> {
   try {
-    // Parse request body
-    const body = await request.json() as Partial<LocationBroadcast>;
+    // Validate authentication
+    const authResult = await validateToken(request);
+    if (!authResult.authenticated) {
+      context.warn('Rejected unauthenticated broadcast:', authResult.error);
+      return unauthenticatedResponse(authResult);
+    }
 
-    // Validate required fields
-    if (!body.routeId) {
+    // Parse and validate request body
+    const validation = validateLocationBroadcast(await request.json() as Partial<LocationBroadcast>);
+    if (!validation.valid) {
       return {
         status: 400,
         jsonBody: {
-          error: 'Missing required field: routeId'
+          error: validation.error
         }
       };
     }
+    const message = validation.location;
+
+    // Only operators of the route's brigade may move Santa, and only while the route is active
+    const access = await authorizeRouteOperator(authResult, message.routeId, tableRouteLookups, ['active']);
+    if (!access.authorized) {
+      context.warn(`Rejected broadcast for route ${message.routeId} by user ${authResult.userId}: ${access.code}`);
+      return routeAccessErrorResponse(access);
+    }
+
+    if (!process.env.AZURE_WEBPUBSUB_CONNECTION_STRING) {
+      context.error('AZURE_WEBPUBSUB_CONNECTION_STRING is not configured');
+      return {
+        status: 500,
+        jsonBody: {
+          error: 'Web PubSub service is not configured'
+        }
+      };
+    }
+
+    // Persist to location history so late joiners can draw the breadcrumb trail.
+    // History is best-effort: a storage hiccup must not stop the live broadcast.
+    try {
+      await appendLocationHistory(message.routeId, message);
+    } catch (historyError) {
+      context.warn(`Failed to persist location history for route ${message.routeId}:`, historyError);
+    }
 
-    // Validate location coordinates
-    if (!Array.isArray(body.location) || body.location.length !== 2) {
+    // A late retry from the navigator must not move Santa backwards for viewers
+    const lastKnownTimestamp = await getLastKnownTimestamp(message.routeId, message.vehicleId, context);
+    if (!isNewerThanLastKnown(message.timestamp, lastKnownTimestamp)) {
+      context.log(`Recorded out-of-order location for route: ${message.routeId} without broadcasting`);
+      return {
+        status: 200,
+        jsonBody: {
+          success: true,
+          routeId: message.routeId,
+          delivered: false,
+          timestamp: message.timestamp
+        }
+      };
+    }
+
+    // Cache the latest position for viewers who connect between broadcasts
+    try {
+      await setLastKnownLocation(message);
+    } catch (cacheError) {
+      context.warn(`Failed to cache last known location for route ${message.routeId}:`, cacheError);
+    }
+
+    const groupName = await sendToViewers(message);
+    await notifyNearbySubscribers(message, context, AbortSignal.timeout(NEARBY_ALERTS_TIMEOUT_MS));
+    await sampleViewerConnections(message.routeId, context);
+
+    context.log(`Broadcasted location update for route: ${message.routeId} to group: ${groupName}`);
+
+    return {
+      status: 200,
+      jsonBody: {
+        success: true,
+        routeId: message.routeId,
+        groupName,
+        delivered: true,
+        timestamp: message.timestamp
+      }
+    };
+
+  } catch (error) {
+    context.error('Error broadcasting location:', error);
+    return {
+      status: 500,
+      jsonBody: {
+        error: 'Failed to broadcast location',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      }
+    };
+  }
+}
+
+export async function broadcastBatch(request: HttpRequest, context: InvocationContext): Promise<HttpResponseInit> {
+  try {
+    // Validate authentication
+    const authResult = await validateToken(request);
+    if (!authResult.authenticated) {
+      context.warn('Rejected unauthenticated broadcast backfill:', authResult.error);
+      return unauthenticatedResponse(authResult);
+    }
+
+    // Parse request body
+    const body = await request.json() as { routeId?: string; locations?: Partial<LocationBroadcast>[] };
+
+    if (!body.routeId) {
       return {
         status: 400,
         jsonBody: {
-          error: 'Invalid location. Must be [longitude, latitude]'
+          error: 'Missing required field: routeId'
         }
       };
     }
 
-    const [lng, lat] = body.location;
-    if (typeof lng !== 'number' || typeof lat !== 'number' ||
-        lng < -180 || lng > 180 || lat < -90 || lat > 90) {
+    if (!Array.isArray(body.locations) || body.locations.length === 0) {
       return {
         status: 400,
         jsonBody: {
-          error: 'Invalid coordinates. Longitude must be -180 to 180, latitude must be -90 to 90'
+          error: 'Missing required field: locations (non-empty array)'
         }
       };
     }
 
-    if (!body.timestamp) {
+    if (body.locations.length > MAX_BACKFILL_BATCH_SIZE) {
       return {
         status: 400,
         jsonBody: {
-          error: 'Missing required field: timestamp'
+          error: `Too many locations. Send at most ${MAX_BACKFILL_BATCH_SIZE} per request`
         }
       };
     }
 
-    // Get Web PubSub connection string from environment
-    const connectionString = process.env.AZURE_WEBPUBSUB_CONNECTION_STRING;
-    
-    if (!connectionString) {
-      context.error('AZURE_WEBPUBSUB_CONNECTION_STRING is not configured');
+    // Invalid points are dropped and reported, so one bad point doesn't hold back the rest
+    const { locations, rejected } = validateBackfillBatch(body.routeId, body.locations);
+    if (locations.length === 0) {
       return {
-        status: 500,
+        status: 400,
         jsonBody: {
-          error: 'Web PubSub service is not configured'
+          error: 'No valid locations in batch',
+          rejected
         }
       };
     }
 
-    // Create Web PubSub service client
-    const serviceClient = new WebPubSubServiceClient(connectionString, HUB_NAME);
+    // Only operators of the route's brigade may move Santa, and only while the route is active
+    const access = await authorizeRouteOperator(authResult, body.routeId, tableRouteLookups, ['active']);
+    if (!access.authorized) {
+      context.warn(`Rejected broadcast backfill for route ${body.routeId} by user ${authResult.userId}: ${access.code}`);
+      return routeAccessErrorResponse(access);
+    }
 
-    // Generate group name for route
-    const groupName = `route_${body.routeId}`;
+    const ordered = orderBackfill(locations);
 
-    // Prepare message payload
-    const message: LocationBroadcast = {
-      routeId: body.routeId,
-      location: body.location,
-      timestamp: body.timestamp,
-      heading: body.heading,
-      speed: body.speed,
-      currentWaypointIndex: body.currentWaypointIndex,
-      nextWaypointEta: body.nextWaypointEta,
-    };
+    // History is the point of a backfill, so unlike live broadcasts a failure here fails the request
+    await appendLocationHistoryBatch(body.routeId, ordered);
+
+    // Viewers only need to see where each vehicle is now, not every queued point
+    let delivered = false;
+    const alertsSignal = AbortSignal.timeout(NEARBY_ALERTS_TIMEOUT_MS);
+
+    for (const vehicleLocations of groupByVehicle(ordered)) {
+      const vehicleId = vehicleLocations[0].vehicleId;
+      const liveUpdate = selectLiveUpdate(
+        vehicleLocations,
+        await getLastKnownTimestamp(body.routeId, vehicleId, context)
+      );
+      if (!liveUpdate) {
+        continue;
+      }
+
+      try {
+        await setLastKnownLocation(liveUpdate);
+      } catch (cacheError) {
+        context.warn(`Failed to cache last known location for route ${body.routeId}:`, cacheError);
+      }
+
+      try {
+        await sendToViewers(liveUpdate);
+        delivered = true;
+      } catch (sendError) {
+        // The points are safely recorded; the next live broadcast will move Santa
+        context.warn(`Failed to deliver backfilled location for route ${body.routeId}:`, sendError);
+      }
+
+      await notifyNearbySubscribers(liveUpdate, context, alertsSignal);
+    }
 
-    // Get group client and broadcast to all group members
-    const groupClient = serviceClient.group(groupName);
-    await groupClient.sendToAll(message);
+    if (delivered) {
+      await sampleViewerConnections(body.routeId, context);
+    }
 
-    context.log(`Broadcasted location update for route: ${body.routeId} to group: ${groupName}`);
+    context.log(`Backfilled ${ordered.length} locations for route: ${body.routeId} (delivered: ${delivered})`);
 
     return {
       status: 200,
       jsonBody: {
         success: true,
         routeId: body.routeId,
-        groupName,
-        timestamp: body.timestamp
+        accepted: ordered.length,
+        rejected,
+        delivered,
+        latestTimestamp: ordered[ordered.length - 1].timestamp
       }
     };
 
   } catch (error) {
-    context.error('Error broadcasting location:', error);
+    context.error('Error backfilling locations:', error);
     return {
       status: 500,
       jsonBody: {
-        error: 'Failed to broadcast location',
+        error: 'Failed to backfill locations',
         message: error instanceof Error ? error.message : 'Unknown error'
       }
     };
@@ -137,3 +416,10 @@ app.http('broadcast', {
   authLevel: 'anonymous',
   handler: broadcast
 });
+
+app.http('broadcast-batch', {
+  methods: ['POST'],
+  authLevel: 'anonymous',
+  route: 'broadcast/batch',
+  handler: broadcastBatch
+});
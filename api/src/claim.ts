@@ -4,12 +4,15 @@
  * 
  * Handles the claiming of unclaimed brigades by users.
  * Users can claim a brigade if they have a .gov.au email OR approved verification.
+ * The claimant is always the signed-in caller, never a userId from the body.
  * 
  * Endpoints:
  * - POST /api/brigades/{brigadeId}/claim - Claim unclaimed brigade
  */
 
 import { app, HttpRequest, HttpResponseInit, InvocationContext } from '@azure/functions';
+import { validateToken } from './utils/auth';
+import { writeAuditEvent } from './utils/auditLog';
 import { getTableClient, isDevMode } from './utils/storage';
 const BRIGADES_TABLE = isDevMode ? 'dev-brigades' : 'brigades';
 const MEMBERSHIPS_TABLE = isDevMode ? 'dev-memberships' : 'memberships';
@@ -101,13 +104,30 @@ function membershipToEntity(membership: any) {
 // POST /api/brigades/{brigadeId}/claim
 async function claimBrigade(request: HttpRequest, context: InvocationContext): Promise<HttpResponseInit> {
   try {
+    const authResult = await validateToken(request);
+    if (!authResult.authenticated) {
+      return {
+        status: 401,
+        jsonBody: { error: 'Unauthorized', message: authResult.error || 'Authentication required' }
+      };
+    }
+
     const brigadeId = request.params.brigadeId;
-    const claimData = await request.json() as any;
+    const claimData = await request.json().catch(() => ({})) as any;
+    const userId = authResult.userId!;
 
-    if (!brigadeId || !claimData.userId) {
+    if (!brigadeId) {
       return {
         status: 400,
-        jsonBody: { error: 'Missing required fields: brigadeId, userId' }
+        jsonBody: { error: 'Missing required field: brigadeId' }
+      };
+    }
+
+    // Older clients still send their own userId; it has to be the caller
+    if (claimData.userId && claimData.userId !== userId) {
+      return {
+        status: 403,
+        jsonBody: { error: 'Forbidden', message: 'Brigades can only be claimed for the signed-in user' }
       };
     }
 
@@ -128,7 +148,7 @@ async function claimBrigade(request: HttpRequest, context: InvocationContext): P
     }
 
     // Get user
-    const userEntity = await usersClient.getEntity(claimData.userId, claimData.userId);
+    const userEntity = await usersClient.getEntity(userId, userId);
     const user = {
       id: userEntity.rowKey as string,
       email: userEntity.email as string,
@@ -152,8 +172,8 @@ async function claimBrigade(request: HttpRequest, context: InvocationContext): P
     const now = new Date().toISOString();
     brigade.isClaimed = true;
     brigade.claimedAt = now;
-    brigade.claimedBy = claimData.userId;
-    brigade.adminUserIds = [claimData.userId];
+    brigade.claimedBy = userId;
+    brigade.adminUserIds = [userId];
     brigade.updatedAt = now;
 
     // Update brigade
@@ -163,7 +183,7 @@ async function claimBrigade(request: HttpRequest, context: InvocationContext): P
     const membership = {
       id: `membership-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`,
       brigadeId,
-      userId: claimData.userId,
+      userId,
       role: 'admin',
       status: 'active',
       joinedAt: now,
@@ -173,7 +193,17 @@ async function claimBrigade(request: HttpRequest, context: InvocationContext): P
 
     await membershipsClient.createEntity(membershipToEntity(membership));
 
-    context.log(`Brigade ${brigadeId} claimed by user: ${claimData.userId}`);
+    context.log(`Brigade ${brigadeId} claimed by user: ${userId}`);
+
+    await writeAuditEvent({
+      eventType: 'brigade.claimed',
+      message: `Brigade "${brigade.name}" claimed by ${user.email}`,
+      brigadeId,
+      userId,
+      userEmail: user.email,
+      resourceId: brigadeId,
+      metadata: { eligibility: hasGovEmail ? 'gov_email' : 'verification' },
+    }, context);
 
     return {
       status: 200,
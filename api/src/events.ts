@@ -0,0 +1,273 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+/**
+ * /api/events - Multi-night event API
+ *
+ * An event groups a brigade's routes for one season (a different suburb each
+ * night). Events are public so the event page and its stable flyer link work
+ * without signing in; changes need `manage_routes` in the event's brigade.
+ * Events are stored with brigadeId as partition key.
+ *
+ * Endpoints:
+ * - GET /api/events?brigadeId=xxx - List a brigade's events
+ * - GET /api/events/{id} - Get a single event (public event page)
+ * - PUT /api/events/{id} - Create or replace an event
+ * - DELETE /api/events/{id}?brigadeId=xxx - Delete an event
+ */
+
+import { app, HttpRequest, HttpResponseInit, InvocationContext } from '@azure/functions';
+import { validateToken, checkBrigadePermission } from './utils/auth';
+import { getTableClient, isDevMode } from './utils/storage';
+import { tableRouteLookups } from './utils/routeAccess';
+
+const EVENTS_TABLE = isDevMode ? 'dev-events' : 'events';
+
+async function getEventsTableClient() {
+  return getTableClient(EVENTS_TABLE);
+}
+
+/**
+ * Authenticate the caller and check they can manage the brigade's routes
+ */
+async function authorizeEventChange(
+  request: HttpRequest,
+  brigadeId: string,
+  context: InvocationContext
+): Promise<{ userId?: string; response?: HttpResponseInit }> {
+  const authResult = await validateToken(request);
+  if (!authResult.authenticated) {
+    context.error('Authentication failed during event change:', authResult);
+    return {
+      response: {
+        status: 401,
+        jsonBody: { error: 'Unauthorized', message: authResult.error || 'Authentication required' }
+      }
+    };
+  }
+
+  const permissionCheck = await checkBrigadePermission(
+    authResult.userId!,
+    brigadeId,
+    'manage_routes',
+    tableRouteLookups.getMembership
+  );
+
+  if (!permissionCheck.authorized) {
+    return {
+      response: {
+        status: 403,
+        jsonBody: { error: 'Forbidden', message: permissionCheck.error || 'Insufficient permissions' }
+      }
+    };
+  }
+
+  return { userId: authResult.userId };
+}
+
+// Helper to convert Table entity to Event object
+function entityToEvent(entity: any) {
+  return {
+    id: entity.rowKey,
+    brigadeId: entity.partitionKey,
+    name: entity.name,
+    description: entity.description,
+    routeIds: entity.routeIds ? JSON.parse(entity.routeIds) : [],
+    createdAt: entity.createdAt,
+    createdBy: entity.createdBy,
+  };
+}
+
+// Helper to convert Event to Table entity
+function eventToEntity(event: any) {
+  return {
+    partitionKey: event.brigadeId,
+    rowKey: event.id,
+    name: event.name,
+    description: event.description || '',
+    routeIds: JSON.stringify(event.routeIds || []),
+    createdAt: event.createdAt || new Date().toISOString(),
+    createdBy: event.createdBy || '',
+  };
+}
+
+// GET /api/events?brigadeId=xxx OR GET /api/events/{id}
+async function getEvents(request: HttpRequest, context: InvocationContext): Promise<HttpResponseInit> {
+  try {
+    const eventId = request.params.id;
+    const client = await getEventsTableClient();
+
+    // Get single event: links only carry the event ID, which is unique across brigades
+    if (eventId) {
+      const entities = client.listEntities({
+        queryOptions: { filter: `RowKey eq '${eventId.replace(/'/g, "''")}'` }
+      });
+
+      for await (const entity of entities) {
+        return {
+          status: 200,
+          jsonBody: entityToEvent(entity)
+        };
+      }
+
+      return {
+        status: 404,
+        jsonBody: { error: 'Event not found' }
+      };
+    }
+
+    const brigadeId = request.query.get('brigadeId');
+    if (!brigadeId) {
+      return {
+        status: 400,
+        jsonBody: { error: 'Missing required parameter: brigadeId' }
+      };
+    }
+
+    const entities = client.listEntities({
+      queryOptions: { filter: `PartitionKey eq '${brigadeId}'` }
+    });
+
+    const events = [];
+    for await (const entity of entities) {
+      events.push(entityToEvent(entity));
+    }
+
+    return {
+      status: 200,
+      jsonBody: events
+    };
+
+  } catch (error) {
+    context.error('Error fetching events:', error);
+    return {
+      status: 500,
+      jsonBody: {
+        error: 'Failed to fetch events',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      }
+    };
+  }
+}
+
+// PUT /api/events/{id}
+async function saveEvent(request: HttpRequest, context: InvocationContext): Promise<HttpResponseInit> {
+  try {
+    const eventId = request.params.id;
+    const event = await request.json() as any;
+
+    if (!eventId || !event.brigadeId || !event.name) {
+      return {
+        status: 400,
+        jsonBody: { error: 'Missing required fields: id, brigadeId, name' }
+      };
+    }
+
+    if (event.routeIds !== undefined && (!Array.isArray(event.routeIds) || !event.routeIds.every((id: unknown) => typeof id === 'string'))) {
+      return {
+        status: 400,
+        jsonBody: { error: 'Invalid routeIds', message: 'routeIds must be an array of route IDs' }
+      };
+    }
+
+    const auth = await authorizeEventChange(request, event.brigadeId, context);
+    if (auth.response) {
+      return auth.response;
+    }
+
+    const client = await getEventsTableClient();
+    await client.upsertEntity(eventToEntity({ ...event, id: eventId }), 'Replace');
+
+    context.log(`Saved event: ${eventId} for brigade: ${event.brigadeId} by user: ${auth.userId}`);
+
+    return {
+      status: 200,
+      jsonBody: { ...event, id: eventId }
+    };
+
+  } catch (error) {
+    context.error('Error saving event:', error);
+    return {
+      status: 500,
+      jsonBody: {
+        error: 'Failed to save event',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      }
+    };
+  }
+}
+
+// DELETE /api/events/{id}?brigadeId=xxx
+async function deleteEvent(request: HttpRequest, context: InvocationContext): Promise<HttpResponseInit> {
+  try {
+    const eventId = request.params.id;
+    const brigadeId = request.query.get('brigadeId');
+
+    if (!eventId || !brigadeId) {
+      return {
+        status: 400,
+        jsonBody: { error: 'Missing required parameters: id, brigadeId' }
+      };
+    }
+
+    const auth = await authorizeEventChange(request, brigadeId, context);
+    if (auth.response) {
+      return auth.response;
+    }
+
+    const client = await getEventsTableClient();
+    await client.deleteEntity(brigadeId, eventId);
+
+    context.log(`Deleted event: ${eventId} for brigade: ${brigadeId} by user: ${auth.userId}`);
+
+    return {
+      status: 204,
+      body: ''
+    };
+
+  } catch (error: any) {
+    context.error('Error deleting event:', error);
+
+    if (error.statusCode === 404) {
+      return {
+        status: 404,
+        jsonBody: { error: 'Event not found' }
+      };
+    }
+
+    return {
+      status: 500,
+      jsonBody: {
+        error: 'Failed to delete event',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      }
+    };
+  }
+}
+
+// Register HTTP endpoints
+app.http('events-list', {
+  methods: ['GET'],
+  authLevel: 'anonymous',
+  route: 'events',
+  handler: getEvents
+});
+
+app.http('events-get', {
+  methods: ['GET'],
+  authLevel: 'anonymous',
+  route: 'events/{id}',
+  handler: getEvents
+});
+
+app.http('events-save', {
+  methods: ['PUT'],
+  authLevel: 'anonymous',
+  route: 'events/{id}',
+  handler: saveEvent
+});
+
+app.http('events-delete', {
+  methods: ['DELETE'],
+  authLevel: 'anonymous',
+  route: 'events/{id}',
+  handler: deleteEvent
+});
@@ -4,6 +4,9 @@
 import './brigades';
 import './rfs-stations';
 import './routes';
+import './templates';
+import './events';
+import './public-brigade';
 import './users';
 import './members';
 import './invitations';
@@ -11,7 +14,12 @@ import './verification';
 import './admin-verification';
 import './negotiate';
 import './broadcast';
+import './track';
+import './location';
 import './claim';
+import './alerts';
+import './audit';
+import './analytics';
 
 // Import utils to ensure they are compiled
 import './utils/auth';
@@ -0,0 +1,70 @@
+/**
+ * /api/routes/{id}/location - Last known location for a route
+ *
+ * Returns the most recent accepted broadcast so tracking viewers can place
+ * Santa on the map as soon as they connect, instead of waiting for the next
+ * broadcast. Public endpoint (no authentication) - the same data is broadcast
+ * to viewers live.
+ *
+ * The response includes the server's current time so clients can work out how
+ * old the snapshot is without relying on the navigator's or viewer's clock.
+ *
+ * `location` is the newest snapshot; `locations` has one per vehicle on
+ * multi-vehicle routes (a single entry otherwise).
+ */
+
+import { app, HttpRequest, HttpResponseInit, InvocationContext } from '@azure/functions';
+import { getLastKnownLocations } from './utils/lastLocation';
+import { getPublicRoute } from './utils/routeAccess';
+
+export async function getRouteLocation(request: HttpRequest, context: InvocationContext): Promise<HttpResponseInit> {
+  try {
+    const routeId = request.params.id;
+
+    if (!routeId) {
+      return {
+        status: 400,
+        jsonBody: { error: 'Missing required parameter: id' }
+      };
+    }
+
+    const route = await getPublicRoute(routeId);
+    if (!route) {
+      return {
+        status: 404,
+        jsonBody: { error: 'Route not found' }
+      };
+    }
+
+    const locations = await getLastKnownLocations(routeId);
+
+    return {
+      status: 200,
+      headers: { 'Cache-Control': 'no-store' },
+      jsonBody: {
+        routeId,
+        status: route.status,
+        location: locations[0] ?? null,
+        locations,
+        serverTime: new Date().toISOString(),
+      }
+    };
+
+  } catch (error) {
+    context.error('Error fetching last known location:', error);
+    return {
+      status: 500,
+      jsonBody: {
+        error: 'Failed to fetch last known location',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      }
+    };
+  }
+}
+
+app.http('routes-location', {
+  methods: ['GET'],
+  authLevel: 'anonymous',
+  route: 'routes/{id}/location',
+  handler: getRouteLocation
+});
@@ -17,6 +17,7 @@
 import { app, HttpRequest, HttpResponseInit, InvocationContext } from '@azure/functions';
 import { validateToken, checkBrigadePermission } from './utils/auth';
 import { shouldAutoApprove } from './utils/emailValidation';
+import { writeAuditEvent } from './utils/auditLog';
 import { getTableClient, isDevMode } from './utils/storage';
 
 const MEMBERSHIPS_TABLE = isDevMode ? 'dev-memberships' : 'memberships';
@@ -287,6 +288,16 @@ async function inviteMember(request: HttpRequest, context: InvocationContext): P
 
     context.log(`Created invitation for ${invitationData.email} to brigade: ${brigadeId} (auto-approve: ${autoApprove})`);
 
+    await writeAuditEvent({
+      eventType: 'membership.invited',
+      message: `${authResult.email || authResult.userId} invited ${invitation.email} as ${invitation.role}`,
+      brigadeId,
+      userId: authResult.userId,
+      userEmail: authResult.email,
+      resourceId: invitation.id,
+      metadata: { invitedEmail: invitation.email, role: invitation.role, autoApprove },
+    }, context);
+
     return {
       status: 201,
       jsonBody: { ...invitation, autoApprove }
@@ -372,6 +383,16 @@ async function removeMember(request: HttpRequest, context: InvocationContext): P
 
     context.log(`Removed member ${userId} from brigade: ${brigadeId} by user: ${authResult.userId}`);
 
+    await writeAuditEvent({
+      eventType: 'membership.removed',
+      message: `${authResult.email || authResult.userId} removed member ${userId}`,
+      brigadeId,
+      userId: authResult.userId,
+      userEmail: authResult.email,
+      targetUserId: userId,
+      resourceId: membershipId,
+    }, context);
+
     return {
       status: 200,
       jsonBody: { message: 'Member removed successfully' }
@@ -457,6 +478,7 @@ async function changeMemberRole(request: HttpRequest, context: InvocationContext
     }
 
     // Update role
+    const previousRole = membership.role;
     membership.role = role;
     membership.updatedAt = new Date().toISOString();
 
@@ -465,6 +487,19 @@ async function changeMemberRole(request: HttpRequest, context: InvocationContext
 
     context.log(`Changed role for member ${userId} in brigade ${brigadeId} to: ${role} by user: ${authResult.userId}`);
 
+    await writeAuditEvent({
+      eventType: role === 'admin' ? 'role.promoted_to_admin'
+        : previousRole === 'admin' ? 'role.demoted_from_admin'
+        : 'role.changed',
+      message: `${authResult.email || authResult.userId} changed ${userId}'s role from ${previousRole} to ${role}`,
+      brigadeId,
+      userId: authResult.userId,
+      userEmail: authResult.email,
+      targetUserId: userId,
+      resourceId: membership.id,
+      metadata: { oldRole: previousRole, newRole: role },
+    }, context);
+
     return {
       status: 200,
       jsonBody: membership
@@ -602,6 +637,16 @@ async function approveMember(request: HttpRequest, context: InvocationContext):
 
     context.log(`Approved member ${userId} for brigade: ${brigadeId}`);
 
+    await writeAuditEvent({
+      eventType: 'membership.approved',
+      message: `${authResult.email || authResult.userId} approved membership for ${userId}`,
+      brigadeId,
+      userId: authResult.userId,
+      userEmail: authResult.email,
+      targetUserId: userId,
+      resourceId: membership.id,
+    }, context);
+
     return {
       status: 200,
       jsonBody: membership
@@ -2,17 +2,32 @@
  * /api/negotiate - Generate Azure Web PubSub connection token
  * 
  * This function generates connection tokens for clients to connect to Azure Web PubSub.
- * It supports two types of connections:
+ * It supports three types of connections:
  * - Viewer: Can receive messages from a specific route group (read-only)
- * - Broadcaster: Can send messages to a specific route group (for navigator device)
+ * - Broadcaster: Receives from a specific route group (for the navigator device);
+ *   its locations go through /api/broadcast, never straight to the group
+ * - Editor: Can send and receive messages in the route's editing group, which
+ *   carries presence and live waypoint edits between operators planning the route
  * 
  * Query Parameters:
  * - routeId (required): The route ID to connect to
- * - role (optional): 'viewer' (default) or 'broadcaster'
+ * - role (optional): 'viewer' (default), 'broadcaster' or 'editor'
+ * 
+ * Viewers connect anonymously. Broadcasters must send a bearer token and be an
+ * active operator/admin of the route's brigade, and the route must be published or active;
+ * their connections carry the operator's user ID, which is how viewer counts
+ * (utils/viewerConnections) tell them apart from the viewers.
+ * Editors must send a bearer token and be allowed to manage the brigade's routes,
+ * and the route must be a draft or published. Editor connections carry the
+ * caller's user ID, so peers see who each message is from, and are limited to
+ * the editing group (tracking viewers never receive edit traffic).
  */
 
 import { app, HttpRequest, HttpResponseInit, InvocationContext } from '@azure/functions';
 import { WebPubSubServiceClient } from '@azure/web-pubsub';
+import { validateToken } from './utils/auth';
+import { authorizeRouteOperator, routeAccessErrorResponse, tableRouteLookups } from './utils/routeAccess';
+import { buildClientTokenOptions, getRouteGroupName } from './utils/pubsubToken';
 
 const HUB_NAME = 'santa-tracking';
 
@@ -33,15 +48,41 @@ export async function negotiate(request: HttpRequest, context: InvocationContext
     }
 
     // Validate role
-    if (role !== 'viewer' && role !== 'broadcaster') {
+    if (role !== 'viewer' && role !== 'broadcaster' && role !== 'editor') {
       return {
         status: 400,
         jsonBody: {
-          error: 'Invalid role. Must be "viewer" or "broadcaster"'
+          error: 'Invalid role. Must be "viewer", "broadcaster" or "editor"'
         }
       };
     }
 
+    // Broadcaster and editor connections carry the caller's user ID; viewers never do
+    let userId: string | undefined;
+
+    // Broadcaster connections are limited to the route's operators
+    if (role === 'broadcaster') {
+      const authResult = await validateToken(request);
+      const access = await authorizeRouteOperator(authResult, routeId, tableRouteLookups, ['published', 'active']);
+      if (!access.authorized) {
+        context.warn(`Rejected broadcaster negotiate for route ${routeId}: ${access.code}`);
+        return routeAccessErrorResponse(access);
+      }
+      userId = access.userId;
+    }
+
+    if (role === 'editor') {
+      const authResult = await validateToken(request);
+      const access = await authorizeRouteOperator(
+        authResult, routeId, tableRouteLookups, ['draft', 'published'], 'manage_routes'
+      );
+      if (!access.authorized) {
+        context.warn(`Rejected editor negotiate for route ${routeId}: ${access.code}`);
+        return routeAccessErrorResponse(access);
+      }
+      userId = access.userId;
+    }
+
     // Get Web PubSub connection string from environment
     const connectionString = process.env.AZURE_WEBPUBSUB_CONNECTION_STRING;
     
@@ -58,17 +99,11 @@ export async function negotiate(request: HttpRequest, context: InvocationContext
     // Create Web PubSub service client
     const serviceClient = new WebPubSubServiceClient(connectionString, HUB_NAME);
 
-    // Generate group name for route
-    const groupName = `route_${routeId}`;
+    // Generate group name for route (editors get the route's separate editing group)
+    const groupName = getRouteGroupName(role, routeId);
 
-    // Configure token options based on role
-    const tokenOptions = {
-      groups: [groupName],
-      roles: role === 'broadcaster' 
-        ? ['webpubsub.sendToGroup', 'webpubsub.joinLeaveGroup']
-        : [], // Viewers get default permissions (can receive messages)
-      expirationTimeInMinutes: 120, // 2 hours
-    };
+    // Permissions are scoped to the route's group, never the whole hub
+    const tokenOptions = buildClientTokenOptions(role, routeId, userId);
 
     // Generate access token
     const token = await serviceClient.getClientAccessToken(tokenOptions);
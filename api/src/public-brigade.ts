@@ -0,0 +1,114 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+/**
+ * /api/public/brigades/{slug} - Public brigade page
+ *
+ * Returns a brigade's public profile (name, logo, theme colour, contact) and
+ * its published, active and recently completed routes, so residents can find
+ * runs from the brigade page at /b/{slug}. Public endpoint (no authentication):
+ * drafts and internal fields are never included.
+ */
+
+import { app, HttpRequest, HttpResponseInit, InvocationContext } from '@azure/functions';
+import { getTableClient, isDevMode } from './utils/storage';
+import { buildPublicBrigadePage } from './utils/publicBrigade';
+import type { BrigadeRecord, RouteRecord } from './utils/publicBrigade';
+
+const BRIGADES_TABLE = isDevMode ? 'dev-brigades' : 'brigades';
+const ROUTES_TABLE = isDevMode ? 'dev-routes' : 'routes';
+
+async function findBrigadeBySlug(slug: string): Promise<(BrigadeRecord & { id: string }) | null> {
+  const client = await getTableClient(BRIGADES_TABLE);
+  const entities = client.listEntities({
+    queryOptions: { filter: `slug eq '${slug.replace(/'/g, "''")}'` }
+  });
+
+  for await (const entity of entities) {
+    return {
+      id: entity.rowKey as string,
+      slug: entity.slug as string,
+      name: entity.name as string,
+      location: entity.location as string,
+      logo: entity.logo as string,
+      themeColor: entity.themeColor as string,
+      contact: entity.contact ? JSON.parse(entity.contact as string) : undefined,
+      contactEmail: entity.contactEmail as string,
+      contactPhone: entity.contactPhone as string,
+    };
+  }
+
+  return null;
+}
+
+async function listBrigadeRoutes(brigadeId: string): Promise<RouteRecord[]> {
+  const client = await getTableClient(ROUTES_TABLE);
+  const entities = client.listEntities({
+    queryOptions: {
+      filter: `PartitionKey eq '${brigadeId}' and status ne 'draft'`,
+    }
+  });
+
+  const routes: RouteRecord[] = [];
+  for await (const entity of entities as AsyncIterable<any>) {
+    routes.push({
+      id: entity.rowKey,
+      name: entity.name,
+      description: entity.description,
+      date: entity.date,
+      startTime: entity.startTime,
+      endTime: entity.endTime,
+      status: entity.status,
+      waypoints: entity.waypoints ? JSON.parse(entity.waypoints) : [],
+      distance: entity.distance,
+      estimatedDuration: entity.estimatedDuration,
+      startedAt: entity.startedAt,
+      completedAt: entity.completedAt,
+    });
+  }
+  return routes;
+}
+
+export async function getPublicBrigade(request: HttpRequest, context: InvocationContext): Promise<HttpResponseInit> {
+  try {
+    const slug = request.params.slug;
+
+    if (!slug) {
+      return {
+        status: 400,
+        jsonBody: { error: 'Missing required parameter: slug' }
+      };
+    }
+
+    const brigade = await findBrigadeBySlug(slug);
+    if (!brigade) {
+      return {
+        status: 404,
+        jsonBody: { error: 'Brigade not found' }
+      };
+    }
+
+    const routes = await listBrigadeRoutes(brigade.id);
+
+    return {
+      status: 200,
+      headers: { 'Cache-Control': 'public, max-age=60' },
+      jsonBody: buildPublicBrigadePage(brigade, routes, new Date())
+    };
+
+  } catch (error) {
+    context.error('Error fetching public brigade page:', error);
+    return {
+      status: 500,
+      jsonBody: {
+        error: 'Failed to fetch brigade',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      }
+    };
+  }
+}
+
+app.http('public-brigade-get', {
+  methods: ['GET'],
+  authLevel: 'anonymous',
+  route: 'public/brigades/{slug}',
+  handler: getPublicBrigade
+});
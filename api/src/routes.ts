@@ -8,18 +8,83 @@
  * Endpoints:
  * - GET /api/routes?brigadeId=xxx - List all routes for a brigade
  * - GET /api/routes/{id}?brigadeId=xxx - Get single route
+ *   (both public, but drafts are only returned to the brigade's active members)
  * - POST /api/routes - Create new route
  * - PUT /api/routes/{id} - Update existing route
  * - DELETE /api/routes/{id}?brigadeId=xxx - Delete route
+ * - POST /api/routes/{id}/publish?brigadeId=xxx - draft → published
+ * - POST /api/routes/{id}/start?brigadeId=xxx - published → active
+ * - POST /api/routes/{id}/complete?brigadeId=xxx - active → completed
+ * - POST /api/routes/{id}/archive?brigadeId=xxx - completed → archived
+ * - POST /api/routes/{id}/revert-to-draft?brigadeId=xxx - published → draft
+ * - GET /api/routes/{id}/revisions?brigadeId=xxx - List a route's revisions (newest first)
+ * - GET /api/routes/{id}/revisions/{revisionId}?brigadeId=xxx - Get a revision with its snapshot
+ * - POST /api/routes/{id}/revisions/{revisionId}/restore?brigadeId=xxx - Restore an earlier revision
+ *
+ * Updates to an active route keep stops already marked complete, since every
+ * vehicle's navigator on a multi-vehicle run saves the whole route.
+ *
+ * Status only moves along the state machine in utils/routeStatus. New routes
+ * are drafts, and a PUT that changes the status is treated as the matching
+ * transition (the navigator's offline outbox saves whole routes), so
+ * publishedAt/startedAt/completedAt are always stamped here, never taken from
+ * the client. Invalid transitions are rejected with an error code.
+ *
+ * Routes carry their Table Storage ETag as `version` (and an ETag header on
+ * GET). A PUT must send If-Match: edits to a draft or published route made
+ * against an older version are rejected with 412 VERSION_CONFLICT and the
+ * current route, so the editor can merge or reload instead of overwriting.
+ * Every PUT writes conditionally on the version it read; a save that lands in
+ * between gets 409 VERSION_CONFLICT with the current route.
+ *
+ * Saves that change the plan also record a revision (see utils/routeRevisions).
+ * Restoring one puts its plan back on a draft or published route and records
+ * that as a new revision, so nothing in the history is ever lost.
+ *
+ * viewCount belongs to the server. Tracking page opens are recorded as viewer
+ * sessions (see analytics.ts) rather than incremented on the route, which would
+ * change its version on every view; the count is written once, when the route
+ * is completed.
  */
 
 import { app, HttpRequest, HttpResponseInit, InvocationContext } from '@azure/functions';
 import { validateToken, checkBrigadePermission } from './utils/auth';
 import { getTableClient, isDevMode } from './utils/storage';
+import { purgePushSubscriptions } from './utils/pushSubscriptions';
+import { purgeViewerSessions } from './utils/viewerAnalytics';
+import { listViewerConnectionCounts, purgeViewerConnections } from './utils/viewerConnections';
+import { writeMergedProgress } from './utils/routeProgress';
+import { canViewDraftRoutes } from './utils/routeAccess';
+import {
+  ROUTE_TRANSITIONS,
+  TRANSITION_AUDIT_EVENTS,
+  applyRouteTransition,
+  checkRouteTransition,
+  findRouteTransition,
+} from './utils/routeStatus';
+import type { RouteTransition } from './utils/routeStatus';
+import { writeAuditEvent } from './utils/auditLog';
+import { checkRouteVersion, writeIfUnchanged } from './utils/routeVersion';
+import {
+  canRestoreRevision,
+  getRouteRevision,
+  listRouteRevisions,
+  purgeRouteRevisions,
+  recordRouteRevision,
+} from './utils/routeRevisions';
 
 const ROUTES_TABLE = isDevMode ? 'dev-routes' : 'routes';
 const MEMBERSHIPS_TABLE = isDevMode ? 'dev-memberships' : 'memberships';
 
+// Running the route is a navigator's job; the rest is route management
+const TRANSITION_PERMISSIONS: Record<RouteTransition, 'manage_routes' | 'start_navigation'> = {
+  publish: 'manage_routes',
+  start: 'start_navigation',
+  complete: 'start_navigation',
+  archive: 'manage_routes',
+  'revert-to-draft': 'manage_routes',
+};
+
 async function getRoutesTableClient() {
   return getTableClient(ROUTES_TABLE);
 }
@@ -28,6 +93,58 @@ async function getMembershipsTableClient() {
   return getTableClient(MEMBERSHIPS_TABLE);
 }
 
+/**
+ * Drop "Santa is near" alerts once a run is over (best-effort)
+ */
+async function purgeRouteAlerts(routeId: string, context: InvocationContext): Promise<void> {
+  try {
+    const purged = await purgePushSubscriptions(routeId);
+    if (purged > 0) {
+      context.log(`Purged ${purged} nearby alerts for route: ${routeId}`);
+    }
+  } catch (purgeError) {
+    context.warn(`Failed to purge nearby alerts for route ${routeId}:`, purgeError);
+  }
+}
+
+/**
+ * Count the viewer connections the service saw on a route for its stored viewCount (best-effort)
+ * Page reports are not counted, so they cannot inflate it; see utils/viewerConnections.
+ */
+async function countRouteViews(routeId: string, fallback: number, context: InvocationContext): Promise<number> {
+  try {
+    return (await listViewerConnectionCounts(routeId)).connections;
+  } catch (countError) {
+    context.warn(`Failed to count views for route ${routeId}:`, countError);
+    return fallback;
+  }
+}
+
+/**
+ * Record a status transition in the audit log and drop alerts once the run is over
+ */
+async function recordTransition(
+  route: { id: string; brigadeId: string; name: string },
+  transition: RouteTransition,
+  from: string,
+  authResult: { userId?: string; email?: string },
+  context: InvocationContext
+): Promise<void> {
+  await writeAuditEvent({
+    eventType: TRANSITION_AUDIT_EVENTS[transition],
+    message: `Route "${route.name}" moved from ${from} to ${ROUTE_TRANSITIONS[transition].to}`,
+    brigadeId: route.brigadeId,
+    userId: authResult.userId,
+    userEmail: authResult.email,
+    resourceId: route.id,
+    metadata: { transition, from, to: ROUTE_TRANSITIONS[transition].to },
+  }, context);
+
+  if (transition === 'complete' || transition === 'archive') {
+    await purgeRouteAlerts(route.id, context);
+  }
+}
+
 // Helper to get user's membership in a brigade
 async function getUserMembership(userId: string, brigadeId: string): Promise<any> {
   const client = await getMembershipsTableClient();
@@ -64,9 +181,12 @@ function entityToRoute(entity: any) {
     waypoints: entity.waypoints ? JSON.parse(entity.waypoints) : [],
     geometry: entity.geometry ? JSON.parse(entity.geometry) : undefined,
     navigationSteps: entity.navigationSteps ? JSON.parse(entity.navigationSteps) : undefined,
+    vehicles: entity.vehicles ? JSON.parse(entity.vehicles) : undefined,
     distance: entity.distance,
     estimatedDuration: entity.estimatedDuration,
+    defaultDwellMinutes: entity.defaultDwellMinutes,
     actualDuration: entity.actualDuration,
+    scheduleResults: entity.scheduleResults ? JSON.parse(entity.scheduleResults) : undefined,
     createdAt: entity.createdAt,
     createdBy: entity.createdBy,
     publishedAt: entity.publishedAt,
@@ -75,6 +195,7 @@ function entityToRoute(entity: any) {
     shareableLink: entity.shareableLink,
     qrCodeUrl: entity.qrCodeUrl,
     viewCount: entity.viewCount || 0,
+    version: entity.etag,
   };
   return route;
 }
@@ -93,9 +214,12 @@ function routeToEntity(route: any) {
     waypoints: JSON.stringify(route.waypoints || []),
     geometry: route.geometry ? JSON.stringify(route.geometry) : '',
     navigationSteps: route.navigationSteps ? JSON.stringify(route.navigationSteps) : '',
+    vehicles: route.vehicles?.length ? JSON.stringify(route.vehicles) : '',
     distance: route.distance || 0,
     estimatedDuration: route.estimatedDuration || 0,
+    defaultDwellMinutes: route.defaultDwellMinutes ?? 0,
     actualDuration: route.actualDuration || 0,
+    scheduleResults: route.scheduleResults ? JSON.stringify(route.scheduleResults) : '',
     createdAt: route.createdAt || new Date().toISOString(),
     createdBy: route.createdBy || '',
     publishedAt: route.publishedAt || '',
@@ -122,12 +246,22 @@ async function getRoutes(request: HttpRequest, context: InvocationContext): Prom
 
     const client = await getRoutesTableClient();
 
+    // Drafts are only shown to the brigade's own members; anyone may read the rest
+    const canSeeDrafts = async () => canViewDraftRoutes(await validateToken(request), brigadeId);
+
     // Get single route
     if (routeId) {
       try {
         const entity = await client.getEntity(brigadeId, routeId);
+        if (entity.status === 'draft' && !await canSeeDrafts()) {
+          return {
+            status: 404,
+            jsonBody: { error: 'Route not found' }
+          };
+        }
         return {
           status: 200,
+          headers: entity.etag ? { ETag: entity.etag } : undefined,
           jsonBody: entityToRoute(entity)
         };
       } catch (error: any) {
@@ -150,10 +284,13 @@ async function getRoutes(request: HttpRequest, context: InvocationContext): Prom
     for await (const entity of entities) {
       routes.push(entityToRoute(entity));
     }
+    const visibleRoutes = routes.some(r => r.status === 'draft') && !await canSeeDrafts()
+      ? routes.filter(r => r.status !== 'draft')
+      : routes;
 
     return {
       status: 200,
-      jsonBody: routes
+      jsonBody: visibleRoutes
     };
 
   } catch (error) {
@@ -205,16 +342,34 @@ async function createRoute(request: HttpRequest, context: InvocationContext): Pr
       };
     }
 
+    if (route.status && route.status !== 'draft') {
+      return {
+        status: 409,
+        jsonBody: {
+          error: 'Invalid status transition',
+          code: 'INVALID_TRANSITION',
+          message: `New routes start as drafts, not ${route.status}; publish with POST /api/routes/{id}/publish`
+        }
+      };
+    }
+
     const client = await getRoutesTableClient();
-    const entity = routeToEntity(route);
+    const entity = routeToEntity({
+      ...route,
+      status: 'draft',
+      publishedAt: undefined,
+      startedAt: undefined,
+      completedAt: undefined,
+    });
 
-    await client.createEntity(entity);
+    const result = await client.createEntity(entity);
+    await recordRouteRevision(null, entityToRoute(entity), authResult, context);
 
     context.log(`Created route: ${route.id} for brigade: ${route.brigadeId} by user: ${authResult.userId}`);
 
     return {
       status: 201,
-      jsonBody: route
+      jsonBody: entityToRoute({ ...entity, etag: result.etag })
     };
 
   } catch (error: any) {
@@ -276,15 +431,102 @@ async function updateRoute(request: HttpRequest, context: InvocationContext): Pr
     }
 
     const client = await getRoutesTableClient();
-    const entity = routeToEntity({ ...route, id: routeId });
+    const stored = entityToRoute(await client.getEntity(route.brigadeId, routeId));
 
-    await client.updateEntity(entity, 'Merge');
+    const versionCheck = checkRouteVersion(request.headers.get('if-match'), stored, route.status ?? stored.status);
+    if (!versionCheck.ok) {
+      return {
+        status: versionCheck.httpStatus,
+        jsonBody: {
+          error: 'Route version mismatch',
+          code: versionCheck.code,
+          message: versionCheck.message,
+          current: versionCheck.code === 'VERSION_CONFLICT' ? stored : undefined
+        }
+      };
+    }
+
+    // Lifecycle timestamps belong to the server
+    let updated = {
+      ...route,
+      id: routeId,
+      status: stored.status,
+      publishedAt: stored.publishedAt,
+      startedAt: stored.startedAt,
+      completedAt: stored.completedAt,
+      viewCount: stored.viewCount,
+    };
+
+    const requestedStatus = route.status ?? stored.status;
+    let transition: RouteTransition | null = null;
+    if (requestedStatus !== stored.status) {
+      transition = findRouteTransition(stored.status, requestedStatus);
+      if (!transition) {
+        return {
+          status: 409,
+          jsonBody: {
+            error: 'Invalid status transition',
+            code: 'INVALID_TRANSITION',
+            message: `Cannot change a ${stored.status} route to ${requestedStatus}`
+          }
+        };
+      }
+      const check = checkRouteTransition(updated, transition);
+      if (!check.ok) {
+        return {
+          status: check.httpStatus,
+          jsonBody: { error: 'Invalid status transition', code: check.code, message: check.message }
+        };
+      }
+      updated = applyRouteTransition(updated, transition, new Date());
+      if (transition === 'complete') {
+        updated.viewCount = await countRouteViews(routeId, stored.viewCount, context);
+      }
+    }
+
+    let entity = routeToEntity(updated);
+    let base = stored;
+    const loadCurrent = async () => entityToRoute(await client.getEntity(route.brigadeId, routeId));
+
+    // Always conditional on the version read above, in case another save lands before the write.
+    // Several vehicles' navigators save the same route mid-run, so those saves are merged into
+    // the stored completions, and merged again into the newer route if another device wins the race.
+    const isProgressSave = stored.status === 'active' && (requestedStatus === 'active' || requestedStatus === 'completed');
+    const write = await writeIfUnchanged(
+      () => isProgressSave
+        ? writeMergedProgress(
+          stored,
+          route.waypoints || [],
+          async () => {
+            const latest = await loadCurrent();
+            return latest.status === stored.status ? latest : null;
+          },
+          (waypoints, latest) => {
+            base = latest;
+            entity = routeToEntity({ ...updated, waypoints });
+            return client.updateEntity(entity, 'Merge', { etag: latest.version });
+          }
+        )
+        : client.updateEntity(entity, 'Merge', { etag: stored.version }),
+      loadCurrent
+    );
+    if (!write.ok) {
+      return { status: 409, jsonBody: write.body };
+    }
+    const result = write.result;
+
+    if (transition) {
+      await recordTransition(updated, transition, stored.status, authResult, context);
+    }
+    // Compare what was stored before and after, so fields the client leaves out don't count as changes
+    await recordRouteRevision(base, entityToRoute(entity), authResult, context);
 
     context.log(`Updated route: ${routeId} for brigade: ${route.brigadeId} by user: ${authResult.userId}`);
 
     return {
       status: 200,
-      jsonBody: route
+      headers: result.etag ? { ETag: result.etag } : undefined,
+      jsonBody: entityToRoute({ ...entity, etag: result.etag })
     };
 
   } catch (error: any) {
@@ -347,6 +589,10 @@ async function deleteRoute(request: HttpRequest, context: InvocationContext): Pr
 
     const client = await getRoutesTableClient();
     await client.deleteEntity(brigadeId, routeId);
+    await purgeRouteAlerts(routeId, context);
+    await purgeRouteRevisions(routeId, context);
+    await purgeViewerSessions(routeId, context);
+    await purgeViewerConnections(routeId, context);
 
     context.log(`Deleted route: ${routeId} for brigade: ${brigadeId} by user: ${authResult.userId}`);
 
@@ -375,6 +621,288 @@ async function deleteRoute(request: HttpRequest, context: InvocationContext): Pr
   }
 }
 
+// POST /api/routes/{id}/{transition}?brigadeId=xxx
+async function transitionRoute(
+  request: HttpRequest,
+  context: InvocationContext,
+  transition: RouteTransition
+): Promise<HttpResponseInit> {
+  try {
+    // Validate authentication
+    const authResult = await validateToken(request);
+    if (!authResult.authenticated) {
+      context.error(`Authentication failed during route ${transition}:`, authResult);
+      return {
+        status: 401,
+        jsonBody: { error: 'Unauthorized', message: authResult.error || 'Authentication required' }
+      };
+    }
+
+    const routeId = request.params.id;
+    const brigadeId = request.query.get('brigadeId');
+
+    if (!routeId || !brigadeId) {
+      return {
+        status: 400,
+        jsonBody: { error: 'Missing required parameters: id, brigadeId' }
+      };
+    }
+
+    // Check brigade permission
+    const permissionCheck = await checkBrigadePermission(
+      authResult.userId!,
+      brigadeId,
+      TRANSITION_PERMISSIONS[transition],
+      getUserMembership
+    );
+
+    if (!permissionCheck.authorized) {
+      return {
+        status: 403,
+        jsonBody: { error: 'Forbidden', message: permissionCheck.error || 'Insufficient permissions' }
+      };
+    }
+
+    const client = await getRoutesTableClient();
+    const stored = entityToRoute(await client.getEntity(brigadeId, routeId));
+
+    const check = checkRouteTransition(stored, transition);
+    if (!check.ok) {
+      return {
+        status: check.httpStatus,
+        jsonBody: { error: 'Invalid status transition', code: check.code, message: check.message }
+      };
+    }
+
+    const updated = applyRouteTransition(stored, transition, new Date());
+    if (transition === 'complete') {
+      updated.viewCount = await countRouteViews(routeId, stored.viewCount, context);
+    }
+    const entity = routeToEntity(updated);
+
+    // Conditional on the route as read, so a concurrent save or transition isn't overwritten
+    const write = await writeIfUnchanged(
+      () => client.updateEntity(entity, 'Merge', { etag: stored.version }),
+      async () => entityToRoute(await client.getEntity(brigadeId, routeId)),
+      'Someone else changed this route while its status was being changed'
+    );
+    if (!write.ok) {
+      return { status: write.httpStatus, jsonBody: write.body };
+    }
+    const result = write.result;
+    await recordTransition(updated, transition, stored.status, authResult, context);
+
+    context.log(`Route ${routeId} ${stored.status} → ${updated.status} (${transition}) by user: ${authResult.userId}`);
+
+    return {
+      status: 200,
+      jsonBody: entityToRoute({ ...entity, etag: result.etag })
+    };
+
+  } catch (error: any) {
+    context.error(`Error running route transition ${transition}:`, error);
+
+    if (error.statusCode === 404) {
+      return {
+        status: 404,
+        jsonBody: { error: 'Route not found' }
+      };
+    }
+
+    return {
+      status: 500,
+      jsonBody: {
+        error: 'Failed to change route status',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      }
+    };
+  }
+}
+
+// GET /api/routes/{id}/revisions?brigadeId=xxx OR GET /api/routes/{id}/revisions/{revisionId}?brigadeId=xxx
+async function getRevisions(request: HttpRequest, context: InvocationContext): Promise<HttpResponseInit> {
+  try {
+    // Validate authentication
+    const authResult = await validateToken(request);
+    if (!authResult.authenticated) {
+      context.error('Authentication failed during route history request:', authResult);
+      return {
+        status: 401,
+        jsonBody: { error: 'Unauthorized', message: authResult.error || 'Authentication required' }
+      };
+    }
+
+    const routeId = request.params.id;
+    const revisionId = request.params.revisionId;
+    const brigadeId = request.query.get('brigadeId');
+
+    if (!routeId || !brigadeId) {
+      return {
+        status: 400,
+        jsonBody: { error: 'Missing required parameters: id, brigadeId' }
+      };
+    }
+
+    // Check brigade permission
+    const permissionCheck = await checkBrigadePermission(
+      authResult.userId!,
+      brigadeId,
+      'manage_routes',
+      getUserMembership
+    );
+
+    if (!permissionCheck.authorized) {
+      return {
+        status: 403,
+        jsonBody: { error: 'Forbidden', message: permissionCheck.error || 'Insufficient permissions' }
+      };
+    }
+
+    // Get single revision
+    if (revisionId) {
+      const revision = await getRouteRevision(brigadeId, routeId, revisionId);
+      if (!revision) {
+        return {
+          status: 404,
+          jsonBody: { error: 'Revision not found' }
+        };
+      }
+      return {
+        status: 200,
+        jsonBody: revision
+      };
+    }
+
+    return {
+      status: 200,
+      jsonBody: await listRouteRevisions(brigadeId, routeId)
+    };
+
+  } catch (error) {
+    context.error('Error fetching route revisions:', error);
+    return {
+      status: 500,
+      jsonBody: {
+        error: 'Failed to fetch route history',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      }
+    };
+  }
+}
+
+// POST /api/routes/{id}/revisions/{revisionId}/restore?brigadeId=xxx
+async function restoreRevision(request: HttpRequest, context: InvocationContext): Promise<HttpResponseInit> {
+  try {
+    // Validate authentication
+    const authResult = await validateToken(request);
+    if (!authResult.authenticated) {
+      context.error('Authentication failed during route restore:', authResult);
+      return {
+        status: 401,
+        jsonBody: { error: 'Unauthorized', message: authResult.error || 'Authentication required' }
+      };
+    }
+
+    const routeId = request.params.id;
+    const revisionId = request.params.revisionId;
+    const brigadeId = request.query.get('brigadeId');
+
+    if (!routeId || !revisionId || !brigadeId) {
+      return {
+        status: 400,
+        jsonBody: { error: 'Missing required parameters: id, revisionId, brigadeId' }
+      };
+    }
+
+    // Check brigade permission
+    const permissionCheck = await checkBrigadePermission(
+      authResult.userId!,
+      brigadeId,
+      'manage_routes',
+      getUserMembership
+    );
+
+    if (!permissionCheck.authorized) {
+      return {
+        status: 403,
+        jsonBody: { error: 'Forbidden', message: permissionCheck.error || 'Insufficient permissions' }
+      };
+    }
+
+    const client = await getRoutesTableClient();
+    const stored = entityToRoute(await client.getEntity(brigadeId, routeId));
+
+    if (!canRestoreRevision(stored.status)) {
+      return {
+        status: 409,
+        jsonBody: {
+          error: 'Cannot restore revision',
+          code: 'ROUTE_NOT_EDITABLE',
+          message: `The plan of a ${stored.status} route can't be changed; only draft and published routes can be restored`
+        }
+      };
+    }
+
+    const revision = await getRouteRevision(brigadeId, routeId, revisionId);
+    if (!revision?.snapshot) {
+      return {
+        status: 404,
+        jsonBody: { error: 'Revision not found' }
+      };
+    }
+
+    const entity = routeToEntity({ ...stored, ...revision.snapshot });
+
+    // Conditional on the route as read, in case a save lands in between
+    const write = await writeIfUnchanged(
+      () => client.updateEntity(entity, 'Merge', { etag: stored.version }),
+      async () => entityToRoute(await client.getEntity(brigadeId, routeId)),
+      'Someone else saved this route while it was being restored'
+    );
+    if (!write.ok) {
+      return { status: write.httpStatus, jsonBody: write.body };
+    }
+    const result = write.result;
+
+    await recordRouteRevision(stored, entityToRoute(entity), authResult, context, revisionId);
+    await writeAuditEvent({
+      eventType: 'route.revision_restored',
+      message: `Route "${stored.name}" restored to the version saved ${revision.savedAt}`,
+      brigadeId,
+      userId: authResult.userId,
+      userEmail: authResult.email,
+      resourceId: routeId,
+      metadata: { revisionId },
+    }, context);
+
+    context.log(`Restored route ${routeId} to revision ${revisionId} by user: ${authResult.userId}`);
+
+    return {
+      status: 200,
+      headers: result.etag ? { ETag: result.etag } : undefined,
+      jsonBody: entityToRoute({ ...entity, etag: result.etag })
+    };
+
+  } catch (error: any) {
+    context.error('Error restoring route revision:', error);
+
+    if (error.statusCode === 404) {
+      return {
+        status: 404,
+        jsonBody: { error: 'Route not found' }
+      };
+    }
+
+    return {
+      status: 500,
+      jsonBody: {
+        error: 'Failed to restore route revision',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      }
+    };
+  }
+}
+
 // Register HTTP endpoints
 app.http('routes-list', {
   methods: ['GET'],
@@ -410,3 +938,33 @@ app.http('routes-delete', {
   route: 'routes/{id}',
   handler: deleteRoute
 });
+
+for (const transition of Object.keys(ROUTE_TRANSITIONS) as RouteTransition[]) {
+  app.http(`routes-${transition}`, {
+    methods: ['POST'],
+    authLevel: 'anonymous',
+    route: `routes/{id}/${transition}`,
+    handler: (request, context) => transitionRoute(request, context, transition)
+  });
+}
+
+app.http('routes-revisions-list', {
+  methods: ['GET'],
+  authLevel: 'anonymous',
+  route: 'routes/{id}/revisions',
+  handler: getRevisions
+});
+
+app.http('routes-revisions-get', {
+  methods: ['GET'],
+  authLevel: 'anonymous',
+  route: 'routes/{id}/revisions/{revisionId}',
+  handler: getRevisions
+});
+
+app.http('routes-revisions-restore', {
+  methods: ['POST'],
+  authLevel: 'anonymous',
+  route: 'routes/{id}/revisions/{revisionId}/restore',
+  handler: restoreRevision
+});
@@ -0,0 +1,258 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+/**
+ * /api/templates - Route templates API
+ *
+ * Brigade-level saved route plans that members with `manage_routes` can turn
+ * into next year's route. Templates are stored with brigadeId as partition key.
+ *
+ * Endpoints:
+ * - GET /api/templates?brigadeId=xxx - List a brigade's templates
+ * - PUT /api/templates/{id} - Create or replace a template
+ * - DELETE /api/templates/{id}?brigadeId=xxx - Delete a template
+ */
+
+import { app, HttpRequest, HttpResponseInit, InvocationContext } from '@azure/functions';
+import { validateToken, checkBrigadePermission } from './utils/auth';
+import { getTableClient, isDevMode } from './utils/storage';
+import { tableRouteLookups } from './utils/routeAccess';
+
+const TEMPLATES_TABLE = isDevMode ? 'dev-routetemplates' : 'routetemplates';
+
+async function getTemplatesTableClient() {
+  return getTableClient(TEMPLATES_TABLE);
+}
+
+/**
+ * Authenticate the caller and check they can manage the brigade's routes
+ */
+async function authorizeTemplateRequest(
+  request: HttpRequest,
+  brigadeId: string,
+  context: InvocationContext
+): Promise<{ userId?: string; response?: HttpResponseInit }> {
+  const authResult = await validateToken(request);
+  if (!authResult.authenticated) {
+    context.error('Authentication failed during template request:', authResult);
+    return {
+      response: {
+        status: 401,
+        jsonBody: { error: 'Unauthorized', message: authResult.error || 'Authentication required' }
+      }
+    };
+  }
+
+  const permissionCheck = await checkBrigadePermission(
+    authResult.userId!,
+    brigadeId,
+    'manage_routes',
+    tableRouteLookups.getMembership
+  );
+
+  if (!permissionCheck.authorized) {
+    return {
+      response: {
+        status: 403,
+        jsonBody: { error: 'Forbidden', message: permissionCheck.error || 'Insufficient permissions' }
+      }
+    };
+  }
+
+  return { userId: authResult.userId };
+}
+
+// Helper to convert Table entity to RouteTemplate object
+function entityToTemplate(entity: any) {
+  return {
+    id: entity.rowKey,
+    brigadeId: entity.partitionKey,
+    name: entity.name,
+    description: entity.description,
+    startTime: entity.startTime,
+    endTime: entity.endTime || undefined,
+    waypoints: entity.waypoints ? JSON.parse(entity.waypoints) : [],
+    vehicles: entity.vehicles ? JSON.parse(entity.vehicles) : undefined,
+    geometry: entity.geometry ? JSON.parse(entity.geometry) : undefined,
+    navigationSteps: entity.navigationSteps ? JSON.parse(entity.navigationSteps) : undefined,
+    distance: entity.distance,
+    estimatedDuration: entity.estimatedDuration,
+    defaultDwellMinutes: entity.defaultDwellMinutes,
+    sourceRouteId: entity.sourceRouteId || undefined,
+    createdAt: entity.createdAt,
+    createdBy: entity.createdBy,
+  };
+}
+
+// Helper to convert RouteTemplate to Table entity
+function templateToEntity(template: any) {
+  return {
+    partitionKey: template.brigadeId,
+    rowKey: template.id,
+    name: template.name,
+    description: template.description || '',
+    startTime: template.startTime,
+    endTime: template.endTime || '',
+    waypoints: JSON.stringify(template.waypoints || []),
+    vehicles: template.vehicles?.length ? JSON.stringify(template.vehicles) : '',
+    geometry: template.geometry ? JSON.stringify(template.geometry) : '',
+    navigationSteps: template.navigationSteps ? JSON.stringify(template.navigationSteps) : '',
+    distance: template.distance || 0,
+    estimatedDuration: template.estimatedDuration || 0,
+    defaultDwellMinutes: template.defaultDwellMinutes ?? 0,
+    sourceRouteId: template.sourceRouteId || '',
+    createdAt: template.createdAt || new Date().toISOString(),
+    createdBy: template.createdBy || '',
+  };
+}
+
+// GET /api/templates?brigadeId=xxx
+async function getTemplates(request: HttpRequest, context: InvocationContext): Promise<HttpResponseInit> {
+  try {
+    const brigadeId = request.query.get('brigadeId');
+    if (!brigadeId) {
+      return {
+        status: 400,
+        jsonBody: { error: 'Missing required parameter: brigadeId' }
+      };
+    }
+
+    const auth = await authorizeTemplateRequest(request, brigadeId, context);
+    if (auth.response) {
+      return auth.response;
+    }
+
+    const client = await getTemplatesTableClient();
+    const entities = client.listEntities({
+      queryOptions: { filter: `PartitionKey eq '${brigadeId}'` }
+    });
+
+    const templates = [];
+    for await (const entity of entities) {
+      templates.push(entityToTemplate(entity));
+    }
+
+    return {
+      status: 200,
+      jsonBody: templates
+    };
+
+  } catch (error) {
+    context.error('Error fetching route templates:', error);
+    return {
+      status: 500,
+      jsonBody: {
+        error: 'Failed to fetch route templates',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      }
+    };
+  }
+}
+
+// PUT /api/templates/{id}
+async function saveTemplate(request: HttpRequest, context: InvocationContext): Promise<HttpResponseInit> {
+  try {
+    const templateId = request.params.id;
+    const template = await request.json() as any;
+
+    if (!templateId || !template.brigadeId || !template.name || !template.startTime) {
+      return {
+        status: 400,
+        jsonBody: { error: 'Missing required fields: id, brigadeId, name, startTime' }
+      };
+    }
+
+    const auth = await authorizeTemplateRequest(request, template.brigadeId, context);
+    if (auth.response) {
+      return auth.response;
+    }
+
+    const client = await getTemplatesTableClient();
+    await client.upsertEntity(templateToEntity({ ...template, id: templateId }), 'Replace');
+
+    context.log(`Saved route template: ${templateId} for brigade: ${template.brigadeId} by user: ${auth.userId}`);
+
+    return {
+      status: 200,
+      jsonBody: { ...template, id: templateId }
+    };
+
+  } catch (error) {
+    context.error('Error saving route template:', error);
+    return {
+      status: 500,
+      jsonBody: {
+        error: 'Failed to save route template',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      }
+    };
+  }
+}
+
+// DELETE /api/templates/{id}?brigadeId=xxx
+async function deleteTemplate(request: HttpRequest, context: InvocationContext): Promise<HttpResponseInit> {
+  try {
+    const templateId = request.params.id;
+    const brigadeId = request.query.get('brigadeId');
+
+    if (!templateId || !brigadeId) {
+      return {
+        status: 400,
+        jsonBody: { error: 'Missing required parameters: id, brigadeId' }
+      };
+    }
+
+    const auth = await authorizeTemplateRequest(request, brigadeId, context);
+    if (auth.response) {
+      return auth.response;
+    }
+
+    const client = await getTemplatesTableClient();
+    await client.deleteEntity(brigadeId, templateId);
+
+    context.log(`Deleted route template: ${templateId} for brigade: ${brigadeId} by user: ${auth.userId}`);
+
+    return {
+      status: 204,
+      body: ''
+    };
+
+  } catch (error: any) {
+    context.error('Error deleting route template:', error);
+
+    if (error.statusCode === 404) {
+      return {
+        status: 404,
+        jsonBody: { error: 'Template not found' }
+      };
+    }
+
+    return {
+      status: 500,
+      jsonBody: {
+        error: 'Failed to delete route template',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      }
+    };
+  }
+}
+
+// Register HTTP endpoints
+app.http('templates-list', {
+  methods: ['GET'],
+  authLevel: 'anonymous',
+  route: 'templates',
+  handler: getTemplates
+});
+
+app.http('templates-save', {
+  methods: ['PUT'],
+  authLevel: 'anonymous',
+  route: 'templates/{id}',
+  handler: saveTemplate
+});
+
+app.http('templates-delete', {
+  methods: ['DELETE'],
+  authLevel: 'anonymous',
+  route: 'templates/{id}',
+  handler: deleteTemplate
+});
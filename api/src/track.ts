@@ -0,0 +1,72 @@
+/**
+ * /api/routes/{id}/track - Location history for a route
+ *
+ * Returns the breadcrumb trail of accepted location broadcasts so tracking
+ * viewers can draw where Santa has already been, even when joining mid-run.
+ * Public endpoint (no authentication) - the same data is broadcast to viewers live.
+ *
+ * Query Parameters:
+ * - since (optional): Unix timestamp (ms); only points recorded after it are returned
+ */
+
+import { app, HttpRequest, HttpResponseInit, InvocationContext } from '@azure/functions';
+import { getLocationHistory } from './utils/locationHistory';
+import { getPublicRoute } from './utils/routeAccess';
+
+export async function getRouteTrack(request: HttpRequest, context: InvocationContext): Promise<HttpResponseInit> {
+  try {
+    const routeId = request.params.id;
+    const sinceParam = request.query.get('since');
+
+    if (!routeId) {
+      return {
+        status: 400,
+        jsonBody: { error: 'Missing required parameter: id' }
+      };
+    }
+
+    const since = sinceParam ? Number(sinceParam) : undefined;
+    if (since !== undefined && (!Number.isFinite(since) || since < 0)) {
+      return {
+        status: 400,
+        jsonBody: { error: 'Invalid since parameter. Must be a Unix timestamp in milliseconds' }
+      };
+    }
+
+    const route = await getPublicRoute(routeId);
+    if (!route) {
+      return {
+        status: 404,
+        jsonBody: { error: 'Route not found' }
+      };
+    }
+
+    const points = await getLocationHistory(routeId, since);
+
+    return {
+      status: 200,
+      jsonBody: {
+        routeId,
+        status: route.status,
+        points,
+      }
+    };
+
+  } catch (error) {
+    context.error('Error fetching route track:', error);
+    return {
+      status: 500,
+      jsonBody: {
+        error: 'Failed to fetch route track',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      }
+    };
+  }
+}
+
+app.http('routes-track', {
+  methods: ['GET'],
+  authLevel: 'anonymous',
+  route: 'routes/{id}/track',
+  handler: getRouteTrack
+});
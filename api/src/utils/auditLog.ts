@@ -0,0 +1,293 @@
+/**
+ * Server-side audit log
+ *
+ * Handlers record what they did (who changed which route's status, and so on)
+ * so the trail doesn't depend on the client reporting it. Events the SPA
+ * reports through /api/audit/batch land in the same table, marked as
+ * `source: 'client'`, with the caller's identity taken from their token.
+ * Events reported without a token are kept but marked unverified.
+ *
+ * Table layout (append-only):
+ * - PartitionKey: brigadeId, or 'system' for events outside any brigade
+ * - RowKey: reversed timestamp plus a random suffix, so a partition lists newest first
+ */
+
+import { randomUUID } from 'crypto';
+import type { InvocationContext } from '@azure/functions';
+import { getTableClient, isDevMode } from './storage';
+
+const AUDIT_LOG_TABLE = isDevMode ? 'dev-auditlog' : 'auditlog';
+
+// Largest millisecond timestamp a Date can hold
+const MAX_TIMESTAMP = 8640000000000000;
+
+/** Partition for events that don't belong to a brigade (e.g. failed logins) */
+export const SYSTEM_AUDIT_PARTITION = 'system';
+
+// Limits on what a client may report in one entry
+const MAX_MESSAGE_LENGTH = 500;
+const MAX_ID_LENGTH = 200;
+const MAX_METADATA_LENGTH = 2000;
+const EVENT_TYPE_PATTERN = /^[a-z_]+\.[a-z_]+$/;
+
+export type AuditSource = 'server' | 'client';
+
+export interface AuditEvent {
+  eventType: string;
+  message: string;
+  brigadeId: string;
+  userId?: string;
+  userEmail?: string;
+  targetUserId?: string;
+  resourceId?: string;
+  metadata?: Record<string, unknown>;
+  /** Who recorded the event (defaults to 'server') */
+  source?: AuditSource;
+  /** When the client says the event happened (client events only) */
+  clientTimestamp?: string;
+  /** False when nobody vouches for the event (client events reported without a token) */
+  verified?: boolean;
+  ipAddress?: string;
+  userAgent?: string;
+}
+
+/**
+ * Stored audit log entry, as returned by GET /api/audit
+ */
+export interface AuditLogRecord {
+  id: string;
+  brigadeId: string;
+  eventType: string;
+  message: string;
+  userId?: string;
+  userEmail?: string;
+  targetUserId?: string;
+  resourceId?: string;
+  metadata?: Record<string, unknown>;
+  source: AuditSource;
+  occurredAt: string;
+  clientTimestamp?: string;
+  verified: boolean;
+  ipAddress?: string;
+  userAgent?: string;
+}
+
+/**
+ * Filters for reading the audit log
+ */
+export interface AuditLogQuery {
+  brigadeId?: string;
+  /** Exact event type (`membership.removed`) or a category (`membership`) */
+  eventType?: string;
+  /** Matches entries by or about this user */
+  userId?: string;
+  /** Inclusive ISO lower bound on occurredAt */
+  from?: string;
+  /** Exclusive ISO upper bound on occurredAt */
+  to?: string;
+  source?: AuditSource;
+}
+
+/**
+ * Who sent a batch of client events, from their validated token
+ */
+export interface AuditReporter {
+  userId?: string;
+  email?: string;
+  /** Brigades the caller holds an active membership in */
+  brigadeIds: string[];
+  ipAddress?: string;
+  userAgent?: string;
+}
+
+/**
+ * Build a RowKey that sorts newer entries first within a brigade partition
+ */
+export function buildAuditRowKey(timestamp: number, suffix: string = randomUUID()): string {
+  return `${String(MAX_TIMESTAMP - timestamp).padStart(16, '0')}_${suffix}`;
+}
+
+function escapeODataValue(value: string): string {
+  return value.replace(/'/g, "''");
+}
+
+function optionalString(value: unknown, maxLength: number): string | undefined {
+  return typeof value === 'string' && value ? value.slice(0, maxLength) : undefined;
+}
+
+/**
+ * Turn an entry reported by the SPA into an audit event we are willing to store
+ *
+ * The client only describes what happened: who did it comes from the token,
+ * and a brigade is kept only if the caller is a member of it. Anything it
+ * claimed that we couldn't vouch for is kept in metadata under `reported*`.
+ * Callers without a token may only report `auth.*` events (e.g. failed logins).
+ *
+ * @returns The event to write, or null if the entry is rejected
+ */
+export function normalizeClientAuditEntry(entry: unknown, reporter: AuditReporter): AuditEvent | null {
+  if (!entry || typeof entry !== 'object') return null;
+  const reported = entry as Record<string, unknown>;
+
+  const eventType = reported.eventType;
+  const message = reported.message;
+  if (typeof eventType !== 'string' || !EVENT_TYPE_PATTERN.test(eventType)) return null;
+  if (typeof message !== 'string' || !message.trim()) return null;
+  if (!reporter.userId && !eventType.startsWith('auth.')) return null;
+
+  let metadata: Record<string, unknown> = {};
+  if (reported.metadata && typeof reported.metadata === 'object' && !Array.isArray(reported.metadata)) {
+    metadata = JSON.stringify(reported.metadata).length <= MAX_METADATA_LENGTH
+      ? { ...(reported.metadata as Record<string, unknown>) }
+      : { truncated: true };
+  }
+
+  const reportedBrigadeId = optionalString(reported.brigadeId, MAX_ID_LENGTH);
+  const brigadeId = reportedBrigadeId && reporter.brigadeIds.includes(reportedBrigadeId)
+    ? reportedBrigadeId
+    : SYSTEM_AUDIT_PARTITION;
+  if (reportedBrigadeId && brigadeId !== reportedBrigadeId) {
+    metadata.reportedBrigadeId = reportedBrigadeId;
+  }
+
+  const reportedEmail = optionalString(reported.userEmail, MAX_ID_LENGTH);
+  if (reportedEmail && reportedEmail !== reporter.email) {
+    metadata.reportedEmail = reportedEmail;
+  }
+
+  const clientTimestamp = typeof reported.timestamp === 'string' && !isNaN(Date.parse(reported.timestamp))
+    ? new Date(reported.timestamp).toISOString()
+    : undefined;
+
+  return {
+    eventType,
+    message: message.slice(0, MAX_MESSAGE_LENGTH),
+    brigadeId,
+    userId: reporter.userId,
+    userEmail: reporter.email,
+    targetUserId: optionalString(reported.targetUserId, MAX_ID_LENGTH),
+    resourceId: optionalString(reported.resourceId, MAX_ID_LENGTH),
+    metadata: Object.keys(metadata).length > 0 ? metadata : undefined,
+    source: 'client',
+    clientTimestamp,
+    verified: Boolean(reporter.userId),
+    ipAddress: reporter.ipAddress,
+    userAgent: reporter.userAgent,
+  };
+}
+
+/**
+ * Build the Table Storage filter for an audit log query
+ */
+export function buildAuditLogFilter(query: AuditLogQuery): string {
+  const clauses: string[] = [];
+
+  if (query.brigadeId) {
+    clauses.push(`PartitionKey eq '${escapeODataValue(query.brigadeId)}'`);
+  }
+  if (query.eventType) {
+    const eventType = escapeODataValue(query.eventType);
+    clauses.push(eventType.includes('.')
+      ? `eventType eq '${eventType}'`
+      // '/' sorts straight after '.', so this range is every `category.*` type
+      : `eventType ge '${eventType}.' and eventType lt '${eventType}/'`);
+  }
+  if (query.userId) {
+    const userId = escapeODataValue(query.userId);
+    clauses.push(`(userId eq '${userId}' or targetUserId eq '${userId}')`);
+  }
+  if (query.from) {
+    clauses.push(`occurredAt ge '${escapeODataValue(query.from)}'`);
+  }
+  if (query.to) {
+    clauses.push(`occurredAt lt '${escapeODataValue(query.to)}'`);
+  }
+  if (query.source) {
+    clauses.push(`source eq '${escapeODataValue(query.source)}'`);
+  }
+
+  return clauses.join(' and ');
+}
+
+/**
+ * Convert a stored audit log entity back into a record
+ */
+export function entityToAuditLogRecord(entity: Record<string, unknown>): AuditLogRecord {
+  const optional = (key: string) => (entity[key] as string) || undefined;
+  return {
+    id: entity.rowKey as string,
+    brigadeId: entity.partitionKey as string,
+    eventType: entity.eventType as string,
+    message: entity.message as string,
+    userId: optional('userId'),
+    userEmail: optional('userEmail'),
+    targetUserId: optional('targetUserId'),
+    resourceId: optional('resourceId'),
+    metadata: entity.metadata ? JSON.parse(entity.metadata as string) : undefined,
+    source: entity.source as AuditSource,
+    occurredAt: entity.occurredAt as string,
+    clientTimestamp: optional('clientTimestamp'),
+    verified: entity.verified as boolean,
+    ipAddress: optional('ipAddress'),
+    userAgent: optional('userAgent'),
+  };
+}
+
+/**
+ * Append an entry to the audit log (best-effort: a failed write never fails the request)
+ */
+export async function writeAuditEvent(event: AuditEvent, context: InvocationContext): Promise<void> {
+  const timestamp = new Date();
+  try {
+    const client = await getTableClient(AUDIT_LOG_TABLE);
+    await client.createEntity({
+      partitionKey: event.brigadeId,
+      rowKey: buildAuditRowKey(timestamp.getTime()),
+      eventType: event.eventType,
+      message: event.message,
+      userId: event.userId || '',
+      userEmail: event.userEmail || '',
+      targetUserId: event.targetUserId || '',
+      resourceId: event.resourceId || '',
+      metadata: event.metadata ? JSON.stringify(event.metadata) : '',
+      source: event.source || 'server',
+      occurredAt: timestamp.toISOString(),
+      clientTimestamp: event.clientTimestamp || '',
+      verified: event.verified ?? true,
+      ipAddress: event.ipAddress || '',
+      userAgent: event.userAgent || '',
+    });
+  } catch (error) {
+    context.warn(`Failed to write audit event ${event.eventType} for brigade ${event.brigadeId}:`, error);
+  }
+}
+
+/**
+ * Read audit log entries matching a query, newest first
+ *
+ * Queries across brigades come back from Table Storage grouped by partition,
+ * so up to `scanLimit` matches are read and sorted before taking `limit`.
+ */
+export async function listAuditLog(
+  query: AuditLogQuery,
+  limit: number,
+  scanLimit: number = 2000
+): Promise<{ entries: AuditLogRecord[]; truncated: boolean }> {
+  const client = await getTableClient(AUDIT_LOG_TABLE);
+  const filter = buildAuditLogFilter(query);
+  const entities = client.listEntities(filter ? { queryOptions: { filter } } : {});
+  // A single partition already lists newest first, so stop once we have enough
+  const maxRead = query.brigadeId ? limit + 1 : scanLimit;
+
+  const records: AuditLogRecord[] = [];
+  for await (const entity of entities) {
+    records.push(entityToAuditLogRecord(entity));
+    if (records.length >= maxRead) break;
+  }
+
+  records.sort((a, b) => b.occurredAt.localeCompare(a.occurredAt));
+  return {
+    entries: records.slice(0, limit),
+    truncated: records.length > limit,
+  };
+}
@@ -11,7 +11,6 @@
 import { HttpRequest } from '@azure/functions';
 import * as jwt from 'jsonwebtoken';
 import * as jwksClient from 'jwks-rsa';
-import type { BrigadeMembership } from '../types/membership';
 
 // JWT validation configuration
 // Note: Tenant ID is public information for the Brigade Santa Run Entra External ID tenant
@@ -242,105 +241,11 @@ export async function validateToken(request: HttpRequest): Promise<AuthResult> {
   }
 }
 
-/**
- * Check if user has permission to access a brigade resource
- * 
- * This function validates that:
- * 1. User is authenticated
- * 2. User has an active membership in the brigade
- * 3. User's role has the required permission
- */
-export interface BrigadePermissionCheck {
-  authorized: boolean;
-  membership?: BrigadeMembership;
-  error?: string;
-}
-
-/**
- * Role-based permissions
- */
-export const ROLE_PERMISSIONS = {
-  admin: [
-    'manage_routes',
-    'manage_members',
-    'invite_members',
-    'approve_members',
-    'remove_members',
-    'promote_admin',
-    'demote_admin',
-    'edit_settings',
-    'start_navigation',
-    'view_members',
-    'cancel_invitation',
-  ],
-  operator: [
-    'manage_routes',
-    'start_navigation',
-    'view_members',
-  ],
-  viewer: [
-    'view_members',
-  ],
-};
-
-/**
- * Check if a role has a specific permission
- */
-export function hasPermission(role: string, permission: string): boolean {
-  const permissions = ROLE_PERMISSIONS[role as keyof typeof ROLE_PERMISSIONS];
-  return permissions ? permissions.includes(permission) : false;
-}
-
-/**
- * Validate user has permission for an action on a brigade
- * 
- * @param userId - User ID from validated token
- * @param brigadeId - Brigade ID from request
- * @param requiredPermission - Permission required for the action
- * @param getMembership - Function to fetch user's membership in the brigade
- */
-export async function checkBrigadePermission(
-  userId: string,
-  brigadeId: string,
-  requiredPermission: string,
-  getMembership: (userId: string, brigadeId: string) => Promise<BrigadeMembership | null>
-): Promise<BrigadePermissionCheck> {
-  try {
-    // Fetch user's membership in the brigade
-    const membership = await getMembership(userId, brigadeId);
-
-    if (!membership) {
-      return {
-        authorized: false,
-        error: 'User is not a member of this brigade',
-      };
-    }
-
-    // Check if membership is active
-    if (membership.status !== 'active') {
-      return {
-        authorized: false,
-        error: 'User membership is not active',
-      };
-    }
-
-    // Check if role has required permission
-    if (!hasPermission(membership.role, requiredPermission)) {
-      return {
-        authorized: false,
-        error: `User role '${membership.role}' does not have '${requiredPermission}' permission`,
-      };
-    }
-
-    return {
-      authorized: true,
-      membership,
-    };
-
-  } catch (error: unknown) {
-    return {
-      authorized: false,
-      error: error instanceof Error ? error.message : 'Failed to check brigade permission',
-    };
-  }
-}
+// Role-based permission helpers live in ./permissions so they can be used
+// without loading the JWT/JWKS dependencies. Re-exported for existing callers.
+export {
+  ROLE_PERMISSIONS,
+  hasPermission,
+  checkBrigadePermission,
+} from './permissions';
+export type { BrigadePermissionCheck } from './permissions';
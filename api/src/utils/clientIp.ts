@@ -0,0 +1,39 @@
+/**
+ * Client IP addresses for keying anonymous rate limits
+ *
+ * Callers can put anything in X-Forwarded-For, and proxies append to it, so
+ * only addresses set by Azure's own front end are trusted: X-Azure-ClientIP
+ * when present, otherwise the last X-Forwarded-For hop (the one our proxy
+ * added). The first entry is whatever the caller chose to send.
+ */
+
+import { createHash } from 'crypto';
+
+interface HeaderSource {
+  headers: { get(name: string): string | null };
+}
+
+/**
+ * Strip the port Azure appends to IPv4 addresses ("203.0.113.7:51234")
+ */
+function withoutPort(address: string): string {
+  const ipv4WithPort = /^(\d{1,3}(?:\.\d{1,3}){3}):\d+$/.exec(address);
+  return ipv4WithPort ? ipv4WithPort[1] : address;
+}
+
+export function getClientIp(request: HeaderSource): string | undefined {
+  const azureClientIp = request.headers.get('x-azure-clientip')?.trim();
+  if (azureClientIp) {
+    return withoutPort(azureClientIp);
+  }
+
+  const lastHop = request.headers.get('x-forwarded-for')?.split(',').pop()?.trim();
+  return lastHop ? withoutPort(lastHop) : undefined;
+}
+
+/**
+ * Stable, non-reversible key for an address, for records that outlive the request
+ */
+export function hashClientIp(ip: string): string {
+  return createHash('sha256').update(ip).digest('hex');
+}
@@ -0,0 +1,117 @@
+/**
+ * Last-known location cache for active routes
+ *
+ * Holds the most recent accepted broadcast per route (per vehicle on
+ * multi-vehicle routes) so a viewer who connects between broadcasts (or while
+ * the truck is stopped) can show Santa immediately.
+ *
+ * Table layout:
+ * - PartitionKey: routeId
+ * - RowKey: 'latest', or 'vehicle_{vehicleId}' for each vehicle (replaced on every broadcast)
+ */
+
+import { getTableClient, isDevMode } from './storage';
+import type { WaypointEta, WaypointVisit } from './locationBroadcast';
+
+const LAST_LOCATION_TABLE = isDevMode ? 'dev-lastlocations' : 'lastlocations';
+const LATEST_ROW_KEY = 'latest';
+
+export interface LastKnownLocation {
+  routeId: string;
+  vehicleId?: string;
+  location: [number, number];
+  timestamp: number;
+  heading?: number;
+  speed?: number;
+  currentWaypointIndex?: number;
+  nextWaypointEta?: string;
+  scheduleDeviation?: number;
+  waypointEtas?: WaypointEta[];
+  visit?: WaypointVisit;
+  receivedAt: string; // ISO timestamp the server accepted the broadcast
+}
+
+async function getLastLocationTableClient() {
+  return getTableClient(LAST_LOCATION_TABLE);
+}
+
+/**
+ * Row holding the last known location of a vehicle (or of a single-vehicle route)
+ */
+export function buildLastLocationRowKey(vehicleId?: string): string {
+  return vehicleId ? `vehicle_${vehicleId}` : LATEST_ROW_KEY;
+}
+
+function entityToLastKnownLocation(routeId: string, entity: Record<string, unknown>): LastKnownLocation {
+  return {
+    routeId,
+    vehicleId: entity.vehicleId as string | undefined,
+    location: [entity.lng as number, entity.lat as number],
+    timestamp: entity.broadcastTimestamp as number,
+    heading: entity.heading as number | undefined,
+    speed: entity.speed as number | undefined,
+    currentWaypointIndex: entity.currentWaypointIndex as number | undefined,
+    nextWaypointEta: entity.nextWaypointEta as string | undefined,
+    scheduleDeviation: entity.scheduleDeviation as number | undefined,
+    waypointEtas: entity.waypointEtas ? JSON.parse(entity.waypointEtas as string) : undefined,
+    visit: entity.visit ? JSON.parse(entity.visit as string) : undefined,
+    receivedAt: entity.receivedAt as string,
+  };
+}
+
+/**
+ * Replace the cached location for a route (or the broadcasting vehicle) with an accepted broadcast
+ */
+export async function setLastKnownLocation(location: Omit<LastKnownLocation, 'receivedAt'>): Promise<void> {
+  const client = await getLastLocationTableClient();
+
+  await client.upsertEntity({
+    partitionKey: location.routeId,
+    rowKey: buildLastLocationRowKey(location.vehicleId),
+    vehicleId: location.vehicleId,
+    lng: location.location[0],
+    lat: location.location[1],
+    // `timestamp` is reserved by Table Storage for the entity's last-modified time
+    broadcastTimestamp: location.timestamp,
+    heading: location.heading,
+    speed: location.speed,
+    currentWaypointIndex: location.currentWaypointIndex,
+    nextWaypointEta: location.nextWaypointEta,
+    scheduleDeviation: location.scheduleDeviation,
+    waypointEtas: location.waypointEtas ? JSON.stringify(location.waypointEtas) : undefined,
+    visit: location.visit ? JSON.stringify(location.visit) : undefined,
+    receivedAt: new Date().toISOString(),
+  }, 'Replace');
+}
+
+/**
+ * Read the cached location for a route or one of its vehicles (null if nothing has been broadcast yet)
+ */
+export async function getLastKnownLocation(routeId: string, vehicleId?: string): Promise<LastKnownLocation | null> {
+  const client = await getLastLocationTableClient();
+
+  try {
+    const entity = await client.getEntity(routeId, buildLastLocationRowKey(vehicleId));
+    return entityToLastKnownLocation(routeId, entity);
+  } catch (error) {
+    if ((error as { statusCode?: number })?.statusCode === 404) {
+      return null;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Read every cached location for a route (one per vehicle), newest first
+ */
+export async function getLastKnownLocations(routeId: string): Promise<LastKnownLocation[]> {
+  const client = await getLastLocationTableClient();
+  const escapedRouteId = routeId.replace(/'/g, "''");
+
+  const locations: LastKnownLocation[] = [];
+  for await (const entity of client.listEntities({ queryOptions: { filter: `PartitionKey eq '${escapedRouteId}'` } })) {
+    locations.push(entityToLastKnownLocation(routeId, entity));
+  }
+
+  return locations.sort((a, b) => b.timestamp - a.timestamp);
+}
@@ -0,0 +1,241 @@
+/**
+ * Location broadcast validation and backfill ordering
+ *
+ * Shared by the live broadcast endpoint and the offline backfill endpoint.
+ * Navigators that lose coverage queue broadcasts locally and replay them with
+ * their original timestamps once back online; only positions newer than the
+ * route's last known location are pushed to viewers, so a replay never makes
+ * Santa jump backwards on the map.
+ */
+
+// Upper bound on a single backfill request (about 40 minutes at one broadcast per 5 seconds)
+export const MAX_BACKFILL_BATCH_SIZE = 500;
+
+// Upper bound on the per-stop ETAs carried by one broadcast
+export const MAX_WAYPOINT_ETAS = 200;
+
+// How far a broadcast's timestamp may be from server time: a little ahead for
+// clock skew, and far enough behind for a navigator replaying a day-old outbox
+export const MAX_BROADCAST_CLOCK_SKEW_MS = 5 * 60 * 1000;
+export const MAX_BROADCAST_AGE_MS = 24 * 60 * 60 * 1000;
+
+// Well above any fire truck, well below a GPS glitch (m/s, about 300 km/h)
+export const MAX_BROADCAST_SPEED = 85;
+
+// Vehicle IDs end up in Table Storage row keys, so keep them to a safe alphabet
+const VEHICLE_ID_PATTERN = /^[A-Za-z0-9_-]{1,64}$/;
+
+export interface WaypointEta {
+  waypointId: string;
+  eta: number; // Unix timestamp (ms)
+}
+
+// Keep in sync with WaypointVisit in src/types/index.ts
+export interface WaypointVisit {
+  waypointId: string;
+  type: 'arrived' | 'departed';
+  timestamp: number; // Unix timestamp (ms)
+}
+
+export interface LocationBroadcast {
+  routeId: string;
+  vehicleId?: string; // set on multi-vehicle routes
+  location: [number, number];
+  timestamp: number;
+  heading?: number;
+  speed?: number;
+  currentWaypointIndex?: number;
+  nextWaypointEta?: string;
+  scheduleDeviation?: number; // seconds behind schedule (negative when ahead)
+  waypointEtas?: WaypointEta[];
+  visit?: WaypointVisit; // the vehicle's latest arrival at or departure from a stop
+}
+
+export type LocationValidationResult =
+  | { valid: true; location: LocationBroadcast }
+  | { valid: false; error: string };
+
+/**
+ * Keep only well-formed per-stop ETAs (undefined if there are none)
+ */
+function sanitizeWaypointEtas(value: unknown): WaypointEta[] | undefined {
+  if (!Array.isArray(value)) {
+    return undefined;
+  }
+
+  const etas = value
+    .filter((entry): entry is WaypointEta =>
+      typeof entry?.waypointId === 'string' && typeof entry?.eta === 'number' && Number.isFinite(entry.eta))
+    .slice(0, MAX_WAYPOINT_ETAS)
+    .map(entry => ({ waypointId: entry.waypointId, eta: entry.eta }));
+
+  return etas.length > 0 ? etas : undefined;
+}
+
+/**
+ * Keep a well-formed stop arrival or departure (undefined otherwise)
+ */
+function sanitizeWaypointVisit(value: unknown): WaypointVisit | undefined {
+  const visit = value as Partial<WaypointVisit> | null | undefined;
+  if (typeof visit?.waypointId !== 'string' ||
+      (visit.type !== 'arrived' && visit.type !== 'departed') ||
+      typeof visit.timestamp !== 'number' || !Number.isFinite(visit.timestamp)) {
+    return undefined;
+  }
+  return { waypointId: visit.waypointId, type: visit.type, timestamp: visit.timestamp };
+}
+
+/**
+ * Whether an optional field is absent or a finite number within [min, max]
+ */
+function isOptionalInRange(value: unknown, min: number, max: number): boolean {
+  return value === undefined || value === null ||
+    (typeof value === 'number' && Number.isFinite(value) && value >= min && value <= max);
+}
+
+/**
+ * Validate a broadcast body and copy across only the known fields
+ * `now` is the server time the timestamp is checked against.
+ */
+export function validateLocationBroadcast(
+  body: Partial<LocationBroadcast> | null | undefined,
+  now: number = Date.now()
+): LocationValidationResult {
+  if (!body || !body.routeId) {
+    return { valid: false, error: 'Missing required field: routeId' };
+  }
+
+  if (!Array.isArray(body.location) || body.location.length !== 2) {
+    return { valid: false, error: 'Invalid location. Must be [longitude, latitude]' };
+  }
+
+  const [lng, lat] = body.location;
+  if (typeof lng !== 'number' || typeof lat !== 'number' ||
+      lng < -180 || lng > 180 || lat < -90 || lat > 90) {
+    return { valid: false, error: 'Invalid coordinates. Longitude must be -180 to 180, latitude must be -90 to 90' };
+  }
+
+  if (!body.timestamp) {
+    return { valid: false, error: 'Missing required field: timestamp' };
+  }
+
+  if (typeof body.timestamp !== 'number' || !Number.isFinite(body.timestamp) ||
+      body.timestamp > now + MAX_BROADCAST_CLOCK_SKEW_MS || body.timestamp < now - MAX_BROADCAST_AGE_MS) {
+    return { valid: false, error: 'Invalid timestamp. Must be a Unix time (ms) within the last 24 hours' };
+  }
+
+  if (!isOptionalInRange(body.heading, 0, 360)) {
+    return { valid: false, error: 'Invalid heading. Must be 0 to 360 degrees' };
+  }
+
+  if (!isOptionalInRange(body.speed, 0, MAX_BROADCAST_SPEED)) {
+    return { valid: false, error: `Invalid speed. Must be 0 to ${MAX_BROADCAST_SPEED} m/s` };
+  }
+
+  if (body.vehicleId !== undefined && (typeof body.vehicleId !== 'string' || !VEHICLE_ID_PATTERN.test(body.vehicleId))) {
+    return { valid: false, error: 'Invalid vehicleId' };
+  }
+
+  return {
+    valid: true,
+    location: {
+      routeId: body.routeId,
+      vehicleId: body.vehicleId,
+      location: [lng, lat],
+      timestamp: body.timestamp,
+      heading: body.heading ?? undefined,
+      speed: body.speed ?? undefined,
+      currentWaypointIndex: body.currentWaypointIndex,
+      nextWaypointEta: body.nextWaypointEta,
+      scheduleDeviation: typeof body.scheduleDeviation === 'number' ? body.scheduleDeviation : undefined,
+      waypointEtas: sanitizeWaypointEtas(body.waypointEtas),
+      visit: sanitizeWaypointVisit(body.visit),
+    },
+  };
+}
+
+/**
+ * A backfilled point dropped from its batch, by its position in the request
+ */
+export interface RejectedBackfillPoint {
+  index: number;
+  error: string;
+}
+
+/**
+ * Validate every point of a backfill batch, keeping the valid ones
+ * One bad point (say, queued too long ago) must not hold back the rest, so the
+ * invalid ones are dropped and reported back instead of failing the batch.
+ */
+export function validateBackfillBatch(
+  routeId: string,
+  items: Partial<LocationBroadcast>[],
+  now: number = Date.now()
+): { locations: LocationBroadcast[]; rejected: RejectedBackfillPoint[] } {
+  const locations: LocationBroadcast[] = [];
+  const rejected: RejectedBackfillPoint[] = [];
+
+  items.forEach((item, index) => {
+    const validation = validateLocationBroadcast({ ...item, routeId: item?.routeId ?? routeId }, now);
+    if (!validation.valid) {
+      rejected.push({ index, error: validation.error });
+    } else if (validation.location.routeId !== routeId) {
+      rejected.push({ index, error: 'routeId does not match batch routeId' });
+    } else {
+      locations.push(validation.location);
+    }
+  });
+
+  return { locations, rejected };
+}
+
+/**
+ * Put a backfill batch in chronological order, dropping repeated timestamps
+ * from the same vehicle (a retried replay may resend points the server already has)
+ */
+export function orderBackfill(locations: LocationBroadcast[]): LocationBroadcast[] {
+  const byTimestamp = new Map<string, LocationBroadcast>();
+  locations.forEach(location => byTimestamp.set(`${location.vehicleId ?? ''}:${location.timestamp}`, location));
+  return Array.from(byTimestamp.values()).sort((a, b) => a.timestamp - b.timestamp);
+}
+
+/**
+ * Split an ordered backfill into one ordered list per vehicle, since each
+ * vehicle has its own last known location
+ */
+export function groupByVehicle(ordered: LocationBroadcast[]): LocationBroadcast[][] {
+  const groups = new Map<string, LocationBroadcast[]>();
+  for (const location of ordered) {
+    const key = location.vehicleId ?? '';
+    const group = groups.get(key);
+    if (group) {
+      group.push(location);
+    } else {
+      groups.set(key, [location]);
+    }
+  }
+  return Array.from(groups.values());
+}
+
+/**
+ * Whether a position is newer than the route's (or vehicle's) last known
+ * location and should be delivered to viewers
+ */
+export function isNewerThanLastKnown(timestamp: number, lastKnownTimestamp: number | null | undefined): boolean {
+  return lastKnownTimestamp === null || lastKnownTimestamp === undefined || timestamp > lastKnownTimestamp;
+}
+
+/**
+ * Pick the single position from an ordered backfill that viewers should see:
+ * the newest one, and only if it moves Santa forward in time
+ */
+export function selectLiveUpdate(
+  ordered: LocationBroadcast[],
+  lastKnownTimestamp: number | null | undefined
+): LocationBroadcast | null {
+  const latest = ordered[ordered.length - 1];
+  if (!latest || !isNewerThanLastKnown(latest.timestamp, lastKnownTimestamp)) {
+    return null;
+  }
+  return latest;
+}
@@ -0,0 +1,125 @@
+/**
+ * Location history storage for active routes
+ *
+ * Every accepted broadcast is appended to a per-route history table so viewers
+ * who join mid-run can draw the path Santa has already travelled.
+ *
+ * Table layout:
+ * - PartitionKey: routeId
+ * - RowKey: zero-padded broadcast timestamp (sorts chronologically), suffixed
+ *   with `_{vehicleId}` on multi-vehicle routes so trucks never overwrite each other
+ *
+ * Writes are upserts keyed on the broadcast timestamp, so replaying an offline
+ * backfill that was partly accepted before does not duplicate points.
+ */
+
+import { getTableClient, isDevMode } from './storage';
+
+const LOCATION_HISTORY_TABLE = isDevMode ? 'dev-locationhistory' : 'locationhistory';
+
+// Enough digits for millisecond timestamps well past the year 2200
+const TIMESTAMP_KEY_LENGTH = 15;
+
+// Table Storage limit for operations in one transaction
+const MAX_TRANSACTION_SIZE = 100;
+
+export interface TrackPoint {
+  vehicleId?: string;
+  location: [number, number];
+  timestamp: number;
+  heading?: number;
+  speed?: number;
+  currentWaypointIndex?: number;
+}
+
+async function getLocationHistoryTableClient() {
+  return getTableClient(LOCATION_HISTORY_TABLE);
+}
+
+/**
+ * Build a RowKey that keeps points in chronological order within a route partition
+ */
+export function buildTrackRowKey(timestamp: number, vehicleId?: string): string {
+  const key = Math.floor(timestamp).toString().padStart(TIMESTAMP_KEY_LENGTH, '0');
+  return vehicleId ? `${key}_${vehicleId}` : key;
+}
+
+/**
+ * Filter for points strictly after a timestamp, whichever vehicle sent them
+ * ('~' sorts after every vehicle suffix at the same timestamp)
+ */
+export function buildTrackSinceFilter(escapedRouteId: string, since: number): string {
+  return `PartitionKey eq '${escapedRouteId}' and RowKey gt '${buildTrackRowKey(since)}~'`;
+}
+
+function trackPointToEntity(routeId: string, point: TrackPoint, recordedAt: string) {
+  return {
+    partitionKey: routeId,
+    rowKey: buildTrackRowKey(point.timestamp, point.vehicleId),
+    vehicleId: point.vehicleId,
+    lng: point.location[0],
+    lat: point.location[1],
+    // `timestamp` is reserved by Table Storage for the entity's last-modified time
+    broadcastTimestamp: point.timestamp,
+    // Optional fields are left undefined so they are omitted from the entity
+    heading: point.heading,
+    speed: point.speed,
+    currentWaypointIndex: point.currentWaypointIndex,
+    recordedAt,
+  };
+}
+
+/**
+ * Append an accepted broadcast to the route's location history
+ */
+export async function appendLocationHistory(routeId: string, point: TrackPoint): Promise<void> {
+  const client = await getLocationHistoryTableClient();
+  await client.upsertEntity(trackPointToEntity(routeId, point, new Date().toISOString()), 'Replace');
+}
+
+/**
+ * Append a backfilled batch of broadcasts to the route's location history
+ * Points are written in transactions of up to 100 (all share the route partition)
+ */
+export async function appendLocationHistoryBatch(routeId: string, points: TrackPoint[]): Promise<void> {
+  const client = await getLocationHistoryTableClient();
+  const recordedAt = new Date().toISOString();
+
+  for (let i = 0; i < points.length; i += MAX_TRANSACTION_SIZE) {
+    const chunk = points.slice(i, i + MAX_TRANSACTION_SIZE);
+    await client.submitTransaction(
+      chunk.map(point => ['upsert', trackPointToEntity(routeId, point, recordedAt), 'Replace'] as const)
+    );
+  }
+}
+
+/**
+ * Read a route's location history in chronological order
+ *
+ * @param routeId - Route to read
+ * @param since - Only return points with a timestamp strictly after this value
+ */
+export async function getLocationHistory(routeId: string, since?: number): Promise<TrackPoint[]> {
+  const client = await getLocationHistoryTableClient();
+  const escapedRouteId = routeId.replace(/'/g, "''");
+  const filter = since
+    ? buildTrackSinceFilter(escapedRouteId, since)
+    : `PartitionKey eq '${escapedRouteId}'`;
+
+  const entities = client.listEntities({ queryOptions: { filter } });
+
+  const points: TrackPoint[] = [];
+  for await (const entity of entities) {
+    points.push({
+      vehicleId: entity.vehicleId as string | undefined,
+      location: [entity.lng as number, entity.lat as number],
+      timestamp: entity.broadcastTimestamp as number,
+      heading: entity.heading as number | undefined,
+      speed: entity.speed as number | undefined,
+      currentWaypointIndex: entity.currentWaypointIndex as number | undefined,
+    });
+  }
+
+  // Table Storage returns RowKey order already; sort defensively
+  return points.sort((a, b) => a.timestamp - b.timestamp);
+}
@@ -0,0 +1,171 @@
+/**
+ * "Santa is near" alerts for tracking viewers
+ *
+ * A viewer subscribes a point (their house or street) to Web Push for one
+ * route. Each accepted broadcast is compared against the route's subscribed
+ * points, and a subscription is alerted once when Santa is about
+ * NEARBY_ALERT_SECONDS away. Santa runs crawl from stop to stop, so the time
+ * is estimated from the road distance at a slow, fixed speed rather than the
+ * truck's momentary speed.
+ */
+
+import type { PushTarget } from './webPush';
+
+// Alert when Santa is about this far away
+export const NEARBY_ALERT_SECONDS = 5 * 60;
+
+// Typical Santa run speed between houses (km/h)
+const SANTA_RUN_SPEED_KMH = 20;
+
+// Straight-line distance is scaled up to approximate the road network
+const ROAD_DISTANCE_FACTOR = 1.3;
+
+// Subscriptions per route, to bound the work done on every broadcast
+export const MAX_SUBSCRIPTIONS_PER_ROUTE = 5000;
+
+// Subscriptions per route from one IP address (a household's devices share one)
+export const MAX_SUBSCRIPTIONS_PER_CLIENT = 10;
+
+const MAX_LABEL_LENGTH = 100;
+
+// Browser push services a subscription endpoint may point at. The server POSTs
+// to the endpoint on every alert, so anything else would let a caller aim
+// requests at arbitrary hosts (including internal ones).
+const PUSH_SERVICE_HOSTS = [
+  'fcm.googleapis.com',          // Chrome, Android, Opera
+  'android.googleapis.com',      // Older Chrome subscriptions
+  'push.services.mozilla.com',   // Firefox (and subdomains)
+  'notify.windows.com',          // Edge (and subdomains)
+  'push.apple.com',              // Safari (and subdomains)
+];
+
+/**
+ * Whether a host is one of the known push services or a subdomain of one
+ */
+export function isPushServiceHost(hostname: string): boolean {
+  const host = hostname.toLowerCase();
+  return PUSH_SERVICE_HOSTS.some(allowed => host === allowed || host.endsWith(`.${allowed}`));
+}
+
+export interface NearbyAlertRequest {
+  subscription: PushTarget;
+  location: [number, number]; // [lng, lat]
+  label?: string;
+}
+
+export type NearbyAlertValidationResult =
+  | { valid: true; request: NearbyAlertRequest }
+  | { valid: false; error: string };
+
+/**
+ * Validate a subscribe request body and copy across only the known fields
+ */
+export function validateNearbyAlertRequest(body: unknown): NearbyAlertValidationResult {
+  const input = body as Partial<NearbyAlertRequest> | null | undefined;
+  const subscription = input?.subscription;
+
+  if (!subscription || typeof subscription.endpoint !== 'string') {
+    return { valid: false, error: 'Missing required field: subscription.endpoint' };
+  }
+
+  let endpoint: URL;
+  try {
+    endpoint = new URL(subscription.endpoint);
+  } catch {
+    return { valid: false, error: 'Invalid subscription endpoint' };
+  }
+  if (endpoint.protocol !== 'https:') {
+    return { valid: false, error: 'Subscription endpoint must use https' };
+  }
+  if (!isPushServiceHost(endpoint.hostname) || endpoint.port !== '' || endpoint.username || endpoint.password) {
+    return { valid: false, error: 'Subscription endpoint is not a supported push service' };
+  }
+
+  const keys = subscription.keys;
+  if (!keys || typeof keys.p256dh !== 'string' || typeof keys.auth !== 'string' ||
+      Buffer.from(keys.p256dh, 'base64url').length !== 65 ||
+      Buffer.from(keys.auth, 'base64url').length !== 16) {
+    return { valid: false, error: 'Invalid subscription keys' };
+  }
+
+  const location = input?.location;
+  if (!Array.isArray(location) || location.length !== 2) {
+    return { valid: false, error: 'Invalid location. Must be [longitude, latitude]' };
+  }
+  const [lng, lat] = location;
+  if (typeof lng !== 'number' || typeof lat !== 'number' ||
+      lng < -180 || lng > 180 || lat < -90 || lat > 90) {
+    return { valid: false, error: 'Invalid coordinates. Longitude must be -180 to 180, latitude must be -90 to 90' };
+  }
+
+  return {
+    valid: true,
+    request: {
+      subscription: {
+        endpoint: subscription.endpoint,
+        keys: { p256dh: keys.p256dh, auth: keys.auth },
+      },
+      location: [lng, lat],
+      label: typeof input?.label === 'string' ? input.label.trim().slice(0, MAX_LABEL_LENGTH) || undefined : undefined,
+    },
+  };
+}
+
+/**
+ * Distance between two [lng, lat] coordinates in meters (Haversine)
+ */
+export function distanceMeters(from: [number, number], to: [number, number]): number {
+  const R = 6371e3;
+  const φ1 = (from[1] * Math.PI) / 180;
+  const φ2 = (to[1] * Math.PI) / 180;
+  const Δφ = ((to[1] - from[1]) * Math.PI) / 180;
+  const Δλ = ((to[0] - from[0]) * Math.PI) / 180;
+
+  const a = Math.sin(Δφ / 2) ** 2 + Math.cos(φ1) * Math.cos(φ2) * Math.sin(Δλ / 2) ** 2;
+  return R * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+}
+
+/**
+ * Estimated seconds until Santa reaches a point
+ */
+export function estimateSecondsAway(santa: [number, number], point: [number, number]): number {
+  return (distanceMeters(santa, point) * ROAD_DISTANCE_FACTOR) / (SANTA_RUN_SPEED_KMH / 3.6);
+}
+
+/**
+ * Whether Santa is close enough to a subscribed point to send its alert
+ */
+export function isSantaNearby(santa: [number, number], point: [number, number]): boolean {
+  return estimateSecondsAway(santa, point) <= NEARBY_ALERT_SECONDS;
+}
+
+/**
+ * Notification shown by the service worker (public/sw.js)
+ */
+export interface NearbyAlertPayload {
+  title: string;
+  body: string;
+  url: string;
+  /** Tracking page link that turns the alert off and confirms it */
+  unsubscribeUrl: string;
+  tag: string;
+}
+
+/**
+ * Build the notification for a subscription
+ */
+export function buildNearbyAlertPayload(
+  routeId: string,
+  subscriptionId: string,
+  label: string | undefined
+): NearbyAlertPayload {
+  const minutes = Math.round(NEARBY_ALERT_SECONDS / 60);
+  const trackUrl = `/track/${encodeURIComponent(routeId)}`;
+  return {
+    title: '🎅 Santa is nearly here!',
+    body: `Santa is ~${minutes} minutes away from ${label || 'your pin'}. Head outside to say hello!`,
+    url: trackUrl,
+    unsubscribeUrl: `${trackUrl}?unsubscribe=${encodeURIComponent(subscriptionId)}`,
+    tag: `santa-nearby-${routeId}`,
+  };
+}
@@ -0,0 +1,112 @@
+/**
+ * Role-based permission utilities for brigade resources
+ *
+ * Kept free of token-validation dependencies so handlers and policy helpers
+ * can check memberships without pulling in the JWKS client.
+ */
+
+import type { BrigadeMembership } from '../types/membership';
+
+/**
+ * Check if user has permission to access a brigade resource
+ * 
+ * This function validates that:
+ * 1. User is authenticated
+ * 2. User has an active membership in the brigade
+ * 3. User's role has the required permission
+ */
+export interface BrigadePermissionCheck {
+  authorized: boolean;
+  membership?: BrigadeMembership;
+  error?: string;
+}
+
+/**
+ * Role-based permissions
+ */
+export const ROLE_PERMISSIONS = {
+  admin: [
+    'manage_routes',
+    'manage_members',
+    'invite_members',
+    'approve_members',
+    'remove_members',
+    'promote_admin',
+    'demote_admin',
+    'edit_settings',
+    'start_navigation',
+    'view_members',
+    'cancel_invitation',
+    'view_audit_logs',
+  ],
+  operator: [
+    'manage_routes',
+    'start_navigation',
+    'view_members',
+  ],
+  viewer: [
+    'view_members',
+  ],
+};
+
+/**
+ * Check if a role has a specific permission
+ */
+export function hasPermission(role: string, permission: string): boolean {
+  const permissions = ROLE_PERMISSIONS[role as keyof typeof ROLE_PERMISSIONS];
+  return permissions ? permissions.includes(permission) : false;
+}
+
+/**
+ * Validate user has permission for an action on a brigade
+ * 
+ * @param userId - User ID from validated token
+ * @param brigadeId - Brigade ID from request
+ * @param requiredPermission - Permission required for the action
+ * @param getMembership - Function to fetch user's membership in the brigade
+ */
+export async function checkBrigadePermission(
+  userId: string,
+  brigadeId: string,
+  requiredPermission: string,
+  getMembership: (userId: string, brigadeId: string) => Promise<BrigadeMembership | null>
+): Promise<BrigadePermissionCheck> {
+  try {
+    // Fetch user's membership in the brigade
+    const membership = await getMembership(userId, brigadeId);
+
+    if (!membership) {
+      return {
+        authorized: false,
+        error: 'User is not a member of this brigade',
+      };
+    }
+
+    // Check if membership is active
+    if (membership.status !== 'active') {
+      return {
+        authorized: false,
+        error: 'User membership is not active',
+      };
+    }
+
+    // Check if role has required permission
+    if (!hasPermission(membership.role, requiredPermission)) {
+      return {
+        authorized: false,
+        error: `User role '${membership.role}' does not have '${requiredPermission}' permission`,
+      };
+    }
+
+    return {
+      authorized: true,
+      membership,
+    };
+
+  } catch (error: unknown) {
+    return {
+      authorized: false,
+      error: error instanceof Error ? error.message : 'Failed to check brigade permission',
+    };
+  }
+}
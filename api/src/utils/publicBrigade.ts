@@ -0,0 +1,147 @@
+/**
+ * Public brigade page
+ *
+ * Residents find a brigade's runs at /b/{slug} without a direct tracking link.
+ * Only what a viewer needs is exposed: the brigade's public profile and its
+ * published, active and recently completed routes. Drafts, membership rules
+ * and route internals (turn-by-turn steps, schedule results, creators) are
+ * left out.
+ */
+
+export type PublicRouteStatus = 'published' | 'active' | 'completed';
+
+/** How long a finished run stays on the brigade page */
+export const RECENTLY_COMPLETED_DAYS = 14;
+
+export interface PublicBrigadeProfile {
+  slug: string;
+  name: string;
+  location?: string;
+  logo?: string;
+  themeColor?: string;
+  contact?: {
+    email?: string;
+    phone?: string;
+    website?: string;
+  };
+}
+
+export interface PublicRouteSummary {
+  id: string;
+  name: string;
+  description?: string;
+  date: string;
+  startTime: string;
+  endTime?: string;
+  status: PublicRouteStatus;
+  stopCount: number;
+  distance?: number;
+  estimatedDuration?: number;
+  startedAt?: string;
+  completedAt?: string;
+}
+
+export interface PublicBrigadePage {
+  brigade: PublicBrigadeProfile;
+  routes: PublicRouteSummary[];
+}
+
+/**
+ * Stored brigade, as returned by the brigades API
+ */
+export interface BrigadeRecord {
+  slug: string;
+  name: string;
+  location?: string;
+  logo?: string;
+  themeColor?: string;
+  contact?: { email?: string; phone?: string; website?: string };
+  contactEmail?: string;
+  contactPhone?: string;
+}
+
+/**
+ * Stored route, as returned by the routes API
+ */
+export interface RouteRecord {
+  id: string;
+  name: string;
+  description?: string;
+  date: string;
+  startTime: string;
+  endTime?: string;
+  status: string;
+  waypoints?: unknown[];
+  distance?: number;
+  estimatedDuration?: number;
+  startedAt?: string;
+  completedAt?: string;
+}
+
+const STATUS_ORDER: Record<PublicRouteStatus, number> = { active: 0, published: 1, completed: 2 };
+
+function isPublicStatus(status: unknown): status is PublicRouteStatus {
+  return status === 'published' || status === 'active' || status === 'completed';
+}
+
+function isRecentlyCompleted(route: { date: string; completedAt?: string }, now: Date): boolean {
+  const finished = new Date(route.completedAt || `${route.date}T23:59:59`).getTime();
+  return now.getTime() - finished <= RECENTLY_COMPLETED_DAYS * 24 * 60 * 60 * 1000;
+}
+
+/**
+ * The brigade fields shown to the public
+ */
+export function toPublicBrigadeProfile(brigade: BrigadeRecord): PublicBrigadeProfile {
+  const contact = {
+    email: brigade.contact?.email || brigade.contactEmail || undefined,
+    phone: brigade.contact?.phone || brigade.contactPhone || undefined,
+    website: brigade.contact?.website || undefined,
+  };
+  return {
+    slug: brigade.slug,
+    name: brigade.name,
+    location: brigade.location || undefined,
+    logo: brigade.logo || undefined,
+    themeColor: brigade.themeColor || undefined,
+    contact: contact.email || contact.phone || contact.website ? contact : undefined,
+  };
+}
+
+/**
+ * Build the public page from a brigade and all of its routes
+ * Live runs come first, then upcoming runs soonest first, then recent runs newest first.
+ * Keep in sync with src/utils/publicBrigade.ts.
+ */
+export function buildPublicBrigadePage(brigade: BrigadeRecord, routes: RouteRecord[], now: Date): PublicBrigadePage {
+  const publicRoutes: PublicRouteSummary[] = routes
+    .filter((route): route is RouteRecord & { status: PublicRouteStatus } =>
+      isPublicStatus(route.status) && (route.status !== 'completed' || isRecentlyCompleted(route, now)))
+    .map(route => ({
+      id: route.id,
+      name: route.name,
+      description: route.description || undefined,
+      date: route.date,
+      startTime: route.startTime,
+      endTime: route.endTime || undefined,
+      status: route.status,
+      stopCount: route.waypoints?.length ?? 0,
+      distance: route.distance || undefined,
+      estimatedDuration: route.estimatedDuration || undefined,
+      startedAt: route.startedAt || undefined,
+      completedAt: route.completedAt || undefined,
+    }));
+
+  publicRoutes.sort((a, b) => {
+    if (a.status !== b.status) {
+      return STATUS_ORDER[a.status] - STATUS_ORDER[b.status];
+    }
+    const byDate = `${a.date} ${a.startTime}`.localeCompare(`${b.date} ${b.startTime}`);
+    return a.status === 'completed' ? -byDate : byDate;
+  });
+
+  return {
+    brigade: toPublicBrigadeProfile(brigade),
+    routes: publicRoutes,
+  };
+}
@@ -0,0 +1,46 @@
+/**
+ * Web PubSub client token options for route connections
+ *
+ * Every permission is scoped to the route's own group, so a token for one
+ * route can never join, read or send to another brigade's route. Locations
+ * only ever reach the tracking group through /api/broadcast, which checks the
+ * caller and the route on every message, so no token may send to it directly.
+ */
+
+export type PubSubRole = 'viewer' | 'broadcaster' | 'editor';
+
+// Client tokens are valid for one Santa run
+const TOKEN_EXPIRY_MINUTES = 120;
+
+export interface ClientTokenOptions {
+  userId?: string;
+  groups: string[];
+  roles: string[];
+  expirationTimeInMinutes: number;
+}
+
+/**
+ * Group a role connects to: the route's tracking group, or its editing group for editors
+ */
+export function getRouteGroupName(role: PubSubRole, routeId: string): string {
+  return role === 'editor' ? `route_${routeId}_editing` : `route_${routeId}`;
+}
+
+/**
+ * Token options for a role on a route
+ * Viewers and broadcasters only receive (broadcasters send through the API);
+ * editors may send to (and join or leave) their route's editing group and nothing else.
+ * Viewer tokens never carry a user ID, so viewer connections can be counted apart
+ * from the broadcaster's (see utils/viewerConnections).
+ */
+export function buildClientTokenOptions(role: PubSubRole, routeId: string, userId?: string): ClientTokenOptions {
+  const groupName = getRouteGroupName(role, routeId);
+  return {
+    ...(userId && role !== 'viewer' ? { userId } : {}),
+    groups: [groupName],
+    roles: role === 'editor'
+      ? [`webpubsub.sendToGroup.${groupName}`, `webpubsub.joinLeaveGroup.${groupName}`]
+      : [],
+    expirationTimeInMinutes: TOKEN_EXPIRY_MINUTES,
+  };
+}
@@ -0,0 +1,183 @@
+/**
+ * Push subscription storage for "Santa is near" alerts
+ *
+ * Table layout:
+ * - PartitionKey: routeId
+ * - RowKey: random subscription ID (also the secret in the unsubscribe link)
+ *
+ * Subscriptions only live for one run: they are purged when the route is
+ * completed, archived or deleted.
+ */
+
+import { randomUUID } from 'crypto';
+import { getTableClient, isDevMode } from './storage';
+import type { NearbyAlertRequest } from './nearbyAlerts';
+import type { PushTarget } from './webPush';
+
+const PUSH_SUBSCRIPTIONS_TABLE = isDevMode ? 'dev-pushsubscriptions' : 'pushsubscriptions';
+
+// Table Storage limit for operations in one transaction
+const MAX_TRANSACTION_SIZE = 100;
+
+export interface StoredPushSubscription {
+  id: string;
+  routeId: string;
+  target: PushTarget;
+  location: [number, number];
+  label?: string;
+  createdAt: string;
+  notifiedAt?: string;
+  clientKey?: string;  // Hashed IP address it was created from (see utils/clientIp)
+  etag?: string;
+}
+
+async function getPushSubscriptionsTableClient() {
+  return getTableClient(PUSH_SUBSCRIPTIONS_TABLE);
+}
+
+function escapeODataString(value: string): string {
+  return value.replace(/'/g, "''");
+}
+
+/**
+ * Store a subscription for a route
+ * A browser re-subscribing for the same route replaces its earlier pin.
+ */
+export async function createPushSubscription(
+  routeId: string,
+  request: NearbyAlertRequest,
+  clientKey?: string
+): Promise<StoredPushSubscription> {
+  const client = await getPushSubscriptionsTableClient();
+
+  const existing = client.listEntities({
+    queryOptions: {
+      filter: `PartitionKey eq '${escapeODataString(routeId)}' and endpoint eq '${escapeODataString(request.subscription.endpoint)}'`,
+      select: ['RowKey'],
+    },
+  });
+  for await (const entity of existing) {
+    await client.deleteEntity(routeId, entity.rowKey as string);
+  }
+
+  const subscription: StoredPushSubscription = {
+    id: randomUUID(),
+    routeId,
+    target: request.subscription,
+    location: request.location,
+    label: request.label,
+    createdAt: new Date().toISOString(),
+    clientKey,
+  };
+
+  await client.createEntity({
+    partitionKey: routeId,
+    rowKey: subscription.id,
+    endpoint: subscription.target.endpoint,
+    p256dh: subscription.target.keys.p256dh,
+    auth: subscription.target.keys.auth,
+    lng: subscription.location[0],
+    lat: subscription.location[1],
+    label: subscription.label,
+    createdAt: subscription.createdAt,
+    clientKey: subscription.clientKey,
+  });
+
+  return subscription;
+}
+
+/**
+ * Subscriptions for a route that have not been alerted yet
+ */
+export async function listPendingPushSubscriptions(routeId: string): Promise<StoredPushSubscription[]> {
+  const client = await getPushSubscriptionsTableClient();
+  const entities = client.listEntities({
+    queryOptions: { filter: `PartitionKey eq '${escapeODataString(routeId)}'` },
+  });
+
+  const subscriptions: StoredPushSubscription[] = [];
+  for await (const entity of entities) {
+    if (entity.notifiedAt) {
+      continue;
+    }
+    subscriptions.push({
+      id: entity.rowKey as string,
+      routeId,
+      target: {
+        endpoint: entity.endpoint as string,
+        keys: { p256dh: entity.p256dh as string, auth: entity.auth as string },
+      },
+      location: [entity.lng as number, entity.lat as number],
+      label: entity.label as string | undefined,
+      createdAt: entity.createdAt as string,
+      clientKey: entity.clientKey as string | undefined,
+      etag: entity.etag,
+    });
+  }
+
+  return subscriptions;
+}
+
+/**
+ * Mark a subscription as alerted before sending, so concurrent broadcasts
+ * alert it only once. Returns false if another broadcast claimed it first.
+ */
+export async function claimPushSubscription(subscription: StoredPushSubscription): Promise<boolean> {
+  const client = await getPushSubscriptionsTableClient();
+
+  try {
+    await client.updateEntity(
+      { partitionKey: subscription.routeId, rowKey: subscription.id, notifiedAt: new Date().toISOString() },
+      'Merge',
+      { etag: subscription.etag }
+    );
+    return true;
+  } catch (error) {
+    const statusCode = (error as { statusCode?: number })?.statusCode;
+    if (statusCode === 412 || statusCode === 404) {
+      return false;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Remove a subscription (returns false if it did not exist)
+ */
+export async function deletePushSubscription(routeId: string, subscriptionId: string): Promise<boolean> {
+  const client = await getPushSubscriptionsTableClient();
+
+  try {
+    await client.deleteEntity(routeId, subscriptionId);
+    return true;
+  } catch (error) {
+    if ((error as { statusCode?: number })?.statusCode === 404) {
+      return false;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Remove every subscription for a route once its run is over
+ */
+export async function purgePushSubscriptions(routeId: string): Promise<number> {
+  const client = await getPushSubscriptionsTableClient();
+  const entities = client.listEntities({
+    queryOptions: { filter: `PartitionKey eq '${escapeODataString(routeId)}'`, select: ['RowKey'] },
+  });
+
+  const rowKeys: string[] = [];
+  for await (const entity of entities) {
+    rowKeys.push(entity.rowKey as string);
+  }
+
+  for (let i = 0; i < rowKeys.length; i += MAX_TRANSACTION_SIZE) {
+    const chunk = rowKeys.slice(i, i + MAX_TRANSACTION_SIZE);
+    await client.submitTransaction(
+      chunk.map(rowKey => ['delete', { partitionKey: routeId, rowKey }] as const)
+    );
+  }
+
+  return rowKeys.length;
+}
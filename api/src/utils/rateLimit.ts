@@ -0,0 +1,64 @@
+/**
+ * Fixed-window rate limiting, kept in memory
+ *
+ * Each Functions instance counts on its own, so this bounds how fast one
+ * caller can write rather than enforcing an exact global quota. It is meant
+ * for endpoints that have to accept callers without a token.
+ */
+
+export interface RateLimitOptions {
+  limit: number;     // Units allowed per key in each window
+  windowMs: number;
+  maxKeys?: number;  // Expired windows are dropped once this many keys are tracked
+}
+
+interface RateWindow {
+  start: number;
+  used: number;
+}
+
+export interface RateLimiter {
+  /**
+   * Take up to `count` units for a key
+   * Returns how many were granted (0 once the window is used up).
+   */
+  take(key: string, count?: number, now?: number): number;
+  /** Seconds until the key's current window resets */
+  retryAfterSeconds(key: string, now?: number): number;
+}
+
+export function createRateLimiter({ limit, windowMs, maxKeys = 10_000 }: RateLimitOptions): RateLimiter {
+  const windows = new Map<string, RateWindow>();
+
+  const currentWindow = (key: string, now: number): RateWindow => {
+    const existing = windows.get(key);
+    if (existing && now - existing.start < windowMs) {
+      return existing;
+    }
+
+    if (!existing && windows.size >= maxKeys) {
+      for (const [staleKey, window] of windows) {
+        if (now - window.start >= windowMs) {
+          windows.delete(staleKey);
+        }
+      }
+    }
+
+    const fresh = { start: now, used: 0 };
+    windows.set(key, fresh);
+    return fresh;
+  };
+
+  return {
+    take(key, count = 1, now = Date.now()) {
+      const window = currentWindow(key, now);
+      const granted = Math.max(0, Math.min(count, limit - window.used));
+      window.used += granted;
+      return granted;
+    },
+    retryAfterSeconds(key, now = Date.now()) {
+      const window = windows.get(key);
+      return window ? Math.max(0, Math.ceil((window.start + windowMs - now) / 1000)) : 0;
+    },
+  };
+}
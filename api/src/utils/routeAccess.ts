@@ -0,0 +1,237 @@
+/**
+ * Route-level authorization for real-time tracking and editing
+ *
+ * Decides whether an authenticated caller may act as the navigator (or a live
+ * editor) for a route:
+ * - The route must exist
+ * - The caller must hold an active membership with the required permission
+ *   (`start_navigation` for navigators, `manage_routes` for editors) in the
+ *   route's own brigade
+ * - The route must be in one of the allowed statuses (e.g. `active`)
+ *
+ * The brigade is always taken from the stored route, never from the request body,
+ * so a caller cannot borrow a membership from a different brigade.
+ */
+
+import type { HttpResponseInit } from '@azure/functions';
+import type { AuthResult } from './auth';
+import type { BrigadeMembership } from '../types/membership';
+import { checkBrigadePermission } from './permissions';
+import { getTableClient, isDevMode } from './storage';
+
+const ROUTES_TABLE = isDevMode ? 'dev-routes' : 'routes';
+const MEMBERSHIPS_TABLE = isDevMode ? 'dev-memberships' : 'memberships';
+
+export type RouteStatus = 'draft' | 'published' | 'active' | 'completed' | 'archived';
+
+/**
+ * Minimal view of a stored route needed for authorization decisions
+ */
+export interface RouteSummary {
+  id: string;
+  brigadeId: string;
+  status: RouteStatus;
+}
+
+/**
+ * Data access used by the policy. Injected so the policy can be unit tested
+ * without Azure Table Storage.
+ */
+export interface RouteAccessLookups {
+  getRoute: (routeId: string) => Promise<RouteSummary | null>;
+  getMembership: (userId: string, brigadeId: string) => Promise<BrigadeMembership | null>;
+}
+
+export type RouteAccessErrorCode =
+  | 'UNAUTHENTICATED'
+  | 'ROUTE_NOT_FOUND'
+  | 'NOT_ROUTE_OPERATOR'
+  | 'ROUTE_NOT_ACTIVE';
+
+export interface RouteAccessResult {
+  authorized: boolean;
+  /** HTTP status to return when the caller is not authorized */
+  status: number;
+  code?: RouteAccessErrorCode;
+  error?: string;
+  userId?: string;
+  route?: RouteSummary;
+  membership?: BrigadeMembership;
+}
+
+/**
+ * Check that the caller may broadcast for (or connect as broadcaster to) a route
+ *
+ * @param authResult - Result of validateToken for the incoming request
+ * @param routeId - Route the caller wants to act on
+ * @param lookups - Route and membership data access
+ * @param allowedStatuses - Route statuses that accept the action
+ * @param permission - Brigade permission the action needs
+ */
+export async function authorizeRouteOperator(
+  authResult: AuthResult,
+  routeId: string,
+  lookups: RouteAccessLookups,
+  allowedStatuses: RouteStatus[] = ['active'],
+  permission: 'start_navigation' | 'manage_routes' = 'start_navigation'
+): Promise<RouteAccessResult> {
+  if (!authResult.authenticated || !authResult.userId) {
+    return {
+      authorized: false,
+      status: 401,
+      code: 'UNAUTHENTICATED',
+      error: authResult.error || 'Authentication required',
+    };
+  }
+
+  const route = await lookups.getRoute(routeId);
+  if (!route) {
+    return {
+      authorized: false,
+      status: 404,
+      code: 'ROUTE_NOT_FOUND',
+      error: 'Route not found',
+      userId: authResult.userId,
+    };
+  }
+
+  const permissionCheck = await checkBrigadePermission(
+    authResult.userId,
+    route.brigadeId,
+    permission,
+    lookups.getMembership
+  );
+
+  if (!permissionCheck.authorized) {
+    return {
+      authorized: false,
+      status: 403,
+      code: 'NOT_ROUTE_OPERATOR',
+      error: permissionCheck.error || 'Insufficient permissions',
+      userId: authResult.userId,
+      route,
+    };
+  }
+
+  if (!allowedStatuses.includes(route.status)) {
+    return {
+      authorized: false,
+      status: 409,
+      code: 'ROUTE_NOT_ACTIVE',
+      error: `Route status is '${route.status}'. Expected one of: ${allowedStatuses.join(', ')}`,
+      userId: authResult.userId,
+      route,
+      membership: permissionCheck.membership,
+    };
+  }
+
+  return {
+    authorized: true,
+    status: 200,
+    userId: authResult.userId,
+    route,
+    membership: permissionCheck.membership,
+  };
+}
+
+/**
+ * Look up a route for the public tracking endpoints
+ * Draft routes are private to the brigade (GET /api/routes only shows them to
+ * its members), so they are reported as missing.
+ */
+export async function getPublicRoute(
+  routeId: string,
+  lookups: RouteAccessLookups = tableRouteLookups
+): Promise<RouteSummary | null> {
+  const route = await lookups.getRoute(routeId);
+  return route && route.status !== 'draft' ? route : null;
+}
+
+/**
+ * Whether a caller may see a brigade's draft routes (its active members only)
+ */
+export async function canViewDraftRoutes(
+  authResult: AuthResult,
+  brigadeId: string,
+  lookups: RouteAccessLookups = tableRouteLookups
+): Promise<boolean> {
+  if (!authResult.authenticated || !authResult.userId) {
+    return false;
+  }
+  const membership = await lookups.getMembership(authResult.userId, brigadeId);
+  return membership?.status === 'active';
+}
+
+/**
+ * Build the HTTP response for a rejected route access check
+ */
+export function routeAccessErrorResponse(result: RouteAccessResult): HttpResponseInit {
+  const errorLabels: Record<number, string> = {
+    401: 'Unauthorized',
+    403: 'Forbidden',
+    404: 'Not Found',
+    409: 'Conflict',
+  };
+
+  return {
+    status: result.status,
+    jsonBody: {
+      error: errorLabels[result.status] || 'Error',
+      code: result.code,
+      message: result.error,
+    },
+  };
+}
+
+function escapeODataValue(value: string): string {
+  return value.replace(/'/g, "''");
+}
+
+/**
+ * Azure Table Storage backed lookups used by the Functions handlers
+ */
+export const tableRouteLookups: RouteAccessLookups = {
+  async getRoute(routeId: string): Promise<RouteSummary | null> {
+    const client = await getTableClient(ROUTES_TABLE);
+    // Route IDs are unique across brigades, so look up by RowKey alone
+    const entities = client.listEntities({
+      queryOptions: {
+        filter: `RowKey eq '${escapeODataValue(routeId)}'`,
+        select: ['PartitionKey', 'RowKey', 'status'],
+      },
+    });
+
+    for await (const entity of entities) {
+      return {
+        id: entity.rowKey as string,
+        brigadeId: entity.partitionKey as string,
+        status: entity.status as RouteStatus,
+      };
+    }
+
+    return null;
+  },
+
+  async getMembership(userId: string, brigadeId: string): Promise<BrigadeMembership | null> {
+    const client = await getTableClient(MEMBERSHIPS_TABLE);
+    const entities = client.listEntities({
+      queryOptions: {
+        filter: `PartitionKey eq '${escapeODataValue(brigadeId)}' and userId eq '${escapeODataValue(userId)}'`,
+      },
+    });
+
+    for await (const entity of entities) {
+      return {
+        id: entity.rowKey as string,
+        brigadeId: entity.partitionKey as string,
+        userId: entity.userId as string,
+        role: entity.role as BrigadeMembership['role'],
+        status: entity.status as BrigadeMembership['status'],
+        createdAt: entity.createdAt as string,
+        updatedAt: entity.updatedAt as string,
+      };
+    }
+
+    return null;
+  },
+};
@@ -0,0 +1,70 @@
+/**
+ * Waypoint progress on shared routes
+ *
+ * On multi-vehicle routes several navigator devices save the same route while
+ * it is active, each sending the full waypoint list. Completions already stored
+ * are kept so one truck's save never un-completes another truck's stops.
+ */
+
+export interface WaypointProgress {
+  id: string;
+  isCompleted?: boolean;
+  actualArrival?: string;
+  actualDeparture?: string;
+  completedByVehicleId?: string;
+}
+
+/**
+ * Keep stops already completed by another device when a route is saved mid-run
+ * Keep in sync with src/utils/vehicles.ts.
+ */
+export function mergeWaypointCompletions<T extends WaypointProgress>(stored: WaypointProgress[], incoming: T[]): T[] {
+  const storedById = new Map(stored.map(wp => [wp.id, wp]));
+  return incoming.map(wp => {
+    const previous = storedById.get(wp.id);
+    if (wp.isCompleted || !previous?.isCompleted) {
+      return wp;
+    }
+    return {
+      ...wp,
+      isCompleted: true,
+      actualArrival: previous.actualArrival,
+      actualDeparture: previous.actualDeparture,
+      completedByVehicleId: previous.completedByVehicleId,
+    };
+  });
+}
+
+// Saves from other devices a navigator's save may have to be merged past
+const MAX_MERGE_ATTEMPTS = 5;
+
+/**
+ * Write a navigator's save merged into the route as stored, again if another device saves first
+ * `write` must be conditional on the version of the route it is given. When it
+ * fails with 412 the route is read again and the save merged into that, so
+ * neither device's completions are lost; `reload` returns null once the route
+ * can no longer take the save (e.g. it was completed), and the 412 is rethrown.
+ */
+export async function writeMergedProgress<TRoute extends { waypoints: WaypointProgress[] }, TWaypoint extends WaypointProgress, TResult>(
+  stored: TRoute,
+  incoming: TWaypoint[],
+  reload: () => Promise<TRoute | null>,
+  write: (waypoints: TWaypoint[], base: TRoute) => Promise<TResult>,
+  attempts: number = MAX_MERGE_ATTEMPTS
+): Promise<TResult> {
+  let base = stored;
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await write(mergeWaypointCompletions(base.waypoints, incoming), base);
+    } catch (error) {
+      if ((error as { statusCode?: number } | null)?.statusCode !== 412 || attempt >= attempts) {
+        throw error;
+      }
+      const latest = await reload();
+      if (!latest) {
+        throw error;
+      }
+      base = latest;
+    }
+  }
+}
@@ -0,0 +1,354 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+/**
+ * Route version history
+ *
+ * Every save that changes a route's plan keeps a snapshot of it, with who
+ * saved it and a short summary of what changed, so a mistake (say a bulk
+ * delete of stops) can be undone by restoring an earlier revision. Saves that
+ * only record progress (a navigator marking stops complete) aren't revisions.
+ * Keep in sync with src/utils/routeRevisions.ts.
+ *
+ * Table layout (append-only):
+ * - PartitionKey: routeId
+ * - RowKey: the revision ID, a reversed timestamp like the audit log's, so a route lists newest first
+ */
+
+import type { InvocationContext } from '@azure/functions';
+import { getTableClient, isDevMode } from './storage';
+import { buildAuditRowKey } from './auditLog';
+import type { RouteStatus } from './routeStatus';
+
+const ROUTE_REVISIONS_TABLE = isDevMode ? 'dev-routerevisions' : 'routerevisions';
+
+// Statuses whose plan can still be restored (the same ones the editor edits)
+const RESTORABLE_STATUSES: RouteStatus[] = ['draft', 'published'];
+
+// Route fields an editor plans (see PLAN_FIELDS in src/utils/routeDiff.ts)
+const PLAN_FIELDS = ['name', 'description', 'date', 'startTime', 'endTime', 'defaultDwellMinutes', 'vehicles'] as const;
+
+// Everything a revision keeps, stored as the routes table stores it
+const SNAPSHOT_FIELDS = [...PLAN_FIELDS, 'waypoints', 'geometry', 'navigationSteps', 'distance', 'estimatedDuration'] as const;
+const JSON_FIELDS = new Set<string>(['waypoints', 'vehicles', 'geometry', 'navigationSteps']);
+
+// Stop fields other than the location and name an editor can change
+const EDITABLE_WAYPOINT_FIELDS = ['notes', 'scheduledArrival', 'dwellMinutes', 'geofenceRadius', 'vehicleId'] as const;
+
+type ChangeType = 'added' | 'removed' | 'moved' | 'renamed' | 'reordered' | 'edited';
+
+// Order stop changes are listed in a summary
+const CHANGE_TYPES: ChangeType[] = ['added', 'removed', 'moved', 'renamed', 'reordered', 'edited'];
+
+export interface RevisionWaypoint {
+  id: string;
+  name?: string;
+  coordinates: [number, number];
+  order: number;
+  notes?: string;
+  scheduledArrival?: string;
+  dwellMinutes?: number;
+  geofenceRadius?: number;
+  vehicleId?: string;
+}
+
+export interface RoutePlan {
+  name: string;
+  description?: string;
+  date: string;
+  startTime: string;
+  endTime?: string;
+  waypoints: RevisionWaypoint[];
+  vehicles?: unknown[];
+  geometry?: unknown;
+  navigationSteps?: unknown[];
+  distance?: number;
+  estimatedDuration?: number;
+  defaultDwellMinutes?: number;
+}
+
+export interface RouteRevision {
+  id: string;
+  routeId: string;
+  brigadeId: string;
+  savedAt: string;
+  authorId?: string;
+  authorName?: string;
+  summary: string;
+  stopCount: number;
+  restoredFrom?: string;
+  snapshot?: RoutePlan;
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+}
+
+function sortByOrder(waypoints: RevisionWaypoint[]): RevisionWaypoint[] {
+  return [...waypoints].sort((a, b) => a.order - b.order);
+}
+
+/**
+ * IDs kept in their relative order (the longest common subsequence of the two orders)
+ */
+function keptInOrder(before: string[], after: string[]): Set<string> {
+  const lengths = before.map(() => new Array<number>(after.length + 1).fill(0));
+  lengths.push(new Array<number>(after.length + 1).fill(0));
+  for (let i = before.length - 1; i >= 0; i--) {
+    for (let j = after.length - 1; j >= 0; j--) {
+      lengths[i][j] = before[i] === after[j]
+        ? lengths[i + 1][j + 1] + 1
+        : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const kept = new Set<string>();
+  let i = 0;
+  let j = 0;
+  while (i < before.length && j < after.length) {
+    if (before[i] === after[j]) {
+      kept.add(before[i]);
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      i++;
+    } else {
+      j++;
+    }
+  }
+  return kept;
+}
+
+/**
+ * Count stops added, removed, moved, renamed, reordered or otherwise edited
+ * Mirrors diffWaypoints in src/utils/routeDiff.ts.
+ */
+function countWaypointChanges(before: RevisionWaypoint[], after: RevisionWaypoint[]): Map<ChangeType, number> {
+  const beforeSorted = sortByOrder(before);
+  const afterSorted = sortByOrder(after);
+  const beforeById = new Map(beforeSorted.map(wp => [wp.id, wp]));
+  const afterIds = new Set(afterSorted.map(wp => wp.id));
+
+  const kept = keptInOrder(
+    beforeSorted.filter(wp => afterIds.has(wp.id)).map(wp => wp.id),
+    afterSorted.filter(wp => beforeById.has(wp.id)).map(wp => wp.id)
+  );
+
+  const counts = new Map<ChangeType, number>();
+  const count = (type: ChangeType) => counts.set(type, (counts.get(type) ?? 0) + 1);
+
+  for (const wp of afterSorted) {
+    const previous = beforeById.get(wp.id);
+    if (!previous) {
+      count('added');
+      continue;
+    }
+    if (previous.coordinates[0] !== wp.coordinates[0] || previous.coordinates[1] !== wp.coordinates[1]) {
+      count('moved');
+    }
+    if ((previous.name || '') !== (wp.name || '')) {
+      count('renamed');
+    }
+    if (!kept.has(wp.id)) {
+      count('reordered');
+    }
+    if (EDITABLE_WAYPOINT_FIELDS.some(field => !sameValue(previous[field], wp[field]))) {
+      count('edited');
+    }
+  }
+  for (const wp of beforeSorted) {
+    if (!afterIds.has(wp.id)) {
+      count('removed');
+    }
+  }
+
+  return counts;
+}
+
+/**
+ * A short description of what changed between two versions of a route's plan,
+ * e.g. "2 stops added, 1 stop renamed; date changed" (empty if nothing did)
+ */
+export function summarizeRouteChanges(before: RoutePlan | null, after: RoutePlan): string {
+  if (!before) {
+    return `Created with ${after.waypoints.length} ${after.waypoints.length === 1 ? 'stop' : 'stops'}`;
+  }
+
+  const counts = countWaypointChanges(before.waypoints, after.waypoints);
+  const stopChanges = CHANGE_TYPES
+    .filter(type => counts.has(type))
+    .map(type => {
+      const count = counts.get(type)!;
+      return `${count} ${count === 1 ? 'stop' : 'stops'} ${type}`;
+    });
+
+  const fieldChanges = PLAN_FIELDS.filter(field => !sameValue(before[field], after[field]));
+
+  return [
+    stopChanges.join(', '),
+    fieldChanges.length > 0 ? `${fieldChanges.join(', ')} changed` : '',
+  ].filter(Boolean).join('; ');
+}
+
+/**
+ * Whether an earlier revision can be restored onto a route (once a run has started its plan is fixed)
+ */
+export function canRestoreRevision(status: RouteStatus): boolean {
+  return RESTORABLE_STATUSES.includes(status);
+}
+
+/**
+ * The revision to record for a save, or null if the plan didn't change
+ */
+export function buildRouteRevision(
+  before: RoutePlan | null,
+  after: RoutePlan & { id: string; brigadeId: string },
+  savedAt: Date,
+  author: { userId?: string; name?: string; email?: string },
+  restoredFrom?: string
+): RouteRevision | null {
+  const summary = summarizeRouteChanges(before, after);
+  if (!summary && !restoredFrom) {
+    return null;
+  }
+
+  const snapshot = {} as Record<string, unknown>;
+  for (const field of SNAPSHOT_FIELDS) {
+    snapshot[field] = after[field];
+  }
+
+  return {
+    id: buildAuditRowKey(savedAt.getTime()),
+    routeId: after.id,
+    brigadeId: after.brigadeId,
+    savedAt: savedAt.toISOString(),
+    authorId: author.userId,
+    authorName: author.name || author.email,
+    summary: summary || 'No changes',
+    stopCount: after.waypoints.length,
+    restoredFrom,
+    snapshot: snapshot as unknown as RoutePlan,
+  };
+}
+
+export function revisionToEntity(revision: RouteRevision) {
+  const entity: Record<string, unknown> = {
+    partitionKey: revision.routeId,
+    rowKey: revision.id,
+    brigadeId: revision.brigadeId,
+    savedAt: revision.savedAt,
+    authorId: revision.authorId || '',
+    authorName: revision.authorName || '',
+    summary: revision.summary,
+    stopCount: revision.stopCount,
+    restoredFrom: revision.restoredFrom || '',
+  };
+  for (const field of SNAPSHOT_FIELDS) {
+    const value = revision.snapshot?.[field];
+    entity[field] = JSON_FIELDS.has(field) ? (value ? JSON.stringify(value) : '') : (value ?? '');
+  }
+  return entity as { partitionKey: string; rowKey: string } & Record<string, unknown>;
+}
+
+/**
+ * Convert a stored revision back, with or without its snapshot (history lists leave it out)
+ */
+export function entityToRevision(entity: any, includeSnapshot: boolean): RouteRevision {
+  const revision: RouteRevision = {
+    id: entity.rowKey,
+    routeId: entity.partitionKey,
+    brigadeId: entity.brigadeId,
+    savedAt: entity.savedAt,
+    authorId: entity.authorId || undefined,
+    authorName: entity.authorName || undefined,
+    summary: entity.summary,
+    stopCount: entity.stopCount ?? 0,
+    restoredFrom: entity.restoredFrom || undefined,
+  };
+  if (!includeSnapshot) {
+    return revision;
+  }
+
+  const snapshot: Record<string, unknown> = {};
+  for (const field of SNAPSHOT_FIELDS) {
+    const value = entity[field];
+    snapshot[field] = JSON_FIELDS.has(field)
+      ? (value ? JSON.parse(value) : field === 'waypoints' ? [] : undefined)
+      : (value === '' ? undefined : value);
+  }
+  return { ...revision, snapshot: snapshot as unknown as RoutePlan };
+}
+
+/**
+ * Record a revision for a save if it changed the plan (best-effort: a failed
+ * write never fails the save, which has already happened)
+ */
+export async function recordRouteRevision(
+  before: RoutePlan | null,
+  after: RoutePlan & { id: string; brigadeId: string },
+  author: { userId?: string; name?: string; email?: string },
+  context: InvocationContext,
+  restoredFrom?: string
+): Promise<void> {
+  const revision = buildRouteRevision(before, after, new Date(), author, restoredFrom);
+  if (!revision) {
+    return;
+  }
+
+  try {
+    const client = await getTableClient(ROUTE_REVISIONS_TABLE);
+    await client.createEntity(revisionToEntity(revision));
+  } catch (error) {
+    context.warn(`Failed to record revision for route ${after.id}:`, error);
+  }
+}
+
+/**
+ * A route's revisions, newest first, without their snapshots
+ */
+export async function listRouteRevisions(brigadeId: string, routeId: string): Promise<RouteRevision[]> {
+  const client = await getTableClient(ROUTE_REVISIONS_TABLE);
+  const entities = client.listEntities({
+    queryOptions: {
+      filter: `PartitionKey eq '${routeId}' and brigadeId eq '${brigadeId}'`,
+      select: ['PartitionKey', 'RowKey', 'brigadeId', 'savedAt', 'authorId', 'authorName', 'summary', 'stopCount', 'restoredFrom'],
+    }
+  });
+
+  const revisions: RouteRevision[] = [];
+  for await (const entity of entities) {
+    revisions.push(entityToRevision(entity, false));
+  }
+  return revisions;
+}
+
+/**
+ * One revision with its snapshot, or null if the route has no such revision
+ */
+export async function getRouteRevision(brigadeId: string, routeId: string, revisionId: string): Promise<RouteRevision | null> {
+  const client = await getTableClient(ROUTE_REVISIONS_TABLE);
+  try {
+    const entity = await client.getEntity(routeId, revisionId);
+    return entity.brigadeId === brigadeId ? entityToRevision(entity, true) : null;
+  } catch (error: any) {
+    if (error.statusCode === 404) {
+      return null;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Drop a deleted route's history (best-effort)
+ */
+export async function purgeRouteRevisions(routeId: string, context: InvocationContext): Promise<void> {
+  try {
+    const client = await getTableClient(ROUTE_REVISIONS_TABLE);
+    const entities = client.listEntities({
+      queryOptions: { filter: `PartitionKey eq '${routeId}'`, select: ['PartitionKey', 'RowKey'] }
+    });
+    for await (const entity of entities) {
+      await client.deleteEntity(entity.partitionKey!, entity.rowKey!);
+    }
+  } catch (error) {
+    context.warn(`Failed to purge revisions for route ${routeId}:`, error);
+  }
+}
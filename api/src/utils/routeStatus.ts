@@ -0,0 +1,137 @@
+/**
+ * Route status state machine
+ *
+ * draft → published → active → completed → archived, plus published → draft
+ * to pull a route before the run. The server is the only place a route's status
+ * changes: transitions check their preconditions and stamp publishedAt,
+ * startedAt and completedAt with the server clock.
+ */
+
+export type RouteStatus = 'draft' | 'published' | 'active' | 'completed' | 'archived';
+
+export type RouteTransition = 'publish' | 'start' | 'complete' | 'archive' | 'revert-to-draft';
+
+export type RouteTransitionErrorCode =
+  | 'UNKNOWN_TRANSITION'
+  | 'INVALID_TRANSITION'
+  | 'ROUTE_INCOMPLETE';
+
+export const ROUTE_TRANSITIONS: Record<RouteTransition, { from: RouteStatus[]; to: RouteStatus }> = {
+  publish: { from: ['draft'], to: 'published' },
+  start: { from: ['published'], to: 'active' },
+  complete: { from: ['active'], to: 'completed' },
+  archive: { from: ['completed'], to: 'archived' },
+  'revert-to-draft': { from: ['published'], to: 'draft' },
+};
+
+/** Audit event written for each transition */
+export const TRANSITION_AUDIT_EVENTS: Record<RouteTransition, string> = {
+  publish: 'route.published',
+  start: 'route.started',
+  complete: 'route.completed',
+  archive: 'route.archived',
+  'revert-to-draft': 'route.unpublished',
+};
+
+/**
+ * The route fields a transition reads or stamps
+ */
+export interface TransitionableRoute {
+  status: RouteStatus;
+  name?: string;
+  date?: string;
+  waypoints?: unknown[];
+  publishedAt?: string;
+  startedAt?: string;
+  completedAt?: string;
+  actualDuration?: number;
+}
+
+export type RouteTransitionCheck =
+  | { ok: true; to: RouteStatus }
+  | { ok: false; httpStatus: number; code: RouteTransitionErrorCode; message: string };
+
+export function isRouteTransition(value: unknown): value is RouteTransition {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(ROUTE_TRANSITIONS, value);
+}
+
+/**
+ * The transition that moves a route between two statuses, if there is one
+ */
+export function findRouteTransition(from: RouteStatus, to: RouteStatus): RouteTransition | null {
+  const match = (Object.entries(ROUTE_TRANSITIONS) as Array<[RouteTransition, { from: RouteStatus[]; to: RouteStatus }]>)
+    .find(([, rule]) => rule.to === to && rule.from.includes(from));
+  return match ? match[0] : null;
+}
+
+/**
+ * Check a transition against the route's current status and contents
+ */
+export function checkRouteTransition(route: TransitionableRoute, transition: string): RouteTransitionCheck {
+  if (!isRouteTransition(transition)) {
+    return {
+      ok: false,
+      httpStatus: 400,
+      code: 'UNKNOWN_TRANSITION',
+      message: `Unknown transition "${transition}". Expected one of: ${Object.keys(ROUTE_TRANSITIONS).join(', ')}`,
+    };
+  }
+
+  const rule = ROUTE_TRANSITIONS[transition];
+  if (!rule.from.includes(route.status)) {
+    return {
+      ok: false,
+      httpStatus: 409,
+      code: 'INVALID_TRANSITION',
+      message: `Cannot ${transition} a route that is ${route.status} (allowed from: ${rule.from.join(', ')})`,
+    };
+  }
+
+  if (transition === 'publish') {
+    const missing = [
+      !route.name?.trim() ? 'a name' : null,
+      !route.date ? 'a date' : null,
+      (route.waypoints?.length ?? 0) < 2 ? 'at least 2 waypoints' : null,
+    ].filter(Boolean);
+    if (missing.length > 0) {
+      return {
+        ok: false,
+        httpStatus: 422,
+        code: 'ROUTE_INCOMPLETE',
+        message: `Route needs ${missing.join(', ')} before it can be published`,
+      };
+    }
+  }
+
+  return { ok: true, to: rule.to };
+}
+
+/**
+ * Apply a checked transition, stamping its timestamp with the server clock
+ */
+export function applyRouteTransition<T extends TransitionableRoute>(route: T, transition: RouteTransition, now: Date): T {
+  const at = now.toISOString();
+  const updated: T = { ...route, status: ROUTE_TRANSITIONS[transition].to };
+
+  switch (transition) {
+    case 'publish':
+      updated.publishedAt = at;
+      break;
+    case 'start':
+      updated.startedAt = at;
+      break;
+    case 'complete':
+      updated.completedAt = at;
+      if (route.startedAt) {
+        updated.actualDuration = Math.max(0, Math.floor((now.getTime() - new Date(route.startedAt).getTime()) / 1000));
+      }
+      break;
+    case 'revert-to-draft':
+      updated.publishedAt = undefined;
+      break;
+    case 'archive':
+      break;
+  }
+
+  return updated;
+}
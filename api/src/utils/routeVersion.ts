@@ -0,0 +1,98 @@
+/**
+ * Optimistic concurrency for route edits
+ *
+ * A route's version is its Table Storage ETag. Saves send it back in If-Match,
+ * so two operators planning the same route can't silently overwrite each
+ * other. Only edits to a draft or published route are checked against the
+ * client's version: a PUT that changes the status is a transition with its own
+ * rules, and once a run is underway the navigators' saves are merged instead
+ * (see routeProgress). Every write is still conditional on the version the
+ * server read, so nothing saved in between is lost.
+ */
+
+import type { RouteStatus } from './routeStatus';
+
+export type RouteVersionErrorCode = 'VERSION_REQUIRED' | 'VERSION_CONFLICT';
+
+export type RouteVersionCheck =
+  | { ok: true }
+  | { ok: false; httpStatus: number; code: RouteVersionErrorCode; message: string };
+
+const PLANNING_STATUSES: RouteStatus[] = ['draft', 'published'];
+
+/**
+ * Whether a save is a plan edit that must match the stored version
+ */
+export function isVersionCheckedEdit(storedStatus: RouteStatus, requestedStatus: RouteStatus): boolean {
+  return PLANNING_STATUSES.includes(storedStatus) && requestedStatus === storedStatus;
+}
+
+/**
+ * Check a PUT's If-Match header against the stored route
+ * "*" and unchecked saves skip the comparison, not the conditional write.
+ */
+export function checkRouteVersion(
+  ifMatch: string | null,
+  stored: { status: RouteStatus; version?: string },
+  requestedStatus: RouteStatus
+): RouteVersionCheck {
+  if (!ifMatch) {
+    return {
+      ok: false,
+      httpStatus: 428,
+      code: 'VERSION_REQUIRED',
+      message: 'Send the route version you edited in an If-Match header (or "*" to overwrite)',
+    };
+  }
+
+  if (ifMatch === '*' || !isVersionCheckedEdit(stored.status, requestedStatus)) {
+    return { ok: true };
+  }
+
+  if (ifMatch !== stored.version) {
+    return {
+      ok: false,
+      httpStatus: 412,
+      code: 'VERSION_CONFLICT',
+      message: 'Someone else saved this route since you opened it',
+    };
+  }
+
+  return { ok: true };
+}
+
+export interface VersionConflictBody<T> {
+  error: 'Route version mismatch';
+  code: 'VERSION_CONFLICT';
+  message: string;
+  current: T;
+}
+
+export type ConditionalWriteResult<TResult, TRoute> =
+  | { ok: true; result: TResult }
+  | { ok: false; httpStatus: 412; body: VersionConflictBody<TRoute> };
+
+/**
+ * Run a write made conditional on the version that was read (If-Match)
+ * A 412 from storage means another save landed in between; it becomes a
+ * VERSION_CONFLICT carrying the route as it is now, so the client can show
+ * what changed. Any other error is rethrown.
+ */
+export async function writeIfUnchanged<TResult, TRoute>(
+  write: () => Promise<TResult>,
+  loadCurrent: () => Promise<TRoute>,
+  message: string = 'Someone else saved this route since you opened it'
+): Promise<ConditionalWriteResult<TResult, TRoute>> {
+  try {
+    return { ok: true, result: await write() };
+  } catch (error) {
+    if ((error as { statusCode?: number } | null)?.statusCode !== 412) {
+      throw error;
+    }
+    return {
+      ok: false,
+      httpStatus: 412,
+      body: { error: 'Route version mismatch', code: 'VERSION_CONFLICT', message, current: await loadCurrent() },
+    };
+  }
+}
@@ -0,0 +1,99 @@
+/**
+ * Site owner access
+ *
+ * Site owners look after the whole service (verification reviews, audit logs)
+ * rather than a single brigade. They are granted out of band by adding a row
+ * to the site owners table:
+ * - PartitionKey / RowKey: userId
+ * - permissions: JSON array of SiteOwnerPermission
+ * - isSuperAdmin: holds every permission
+ *
+ * In dev mode the mock user is treated as a super admin so the site owner
+ * tools can be tried locally.
+ */
+
+import type { HttpResponseInit } from '@azure/functions';
+import type { AuthResult } from './auth';
+import { getTableClient, isDevMode } from './storage';
+
+const SITE_OWNERS_TABLE = isDevMode ? 'dev-siteowners' : 'siteowners';
+
+/**
+ * Note: Keep in sync with SiteOwnerPermission in src/types/verification.ts
+ */
+export type SiteOwnerPermission =
+  | 'review_verifications'
+  | 'manage_brigades'
+  | 'view_audit_logs'
+  | 'manage_site_owners'
+  | 'system_settings';
+
+export interface SiteOwnerRecord {
+  userId: string;
+  isSuperAdmin: boolean;
+  permissions: SiteOwnerPermission[];
+}
+
+/**
+ * Check if a site owner holds a permission
+ */
+export function siteOwnerHasPermission(owner: SiteOwnerRecord | null, permission: SiteOwnerPermission): boolean {
+  if (!owner) return false;
+  return owner.isSuperAdmin || owner.permissions.includes(permission);
+}
+
+/**
+ * Look up a user's site owner record (null when they are not a site owner)
+ */
+export async function getSiteOwner(userId: string): Promise<SiteOwnerRecord | null> {
+  if (isDevMode) {
+    return { userId, isSuperAdmin: true, permissions: [] };
+  }
+
+  try {
+    const client = await getTableClient(SITE_OWNERS_TABLE);
+    const entity = await client.getEntity(userId, userId);
+    return {
+      userId,
+      isSuperAdmin: entity.isSuperAdmin === true,
+      permissions: entity.permissions ? JSON.parse(entity.permissions as string) : [],
+    };
+  } catch (error: unknown) {
+    if ((error as { statusCode?: number }).statusCode === 404) {
+      return null;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Check that the caller is a site owner with the given permission, returning
+ * the HTTP response to send when they are not
+ */
+export async function authorizeSiteOwner(
+  authResult: AuthResult,
+  permission: SiteOwnerPermission
+): Promise<{ authorized: true; owner: SiteOwnerRecord } | { authorized: false; response: HttpResponseInit }> {
+  if (!authResult.authenticated || !authResult.userId) {
+    return {
+      authorized: false,
+      response: {
+        status: 401,
+        jsonBody: { error: 'Unauthorized', message: authResult.error || 'Authentication required' },
+      },
+    };
+  }
+
+  const owner = await getSiteOwner(authResult.userId);
+  if (!siteOwnerHasPermission(owner, permission)) {
+    return {
+      authorized: false,
+      response: {
+        status: 403,
+        jsonBody: { error: 'Forbidden', message: `Site owner '${permission}' permission required` },
+      },
+    };
+  }
+
+  return { authorized: true, owner: owner! };
+}
@@ -0,0 +1,401 @@
+/**
+ * Viewer analytics for tracking pages
+ *
+ * Each tracking page open is a viewer session. The page reports `open` once,
+ * `heartbeat` every minute while its Web PubSub connection is up, and `close`
+ * when it is hidden. Sessions are summarised per route into opens, unique
+ * viewers, peak concurrent connections, session length, a viewer timeline and
+ * coarse geography, so brigades can report community engagement. Pages can
+ * report anything, so peak concurrency and the timeline are replaced with the
+ * Web PubSub service's own connection counts (see applyConnectionSamples and
+ * utils/viewerConnections); heartbeats only measure how long pages stay open.
+ *
+ * Nothing identifies a person:
+ * - The browser's random viewer ID is hashed with the route ID, so the same
+ *   browser can't be linked across routes, and the raw ID is never stored
+ * - No IP address or user agent is kept
+ * - Geography is only the time zone, plus the "Santa is near" pin for viewers
+ *   who set one, rounded to a ~5 km grid
+ *
+ * Table layout:
+ * - PartitionKey: routeId
+ * - RowKey: random session ID chosen by the page
+ *
+ * Note: Keep summarizeViewerSessions in sync with src/utils/viewerAnalytics.ts
+ */
+
+import { createHash } from 'crypto';
+import type { InvocationContext } from '@azure/functions';
+import { getTableClient, isDevMode } from './storage';
+import type { ConnectionSample } from './viewerConnections';
+
+const VIEWER_SESSIONS_TABLE = isDevMode ? 'dev-viewersessions' : 'viewersessions';
+
+/** How often an open tracking page reports that it is still connected */
+export const HEARTBEAT_INTERVAL_MS = 60 * 1000;
+
+// Grid the viewer's alert pin is snapped to (about 5 km)
+const AREA_GRID_DEGREES = 0.05;
+
+// Keep the timeline chart to a readable number of points
+const TIMELINE_BUCKET_MS = 5 * 60 * 1000;
+const MAX_TIMELINE_BUCKETS = 288;
+
+const MAX_TIME_ZONES = 10;
+const ID_PATTERN = /^[A-Za-z0-9-]{8,64}$/;
+const TIME_ZONE_PATTERN = /^[A-Za-z_+\-/0-9]{1,64}$/;
+
+export type ViewerEventType = 'open' | 'heartbeat' | 'close';
+
+export interface ViewerEvent {
+  /** Random per page load */
+  sessionId: string;
+  /** Random per browser (hashed before it is stored) */
+  viewerId: string;
+  event: ViewerEventType;
+  /** Opened through the embeddable widget */
+  embed?: boolean;
+  /** IANA time zone, e.g. Australia/Sydney */
+  timeZone?: string;
+  /** [lng, lat] of the viewer's "Santa is near" pin, if they set one */
+  area?: [number, number];
+}
+
+export type ViewerEventValidationResult =
+  | { valid: true; event: ViewerEvent }
+  | { valid: false; error: string };
+
+export interface ViewerSession {
+  sessionId: string;
+  viewerHash: string;
+  openedAt: number;
+  lastSeenAt: number;
+  /** First heartbeat, i.e. when the live connection came up */
+  connectedAt?: number;
+  closed: boolean;
+  embed: boolean;
+  timeZone?: string;
+  area?: [number, number];
+}
+
+export interface ViewerTimelinePoint {
+  /** Start of the bucket (Unix ms) */
+  time: number;
+  /** Sessions connected at any point in the bucket */
+  viewers: number;
+}
+
+export interface RouteViewerAnalytics {
+  routeId: string;
+  opens: number;
+  uniqueViewers: number;
+  embedOpens: number;
+  peakConcurrent: number;
+  peakAt?: number;
+  averageSessionSeconds: number;
+  timeline: ViewerTimelinePoint[];
+  areas: Array<{ location: [number, number]; viewers: number }>;
+  timeZones: Array<{ timeZone: string; viewers: number }>;
+  generatedAt: number;
+}
+
+/**
+ * Validate a viewer event body and copy across only the known fields
+ */
+export function validateViewerEvent(body: unknown): ViewerEventValidationResult {
+  const input = body as Partial<ViewerEvent> | null | undefined;
+
+  if (!input || typeof input.sessionId !== 'string' || !ID_PATTERN.test(input.sessionId)) {
+    return { valid: false, error: 'Invalid sessionId' };
+  }
+  if (typeof input.viewerId !== 'string' || !ID_PATTERN.test(input.viewerId)) {
+    return { valid: false, error: 'Invalid viewerId' };
+  }
+  if (input.event !== 'open' && input.event !== 'heartbeat' && input.event !== 'close') {
+    return { valid: false, error: 'Invalid event. Must be "open", "heartbeat" or "close"' };
+  }
+
+  const event: ViewerEvent = {
+    sessionId: input.sessionId,
+    viewerId: input.viewerId,
+    event: input.event,
+    embed: input.embed === true,
+  };
+
+  if (typeof input.timeZone === 'string' && TIME_ZONE_PATTERN.test(input.timeZone)) {
+    event.timeZone = input.timeZone;
+  }
+
+  const area = input.area;
+  if (
+    Array.isArray(area) && area.length === 2 &&
+    Number.isFinite(area[0]) && Number.isFinite(area[1]) &&
+    Math.abs(area[0]) <= 180 && Math.abs(area[1]) <= 90
+  ) {
+    event.area = roundViewerArea(area);
+  }
+
+  return { valid: true, event };
+}
+
+/**
+ * Hash a browser's viewer ID so it can only be matched within one route
+ */
+export function hashViewerId(routeId: string, viewerId: string): string {
+  return createHash('sha256').update(`${routeId}:${viewerId}`).digest('hex').slice(0, 32);
+}
+
+/**
+ * Snap a location to the coarse analytics grid
+ */
+export function roundViewerArea(location: [number, number]): [number, number] {
+  const snap = (value: number) => Math.round(Math.round(value / AREA_GRID_DEGREES) * AREA_GRID_DEGREES * 100) / 100;
+  return [snap(location[0]), snap(location[1])];
+}
+
+/**
+ * Fold a viewer event into its session (null for the session's first event)
+ */
+export function applyViewerEvent(
+  session: ViewerSession | null,
+  routeId: string,
+  event: ViewerEvent,
+  now: number
+): ViewerSession {
+  const updated: ViewerSession = session
+    ? { ...session, lastSeenAt: Math.max(session.lastSeenAt, now) }
+    : {
+        sessionId: event.sessionId,
+        viewerHash: hashViewerId(routeId, event.viewerId),
+        openedAt: now,
+        lastSeenAt: now,
+        closed: false,
+        embed: event.embed === true,
+      };
+
+  if (event.event === 'heartbeat' && updated.connectedAt === undefined) {
+    updated.connectedAt = now;
+  }
+  if (event.event === 'close') {
+    updated.closed = true;
+  }
+  updated.timeZone = event.timeZone ?? updated.timeZone;
+  updated.area = event.area ?? updated.area;
+  return updated;
+}
+
+/**
+ * When a session's live connection was up, or null if it never connected
+ * An open session is assumed connected until its next heartbeat is due.
+ */
+function connectedInterval(session: ViewerSession, now: number): [number, number] | null {
+  if (session.connectedAt === undefined) {
+    return null;
+  }
+  const end = session.closed
+    ? session.lastSeenAt
+    : Math.min(now, session.lastSeenAt + HEARTBEAT_INTERVAL_MS);
+  return [session.connectedAt, Math.max(end, session.connectedAt)];
+}
+
+function countDistinctViewers<K>(sessions: ViewerSession[], keyOf: (session: ViewerSession) => K | undefined) {
+  const viewersByKey = new Map<string, { key: K; viewers: Set<string> }>();
+  sessions.forEach(session => {
+    const key = keyOf(session);
+    if (key === undefined) return;
+    const id = JSON.stringify(key);
+    const entry = viewersByKey.get(id) ?? { key, viewers: new Set<string>() };
+    entry.viewers.add(session.viewerHash);
+    viewersByKey.set(id, entry);
+  });
+  return Array.from(viewersByKey.values())
+    .map(({ key, viewers }) => ({ key, viewers: viewers.size }))
+    .sort((a, b) => b.viewers - a.viewers);
+}
+
+/**
+ * Summarise a route's viewer sessions
+ */
+export function summarizeViewerSessions(
+  routeId: string,
+  sessions: ViewerSession[],
+  now: number
+): RouteViewerAnalytics {
+  const intervals = sessions
+    .map(session => connectedInterval(session, now))
+    .filter((interval): interval is [number, number] => interval !== null);
+
+  // Sweep the connection starts and ends; at the same instant, ends go first
+  const edges = intervals
+    .flatMap(([start, end]) => [{ time: start, delta: 1 }, { time: end, delta: -1 }])
+    .sort((a, b) => a.time - b.time || a.delta - b.delta);
+  let concurrent = 0;
+  let peakConcurrent = 0;
+  let peakAt: number | undefined;
+  edges.forEach(edge => {
+    concurrent += edge.delta;
+    if (concurrent > peakConcurrent) {
+      peakConcurrent = concurrent;
+      peakAt = edge.time;
+    }
+  });
+
+  const timeline: ViewerTimelinePoint[] = [];
+  if (intervals.length > 0) {
+    const first = Math.min(...intervals.map(([start]) => start));
+    const last = Math.max(...intervals.map(([, end]) => end));
+    const { starts, bucketMs } = timelineBuckets(first, last);
+    starts.forEach(time => {
+      const viewers = intervals.filter(([start, end]) => start < time + bucketMs && end >= time).length;
+      timeline.push({ time, viewers });
+    });
+  }
+
+  const totalSessionMs = sessions.reduce((sum, session) => sum + (session.lastSeenAt - session.openedAt), 0);
+
+  return {
+    routeId,
+    opens: sessions.length,
+    uniqueViewers: new Set(sessions.map(session => session.viewerHash)).size,
+    embedOpens: sessions.filter(session => session.embed).length,
+    peakConcurrent,
+    peakAt,
+    averageSessionSeconds: sessions.length > 0 ? Math.round(totalSessionMs / sessions.length / 1000) : 0,
+    timeline,
+    areas: countDistinctViewers(sessions, session => session.area)
+      .map(({ key, viewers }) => ({ location: key, viewers })),
+    timeZones: countDistinctViewers(sessions, session => session.timeZone)
+      .slice(0, MAX_TIME_ZONES)
+      .map(({ key, viewers }) => ({ timeZone: key, viewers })),
+    generatedAt: now,
+  };
+}
+
+/**
+ * Start of each timeline bucket from `first` to `last`, keeping to MAX_TIMELINE_BUCKETS
+ */
+function timelineBuckets(first: number, last: number): { starts: number[]; bucketMs: number } {
+  const bucketMs = Math.max(
+    TIMELINE_BUCKET_MS,
+    Math.ceil((last - first) / MAX_TIMELINE_BUCKETS / TIMELINE_BUCKET_MS) * TIMELINE_BUCKET_MS
+  );
+  const starts: number[] = [];
+  for (let time = Math.floor(first / bucketMs) * bucketMs; time <= last; time += bucketMs) {
+    starts.push(time);
+  }
+  return { starts, bucketMs };
+}
+
+/**
+ * Take peak concurrency and the timeline from the service's connection samples
+ * Each timeline point is the most viewers sampled in its bucket.
+ */
+export function applyConnectionSamples(
+  summary: RouteViewerAnalytics,
+  samples: ConnectionSample[]
+): RouteViewerAnalytics {
+  const peak = samples.reduce<ConnectionSample | undefined>(
+    (best, sample) => (!best || sample.viewers > best.viewers ? sample : best),
+    undefined
+  );
+
+  const timeline: ViewerTimelinePoint[] = [];
+  if (samples.length > 0) {
+    const { starts, bucketMs } = timelineBuckets(samples[0].time, samples[samples.length - 1].time);
+    starts.forEach(time => {
+      const inBucket = samples.filter(sample => sample.time >= time && sample.time < time + bucketMs);
+      timeline.push({ time, viewers: Math.max(0, ...inBucket.map(sample => sample.viewers)) });
+    });
+  }
+
+  return {
+    ...summary,
+    peakConcurrent: peak?.viewers ?? 0,
+    peakAt: peak && peak.viewers > 0 ? peak.time : undefined,
+    timeline,
+  };
+}
+
+function entityToViewerSession(entity: Record<string, unknown>): ViewerSession {
+  return {
+    sessionId: entity.rowKey as string,
+    viewerHash: entity.viewerHash as string,
+    openedAt: entity.openedAt as number,
+    lastSeenAt: entity.lastSeenAt as number,
+    connectedAt: (entity.connectedAt as number | undefined) ?? undefined,
+    closed: entity.closed === true,
+    embed: entity.embed === true,
+    timeZone: (entity.timeZone as string) || undefined,
+    area: typeof entity.areaLng === 'number' && typeof entity.areaLat === 'number'
+      ? [entity.areaLng, entity.areaLat]
+      : undefined,
+  };
+}
+
+/**
+ * Record a tracking page's event against its session
+ */
+export async function recordViewerEvent(routeId: string, event: ViewerEvent, now: number = Date.now()): Promise<ViewerSession> {
+  const client = await getTableClient(VIEWER_SESSIONS_TABLE);
+
+  let existing: ViewerSession | null = null;
+  try {
+    existing = entityToViewerSession(await client.getEntity(routeId, event.sessionId));
+  } catch (error: unknown) {
+    if ((error as { statusCode?: number }).statusCode !== 404) {
+      throw error;
+    }
+  }
+
+  // Heartbeats and closes for a session we never saw open start it now
+  const session = applyViewerEvent(existing, routeId, event, now);
+  await client.upsertEntity({
+    partitionKey: routeId,
+    rowKey: session.sessionId,
+    viewerHash: session.viewerHash,
+    openedAt: session.openedAt,
+    lastSeenAt: session.lastSeenAt,
+    // Optional fields are left undefined so they are omitted from the entity
+    connectedAt: session.connectedAt,
+    closed: session.closed,
+    embed: session.embed,
+    timeZone: session.timeZone,
+    areaLng: session.area?.[0],
+    areaLat: session.area?.[1],
+  }, 'Replace');
+
+  return session;
+}
+
+/**
+ * Read every viewer session for a route
+ */
+export async function listViewerSessions(routeId: string): Promise<ViewerSession[]> {
+  const client = await getTableClient(VIEWER_SESSIONS_TABLE);
+  const entities = client.listEntities({
+    queryOptions: { filter: `PartitionKey eq '${routeId.replace(/'/g, "''")}'` }
+  });
+
+  const sessions: ViewerSession[] = [];
+  for await (const entity of entities) {
+    sessions.push(entityToViewerSession(entity));
+  }
+  return sessions;
+}
+
+/**
+ * Delete a route's viewer sessions (best-effort)
+ */
+export async function purgeViewerSessions(routeId: string, context: InvocationContext): Promise<void> {
+  try {
+    const client = await getTableClient(VIEWER_SESSIONS_TABLE);
+    const entities = client.listEntities({
+      queryOptions: { filter: `PartitionKey eq '${routeId.replace(/'/g, "''")}'`, select: ['PartitionKey', 'RowKey'] }
+    });
+    for await (const entity of entities) {
+      await client.deleteEntity(entity.partitionKey!, entity.rowKey!);
+    }
+  } catch (error) {
+    context.warn(`Failed to purge viewer sessions for route ${routeId}:`, error);
+  }
+}
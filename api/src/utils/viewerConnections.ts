@@ -0,0 +1,123 @@
+/**
+ * Live viewer counts from the Web PubSub service
+ *
+ * While a route is active, broadcasts sample the route's tracking group once a
+ * minute with the service's own connection list, rather than trusting what
+ * tracking pages report about themselves. Broadcaster connections carry the
+ * operator's user ID (see utils/pubsubToken) and viewers connect anonymously,
+ * so the viewers are the connections without one.
+ *
+ * Each sample records how many viewers were connected, and every viewer
+ * connection seen is recorded once, so a route's view count is the number of
+ * live connections the service actually held, not a number of page reports.
+ *
+ * Table layout:
+ * - PartitionKey: routeId
+ * - RowKey: `sample_{time}` ({ viewers }) or `conn_{connectionId}` ({ lastSeenAt })
+ */
+
+import type { InvocationContext } from '@azure/functions';
+import { getTableClient, isDevMode } from './storage';
+
+const VIEWER_CONNECTIONS_TABLE = isDevMode ? 'dev-viewerconnections' : 'viewerconnections';
+
+/** How often a route's connections are sampled while it is broadcasting */
+export const CONNECTION_SAMPLE_INTERVAL_MS = 60 * 1000;
+
+// Table Storage limit for operations in one transaction
+const MAX_TRANSACTION_SIZE = 100;
+
+// Zero-padded so samples sort by time
+const SAMPLE_TIME_DIGITS = 15;
+
+export interface GroupConnection {
+  connectionId: string;
+  userId?: string;
+}
+
+export interface ConnectionSample {
+  /** When the sample was taken (Unix ms) */
+  time: number;
+  /** Viewer connections in the route's tracking group */
+  viewers: number;
+}
+
+export interface ViewerConnectionCounts {
+  samples: ConnectionSample[];
+  /** Distinct viewer connections seen across every sample */
+  connections: number;
+}
+
+function partitionFilter(routeId: string): string {
+  return `PartitionKey eq '${routeId.replace(/'/g, "''")}'`;
+}
+
+/**
+ * Record one sample of a route's tracking group
+ * Returns the number of viewer connections in it.
+ */
+export async function recordConnectionSample(
+  routeId: string,
+  members: GroupConnection[],
+  now: number = Date.now()
+): Promise<number> {
+  const viewers = members.filter(member => !member.userId);
+  const client = await getTableClient(VIEWER_CONNECTIONS_TABLE);
+
+  await client.upsertEntity({
+    partitionKey: routeId,
+    rowKey: `sample_${String(now).padStart(SAMPLE_TIME_DIGITS, '0')}`,
+    time: now,
+    viewers: viewers.length,
+  }, 'Replace');
+
+  for (let i = 0; i < viewers.length; i += MAX_TRANSACTION_SIZE) {
+    await client.submitTransaction(viewers.slice(i, i + MAX_TRANSACTION_SIZE).map(viewer => [
+      'upsert',
+      { partitionKey: routeId, rowKey: `conn_${viewer.connectionId}`, lastSeenAt: now },
+      'Merge',
+    ]));
+  }
+
+  return viewers.length;
+}
+
+/**
+ * Read a route's samples (oldest first) and its distinct viewer connections
+ */
+export async function listViewerConnectionCounts(routeId: string): Promise<ViewerConnectionCounts> {
+  const client = await getTableClient(VIEWER_CONNECTIONS_TABLE);
+  const entities = client.listEntities({
+    queryOptions: { filter: partitionFilter(routeId), select: ['RowKey', 'time', 'viewers'] }
+  });
+
+  const samples: ConnectionSample[] = [];
+  let connections = 0;
+  for await (const entity of entities) {
+    const rowKey = entity.rowKey as string;
+    if (rowKey.startsWith('sample_')) {
+      samples.push({ time: entity.time as number, viewers: entity.viewers as number });
+    } else if (rowKey.startsWith('conn_')) {
+      connections++;
+    }
+  }
+
+  return { samples: samples.sort((a, b) => a.time - b.time), connections };
+}
+
+/**
+ * Delete a route's samples and connections (best-effort)
+ */
+export async function purgeViewerConnections(routeId: string, context: InvocationContext): Promise<void> {
+  try {
+    const client = await getTableClient(VIEWER_CONNECTIONS_TABLE);
+    const entities = client.listEntities({
+      queryOptions: { filter: partitionFilter(routeId), select: ['PartitionKey', 'RowKey'] }
+    });
+    for await (const entity of entities) {
+      await client.deleteEntity(entity.partitionKey!, entity.rowKey!);
+    }
+  } catch (error) {
+    context.warn(`Failed to purge viewer connections for route ${routeId}:`, error);
+  }
+}
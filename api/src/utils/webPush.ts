@@ -0,0 +1,192 @@
+/**
+ * Web Push delivery (RFC 8030) with VAPID authentication (RFC 8292) and
+ * aes128gcm payload encryption (RFC 8188 / RFC 8291), using node:crypto only.
+ *
+ * VAPID keys come from the environment:
+ * - VAPID_PUBLIC_KEY: uncompressed P-256 public key, base64url (65 bytes)
+ * - VAPID_PRIVATE_KEY: P-256 private key, base64url (32 bytes)
+ * - VAPID_SUBJECT: contact for the push service, e.g. mailto:admin@example.org
+ *
+ * Keys in this format can be generated with `npx web-push generate-vapid-keys`.
+ */
+
+import { createECDH, createPrivateKey, createCipheriv, hkdfSync, randomBytes, sign } from 'crypto';
+
+// One record holds the whole payload; push services accept up to 4096 bytes
+const RECORD_SIZE = 4096;
+const MAX_PAYLOAD_BYTES = 3993;
+
+// Push service JWTs may be valid for at most 24 hours
+const VAPID_TOKEN_TTL_SECONDS = 12 * 60 * 60;
+
+// A push service that hasn't answered by now is given up on
+export const PUSH_REQUEST_TIMEOUT_MS = 10_000;
+
+// Pushes in flight at once when alerting many subscribers
+export const MAX_CONCURRENT_PUSHES = 10;
+
+export interface VapidConfig {
+  publicKey: string;
+  privateKey: string;
+  subject: string;
+}
+
+export interface PushSubscriptionKeys {
+  p256dh: string;
+  auth: string;
+}
+
+export interface PushTarget {
+  endpoint: string;
+  keys: PushSubscriptionKeys;
+}
+
+export interface PushResult {
+  statusCode: number;
+  /** The subscription no longer exists and should be deleted */
+  gone: boolean;
+}
+
+/**
+ * VAPID configuration from the environment (null when push is not configured)
+ */
+export function getVapidConfig(env: NodeJS.ProcessEnv = process.env): VapidConfig | null {
+  const { VAPID_PUBLIC_KEY, VAPID_PRIVATE_KEY, VAPID_SUBJECT } = env;
+  if (!VAPID_PUBLIC_KEY || !VAPID_PRIVATE_KEY || !VAPID_SUBJECT) {
+    return null;
+  }
+  return { publicKey: VAPID_PUBLIC_KEY, privateKey: VAPID_PRIVATE_KEY, subject: VAPID_SUBJECT };
+}
+
+function hkdf(salt: Buffer, ikm: Buffer, info: Buffer, length: number): Buffer {
+  return Buffer.from(hkdfSync('sha256', ikm, salt, info, length));
+}
+
+/**
+ * Encrypt a payload for a subscription (aes128gcm content encoding, single record)
+ */
+export function encryptPushPayload(
+  payload: string | Buffer,
+  keys: PushSubscriptionKeys,
+  salt: Buffer = randomBytes(16)
+): Buffer {
+  const plaintext = Buffer.isBuffer(payload) ? payload : Buffer.from(payload, 'utf8');
+  if (plaintext.length > MAX_PAYLOAD_BYTES) {
+    throw new Error(`Push payload too large (${plaintext.length} bytes, max ${MAX_PAYLOAD_BYTES})`);
+  }
+
+  const userAgentPublicKey = Buffer.from(keys.p256dh, 'base64url');
+  const authSecret = Buffer.from(keys.auth, 'base64url');
+
+  // A fresh key pair per message (RFC 8291 section 3.1)
+  const serverKeys = createECDH('prime256v1');
+  const serverPublicKey = serverKeys.generateKeys();
+  const sharedSecret = serverKeys.computeSecret(userAgentPublicKey);
+
+  // RFC 8291 section 3.4: combine the ECDH secret with the subscription's auth secret
+  const keyInfo = Buffer.concat([Buffer.from('WebPush: info\0'), userAgentPublicKey, serverPublicKey]);
+  const ikm = hkdf(authSecret, sharedSecret, keyInfo, 32);
+
+  const contentKey = hkdf(salt, ikm, Buffer.from('Content-Encoding: aes128gcm\0'), 16);
+  const nonce = hkdf(salt, ikm, Buffer.from('Content-Encoding: nonce\0'), 12);
+
+  // A single (last) record: payload followed by the 0x02 delimiter
+  const cipher = createCipheriv('aes-128-gcm', contentKey, nonce);
+  const ciphertext = Buffer.concat([
+    cipher.update(Buffer.concat([plaintext, Buffer.from([2])])),
+    cipher.final(),
+    cipher.getAuthTag(),
+  ]);
+
+  const header = Buffer.alloc(16 + 4 + 1);
+  salt.copy(header, 0);
+  header.writeUInt32BE(RECORD_SIZE, 16);
+  header.writeUInt8(serverPublicKey.length, 20);
+
+  return Buffer.concat([header, serverPublicKey, ciphertext]);
+}
+
+/**
+ * Authorization header value for a push service (vapid scheme)
+ */
+export function createVapidAuthorization(
+  endpoint: string,
+  vapid: VapidConfig,
+  now: number = Date.now()
+): string {
+  const publicKey = Buffer.from(vapid.publicKey, 'base64url');
+  if (publicKey.length !== 65 || publicKey[0] !== 4) {
+    throw new Error('VAPID_PUBLIC_KEY must be an uncompressed P-256 public key');
+  }
+
+  const key = createPrivateKey({
+    key: {
+      kty: 'EC',
+      crv: 'P-256',
+      d: vapid.privateKey,
+      x: publicKey.subarray(1, 33).toString('base64url'),
+      y: publicKey.subarray(33, 65).toString('base64url'),
+    },
+    format: 'jwk',
+  });
+
+  const encode = (value: object) => Buffer.from(JSON.stringify(value)).toString('base64url');
+  const unsigned = `${encode({ typ: 'JWT', alg: 'ES256' })}.${encode({
+    aud: new URL(endpoint).origin,
+    exp: Math.floor(now / 1000) + VAPID_TOKEN_TTL_SECONDS,
+    sub: vapid.subject,
+  })}`;
+  const signature = sign('sha256', Buffer.from(unsigned), { key, dsaEncoding: 'ieee-p1363' });
+
+  return `vapid t=${unsigned}.${signature.toString('base64url')}, k=${vapid.publicKey}`;
+}
+
+/**
+ * Send an encrypted notification to a subscription
+ *
+ * @param ttlSeconds - How long the push service should hold the message for an offline device
+ */
+export async function sendWebPush(
+  target: PushTarget,
+  payload: string,
+  vapid: VapidConfig,
+  ttlSeconds: number = 300
+): Promise<PushResult> {
+  const response = await fetch(target.endpoint, {
+    method: 'POST',
+    headers: {
+      'Authorization': createVapidAuthorization(target.endpoint, vapid),
+      'Content-Encoding': 'aes128gcm',
+      'Content-Type': 'application/octet-stream',
+      'TTL': String(ttlSeconds),
+      'Urgency': 'high',
+    },
+    body: new Uint8Array(encryptPushPayload(payload, target.keys)),
+    signal: AbortSignal.timeout(PUSH_REQUEST_TIMEOUT_MS),
+  });
+
+  return {
+    statusCode: response.status,
+    gone: response.status === 404 || response.status === 410,
+  };
+}
+
+/**
+ * Run a task for every item with at most `limit` running at once
+ * Tasks should handle their own errors; the first rejection rejects the whole run.
+ * Once `signal` aborts no new tasks are started, and the run ends when those in flight do.
+ */
+export async function forEachConcurrently<T>(
+  items: T[],
+  limit: number,
+  task: (item: T) => Promise<void>,
+  signal?: AbortSignal
+): Promise<void> {
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length && !signal?.aborted) {
+      await task(items[next++]);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+}
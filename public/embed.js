@@ -0,0 +1,50 @@
+/**
+ * Santa Tracker Embed Script
+ *
+ * Turns each <div data-santa-route="..."> on a brigade's website into a live
+ * tracking map. The embed code generator in the share panel writes the markup:
+ *
+ *   <div data-santa-route="route-id" data-width="100%" data-height="450"></div>
+ *   <script src="https://<app>/embed.js" async></script>
+ *
+ * Optional attributes: data-header="0", data-progress="0" and data-controls="0"
+ * hide the header, hide the progress card and lock the map. Keep the attribute
+ * names in sync with src/utils/embed.ts.
+ */
+
+(function () {
+  const script = document.currentScript;
+  const origin = script && script.src ? new URL(script.src).origin : window.location.origin;
+  const flags = ['header', 'progress', 'controls'];
+
+  function mount(container) {
+    if (container.getAttribute('data-santa-mounted') === 'true') return;
+
+    const routeId = container.getAttribute('data-santa-route');
+    if (!routeId) return;
+
+    const params = new URLSearchParams();
+    flags.forEach((flag) => {
+      const value = container.getAttribute('data-' + flag);
+      if (value !== null) {
+        params.set(flag, value === '0' || value === 'false' ? '0' : '1');
+      }
+    });
+    const query = params.toString();
+
+    const height = parseInt(container.getAttribute('data-height') || '450', 10);
+    const iframe = document.createElement('iframe');
+    iframe.src = origin + '/embed/' + encodeURIComponent(routeId) + (query ? '?' + query : '');
+    iframe.width = container.getAttribute('data-width') || '100%';
+    iframe.height = String(Math.min(1200, Math.max(250, isNaN(height) ? 450 : height)));
+    iframe.title = container.getAttribute('data-title') || 'Track Santa';
+    iframe.loading = 'lazy';
+    iframe.allowFullscreen = true;
+    iframe.style.border = '0';
+
+    container.appendChild(iframe);
+    container.setAttribute('data-santa-mounted', 'true');
+  }
+
+  document.querySelectorAll('[data-santa-route]').forEach(mount);
+})();
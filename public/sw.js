@@ -0,0 +1,244 @@
+/**
+ * Fire Santa Run Service Worker
+ *
+ * - Precaches the app shell and every script and stylesheet of the build, so
+ *   the navigator can reopen the app without coverage
+ * - Serves Mapbox styles and vector tiles from the per-route offline caches
+ *   written by "Prepare for offline" on the route detail page
+ *   (see src/utils/offlineTiles.ts)
+ * - Shows "Santa is near" push alerts for viewers who asked to be notified
+ *   (see src/utils/nearbyAlerts.ts)
+ *
+ * Plain JavaScript served from /sw.js so it can control the whole origin.
+ * API requests are never cached.
+ */
+
+// This build's version and every hashed file under /assets, written in by
+// vite.config.ts (swPrecacheManifest). Left as a placeholder when served unbuilt.
+const BUILD_MANIFEST = { version: 'dev', assets: [] };
+
+// One shell cache per build; older ones (and their hashed assets) go on activate
+const SHELL_CACHE = `santa-shell-${BUILD_MANIFEST.version}`;
+const MAPBOX_ASSETS_CACHE = 'santa-mapbox-assets';
+
+const SHELL_URLS = ['/index.html', '/manifest.json', '/og-image.svg', '/vite.svg'];
+
+const MAPBOX_HOSTS = /(^|\.)tiles\.mapbox\.com$|^api\.mapbox\.com$/;
+
+/**
+ * Cache key for a Mapbox request, ignoring the access token and billing
+ * session (sku) so tiles cached by the page match the map's own requests.
+ * Keep in sync with normalizeMapboxUrl in src/utils/offlineTiles.ts.
+ */
+function normalizeMapboxUrl(url) {
+  const parsed = new URL(url);
+  parsed.protocol = 'https:';
+  parsed.host = 'api.mapbox.com';
+  parsed.searchParams.delete('access_token');
+  parsed.searchParams.delete('sku');
+  parsed.searchParams.sort();
+  return parsed.toString();
+}
+
+// Sprites, glyphs and the style itself are small and shared by every map
+function isMapboxStyleAsset(url) {
+  return url.pathname.startsWith('/styles/v1/') || url.pathname.startsWith('/fonts/v1/');
+}
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(
+    caches.open(SHELL_CACHE)
+      .then((cache) => cache.addAll([...SHELL_URLS, ...BUILD_MANIFEST.assets]))
+      .then(() => self.skipWaiting())
+  );
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches.keys()
+      .then((names) => Promise.all(
+        names
+          .filter((name) => name.startsWith('santa-shell-') && name !== SHELL_CACHE)
+          .map((name) => caches.delete(name))
+      ))
+      .then(pruneStaleAssets)
+      .then(() => self.clients.claim())
+  );
+});
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  if (request.method !== 'GET') {
+    return;
+  }
+
+  const url = new URL(request.url);
+
+  if (MAPBOX_HOSTS.test(url.hostname)) {
+    event.respondWith(handleMapboxRequest(event, url));
+    return;
+  }
+
+  if (url.origin !== self.location.origin || url.pathname.startsWith('/api/')) {
+    return;
+  }
+
+  if (request.mode === 'navigate') {
+    event.respondWith(handleNavigation(request));
+    return;
+  }
+
+  // Vite emits content-hashed files under /assets, so a cached copy never goes stale
+  if (url.pathname.startsWith('/assets/')) {
+    event.respondWith(cacheFirst(request, SHELL_CACHE));
+    return;
+  }
+
+  if (SHELL_URLS.includes(url.pathname)) {
+    event.respondWith(networkFirst(request, SHELL_CACHE));
+  }
+});
+
+self.addEventListener('push', (event) => {
+  if (!event.data) {
+    return;
+  }
+
+  let alert;
+  try {
+    alert = event.data.json();
+  } catch {
+    return;
+  }
+
+  event.waitUntil(
+    self.registration.showNotification(alert.title, {
+      body: alert.body,
+      tag: alert.tag,
+      icon: '/og-image.svg',
+      requireInteraction: true,
+      data: { url: alert.url, unsubscribeUrl: alert.unsubscribeUrl },
+      actions: alert.unsubscribeUrl ? [{ action: 'unsubscribe', title: 'Stop alerts' }] : [],
+    })
+  );
+});
+
+self.addEventListener('notificationclick', (event) => {
+  const { url, unsubscribeUrl } = event.notification.data || {};
+  event.notification.close();
+
+  // "Stop alerts" opens the tracking page, which turns the alert off and confirms it
+  const target = event.action === 'unsubscribe' ? unsubscribeUrl : url;
+  if (target) {
+    event.waitUntil(openOrFocus(target));
+  }
+});
+
+/**
+ * Focus an open tab already showing the URL, or open a new one
+ */
+async function openOrFocus(url) {
+  const target = new URL(url, self.location.origin);
+  const windows = await self.clients.matchAll({ type: 'window', includeUncontrolled: true });
+  const existing = windows.find((client) => client.url === target.href);
+  if (existing) {
+    return existing.focus();
+  }
+  return self.clients.openWindow(target.href);
+}
+
+/**
+ * Drop hashed assets this build doesn't use from the shell cache
+ * (e.g. chunks cached on demand before the build was replaced)
+ */
+async function pruneStaleAssets() {
+  const cache = await caches.open(SHELL_CACHE);
+  const current = new Set(BUILD_MANIFEST.assets);
+  const requests = await cache.keys();
+  await Promise.all(
+    requests
+      .filter((request) => {
+        const { pathname } = new URL(request.url);
+        return pathname.startsWith('/assets/') && !current.has(pathname);
+      })
+      .map((request) => cache.delete(request))
+  );
+}
+
+/**
+ * Network first for page loads, falling back to the app shell precached for this build
+ * Page responses are never cached: some paths (like "/") serve other pages than
+ * the SPA shell, and the shell must match this build's assets.
+ */
+async function handleNavigation(request) {
+  try {
+    return await fetch(request);
+  } catch (error) {
+    const shell = await (await caches.open(SHELL_CACHE)).match('/index.html');
+    if (shell) {
+      return shell;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Serve Mapbox requests from the offline caches when available
+ * Tiles are only cached by "Prepare for offline". Style assets are also cached
+ * as the map loads them, and refreshed in the background when served from cache.
+ */
+async function handleMapboxRequest(event, url) {
+  const { request } = event;
+  const cacheKey = normalizeMapboxUrl(request.url);
+  const styleAsset = isMapboxStyleAsset(url);
+
+  const fetchAndCache = async () => {
+    const response = await fetch(request);
+    if (response.ok && styleAsset) {
+      const cache = await caches.open(MAPBOX_ASSETS_CACHE);
+      await cache.put(cacheKey, response.clone());
+    }
+    return response;
+  };
+
+  const cached = await caches.match(cacheKey);
+  if (cached) {
+    if (styleAsset) {
+      event.waitUntil(fetchAndCache().catch(() => undefined));
+    }
+    return cached;
+  }
+
+  return fetchAndCache();
+}
+
+async function cacheFirst(request, cacheName) {
+  const cached = await caches.match(request);
+  if (cached) {
+    return cached;
+  }
+
+  const response = await fetch(request);
+  if (response.ok) {
+    const cache = await caches.open(cacheName);
+    cache.put(request, response.clone());
+  }
+  return response;
+}
+
+async function networkFirst(request, cacheName) {
+  try {
+    const response = await fetch(request);
+    if (response.ok) {
+      const cache = await caches.open(cacheName);
+      cache.put(request, response.clone());
+    }
+    return response;
+  } catch (error) {
+    const cached = await caches.match(request);
+    if (cached) {
+      return cached;
+    }
+    throw error;
+  }
+}
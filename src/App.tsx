@@ -1,9 +1,11 @@
 import { useEffect, useState, lazy, Suspense } from 'react';
-import { BrowserRouter, Routes, Route, Navigate, useNavigate, Link } from 'react-router-dom';
+import { BrowserRouter, Routes, Route, Navigate, useNavigate, useParams, useSearchParams, Link } from 'react-router-dom';
 import './App.css';
 import { useAuth, useBrigade } from './context';
 import { storageAdapter } from './storage';
 import { initializeMockData } from './utils/mockData';
+import { hasPendingNavigatorUpdates, loadCachedNavigationRoute } from './utils/navigatorOutbox';
+import { parseEmbedOptions } from './utils/embed';
 import { useRoutes } from './hooks';
 import { ProtectedRoute } from './components';
 import type { Route as RouteType } from './types';
@@ -14,10 +16,13 @@ const Dashboard = lazy(() => import('./pages').then(m => ({ default: m.Dashboard
 const RouteEditor = lazy(() => import('./pages').then(m => ({ default: m.RouteEditor })));
 const NavigationView = lazy(() => import('./pages').then(m => ({ default: m.NavigationView })));
 const TrackingView = lazy(() => import('./pages').then(m => ({ default: m.TrackingView })));
+const BrigadePage = lazy(() => import('./pages').then(m => ({ default: m.BrigadePage })));
+const EventPage = lazy(() => import('./pages').then(m => ({ default: m.EventPage })));
 const RouteDetail = lazy(() => import('./pages').then(m => ({ default: m.RouteDetail })));
 const ProfilePage = lazy(() => import('./pages').then(m => ({ default: m.ProfilePage })));
 const BrigadeClaimingPage = lazy(() => import('./pages').then(m => ({ default: m.BrigadeClaimingPage })));
 const MemberManagementPage = lazy(() => import('./pages').then(m => ({ default: m.MemberManagementPage })));
+const AuditLogPage = lazy(() => import('./pages').then(m => ({ default: m.AuditLogPage })));
 const InvitationAcceptancePage = lazy(() => import('./pages').then(m => ({ default: m.InvitationAcceptancePage })));
 const LogoutPage = lazy(() => import('./pages').then(m => ({ default: m.LogoutPage })));
 const CallbackPage = lazy(() => import('./pages').then(m => ({ default: m.CallbackPage })));
@@ -93,6 +98,10 @@ function App() {
             {/* Public Routes */}
             <Route path="/" element={<LandingPage />} />
             <Route path="/track/:id" element={<TrackingViewWrapper />} />
+            <Route path="/embed/:id" element={<EmbedViewWrapper />} />
+            <Route path="/b/:slug" element={<BrigadePageWrapper />} />
+            <Route path="/events/:id" element={<EventPageWrapper />} />
+            <Route path="/events/:id/tonight" element={<EventPageWrapper redirectToTonight />} />
             
             {/* Authentication Routes */}
             <Route path="/login" element={<Navigate to={`/${window.location.search}`} replace />} />
@@ -120,6 +129,11 @@ function App() {
                 <MemberManagementPage />
               </ProtectedRoute>
             } />
+            <Route path="/audit" element={
+              <ProtectedRoute>
+                <AuditLogPage />
+              </ProtectedRoute>
+            } />
             <Route path="/dashboard" element={
               <ProtectedRoute>
                 <Dashboard />
@@ -168,6 +182,7 @@ function RouteEditorWrapper() {
 // Wrapper for Navigation View
 function NavigationViewWrapper() {
   const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
   const pathSegments = window.location.pathname.split('/');
   const routeId = pathSegments[pathSegments.length - 2]; // /routes/:id/navigate
   const { getRoute } = useRoutes();
@@ -175,7 +190,23 @@ function NavigationViewWrapper() {
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
-    getRoute(routeId).then(r => {
+    const loadRoute = async (): Promise<RouteType | null> => {
+      // Offline, or mid-run with unsynced updates: the cached route is the freshest copy
+      const cached = loadCachedNavigationRoute(routeId);
+      if (cached && (!navigator.onLine || hasPendingNavigatorUpdates(routeId))) {
+        return cached;
+      }
+
+      try {
+        return await getRoute(routeId);
+      } catch (error) {
+        // Lost coverage after the route was cached: keep navigating from the cache
+        console.error('Failed to load route, using cached copy if available:', error);
+        return cached;
+      }
+    };
+
+    loadRoute().then(r => {
       setRoute(r);
       setLoading(false);
     });
@@ -201,9 +232,16 @@ function NavigationViewWrapper() {
     );
   }
 
+  // Dev mode: ?simulate drives the route virtually (optionally ?simulate=<km/h>)
+  const simulateParam = searchParams.get('simulate');
+  const simulation = import.meta.env.VITE_DEV_MODE === 'true' && simulateParam !== null
+    ? { speedKmh: Number(simulateParam) > 0 ? Number(simulateParam) : undefined }
+    : undefined;
+
   return (
     <NavigationView
       route={route}
+      simulation={simulation}
       onExit={() => {
         navigate('/dashboard');
       }}
@@ -230,6 +268,28 @@ function TrackingViewWrapper() {
   return <TrackingView routeId={routeId} />;
 }
 
+// Wrapper for the embeddable tracking widget (framed by brigade websites)
+function EmbedViewWrapper() {
+  const { id } = useParams<{ id: string }>();
+  const [searchParams] = useSearchParams();
+  
+  return <TrackingView key={id} routeId={id ?? ''} embed={parseEmbedOptions(searchParams)} />;
+}
+
+// Wrapper for the public brigade page
+function BrigadePageWrapper() {
+  const { slug } = useParams<{ slug: string }>();
+  
+  return <BrigadePage key={slug} slug={slug ?? ''} />;
+}
+
+// Wrapper for the public event page and its stable "tonight" link
+function EventPageWrapper({ redirectToTonight = false }: { redirectToTonight?: boolean }) {
+  const { id } = useParams<{ id: string }>();
+  
+  return <EventPage key={id} eventId={id ?? ''} redirectToTonight={redirectToTonight} />;
+}
+
 // 404 Page
 function NotFound() {
   return (
@@ -1,5 +1,5 @@
 import { useState, useCallback, useRef, useEffect } from 'react';
-import { searchAddress, type GeocodingResult } from '../utils/mapbox';
+import { geocodingProvider, type GeocodingResult } from '../routing';
 
 export interface AddressSearchProps {
   onSelect: (result: GeocodingResult) => void;
@@ -37,7 +37,7 @@ export function AddressSearch({
     setError(null);
 
     try {
-      const searchResults = await searchAddress(searchQuery, proximity);
+      const searchResults = await geocodingProvider.searchAddress(searchQuery, proximity);
       setResults(searchResults);
       setIsOpen(true);
     } catch (err) {
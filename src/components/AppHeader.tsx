@@ -257,6 +257,14 @@ export function AppHeader({ show = true }: AppHeaderProps) {
                     onClick={() => setMenuOpen(false)}
                   />
                 )}
+                {brigade && (
+                  <MenuLink
+                    to="/audit"
+                    icon="🧾"
+                    label="Audit Log"
+                    onClick={() => setMenuOpen(false)}
+                  />
+                )}
                 <MenuLink
                   to="/brigades/claim"
                   icon="🚒"
@@ -0,0 +1,61 @@
+/**
+ * EditorPresenceBar component
+ * Shows the other brigade members who have the same route open in the editor
+ */
+
+import type { EditorPresence } from '../utils/collaboration';
+
+export interface EditorPresenceBarProps {
+  peers: EditorPresence[];
+}
+
+function initials(name: string): string {
+  const parts = name.split(/[\s@.]+/).filter(Boolean);
+  return ((parts[0]?.[0] ?? '') + (parts[1]?.[0] ?? '')).toUpperCase() || '?';
+}
+
+export function EditorPresenceBar({ peers }: EditorPresenceBarProps) {
+  if (peers.length === 0) {
+    return null;
+  }
+
+  const names = peers.map(peer => peer.name).join(', ');
+
+  return (
+    <div
+      role="status"
+      aria-label={`Also editing: ${names}`}
+      title={`Also editing: ${names}`}
+      style={{ display: 'flex', alignItems: 'center', gap: '0.375rem', fontSize: '0.8125rem', color: '#616161' }}
+    >
+      <span aria-hidden="true">👥</span>
+      <div style={{ display: 'flex' }}>
+        {peers.map((peer, index) => (
+          <span
+            key={peer.sessionId}
+            aria-hidden="true"
+            style={{
+              width: '28px',
+              height: '28px',
+              marginLeft: index === 0 ? 0 : '-6px',
+              borderRadius: '50%',
+              border: '2px solid white',
+              backgroundColor: peer.color,
+              color: 'white',
+              display: 'flex',
+              alignItems: 'center',
+              justifyContent: 'center',
+              fontSize: '0.6875rem',
+              fontWeight: 700,
+            }}
+          >
+            {initials(peer.name)}
+          </span>
+        ))}
+      </div>
+      <span style={{ whiteSpace: 'nowrap' }}>
+        {peers.length === 1 ? `${peers[0].name} is also editing` : `${peers.length} others editing`}
+      </span>
+    </div>
+  );
+}
@@ -0,0 +1,175 @@
+/**
+ * EmbedCodePanel component
+ * Builds copy-paste embed code for putting the live Santa map on a brigade's
+ * website or Facebook page, with size and control options
+ */
+
+import { useEffect, useState } from 'react';
+import { COLORS, FLOATING_PANEL } from '../utils/constants';
+import { DEFAULT_EMBED_OPTIONS, MAX_EMBED_HEIGHT, MIN_EMBED_HEIGHT, buildEmbedUrl, generateEmbedCode } from '../utils/embed';
+import type { EmbedCodeFormat, EmbedOptions } from '../utils/embed';
+
+export interface EmbedCodePanelProps {
+  route: { id: string; name: string };
+}
+
+const WIDTH_CHOICES = [
+  { value: '100%', label: 'Full width' },
+  { value: '600', label: '600 px' },
+  { value: '400', label: '400 px' },
+];
+
+const TOGGLES: Array<{ key: 'showHeader' | 'showProgress' | 'interactive'; label: string }> = [
+  { key: 'showHeader', label: 'Brigade header' },
+  { key: 'showProgress', label: 'Progress card' },
+  { key: 'interactive', label: 'Zoom and pan controls' },
+];
+
+const labelStyle = { fontSize: '0.8125rem', fontWeight: 600, color: COLORS.neutral700 } as const;
+const fieldStyle = {
+  padding: '0.375rem 0.5rem',
+  border: `1px solid ${COLORS.neutral300}`,
+  borderRadius: '6px',
+  fontSize: '0.875rem',
+} as const;
+
+export function EmbedCodePanel({ route }: EmbedCodePanelProps) {
+  const [options, setOptions] = useState<EmbedOptions>(DEFAULT_EMBED_OPTIONS);
+  const [format, setFormat] = useState<EmbedCodeFormat>('iframe');
+  const [copySuccess, setCopySuccess] = useState(false);
+
+  const code = generateEmbedCode(route, options, format);
+
+  useEffect(() => {
+    if (copySuccess) {
+      const timer = setTimeout(() => setCopySuccess(false), 2000);
+      return () => clearTimeout(timer);
+    }
+  }, [copySuccess]);
+
+  const updateOptions = (changes: Partial<EmbedOptions>) => {
+    setOptions(prev => ({ ...prev, ...changes }));
+  };
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(code);
+      setCopySuccess(true);
+    } catch (err) {
+      console.error('Failed to copy embed code:', err);
+    }
+  };
+
+  return (
+    <details style={{ borderTop: `1px solid ${COLORS.neutral200}`, paddingTop: '1rem', marginTop: '1rem' }}>
+      <summary style={{ cursor: 'pointer', color: COLORS.neutral900, fontSize: '0.875rem', fontWeight: 600 }}>
+        🧩 Embed on your website
+      </summary>
+
+      <p style={{ margin: '0.5rem 0 0.75rem', fontSize: '0.8125rem', color: COLORS.neutral700 }}>
+        Paste this code into your brigade website or a Facebook page tab to show the live Santa map.
+      </p>
+
+      <div style={{ display: 'flex', flexWrap: 'wrap', gap: '0.75rem', marginBottom: '0.75rem' }}>
+        <label style={{ display: 'flex', flexDirection: 'column', gap: '0.25rem' }}>
+          <span style={labelStyle}>Code</span>
+          <select value={format} onChange={(e) => setFormat(e.target.value as EmbedCodeFormat)} style={fieldStyle}>
+            <option value="iframe">iframe</option>
+            <option value="script">Script tag</option>
+          </select>
+        </label>
+        <label style={{ display: 'flex', flexDirection: 'column', gap: '0.25rem' }}>
+          <span style={labelStyle}>Width</span>
+          <select value={options.width} onChange={(e) => updateOptions({ width: e.target.value })} style={fieldStyle}>
+            {WIDTH_CHOICES.map(choice => (
+              <option key={choice.value} value={choice.value}>{choice.label}</option>
+            ))}
+          </select>
+        </label>
+        <label style={{ display: 'flex', flexDirection: 'column', gap: '0.25rem' }}>
+          <span style={labelStyle}>Height (px)</span>
+          <input
+            type="number"
+            min={MIN_EMBED_HEIGHT}
+            max={MAX_EMBED_HEIGHT}
+            step={50}
+            value={options.height}
+            onChange={(e) => updateOptions({ height: Number(e.target.value) })}
+            style={{ ...fieldStyle, width: '90px' }}
+          />
+        </label>
+      </div>
+
+      <div style={{ display: 'flex', flexWrap: 'wrap', gap: '0.75rem', marginBottom: '0.75rem' }}>
+        {TOGGLES.map(({ key, label }) => (
+          <label key={key} style={{ display: 'flex', alignItems: 'center', gap: '0.375rem', fontSize: '0.875rem', color: COLORS.neutral900 }}>
+            <input
+              type="checkbox"
+              checked={options[key]}
+              onChange={(e) => updateOptions({ [key]: e.target.checked })}
+            />
+            {label}
+          </label>
+        ))}
+      </div>
+
+      <textarea
+        readOnly
+        value={code}
+        rows={4}
+        aria-label="Embed code"
+        onFocus={(e) => e.currentTarget.select()}
+        style={{
+          width: '100%',
+          boxSizing: 'border-box',
+          padding: '0.5rem',
+          border: `1px solid ${COLORS.neutral300}`,
+          borderRadius: '8px',
+          backgroundColor: COLORS.neutral100,
+          fontFamily: 'monospace',
+          fontSize: '0.75rem',
+          resize: 'vertical',
+        }}
+      />
+
+      <div style={{ display: 'flex', gap: '0.5rem', marginTop: '0.5rem', flexWrap: 'wrap' }}>
+        <button
+          onClick={handleCopy}
+          style={{
+            flex: 1,
+            minWidth: '140px',
+            padding: '0.625rem 1rem',
+            backgroundColor: copySuccess ? COLORS.christmasGreen : COLORS.skyBlue,
+            color: 'white',
+            border: 'none',
+            borderRadius: FLOATING_PANEL.borderRadius.button,
+            fontSize: '0.875rem',
+            fontWeight: 600,
+            cursor: 'pointer',
+          }}
+        >
+          {copySuccess ? '✓ Copied!' : '📋 Copy embed code'}
+        </button>
+        <a
+          href={buildEmbedUrl(route.id, options)}
+          target="_blank"
+          rel="noopener noreferrer"
+          style={{
+            flex: 1,
+            minWidth: '140px',
+            padding: '0.625rem 1rem',
+            textAlign: 'center',
+            border: `2px solid ${COLORS.skyBlue}`,
+            borderRadius: FLOATING_PANEL.borderRadius.button,
+            color: COLORS.skyBlue,
+            fontSize: '0.875rem',
+            fontWeight: 600,
+            textDecoration: 'none',
+          }}
+        >
+          👀 Preview
+        </a>
+      </div>
+    </details>
+  );
+}
@@ -0,0 +1,209 @@
+/**
+ * EventList component
+ * A brigade's multi-night events, with a form for grouping the season's routes
+ * (one per night) under a single public page and flyer link
+ */
+
+import { useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import type { BrigadeEvent, Route } from '../types';
+import { COLORS, FLOATING_PANEL } from '../utils/constants';
+import { formatEventDates, getEventNights } from '../utils/events';
+
+export interface EventListProps {
+  events: BrigadeEvent[];
+  routes: Route[];
+  onCreate: () => BrigadeEvent;
+  onSave: (event: BrigadeEvent) => Promise<void>;
+  onDelete: (eventId: string) => Promise<void>;
+  onShare: (event: BrigadeEvent) => void;
+}
+
+const buttonStyle = {
+  padding: '0.5rem 0.875rem',
+  border: `2px solid ${COLORS.neutral300}`,
+  borderRadius: FLOATING_PANEL.borderRadius.button,
+  background: 'white',
+  color: COLORS.neutral900,
+  fontSize: '0.875rem',
+  fontWeight: 600,
+  cursor: 'pointer',
+};
+
+const inputStyle = {
+  padding: '0.5rem',
+  border: `1px solid ${COLORS.neutral300}`,
+  borderRadius: FLOATING_PANEL.borderRadius.button,
+  fontSize: '0.875rem',
+};
+
+function EventForm({
+  event,
+  routes,
+  onSave,
+  onCancel,
+}: {
+  event: BrigadeEvent;
+  routes: Route[];
+  onSave: (event: BrigadeEvent) => Promise<void>;
+  onCancel: () => void;
+}) {
+  const [name, setName] = useState(event.name);
+  const [description, setDescription] = useState(event.description ?? '');
+  const [routeIds, setRouteIds] = useState(event.routeIds);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const nights = [...routes].sort((a, b) => a.date.localeCompare(b.date) || a.startTime.localeCompare(b.startTime));
+
+  const toggleRoute = (routeId: string) => {
+    setRouteIds(ids => ids.includes(routeId) ? ids.filter(id => id !== routeId) : [...ids, routeId]);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+    try {
+      await onSave({ ...event, name: name.trim(), description: description.trim(), routeIds });
+    } catch (err) {
+      console.error('Failed to save event:', err);
+      alert('Failed to save event. Please try again.');
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} style={{ display: 'flex', flexDirection: 'column', gap: '0.75rem' }}>
+      <input
+        type="text"
+        required
+        value={name}
+        onChange={(e) => setName(e.target.value)}
+        placeholder="Event name (e.g. Santa Week 2025)"
+        aria-label="Event name"
+        style={inputStyle}
+      />
+      <input
+        type="text"
+        value={description}
+        onChange={(e) => setDescription(e.target.value)}
+        placeholder="Description (optional)"
+        aria-label="Event description"
+        style={inputStyle}
+      />
+      <fieldset style={{ border: `1px solid ${COLORS.neutral200}`, borderRadius: FLOATING_PANEL.borderRadius.button, padding: '0.75rem' }}>
+        <legend style={{ fontSize: '0.75rem', color: COLORS.neutral700, padding: '0 0.25rem' }}>
+          Nights (one route per night)
+        </legend>
+        {nights.length === 0 ? (
+          <p style={{ margin: 0, fontSize: '0.875rem', color: COLORS.neutral700 }}>
+            Create a route for each night first.
+          </p>
+        ) : (
+          nights.map(route => (
+            <label key={route.id} style={{ display: 'flex', alignItems: 'center', gap: '0.5rem', padding: '0.25rem 0', fontSize: '0.875rem' }}>
+              <input type="checkbox" checked={routeIds.includes(route.id)} onChange={() => toggleRoute(route.id)} />
+              <span style={{ color: COLORS.neutral700, minWidth: '6.5rem' }}>
+                {route.date ? format(parseISO(route.date), 'EEE d MMM') : 'No date'}
+              </span>
+              <span style={{ color: COLORS.neutral900 }}>{route.name || 'Untitled route'}</span>
+            </label>
+          ))
+        )}
+      </fieldset>
+      <div style={{ display: 'flex', gap: '0.5rem', justifyContent: 'flex-end' }}>
+        <button type="button" onClick={onCancel} style={buttonStyle}>
+          Cancel
+        </button>
+        <button
+          type="submit"
+          disabled={isSaving}
+          style={{ ...buttonStyle, border: 'none', background: COLORS.fireRed, color: 'white', opacity: isSaving ? 0.6 : 1 }}
+        >
+          {isSaving ? 'Saving...' : 'Save event'}
+        </button>
+      </div>
+    </form>
+  );
+}
+
+export function EventList({ events, routes, onCreate, onSave, onDelete, onShare }: EventListProps) {
+  const [editingEvent, setEditingEvent] = useState<BrigadeEvent | null>(null);
+
+  const handleSave = async (event: BrigadeEvent) => {
+    await onSave(event);
+    setEditingEvent(null);
+  };
+
+  const handleDelete = async (event: BrigadeEvent) => {
+    if (!confirm(`Delete the "${event.name}" event? Its routes are kept.`)) {
+      return;
+    }
+    try {
+      await onDelete(event.id);
+    } catch (err) {
+      console.error('Failed to delete event:', err);
+      alert('Failed to delete event. Please try again.');
+    }
+  };
+
+  const cardStyle = {
+    backgroundColor: 'white',
+    borderRadius: '16px',
+    padding: '1rem 1.5rem',
+    boxShadow: '0 2px 8px rgba(0,0,0,0.1)',
+    border: `2px solid ${COLORS.neutral200}`,
+  };
+
+  return (
+    <div style={{ display: 'flex', flexDirection: 'column', gap: '0.75rem' }}>
+      {events.map(event => {
+        if (editingEvent?.id === event.id) {
+          return (
+            <div key={event.id} style={cardStyle}>
+              <EventForm event={editingEvent} routes={routes} onSave={handleSave} onCancel={() => setEditingEvent(null)} />
+            </div>
+          );
+        }
+
+        const nights = getEventNights(event, routes, true);
+        return (
+          <div key={event.id} style={{ ...cardStyle, display: 'flex', alignItems: 'center', gap: '1rem', flexWrap: 'wrap' }}>
+            <div style={{ flex: 1, minWidth: '200px' }}>
+              <div style={{ fontWeight: 600, color: COLORS.neutral900 }}>{event.name}</div>
+              <div style={{ fontSize: '0.875rem', color: COLORS.neutral700 }}>
+                {nights.length} {nights.length === 1 ? 'night' : 'nights'}
+                {nights.length > 0 && ` · ${formatEventDates(nights)}`}
+              </div>
+            </div>
+            <a href={`/events/${event.id}`} target="_blank" rel="noopener noreferrer" style={{ ...buttonStyle, textDecoration: 'none' }}>
+              👁️ Page
+            </a>
+            <button onClick={() => onShare(event)} style={buttonStyle}>
+              🔗 Share
+            </button>
+            <button onClick={() => setEditingEvent(event)} style={buttonStyle}>
+              ✏️ Edit
+            </button>
+            <button
+              onClick={() => handleDelete(event)}
+              aria-label={`Delete ${event.name} event`}
+              style={{ ...buttonStyle, color: COLORS.error }}
+            >
+              🗑️
+            </button>
+          </div>
+        );
+      })}
+
+      {editingEvent && !events.some(event => event.id === editingEvent.id) ? (
+        <div style={cardStyle}>
+          <EventForm event={editingEvent} routes={routes} onSave={handleSave} onCancel={() => setEditingEvent(null)} />
+        </div>
+      ) : (
+        <button onClick={() => setEditingEvent(onCreate())} style={{ ...buttonStyle, alignSelf: 'flex-start' }}>
+          🗓️ New event
+        </button>
+      )}
+    </div>
+  );
+}
@@ -27,6 +27,19 @@ export interface MapViewProps {
     coordinates: [number, number];
     name: string;
   };
+  onCursorMove?: (coordinates: [number, number] | null) => void;
+  cursors?: MapCursor[];                          // Other editors' pointers
+  highlightedWaypoints?: Record<string, string>;  // Waypoint ID → ring colour
+}
+
+/**
+ * Another editor's pointer, shown as a labelled dot
+ */
+export interface MapCursor {
+  id: string;
+  label: string;
+  color: string;
+  coordinates: [number, number];
 }
 
 /**
@@ -45,13 +58,22 @@ export function MapView({
   autoZoom = true,
   fitBoundsPadding = 50,
   brigadeStation,
+  onCursorMove,
+  cursors,
+  highlightedWaypoints,
 }: MapViewProps) {
   const mapContainer = useRef<HTMLDivElement>(null);
   const map = useRef<mapboxgl.Map | null>(null);
   const markersRef = useRef<mapboxgl.Marker[]>([]);
   const brigadeMarkerRef = useRef<mapboxgl.Marker | null>(null);
+  const cursorMarkersRef = useRef<mapboxgl.Marker[]>([]);
+  const onCursorMoveRef = useRef(onCursorMove);
   const [mapLoaded, setMapLoaded] = useState(false);
 
+  useEffect(() => {
+    onCursorMoveRef.current = onCursorMove;
+  });
+
   // Initialize map
   useEffect(() => {
     if (!mapContainer.current || map.current) return;
@@ -85,6 +107,14 @@ export function MapView({
           onMapClick([e.lngLat.lng, e.lngLat.lat]);
         });
       }
+
+      // Report the pointer position (for sharing with other editors)
+      map.current.on('mousemove', (e) => {
+        onCursorMoveRef.current?.([e.lngLat.lng, e.lngLat.lat]);
+      });
+      map.current.getCanvas().addEventListener('mouseleave', () => {
+        onCursorMoveRef.current?.(null);
+      });
     } catch (error) {
       console.error('Error initializing map:', error);
     }
@@ -164,6 +194,64 @@ export function MapView({
     }
   }, [waypoints, mapLoaded, autoZoom, fitBoundsPadding]);
 
+  // Ring the waypoints other editors have selected (without refitting the map)
+  useEffect(() => {
+    if (!mapLoaded) return;
+
+    markersRef.current.forEach((marker, index) => {
+      const circle = marker.getElement().firstElementChild as HTMLElement | null;
+      const highlight = waypoints[index] && highlightedWaypoints?.[waypoints[index].id];
+      if (circle) {
+        circle.style.boxShadow = highlight
+          ? `0 0 0 4px ${highlight}, 0 2px 8px rgba(0, 0, 0, 0.3)`
+          : '0 2px 8px rgba(0, 0, 0, 0.3)';
+      }
+    });
+  }, [waypoints, highlightedWaypoints, mapLoaded]);
+
+  // Update other editors' cursors
+  useEffect(() => {
+    if (!map.current || !mapLoaded) return;
+
+    cursorMarkersRef.current.forEach(marker => marker.remove());
+    cursorMarkersRef.current = [];
+
+    (cursors ?? []).forEach(cursor => {
+      const el = document.createElement('div');
+      el.style.display = 'flex';
+      el.style.alignItems = 'center';
+      el.style.gap = '4px';
+      el.style.pointerEvents = 'none';
+
+      const dotEl = document.createElement('div');
+      dotEl.style.width = '12px';
+      dotEl.style.height = '12px';
+      dotEl.style.borderRadius = '50%';
+      dotEl.style.background = cursor.color;
+      dotEl.style.border = '2px solid white';
+      dotEl.style.boxShadow = '0 1px 4px rgba(0, 0, 0, 0.3)';
+
+      const labelEl = document.createElement('div');
+      labelEl.style.background = cursor.color;
+      labelEl.style.color = 'white';
+      labelEl.style.padding = '2px 6px';
+      labelEl.style.borderRadius = '4px';
+      labelEl.style.fontSize = '11px';
+      labelEl.style.fontWeight = '600';
+      labelEl.style.whiteSpace = 'nowrap';
+      labelEl.textContent = cursor.label;
+
+      el.appendChild(dotEl);
+      el.appendChild(labelEl);
+
+      cursorMarkersRef.current.push(
+        new mapboxgl.Marker(el, { anchor: 'left' })
+          .setLngLat(cursor.coordinates)
+          .addTo(map.current!)
+      );
+    });
+  }, [cursors, mapLoaded]);
+
   // Update brigade station marker
   useEffect(() => {
     if (!map.current || !mapLoaded) return;
@@ -1,18 +1,22 @@
 /**
  * NavigationPanel component
- * Bottom panel showing waypoint info, ETA, and controls
+ * Bottom panel showing waypoint info, ETA, schedule status, and controls
  */
 
-import type { Waypoint } from '../types';
+import type { Waypoint, WaypointEta } from '../types';
 import { formatDistance } from '../utils/mapbox';
+import { formatETA } from '../utils/navigation';
+import { formatScheduleDeviation, isBehindSchedule } from '../utils/schedule';
 import { ProgressBar } from './ProgressBar';
 import { TOUCH_TARGET } from '../utils/constants';
-import { useMemo } from 'react';
+import { useMemo, useState } from 'react';
 
 export interface NavigationPanelProps {
   nextWaypoint: Waypoint | null;
   distanceToWaypoint: number;
   eta: string | null;
+  scheduleDeviation?: number | null;
+  waypointEtas?: WaypointEta[];
   routeProgress: number;
   canCompleteWaypoint: boolean;
   onCompleteWaypoint: () => void;
@@ -27,6 +31,8 @@ export function NavigationPanel({
   nextWaypoint,
   distanceToWaypoint,
   eta,
+  scheduleDeviation = null,
+  waypointEtas = [],
   routeProgress,
   canCompleteWaypoint,
   onCompleteWaypoint,
@@ -44,6 +50,18 @@ export function NavigationPanel({
     [nextWaypoint, waypoints]
   );
 
+  const [showUpcoming, setShowUpcoming] = useState(false);
+
+  const waypointsById = useMemo(
+    () => new Map(waypoints.map(wp => [wp.id, wp])),
+    [waypoints]
+  );
+
+  const etaFor = (waypointId: string) => {
+    const entry = waypointEtas.find(e => e.waypointId === waypointId);
+    return entry ? formatETA(new Date(entry.eta)) : null;
+  };
+
   return (
     <div
       style={{
@@ -110,6 +128,23 @@ export function NavigationPanel({
                   </div>
                 )}
               </div>
+              {scheduleDeviation !== null && (
+                <div
+                  role="status"
+                  style={{
+                    display: 'inline-block',
+                    marginTop: '0.5rem',
+                    padding: '0.25rem 0.5rem',
+                    borderRadius: '6px',
+                    fontSize: '0.8125rem',
+                    fontWeight: 600,
+                    backgroundColor: isBehindSchedule(scheduleDeviation) ? '#FFEBEE' : '#E8F5E9',
+                    color: isBehindSchedule(scheduleDeviation) ? '#C62828' : '#2E7D32',
+                  }}
+                >
+                  {formatScheduleDeviation(scheduleDeviation)}
+                </div>
+              )}
             </div>
 
             {/* Next Waypoint Preview - 1/3 width with NEXT button */}
@@ -150,10 +185,63 @@ export function NavigationPanel({
                 <div style={{ fontSize: '0.75rem', color: '#212121', fontWeight: 'bold', textAlign: 'center', lineHeight: '1.2' }}>
                   {waypointAfterNext.name || waypointAfterNext.address || `Stop ${waypointAfterNext.order}`}
                 </div>
+                {etaFor(waypointAfterNext.id) && (
+                  <div style={{ fontSize: '0.7rem', color: '#424242', marginTop: '0.25rem' }}>
+                    🕐 {etaFor(waypointAfterNext.id)}
+                  </div>
+                )}
               </button>
             )}
           </div>
 
+          {/* Cumulative ETAs for the rest of the run */}
+          {waypointEtas.length > 1 && (
+            <div style={{ marginBottom: '1rem' }}>
+              <button
+                onClick={() => setShowUpcoming(!showUpcoming)}
+                aria-expanded={showUpcoming}
+                style={{
+                  width: '100%',
+                  padding: '0.5rem',
+                  border: 'none',
+                  background: 'transparent',
+                  color: '#616161',
+                  fontSize: '0.8125rem',
+                  fontWeight: 600,
+                  cursor: 'pointer',
+                }}
+              >
+                {showUpcoming ? '▾ Hide upcoming stops' : `▸ Upcoming stops (${waypointEtas.length})`}
+              </button>
+              {showUpcoming && (
+                <ol style={{ margin: 0, padding: 0, listStyle: 'none', maxHeight: '160px', overflowY: 'auto' }}>
+                  {waypointEtas.map(({ waypointId, eta: stopEta }) => {
+                    const waypoint = waypointsById.get(waypointId);
+                    return (
+                      <li
+                        key={waypointId}
+                        style={{
+                          display: 'flex',
+                          justifyContent: 'space-between',
+                          gap: '0.5rem',
+                          padding: '0.375rem 0.5rem',
+                          borderBottom: '1px solid #EEEEEE',
+                          fontSize: '0.875rem',
+                          color: '#212121',
+                        }}
+                      >
+                        <span style={{ overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+                          {waypoint?.name || waypoint?.address || `Stop ${(waypoint?.order ?? 0) + 1}`}
+                        </span>
+                        <span style={{ flexShrink: 0, color: '#616161' }}>{formatETA(new Date(stopEta))}</span>
+                      </li>
+                    );
+                  })}
+                </ol>
+              )}
+            </div>
+          )}
+
           {/* Action Buttons Row */}
           <div style={{ display: 'flex', gap: '0.75rem' }}>
             <button
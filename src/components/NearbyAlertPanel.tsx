@@ -0,0 +1,214 @@
+/**
+ * NearbyAlertPanel component
+ * "Notify me when Santa is near" opt-in on the public tracking page: the viewer
+ * picks their street, uses their location or drops a pin, then turns on a
+ * one-off alert for when Santa is about five minutes away
+ */
+
+import { useState } from 'react';
+import { AddressSearch } from './AddressSearch';
+import { COLORS, FLOATING_PANEL } from '../utils/constants';
+import {
+  NEARBY_ALERT_SECONDS,
+  isNearbyAlertSupported,
+  subscribeToNearbyAlert,
+  unsubscribeFromNearbyAlert,
+} from '../utils/nearbyAlerts';
+import type { NearbyAlert } from '../utils/nearbyAlerts';
+
+export interface NearbyAlertPoint {
+  location: [number, number]; // [lng, lat]
+  label?: string;
+}
+
+export interface NearbyAlertPanelProps {
+  routeId: string;
+  alert: NearbyAlert | null;
+  onAlertChange: (alert: NearbyAlert | null) => void;
+  /** Point chosen for a new alert (search result, current location or dropped pin) */
+  point: NearbyAlertPoint | null;
+  onPointChange: (point: NearbyAlertPoint | null) => void;
+  /** Whether the next map tap drops the pin */
+  isDroppingPin: boolean;
+  onDropPinChange: (isDroppingPin: boolean) => void;
+  /** Bias address search results towards the route */
+  proximity?: [number, number];
+}
+
+const buttonStyle = {
+  padding: '0.5rem 0.875rem',
+  border: 'none',
+  borderRadius: FLOATING_PANEL.borderRadius.button,
+  fontSize: '0.75rem',
+  fontWeight: 600,
+  cursor: 'pointer',
+};
+
+const secondaryButtonStyle = {
+  ...buttonStyle,
+  background: 'white',
+  color: COLORS.neutral900,
+  border: `2px solid ${COLORS.neutral300}`,
+};
+
+export function NearbyAlertPanel({
+  routeId,
+  alert,
+  onAlertChange,
+  point,
+  onPointChange,
+  isDroppingPin,
+  onDropPinChange,
+  proximity,
+}: NearbyAlertPanelProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const minutes = Math.round(NEARBY_ALERT_SECONDS / 60);
+
+  if (!isNearbyAlertSupported()) {
+    return null;
+  }
+
+  const handleUseMyLocation = () => {
+    setError(null);
+    navigator.geolocation.getCurrentPosition(
+      (position) => {
+        onDropPinChange(false);
+        onPointChange({ location: [position.coords.longitude, position.coords.latitude], label: 'My location' });
+      },
+      () => setError('Could not get your location. Search for your street or drop a pin instead.'),
+      { enableHighAccuracy: false, timeout: 10000 }
+    );
+  };
+
+  const handleTurnOn = async () => {
+    if (!point) return;
+    setIsBusy(true);
+    setError(null);
+    try {
+      onAlertChange(await subscribeToNearbyAlert(routeId, point.location, point.label));
+      onPointChange(null);
+      onDropPinChange(false);
+      setIsOpen(false);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to turn on alerts');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleTurnOff = async () => {
+    setIsBusy(true);
+    setError(null);
+    try {
+      await unsubscribeFromNearbyAlert(routeId);
+      onAlertChange(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to turn off alerts');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleCancel = () => {
+    setIsOpen(false);
+    setError(null);
+    onPointChange(null);
+    onDropPinChange(false);
+  };
+
+  return (
+    <div style={{ marginTop: '1rem', paddingTop: '1rem', borderTop: `1px solid ${COLORS.neutral200}` }}>
+      {alert ? (
+        <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', gap: '0.75rem', flexWrap: 'wrap' }}>
+          <p style={{ margin: 0, fontSize: '0.875rem', color: COLORS.neutral700 }}>
+            {alert.notifiedAt
+              ? `🔔 Santa has been near ${alert.label || 'your pin'}. We sent your alert!`
+              : `🔔 We'll let you know when Santa is ~${minutes} minutes from ${alert.label || 'your pin'}.`}
+          </p>
+          <button onClick={handleTurnOff} disabled={isBusy} style={secondaryButtonStyle}>
+            Turn off
+          </button>
+        </div>
+      ) : !isOpen ? (
+        <button
+          onClick={() => setIsOpen(true)}
+          style={{ ...buttonStyle, background: COLORS.christmasGreen, color: 'white', width: '100%' }}
+        >
+          🔔 Notify me when Santa is near
+        </button>
+      ) : (
+        <div style={{ display: 'flex', flexDirection: 'column', gap: '0.75rem' }}>
+          <p style={{ margin: 0, fontSize: '0.75rem', color: COLORS.neutral700 }}>
+            Choose your street and we'll send one alert when Santa is about {minutes} minutes away.
+          </p>
+
+          <AddressSearch
+            proximity={proximity}
+            placeholder="Search for your street..."
+            onSelect={(result) => {
+              onDropPinChange(false);
+              onPointChange({ location: result.center, label: result.place_name.split(',')[0] });
+            }}
+          />
+
+          <div style={{ display: 'flex', gap: '0.5rem', flexWrap: 'wrap' }}>
+            {'geolocation' in navigator && (
+              <button onClick={handleUseMyLocation} style={secondaryButtonStyle}>
+                📍 Use my location
+              </button>
+            )}
+            <button
+              onClick={() => onDropPinChange(!isDroppingPin)}
+              aria-pressed={isDroppingPin}
+              style={{
+                ...secondaryButtonStyle,
+                borderColor: isDroppingPin ? COLORS.christmasGreen : COLORS.neutral300,
+              }}
+            >
+              {isDroppingPin ? '👆 Tap the map…' : '📌 Drop a pin'}
+            </button>
+          </div>
+
+          {point && (
+            <p style={{ margin: 0, fontSize: '0.875rem', color: COLORS.neutral900 }}>
+              Alert for: <strong>{point.label || 'Dropped pin'}</strong>
+            </p>
+          )}
+
+          {error && (
+            <p role="alert" style={{ margin: 0, fontSize: '0.75rem', color: COLORS.error }}>
+              {error}
+            </p>
+          )}
+
+          <div style={{ display: 'flex', gap: '0.5rem' }}>
+            <button
+              onClick={handleTurnOn}
+              disabled={!point || isBusy}
+              style={{
+                ...buttonStyle,
+                background: COLORS.christmasGreen,
+                color: 'white',
+                opacity: !point || isBusy ? 0.6 : 1,
+              }}
+            >
+              {isBusy ? 'Turning on…' : 'Turn on alert'}
+            </button>
+            <button onClick={handleCancel} style={secondaryButtonStyle}>
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+
+      {alert && error && (
+        <p role="alert" style={{ margin: '0.5rem 0 0', fontSize: '0.75rem', color: COLORS.error }}>
+          {error}
+        </p>
+      )}
+    </div>
+  );
+}
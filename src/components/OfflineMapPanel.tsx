@@ -0,0 +1,106 @@
+/**
+ * OfflineMapPanel component
+ * "Prepare for offline" action for a published route: downloads map tiles along
+ * the route so navigation keeps working without coverage
+ */
+
+import { format } from 'date-fns';
+import { useOfflineTiles } from '../hooks';
+import { COLORS, FLOATING_PANEL } from '../utils/constants';
+import { formatCacheSize, isOfflineTilesExpired } from '../utils/offlineTiles';
+import type { Route } from '../types';
+
+export interface OfflineMapPanelProps {
+  route: Route;
+}
+
+const buttonStyle = {
+  padding: '0.5rem 0.875rem',
+  border: 'none',
+  borderRadius: FLOATING_PANEL.borderRadius.button,
+  fontSize: '0.75rem',
+  fontWeight: 600,
+  cursor: 'pointer',
+};
+
+export function OfflineMapPanel({ route }: OfflineMapPanelProps) {
+  const { info, progress, isPreparing, error, isSupported, prepare, cancel, clear } = useOfflineTiles(route);
+
+  const isExpired = info ? isOfflineTilesExpired(info) : false;
+  const percent = progress && progress.total > 0
+    ? Math.round((progress.completed / progress.total) * 100)
+    : 0;
+
+  return (
+    <div style={{ marginTop: '1.5rem', paddingTop: '1rem', borderTop: `1px solid ${COLORS.neutral200}` }}>
+      <h3 style={{ margin: 0, marginBottom: '0.75rem', fontSize: '0.875rem', color: COLORS.neutral700 }}>
+        Offline Map
+      </h3>
+
+      {!isSupported ? (
+        <p style={{ margin: 0, fontSize: '0.75rem', color: COLORS.neutral700 }}>
+          Offline maps are not supported in this browser.
+        </p>
+      ) : (
+        <>
+          <p style={{ margin: 0, marginBottom: '0.75rem', fontSize: '0.75rem', color: COLORS.neutral700 }}>
+            Download the map along this route so navigation keeps working in black spots.
+          </p>
+
+          {info && !isPreparing && (
+            <div style={{ fontSize: '0.75rem', color: COLORS.neutral700, display: 'flex', flexDirection: 'column', gap: '0.25rem', marginBottom: '0.75rem' }}>
+              <div>💾 {formatCacheSize(info.bytes)} ({info.tileCount} tiles)</div>
+              <div style={{ color: isExpired ? COLORS.error : COLORS.neutral700 }}>
+                ⏳ {isExpired ? 'Expired' : 'Expires'} {format(new Date(info.expiresAt), 'MMM dd, yyyy')}
+              </div>
+            </div>
+          )}
+
+          {isPreparing && (
+            <div style={{ marginBottom: '0.75rem' }} role="status" aria-live="polite">
+              <div style={{ fontSize: '0.75rem', color: COLORS.neutral700, marginBottom: '0.25rem' }}>
+                Downloading map… {percent}%
+              </div>
+              <div style={{ height: '6px', background: COLORS.neutral200, borderRadius: '3px', overflow: 'hidden' }}>
+                <div style={{ width: `${percent}%`, height: '100%', background: COLORS.christmasGreen, transition: 'width 0.2s' }} />
+              </div>
+            </div>
+          )}
+
+          {error && (
+            <p role="alert" style={{ margin: 0, marginBottom: '0.75rem', fontSize: '0.75rem', color: COLORS.error }}>
+              {error}
+            </p>
+          )}
+
+          <div style={{ display: 'flex', gap: '0.5rem', flexWrap: 'wrap' }}>
+            {isPreparing ? (
+              <button
+                onClick={cancel}
+                style={{ ...buttonStyle, background: 'white', color: COLORS.neutral900, border: `2px solid ${COLORS.neutral300}` }}
+              >
+                Cancel
+              </button>
+            ) : (
+              <button
+                onClick={prepare}
+                style={{ ...buttonStyle, background: COLORS.christmasGreen, color: 'white' }}
+              >
+                {info ? '🔄 Refresh offline map' : '📥 Prepare for offline'}
+              </button>
+            )}
+
+            {info && !isPreparing && (
+              <button
+                onClick={clear}
+                style={{ ...buttonStyle, background: 'white', color: COLORS.error, border: `2px solid ${COLORS.neutral300}` }}
+              >
+                Clear
+              </button>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,182 @@
+/**
+ * OptimizeOrderPanel component
+ * "Optimise order" action for the route editor: solves a more efficient
+ * visiting order and shows the savings before the planner accepts it
+ */
+
+import { useState } from 'react';
+import { COLORS } from '../utils/constants';
+import { formatDistance, formatDuration } from '../utils/mapbox';
+import type { WaypointOrderProposal } from '../utils/routeOptimization';
+
+export interface OptimizeOrderSettings {
+  startAtStation: boolean;
+  keepLastStop: boolean;
+  returnToStart: boolean;
+}
+
+export interface OptimizeOrderPanelProps {
+  hasStation: boolean;
+  isOptimizing: boolean;
+  proposal: WaypointOrderProposal | null;
+  onOptimize: (settings: OptimizeOrderSettings) => void;
+  onAccept: () => void;
+  onDiscard: () => void;
+}
+
+const checkboxLabelStyle = {
+  display: 'flex',
+  alignItems: 'center',
+  gap: '0.5rem',
+  fontSize: '0.875rem',
+  color: COLORS.neutral800,
+  cursor: 'pointer',
+};
+
+export function OptimizeOrderPanel({
+  hasStation,
+  isOptimizing,
+  proposal,
+  onOptimize,
+  onAccept,
+  onDiscard,
+}: OptimizeOrderPanelProps) {
+  const [settings, setSettings] = useState<OptimizeOrderSettings>({
+    startAtStation: true,
+    keepLastStop: false,
+    returnToStart: false,
+  });
+
+  const updateSetting = (key: keyof OptimizeOrderSettings, value: boolean) => {
+    setSettings(prev => ({ ...prev, [key]: value }));
+  };
+
+  if (proposal) {
+    const distanceSaved = proposal.current.distance - proposal.optimized.distance;
+    const durationSaved = proposal.current.duration - proposal.optimized.duration;
+    // Savings under a minute are not worth reshuffling the stops for
+    const isImprovement = durationSaved >= 60;
+
+    return (
+      <div
+        role="status"
+        style={{
+          padding: '0.75rem',
+          backgroundColor: isImprovement ? '#E8F5E9' : COLORS.neutral100,
+          borderRadius: '8px',
+          border: `1px solid ${isImprovement ? COLORS.christmasGreen : COLORS.neutral300}`,
+          fontSize: '0.875rem',
+          color: COLORS.neutral900,
+        }}
+      >
+        {isImprovement ? (
+          <>
+            <div style={{ fontWeight: 600, marginBottom: '0.25rem' }}>
+              Saves {formatDistance(Math.max(0, distanceSaved))} and {formatDuration(durationSaved)}
+            </div>
+            <div style={{ color: COLORS.neutral700, marginBottom: '0.75rem' }}>
+              {formatDistance(proposal.current.distance)} → {formatDistance(proposal.optimized.distance)},{' '}
+              {formatDuration(proposal.current.duration)} → {formatDuration(proposal.optimized.duration)}
+              {proposal.source === 'estimate' && ' (estimated from straight-line distances)'}
+            </div>
+          </>
+        ) : (
+          <div style={{ marginBottom: '0.75rem' }}>
+            The current order is already the most efficient found.
+          </div>
+        )}
+        <div style={{ display: 'flex', gap: '0.5rem' }}>
+          {isImprovement && (
+            <button
+              onClick={onAccept}
+              style={{
+                flex: 1,
+                padding: '0.625rem',
+                background: COLORS.christmasGreen,
+                color: 'white',
+                border: 'none',
+                borderRadius: '8px',
+                fontWeight: 600,
+                cursor: 'pointer',
+              }}
+            >
+              Use new order
+            </button>
+          )}
+          <button
+            onClick={onDiscard}
+            style={{
+              flex: 1,
+              padding: '0.625rem',
+              background: 'white',
+              color: COLORS.neutral900,
+              border: `1px solid ${COLORS.neutral300}`,
+              borderRadius: '8px',
+              fontWeight: 600,
+              cursor: 'pointer',
+            }}
+          >
+            {isImprovement ? 'Keep current' : 'Close'}
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div style={{
+      padding: '0.75rem',
+      backgroundColor: COLORS.neutral100,
+      borderRadius: '8px',
+      border: `1px solid ${COLORS.neutral300}`,
+      display: 'flex',
+      flexDirection: 'column',
+      gap: '0.5rem',
+    }}>
+      {hasStation && (
+        <label style={checkboxLabelStyle}>
+          <input
+            type="checkbox"
+            checked={settings.startAtStation}
+            onChange={(e) => updateSetting('startAtStation', e.target.checked)}
+          />
+          Start from the brigade station
+        </label>
+      )}
+      <label style={checkboxLabelStyle}>
+        <input
+          type="checkbox"
+          checked={settings.returnToStart}
+          onChange={(e) => updateSetting('returnToStart', e.target.checked)}
+        />
+        Return to start
+      </label>
+      <label style={{ ...checkboxLabelStyle, opacity: settings.returnToStart ? 0.5 : 1 }}>
+        <input
+          type="checkbox"
+          checked={settings.keepLastStop && !settings.returnToStart}
+          disabled={settings.returnToStart}
+          onChange={(e) => updateSetting('keepLastStop', e.target.checked)}
+        />
+        Keep the last stop as the finish
+      </label>
+      <button
+        onClick={() => onOptimize(settings)}
+        disabled={isOptimizing}
+        style={{
+          marginTop: '0.25rem',
+          padding: '0.75rem 1rem',
+          background: isOptimizing ? COLORS.neutral300 : 'white',
+          color: COLORS.neutral900,
+          border: `2px solid ${COLORS.neutral300}`,
+          borderRadius: '12px',
+          fontWeight: 600,
+          fontSize: '0.875rem',
+          cursor: isOptimizing ? 'not-allowed' : 'pointer',
+        }}
+      >
+        {isOptimizing ? '🔄 Optimising...' : '🔀 Optimise Order'}
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,196 @@
+/**
+ * RouteAnalyticsPanel component
+ * Tracking page engagement for a route: headline numbers, and a timeline of
+ * connected viewers against Santa's progress through the stops, so brigades
+ * can report community engagement to their district
+ */
+
+import { format } from 'date-fns';
+import { useRouteAnalytics } from '../hooks';
+import { COLORS, FLOATING_PANEL } from '../utils/constants';
+import { buildProgressSeries } from '../utils/viewerAnalytics';
+import type { ProgressPoint } from '../utils/viewerAnalytics';
+import type { Route, RouteViewerAnalytics } from '../types';
+
+export interface RouteAnalyticsPanelProps {
+  route: Route;
+}
+
+const CHART_WIDTH = 300;
+const CHART_HEIGHT = 120;
+const CHART_PADDING = { top: 8, right: 28, bottom: 18, left: 28 };
+const VIEWERS_COLOR = COLORS.skyBlue;
+const PROGRESS_COLOR = '#43A047'; // Christmas green, as on the tracking trail
+
+function formatSessionLength(seconds: number): string {
+  if (seconds < 60) return `${seconds}s`;
+  const minutes = Math.round(seconds / 60);
+  return minutes < 60 ? `${minutes} min` : `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+}
+
+export function RouteAnalyticsPanel({ route }: RouteAnalyticsPanelProps) {
+  const { analytics, isLoading, error, refreshAnalytics } = useRouteAnalytics(route.id);
+
+  return (
+    <div style={{ marginTop: '1.5rem', paddingTop: '1rem', borderTop: `1px solid ${COLORS.neutral200}` }}>
+      <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '0.75rem' }}>
+        <h3 style={{ margin: 0, fontSize: '0.875rem', color: COLORS.neutral700 }}>
+          Community engagement
+        </h3>
+        <button
+          onClick={refreshAnalytics}
+          disabled={isLoading}
+          style={{
+            padding: '0.25rem 0.5rem',
+            background: 'white',
+            color: COLORS.neutral900,
+            border: `1px solid ${COLORS.neutral300}`,
+            borderRadius: FLOATING_PANEL.borderRadius.button,
+            fontSize: '0.75rem',
+            cursor: isLoading ? 'wait' : 'pointer',
+          }}
+        >
+          ↻ Refresh
+        </button>
+      </div>
+
+      {error ? (
+        <p role="alert" style={{ margin: 0, fontSize: '0.75rem', color: COLORS.error }}>{error.message}</p>
+      ) : !analytics ? (
+        <p style={{ margin: 0, fontSize: '0.75rem', color: COLORS.neutral700 }}>Loading viewer analytics…</p>
+      ) : analytics.opens === 0 ? (
+        <p style={{ margin: 0, fontSize: '0.75rem', color: COLORS.neutral700 }}>
+          Nobody has opened the tracking page yet.
+        </p>
+      ) : (
+        <>
+          <dl style={{
+            display: 'grid',
+            gridTemplateColumns: 'repeat(2, 1fr)',
+            gap: '0.5rem',
+            margin: '0 0 0.75rem',
+          }}>
+            <Stat label="Page opens" value={analytics.opens.toLocaleString()} />
+            <Stat label="Unique viewers" value={analytics.uniqueViewers.toLocaleString()} />
+            <Stat
+              label="Peak watching live"
+              value={analytics.peakConcurrent.toLocaleString()}
+              detail={analytics.peakAt ? `at ${format(new Date(analytics.peakAt), 'h:mm a')}` : undefined}
+            />
+            <Stat label="Average visit" value={formatSessionLength(analytics.averageSessionSeconds)} />
+          </dl>
+
+          <ViewerTimelineChart analytics={analytics} progress={buildProgressSeries(route)} totalStops={route.waypoints.length} />
+
+          <div style={{ marginTop: '0.75rem', fontSize: '0.75rem', color: COLORS.neutral700, lineHeight: 1.6 }}>
+            {analytics.embedOpens > 0 && (
+              <div>🧩 {analytics.embedOpens.toLocaleString()} opens from embedded widgets</div>
+            )}
+            {analytics.areas.length > 0 && (
+              <div>📍 Alert pins in {analytics.areas.length.toLocaleString()} neighbourhoods (~5 km areas)</div>
+            )}
+            {analytics.timeZones.length > 0 && (
+              <div>
+                🌏 {analytics.timeZones.map(zone => `${zone.timeZone} (${zone.viewers})`).join(', ')}
+              </div>
+            )}
+          </div>
+          <p style={{ margin: '0.5rem 0 0', fontSize: '0.6875rem', color: COLORS.neutral700 }}>
+            Live viewer numbers are counted by the tracking service once a minute while Santa is moving.
+            Anonymous counts only: no names, IP addresses or exact locations are recorded.
+          </p>
+        </>
+      )}
+    </div>
+  );
+}
+
+interface StatProps {
+  label: string;
+  value: string;
+  detail?: string;
+}
+
+function Stat({ label, value, detail }: StatProps) {
+  return (
+    <div style={{ padding: '0.5rem', backgroundColor: COLORS.neutral100, borderRadius: '8px' }}>
+      <dt style={{ fontSize: '0.6875rem', color: COLORS.neutral700 }}>{label}</dt>
+      <dd style={{ margin: 0, fontSize: '1.125rem', fontWeight: 700, color: COLORS.neutral900 }}>
+        {value}
+        {detail && <span style={{ marginLeft: '0.25rem', fontSize: '0.6875rem', fontWeight: 400 }}>{detail}</span>}
+      </dd>
+    </div>
+  );
+}
+
+interface ViewerTimelineChartProps {
+  analytics: RouteViewerAnalytics;
+  progress: ProgressPoint[];
+  totalStops: number;
+}
+
+/**
+ * Connected viewers (left axis) and stops completed (right axis) over the run
+ */
+function ViewerTimelineChart({ analytics, progress, totalStops }: ViewerTimelineChartProps) {
+  const { timeline } = analytics;
+  const times = [...timeline.map(point => point.time), ...progress.map(point => point.time)];
+  if (times.length < 2) {
+    return null;
+  }
+
+  const start = Math.min(...times);
+  const end = Math.max(...times);
+  const maxViewers = Math.max(1, ...timeline.map(point => point.viewers));
+  const maxStops = Math.max(1, totalStops);
+
+  const plotWidth = CHART_WIDTH - CHART_PADDING.left - CHART_PADDING.right;
+  const plotHeight = CHART_HEIGHT - CHART_PADDING.top - CHART_PADDING.bottom;
+  const x = (time: number) => CHART_PADDING.left + ((time - start) / Math.max(1, end - start)) * plotWidth;
+  const y = (value: number, max: number) => CHART_PADDING.top + plotHeight - (value / max) * plotHeight;
+
+  const viewersPath = timeline
+    .map((point, index) => `${index === 0 ? 'M' : 'L'}${x(point.time).toFixed(1)},${y(point.viewers, maxViewers).toFixed(1)}`)
+    .join(' ');
+  // Stops complete in steps, so draw the progress line as a staircase
+  const progressPath = progress.length > 0
+    ? [`M${x(start).toFixed(1)},${y(0, maxStops).toFixed(1)}`,
+      ...progress.flatMap(point => [
+        `H${x(point.time).toFixed(1)}`,
+        `V${y(point.completed, maxStops).toFixed(1)}`,
+      ]),
+      `H${x(end).toFixed(1)}`].join(' ')
+    : '';
+
+  const axisText = { fontSize: 8, fill: COLORS.neutral700 };
+
+  return (
+    <figure style={{ margin: 0 }}>
+      <svg
+        viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`}
+        width="100%"
+        role="img"
+        aria-label={`Viewers peaked at about ${analytics.peakConcurrent} while ${progress.length} of ${totalStops} stops were completed`}
+      >
+        <line
+          x1={CHART_PADDING.left} y1={CHART_PADDING.top + plotHeight}
+          x2={CHART_PADDING.left + plotWidth} y2={CHART_PADDING.top + plotHeight}
+          stroke={COLORS.neutral300}
+        />
+        <text x={CHART_PADDING.left - 4} y={CHART_PADDING.top + 6} textAnchor="end" {...axisText}>{maxViewers}</text>
+        <text x={CHART_PADDING.left - 4} y={CHART_PADDING.top + plotHeight} textAnchor="end" {...axisText}>0</text>
+        <text x={CHART_PADDING.left + plotWidth + 4} y={CHART_PADDING.top + 6} {...axisText}>{maxStops}</text>
+        <text x={CHART_PADDING.left} y={CHART_HEIGHT - 4} {...axisText}>{format(new Date(start), 'h:mm a')}</text>
+        <text x={CHART_PADDING.left + plotWidth} y={CHART_HEIGHT - 4} textAnchor="end" {...axisText}>
+          {format(new Date(end), 'h:mm a')}
+        </text>
+        {progressPath && <path d={progressPath} fill="none" stroke={PROGRESS_COLOR} strokeWidth={1.5} />}
+        {viewersPath && <path d={viewersPath} fill="none" stroke={VIEWERS_COLOR} strokeWidth={2} strokeLinejoin="round" />}
+      </svg>
+      <figcaption style={{ display: 'flex', gap: '1rem', fontSize: '0.6875rem', color: COLORS.neutral700 }}>
+        <span><span style={{ color: VIEWERS_COLOR }}>━</span> Viewers watching live</span>
+        <span><span style={{ color: PROGRESS_COLOR }}>━</span> Stops completed</span>
+      </figcaption>
+    </figure>
+  );
+}
@@ -0,0 +1,118 @@
+/**
+ * RouteConflictDialog component
+ * Shown when saving a route fails because someone else saved it first: lists
+ * the stops each side changed and offers to merge the edits or reload theirs
+ */
+
+import { COLORS, Z_INDEX } from '../utils/constants';
+import { WAYPOINT_CHANGE_LABELS } from '../utils/routeDiff';
+import type { RouteEditConflict, WaypointChange } from '../utils/routeDiff';
+
+export interface RouteConflictDialogProps {
+  conflict: RouteEditConflict;
+  onMerge: () => void;
+  onReload: () => void;
+  onCancel: () => void;
+}
+
+function ChangeList({ title, changes }: { title: string; changes: WaypointChange[] }) {
+  return (
+    <div style={{ flex: '1 1 200px', minWidth: 0 }}>
+      <h4 style={{ margin: '0 0 0.5rem', fontSize: '0.875rem', color: COLORS.neutral700 }}>{title}</h4>
+      {changes.length === 0 ? (
+        <p style={{ margin: 0, fontSize: '0.8125rem', color: COLORS.neutral700 }}>No stop changes</p>
+      ) : (
+        <ul style={{ margin: 0, paddingLeft: '1.125rem', fontSize: '0.8125rem', maxHeight: '180px', overflowY: 'auto' }}>
+          {changes.map(change => (
+            <li key={`${change.waypointId}-${change.type}`}>
+              {WAYPOINT_CHANGE_LABELS[change.type]} <strong>{change.label}</strong>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+export function RouteConflictDialog({ conflict, onMerge, onReload, onCancel }: RouteConflictDialogProps) {
+  return (
+    <div style={{
+      position: 'fixed',
+      inset: 0,
+      backgroundColor: 'rgba(0,0,0,0.5)',
+      display: 'flex',
+      alignItems: 'center',
+      justifyContent: 'center',
+      zIndex: Z_INDEX.modal,
+    }}>
+      <div
+        role="alertdialog"
+        aria-labelledby="route-conflict-title"
+        style={{
+          backgroundColor: 'white',
+          padding: '2rem',
+          borderRadius: '16px',
+          maxWidth: '560px',
+          width: '90%',
+          boxShadow: '0 8px 24px rgba(0,0,0,0.2)',
+        }}
+      >
+        <h3 id="route-conflict-title" style={{ margin: '0 0 0.5rem 0' }}>⚠️ This route was changed by someone else</h3>
+        <p style={{ margin: '0 0 1.25rem', fontSize: '0.875rem', color: COLORS.neutral700 }}>
+          Another operator saved "{conflict.current.name}" while you were editing it. Merge your changes into
+          their version (yours win where you both changed the same thing), or discard yours and reload theirs.
+        </p>
+
+        <div style={{ display: 'flex', flexWrap: 'wrap', gap: '1rem', marginBottom: '1.5rem' }}>
+          <ChangeList title="Their changes" changes={conflict.theirChanges} />
+          <ChangeList title="Your changes" changes={conflict.myChanges} />
+        </div>
+
+        <div style={{ display: 'flex', gap: '0.5rem', justifyContent: 'flex-end', flexWrap: 'wrap' }}>
+          <button
+            onClick={onCancel}
+            style={{
+              padding: '0.75rem 1.5rem',
+              border: '1px solid #e0e0e0',
+              borderRadius: '8px',
+              background: 'white',
+              color: 'var(--neutral-900)',
+              cursor: 'pointer',
+              fontWeight: 500,
+            }}
+          >
+            Cancel
+          </button>
+          <button
+            onClick={onReload}
+            style={{
+              padding: '0.75rem 1.5rem',
+              border: `2px solid ${COLORS.fireRed}`,
+              borderRadius: '8px',
+              background: 'white',
+              color: COLORS.fireRed,
+              cursor: 'pointer',
+              fontWeight: 600,
+            }}
+          >
+            Discard mine and reload
+          </button>
+          <button
+            onClick={onMerge}
+            style={{
+              padding: '0.75rem 1.5rem',
+              border: 'none',
+              borderRadius: '8px',
+              backgroundColor: COLORS.christmasGreen,
+              color: 'white',
+              cursor: 'pointer',
+              fontWeight: 600,
+            }}
+          >
+            Merge changes
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,115 @@
+/**
+ * RouteExportPanel component
+ * Downloads the planned route, and the driven track for completed routes,
+ * as GPX, KML or GeoJSON
+ */
+
+import { useState } from 'react';
+import { COLORS, FLOATING_PANEL } from '../utils/constants';
+import { downloadRouteFile, ROUTE_FILE_FORMATS, type RouteFileFormat } from '../utils/routeFiles';
+import { fetchRouteTrack, loadLocalTrack } from '../utils/locationHistory';
+import type { Route } from '../types';
+
+export interface RouteExportPanelProps {
+  route: Route;
+}
+
+const isDevMode = import.meta.env.VITE_DEV_MODE === 'true';
+
+const FORMAT_LABELS: Record<RouteFileFormat, string> = {
+  gpx: 'GPX',
+  kml: 'KML',
+  geojson: 'GeoJSON',
+};
+
+const buttonStyle = {
+  padding: '0.375rem 0.75rem',
+  background: 'white',
+  color: COLORS.neutral900,
+  border: `1px solid ${COLORS.neutral300}`,
+  borderRadius: FLOATING_PANEL.borderRadius.button,
+  fontSize: '0.75rem',
+  fontWeight: 600,
+  cursor: 'pointer',
+};
+
+export function RouteExportPanel({ route }: RouteExportPanelProps) {
+  const [isLoadingTrack, setIsLoadingTrack] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const hasPlannedRoute = route.waypoints.length > 0 || Boolean(route.geometry);
+  const canExportTrack = route.status === 'completed' || route.status === 'archived';
+
+  const handleExportTrack = async (format: RouteFileFormat) => {
+    setIsLoadingTrack(true);
+    setError(null);
+    try {
+      const track = isDevMode ? loadLocalTrack(route.id) : await fetchRouteTrack(route.id);
+      if (track.length < 2) {
+        setError('No driven track was recorded for this route.');
+        return;
+      }
+      downloadRouteFile(route, format, track);
+    } catch (err) {
+      console.error('[RouteExport] Failed to load track:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load track');
+    } finally {
+      setIsLoadingTrack(false);
+    }
+  };
+
+  return (
+    <div style={{ marginTop: '1.5rem', paddingTop: '1rem', borderTop: `1px solid ${COLORS.neutral200}` }}>
+      <h3 style={{ margin: 0, marginBottom: '0.75rem', fontSize: '0.875rem', color: COLORS.neutral700 }}>
+        Export
+      </h3>
+
+      {hasPlannedRoute && (
+        <div style={{ marginBottom: '0.75rem' }}>
+          <div style={{ fontSize: '0.75rem', color: COLORS.neutral700, marginBottom: '0.375rem' }}>
+            Planned route
+          </div>
+          <div style={{ display: 'flex', gap: '0.5rem', flexWrap: 'wrap' }}>
+            {ROUTE_FILE_FORMATS.map(format => (
+              <button
+                key={format}
+                onClick={() => downloadRouteFile(route, format)}
+                style={buttonStyle}
+                aria-label={`Download planned route as ${FORMAT_LABELS[format]}`}
+              >
+                ⬇️ {FORMAT_LABELS[format]}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {canExportTrack && (
+        <div>
+          <div style={{ fontSize: '0.75rem', color: COLORS.neutral700, marginBottom: '0.375rem' }}>
+            Driven track
+          </div>
+          <div style={{ display: 'flex', gap: '0.5rem', flexWrap: 'wrap' }}>
+            {ROUTE_FILE_FORMATS.map(format => (
+              <button
+                key={format}
+                onClick={() => handleExportTrack(format)}
+                disabled={isLoadingTrack}
+                style={{ ...buttonStyle, cursor: isLoadingTrack ? 'not-allowed' : 'pointer' }}
+                aria-label={`Download driven track as ${FORMAT_LABELS[format]}`}
+              >
+                ⬇️ {FORMAT_LABELS[format]}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {error && (
+        <p role="alert" style={{ margin: '0.5rem 0 0 0', fontSize: '0.75rem', color: COLORS.error }}>
+          {error}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,193 @@
+/**
+ * RouteHistoryPanel component
+ * Lists a route's saved revisions, compares any two of them stop by stop and
+ * restores an earlier one (recorded as a new revision, so nothing is lost)
+ */
+
+import { useState } from 'react';
+import { format } from 'date-fns';
+import { useRouteRevisions } from '../hooks';
+import { COLORS, FLOATING_PANEL } from '../utils/constants';
+import { WAYPOINT_CHANGE_LABELS, diffWaypoints } from '../utils/routeDiff';
+import { canRestoreRevision } from '../utils/routeRevisions';
+import { RouteConflictError } from '../utils/routeVersion';
+import type { Route, RouteRevision } from '../types';
+
+export interface RouteHistoryPanelProps {
+  route: Route;
+  onRestored: (route: Route) => void;
+}
+
+const buttonStyle = {
+  padding: '0.25rem 0.5rem',
+  background: 'white',
+  color: COLORS.neutral900,
+  border: `1px solid ${COLORS.neutral300}`,
+  borderRadius: FLOATING_PANEL.borderRadius.button,
+  fontSize: '0.6875rem',
+  fontWeight: 600,
+  cursor: 'pointer',
+};
+
+export function RouteHistoryPanel({ route, onRestored }: RouteHistoryPanelProps) {
+  const { revisions, isLoading, error, getRevision, restoreRevision } = useRouteRevisions(route.id);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [loaded, setLoaded] = useState<Record<string, RouteRevision>>({});
+  const [restoringId, setRestoringId] = useState<string | null>(null);
+  const [actionError, setActionError] = useState<string | null>(null);
+
+  const canRestore = canRestoreRevision(route);
+  const revisionNumber = (revisionId: string) => revisions.length - revisions.findIndex(r => r.id === revisionId);
+
+  const handleToggleCompare = async (revisionId: string) => {
+    setActionError(null);
+    if (selectedIds.includes(revisionId)) {
+      setSelectedIds(selectedIds.filter(id => id !== revisionId));
+      return;
+    }
+    // Comparing two at a time: picking a third replaces the older pick
+    setSelectedIds([...selectedIds.slice(-1), revisionId]);
+
+    if (!loaded[revisionId]) {
+      try {
+        const revision = await getRevision(revisionId);
+        if (revision) {
+          setLoaded(prev => ({ ...prev, [revisionId]: revision }));
+        }
+      } catch (err) {
+        console.error('[RouteHistory] Failed to load revision:', err);
+        setActionError('Failed to load that revision. Please try again.');
+      }
+    }
+  };
+
+  const handleRestore = async (revision: RouteRevision) => {
+    const savedAt = format(new Date(revision.savedAt), 'MMM dd, h:mm a');
+    if (!confirm(`Restore the plan saved ${savedAt}? The current plan stays in the history.`)) {
+      return;
+    }
+
+    setRestoringId(revision.id);
+    setActionError(null);
+    try {
+      onRestored(await restoreRevision(revision.id));
+      setSelectedIds([]);
+    } catch (err) {
+      console.error('[RouteHistory] Failed to restore revision:', err);
+      setActionError(err instanceof RouteConflictError
+        ? 'Someone else saved this route just now. Reload it and try again.'
+        : err instanceof Error ? err.message : 'Failed to restore revision');
+    } finally {
+      setRestoringId(null);
+    }
+  };
+
+  // Always compare the older pick against the newer one
+  const compared = selectedIds
+    .map(id => loaded[id])
+    .filter((revision): revision is RouteRevision => Boolean(revision?.snapshot))
+    .sort((a, b) => a.savedAt.localeCompare(b.savedAt));
+  const changes = compared.length === 2
+    ? diffWaypoints(compared[0].snapshot!.waypoints, compared[1].snapshot!.waypoints)
+    : null;
+
+  return (
+    <div style={{ marginTop: '1.5rem', paddingTop: '1rem', borderTop: `1px solid ${COLORS.neutral200}` }}>
+      <h3 style={{ margin: 0, marginBottom: '0.75rem', fontSize: '0.875rem', color: COLORS.neutral700 }}>
+        History
+      </h3>
+
+      {isLoading ? (
+        <p style={{ margin: 0, fontSize: '0.75rem', color: COLORS.neutral700 }}>Loading history…</p>
+      ) : error ? (
+        <p role="alert" style={{ margin: 0, fontSize: '0.75rem', color: COLORS.error }}>
+          Couldn't load this route's history.
+        </p>
+      ) : revisions.length === 0 ? (
+        <p style={{ margin: 0, fontSize: '0.75rem', color: COLORS.neutral700 }}>
+          No saved revisions yet. Each save that changes the plan is kept here.
+        </p>
+      ) : (
+        <>
+          <p style={{ margin: '0 0 0.5rem', fontSize: '0.75rem', color: COLORS.neutral700 }}>
+            Pick two revisions to compare their stops.
+          </p>
+          <ol style={{ listStyle: 'none', margin: 0, padding: 0, display: 'flex', flexDirection: 'column', gap: '0.375rem' }}>
+            {revisions.map((revision, index) => {
+              const isSelected = selectedIds.includes(revision.id);
+              return (
+                <li
+                  key={revision.id}
+                  style={{
+                    padding: '0.5rem',
+                    backgroundColor: 'rgba(255, 255, 255, 0.9)',
+                    borderRadius: '8px',
+                    border: `1px solid ${isSelected ? COLORS.skyBlue : COLORS.neutral200}`,
+                    fontSize: '0.75rem',
+                  }}
+                >
+                  <label style={{ display: 'flex', alignItems: 'start', gap: '0.5rem', cursor: 'pointer' }}>
+                    <input
+                      type="checkbox"
+                      checked={isSelected}
+                      onChange={() => handleToggleCompare(revision.id)}
+                      aria-label={`Compare revision ${revisions.length - index}`}
+                    />
+                    <span style={{ flex: 1 }}>
+                      <strong style={{ color: COLORS.neutral900 }}>
+                        #{revisions.length - index} · {format(new Date(revision.savedAt), 'MMM dd, h:mm a')}
+                      </strong>
+                      {index === 0 && <span style={{ color: COLORS.christmasGreen }}> (current)</span>}
+                      <br />
+                      <span style={{ color: COLORS.neutral700 }}>
+                        {revision.authorName || 'Unknown'} — {revision.summary}
+                        {revision.restoredFrom && revisions.some(r => r.id === revision.restoredFrom) &&
+                          ` (restored #${revisionNumber(revision.restoredFrom)})`}
+                      </span>
+                    </span>
+                  </label>
+                  {canRestore && index > 0 && (
+                    <div style={{ marginTop: '0.375rem', textAlign: 'right' }}>
+                      <button
+                        onClick={() => handleRestore(revision)}
+                        disabled={restoringId !== null}
+                        style={{ ...buttonStyle, cursor: restoringId !== null ? 'not-allowed' : 'pointer' }}
+                      >
+                        {restoringId === revision.id ? 'Restoring…' : '↩️ Restore'}
+                      </button>
+                    </div>
+                  )}
+                </li>
+              );
+            })}
+          </ol>
+
+          {changes && (
+            <div style={{ marginTop: '0.75rem' }}>
+              <h4 style={{ margin: '0 0 0.375rem', fontSize: '0.75rem', color: COLORS.neutral900 }}>
+                Changes from #{revisionNumber(compared[0].id)} to #{revisionNumber(compared[1].id)}
+              </h4>
+              {changes.length === 0 ? (
+                <p style={{ margin: 0, fontSize: '0.75rem', color: COLORS.neutral700 }}>No stop changes</p>
+              ) : (
+                <ul style={{ margin: 0, paddingLeft: '1.125rem', fontSize: '0.75rem' }}>
+                  {changes.map(change => (
+                    <li key={`${change.waypointId}-${change.type}`}>
+                      {WAYPOINT_CHANGE_LABELS[change.type]} <strong>{change.label}</strong>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          )}
+        </>
+      )}
+
+      {actionError && (
+        <p role="alert" style={{ margin: '0.5rem 0 0 0', fontSize: '0.75rem', color: COLORS.error }}>
+          {actionError}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,56 @@
+/**
+ * RouteReplayPanel component
+ * Replays a completed run's recorded track to tracking tabs in the same
+ * browser, for demos and testing (dev mode only)
+ */
+
+import { useState } from 'react';
+import { useRouteReplay } from '../hooks';
+import { COLORS } from '../utils/constants';
+import { loadLocalTrack } from '../utils/locationHistory';
+import { SimulationControls } from './SimulationControls';
+import type { Route } from '../types';
+
+export interface RouteReplayPanelProps {
+  route: Route;
+}
+
+export function RouteReplayPanel({ route }: RouteReplayPanelProps) {
+  const [track] = useState(() => loadLocalTrack(route.id));
+  const { canReplay, isConnected, state, play, pause, seek, setRate } = useRouteReplay(route.id, track);
+
+  return (
+    <div style={{ marginTop: '1.5rem', paddingTop: '1rem', borderTop: `1px solid ${COLORS.neutral200}` }}>
+      <h3 style={{ margin: 0, marginBottom: '0.375rem', fontSize: '0.875rem', color: COLORS.neutral700 }}>
+        Replay run
+      </h3>
+      {!canReplay || !state ? (
+        <p style={{ margin: 0, fontSize: '0.75rem', color: COLORS.neutral700 }}>
+          No driven track was recorded for this route.
+        </p>
+      ) : (
+        <>
+          <p style={{ margin: 0, marginBottom: '0.75rem', fontSize: '0.75rem', color: COLORS.neutral700 }}>
+            Plays the recorded track as live updates to{' '}
+            <a href={`/track/${encodeURIComponent(route.id)}`} target="_blank" rel="noreferrer" style={{ color: COLORS.fireRed }}>
+              the tracking page
+            </a>{' '}
+            open in another tab.
+          </p>
+          <SimulationControls
+            state={state}
+            onPlay={play}
+            onPause={pause}
+            onSeek={seek}
+            onRateChange={setRate}
+          />
+          {!isConnected && (
+            <p role="status" style={{ margin: '0.5rem 0 0', fontSize: '0.75rem', color: COLORS.neutral700 }}>
+              Connecting…
+            </p>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,123 @@
+/**
+ * RouteReportPanel component
+ * Downloads or prints the post-run summary report for a completed route
+ */
+
+import { useState } from 'react';
+import { storageAdapter } from '../storage';
+import { COLORS, FLOATING_PANEL } from '../utils/constants';
+import { fetchRouteTrack, loadLocalTrack } from '../utils/locationHistory';
+import { fetchRouteAnalytics, loadLocalViewerSessions, summarizeViewerSessions } from '../utils/viewerAnalytics';
+import { buildRouteReportHtml, downloadRouteReport, printRouteReport } from '../utils/routeReport';
+import type { Route } from '../types';
+
+export interface RouteReportPanelProps {
+  route: Route;
+}
+
+const isDevMode = import.meta.env.VITE_DEV_MODE === 'true';
+
+const buttonStyle = {
+  padding: '0.375rem 0.75rem',
+  background: 'white',
+  color: COLORS.neutral900,
+  border: `1px solid ${COLORS.neutral300}`,
+  borderRadius: FLOATING_PANEL.borderRadius.button,
+  fontSize: '0.75rem',
+  fontWeight: 600,
+  cursor: 'pointer',
+};
+
+/**
+ * Gather everything the report shows. Only the route is required: a missing
+ * track, viewer stats or brigade name leaves that part of the report out.
+ */
+async function loadRouteReport(route: Route): Promise<string> {
+  const [track, analytics, brigade] = await Promise.all([
+    (isDevMode ? Promise.resolve(loadLocalTrack(route.id)) : fetchRouteTrack(route.id))
+      .catch((err) => {
+        console.error('[RouteReport] Failed to load track:', err);
+        return [];
+      }),
+    (isDevMode
+      ? Promise.resolve(summarizeViewerSessions(route.id, loadLocalViewerSessions(route.id), Date.now()))
+      : fetchRouteAnalytics(route.id))
+      .catch((err) => {
+        console.error('[RouteReport] Failed to load viewer analytics:', err);
+        return null;
+      }),
+    storageAdapter.getBrigade(route.brigadeId).catch(() => null),
+  ]);
+
+  return buildRouteReportHtml({
+    route,
+    track,
+    analytics,
+    brigadeName: brigade?.name,
+    generatedAt: new Date(),
+  });
+}
+
+export function RouteReportPanel({ route }: RouteReportPanelProps) {
+  const [isGenerating, setIsGenerating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const generate = async (output: 'download' | 'print') => {
+    // Open the print window while still handling the click, so it isn't blocked
+    const reportWindow = output === 'print' ? window.open('', '_blank') : null;
+    if (output === 'print' && !reportWindow) {
+      setError('Allow pop-ups for this site to print the report.');
+      return;
+    }
+
+    setIsGenerating(true);
+    setError(null);
+    try {
+      const html = await loadRouteReport(route);
+      if (reportWindow) {
+        printRouteReport(reportWindow, html);
+      } else {
+        downloadRouteReport(route, html);
+      }
+    } catch (err) {
+      reportWindow?.close();
+      console.error('[RouteReport] Failed to generate report:', err);
+      setError(err instanceof Error ? err.message : 'Failed to generate report');
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  return (
+    <div style={{ marginTop: '1.5rem', paddingTop: '1rem', borderTop: `1px solid ${COLORS.neutral200}` }}>
+      <h3 style={{ margin: 0, marginBottom: '0.375rem', fontSize: '0.875rem', color: COLORS.neutral700 }}>
+        Run report
+      </h3>
+      <p style={{ margin: 0, marginBottom: '0.75rem', fontSize: '0.75rem', color: COLORS.neutral700 }}>
+        Map, distance, timings for every stop and viewer stats, for annual reports and insurance logs.
+      </p>
+      <div style={{ display: 'flex', gap: '0.5rem', flexWrap: 'wrap' }}>
+        <button
+          onClick={() => generate('print')}
+          disabled={isGenerating}
+          style={{ ...buttonStyle, cursor: isGenerating ? 'not-allowed' : 'pointer' }}
+        >
+          🖨️ Print / Save as PDF
+        </button>
+        <button
+          onClick={() => generate('download')}
+          disabled={isGenerating}
+          style={{ ...buttonStyle, cursor: isGenerating ? 'not-allowed' : 'pointer' }}
+        >
+          ⬇️ Download HTML
+        </button>
+      </div>
+
+      {error && (
+        <p role="alert" style={{ margin: '0.5rem 0 0 0', fontSize: '0.75rem', color: COLORS.error }}>
+          {error}
+        </p>
+      )}
+    </div>
+  );
+}
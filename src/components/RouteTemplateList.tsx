@@ -0,0 +1,154 @@
+/**
+ * RouteTemplateList component
+ * A brigade's saved route templates, each of which can be turned into a new
+ * draft route for a chosen date and start time
+ */
+
+import { useState } from 'react';
+import type { RouteTemplate } from '../types';
+import type { TemplateInstanceOptions } from '../utils/routeTemplates';
+import { COLORS, FLOATING_PANEL } from '../utils/constants';
+
+export interface RouteTemplateListProps {
+  templates: RouteTemplate[];
+  onUse: (template: RouteTemplate, options: TemplateInstanceOptions) => Promise<void>;
+  onDelete: (templateId: string) => Promise<void>;
+}
+
+const buttonStyle = {
+  padding: '0.5rem 0.875rem',
+  border: `2px solid ${COLORS.neutral300}`,
+  borderRadius: FLOATING_PANEL.borderRadius.button,
+  background: 'white',
+  color: COLORS.neutral900,
+  fontSize: '0.875rem',
+  fontWeight: 600,
+  cursor: 'pointer',
+};
+
+const inputStyle = {
+  padding: '0.5rem',
+  border: `1px solid ${COLORS.neutral300}`,
+  borderRadius: FLOATING_PANEL.borderRadius.button,
+  fontSize: '0.875rem',
+};
+
+function UseTemplateForm({
+  template,
+  onSubmit,
+  onCancel,
+}: {
+  template: RouteTemplate;
+  onSubmit: (options: TemplateInstanceOptions) => Promise<void>;
+  onCancel: () => void;
+}) {
+  const [date, setDate] = useState('');
+  const [startTime, setStartTime] = useState(template.startTime);
+  const [shiftScheduledTimes, setShiftScheduledTimes] = useState(true);
+  const [isCreating, setIsCreating] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsCreating(true);
+    try {
+      await onSubmit({ date, startTime, shiftScheduledTimes });
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} style={{ display: 'flex', flexWrap: 'wrap', alignItems: 'end', gap: '0.75rem', marginTop: '1rem' }}>
+      <label style={{ display: 'flex', flexDirection: 'column', gap: '0.25rem', fontSize: '0.75rem', color: COLORS.neutral700 }}>
+        Date
+        <input type="date" required value={date} onChange={(e) => setDate(e.target.value)} style={inputStyle} />
+      </label>
+      <label style={{ display: 'flex', flexDirection: 'column', gap: '0.25rem', fontSize: '0.75rem', color: COLORS.neutral700 }}>
+        Start time
+        <input type="time" required value={startTime} onChange={(e) => setStartTime(e.target.value)} style={inputStyle} />
+      </label>
+      <label style={{ display: 'flex', alignItems: 'center', gap: '0.375rem', fontSize: '0.875rem', color: COLORS.neutral900 }}>
+        <input
+          type="checkbox"
+          checked={shiftScheduledTimes}
+          onChange={(e) => setShiftScheduledTimes(e.target.checked)}
+        />
+        Shift scheduled times with the start time
+      </label>
+      <div style={{ display: 'flex', gap: '0.5rem' }}>
+        <button type="button" onClick={onCancel} style={buttonStyle}>
+          Cancel
+        </button>
+        <button
+          type="submit"
+          disabled={isCreating}
+          style={{ ...buttonStyle, border: 'none', background: COLORS.fireRed, color: 'white', opacity: isCreating ? 0.6 : 1 }}
+        >
+          {isCreating ? 'Creating...' : 'Create route'}
+        </button>
+      </div>
+    </form>
+  );
+}
+
+export function RouteTemplateList({ templates, onUse, onDelete }: RouteTemplateListProps) {
+  const [usingTemplateId, setUsingTemplateId] = useState<string | null>(null);
+
+  const handleDelete = async (template: RouteTemplate) => {
+    if (!confirm(`Delete the "${template.name}" template?`)) {
+      return;
+    }
+    try {
+      await onDelete(template.id);
+    } catch (err) {
+      console.error('Failed to delete route template:', err);
+      alert('Failed to delete template. Please try again.');
+    }
+  };
+
+  return (
+    <div style={{ display: 'flex', flexDirection: 'column', gap: '0.75rem' }}>
+      {templates.map(template => (
+        <div
+          key={template.id}
+          style={{
+            backgroundColor: 'white',
+            borderRadius: '16px',
+            padding: '1rem 1.5rem',
+            boxShadow: '0 2px 8px rgba(0,0,0,0.1)',
+            border: `2px solid ${COLORS.neutral200}`,
+          }}
+        >
+          <div style={{ display: 'flex', alignItems: 'center', gap: '1rem', flexWrap: 'wrap' }}>
+            <div style={{ flex: 1, minWidth: '200px' }}>
+              <div style={{ fontWeight: 600, color: COLORS.neutral900 }}>{template.name}</div>
+              <div style={{ fontSize: '0.875rem', color: COLORS.neutral700 }}>
+                {template.waypoints.length} {template.waypoints.length === 1 ? 'stop' : 'stops'} · starts {template.startTime}
+                {template.vehicles?.length ? ` · ${template.vehicles.length} vehicles` : ''}
+              </div>
+            </div>
+            {usingTemplateId !== template.id && (
+              <button onClick={() => setUsingTemplateId(template.id)} style={buttonStyle}>
+                📋 Use template
+              </button>
+            )}
+            <button
+              onClick={() => handleDelete(template)}
+              aria-label={`Delete ${template.name} template`}
+              style={{ ...buttonStyle, color: COLORS.error }}
+            >
+              🗑️
+            </button>
+          </div>
+          {usingTemplateId === template.id && (
+            <UseTemplateForm
+              template={template}
+              onSubmit={(options) => onUse(template, options)}
+              onCancel={() => setUsingTemplateId(null)}
+            />
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -6,15 +6,16 @@
 
 import { SharePanel } from './SharePanel';
 import { COLORS, Z_INDEX } from '../utils/constants';
-import type { Route } from '../types';
+import type { ShareableRoute } from './SharePanel';
 
 export interface ShareModalProps {
-  route: Route;
+  route: ShareableRoute;
   isOpen: boolean;
   onClose: () => void;
+  showEmbedCode?: boolean;
 }
 
-export function ShareModal({ route, isOpen, onClose }: ShareModalProps) {
+export function ShareModal({ route, isOpen, onClose, showEmbedCode = true }: ShareModalProps) {
   if (!isOpen) return null;
 
   const handleBackdropClick = (e: React.MouseEvent<HTMLDivElement>) => {
@@ -77,7 +78,7 @@ export function ShareModal({ route, isOpen, onClose }: ShareModalProps) {
           ✕
         </button>
 
-        <SharePanel route={route} showPrintButton={true} />
+        <SharePanel route={route} showPrintButton={true} showEmbedCode={showEmbedCode} />
       </div>
     </div>
   );
@@ -1,21 +1,31 @@
 /**
  * SharePanel component
  * Displays shareable link, QR code, and social media share buttons
- * For published routes only
+ * For published routes and multi-night events; routes also get website embed code
  */
 
 import { useState, useRef, useEffect } from 'react';
 import { QRCodeCanvas } from 'qrcode.react';
 import { COLORS, FLOATING_PANEL } from '../utils/constants';
+import { EmbedCodePanel } from './EmbedCodePanel';
 import type { Route } from '../types';
 
+/**
+ * What a share panel needs to know about a route or event
+ */
+export type ShareableRoute = Pick<Route, 'id' | 'name' | 'date' | 'description' | 'shareableLink'> & {
+  startTime?: string;
+};
+
 export interface SharePanelProps {
-  route: Route;
+  route: ShareableRoute;
   showPrintButton?: boolean;
   compact?: boolean;
+  /** Offer website embed code (routes only - events have no single map) */
+  showEmbedCode?: boolean;
 }
 
-export function SharePanel({ route, showPrintButton = true, compact = false }: SharePanelProps) {
+export function SharePanel({ route, showPrintButton = true, compact = false, showEmbedCode = true }: SharePanelProps) {
   const [copySuccess, setCopySuccess] = useState(false);
   const [showPrintView, setShowPrintView] = useState(false);
   const qrRef = useRef<HTMLDivElement>(null);
@@ -168,7 +178,7 @@ export function SharePanel({ route, showPrintButton = true, compact = false }: S
             {route.name}
           </h2>
           <p style={{ color: COLORS.neutral700, fontSize: '1.1rem', marginBottom: '2rem' }}>
-            {route.date} at {route.startTime}
+            {route.startTime ? `${route.date} at ${route.startTime}` : route.date}
           </p>
 
           <div style={{ marginBottom: '2rem' }}>
@@ -438,6 +448,8 @@ export function SharePanel({ route, showPrintButton = true, compact = false }: S
           </button>
         </div>
       </div>
+
+      {showEmbedCode && <EmbedCodePanel route={route} />}
     </div>
   );
 }
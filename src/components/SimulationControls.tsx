@@ -0,0 +1,74 @@
+/**
+ * SimulationControls component
+ * Play/pause, seek and playback speed for a route simulation or replay
+ */
+
+import { COLORS, FLOATING_PANEL } from '../utils/constants';
+import { SIMULATION_RATES, formatSimulationTime } from '../utils/simulation';
+import type { SimulationPlayerState } from '../utils/simulation';
+
+export interface SimulationControlsProps {
+  state: SimulationPlayerState;
+  onPlay: () => void;
+  onPause: () => void;
+  onSeek: (elapsed: number) => void;
+  onRateChange: (rate: number) => void;
+  /** Shown before the controls, e.g. "Simulating" */
+  label?: string;
+}
+
+export function SimulationControls({ state, onPlay, onPause, onSeek, onRateChange, label }: SimulationControlsProps) {
+  const { elapsed, duration, isPlaying, rate } = state;
+
+  return (
+    <div
+      role="group"
+      aria-label="Simulation controls"
+      style={{
+        display: 'flex',
+        alignItems: 'center',
+        gap: '0.5rem',
+        fontSize: '0.75rem',
+        color: COLORS.neutral900,
+      }}
+    >
+      {label && <span style={{ fontWeight: 700, color: COLORS.fireRed }}>{label}</span>}
+      <button
+        onClick={isPlaying ? onPause : onPlay}
+        aria-label={isPlaying ? 'Pause' : 'Play'}
+        style={{
+          padding: '0.25rem 0.5rem',
+          background: 'white',
+          border: `1px solid ${COLORS.neutral300}`,
+          borderRadius: FLOATING_PANEL.borderRadius.button,
+          cursor: 'pointer',
+        }}
+      >
+        {isPlaying ? '⏸' : '▶️'}
+      </button>
+      <input
+        type="range"
+        min={0}
+        max={Math.max(1, Math.round(duration))}
+        step={1}
+        value={Math.round(elapsed)}
+        onChange={(e) => onSeek(Number(e.target.value))}
+        aria-label="Seek"
+        style={{ flex: 1, minWidth: '80px' }}
+      />
+      <span style={{ fontVariantNumeric: 'tabular-nums', whiteSpace: 'nowrap' }}>
+        {formatSimulationTime(elapsed)} / {formatSimulationTime(duration)}
+      </span>
+      <select
+        value={rate}
+        onChange={(e) => onRateChange(Number(e.target.value))}
+        aria-label="Playback speed"
+        style={{ padding: '0.25rem', border: `1px solid ${COLORS.neutral300}`, borderRadius: '6px' }}
+      >
+        {SIMULATION_RATES.map(option => (
+          <option key={option} value={option}>{option}×</option>
+        ))}
+      </select>
+    </div>
+  );
+}
@@ -0,0 +1,89 @@
+/**
+ * VehiclePanel component
+ * Editor controls for splitting a Santa run between several vehicles: each
+ * vehicle has a callsign and colour, and stops are assigned in the waypoint list
+ */
+
+import type { Route } from '../types';
+import { COLORS, FLOATING_PANEL } from '../utils/constants';
+import { getVehicleWaypoints } from '../utils/vehicles';
+
+export interface VehiclePanelProps {
+  route: Pick<Route, 'vehicles' | 'waypoints'>;
+  onAdd: () => void;
+  onUpdate: (vehicleId: string, updates: { callsign?: string; color?: string }) => void;
+  onRemove: (vehicleId: string) => void;
+}
+
+const buttonStyle = {
+  padding: '0.5rem 0.875rem',
+  border: `2px solid ${COLORS.neutral300}`,
+  borderRadius: FLOATING_PANEL.borderRadius.button,
+  background: 'white',
+  color: COLORS.neutral900,
+  fontSize: '0.875rem',
+  fontWeight: 600,
+  cursor: 'pointer',
+};
+
+export function VehiclePanel({ route, onAdd, onUpdate, onRemove }: VehiclePanelProps) {
+  const vehicles = route.vehicles ?? [];
+
+  return (
+    <div style={{ display: 'flex', flexDirection: 'column', gap: '0.75rem' }}>
+      {vehicles.length === 0 ? (
+        <p style={{ margin: 0, fontSize: '0.875rem', color: COLORS.neutral700 }}>
+          One vehicle drives every stop. Add vehicles to split the run between several trucks.
+        </p>
+      ) : (
+        <>
+          <p style={{ margin: 0, fontSize: '0.75rem', color: COLORS.neutral700 }}>
+            Assign each stop to a vehicle in the waypoint list. Unassigned stops go to {vehicles[0].callsign || 'the first vehicle'}.
+          </p>
+          {vehicles.map(vehicle => {
+            const stopCount = getVehicleWaypoints(route, vehicle.id).length;
+            return (
+              <div key={vehicle.id} style={{ display: 'flex', alignItems: 'center', gap: '0.5rem' }}>
+                <input
+                  type="color"
+                  value={vehicle.color}
+                  onChange={(e) => onUpdate(vehicle.id, { color: e.target.value })}
+                  aria-label={`Colour for ${vehicle.callsign || 'vehicle'}`}
+                  style={{ width: '2rem', height: '2rem', padding: 0, border: 'none', background: 'none', cursor: 'pointer' }}
+                />
+                <input
+                  type="text"
+                  value={vehicle.callsign}
+                  onChange={(e) => onUpdate(vehicle.id, { callsign: e.target.value })}
+                  aria-label="Vehicle callsign"
+                  placeholder="Callsign"
+                  style={{
+                    flex: 1,
+                    minWidth: 0,
+                    padding: '0.5rem',
+                    border: `1px solid ${COLORS.neutral300}`,
+                    borderRadius: FLOATING_PANEL.borderRadius.button,
+                    fontSize: '0.875rem',
+                  }}
+                />
+                <span style={{ fontSize: '0.75rem', color: COLORS.neutral700, whiteSpace: 'nowrap' }}>
+                  {stopCount} {stopCount === 1 ? 'stop' : 'stops'}
+                </span>
+                <button
+                  onClick={() => onRemove(vehicle.id)}
+                  aria-label={`Remove ${vehicle.callsign || 'vehicle'}`}
+                  style={{ ...buttonStyle, padding: '0.375rem 0.5rem', color: COLORS.error }}
+                >
+                  ✕
+                </button>
+              </div>
+            );
+          })}
+        </>
+      )}
+      <button onClick={onAdd} style={buttonStyle}>
+        🚒 Add vehicle
+      </button>
+    </div>
+  );
+}
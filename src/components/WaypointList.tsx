@@ -14,16 +14,38 @@ import {
   verticalListSortingStrategy,
 } from '@dnd-kit/sortable';
 import { CSS } from '@dnd-kit/utilities';
-import type { Waypoint } from '../types';
+import type { Vehicle, Waypoint } from '../types';
 import { sortWaypoints } from '../utils/routeHelpers';
+import { findVehicle, getWaypointVehicleId } from '../utils/vehicles';
+import {
+  DEFAULT_GEOFENCE_RADIUS_METERS,
+  MAX_GEOFENCE_RADIUS_METERS,
+  MIN_GEOFENCE_RADIUS_METERS,
+} from '../utils/geofence';
+
+export type WaypointSchedule = Pick<Waypoint, 'scheduledArrival' | 'dwellMinutes' | 'geofenceRadius'>;
 
 export interface WaypointListProps {
   waypoints: Waypoint[];
   onReorder: (fromIndex: number, toIndex: number) => void;
   onEdit?: (waypoint: Waypoint) => void;
   onDelete?: (waypointId: string) => void;
+  onScheduleChange?: (waypointId: string, schedule: WaypointSchedule) => void;
+  defaultDwellMinutes?: number;
+  vehicles?: Vehicle[];
+  onVehicleChange?: (waypointId: string, vehicleId: string) => void;
   editable?: boolean;
   className?: string;
+  selectedBy?: Record<string, WaypointEditor[]>;  // Waypoint ID → other editors who have it selected
+}
+
+/**
+ * Another editor with a waypoint selected
+ */
+export interface WaypointEditor {
+  id: string;
+  name: string;
+  color: string;
 }
 
 interface SortableItemProps {
@@ -31,10 +53,169 @@ interface SortableItemProps {
   index: number;
   onEdit?: (waypoint: Waypoint) => void;
   onDelete?: (waypointId: string) => void;
+  onScheduleChange?: (waypointId: string, schedule: WaypointSchedule) => void;
+  defaultDwellMinutes?: number;
+  vehicles?: Vehicle[];
+  onVehicleChange?: (waypointId: string, vehicleId: string) => void;
   editable: boolean;
+  selectedBy?: WaypointEditor[];
+}
+
+const scheduleInputStyle = {
+  padding: '0.25rem 0.375rem',
+  border: '1px solid #e0e0e0',
+  borderRadius: '6px',
+  fontSize: '0.8125rem',
+  fontFamily: 'inherit',
+};
+
+/**
+ * Target arrival time, dwell time and arrival radius for a stop
+ */
+function WaypointScheduleFields({
+  waypoint,
+  index,
+  onScheduleChange,
+  defaultDwellMinutes,
+}: {
+  waypoint: Waypoint;
+  index: number;
+  onScheduleChange?: (waypointId: string, schedule: WaypointSchedule) => void;
+  defaultDwellMinutes?: number;
+}) {
+  if (!onScheduleChange) {
+    if (!waypoint.scheduledArrival && !waypoint.dwellMinutes) {
+      return null;
+    }
+    return (
+      <div style={{ fontSize: '0.8125rem', color: '#616161', marginTop: '0.25rem' }}>
+        {waypoint.scheduledArrival && `🕐 ${waypoint.scheduledArrival}`}
+        {waypoint.scheduledArrival && waypoint.dwellMinutes ? ' • ' : ''}
+        {waypoint.dwellMinutes ? `${waypoint.dwellMinutes} min stop` : ''}
+      </div>
+    );
+  }
+
+  const label = waypoint.name || `Waypoint ${index + 1}`;
+
+  return (
+    <div style={{ display: 'flex', flexWrap: 'wrap', gap: '0.5rem', marginTop: '0.5rem', fontSize: '0.8125rem', color: '#616161' }}>
+      <label style={{ display: 'flex', alignItems: 'center', gap: '0.25rem' }}>
+        Arrive
+        <input
+          type="time"
+          value={waypoint.scheduledArrival ?? ''}
+          onChange={(e) => onScheduleChange(waypoint.id, {
+            scheduledArrival: e.target.value || undefined,
+            dwellMinutes: waypoint.dwellMinutes,
+            geofenceRadius: waypoint.geofenceRadius,
+          })}
+          aria-label={`Target arrival time for ${label}`}
+          style={scheduleInputStyle}
+        />
+      </label>
+      <label style={{ display: 'flex', alignItems: 'center', gap: '0.25rem' }}>
+        Stop for
+        <input
+          type="number"
+          min={0}
+          max={240}
+          value={waypoint.dwellMinutes ?? ''}
+          placeholder={defaultDwellMinutes !== undefined ? String(defaultDwellMinutes) : undefined}
+          onChange={(e) => {
+            const minutes = parseInt(e.target.value, 10);
+            onScheduleChange(waypoint.id, {
+              scheduledArrival: waypoint.scheduledArrival,
+              dwellMinutes: isNaN(minutes) ? undefined : Math.max(0, minutes),
+              geofenceRadius: waypoint.geofenceRadius,
+            });
+          }}
+          aria-label={`Dwell time in minutes for ${label}`}
+          style={{ ...scheduleInputStyle, width: '4rem' }}
+        />
+        min
+      </label>
+      <label style={{ display: 'flex', alignItems: 'center', gap: '0.25rem' }}>
+        Arrived within
+        <input
+          type="number"
+          min={MIN_GEOFENCE_RADIUS_METERS}
+          max={MAX_GEOFENCE_RADIUS_METERS}
+          step={5}
+          value={waypoint.geofenceRadius ?? ''}
+          placeholder={String(DEFAULT_GEOFENCE_RADIUS_METERS)}
+          onChange={(e) => {
+            const meters = parseInt(e.target.value, 10);
+            onScheduleChange(waypoint.id, {
+              scheduledArrival: waypoint.scheduledArrival,
+              dwellMinutes: waypoint.dwellMinutes,
+              geofenceRadius: isNaN(meters) || meters <= 0 ? undefined : meters,
+            });
+          }}
+          aria-label={`Arrival radius in meters for ${label}`}
+          style={{ ...scheduleInputStyle, width: '4rem' }}
+        />
+        m
+      </label>
+    </div>
+  );
 }
 
-function SortableItem({ waypoint, index, onEdit, onDelete, editable }: SortableItemProps) {
+/**
+ * Vehicle assigned to a stop, and the vehicle that visited it
+ */
+function WaypointVehicleField({
+  waypoint,
+  index,
+  vehicles,
+  onVehicleChange,
+}: {
+  waypoint: Waypoint;
+  index: number;
+  vehicles: Vehicle[];
+  onVehicleChange?: (waypointId: string, vehicleId: string) => void;
+}) {
+  const assignedId = getWaypointVehicleId({ vehicles }, waypoint);
+  const visitedBy = findVehicle({ vehicles }, waypoint.completedByVehicleId);
+
+  if (!onVehicleChange) {
+    const assigned = findVehicle({ vehicles }, assignedId);
+    return (
+      <div style={{ fontSize: '0.8125rem', color: '#616161', marginTop: '0.25rem' }}>
+        {visitedBy ? `✓ Visited by ${visitedBy.callsign}` : assigned && `🚒 ${assigned.callsign}`}
+      </div>
+    );
+  }
+
+  return (
+    <label style={{ display: 'flex', alignItems: 'center', gap: '0.25rem', marginTop: '0.5rem', fontSize: '0.8125rem', color: '#616161' }}>
+      Vehicle
+      <select
+        value={assignedId}
+        onChange={(e) => onVehicleChange(waypoint.id, e.target.value)}
+        aria-label={`Vehicle for ${waypoint.name || `Waypoint ${index + 1}`}`}
+        style={scheduleInputStyle}
+      >
+        {vehicles.map(vehicle => (
+          <option key={vehicle.id} value={vehicle.id}>{vehicle.callsign || 'Unnamed vehicle'}</option>
+        ))}
+      </select>
+    </label>
+  );
+}
+
+function SortableItem({
+  waypoint,
+  index,
+  onEdit,
+  onDelete,
+  onScheduleChange,
+  defaultDwellMinutes,
+  vehicles,
+  onVehicleChange,
+  editable,
+  selectedBy = [],
+}: SortableItemProps) {
   const {
     attributes,
     listeners,
@@ -50,6 +231,10 @@ function SortableItem({ waypoint, index, onEdit, onDelete, editable }: SortableI
     opacity: isDragging ? 0.5 : 1,
   };
 
+  const vehicle = vehicles && vehicles.length > 0
+    ? findVehicle({ vehicles }, getWaypointVehicleId({ vehicles }, waypoint))
+    : undefined;
+
   return (
     <div
       ref={setNodeRef}
@@ -62,7 +247,7 @@ function SortableItem({ waypoint, index, onEdit, onDelete, editable }: SortableI
         gap: '1rem',
         padding: '1rem',
         backgroundColor: 'white',
-        border: '1px solid #e0e0e0',
+        border: selectedBy.length > 0 ? `2px solid ${selectedBy[0].color}` : '1px solid #e0e0e0',
         borderRadius: '8px',
         marginBottom: '0.5rem',
         boxShadow: isDragging ? '0 4px 12px rgba(0,0,0,0.15)' : '0 1px 3px rgba(0,0,0,0.1)',
@@ -88,7 +273,7 @@ function SortableItem({ waypoint, index, onEdit, onDelete, editable }: SortableI
           width: '32px',
           height: '32px',
           borderRadius: '50%',
-          backgroundColor: waypoint.isCompleted ? '#43A047' : '#D32F2F',
+          backgroundColor: waypoint.isCompleted ? '#43A047' : vehicle?.color ?? '#D32F2F',
           color: 'white',
           display: 'flex',
           alignItems: 'center',
@@ -105,6 +290,25 @@ function SortableItem({ waypoint, index, onEdit, onDelete, editable }: SortableI
           <div style={{ fontWeight: 600, marginBottom: '0.25rem' }}>
             {waypoint.name || `Waypoint ${index + 1}`}
           </div>
+          {selectedBy.length > 0 && (
+            <div style={{ display: 'flex', flexWrap: 'wrap', gap: '0.25rem', marginBottom: '0.25rem' }}>
+              {selectedBy.map(editor => (
+                <span
+                  key={editor.id}
+                  style={{
+                    padding: '0.125rem 0.5rem',
+                    borderRadius: '999px',
+                    backgroundColor: editor.color,
+                    color: 'white',
+                    fontSize: '0.75rem',
+                    fontWeight: 600,
+                  }}
+                >
+                  ✏️ {editor.name}
+                </span>
+              ))}
+            </div>
+          )}
           {waypoint.address && (
             <div style={{ fontSize: '0.875rem', color: '#616161', overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
               {waypoint.address}
@@ -115,6 +319,20 @@ function SortableItem({ waypoint, index, onEdit, onDelete, editable }: SortableI
               {waypoint.notes}
             </div>
           )}
+          <WaypointScheduleFields
+            waypoint={waypoint}
+            index={index}
+            onScheduleChange={editable ? onScheduleChange : undefined}
+            defaultDwellMinutes={defaultDwellMinutes}
+          />
+          {vehicles && vehicles.length > 0 && (
+            <WaypointVehicleField
+              waypoint={waypoint}
+              index={index}
+              vehicles={vehicles}
+              onVehicleChange={editable ? onVehicleChange : undefined}
+            />
+          )}
         </div>
 
         {/* Action Buttons */}
@@ -166,8 +384,13 @@ export function WaypointList({
   onReorder,
   onEdit,
   onDelete,
+  onScheduleChange,
+  defaultDwellMinutes,
+  vehicles,
+  onVehicleChange,
   editable = true,
   className = '',
+  selectedBy,
 }: WaypointListProps) {
   const sensors = useSensors(
     useSensor(PointerSensor),
@@ -229,7 +452,12 @@ export function WaypointList({
               index={index}
               onEdit={onEdit}
               onDelete={onDelete}
+              onScheduleChange={onScheduleChange}
+              defaultDwellMinutes={defaultDwellMinutes}
+              vehicles={vehicles}
+              onVehicleChange={onVehicleChange}
               editable={editable}
+              selectedBy={selectedBy?.[waypoint.id]}
             />
           ))}
         </SortableContext>
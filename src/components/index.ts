@@ -3,6 +3,7 @@ export { AppLayout } from './AppLayout';
 export { MapView } from './MapView';
 export { RouteStatusBadge } from './RouteStatusBadge';
 export { WaypointList } from './WaypointList';
+export { OptimizeOrderPanel } from './OptimizeOrderPanel';
 export { AddressSearch } from './AddressSearch';
 export { NavigationHeader } from './NavigationHeader';
 export { NavigationMap } from './NavigationMap';
@@ -10,6 +11,20 @@ export { NavigationPanel } from './NavigationPanel';
 export { ManeuverIcon } from './ManeuverIcon';
 export { ProgressBar } from './ProgressBar';
 export { SharePanel } from './SharePanel';
+export { EmbedCodePanel } from './EmbedCodePanel';
+export { OfflineMapPanel } from './OfflineMapPanel';
+export { RouteExportPanel } from './RouteExportPanel';
+export { RouteHistoryPanel } from './RouteHistoryPanel';
+export { RouteAnalyticsPanel } from './RouteAnalyticsPanel';
+export { RouteReportPanel } from './RouteReportPanel';
+export { RouteReplayPanel } from './RouteReplayPanel';
+export { SimulationControls } from './SimulationControls';
+export { NearbyAlertPanel } from './NearbyAlertPanel';
+export { VehiclePanel } from './VehiclePanel';
+export { RouteConflictDialog } from './RouteConflictDialog';
+export { EditorPresenceBar } from './EditorPresenceBar';
+export { RouteTemplateList } from './RouteTemplateList';
+export { EventList } from './EventList';
 export { ShareModal } from './ShareModal';
 export { SEO } from './SEO';
 export { SkeletonBox, RouteCardSkeleton, DashboardSkeleton, MapSkeleton } from './LoadingSkeleton';
@@ -22,16 +37,31 @@ export { DashboardSkeleton as LoadingSkeleton } from './LoadingSkeleton';
 
 export type { AppHeaderProps } from './AppHeader';
 export type { AppLayoutProps } from './AppLayout';
-export type { MapViewProps } from './MapView';
+export type { MapViewProps, MapCursor } from './MapView';
 export type { RouteStatusBadgeProps } from './RouteStatusBadge';
-export type { WaypointListProps } from './WaypointList';
+export type { WaypointListProps, WaypointSchedule, WaypointEditor } from './WaypointList';
+export type { OptimizeOrderPanelProps, OptimizeOrderSettings } from './OptimizeOrderPanel';
 export type { AddressSearchProps } from './AddressSearch';
 export type { NavigationHeaderProps } from './NavigationHeader';
 export type { NavigationMapProps } from './NavigationMap';
 export type { NavigationPanelProps } from './NavigationPanel';
 export type { ManeuverIconProps } from './ManeuverIcon';
 export type { ProgressBarProps } from './ProgressBar';
-export type { SharePanelProps } from './SharePanel';
+export type { SharePanelProps, ShareableRoute } from './SharePanel';
+export type { EmbedCodePanelProps } from './EmbedCodePanel';
+export type { OfflineMapPanelProps } from './OfflineMapPanel';
+export type { RouteExportPanelProps } from './RouteExportPanel';
+export type { RouteHistoryPanelProps } from './RouteHistoryPanel';
+export type { RouteAnalyticsPanelProps } from './RouteAnalyticsPanel';
+export type { RouteReportPanelProps } from './RouteReportPanel';
+export type { RouteReplayPanelProps } from './RouteReplayPanel';
+export type { SimulationControlsProps } from './SimulationControls';
+export type { NearbyAlertPanelProps, NearbyAlertPoint } from './NearbyAlertPanel';
+export type { VehiclePanelProps } from './VehiclePanel';
+export type { RouteConflictDialogProps } from './RouteConflictDialog';
+export type { EditorPresenceBarProps } from './EditorPresenceBar';
+export type { RouteTemplateListProps } from './RouteTemplateList';
+export type { EventListProps } from './EventList';
 export type { ShareModalProps } from './ShareModal';
 export type { SEOProps } from './SEO';
 export type { RoleBadgeProps } from './RoleBadge';
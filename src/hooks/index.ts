@@ -1,7 +1,20 @@
 export { useRoutes } from './useRoutes';
+export { useRouteTemplates } from './useRouteTemplates';
+export { useRouteRevisions } from './useRouteRevisions';
+export { useEvents } from './useEvents';
 export { useRouteEditor } from './useRouteEditor';
 export { useGeolocation } from './useGeolocation';
 export { useNavigation } from './useNavigation';
 export { useWebPubSub } from './useWebPubSub';
 export { useLocationBroadcast } from './useLocationBroadcast';
+export { useNavigatorOutbox } from './useNavigatorOutbox';
+export { useLocationHistory } from './useLocationHistory';
+export { useLastKnownLocation } from './useLastKnownLocation';
+export { useOfflineTiles } from './useOfflineTiles';
 export { useUserProfile } from './useUserProfile';
+export { useRouteCollaboration } from './useRouteCollaboration';
+export { useAuditLog } from './useAuditLog';
+export { useViewerTracking } from './useViewerTracking';
+export { useRouteAnalytics } from './useRouteAnalytics';
+export { useRouteSimulation } from './useRouteSimulation';
+export { useRouteReplay } from './useRouteReplay';
@@ -0,0 +1,100 @@
+import { useState, useEffect, useCallback } from 'react';
+import { getAccessToken } from '../storage/http';
+import { buildAuditLogQuery } from '../utils/auditLog';
+import type { AuditLogFilters, AuditLogRecord } from '../utils/auditLog';
+
+const API_BASE_URL = import.meta.env.VITE_API_BASE_URL || '/api';
+
+/**
+ * Which audit logs the signed-in user may read
+ */
+export interface AuditLogScopes {
+  /** Site owner with `view_audit_logs`: every brigade, plus system events */
+  allBrigades: boolean;
+  /** Brigades the user is an admin of */
+  brigades: { id: string; name: string }[];
+}
+
+async function fetchAuditApi(path: string) {
+  const token = await getAccessToken();
+  const response = await fetch(`${API_BASE_URL}${path}`, {
+    headers: token ? { Authorization: `Bearer ${token}` } : {},
+  });
+  if (!response.ok) {
+    const body = await response.json().catch(() => ({}));
+    throw new Error(body.message || body.error || `Failed to load audit log: ${response.statusText}`);
+  }
+  return response.json();
+}
+
+/**
+ * Custom hook for reading the audit log through the API.
+ * The audit log only exists server-side, so this talks to /api/audit directly
+ * rather than through the storage adapter.
+ */
+export function useAuditLog(filters: AuditLogFilters) {
+  const [scopes, setScopes] = useState<AuditLogScopes | null>(null);
+  const [entries, setEntries] = useState<AuditLogRecord[]>([]);
+  const [truncated, setTruncated] = useState(false);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<Error | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetchAuditApi('/audit/scopes')
+      .then((result: AuditLogScopes) => {
+        if (!cancelled) setScopes(result);
+      })
+      .catch((err) => {
+        console.error('Error loading audit log scopes:', err);
+        if (!cancelled) setScopes({ allBrigades: false, brigades: [] });
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  // Only site owners can read across brigades; admins start on their first brigade
+  const brigadeId = filters.brigadeId || (scopes && !scopes.allBrigades ? scopes.brigades[0]?.id ?? '' : '');
+  const query = buildAuditLogQuery({ ...filters, brigadeId });
+  const scopesLoaded = scopes !== null;
+  const canQuery = scopesLoaded && (scopes.allBrigades || Boolean(brigadeId));
+
+  const loadEntries = useCallback(async () => {
+    if (!canQuery) {
+      setEntries([]);
+      setTruncated(false);
+      setIsLoading(!scopesLoaded);
+      return;
+    }
+
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const result = await fetchAuditApi(`/audit?${query}`);
+      setEntries(result.entries);
+      setTruncated(result.truncated);
+    } catch (err) {
+      const error = err instanceof Error ? err : new Error('Failed to load audit log');
+      setError(error);
+      console.error('Error loading audit log:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [canQuery, query, scopesLoaded]);
+
+  useEffect(() => {
+    loadEntries();
+  }, [loadEntries]);
+
+  return {
+    scopes,
+    brigadeId,
+    entries,
+    truncated,
+    isLoading,
+    error,
+    refreshEntries: loadEntries,
+  };
+}
@@ -0,0 +1,83 @@
+import { useState, useEffect, useCallback } from 'react';
+import { storageAdapter } from '../storage';
+import type { BrigadeEvent } from '../types';
+import { useAuth } from '../context';
+import { useUserProfile } from './useUserProfile';
+
+/**
+ * Custom hook for managing the current brigade's events.
+ */
+export function useEvents() {
+  const { user } = useAuth();
+  const { memberships } = useUserProfile();
+  const [events, setEvents] = useState<BrigadeEvent[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<Error | null>(null);
+
+  const activeBrigadeId = user?.brigadeId ?? memberships.find(m => m.status === 'active')?.brigadeId;
+
+  const loadEvents = useCallback(async () => {
+    if (!activeBrigadeId) {
+      setEvents([]);
+      setIsLoading(false);
+      return;
+    }
+
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const loadedEvents = await storageAdapter.getEvents(activeBrigadeId);
+      setEvents(loadedEvents.sort((a, b) => b.createdAt.localeCompare(a.createdAt)));
+    } catch (err) {
+      const error = err instanceof Error ? err : new Error('Failed to load events');
+      setError(error);
+      console.error('Error loading events:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [activeBrigadeId]);
+
+  useEffect(() => {
+    loadEvents();
+  }, [loadEvents]);
+
+  const saveEvent = useCallback(async (event: BrigadeEvent) => {
+    if (!activeBrigadeId) {
+      throw new Error('User must be authenticated with a brigade to save events');
+    }
+
+    try {
+      await storageAdapter.saveEvent(activeBrigadeId, { ...event, brigadeId: event.brigadeId || activeBrigadeId });
+      await loadEvents();
+    } catch (err) {
+      const error = err instanceof Error ? err : new Error('Failed to save event');
+      setError(error);
+      throw error;
+    }
+  }, [activeBrigadeId, loadEvents]);
+
+  const deleteEvent = useCallback(async (eventId: string) => {
+    if (!activeBrigadeId) {
+      throw new Error('User must be authenticated with a brigade to delete events');
+    }
+
+    try {
+      await storageAdapter.deleteEvent(activeBrigadeId, eventId);
+      await loadEvents();
+    } catch (err) {
+      const error = err instanceof Error ? err : new Error('Failed to delete event');
+      setError(error);
+      throw error;
+    }
+  }, [activeBrigadeId, loadEvents]);
+
+  return {
+    events,
+    isLoading,
+    error,
+    saveEvent,
+    deleteEvent,
+    refreshEvents: loadEvents,
+  };
+}
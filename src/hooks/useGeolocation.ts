@@ -1,9 +1,11 @@
 /**
  * Custom hook for managing geolocation tracking
  * Provides current position with error handling and permission management
+ * Reads from a route simulation instead of GPS while one is running (see utils/simulation)
  */
 
-import { useState, useEffect, useCallback, useRef } from 'react';
+import { useState, useEffect, useCallback, useRef, useSyncExternalStore } from 'react';
+import { getGeolocationSource, subscribeGeolocationSource } from '../utils/simulation';
 
 export interface GeolocationCoordinates {
   coordinates: [number, number]; // [lng, lat]
@@ -38,6 +40,9 @@ export function useGeolocation(options: UseGeolocationOptions = {}) {
   const [isLoading, setIsLoading] = useState(true);
   const [permission, setPermission] = useState<PermissionState | null>(null);
   const watchIdRef = useRef<number | null>(null);
+  // Watches restart on the new source when a simulation starts or stops
+  const source = useSyncExternalStore(subscribeGeolocationSource, getGeolocationSource);
+  const watchSourceRef = useRef<ReturnType<typeof getGeolocationSource>>(null);
 
   // Check geolocation permission status
   useEffect(() => {
@@ -75,7 +80,7 @@ export function useGeolocation(options: UseGeolocationOptions = {}) {
   }, []);
 
   const getCurrentPosition = useCallback(() => {
-    if (!('geolocation' in navigator)) {
+    if (!source) {
       setError({
         code: -1,
         message: 'Geolocation is not supported by this browser',
@@ -85,7 +90,7 @@ export function useGeolocation(options: UseGeolocationOptions = {}) {
     }
 
     setIsLoading(true);
-    navigator.geolocation.getCurrentPosition(
+    source.getCurrentPosition(
       handleSuccess,
       handleError,
       {
@@ -94,10 +99,10 @@ export function useGeolocation(options: UseGeolocationOptions = {}) {
         maximumAge,
       }
     );
-  }, [enableHighAccuracy, timeout, maximumAge, handleSuccess, handleError]);
+  }, [source, enableHighAccuracy, timeout, maximumAge, handleSuccess, handleError]);
 
   const startWatching = useCallback(() => {
-    if (!('geolocation' in navigator)) {
+    if (!source) {
       setError({
         code: -1,
         message: 'Geolocation is not supported by this browser',
@@ -110,7 +115,7 @@ export function useGeolocation(options: UseGeolocationOptions = {}) {
       return; // Already watching
     }
 
-    const watchId = navigator.geolocation.watchPosition(
+    const watchId = source.watchPosition(
       handleSuccess,
       handleError,
       {
@@ -121,12 +126,14 @@ export function useGeolocation(options: UseGeolocationOptions = {}) {
     );
 
     watchIdRef.current = watchId;
-  }, [enableHighAccuracy, timeout, maximumAge, handleSuccess, handleError]);
+    watchSourceRef.current = source;
+  }, [source, enableHighAccuracy, timeout, maximumAge, handleSuccess, handleError]);
 
   const stopWatching = useCallback(() => {
     if (watchIdRef.current !== null) {
-      navigator.geolocation.clearWatch(watchIdRef.current);
+      watchSourceRef.current?.clearWatch(watchIdRef.current);
       watchIdRef.current = null;
+      watchSourceRef.current = null;
     }
   }, []);
 
@@ -0,0 +1,110 @@
+/**
+ * useLastKnownLocation hook
+ * Loads Santa's last known position when a viewer connects and tracks how old
+ * the displayed position is, so the tracking page can flag stale locations
+ * Multi-vehicle routes keep one position per vehicle; `snapshot` is the newest
+ * Supports both the location API (production) and localStorage (dev mode)
+ */
+
+import { useEffect, useMemo, useState, useCallback } from 'react';
+import type { LocationBroadcast } from '../types';
+import {
+  fetchLastKnownLocations,
+  loadLocalLastLocations,
+  isLocationStale,
+  LOCATION_STALE_AFTER_MS,
+} from '../utils/lastLocation';
+import type { LocationSnapshot } from '../utils/lastLocation';
+
+const isDevMode = import.meta.env.VITE_DEV_MODE === 'true';
+
+// How often the displayed age is refreshed
+const AGE_TICK_MS = 5000;
+
+interface UseLastKnownLocationOptions {
+  routeId: string;
+  staleAfterMs?: number;
+}
+
+export interface VehicleLocationSnapshot extends LocationSnapshot {
+  ageMs: number;
+  isStale: boolean;
+}
+
+function snapshotKey(location: LocationBroadcast): string {
+  return location.vehicleId ?? '';
+}
+
+export function useLastKnownLocation({ routeId, staleAfterMs = LOCATION_STALE_AFTER_MS }: UseLastKnownLocationOptions) {
+  const [snapshotsByVehicle, setSnapshotsByVehicle] = useState<Record<string, LocationSnapshot>>({});
+  const [now, setNow] = useState(() => Date.now());
+
+  // Load the snapshots once per route
+  useEffect(() => {
+    let cancelled = false;
+
+    const load = async () => {
+      try {
+        const results = isDevMode ? loadLocalLastLocations(routeId) : await fetchLastKnownLocations(routeId);
+        if (!cancelled && results.length > 0) {
+          // A live update may already have arrived; keep whichever is newer
+          setSnapshotsByVehicle(prev => {
+            const next = { ...prev };
+            results.forEach(result => {
+              const key = snapshotKey(result.location);
+              if (!next[key] || next[key].receivedAt < result.receivedAt) {
+                next[key] = result;
+              }
+            });
+            return next;
+          });
+        }
+      } catch (err) {
+        // Viewers still get the next live broadcast, so this is not fatal
+        console.error('[LastKnownLocation] Failed to load snapshot:', err);
+      }
+    };
+
+    load();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [routeId]);
+
+  // Keep the displayed age current
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), AGE_TICK_MS);
+    return () => clearInterval(interval);
+  }, []);
+
+  /**
+   * Record that a live location update has just arrived
+   */
+  const markUpdated = useCallback((location: LocationBroadcast) => {
+    const receivedAt = Date.now();
+    setSnapshotsByVehicle(prev => ({ ...prev, [snapshotKey(location)]: { location, receivedAt } }));
+    setNow(receivedAt);
+  }, []);
+
+  // Every vehicle's position with its age, newest first
+  const snapshots = useMemo<VehicleLocationSnapshot[]>(() => (
+    Object.values(snapshotsByVehicle)
+      .sort((a, b) => b.receivedAt - a.receivedAt)
+      .map(s => {
+        const age = Math.max(0, now - s.receivedAt);
+        return { ...s, ageMs: age, isStale: isLocationStale(age, staleAfterMs) };
+      })
+  ), [snapshotsByVehicle, now, staleAfterMs]);
+
+  const snapshot = snapshots[0] ?? null;
+  const ageMs = snapshot ? snapshot.ageMs : null;
+
+  return {
+    snapshot,
+    snapshots,
+    ageMs,
+    isStale: snapshot?.isStale ?? false,
+    markUpdated,
+  };
+}
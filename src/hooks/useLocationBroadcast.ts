@@ -1,67 +1,119 @@
 /**
  * useLocationBroadcast hook
  * Broadcasts GPS location updates from the navigator device
- * Throttles updates to 5 second intervals
+ * Throttles updates to 5 second intervals, except that arriving at or leaving a
+ * stop is sent straight away
+ * Updates that cannot be sent (offline, disconnected or failed) are queued and
+ * replayed in order with their original timestamps once the connection returns
  */
 
 import { useEffect, useRef } from 'react';
 import { useWebPubSub } from './useWebPubSub';
-import type { RouteProgress, LocationBroadcast } from '../types';
+import { useNavigatorOutbox } from './useNavigatorOutbox';
+import type { RouteProgress, LocationBroadcast, Route, WaypointEta, WaypointVisit } from '../types';
 import type { GeolocationCoordinates } from './useGeolocation';
 
 interface UseLocationBroadcastOptions {
   routeId: string;
+  /** Vehicle this device broadcasts as, on a multi-vehicle route */
+  vehicleId?: string;
   position: GeolocationCoordinates | null;
   routeProgress: RouteProgress;
   isNavigating: boolean;
   nextWaypointEta?: string;
+  scheduleDeviation?: number;
+  waypointEtas?: WaypointEta[];
+  visit?: WaypointVisit;
+  saveRoute: (route: Route) => Promise<void>;
 }
 
 const BROADCAST_INTERVAL_MS = 5000; // 5 seconds
 
 export function useLocationBroadcast({
   routeId,
+  vehicleId,
   position,
   routeProgress,
   isNavigating,
   nextWaypointEta,
+  scheduleDeviation,
+  waypointEtas,
+  visit,
+  saveRoute,
 }: UseLocationBroadcastOptions) {
   const lastBroadcastTimeRef = useRef(0);
+  const lastBroadcastVisitRef = useRef<WaypointVisit | undefined>(undefined);
 
-  const { sendLocation, isConnected } = useWebPubSub({
+  const { sendLocation, sendLocationBatch, isConnected } = useWebPubSub({
     routeId,
     role: 'broadcaster',
   });
 
+  const {
+    isOnline,
+    pendingCount,
+    isReplaying,
+    rejectedCount,
+    dismissRejected,
+    queueLocation,
+    persistRoute,
+  } = useNavigatorOutbox({
+    routeId,
+    canReplay: isConnected,
+    sendLocationBatch,
+    saveRoute,
+  });
+
   useEffect(() => {
-    if (!isNavigating || !position || !isConnected) {
+    if (!isNavigating || !position) {
       return;
     }
 
     // Throttle broadcasts to 5 second intervals
     const now = Date.now();
-    if (now - lastBroadcastTimeRef.current < BROADCAST_INTERVAL_MS) {
+    if (now - lastBroadcastTimeRef.current < BROADCAST_INTERVAL_MS && visit === lastBroadcastVisitRef.current) {
       return;
     }
 
     lastBroadcastTimeRef.current = now;
+    lastBroadcastVisitRef.current = visit;
 
     // Prepare location broadcast message
     const broadcast: LocationBroadcast = {
       routeId,
+      vehicleId,
       location: position.coordinates,
       timestamp: position.timestamp,
       heading: position.heading ?? undefined,
       speed: position.speed ?? undefined,
       currentWaypointIndex: routeProgress.currentWaypointIndex,
       nextWaypointEta,
+      scheduleDeviation,
+      waypointEtas,
+      visit,
     };
 
-    // Send location update
-    sendLocation(broadcast);
-  }, [isNavigating, position, isConnected, routeId, routeProgress, nextWaypointEta, sendLocation]);
+    // Queue behind any pending updates so the server receives them in order
+    if (!isOnline || !isConnected || pendingCount > 0) {
+      queueLocation(broadcast);
+      return;
+    }
+
+    // Send location update, queueing it if delivery fails
+    sendLocation(broadcast).then(sent => {
+      if (!sent) {
+        queueLocation(broadcast);
+      }
+    });
+  }, [isNavigating, position, isConnected, isOnline, pendingCount, routeId, vehicleId, routeProgress, nextWaypointEta, scheduleDeviation, waypointEtas, visit, sendLocation, queueLocation]);
 
   return {
     isConnected,
+    isOnline,
+    pendingUpdates: pendingCount,
+    isSyncing: isReplaying,
+    rejectedUpdates: rejectedCount,
+    dismissRejectedUpdates: dismissRejected,
+    persistRoute,
   };
 }
@@ -0,0 +1,67 @@
+/**
+ * useLocationHistory hook
+ * Loads the breadcrumb trail for a route on first paint and extends it with live updates
+ * Supports both the track API (production) and localStorage (dev mode)
+ */
+
+import { useEffect, useState, useCallback } from 'react';
+import type { LocationBroadcast, TrackPoint } from '../types';
+import {
+  broadcastToTrackPoint,
+  fetchRouteTrack,
+  loadLocalTrack,
+  mergeTrackPoints,
+} from '../utils/locationHistory';
+
+const isDevMode = import.meta.env.VITE_DEV_MODE === 'true';
+
+export function useLocationHistory(routeId: string) {
+  const [trackPoints, setTrackPoints] = useState<TrackPoint[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // Load persisted history once per route
+  useEffect(() => {
+    let cancelled = false;
+
+    const load = async () => {
+      try {
+        const history = isDevMode ? loadLocalTrack(routeId) : await fetchRouteTrack(routeId);
+        if (!cancelled) {
+          // Merge rather than replace: live updates may have arrived while loading
+          setTrackPoints(prev => mergeTrackPoints(history, prev));
+          setError(null);
+        }
+      } catch (err) {
+        console.error('[LocationHistory] Failed to load track:', err);
+        if (!cancelled) {
+          setError(err instanceof Error ? err.message : 'Failed to load track');
+        }
+      } finally {
+        if (!cancelled) {
+          setIsLoading(false);
+        }
+      }
+    };
+
+    load();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [routeId]);
+
+  /**
+   * Extend the trail with a live location update
+   */
+  const appendLocation = useCallback((location: LocationBroadcast) => {
+    setTrackPoints(prev => mergeTrackPoints(prev, [broadcastToTrackPoint(location)]));
+  }, []);
+
+  return {
+    trackPoints,
+    isLoading,
+    error,
+    appendLocation,
+  };
+}
@@ -1,21 +1,25 @@
 /**
  * Custom hook for managing turn-by-turn navigation state
- * Handles location tracking, instruction updates, rerouting, and waypoint completion
+ * Handles location tracking, instruction updates, rerouting, waypoint completion
+ * and how far the run is ahead of or behind schedule
+ * Stops are completed on arrival and departures recorded by each stop's geofence
+ * (see utils/geofence)
  */
 
 import { useState, useEffect, useCallback, useRef, useMemo } from 'react';
 import { useGeolocation } from './useGeolocation';
-import type { Route, Waypoint } from '../types';
+import type { Route, Waypoint, WaypointEta, WaypointVisit } from '../types';
 import {
   findCurrentStep,
   findNextWaypoint,
   calculateRouteProgress,
   isOffRoute,
-  calculateETA,
+  calculateWaypointETAs,
   formatETA,
-  isNearWaypoint,
   calculateDistance,
 } from '../utils/navigation';
+import { MIN_ARRIVAL_DWELL_SECONDS, isInsideGeofence, updateGeofence } from '../utils/geofence';
+import type { GeofenceState } from '../utils/geofence';
 import {
   voiceService,
   formatInstructionForVoice,
@@ -23,7 +27,8 @@ import {
   announceOffRoute,
   announceRouteComplete,
 } from '../utils/voice';
-import { getDirections } from '../utils/mapbox';
+import { calculateScheduleDeviation } from '../utils/schedule';
+import { routingProvider } from '../routing';
 
 export interface NavigationState {
   isNavigating: boolean;
@@ -33,20 +38,30 @@ export interface NavigationState {
   nextWaypoint: Waypoint | null;
   distanceToNextWaypoint: number;
   etaToNextWaypoint: string | null;
+  waypointEtas: WaypointEta[];      // Cumulative ETA for every upcoming waypoint, including dwell time
+  scheduleDeviation: number | null; // Seconds behind schedule (negative when ahead)
   routeProgress: number;
   isOffRoute: boolean;
   isRerouting: boolean;
   completedWaypointIds: string[];
+  lastVisit: WaypointVisit | null;   // Latest arrival at or departure from a stop
 }
 
 export interface UseNavigationOptions {
   route: Route;
   onRouteComplete?: () => void;
   onWaypointComplete?: (waypoint: Waypoint) => void;
+  onWaypointDepart?: (waypoint: Waypoint) => void;
   voiceEnabled?: boolean;
 }
 
-export function useNavigation({ route, onRouteComplete, onWaypointComplete, voiceEnabled = true }: UseNavigationOptions) {
+export function useNavigation({
+  route,
+  onRouteComplete,
+  onWaypointComplete,
+  onWaypointDepart,
+  voiceEnabled = true,
+}: UseNavigationOptions) {
   const { position, error: locationError, permission } = useGeolocation({ 
     watch: true, 
     enableHighAccuracy: true 
@@ -56,12 +71,17 @@ export function useNavigation({ route, onRouteComplete, onWaypointComplete, voic
   const [isRerouting, setIsRerouting] = useState(false);
   const [completedWaypointIds, setCompletedWaypointIds] = useState<string[]>([]);
   const [updatedRoute, setUpdatedRoute] = useState<Route>(route);
+  const [lastVisit, setLastVisit] = useState<WaypointVisit | null>(null);
+  // Set by a timer so a vehicle parked at a stop (no new GPS fixes) still arrives
+  const [geofenceCheckAt, setGeofenceCheckAt] = useState(0);
   
   const lastAnnouncedStepRef = useRef<number>(-1);
   const lastAnnouncedWaypointRef = useRef<string | null>(null);
   const hasAnnouncedOffRouteRef = useRef(false);
   const rerouteTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
   const waypointCompletionQueueRef = useRef<Set<string>>(new Set());
+  const geofenceRef = useRef<GeofenceState | null>(null);
+  const dwellTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
 
   // Constants
   const REROUTE_DEBOUNCE_MS = 2000;
@@ -85,10 +105,13 @@ export function useNavigation({ route, onRouteComplete, onWaypointComplete, voic
         nextWaypoint: null,
         distanceToNextWaypoint: 0,
         etaToNextWaypoint: null,
+        waypointEtas: [],
+        scheduleDeviation: null,
         routeProgress: 0,
         isOffRoute: false,
         isRerouting,
         completedWaypointIds,
+        lastVisit,
       };
     }
 
@@ -105,10 +128,18 @@ export function useNavigation({ route, onRouteComplete, onWaypointComplete, voic
       ? calculateDistance(userLocation, nextWaypoint.coordinates)
       : 0;
 
-    // Calculate ETA
-    const eta = nextWaypoint
-      ? calculateETA(distanceToNextWaypoint, position.speed)
-      : null;
+    // Calculate ETAs from the remaining legs plus time spent at each stop
+    const waypointEtas = calculateWaypointETAs(updatedRoute, userLocation, {
+      currentStepIndex: stepIndex,
+      distanceToManeuver,
+      speed: position.speed,
+      now: position.timestamp,
+    });
+    const nextEta = waypointEtas.find(entry => entry.waypointId === nextWaypoint?.id);
+    const eta = nextEta ? new Date(nextEta.eta) : null;
+
+    // Compare against the planned arrival times
+    const scheduleDeviation = calculateScheduleDeviation(updatedRoute, eta, position.timestamp);
 
     // Calculate progress
     const progress = calculateRouteProgress(
@@ -128,12 +159,15 @@ export function useNavigation({ route, onRouteComplete, onWaypointComplete, voic
       nextWaypoint,
       distanceToNextWaypoint,
       etaToNextWaypoint: eta ? formatETA(eta) : null,
+      waypointEtas,
+      scheduleDeviation,
       routeProgress: progress,
       isOffRoute: offRoute,
       isRerouting,
       completedWaypointIds,
+      lastVisit,
     };
-  }, [isNavigating, position, updatedRoute, isRerouting, completedWaypointIds]);
+  }, [isNavigating, position, updatedRoute, isRerouting, completedWaypointIds, lastVisit]);
 
   // Start navigation
   const startNavigation = useCallback(() => {
@@ -160,14 +194,25 @@ export function useNavigation({ route, onRouteComplete, onWaypointComplete, voic
     }
   }, []);
 
-  // Mark waypoint as completed
-  const completeWaypoint = useCallback((waypointId: string) => {
+  // Mark waypoint as completed (visited unless skipped), arriving at the given time
+  const completeWaypoint = useCallback((waypointId: string, arrivedAt: number = Date.now(), visited: boolean = true) => {
     setCompletedWaypointIds(prev => [...prev, waypointId]);
 
     const waypoint = updatedRoute.waypoints.find(wp => wp.id === waypointId);
     if (waypoint) {
       waypoint.isCompleted = true;
-      waypoint.actualArrival = new Date().toISOString();
+      waypoint.actualArrival = new Date(arrivedAt).toISOString();
+
+      if (visited) {
+        setLastVisit({ waypointId, type: 'arrived', timestamp: arrivedAt });
+        // Completed by hand while at the stop: record the departure when the vehicle leaves
+        const fence = geofenceRef.current;
+        if (fence?.waypointId !== waypointId || fence.arrivedAt === null) {
+          geofenceRef.current = position && isInsideGeofence(position.coordinates, waypoint, true)
+            ? { waypointId, enteredAt: arrivedAt, arrivedAt }
+            : null;
+        }
+      }
       
       if (onWaypointComplete) {
         onWaypointComplete(waypoint);
@@ -195,13 +240,22 @@ export function useNavigation({ route, onRouteComplete, onWaypointComplete, voic
         onRouteComplete();
       }
     }
-  }, [updatedRoute, onWaypointComplete, onRouteComplete, voiceEnabled]);
+  }, [updatedRoute, position, onWaypointComplete, onRouteComplete, voiceEnabled]);
+
+  // Record leaving a stop
+  const departWaypoint = useCallback((waypoint: Waypoint, departedAt: number) => {
+    waypoint.actualDeparture = new Date(departedAt).toISOString();
+    setLastVisit({ waypointId: waypoint.id, type: 'departed', timestamp: departedAt });
+    if (onWaypointDepart) {
+      onWaypointDepart(waypoint);
+    }
+  }, [onWaypointDepart]);
 
   // Skip to next waypoint manually (complete current without proximity check)
   const skipToNextWaypoint = useCallback(() => {
     const nextWaypoint = findNextWaypoint(updatedRoute.waypoints);
     if (nextWaypoint) {
-      completeWaypoint(nextWaypoint.id);
+      completeWaypoint(nextWaypoint.id, Date.now(), false);
     }
   }, [updatedRoute.waypoints, completeWaypoint]);
 
@@ -228,7 +282,7 @@ export function useNavigation({ route, onRouteComplete, onWaypointComplete, voic
       ];
 
       // Get new route from current position to remaining waypoints
-      const newDirections = await getDirections(coordinates);
+      const newDirections = await routingProvider.getDirections(coordinates);
       
       // Update route with new geometry and steps
       setUpdatedRoute(prev => ({
@@ -247,14 +301,13 @@ export function useNavigation({ route, onRouteComplete, onWaypointComplete, voic
     }
   }, [position, navigationState.nextWaypoint, updatedRoute, voiceEnabled, isRerouting]);
 
-  // Handle side effects (voice announcements, waypoint completion, rerouting)
+  // Handle side effects (voice announcements, rerouting)
   useEffect(() => {
     if (!isNavigating || !position || !updatedRoute.navigationSteps) {
       return;
     }
 
-    const { currentStepIndex, distanceToNextManeuver, currentInstruction, nextWaypoint, isOffRoute: offRoute } = navigationState;
-    const userLocation = position.coordinates;
+    const { currentStepIndex, distanceToNextManeuver, currentInstruction, isOffRoute: offRoute } = navigationState;
 
     // Voice announcements based on distance to maneuver
     if (voiceEnabled && currentInstruction && currentStepIndex !== lastAnnouncedStepRef.current) {
@@ -278,20 +331,6 @@ export function useNavigation({ route, onRouteComplete, onWaypointComplete, voic
       }
     }
 
-    // Auto-complete waypoint when near
-    // Queue waypoint for completion if not already completed or queued
-    if (nextWaypoint && isNearWaypoint(userLocation, nextWaypoint, 50)) {
-      if (!completedWaypointIds.includes(nextWaypoint.id) && 
-          !waypointCompletionQueueRef.current.has(nextWaypoint.id)) {
-        waypointCompletionQueueRef.current.add(nextWaypoint.id);
-        // Use queueMicrotask to defer state update to next microtask queue
-        queueMicrotask(() => {
-          completeWaypoint(nextWaypoint.id);
-          waypointCompletionQueueRef.current.delete(nextWaypoint.id);
-        });
-      }
-    }
-
     // Trigger rerouting if off route and not already rerouting (with debounce)
     if (offRoute && !isRerouting) {
       if (rerouteTimeoutRef.current) {
@@ -304,7 +343,62 @@ export function useNavigation({ route, onRouteComplete, onWaypointComplete, voic
       clearTimeout(rerouteTimeoutRef.current);
       rerouteTimeoutRef.current = null;
     }
-  }, [isNavigating, position, updatedRoute, voiceEnabled, navigationState, completedWaypointIds, isRerouting, completeWaypoint, reroute, REROUTE_DEBOUNCE_MS]);
+  }, [isNavigating, position, updatedRoute, voiceEnabled, navigationState, isRerouting, reroute, REROUTE_DEBOUNCE_MS]);
+
+  // Arrive at and depart from stops by their geofences
+  useEffect(() => {
+    if (!isNavigating || !position) {
+      return;
+    }
+
+    // Follow the stop just arrived at until it is left, then the next one
+    const tracked = geofenceRef.current;
+    const waypoint = tracked?.arrivedAt != null
+      ? updatedRoute.waypoints.find(wp => wp.id === tracked.waypointId)
+      : navigationState.nextWaypoint;
+    if (!waypoint) {
+      geofenceRef.current = null;
+      return;
+    }
+
+    const now = Math.max(position.timestamp, geofenceCheckAt);
+    const { state, visit } = updateGeofence(tracked, waypoint, position.coordinates, now);
+    geofenceRef.current = state;
+
+    // Queue waypoint for completion if not already completed or queued
+    if (visit?.type === 'arrived' &&
+        !completedWaypointIds.includes(waypoint.id) &&
+        !waypointCompletionQueueRef.current.has(waypoint.id)) {
+      waypointCompletionQueueRef.current.add(waypoint.id);
+      // Use queueMicrotask to defer state update to next microtask queue
+      queueMicrotask(() => {
+        completeWaypoint(waypoint.id, visit.timestamp);
+        waypointCompletionQueueRef.current.delete(waypoint.id);
+      });
+    } else if (visit?.type === 'departed') {
+      queueMicrotask(() => departWaypoint(waypoint, visit.timestamp));
+    }
+
+    // Parked inside without new fixes: check again once the dwell is up
+    if (dwellTimeoutRef.current) {
+      clearTimeout(dwellTimeoutRef.current);
+      dwellTimeoutRef.current = null;
+    }
+    if (state && state.arrivedAt === null) {
+      const dueAt = state.enteredAt + MIN_ARRIVAL_DWELL_SECONDS * 1000;
+      dwellTimeoutRef.current = setTimeout(() => {
+        setGeofenceCheckAt(Date.now());
+      }, Math.max(0, dueAt - now) + 100);
+    }
+  }, [isNavigating, position, geofenceCheckAt, updatedRoute.waypoints, navigationState.nextWaypoint, completedWaypointIds, completeWaypoint, departWaypoint]);
+
+  useEffect(() => {
+    return () => {
+      if (dwellTimeoutRef.current) {
+        clearTimeout(dwellTimeoutRef.current);
+      }
+    };
+  }, []);
 
   return {
     navigationState,
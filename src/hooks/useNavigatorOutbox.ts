@@ -0,0 +1,144 @@
+/**
+ * useNavigatorOutbox hook
+ * Queues navigator updates while offline and replays them in order when the
+ * connection returns (see utils/navigatorOutbox for the storage format)
+ * Updates the server refuses are set aside and reported rather than retried
+ */
+
+import { useEffect, useState, useCallback, useRef } from 'react';
+import type { LocationBroadcast, Route } from '../types';
+import {
+  clearRejectedUpdates,
+  enqueueLocation,
+  enqueueRouteSave,
+  loadOutbox,
+  loadRejectedUpdates,
+  replayOutbox,
+} from '../utils/navigatorOutbox';
+import type { RefusedLocation } from '../utils/navigatorOutbox';
+
+// Retry interval while updates are pending and the device reports being online
+const REPLAY_RETRY_MS = 15000;
+
+interface UseNavigatorOutboxOptions {
+  routeId: string;
+  canReplay: boolean;
+  sendLocationBatch: (locations: LocationBroadcast[]) => Promise<boolean | RefusedLocation[]>;
+  saveRoute: (route: Route) => Promise<void>;
+}
+
+function getIsOnline(): boolean {
+  return typeof navigator === 'undefined' || navigator.onLine !== false;
+}
+
+export function useNavigatorOutbox({ routeId, canReplay, sendLocationBatch, saveRoute }: UseNavigatorOutboxOptions) {
+  const [isOnline, setIsOnline] = useState(getIsOnline);
+  const [pendingCount, setPendingCount] = useState(() => loadOutbox(routeId).length);
+  const [isReplaying, setIsReplaying] = useState(false);
+  const [rejectedCount, setRejectedCount] = useState(() => loadRejectedUpdates(routeId).length);
+  const isReplayingRef = useRef(false);
+  const routeSaveChainRef = useRef<Promise<void>>(Promise.resolve());
+
+  // Track browser connectivity
+  useEffect(() => {
+    const handleOnline = () => setIsOnline(true);
+    const handleOffline = () => setIsOnline(false);
+
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+    };
+  }, []);
+
+  /**
+   * Queue a location broadcast that could not be sent
+   */
+  const queueLocation = useCallback((broadcast: LocationBroadcast) => {
+    setPendingCount(enqueueLocation(broadcast).length);
+  }, []);
+
+  /**
+   * Save the route now if possible, otherwise queue it behind earlier updates
+   * Saves run one at a time so a slow save cannot land after a newer one.
+   * Resolves to true if the route was saved immediately.
+   */
+  const persistRoute = useCallback((route: Route): Promise<boolean> => {
+    const save = async () => {
+      if (getIsOnline() && loadOutbox(routeId).length === 0) {
+        try {
+          await saveRoute(route);
+          return true;
+        } catch (error) {
+          console.warn('[NavigatorOutbox] Route save failed, queueing for replay:', error);
+        }
+      }
+
+      setPendingCount(enqueueRouteSave(route).length);
+      return false;
+    };
+
+    const result = routeSaveChainRef.current.then(save);
+    routeSaveChainRef.current = result.then(() => undefined);
+    return result;
+  }, [routeId, saveRoute]);
+
+  /**
+   * Replay queued updates in order, stopping at the first failure worth retrying
+   */
+  const replay = useCallback(async () => {
+    if (isReplayingRef.current || loadOutbox(routeId).length === 0) {
+      return;
+    }
+
+    isReplayingRef.current = true;
+    setIsReplaying(true);
+
+    try {
+      const { rejected } = await replayOutbox(routeId, {
+        sendLocationBatch,
+        saveRoute,
+        onProgress: remaining => setPendingCount(remaining.length),
+      });
+      if (rejected.length > 0) {
+        setRejectedCount(loadRejectedUpdates(routeId).length);
+      }
+    } finally {
+      isReplayingRef.current = false;
+      setIsReplaying(false);
+    }
+  }, [routeId, sendLocationBatch, saveRoute]);
+
+  /**
+   * Dismiss the notice about updates the server refused
+   */
+  const dismissRejected = useCallback(() => {
+    clearRejectedUpdates(routeId);
+    setRejectedCount(0);
+  }, [routeId]);
+
+  // Replay as soon as we are back online, and keep retrying while updates are pending
+  useEffect(() => {
+    if (!isOnline || !canReplay || pendingCount === 0) {
+      return;
+    }
+
+    replay();
+    const interval = setInterval(replay, REPLAY_RETRY_MS);
+    return () => clearInterval(interval);
+    // Re-run only when connectivity changes or the queue empties/fills, not on every queued item
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isOnline, canReplay, pendingCount > 0, replay]);
+
+  return {
+    isOnline,
+    pendingCount,
+    isReplaying,
+    rejectedCount,
+    dismissRejected,
+    queueLocation,
+    persistRoute,
+  };
+}
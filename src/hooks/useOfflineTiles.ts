@@ -0,0 +1,100 @@
+/**
+ * useOfflineTiles hook
+ * Prepares, inspects and clears the offline map cache for a route
+ * (see utils/offlineTiles for what is downloaded and how it is served)
+ */
+
+import { useEffect, useState, useCallback, useRef } from 'react';
+import type { Route } from '../types';
+import {
+  clearOfflineTiles,
+  isOfflineTilesSupported,
+  loadOfflineTilesInfo,
+  prepareOfflineTiles,
+  type OfflineTilesInfo,
+  type OfflineTilesProgress,
+} from '../utils/offlineTiles';
+
+const MAPBOX_TOKEN = import.meta.env.VITE_MAPBOX_TOKEN;
+
+export function useOfflineTiles(route: Route) {
+  const [info, setInfo] = useState<OfflineTilesInfo | null>(() => loadOfflineTilesInfo(route.id));
+  const [progress, setProgress] = useState<OfflineTilesProgress | null>(null);
+  const [isPreparing, setIsPreparing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  // Stop any download when leaving the page
+  useEffect(() => {
+    return () => abortControllerRef.current?.abort();
+  }, []);
+
+  /**
+   * Download (or refresh) the offline map for the route
+   */
+  const prepare = useCallback(async () => {
+    if (!MAPBOX_TOKEN) {
+      setError('Mapbox token not configured');
+      return;
+    }
+
+    abortControllerRef.current?.abort();
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+
+    setIsPreparing(true);
+    setError(null);
+    setProgress(null);
+
+    try {
+      const prepared = await prepareOfflineTiles(route, MAPBOX_TOKEN, setProgress, controller.signal);
+      setInfo(prepared);
+    } catch (err) {
+      // A cancelled download removes its partial cache, so the old one is gone too
+      setInfo(null);
+      if (!controller.signal.aborted) {
+        console.error('[OfflineTiles] Failed to prepare offline map:', err);
+        setError(err instanceof Error ? err.message : 'Failed to prepare offline map');
+      }
+    } finally {
+      if (abortControllerRef.current === controller) {
+        abortControllerRef.current = null;
+        setIsPreparing(false);
+        setProgress(null);
+      }
+    }
+  }, [route]);
+
+  /**
+   * Stop a download in progress
+   */
+  const cancel = useCallback(() => {
+    abortControllerRef.current?.abort();
+  }, []);
+
+  /**
+   * Remove the offline map for the route
+   */
+  const clear = useCallback(async () => {
+    abortControllerRef.current?.abort();
+    try {
+      await clearOfflineTiles(route.id);
+      setInfo(null);
+      setError(null);
+    } catch (err) {
+      console.error('[OfflineTiles] Failed to clear offline map:', err);
+      setError(err instanceof Error ? err.message : 'Failed to clear offline map');
+    }
+  }, [route.id]);
+
+  return {
+    info,
+    progress,
+    isPreparing,
+    error,
+    isSupported: isOfflineTilesSupported(),
+    prepare,
+    cancel,
+    clear,
+  };
+}
@@ -0,0 +1,44 @@
+import { useState, useEffect, useCallback } from 'react';
+import type { RouteViewerAnalytics } from '../types';
+import { fetchRouteAnalytics, loadLocalViewerSessions, summarizeViewerSessions } from '../utils/viewerAnalytics';
+
+const isDevMode = import.meta.env.VITE_DEV_MODE === 'true';
+
+/**
+ * Custom hook for a route's tracking page analytics
+ * Supports both the analytics API (production) and localStorage (dev mode)
+ */
+export function useRouteAnalytics(routeId: string) {
+  const [analytics, setAnalytics] = useState<RouteViewerAnalytics | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<Error | null>(null);
+
+  const loadAnalytics = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const result = isDevMode
+        ? summarizeViewerSessions(routeId, loadLocalViewerSessions(routeId), Date.now())
+        : await fetchRouteAnalytics(routeId);
+      setAnalytics(result);
+    } catch (err) {
+      const error = err instanceof Error ? err : new Error('Failed to load route analytics');
+      setError(error);
+      console.error('Error loading route analytics:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [routeId]);
+
+  useEffect(() => {
+    loadAnalytics();
+  }, [loadAnalytics]);
+
+  return {
+    analytics,
+    isLoading,
+    error,
+    refreshAnalytics: loadAnalytics,
+  };
+}
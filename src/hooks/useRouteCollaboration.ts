@@ -0,0 +1,219 @@
+/**
+ * useRouteCollaboration hook
+ * Shares presence and live waypoint edits between operators editing the same route
+ * Uses the route's editing group in Azure Web PubSub (production) or a
+ * BroadcastChannel between tabs (dev mode)
+ */
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { WebPubSubClient } from '@azure/web-pubsub-client';
+import type { Waypoint } from '../types';
+import { getAccessToken } from '../storage/http';
+import {
+  PRESENCE_HEARTBEAT_MS,
+  applyPresenceMessage,
+  applyWaypointOperations,
+  diffWaypointOperations,
+  isCollaborationMessage,
+  prunePresence,
+  type CollaborationMessage,
+  type EditorPresence,
+  type WaypointOperation,
+} from '../utils/collaboration';
+
+const isDevMode = import.meta.env.VITE_DEV_MODE === 'true';
+const API_BASE_URL = import.meta.env.VITE_API_BASE_URL || '/api';
+
+// Pointer moves are batched so dragging across the map doesn't flood the group
+const CURSOR_THROTTLE_MS = 150;
+
+interface UseRouteCollaborationOptions {
+  routeId: string;
+  enabled: boolean;
+  user: { id: string; name: string } | null;
+  waypoints: Waypoint[];
+  onRemoteOperations: (operations: WaypointOperation[]) => void;
+  onRemoteSave: () => void;
+}
+
+export function useRouteCollaboration({
+  routeId,
+  enabled,
+  user,
+  waypoints,
+  onRemoteOperations,
+  onRemoteSave,
+}: UseRouteCollaborationOptions) {
+  const [sessionId] = useState(() => `editor_${crypto.randomUUID()}`);
+  const [peers, setPeers] = useState<EditorPresence[]>([]);
+  const [isConnected, setIsConnected] = useState(false);
+
+  const sendRef = useRef<((message: CollaborationMessage) => void) | null>(null);
+  const presenceRef = useRef<{ cursor?: [number, number]; selectedWaypointId?: string }>({});
+  const presenceTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  // The stop list as every editor has it, so only local changes are shared
+  const syncedWaypointsRef = useRef<Waypoint[] | null>(null);
+  const callbacksRef = useRef({ onRemoteOperations, onRemoteSave });
+  const userRef = useRef(user);
+
+  useEffect(() => {
+    callbacksRef.current = { onRemoteOperations, onRemoteSave };
+    userRef.current = user;
+  });
+
+  const sendPresence = useCallback(() => {
+    const currentUser = userRef.current;
+    if (!currentUser || !sendRef.current) return;
+    sendRef.current({
+      type: 'presence',
+      sessionId,
+      userId: currentUser.id,
+      name: currentUser.name,
+      ...presenceRef.current,
+    });
+  }, [sessionId]);
+
+  /**
+   * Announce the cursor and selection soon, at most once per throttle window
+   */
+  const schedulePresence = useCallback(() => {
+    if (presenceTimerRef.current) return;
+    presenceTimerRef.current = setTimeout(() => {
+      presenceTimerRef.current = null;
+      sendPresence();
+    }, CURSOR_THROTTLE_MS);
+  }, [sendPresence]);
+
+  // Connect while enabled (a profile refresh for the same user keeps the connection)
+  const userId = user?.id;
+  useEffect(() => {
+    if (!enabled || !userId) return;
+
+    let cancelled = false;
+    let channel: BroadcastChannel | null = null;
+    let client: WebPubSubClient | null = null;
+
+    const receive = (data: unknown, fromUserId?: string) => {
+      if (!isCollaborationMessage(data) || data.sessionId === sessionId) return;
+      // The service stamps who sent each message; don't trust the body for it
+      const message = data.type === 'presence' && fromUserId ? { ...data, userId: fromUserId } : data;
+
+      switch (message.type) {
+        case 'presence':
+        case 'leave':
+          setPeers(prev => applyPresenceMessage(prev, message, Date.now()));
+          break;
+        case 'operations':
+          if (syncedWaypointsRef.current) {
+            syncedWaypointsRef.current = applyWaypointOperations(syncedWaypointsRef.current, message.operations);
+          }
+          callbacksRef.current.onRemoteOperations(message.operations);
+          break;
+        case 'saved':
+          callbacksRef.current.onRemoteSave();
+          break;
+      }
+    };
+
+    const start = async () => {
+      try {
+        if (isDevMode) {
+          channel = new BroadcastChannel(`santa-editing-${routeId}`);
+          channel.onmessage = (event) => receive(event.data);
+          sendRef.current = (message) => channel?.postMessage(message);
+          setIsConnected(true);
+        } else {
+          const token = await getAccessToken();
+          const response = await fetch(
+            `${API_BASE_URL}/negotiate?routeId=${encodeURIComponent(routeId)}&role=editor`,
+            { headers: token ? { Authorization: `Bearer ${token}` } : {} }
+          );
+          if (!response.ok) {
+            throw new Error(`Failed to negotiate editing connection: ${response.statusText}`);
+          }
+          const { url, groupName } = await response.json();
+          if (cancelled) return;
+
+          client = new WebPubSubClient(url);
+          client.on('group-message', (event) => receive(event.message.data, event.message.fromUserId));
+          client.on('connected', () => {
+            setIsConnected(true);
+            sendPresence();
+          });
+          client.on('disconnected', () => setIsConnected(false));
+          await client.start();
+          if (cancelled) return;
+          sendRef.current = (message) => {
+            client?.sendToGroup(groupName, message, 'json', { noEcho: true }).catch(error => {
+              console.warn('[Collaboration] Failed to send message:', error);
+            });
+          };
+        }
+        sendPresence();
+      } catch (error) {
+        // Editing still works alone; only the live sharing is lost
+        console.error('[Collaboration] Connection error:', error);
+        setIsConnected(false);
+      }
+    };
+
+    start();
+
+    const heartbeat = setInterval(() => {
+      sendPresence();
+      setPeers(prev => prunePresence(prev, Date.now()));
+    }, PRESENCE_HEARTBEAT_MS);
+
+    return () => {
+      cancelled = true;
+      clearInterval(heartbeat);
+      if (presenceTimerRef.current) {
+        clearTimeout(presenceTimerRef.current);
+        presenceTimerRef.current = null;
+      }
+      sendRef.current?.({ type: 'leave', sessionId });
+      sendRef.current = null;
+      channel?.close();
+      client?.stop();
+      setIsConnected(false);
+      setPeers([]);
+    };
+  }, [enabled, routeId, userId, sessionId, sendPresence]);
+
+  // Share local changes to the stops
+  useEffect(() => {
+    const synced = syncedWaypointsRef.current;
+    syncedWaypointsRef.current = waypoints;
+    if (!enabled || !synced || synced === waypoints || !sendRef.current) return;
+
+    const operations = diffWaypointOperations(synced, waypoints);
+    if (operations.length > 0) {
+      sendRef.current({ type: 'operations', sessionId, operations });
+    }
+  }, [enabled, waypoints, sessionId]);
+
+  const shareCursor = useCallback((cursor: [number, number] | null) => {
+    presenceRef.current = { ...presenceRef.current, cursor: cursor ?? undefined };
+    schedulePresence();
+  }, [schedulePresence]);
+
+  const shareSelection = useCallback((selectedWaypointId: string | null) => {
+    presenceRef.current = { ...presenceRef.current, selectedWaypointId: selectedWaypointId ?? undefined };
+    schedulePresence();
+  }, [schedulePresence]);
+
+  /**
+   * Tell the other editors the route was saved, so they pick up the new version
+   */
+  const announceSave = useCallback(() => {
+    sendRef.current?.({ type: 'saved', sessionId });
+  }, [sessionId]);
+
+  return {
+    peers,
+    isConnected,
+    shareCursor,
+    shareSelection,
+    announceSave,
+  };
+}
@@ -1,20 +1,66 @@
 import { useState, useCallback } from 'react';
-import type { Route, Waypoint } from '../types';
-import { getDirections } from '../utils/mapbox';
+import type { Route, Vehicle, Waypoint } from '../types';
+import { routingProvider } from '../routing';
 import {
   generateWaypointId,
   reorderWaypoints,
   sortWaypoints,
   validateRoute,
 } from '../utils/routeHelpers';
+import {
+  applyWaypointOrder,
+  optimizeWaypointOrder,
+  type VisitOrderOptions,
+  type WaypointOrderProposal,
+} from '../utils/routeOptimization';
+import type { ImportedRoute } from '../utils/routeFiles';
+import { createVehicle, getVehicleWaypoints } from '../utils/vehicles';
+import { describeRouteConflict, hasSamePath, mergeRouteEdits, type RouteEditConflict } from '../utils/routeDiff';
+import { applyWaypointOperations, type WaypointOperation } from '../utils/collaboration';
+
+/**
+ * Clear the planned path (the route's and every vehicle's) when the stops change
+ */
+function clearNavigationData(route: Route): Route {
+  return {
+    ...route,
+    geometry: undefined,
+    navigationSteps: undefined,
+    distance: undefined,
+    estimatedDuration: undefined,
+    vehicles: route.vehicles?.map(({ id, callsign, color }) => ({ id, callsign, color })),
+  };
+}
 
 /**
  * Custom hook for managing route editing operations
  */
 export function useRouteEditor(initialRoute: Route) {
   const [route, setRoute] = useState<Route>(initialRoute);
+  // The saved version the edits are based on, for merging after a save conflict
+  const [baseRoute, setBaseRoute] = useState<Route>(initialRoute);
+  const [conflict, setConflict] = useState<RouteEditConflict | null>(null);
   const [isOptimizing, setIsOptimizing] = useState(false);
   const [optimizationError, setOptimizationError] = useState<string | null>(null);
+  // Kept with the waypoints it was solved for, so it lapses as soon as they change
+  const [orderProposalState, setOrderProposalState] = useState<{
+    proposal: WaypointOrderProposal;
+    waypoints: Waypoint[];
+  } | null>(null);
+  const [isOptimizingOrder, setIsOptimizingOrder] = useState(false);
+
+  // Start over when a different route is loaded (e.g. once edit mode has fetched it)
+  const [loadedRoute, setLoadedRoute] = useState(initialRoute);
+  if (initialRoute !== loadedRoute) {
+    setLoadedRoute(initialRoute);
+    setRoute(initialRoute);
+    setBaseRoute(initialRoute);
+    setConflict(null);
+  }
+
+  const orderProposal = orderProposalState?.waypoints === route.waypoints
+    ? orderProposalState.proposal
+    : null;
 
   /**
    * Update route metadata (name, date, description, etc.)
@@ -36,14 +82,10 @@ export function useRouteEditor(initialRoute: Route) {
       isCompleted: false,
     };
     
-    setRoute(prev => ({
+    // Clear navigation data when waypoints change
+    setRoute(prev => clearNavigationData({
       ...prev,
       waypoints: [...prev.waypoints, newWaypoint],
-      // Clear navigation data when waypoints change
-      geometry: undefined,
-      navigationSteps: undefined,
-      distance: undefined,
-      estimatedDuration: undefined,
     }));
   }, [route.waypoints.length]);
 
@@ -51,16 +93,28 @@ export function useRouteEditor(initialRoute: Route) {
    * Update an existing waypoint
    */
   const updateWaypoint = useCallback((waypointId: string, updates: Partial<Waypoint>) => {
-    setRoute(prev => ({
+    // Clear navigation data when waypoints change
+    setRoute(prev => clearNavigationData({
       ...prev,
       waypoints: prev.waypoints.map(wp =>
         wp.id === waypointId ? { ...wp, ...updates } : wp
       ),
-      // Clear navigation data when waypoints change
-      geometry: undefined,
-      navigationSteps: undefined,
-      distance: undefined,
-      estimatedDuration: undefined,
+    }));
+  }, []);
+
+  /**
+   * Set a waypoint's target arrival time and dwell time
+   * Timing does not affect the path, so the planned route is kept.
+   */
+  const updateWaypointSchedule = useCallback((
+    waypointId: string,
+    schedule: Pick<Waypoint, 'scheduledArrival' | 'dwellMinutes' | 'geofenceRadius'>
+  ) => {
+    setRoute(prev => ({
+      ...prev,
+      waypoints: prev.waypoints.map(wp =>
+        wp.id === waypointId ? { ...wp, ...schedule } : wp
+      ),
     }));
   }, []);
 
@@ -76,15 +130,11 @@ export function useRouteEditor(initialRoute: Route) {
         order: index,
       }));
       
-      return {
+      // Clear navigation data when waypoints change
+      return clearNavigationData({
         ...prev,
         waypoints: reorderedWaypoints,
-        // Clear navigation data when waypoints change
-        geometry: undefined,
-        navigationSteps: undefined,
-        distance: undefined,
-        estimatedDuration: undefined,
-      };
+      });
     });
   }, []);
 
@@ -92,19 +142,15 @@ export function useRouteEditor(initialRoute: Route) {
    * Reorder waypoints (after drag and drop)
    */
   const moveWaypoint = useCallback((fromIndex: number, toIndex: number) => {
-    setRoute(prev => ({
+    // Clear navigation data when waypoints change
+    setRoute(prev => clearNavigationData({
       ...prev,
       waypoints: reorderWaypoints(prev.waypoints, fromIndex, toIndex),
-      // Clear navigation data when waypoints change
-      geometry: undefined,
-      navigationSteps: undefined,
-      distance: undefined,
-      estimatedDuration: undefined,
     }));
   }, []);
 
   /**
-   * Optimize route using Mapbox Directions API
+   * Plan the route with the configured routing provider
    */
   const optimizeRoute = useCallback(async () => {
     if (route.waypoints.length < 2) {
@@ -117,7 +163,25 @@ export function useRouteEditor(initialRoute: Route) {
 
     try {
       const coordinates = sortWaypoints(route.waypoints).map(wp => wp.coordinates);
-      const result = await getDirections(coordinates);
+      const result = await routingProvider.getDirections(coordinates);
+
+      // Each vehicle navigates its own stops, so plan a path for each one too
+      const vehicles: Vehicle[] = [];
+      for (const vehicle of route.vehicles ?? []) {
+        const stops = getVehicleWaypoints({ vehicles: route.vehicles, waypoints: route.waypoints }, vehicle.id);
+        if (stops.length < 2) {
+          vehicles.push({ id: vehicle.id, callsign: vehicle.callsign, color: vehicle.color });
+          continue;
+        }
+        const plan = await routingProvider.getDirections(stops.map(wp => wp.coordinates));
+        vehicles.push({
+          ...vehicle,
+          geometry: plan.geometry,
+          navigationSteps: plan.steps,
+          distance: plan.distance,
+          estimatedDuration: plan.duration,
+        });
+      }
 
       setRoute(prev => ({
         ...prev,
@@ -125,6 +189,7 @@ export function useRouteEditor(initialRoute: Route) {
         navigationSteps: result.steps,
         distance: result.distance,
         estimatedDuration: result.duration,
+        vehicles: prev.vehicles ? vehicles : undefined,
       }));
 
       return true;
@@ -136,8 +201,139 @@ export function useRouteEditor(initialRoute: Route) {
     } finally {
       setIsOptimizing(false);
     }
+  }, [route.waypoints, route.vehicles]);
+
+  /**
+   * Add a vehicle to the run
+   */
+  const addVehicle = useCallback(() => {
+    setRoute(prev => clearNavigationData({
+      ...prev,
+      vehicles: [...(prev.vehicles ?? []), createVehicle(prev.vehicles ?? [])],
+    }));
+  }, []);
+
+  /**
+   * Rename or recolour a vehicle (does not change any path)
+   */
+  const updateVehicle = useCallback((vehicleId: string, updates: Partial<Pick<Vehicle, 'callsign' | 'color'>>) => {
+    setRoute(prev => ({
+      ...prev,
+      vehicles: prev.vehicles?.map(vehicle =>
+        vehicle.id === vehicleId ? { ...vehicle, ...updates } : vehicle
+      ),
+    }));
+  }, []);
+
+  /**
+   * Remove a vehicle; its stops go back to the first vehicle
+   */
+  const removeVehicle = useCallback((vehicleId: string) => {
+    setRoute(prev => {
+      const vehicles = prev.vehicles?.filter(vehicle => vehicle.id !== vehicleId);
+      return clearNavigationData({
+        ...prev,
+        vehicles: vehicles && vehicles.length > 0 ? vehicles : undefined,
+        waypoints: prev.waypoints.map(wp =>
+          wp.vehicleId === vehicleId ? { ...wp, vehicleId: undefined } : wp
+        ),
+      });
+    });
+  }, []);
+
+  /**
+   * Assign a stop to a vehicle
+   */
+  const assignWaypointVehicle = useCallback((waypointId: string, vehicleId: string) => {
+    setRoute(prev => clearNavigationData({
+      ...prev,
+      waypoints: prev.waypoints.map(wp =>
+        wp.id === waypointId ? { ...wp, vehicleId } : wp
+      ),
+    }));
+  }, []);
+
+  /**
+   * Work out a more efficient visiting order
+   * The result is held as a proposal so the savings can be shown before it is applied.
+   */
+  const optimizeOrder = useCallback(async (options: VisitOrderOptions = {}) => {
+    if (route.waypoints.length < 2) {
+      setOptimizationError('At least 2 waypoints required');
+      return null;
+    }
+
+    setIsOptimizingOrder(true);
+    setOptimizationError(null);
+
+    try {
+      const proposal = await optimizeWaypointOrder(route.waypoints, options);
+      setOrderProposalState({ proposal, waypoints: route.waypoints });
+      return proposal;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to optimise waypoint order';
+      setOptimizationError(message);
+      console.error('Waypoint order optimisation error:', error);
+      return null;
+    } finally {
+      setIsOptimizingOrder(false);
+    }
   }, [route.waypoints]);
 
+  /**
+   * Reorder the waypoints as proposed by optimizeOrder
+   */
+  const acceptOrderProposal = useCallback(() => {
+    if (!orderProposal) {
+      return false;
+    }
+
+    const waypoints = applyWaypointOrder(route.waypoints, orderProposal.waypointIds);
+    setOrderProposalState(null);
+
+    if (!waypoints) {
+      setOptimizationError('Waypoints changed since the order was optimised. Please try again.');
+      return false;
+    }
+
+    // Clear navigation data when waypoints change
+    setRoute(prev => clearNavigationData({
+      ...prev,
+      waypoints,
+    }));
+    return true;
+  }, [orderProposal, route.waypoints]);
+
+  /**
+   * Keep the current order
+   */
+  const discardOrderProposal = useCallback(() => {
+    setOrderProposalState(null);
+  }, []);
+
+  /**
+   * Replace the waypoints (and geometry, if the file has a track) with an imported route file
+   */
+  const importRoute = useCallback((imported: ImportedRoute) => {
+    const waypoints: Waypoint[] = imported.waypoints.map((wp, index) => ({
+      id: generateWaypointId(),
+      coordinates: wp.coordinates,
+      address: wp.address,
+      name: wp.name,
+      notes: wp.notes,
+      order: index,
+      isCompleted: false,
+    }));
+
+    setRoute(prev => ({
+      ...clearNavigationData(prev),
+      name: prev.name.trim() === '' && imported.name ? imported.name : prev.name,
+      waypoints,
+      geometry: imported.geometry,
+    }));
+    setOptimizationError(null);
+  }, []);
+
   /**
    * Validate the current route
    */
@@ -149,13 +345,9 @@ export function useRouteEditor(initialRoute: Route) {
    * Clear all waypoints
    */
   const clearWaypoints = useCallback(() => {
-    setRoute(prev => ({
+    setRoute(prev => clearNavigationData({
       ...prev,
       waypoints: [],
-      geometry: undefined,
-      navigationSteps: undefined,
-      distance: undefined,
-      estimatedDuration: undefined,
     }));
   }, []);
 
@@ -165,14 +357,66 @@ export function useRouteEditor(initialRoute: Route) {
   const resetRoute = useCallback(() => {
     setRoute(initialRoute);
     setOptimizationError(null);
+    setOrderProposalState(null);
   }, [initialRoute]);
 
+  /**
+   * Show what changed when a save was rejected because someone else saved first
+   */
+  const showConflict = useCallback((current: Route) => {
+    setConflict(describeRouteConflict(baseRoute, route, current));
+  }, [baseRoute, route]);
+
+  /**
+   * Merge the edits onto the other person's version, or drop them and reload it
+   * Either way the route is now based on their version, so the next save goes through.
+   */
+  const resolveConflict = useCallback((resolution: 'merge' | 'reload') => {
+    if (!conflict) return;
+
+    setRoute(resolution === 'merge' ? mergeRouteEdits(baseRoute, route, conflict.current) : conflict.current);
+    setBaseRoute(conflict.current);
+    setConflict(null);
+    setOptimizationError(null);
+    setOrderProposalState(null);
+  }, [conflict, baseRoute, route]);
+
+  const dismissConflict = useCallback(() => {
+    setConflict(null);
+  }, []);
+
+  /**
+   * Apply stop edits made by another editor with the route open
+   * Their notes and timings keep the planned path; added, removed, moved or reordered stops clear it.
+   */
+  const applyRemoteOperations = useCallback((operations: WaypointOperation[]) => {
+    setRoute(prev => {
+      const waypoints = applyWaypointOperations(prev.waypoints, operations);
+      return hasSamePath(waypoints, sortWaypoints(prev.waypoints))
+        ? { ...prev, waypoints }
+        : clearNavigationData({ ...prev, waypoints });
+    });
+  }, []);
+
+  /**
+   * Pick up a version another editor saved, keeping any edits not in it
+   */
+  const mergeSavedRoute = useCallback((saved: Route) => {
+    setRoute(mergeRouteEdits(baseRoute, route, saved));
+    setBaseRoute(saved);
+  }, [baseRoute, route]);
+
   return {
     route,
     updateMetadata,
     addWaypoint,
     updateWaypoint,
+    updateWaypointSchedule,
     deleteWaypoint,
+    addVehicle,
+    updateVehicle,
+    removeVehicle,
+    assignWaypointVehicle,
     moveWaypoint,
     optimizeRoute,
     clearWaypoints,
@@ -180,5 +424,17 @@ export function useRouteEditor(initialRoute: Route) {
     validate,
     isOptimizing,
     optimizationError,
+    importRoute,
+    optimizeOrder,
+    acceptOrderProposal,
+    discardOrderProposal,
+    orderProposal,
+    isOptimizingOrder,
+    conflict,
+    showConflict,
+    resolveConflict,
+    dismissConflict,
+    applyRemoteOperations,
+    mergeSavedRoute,
   };
 }
@@ -0,0 +1,83 @@
+/**
+ * useRouteReplay hook
+ * Plays back a completed run's recorded track as live location updates, so
+ * tracking tabs in the same browser show the run again (dev mode only).
+ * Updates go over the BroadcastChannel without touching the recorded trail.
+ */
+
+import { useCallback, useEffect, useMemo, useSyncExternalStore } from 'react';
+import type { LocationBroadcast, TrackPoint } from '../types';
+import { useWebPubSub } from './useWebPubSub';
+import { splitTrackByVehicle } from '../utils/locationHistory';
+import { SimulationPlayer, buildReplayTimeline } from '../utils/simulation';
+import type { SimulationPlayerState, SimulationTimeline } from '../utils/simulation';
+
+const noSubscription = () => () => {};
+
+export function useRouteReplay(routeId: string, track: TrackPoint[]) {
+  // One timeline per vehicle, all on the clock of the run's first point
+  const timelines = useMemo(() => {
+    const startTime = track.length > 0 ? Math.min(...track.map(point => point.timestamp)) : 0;
+    const byVehicle = new Map<string, SimulationTimeline>();
+    splitTrackByVehicle(track).forEach((points, vehicleKey) => {
+      const timeline = buildReplayTimeline(points, startTime);
+      if (timeline) byVehicle.set(vehicleKey, timeline);
+    });
+    return byVehicle;
+  }, [track]);
+
+  const player = useMemo(() => {
+    if (timelines.size === 0) return null;
+    const duration = Math.max(...Array.from(timelines.values()).map(timeline => timeline.duration));
+    return new SimulationPlayer({ duration, stops: [] }, 10);
+  }, [timelines]);
+
+  const subscribe = useCallback(
+    (listener: () => void) => (player ? player.subscribe(listener) : noSubscription()),
+    [player]
+  );
+  const state = useSyncExternalStore<SimulationPlayerState | null>(subscribe, () => player?.getState() ?? null);
+
+  const { sendLocation, isConnected } = useWebPubSub({ routeId, role: 'broadcaster', persist: false });
+
+  // Send every vehicle's position on each tick and seek
+  useEffect(() => {
+    if (!player || !isConnected) return;
+
+    return player.subscribe(({ elapsed }) => {
+      timelines.forEach((timeline, vehicleKey) => {
+        const position = timeline.positionAt(elapsed);
+        const broadcast: LocationBroadcast = {
+          routeId,
+          vehicleId: vehicleKey || undefined,
+          location: position.coordinates,
+          // Stamped now, so viewers show the replay as live rather than stale
+          timestamp: Date.now(),
+          heading: position.heading ?? undefined,
+          speed: position.speed,
+          currentWaypointIndex: position.currentWaypointIndex,
+        };
+        sendLocation(broadcast);
+      });
+    });
+  }, [player, isConnected, timelines, routeId, sendLocation]);
+
+  useEffect(() => {
+    return () => player?.pause();
+  }, [player]);
+
+  const play = useCallback(() => player?.play(), [player]);
+  const pause = useCallback(() => player?.pause(), [player]);
+  const seek = useCallback((elapsed: number) => player?.seek(elapsed), [player]);
+  const setRate = useCallback((rate: number) => player?.setRate(rate), [player]);
+
+  return {
+    canReplay: player !== null,
+    isConnected,
+    state,
+    play,
+    pause,
+    seek,
+    setRate,
+  };
+}
@@ -0,0 +1,70 @@
+import { useState, useEffect, useCallback } from 'react';
+import { storageAdapter } from '../storage';
+import type { Route, RouteRevision } from '../types';
+import { useAuth } from '../context';
+import { useUserProfile } from './useUserProfile';
+
+/**
+ * Custom hook for a route's version history in the current brigade.
+ * Revisions are listed newest first, without their snapshots.
+ */
+export function useRouteRevisions(routeId: string) {
+  const { user } = useAuth();
+  const { memberships } = useUserProfile();
+  const [revisions, setRevisions] = useState<RouteRevision[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<Error | null>(null);
+
+  const activeBrigadeId = user?.brigadeId ?? memberships.find(m => m.status === 'active')?.brigadeId;
+
+  const loadRevisions = useCallback(async () => {
+    if (!activeBrigadeId) {
+      setRevisions([]);
+      setIsLoading(false);
+      return;
+    }
+
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      setRevisions(await storageAdapter.getRouteRevisions(activeBrigadeId, routeId));
+    } catch (err) {
+      const error = err instanceof Error ? err : new Error('Failed to load route history');
+      setError(error);
+      console.error('Error loading route history:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [activeBrigadeId, routeId]);
+
+  useEffect(() => {
+    loadRevisions();
+  }, [loadRevisions]);
+
+  const getRevision = useCallback(async (revisionId: string): Promise<RouteRevision | null> => {
+    if (!activeBrigadeId) {
+      return null;
+    }
+    return storageAdapter.getRouteRevision(activeBrigadeId, routeId, revisionId);
+  }, [activeBrigadeId, routeId]);
+
+  const restoreRevision = useCallback(async (revisionId: string): Promise<Route> => {
+    if (!activeBrigadeId) {
+      throw new Error('User must be authenticated with a brigade to restore a route');
+    }
+
+    const restored = await storageAdapter.restoreRouteRevision(activeBrigadeId, routeId, revisionId);
+    await loadRevisions();
+    return restored;
+  }, [activeBrigadeId, routeId, loadRevisions]);
+
+  return {
+    revisions,
+    isLoading,
+    error,
+    getRevision,
+    restoreRevision,
+    refreshRevisions: loadRevisions,
+  };
+}
@@ -0,0 +1,64 @@
+/**
+ * useRouteSimulation hook
+ * Drives a virtual vehicle along the route in place of GPS, for testing and
+ * demos (dev mode only). While it runs, useGeolocation reports the simulated
+ * position, so navigation and location broadcasts behave as on a real run.
+ */
+
+import { useCallback, useEffect, useState, useSyncExternalStore } from 'react';
+import type { Route } from '../types';
+import {
+  SimulationPlayer,
+  buildDriveTimeline,
+  createSimulatedGeolocation,
+  setSimulatedGeolocation,
+} from '../utils/simulation';
+import type { SimulationPlayerState } from '../utils/simulation';
+
+interface UseRouteSimulationOptions {
+  /** Simulate instead of using GPS */
+  enabled: boolean;
+  /** Driving speed between stops */
+  speedKmh?: number;
+}
+
+const noSubscription = () => () => {};
+
+export function useRouteSimulation(route: Route, { enabled, speedKmh }: UseRouteSimulationOptions) {
+  // Built once per navigation session from the route it started with
+  const [timeline] = useState(() => (enabled ? buildDriveTimeline(route, { speedKmh }) : null));
+  const [player] = useState(() => (timeline ? new SimulationPlayer(timeline) : null));
+
+  const subscribe = useCallback(
+    (listener: () => void) => (player ? player.subscribe(listener) : noSubscription()),
+    [player]
+  );
+  const state = useSyncExternalStore<SimulationPlayerState | null>(subscribe, () => player?.getState() ?? null);
+
+  useEffect(() => {
+    if (!timeline || !player) return;
+
+    setSimulatedGeolocation(createSimulatedGeolocation(timeline, player));
+    player.play();
+
+    return () => {
+      player.pause();
+      setSimulatedGeolocation(null);
+    };
+  }, [timeline, player]);
+
+  const play = useCallback(() => player?.play(), [player]);
+  const pause = useCallback(() => player?.pause(), [player]);
+  const seek = useCallback((elapsed: number) => player?.seek(elapsed), [player]);
+  const setRate = useCallback((rate: number) => player?.setRate(rate), [player]);
+
+  return {
+    /** Whether the route could be simulated (it needs geometry) */
+    isSimulating: timeline !== null,
+    state,
+    play,
+    pause,
+    seek,
+    setRate,
+  };
+}
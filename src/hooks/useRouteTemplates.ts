@@ -0,0 +1,83 @@
+import { useState, useEffect, useCallback } from 'react';
+import { storageAdapter } from '../storage';
+import type { RouteTemplate } from '../types';
+import { useAuth } from '../context';
+import { useUserProfile } from './useUserProfile';
+
+/**
+ * Custom hook for managing the current brigade's saved route templates.
+ */
+export function useRouteTemplates() {
+  const { user } = useAuth();
+  const { memberships } = useUserProfile();
+  const [templates, setTemplates] = useState<RouteTemplate[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<Error | null>(null);
+
+  const activeBrigadeId = user?.brigadeId ?? memberships.find(m => m.status === 'active')?.brigadeId;
+
+  const loadTemplates = useCallback(async () => {
+    if (!activeBrigadeId) {
+      setTemplates([]);
+      setIsLoading(false);
+      return;
+    }
+
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const loadedTemplates = await storageAdapter.getRouteTemplates(activeBrigadeId);
+      setTemplates(loadedTemplates.sort((a, b) => b.createdAt.localeCompare(a.createdAt)));
+    } catch (err) {
+      const error = err instanceof Error ? err : new Error('Failed to load route templates');
+      setError(error);
+      console.error('Error loading route templates:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [activeBrigadeId]);
+
+  useEffect(() => {
+    loadTemplates();
+  }, [loadTemplates]);
+
+  const saveTemplate = useCallback(async (template: RouteTemplate) => {
+    if (!activeBrigadeId) {
+      throw new Error('User must be authenticated with a brigade to save route templates');
+    }
+
+    try {
+      await storageAdapter.saveRouteTemplate(activeBrigadeId, template);
+      await loadTemplates();
+    } catch (err) {
+      const error = err instanceof Error ? err : new Error('Failed to save route template');
+      setError(error);
+      throw error;
+    }
+  }, [activeBrigadeId, loadTemplates]);
+
+  const deleteTemplate = useCallback(async (templateId: string) => {
+    if (!activeBrigadeId) {
+      throw new Error('User must be authenticated with a brigade to delete route templates');
+    }
+
+    try {
+      await storageAdapter.deleteRouteTemplate(activeBrigadeId, templateId);
+      await loadTemplates();
+    } catch (err) {
+      const error = err instanceof Error ? err : new Error('Failed to delete route template');
+      setError(error);
+      throw error;
+    }
+  }, [activeBrigadeId, loadTemplates]);
+
+  return {
+    templates,
+    isLoading,
+    error,
+    saveTemplate,
+    deleteTemplate,
+    refreshTemplates: loadTemplates,
+  };
+}
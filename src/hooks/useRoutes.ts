@@ -1,6 +1,7 @@
 import { useState, useEffect, useCallback } from 'react';
 import { storageAdapter } from '../storage';
 import type { Route } from '../types';
+import type { RouteTransition } from '../utils/routeStatus';
 import { useAuth } from '../context';
 import { useUserProfile } from './useUserProfile';
 
@@ -80,6 +81,23 @@ export function useRoutes() {
     }
   }, [user, memberships, loadRoutes]);
 
+  const transitionRoute = useCallback(async (routeId: string, transition: RouteTransition): Promise<Route> => {
+    const brigadeIdToUse = user?.brigadeId ?? memberships.find(m => m.status === 'active')?.brigadeId;
+    if (!brigadeIdToUse) {
+      throw new Error('User must be authenticated with a brigade to change route status');
+    }
+
+    try {
+      const updated = await storageAdapter.transitionRoute(brigadeIdToUse, routeId, transition);
+      await loadRoutes();
+      return updated;
+    } catch (err) {
+      const error = err instanceof Error ? err : new Error('Failed to change route status');
+      setError(error);
+      throw error;
+    }
+  }, [user, memberships, loadRoutes]);
+
   const getRoute = useCallback(async (routeId: string): Promise<Route | null> => {
     const brigadeIdToUse = user?.brigadeId ?? memberships.find(m => m.status === 'active')?.brigadeId;
     if (!brigadeIdToUse) {
@@ -102,6 +120,7 @@ export function useRoutes() {
     saveRoute,
     deleteRoute,
     getRoute,
+    transitionRoute,
     refreshRoutes: loadRoutes,
   };
 }
@@ -0,0 +1,77 @@
+/**
+ * useViewerTracking hook
+ * Reports a tracking page's open, live-connection heartbeats and close for
+ * viewer analytics. Nothing personal is sent; see utils/viewerAnalytics.
+ */
+
+import { useEffect, useRef, useState } from 'react';
+import {
+  HEARTBEAT_INTERVAL_MS,
+  getViewerId,
+  getViewerTimeZone,
+  recordViewerEvent,
+  roundViewerArea,
+} from '../utils/viewerAnalytics';
+import type { ViewerEvent, ViewerEventType } from '../utils/viewerAnalytics';
+
+interface UseViewerTrackingOptions {
+  /** Whether the live Web PubSub connection is up */
+  isConnected: boolean;
+  /** Opened through the embeddable widget */
+  embed?: boolean;
+  /** The viewer's "Santa is near" pin, if they set one (sent rounded to ~5 km) */
+  area?: [number, number] | null;
+}
+
+export function useViewerTracking(routeId: string, { isConnected, embed = false, area }: UseViewerTrackingOptions) {
+  const [sessionId] = useState(() => crypto.randomUUID());
+
+  // Read the latest pin when each event is sent, without restarting the session
+  const areaRef = useRef(area);
+  useEffect(() => {
+    areaRef.current = area;
+  }, [area]);
+
+  // One session per page load: open now, close when the page goes away
+  useEffect(() => {
+    const send = (event: ViewerEventType) => {
+      const payload: ViewerEvent = {
+        sessionId,
+        viewerId: getViewerId(),
+        event,
+        embed,
+        timeZone: getViewerTimeZone(),
+      };
+      if (areaRef.current) {
+        payload.area = roundViewerArea(areaRef.current);
+      }
+      recordViewerEvent(routeId, payload);
+    };
+
+    send('open');
+    const handlePageHide = () => send('close');
+    window.addEventListener('pagehide', handlePageHide);
+
+    return () => {
+      window.removeEventListener('pagehide', handlePageHide);
+      send('close');
+    };
+  }, [routeId, sessionId, embed]);
+
+  // Heartbeats only while live, so concurrent viewers means connected viewers
+  useEffect(() => {
+    if (!isConnected) return;
+
+    const heartbeat = () => {
+      const payload: ViewerEvent = { sessionId, viewerId: getViewerId(), event: 'heartbeat', embed };
+      if (areaRef.current) {
+        payload.area = roundViewerArea(areaRef.current);
+      }
+      recordViewerEvent(routeId, payload);
+    };
+
+    heartbeat();
+    const interval = setInterval(heartbeat, HEARTBEAT_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [routeId, sessionId, embed, isConnected]);
+}
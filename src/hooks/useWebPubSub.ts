@@ -7,10 +7,24 @@
 import { useEffect, useRef, useState, useCallback } from 'react';
 import { WebPubSubClient } from '@azure/web-pubsub-client';
 import type { LocationBroadcast } from '../types';
+import { HttpStatusError, getAccessToken } from '../storage/http';
+import { appendLocalTrack } from '../utils/locationHistory';
+import { loadLocalLastLocation, saveLocalLastLocation } from '../utils/lastLocation';
+import { isRetryableFailure } from '../utils/navigatorOutbox';
+import type { RefusedLocation } from '../utils/navigatorOutbox';
 
 const isDevMode = import.meta.env.VITE_DEV_MODE === 'true';
 const API_BASE_URL = import.meta.env.VITE_API_BASE_URL || '/api';
 
+/**
+ * Authorization header for broadcaster requests.
+ * The API only lets route operators negotiate as broadcaster or push locations.
+ */
+async function getBroadcasterHeaders(): Promise<Record<string, string>> {
+  const token = await getAccessToken();
+  return token ? { Authorization: `Bearer ${token}` } : {};
+}
+
 interface WebPubSubConnectionState {
   isConnected: boolean;
   isConnecting: boolean;
@@ -21,9 +35,14 @@ interface UseWebPubSubOptions {
   routeId: string;
   role?: 'viewer' | 'broadcaster';
   onLocationUpdate?: (location: LocationBroadcast) => void;
+  /**
+   * Dev mode: record sent locations in the local trail and last known location.
+   * Off for replays, which re-send a run that is already recorded.
+   */
+  persist?: boolean;
 }
 
-export function useWebPubSub({ routeId, role = 'viewer', onLocationUpdate }: UseWebPubSubOptions) {
+export function useWebPubSub({ routeId, role = 'viewer', onLocationUpdate, persist = true }: UseWebPubSubOptions) {
   const [state, setState] = useState<WebPubSubConnectionState>({
     isConnected: false,
     isConnecting: false,
@@ -67,7 +86,9 @@ export function useWebPubSub({ routeId, role = 'viewer', onLocationUpdate }: Use
       } else {
         // Production mode: Use Azure Web PubSub
         const negotiateUrl = `${API_BASE_URL}/negotiate?routeId=${encodeURIComponent(routeId)}&role=${role}`;
-        const response = await fetch(negotiateUrl);
+        const response = await fetch(negotiateUrl, {
+          headers: role === 'broadcaster' ? await getBroadcasterHeaders() : {},
+        });
 
         if (!response.ok) {
           throw new Error(`Failed to negotiate connection: ${response.statusText}`);
@@ -150,26 +171,34 @@ export function useWebPubSub({ routeId, role = 'viewer', onLocationUpdate }: Use
 
   /**
    * Send location update (broadcaster only)
+   * Resolves to false if the update could not be delivered, so callers can queue it
    */
-  const sendLocation = useCallback(async (location: LocationBroadcast) => {
+  const sendLocation = useCallback(async (location: LocationBroadcast): Promise<boolean> => {
     if (role !== 'broadcaster') {
       console.warn('[WebPubSub] Only broadcasters can send location updates');
-      return;
+      return false;
     }
 
     try {
       if (isDevMode) {
         // Development mode: Broadcast via BroadcastChannel
-        if (broadcastChannelRef.current) {
-          broadcastChannelRef.current.postMessage(location);
-          console.log('[Dev Mode] Broadcasted location:', location);
+        if (!broadcastChannelRef.current) {
+          return false;
+        }
+        broadcastChannelRef.current.postMessage(location);
+        // Record the trail and latest position locally, standing in for the API
+        if (persist) {
+          appendLocalTrack(location);
+          saveLocalLastLocation(location);
         }
+        console.log('[Dev Mode] Broadcasted location:', location);
       } else {
         // Production mode: Send via API
         const response = await fetch(`${API_BASE_URL}/broadcast`, {
           method: 'POST',
           headers: {
             'Content-Type': 'application/json',
+            ...(await getBroadcasterHeaders()),
           },
           body: JSON.stringify(location),
         });
@@ -180,10 +209,86 @@ export function useWebPubSub({ routeId, role = 'viewer', onLocationUpdate }: Use
 
         console.log('[Production] Broadcasted location:', location);
       }
+      return true;
     } catch (error) {
       console.error('[WebPubSub] Failed to send location:', error);
+      return false;
+    }
+  }, [role, persist]);
+
+  /**
+   * Backfill locations queued while offline (broadcaster only)
+   * Locations keep their original timestamps; viewers only receive the newest
+   * one, and only if it is newer than what they have already seen.
+   * Resolves false if the batch should be tried again later, and rejects with
+   * an HttpStatusError if the server refused it outright. Points the server
+   * dropped from an accepted batch are resolved instead of true.
+   */
+  const sendLocationBatch = useCallback(async (locations: LocationBroadcast[]): Promise<boolean | RefusedLocation[]> => {
+    if (role !== 'broadcaster') {
+      console.warn('[WebPubSub] Only broadcasters can send location updates');
+      return false;
+    }
+
+    if (locations.length === 0) {
+      return true;
+    }
+
+    try {
+      if (isDevMode) {
+        // Development mode: Mirror the backfill endpoint with local storage
+        if (!broadcastChannelRef.current) {
+          return false;
+        }
+        locations.forEach(location => appendLocalTrack(location));
+        // Each vehicle has its own last known location
+        const latestByVehicle = new Map<string, LocationBroadcast>();
+        locations.forEach(location => {
+          const key = location.vehicleId ?? '';
+          const current = latestByVehicle.get(key);
+          if (!current || location.timestamp > current.timestamp) {
+            latestByVehicle.set(key, location);
+          }
+        });
+        latestByVehicle.forEach(latest => {
+          const lastKnown = loadLocalLastLocation(routeId, latest.vehicleId);
+          if (!lastKnown || latest.timestamp > lastKnown.location.timestamp) {
+            broadcastChannelRef.current?.postMessage(latest);
+            saveLocalLastLocation(latest);
+          }
+        });
+        console.log(`[Dev Mode] Backfilled ${locations.length} locations`);
+      } else {
+        // Production mode: Send via backfill API
+        const response = await fetch(`${API_BASE_URL}/broadcast/batch`, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            ...(await getBroadcasterHeaders()),
+          },
+          body: JSON.stringify({ routeId, locations }),
+        });
+
+        if (!response.ok) {
+          throw new HttpStatusError(response.status, `Failed to backfill locations: ${response.statusText}`);
+        }
+
+        const body = await response.json().catch(() => null) as { rejected?: RefusedLocation[] } | null;
+        console.log(`[Production] Backfilled ${locations.length} locations`);
+        if (body?.rejected?.length) {
+          return body.rejected;
+        }
+      }
+      return true;
+    } catch (error) {
+      console.error('[WebPubSub] Failed to backfill locations:', error);
+      // The server refused the batch: let the outbox stop retrying it
+      if (error instanceof HttpStatusError && !isRetryableFailure(error)) {
+        throw error;
+      }
+      return false;
     }
-  }, [role]);
+  }, [role, routeId]);
 
   /**
    * Auto-connect on mount
@@ -202,5 +307,6 @@ export function useWebPubSub({ routeId, role = 'viewer', onLocationUpdate }: Use
     connect,
     disconnect,
     sendLocation,
+    sendLocationBatch,
   };
 }
@@ -8,6 +8,7 @@ import App from './App.tsx'
 import { AuthProvider, BrigadeProvider } from './context'
 import { msalConfig, isMsalConfigured, initializeMsalConfig } from './auth/msalConfig'
 import './utils/fontLoader' // Initialize async font loading (CSP-compliant)
+import { registerServiceWorker } from './utils/serviceWorker'
 
 // Initialize and validate MSAL configuration
 initializeMsalConfig();
@@ -99,3 +100,4 @@ async function initializeApp() {
 
 // Start the app
 initializeApp();
+registerServiceWorker();
@@ -0,0 +1,312 @@
+/**
+ * Audit Log Page
+ *
+ * Lets brigade admins review their brigade's audit trail, and site owners with
+ * the `view_audit_logs` permission review every brigade's.
+ */
+
+import { useState } from 'react';
+import { format } from 'date-fns';
+import { useAuditLog } from '../hooks';
+import { SEO, AppLayout } from '../components';
+import { COLORS } from '../utils/constants';
+import { AUDIT_EVENT_CATEGORIES, EMPTY_AUDIT_LOG_FILTERS } from '../utils/auditLog';
+import type { AuditLogFilters, AuditLogRecord } from '../utils/auditLog';
+
+const fieldStyle = {
+  padding: '0.5rem',
+  border: `1px solid ${COLORS.neutral300}`,
+  borderRadius: '8px',
+  fontSize: '0.875rem',
+  backgroundColor: 'white',
+};
+
+const labelStyle = {
+  display: 'flex',
+  flexDirection: 'column' as const,
+  gap: '0.25rem',
+  fontSize: '0.75rem',
+  fontWeight: 600,
+  color: COLORS.neutral700,
+};
+
+/**
+ * AuditLogPage
+ *
+ * Filterable list of audit log entries, newest first.
+ */
+export function AuditLogPage() {
+  const [filters, setFilters] = useState<AuditLogFilters>(EMPTY_AUDIT_LOG_FILTERS);
+  const { scopes, brigadeId, entries, truncated, isLoading, error, refreshEntries } = useAuditLog(filters);
+
+  const setFilter = <K extends keyof AuditLogFilters>(key: K, value: AuditLogFilters[K]) => {
+    setFilters(prev => ({ ...prev, [key]: value }));
+  };
+
+  const hasAccess = scopes === null || scopes.allBrigades || scopes.brigades.length > 0;
+  const brigadeName = (id: string) => scopes?.brigades.find(b => b.id === id)?.name ?? id;
+
+  return (
+    <>
+      <SEO title="Audit Log" description="Review security and membership activity" />
+      <AppLayout>
+      <div style={{
+        width: '100%',
+        height: '100%',
+        overflow: 'auto',
+        backgroundColor: '#fafafa',
+      }}>
+        <div style={{ padding: '2rem', maxWidth: '1200px', margin: '0 auto' }}>
+          {/* Header */}
+          <div style={{ marginBottom: '1.5rem' }}>
+            <h1 style={{ margin: 0, marginBottom: '0.5rem', fontSize: '2rem', color: COLORS.primary }}>
+              🧾 Audit Log
+            </h1>
+            <p style={{ margin: 0, color: '#616161' }}>
+              Sign-ins, membership changes and route actions, newest first.
+            </p>
+          </div>
+
+          {!hasAccess ? (
+            <div style={{ padding: '2rem', textAlign: 'center', backgroundColor: 'white', borderRadius: '12px' }}>
+              <div style={{ fontSize: '48px', marginBottom: '1rem' }}>🔒</div>
+              <p style={{ margin: 0, color: COLORS.neutral700 }}>
+                Only brigade admins and site owners can view the audit log.
+              </p>
+            </div>
+          ) : (
+            <>
+              {/* Filters */}
+              <div style={{
+                display: 'flex',
+                flexWrap: 'wrap',
+                gap: '1rem',
+                alignItems: 'end',
+                padding: '1rem',
+                marginBottom: '1.5rem',
+                backgroundColor: 'white',
+                borderRadius: '12px',
+                border: `1px solid ${COLORS.neutral200}`,
+              }}>
+                <label style={labelStyle}>
+                  Brigade
+                  <select
+                    value={brigadeId}
+                    onChange={(e) => setFilter('brigadeId', e.target.value)}
+                    style={fieldStyle}
+                  >
+                    {scopes?.allBrigades && <option value="">All brigades</option>}
+                    {scopes?.allBrigades && <option value="system">No brigade (system)</option>}
+                    {scopes?.brigades.map(brigade => (
+                      <option key={brigade.id} value={brigade.id}>{brigade.name}</option>
+                    ))}
+                  </select>
+                </label>
+                <label style={labelStyle}>
+                  Event
+                  <select
+                    value={filters.eventType}
+                    onChange={(e) => setFilter('eventType', e.target.value)}
+                    style={fieldStyle}
+                  >
+                    <option value="">All events</option>
+                    {AUDIT_EVENT_CATEGORIES.map(category => (
+                      <option key={category.value} value={category.value}>{category.label}</option>
+                    ))}
+                  </select>
+                </label>
+                <label style={labelStyle}>
+                  User ID
+                  <input
+                    type="text"
+                    value={filters.userId}
+                    onChange={(e) => setFilter('userId', e.target.value)}
+                    placeholder="By or about this user"
+                    style={fieldStyle}
+                  />
+                </label>
+                <label style={labelStyle}>
+                  From
+                  <input
+                    type="date"
+                    value={filters.fromDate}
+                    onChange={(e) => setFilter('fromDate', e.target.value)}
+                    style={fieldStyle}
+                  />
+                </label>
+                <label style={labelStyle}>
+                  To
+                  <input
+                    type="date"
+                    value={filters.toDate}
+                    onChange={(e) => setFilter('toDate', e.target.value)}
+                    style={fieldStyle}
+                  />
+                </label>
+                <label style={labelStyle}>
+                  Recorded by
+                  <select
+                    value={filters.source}
+                    onChange={(e) => setFilter('source', e.target.value as AuditLogFilters['source'])}
+                    style={fieldStyle}
+                  >
+                    <option value="">Server and browser</option>
+                    <option value="server">Server</option>
+                    <option value="client">Browser</option>
+                  </select>
+                </label>
+                <button
+                  onClick={() => setFilters({ ...EMPTY_AUDIT_LOG_FILTERS, brigadeId: filters.brigadeId })}
+                  style={{
+                    ...fieldStyle,
+                    fontWeight: 600,
+                    color: COLORS.neutral900,
+                    cursor: 'pointer',
+                  }}
+                >
+                  Clear filters
+                </button>
+              </div>
+
+              {/* Entries */}
+              {error ? (
+                <div style={{ padding: '2rem', textAlign: 'center' }}>
+                  <p role="alert" style={{ color: COLORS.error }}>{error.message}</p>
+                  <button
+                    onClick={refreshEntries}
+                    style={{
+                      marginTop: '1rem',
+                      padding: '0.75rem 1.5rem',
+                      background: COLORS.primary,
+                      color: 'white',
+                      border: 'none',
+                      borderRadius: '8px',
+                      cursor: 'pointer',
+                    }}
+                  >
+                    Retry
+                  </button>
+                </div>
+              ) : isLoading ? (
+                <div style={{ padding: '2rem', textAlign: 'center', color: COLORS.neutral700 }}>
+                  Loading audit log…
+                </div>
+              ) : entries.length === 0 ? (
+                <div style={{ padding: '2rem', textAlign: 'center', color: COLORS.neutral700 }}>
+                  No audit entries match these filters.
+                </div>
+              ) : (
+                <>
+                  <ol style={{ listStyle: 'none', margin: 0, padding: 0, display: 'flex', flexDirection: 'column', gap: '0.5rem' }}>
+                    {entries.map(entry => (
+                      <AuditLogRow
+                        key={`${entry.brigadeId}-${entry.id}`}
+                        entry={entry}
+                        brigadeName={!brigadeId ? brigadeName(entry.brigadeId) : undefined}
+                      />
+                    ))}
+                  </ol>
+                  {truncated && (
+                    <p style={{ marginTop: '1rem', fontSize: '0.875rem', color: COLORS.neutral700, textAlign: 'center' }}>
+                      Showing the newest {entries.length} entries. Narrow the filters to see older ones.
+                    </p>
+                  )}
+                </>
+              )}
+            </>
+          )}
+        </div>
+      </div>
+      </AppLayout>
+    </>
+  );
+}
+
+interface AuditLogRowProps {
+  entry: AuditLogRecord;
+  /** Shown when listing more than one brigade */
+  brigadeName?: string;
+}
+
+function AuditLogRow({ entry, brigadeName }: AuditLogRowProps) {
+  const [expanded, setExpanded] = useState(false);
+  const hasDetails = Boolean(
+    entry.metadata || entry.resourceId || entry.targetUserId || entry.clientTimestamp || entry.ipAddress || entry.userAgent
+  );
+
+  return (
+    <li style={{
+      padding: '0.75rem 1rem',
+      backgroundColor: 'white',
+      borderRadius: '12px',
+      border: `1px solid ${COLORS.neutral200}`,
+      fontSize: '0.875rem',
+    }}>
+      <div style={{ display: 'flex', justifyContent: 'space-between', gap: '1rem', flexWrap: 'wrap' }}>
+        <div>
+          <code style={{ fontSize: '0.75rem', color: COLORS.primary }}>{entry.eventType}</code>
+          {entry.source === 'client' && (
+            <span style={{ marginLeft: '0.5rem', fontSize: '0.75rem', color: COLORS.neutral700 }}>
+              {entry.verified ? '(reported by browser)' : '(reported by browser, not signed in – unverified)'}
+            </span>
+          )}
+          <div style={{ marginTop: '0.25rem', color: COLORS.neutral900 }}>{entry.message}</div>
+          <div style={{ marginTop: '0.25rem', fontSize: '0.75rem', color: COLORS.neutral700 }}>
+            {entry.userEmail || entry.userId || 'Anonymous'}
+            {brigadeName && ` · ${brigadeName}`}
+          </div>
+        </div>
+        <div style={{ textAlign: 'right', fontSize: '0.75rem', color: COLORS.neutral700 }}>
+          {format(new Date(entry.occurredAt), 'MMM dd yyyy, h:mm:ss a')}
+          {hasDetails && (
+            <div>
+              <button
+                onClick={() => setExpanded(!expanded)}
+                aria-expanded={expanded}
+                style={{
+                  marginTop: '0.25rem',
+                  padding: 0,
+                  border: 'none',
+                  background: 'none',
+                  color: COLORS.primary,
+                  fontSize: '0.75rem',
+                  cursor: 'pointer',
+                }}
+              >
+                {expanded ? 'Hide details' : 'Details'}
+              </button>
+            </div>
+          )}
+        </div>
+      </div>
+      {expanded && (
+        <dl style={{
+          margin: '0.75rem 0 0',
+          display: 'grid',
+          gridTemplateColumns: 'max-content 1fr',
+          gap: '0.25rem 1rem',
+          fontSize: '0.75rem',
+          color: COLORS.neutral700,
+        }}>
+          {entry.targetUserId && (<><dt>Target user</dt><dd style={{ margin: 0 }}>{entry.targetUserId}</dd></>)}
+          {entry.resourceId && (<><dt>Resource</dt><dd style={{ margin: 0 }}>{entry.resourceId}</dd></>)}
+          {entry.clientTimestamp && (
+            <><dt>Browser time</dt><dd style={{ margin: 0 }}>{format(new Date(entry.clientTimestamp), 'MMM dd yyyy, h:mm:ss a')}</dd></>
+          )}
+          {entry.ipAddress && (<><dt>IP address</dt><dd style={{ margin: 0 }}>{entry.ipAddress}</dd></>)}
+          {entry.userAgent && (<><dt>User agent</dt><dd style={{ margin: 0 }}>{entry.userAgent}</dd></>)}
+          {entry.metadata && (
+            <>
+              <dt>Details</dt>
+              <dd style={{ margin: 0 }}>
+                <pre style={{ margin: 0, whiteSpace: 'pre-wrap', wordBreak: 'break-word' }}>
+                  {JSON.stringify(entry.metadata, null, 2)}
+                </pre>
+              </dd>
+            </>
+          )}
+        </dl>
+      )}
+    </li>
+  );
+}
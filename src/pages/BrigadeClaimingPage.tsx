@@ -11,7 +11,7 @@ import { useUserProfile } from '../hooks/useUserProfile';
 import { searchStationsByName, getStationsByState } from '../utils/rfsData';
 import { storageAdapter } from '../storage';
 import { MembershipService } from '../services/membershipService';
-import { HttpStorageAdapter } from '../storage/http';
+import { HttpStorageAdapter, getAccessToken } from '../storage/http';
 import { isGovernmentEmail } from '../utils/emailValidation';
 import { logBrigadeClaimed } from '../utils/auditLog';
 import { COLORS } from '../utils/constants';
@@ -117,9 +117,14 @@ export function BrigadeClaimingPage() {
       const isHttpAdapter = storageAdapter instanceof HttpStorageAdapter;
 
       if (isHttpAdapter) {
+        // The API claims for the signed-in user and records its own audit event
+        const token = await getAccessToken();
         const response = await fetch(`/api/brigades/${encodeURIComponent(brigade.id)}/claim`, {
           method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
+          headers: {
+            'Content-Type': 'application/json',
+            ...(token ? { Authorization: `Bearer ${token}` } : {}),
+          },
           body: JSON.stringify({ userId: user.id }),
         });
 
@@ -150,10 +155,10 @@ export function BrigadeClaimingPage() {
         }
 
         brigade = { ...brigade, isClaimed: true, claimedBy: user.id };
-      }
 
-      // Log brigade claiming (brigade is guaranteed to exist here)
-      logBrigadeClaimed(user.id, user.email, brigade!.id, brigade!.name);
+        // Log brigade claiming (brigade is guaranteed to exist here)
+        logBrigadeClaimed(user.id, user.email, brigade!.id, brigade!.name);
+      }
 
       // Success! Refresh profile to get new membership
       await refreshProfile();
@@ -0,0 +1,188 @@
+/**
+ * Public brigade page (/b/:slug)
+ * Lets residents find a brigade's live, upcoming and recent Santa runs without
+ * a direct tracking link
+ */
+
+import { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { format, parseISO } from 'date-fns';
+import { RouteStatusBadge, SEO } from '../components';
+import { COLORS } from '../utils/constants';
+import { formatDistance, formatDuration } from '../utils/mapbox';
+import { fetchPublicBrigadePage } from '../utils/publicBrigade';
+import type { PublicBrigadePage, PublicRouteStatus, PublicRouteSummary } from '../utils/publicBrigade';
+
+export interface BrigadePageProps {
+  slug: string;
+}
+
+const SECTIONS: Array<{ status: PublicRouteStatus; title: string }> = [
+  { status: 'active', title: '🔴 Live now' },
+  { status: 'published', title: '📅 Upcoming runs' },
+  { status: 'completed', title: '✅ Recent runs' },
+];
+
+function RouteCard({ route, accentColor }: { route: PublicRouteSummary; accentColor: string }) {
+  const details = [
+    `${route.stopCount} ${route.stopCount === 1 ? 'stop' : 'stops'}`,
+    route.distance ? formatDistance(route.distance) : null,
+    route.estimatedDuration ? formatDuration(route.estimatedDuration) : null,
+  ].filter(Boolean).join(' · ');
+
+  return (
+    <Link
+      to={`/track/${route.id}`}
+      style={{
+        display: 'block',
+        backgroundColor: 'white',
+        borderRadius: '16px',
+        padding: '1rem 1.25rem',
+        boxShadow: '0 2px 8px rgba(0,0,0,0.1)',
+        border: `2px solid ${route.status === 'active' ? accentColor : COLORS.neutral200}`,
+        textDecoration: 'none',
+        color: COLORS.neutral900,
+      }}
+    >
+      <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'start', gap: '1rem' }}>
+        <div>
+          <div style={{ fontWeight: 600 }}>{route.name}</div>
+          <div style={{ fontSize: '0.875rem', color: COLORS.neutral700 }}>
+            {format(parseISO(route.date), 'EEEE d MMMM yyyy')} from {route.startTime}
+          </div>
+        </div>
+        <RouteStatusBadge status={route.status} />
+      </div>
+      {route.description && (
+        <p style={{ margin: '0.5rem 0 0 0', fontSize: '0.875rem', color: COLORS.neutral700 }}>{route.description}</p>
+      )}
+      <div style={{ marginTop: '0.5rem', fontSize: '0.75rem', color: COLORS.neutral700 }}>{details}</div>
+    </Link>
+  );
+}
+
+export function BrigadePage({ slug }: BrigadePageProps) {
+  const [page, setPage] = useState<PublicBrigadePage | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchPublicBrigadePage(slug)
+      .then((loaded) => {
+        if (loaded) {
+          setPage(loaded);
+        } else {
+          setError('Brigade not found');
+        }
+      })
+      .catch((err) => {
+        console.error('Failed to load brigade page:', err);
+        setError('Failed to load brigade');
+      })
+      .finally(() => {
+        setIsLoading(false);
+      });
+  }, [slug]);
+
+  if (isLoading) {
+    return (
+      <div style={{ display: 'flex', justifyContent: 'center', alignItems: 'center', height: '100vh' }}>
+        <div style={{ textAlign: 'center' }}>
+          <div style={{ fontSize: '48px', marginBottom: '1rem' }}>🎅</div>
+          <p>Loading brigade...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (error || !page) {
+    return (
+      <>
+        <SEO title="Brigade Not Found" description="The requested brigade could not be found" />
+        <div style={{ padding: '4rem 2rem', textAlign: 'center' }}>
+          <div style={{ fontSize: '64px', marginBottom: '1rem' }}>⚠️</div>
+          <h2 style={{ color: COLORS.fireRed, marginBottom: '1rem' }}>{error || 'Brigade not found'}</h2>
+          <Link to="/" style={{ color: COLORS.fireRed }}>← Back to Home</Link>
+        </div>
+      </>
+    );
+  }
+
+  const { brigade, routes } = page;
+  const accentColor = brigade.themeColor || COLORS.fireRed;
+  const upcoming = routes.filter(route => route.status !== 'completed').length;
+
+  return (
+    <>
+      <SEO
+        title={`${brigade.name} Santa Runs`}
+        description={`Follow ${brigade.name}${brigade.location ? ` (${brigade.location})` : ''} on their Santa runs. ${
+          upcoming > 0 ? `${upcoming} upcoming or live ${upcoming === 1 ? 'run' : 'runs'} - track Santa live on the night.` : 'Check back soon for this year\'s runs.'
+        }`}
+        image={brigade.logo}
+        url={`${window.location.origin}/b/${brigade.slug}`}
+      />
+      <div style={{ minHeight: '100vh', backgroundColor: COLORS.neutral50 }}>
+        <header style={{ backgroundColor: accentColor, color: 'white', padding: '2rem 1rem', textAlign: 'center' }}>
+          {brigade.logo ? (
+            <img
+              src={brigade.logo}
+              alt={`${brigade.name} logo`}
+              style={{ width: '80px', height: '80px', objectFit: 'contain', borderRadius: '16px', backgroundColor: 'white', padding: '0.5rem' }}
+            />
+          ) : (
+            <div style={{ fontSize: '48px' }} aria-hidden="true">🚒</div>
+          )}
+          <h1 style={{ margin: '0.75rem 0 0.25rem 0', fontFamily: 'var(--font-heading)' }}>{brigade.name}</h1>
+          {brigade.location && <p style={{ margin: 0, opacity: 0.9 }}>{brigade.location}</p>}
+        </header>
+
+        <main style={{ maxWidth: '720px', margin: '0 auto', padding: '2rem 1rem' }}>
+          {routes.length === 0 && (
+            <p style={{ textAlign: 'center', color: COLORS.neutral700 }}>
+              No Santa runs are scheduled yet. Check back closer to Christmas! 🎄
+            </p>
+          )}
+
+          {SECTIONS.map(({ status, title }) => {
+            const sectionRoutes = routes.filter(route => route.status === status);
+            if (sectionRoutes.length === 0) {
+              return null;
+            }
+            return (
+              <section key={status} aria-labelledby={`runs-${status}`} style={{ marginBottom: '2rem' }}>
+                <h2 id={`runs-${status}`} style={{ fontSize: '1.25rem', color: COLORS.neutral900, margin: '0 0 0.75rem 0' }}>
+                  {title}
+                </h2>
+                <div style={{ display: 'flex', flexDirection: 'column', gap: '0.75rem' }}>
+                  {sectionRoutes.map(route => (
+                    <RouteCard key={route.id} route={route} accentColor={accentColor} />
+                  ))}
+                </div>
+              </section>
+            );
+          })}
+
+          {brigade.contact && (
+            <section aria-labelledby="brigade-contact" style={{ borderTop: `1px solid ${COLORS.neutral300}`, paddingTop: '1.5rem' }}>
+              <h2 id="brigade-contact" style={{ fontSize: '1rem', color: COLORS.neutral900, margin: '0 0 0.5rem 0' }}>
+                Contact the brigade
+              </h2>
+              <ul style={{ listStyle: 'none', margin: 0, padding: 0, fontSize: '0.875rem', color: COLORS.neutral700, lineHeight: 1.8 }}>
+                {brigade.contact.email && (
+                  <li>✉️ <a href={`mailto:${brigade.contact.email}`} style={{ color: accentColor }}>{brigade.contact.email}</a></li>
+                )}
+                {brigade.contact.phone && (
+                  <li>📞 <a href={`tel:${brigade.contact.phone}`} style={{ color: accentColor }}>{brigade.contact.phone}</a></li>
+                )}
+                {brigade.contact.website && (
+                  <li>🌐 <a href={brigade.contact.website} target="_blank" rel="noopener noreferrer" style={{ color: accentColor }}>{brigade.contact.website}</a></li>
+                )}
+              </ul>
+            </section>
+          )}
+        </main>
+      </div>
+    </>
+  );
+}
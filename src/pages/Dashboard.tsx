@@ -1,16 +1,58 @@
 import { useState } from 'react';
 import { useNavigate } from 'react-router-dom';
-import { useRoutes } from '../hooks';
-import { RouteStatusBadge, ShareModal, SEO, DashboardSkeleton, AppLayout } from '../components';
-import type { Route, RouteStatus } from '../types';
+import { useEvents, useRoutes, useRouteTemplates } from '../hooks';
+import { useAuth } from '../context';
+import { RouteStatusBadge, ShareModal, SEO, DashboardSkeleton, AppLayout, RouteTemplateList, EventList } from '../components';
+import type { ShareableRoute } from '../components';
+import type { BrigadeEvent, Route, RouteStatus, RouteTemplate } from '../types';
 import { formatDistance, formatDuration } from '../utils/mapbox';
+import { duplicateRoute } from '../utils/routeHelpers';
+import { createRouteFromTemplate } from '../utils/routeTemplates';
+import { createNewEvent, formatEventDates, generateEventLink, getEventNights } from '../utils/events';
+import type { TemplateInstanceOptions } from '../utils/routeTemplates';
 import { format } from 'date-fns';
 
 export function Dashboard() {
   const navigate = useNavigate();
-  const { routes, isLoading, error } = useRoutes();
+  const { user } = useAuth();
+  const { routes, isLoading, error, saveRoute } = useRoutes();
+  const { templates, deleteTemplate } = useRouteTemplates();
+  const { events, saveEvent, deleteEvent } = useEvents();
   const [filterStatus, setFilterStatus] = useState<RouteStatus | 'all'>('all');
-  const [shareModalRoute, setShareModalRoute] = useState<Route | null>(null);
+  const [shareModalRoute, setShareModalRoute] = useState<ShareableRoute | null>(null);
+
+  const handleDuplicate = async (route: Route) => {
+    const copy = duplicateRoute(route, user?.email);
+    try {
+      await saveRoute(copy);
+      navigate(`/routes/${copy.id}/edit`);
+    } catch (err) {
+      console.error('Failed to duplicate route:', err);
+      alert('Failed to duplicate route. Please try again.');
+    }
+  };
+
+  // One flyer for the whole season: the event link resolves to tonight's route
+  const handleShareEvent = (event: BrigadeEvent) => {
+    setShareModalRoute({
+      id: event.id,
+      name: event.name,
+      description: event.description,
+      date: formatEventDates(getEventNights(event, routes)),
+      shareableLink: generateEventLink(event.id),
+    });
+  };
+
+  const handleUseTemplate = async (template: RouteTemplate, options: TemplateInstanceOptions) => {
+    const route = createRouteFromTemplate(template, options, user?.email);
+    try {
+      await saveRoute(route);
+      navigate(`/routes/${route.id}/edit`);
+    } catch (err) {
+      console.error('Failed to create route from template:', err);
+      alert('Failed to create route from template. Please try again.');
+    }
+  };
 
   const filteredRoutes = filterStatus === 'all' 
     ? routes 
@@ -459,18 +501,76 @@ export function Dashboard() {
                 >
                   🔗 Share
                 </button>
+                <button
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    handleDuplicate(route);
+                  }}
+                  aria-label={`Duplicate ${route.name}`}
+                  title="Duplicate route"
+                  style={{
+                    padding: '0.5rem 0.75rem',
+                    border: '2px solid var(--neutral-300)',
+                    borderRadius: '8px',
+                    background: 'white',
+                    color: 'var(--neutral-700)',
+                    cursor: 'pointer',
+                    fontSize: '0.875rem',
+                    fontWeight: 600,
+                  }}
+                >
+                  📄
+                </button>
               </div>
             </div>
           ))}
         </div>
       )}
 
+      {/* Multi-night Events */}
+      <section aria-labelledby="events-heading" style={{ marginTop: '2.5rem' }}>
+        <h2
+          id="events-heading"
+          style={{ margin: '0 0 0.25rem 0', fontSize: '1.5rem', color: 'var(--fire-red)', fontFamily: 'var(--font-heading)' }}
+        >
+          <span aria-hidden="true">🗓️</span> Events
+        </h2>
+        <p style={{ margin: '0 0 1rem 0', color: 'var(--neutral-700)', fontSize: '0.875rem' }}>
+          Running a different suburb each night? Group the nights into an event for one public page and one QR code that always opens tonight's route.
+        </p>
+        <EventList
+          events={events}
+          routes={routes}
+          onCreate={() => createNewEvent(user?.brigadeId ?? '', user?.email)}
+          onSave={saveEvent}
+          onDelete={deleteEvent}
+          onShare={handleShareEvent}
+        />
+      </section>
+
+      {/* Route Templates */}
+      {templates.length > 0 && (
+        <section aria-labelledby="route-templates-heading" style={{ marginTop: '2.5rem' }}>
+          <h2
+            id="route-templates-heading"
+            style={{ margin: '0 0 0.25rem 0', fontSize: '1.5rem', color: 'var(--fire-red)', fontFamily: 'var(--font-heading)' }}
+          >
+            <span aria-hidden="true">📋</span> Route Templates
+          </h2>
+          <p style={{ margin: '0 0 1rem 0', color: 'var(--neutral-700)', fontSize: '0.875rem' }}>
+            Start this year's run from a saved route. Save a template from any route's detail page.
+          </p>
+          <RouteTemplateList templates={templates} onUse={handleUseTemplate} onDelete={deleteTemplate} />
+        </section>
+      )}
+
       {/* Share Modal */}
       {shareModalRoute && (
         <ShareModal
           route={shareModalRoute}
           isOpen={true}
           onClose={() => setShareModalRoute(null)}
+          showEmbedCode={!events.some(event => event.id === shareModalRoute.id)}
         />
       )}
     </div>
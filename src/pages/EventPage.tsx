@@ -0,0 +1,169 @@
+/**
+ * Public page for a multi-night event
+ * Lists every night's route with its status. The event's flyer link
+ * (/events/:id/tonight) skips straight to the tracking page for tonight's route.
+ */
+
+import { useEffect, useState } from 'react';
+import { Link, Navigate } from 'react-router-dom';
+import { format, parseISO } from 'date-fns';
+import { storageAdapter } from '../storage';
+import type { Brigade } from '../storage';
+import { RouteStatusBadge, SEO } from '../components';
+import type { BrigadeEvent, Route } from '../types';
+import { COLORS } from '../utils/constants';
+import { formatEventDates, getEventNights, pickTonightRoute } from '../utils/events';
+
+export interface EventPageProps {
+  eventId: string;
+  redirectToTonight?: boolean;
+}
+
+export function EventPage({ eventId, redirectToTonight = false }: EventPageProps) {
+  const [event, setEvent] = useState<BrigadeEvent | null>(null);
+  const [brigade, setBrigade] = useState<Brigade | null>(null);
+  const [nights, setNights] = useState<Route[]>([]);
+  const [tonight, setTonight] = useState<Route | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const loadEvent = async () => {
+      try {
+        const loadedEvent = await storageAdapter.getEvent(eventId);
+        if (!loadedEvent) {
+          setError('Event not found');
+          return;
+        }
+
+        const [routes, loadedBrigade] = await Promise.all([
+          storageAdapter.getRoutes(loadedEvent.brigadeId),
+          storageAdapter.getBrigade(loadedEvent.brigadeId).catch(() => null),
+        ]);
+        const eventNights = getEventNights(loadedEvent, routes);
+
+        setEvent(loadedEvent);
+        setBrigade(loadedBrigade);
+        setNights(eventNights);
+        setTonight(pickTonightRoute(eventNights, format(new Date(), 'yyyy-MM-dd')));
+      } catch (err) {
+        console.error('Failed to load event:', err);
+        setError('Failed to load event');
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    loadEvent();
+  }, [eventId]);
+
+  if (isLoading) {
+    return (
+      <div style={{ display: 'flex', justifyContent: 'center', alignItems: 'center', height: '100vh' }}>
+        <div style={{ textAlign: 'center' }}>
+          <div style={{ fontSize: '48px', marginBottom: '1rem' }}>🎅</div>
+          <p>Finding Santa...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (redirectToTonight && tonight) {
+    return <Navigate to={`/track/${tonight.id}`} replace />;
+  }
+
+  if (error || !event) {
+    return (
+      <>
+        <SEO title="Event Not Found" description="The requested Santa run event could not be found" />
+        <div style={{ padding: '4rem 2rem', textAlign: 'center' }}>
+          <div style={{ fontSize: '64px', marginBottom: '1rem' }}>⚠️</div>
+          <h2 style={{ color: COLORS.fireRed, marginBottom: '1rem' }}>{error || 'Event not found'}</h2>
+          <Link to="/" style={{ color: COLORS.fireRed }}>← Back to Home</Link>
+        </div>
+      </>
+    );
+  }
+
+  const dates = formatEventDates(nights);
+
+  return (
+    <>
+      <SEO
+        title={event.name}
+        description={event.description || `Follow Santa every night${dates ? ` from ${dates}` : ''}`}
+      />
+      <div style={{ minHeight: '100vh', backgroundColor: COLORS.neutral50, padding: '2rem 1rem' }}>
+        <div style={{ maxWidth: '720px', margin: '0 auto' }}>
+          <header style={{ textAlign: 'center', marginBottom: '2rem' }}>
+            <div style={{ fontSize: '48px' }} aria-hidden="true">🎅</div>
+            <h1 style={{ margin: '0.5rem 0', color: COLORS.fireRed, fontFamily: 'var(--font-heading)' }}>
+              {event.name}
+            </h1>
+            {brigade && (
+              <p style={{ margin: 0, color: COLORS.neutral900, fontWeight: 600 }}>{brigade.name}</p>
+            )}
+            {dates && (
+              <p style={{ margin: '0.25rem 0 0 0', color: COLORS.neutral700 }}>{dates}</p>
+            )}
+            {event.description && (
+              <p style={{ margin: '1rem 0 0 0', color: COLORS.neutral700 }}>{event.description}</p>
+            )}
+          </header>
+
+          {nights.length === 0 ? (
+            <p style={{ textAlign: 'center', color: COLORS.neutral700 }}>
+              Routes for this event haven't been published yet. Check back soon!
+            </p>
+          ) : (
+            <ol style={{ listStyle: 'none', margin: 0, padding: 0, display: 'flex', flexDirection: 'column', gap: '0.75rem' }}>
+              {nights.map(route => {
+                const isTonight = route.id === tonight?.id;
+                return (
+                  <li
+                    key={route.id}
+                    style={{
+                      backgroundColor: 'white',
+                      borderRadius: '16px',
+                      padding: '1rem 1.25rem',
+                      boxShadow: '0 2px 8px rgba(0,0,0,0.1)',
+                      border: `2px solid ${isTonight ? COLORS.fireRed : COLORS.neutral200}`,
+                      display: 'flex',
+                      alignItems: 'center',
+                      gap: '1rem',
+                      flexWrap: 'wrap',
+                    }}
+                  >
+                    <div style={{ flex: 1, minWidth: '200px' }}>
+                      <div style={{ fontSize: '0.875rem', color: COLORS.neutral700 }}>
+                        {isTonight && <strong style={{ color: COLORS.fireRed }}>Tonight · </strong>}
+                        {format(parseISO(route.date), 'EEEE d MMMM')} from {route.startTime}
+                      </div>
+                      <div style={{ fontWeight: 600, color: COLORS.neutral900 }}>{route.name}</div>
+                    </div>
+                    <RouteStatusBadge status={route.status} />
+                    <Link
+                      to={`/track/${route.id}`}
+                      style={{
+                        padding: '0.5rem 1rem',
+                        borderRadius: '8px',
+                        background: isTonight ? COLORS.fireRed : 'white',
+                        color: isTonight ? 'white' : COLORS.fireRed,
+                        border: `2px solid ${COLORS.fireRed}`,
+                        textDecoration: 'none',
+                        fontSize: '0.875rem',
+                        fontWeight: 600,
+                      }}
+                    >
+                      {route.status === 'active' ? '🔴 Track live' : '🗺️ View route'}
+                    </Link>
+                  </li>
+                );
+              })}
+            </ol>
+          )}
+        </div>
+      </div>
+    </>
+  );
+}
@@ -1,27 +1,175 @@
 /**
  * NavigationView page
  * Main turn-by-turn navigation interface for brigade operators
+ * On multi-vehicle routes the operator first picks which vehicle this device is
+ * in, then navigates that vehicle's stops only.
+ * In dev mode the route can be simulated instead of driven (see useRouteSimulation).
  */
 
-import { useEffect, useState, useCallback } from 'react';
-import { useNavigation, useRoutes, useLocationBroadcast } from '../hooks';
+import { useEffect, useState, useCallback, useMemo, useRef } from 'react';
+import { useNavigation, useRoutes, useLocationBroadcast, useRouteSimulation } from '../hooks';
 import { useWakeLock } from '../utils/wakeLock';
 import { NavigationHeader } from '../components/NavigationHeader';
 import { NavigationMap } from '../components/NavigationMap';
 import { NavigationPanel } from '../components/NavigationPanel';
+import { SimulationControls } from '../components/SimulationControls';
 import { isNearWaypoint } from '../utils/navigation';
+import { cacheNavigationRoute, clearCachedNavigationRoute } from '../utils/navigatorOutbox';
+import { buildScheduleResults } from '../utils/schedule';
+import { COLORS, FLOATING_PANEL, Z_INDEX } from '../utils/constants';
+import {
+  buildVehicleRoute,
+  clearSelectedVehicleId,
+  findVehicle,
+  getVehicleProgress,
+  hasVehicles,
+  loadSelectedVehicleId,
+  mergeVehicleProgress,
+  saveSelectedVehicleId,
+} from '../utils/vehicles';
 import type { Route } from '../types';
 
 export interface NavigationViewProps {
   route: Route;
   onComplete?: () => void;
   onExit?: () => void;
+  /** Drive a virtual vehicle along the route instead of using GPS (dev mode) */
+  simulation?: { speedKmh?: number };
 }
 
-export function NavigationView({ route, onComplete, onExit }: NavigationViewProps) {
+const exitButtonStyle = {
+  padding: '0.75rem 1.5rem',
+  fontSize: '1rem',
+  fontWeight: 'bold',
+  border: 'none',
+  borderRadius: '12px',
+  cursor: 'pointer',
+  background: 'linear-gradient(135deg, #D32F2F 0%, #B71C1C 100%)',
+  color: 'white',
+  boxShadow: '0 2px 4px rgba(0,0,0,0.2)',
+};
+
+export function NavigationView({ route, onComplete, onExit, simulation }: NavigationViewProps) {
+  const [vehicleId, setVehicleId] = useState<string | null>(() => {
+    const stored = loadSelectedVehicleId(route.id);
+    return findVehicle(route, stored ?? undefined) ? stored : null;
+  });
+
+  if (!hasVehicles(route)) {
+    return <NavigationSession route={route} onComplete={onComplete} onExit={onExit} simulation={simulation} />;
+  }
+
+  if (!vehicleId) {
+    return (
+      <div
+        style={{
+          display: 'flex',
+          flexDirection: 'column',
+          alignItems: 'center',
+          justifyContent: 'center',
+          minHeight: '100vh',
+          padding: '2rem',
+          textAlign: 'center',
+          backgroundColor: '#FAFAFA',
+        }}
+      >
+        <div style={{ fontSize: '48px', marginBottom: '1rem' }}>🚒</div>
+        <h2 style={{ color: '#D32F2F', marginBottom: '0.5rem' }}>Which vehicle are you in?</h2>
+        <p style={{ color: '#616161', marginBottom: '1.5rem', maxWidth: '400px' }}>
+          This device will navigate that vehicle's stops and show up on the tracking map as it.
+        </p>
+        <div style={{ display: 'flex', flexDirection: 'column', gap: '0.75rem', width: '100%', maxWidth: '360px', marginBottom: '2rem' }}>
+          {getVehicleProgress(route).map(({ vehicle, completed, total }) => (
+            <button
+              key={vehicle.id}
+              onClick={() => {
+                saveSelectedVehicleId(route.id, vehicle.id);
+                setVehicleId(vehicle.id);
+              }}
+              style={{
+                display: 'flex',
+                alignItems: 'center',
+                gap: '0.75rem',
+                padding: '1rem',
+                border: `3px solid ${vehicle.color}`,
+                borderRadius: '12px',
+                backgroundColor: 'white',
+                cursor: 'pointer',
+                fontSize: '1rem',
+                textAlign: 'left',
+              }}
+            >
+              <span style={{ width: '16px', height: '16px', borderRadius: '50%', backgroundColor: vehicle.color, flexShrink: 0 }} />
+              <span style={{ flex: 1, fontWeight: 'bold', color: '#212121' }}>{vehicle.callsign}</span>
+              <span style={{ fontSize: '0.875rem', color: '#616161' }}>{completed}/{total} stops</span>
+            </button>
+          ))}
+        </div>
+        <button onClick={() => (onExit ? onExit() : window.history.back())} style={exitButtonStyle}>
+          Exit Navigation
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <NavigationSession
+      key={vehicleId}
+      route={route}
+      vehicleId={vehicleId}
+      onComplete={onComplete}
+      onExit={onExit}
+      simulation={simulation}
+    />
+  );
+}
+
+interface NavigationSessionProps extends NavigationViewProps {
+  /** Vehicle this device is navigating as, on a multi-vehicle route */
+  vehicleId?: string;
+}
+
+function NavigationSession({ route, vehicleId, onComplete, onExit, simulation }: NavigationSessionProps) {
   const [voiceEnabled, setVoiceEnabled] = useState(true);
   const [hasStarted, setHasStarted] = useState(false);
-  const { saveRoute } = useRoutes();
+  const [isFinished, setIsFinished] = useState(false);
+  const { saveRoute, getRoute } = useRoutes();
+
+  // The stops this device drives: the whole route, or one vehicle's share of it
+  const drivenRoute = useMemo(
+    () => (vehicleId ? buildVehicleRoute(route, vehicleId) : route),
+    [route, vehicleId]
+  );
+  const vehicle = findVehicle(route, vehicleId);
+
+  // Saves and the offline cache always hold the full route
+  const toSavedRoute = useCallback((r: Route): Route => (
+    vehicleId
+      ? mergeVehicleProgress({ ...route, status: r.status, startedAt: r.startedAt }, r, vehicleId)
+      : r
+  ), [route, vehicleId]);
+
+  // Save through the offline outbox; assigned once useLocationBroadcast is set up below
+  const persistRouteRef = useRef<(route: Route) => Promise<boolean>>(async (r) => {
+    await saveRoute(r);
+    return true;
+  });
+
+  // Snapshot of the route with copied waypoints (useNavigation mutates waypoints in place)
+  const snapshotRoute = (r: Route): Route => ({
+    ...r,
+    waypoints: r.waypoints.map(wp => ({ ...wp })),
+  });
+
+  // Simulated runs feed positions to useNavigation in place of GPS
+  const {
+    isSimulating,
+    state: simulationState,
+    play: playSimulation,
+    pause: pauseSimulation,
+    seek: seekSimulation,
+    setRate: setSimulationRate,
+  } = useRouteSimulation(drivenRoute, { enabled: !!simulation, speedKmh: simulation?.speedKmh });
 
   const {
     navigationState,
@@ -34,24 +182,56 @@ export function NavigationView({ route, onComplete, onExit }: NavigationViewProp
     completeWaypoint,
     skipToNextWaypoint,
   } = useNavigation({
-    route,
+    route: drivenRoute,
     onRouteComplete: async () => {
+      let finishedRoute = snapshotRoute(updatedRoute);
+      if (vehicleId) {
+        // Other vehicles may still be out: pick up their progress before deciding
+        let latest = route;
+        if (navigator.onLine) {
+          try {
+            latest = (await getRoute(route.id)) ?? route;
+          } catch (error) {
+            console.error('Failed to load latest route progress:', error);
+          }
+        }
+        finishedRoute = mergeVehicleProgress(latest, finishedRoute, vehicleId);
+        clearSelectedVehicleId(route.id);
+
+        if (!finishedRoute.waypoints.every(wp => wp.isCompleted)) {
+          await persistRouteRef.current(finishedRoute);
+          setIsFinished(true);
+          return;
+        }
+      }
+
       // Mark route as completed
       // eslint-disable-next-line react-hooks/purity
       const now = Date.now(); // Capture timestamp once
       const completedRoute = {
-        ...updatedRoute,
+        ...finishedRoute,
         status: 'completed' as const,
         completedAt: new Date().toISOString(),
-        actualDuration: updatedRoute.startedAt 
-          ? Math.floor((now - new Date(updatedRoute.startedAt).getTime()) / 1000)
+        actualDuration: finishedRoute.startedAt 
+          ? Math.floor((now - new Date(finishedRoute.startedAt).getTime()) / 1000)
           : undefined,
+        scheduleResults: buildScheduleResults(finishedRoute),
       };
-      await saveRoute(completedRoute);
-      
-      if (onComplete) {
-        onComplete();
-      }
+      await persistRouteRef.current(completedRoute);
+
+      // Leave once everything queued offline has been synced (see effect below)
+      setIsFinished(true);
+    },
+    onWaypointComplete: () => {
+      // Persist progress so completions survive a reload and reach the server
+      persistRouteRef.current(toSavedRoute(snapshotRoute(updatedRoute))).catch(error => {
+        console.error('Failed to save waypoint completion:', error);
+      });
+    },
+    onWaypointDepart: () => {
+      persistRouteRef.current(toSavedRoute(snapshotRoute(updatedRoute))).catch(error => {
+        console.error('Failed to save waypoint departure:', error);
+      });
     },
     voiceEnabled,
   });
@@ -59,9 +239,17 @@ export function NavigationView({ route, onComplete, onExit }: NavigationViewProp
   // Keep screen awake during navigation
   const { isSupported: wakeLockSupported } = useWakeLock(navigationState.isNavigating);
 
-  // Broadcast location updates for real-time tracking
-  useLocationBroadcast({
+  // Broadcast location updates for real-time tracking (queued while offline)
+  const {
+    isOnline,
+    pendingUpdates,
+    isSyncing,
+    rejectedUpdates,
+    dismissRejectedUpdates,
+    persistRoute,
+  } = useLocationBroadcast({
     routeId: route.id,
+    vehicleId,
     position,
     routeProgress: {
       currentWaypointIndex: navigationState.nextWaypoint?.order || 0,
@@ -70,8 +258,33 @@ export function NavigationView({ route, onComplete, onExit }: NavigationViewProp
     },
     isNavigating: navigationState.isNavigating,
     nextWaypointEta: navigationState.etaToNextWaypoint || undefined,
+    scheduleDeviation: navigationState.scheduleDeviation ?? undefined,
+    waypointEtas: navigationState.waypointEtas,
+    visit: navigationState.lastVisit ?? undefined,
+    saveRoute,
   });
 
+  useEffect(() => {
+    persistRouteRef.current = persistRoute;
+  }, [persistRoute]);
+
+  // Cache the route (including completions and reroutes) for offline reloads
+  useEffect(() => {
+    if (!isFinished) {
+      cacheNavigationRoute(toSavedRoute(updatedRoute));
+    }
+  }, [updatedRoute, navigationState.completedWaypointIds, isFinished, toSavedRoute]);
+
+  // Finish once the route is complete, nothing is left to sync and refused updates have been seen
+  useEffect(() => {
+    if (isFinished && pendingUpdates === 0 && rejectedUpdates === 0) {
+      clearCachedNavigationRoute(route.id);
+      if (onComplete) {
+        onComplete();
+      }
+    }
+  }, [isFinished, pendingUpdates, rejectedUpdates, route.id, onComplete]);
+
   // Auto-start navigation on mount and mark route as active
   useEffect(() => {
     if (!hasStarted) {
@@ -80,18 +293,18 @@ export function NavigationView({ route, onComplete, onExit }: NavigationViewProp
       // Update route status to active
       if (route.status !== 'active') {
         const activeRoute = {
-          ...route,
+          ...drivenRoute,
           status: 'active' as const,
           startedAt: new Date().toISOString(),
         };
-        saveRoute(activeRoute).catch(error => {
+        persistRoute(toSavedRoute(activeRoute)).catch(error => {
           console.error('Failed to update route status:', error);
         });
       }
       
       setHasStarted(true);
     }
-  }, [hasStarted, startNavigation, route, saveRoute]);
+  }, [hasStarted, startNavigation, route, drivenRoute, toSavedRoute, persistRoute]);
 
   const handleStopNavigation = useCallback(() => {
     stopNavigation();
@@ -122,7 +335,7 @@ export function NavigationView({ route, onComplete, onExit }: NavigationViewProp
   const currentStep = updatedRoute.navigationSteps?.[navigationState.currentStepIndex];
 
   // Handle location errors
-  if (locationError) {
+  if (locationError && !isSimulating) {
     return (
       <div
         style={{
@@ -147,17 +360,7 @@ export function NavigationView({ route, onComplete, onExit }: NavigationViewProp
         </p>
         <button
           onClick={handleStopNavigation}
-          style={{
-            padding: '0.75rem 1.5rem',
-            fontSize: '1rem',
-            fontWeight: 'bold',
-            border: 'none',
-            borderRadius: '12px',
-            cursor: 'pointer',
-            background: 'linear-gradient(135deg, #D32F2F 0%, #B71C1C 100%)',
-            color: 'white',
-            boxShadow: '0 2px 4px rgba(0,0,0,0.2)',
-          }}
+          style={exitButtonStyle}
         >
           Exit Navigation
         </button>
@@ -166,7 +369,7 @@ export function NavigationView({ route, onComplete, onExit }: NavigationViewProp
   }
 
   // Handle permission denied
-  if (permission === 'denied') {
+  if (permission === 'denied' && !isSimulating) {
     return (
       <div
         style={{
@@ -188,17 +391,7 @@ export function NavigationView({ route, onComplete, onExit }: NavigationViewProp
         </p>
         <button
           onClick={handleStopNavigation}
-          style={{
-            padding: '0.75rem 1.5rem',
-            fontSize: '1rem',
-            fontWeight: 'bold',
-            border: 'none',
-            borderRadius: '12px',
-            cursor: 'pointer',
-            background: 'linear-gradient(135deg, #D32F2F 0%, #B71C1C 100%)',
-            color: 'white',
-            boxShadow: '0 2px 4px rgba(0,0,0,0.2)',
-          }}
+          style={exitButtonStyle}
         >
           Exit Navigation
         </button>
@@ -244,6 +437,33 @@ export function NavigationView({ route, onComplete, onExit }: NavigationViewProp
         completedWaypointIds={navigationState.completedWaypointIds}
       />
 
+      {simulationState && (
+        <div
+          style={{
+            position: 'absolute',
+            left: '50%',
+            top: '9rem',
+            transform: 'translateX(-50%)',
+            width: 'min(90vw, 420px)',
+            padding: '0.5rem 0.75rem',
+            backgroundColor: 'white',
+            borderRadius: FLOATING_PANEL.borderRadius.button,
+            boxShadow: FLOATING_PANEL.shadow.standard,
+            border: `1px solid ${COLORS.neutral200}`,
+            zIndex: Z_INDEX.floatingPanel,
+          }}
+        >
+          <SimulationControls
+            state={simulationState}
+            onPlay={playSimulation}
+            onPause={pauseSimulation}
+            onSeek={seekSimulation}
+            onRateChange={setSimulationRate}
+            label="Simulating"
+          />
+        </div>
+      )}
+
       {/* Floating Navigation Header */}
       <NavigationHeader
         instruction={currentStep?.instruction || navigationState.currentInstruction}
@@ -280,6 +500,33 @@ export function NavigationView({ route, onComplete, onExit }: NavigationViewProp
         {voiceEnabled ? '🔊' : '🔇'}
       </button>
 
+      {/* Vehicle this device is navigating as */}
+      {vehicle && (
+        <div
+          style={{
+            position: 'absolute',
+            top: '7rem',
+            left: '4.5rem',
+            display: 'flex',
+            alignItems: 'center',
+            gap: '0.375rem',
+            height: '48px',
+            padding: '0 0.75rem',
+            borderRadius: '24px',
+            backgroundColor: 'rgba(255, 255, 255, 0.95)',
+            backdropFilter: 'blur(10px)',
+            boxShadow: '0 4px 12px rgba(0,0,0,0.15)',
+            fontSize: '0.875rem',
+            fontWeight: 'bold',
+            color: '#212121',
+            zIndex: 999,
+          }}
+        >
+          <span style={{ width: '12px', height: '12px', borderRadius: '50%', backgroundColor: vehicle.color }} />
+          {vehicle.callsign}
+        </div>
+      )}
+
       {/* Wake Lock Indicator */}
       {!wakeLockSupported && (
         <div
@@ -301,19 +548,89 @@ export function NavigationView({ route, onComplete, onExit }: NavigationViewProp
         </div>
       )}
 
+      {/* Offline / Sync Indicator */}
+      {(!isOnline || pendingUpdates > 0) && (
+        <div
+          role="status"
+          style={{
+            position: 'absolute',
+            top: '7rem',
+            left: '50%',
+            transform: 'translateX(-50%)',
+            backgroundColor: isOnline ? 'rgba(46, 125, 50, 0.9)' : 'rgba(0, 0, 0, 0.8)',
+            backdropFilter: 'blur(10px)',
+            color: 'white',
+            padding: '0.5rem 0.75rem',
+            borderRadius: '8px',
+            fontSize: '0.75rem',
+            whiteSpace: 'nowrap',
+            zIndex: 999,
+            boxShadow: '0 4px 12px rgba(0,0,0,0.15)',
+          }}
+        >
+          {!isOnline
+            ? `📡 Offline${pendingUpdates > 0 ? ` • ${pendingUpdates} update${pendingUpdates === 1 ? '' : 's'} queued` : ''}`
+            : isSyncing
+            ? `🔄 Syncing ${pendingUpdates} update${pendingUpdates === 1 ? '' : 's'}...`
+            : `⏳ ${pendingUpdates} update${pendingUpdates === 1 ? '' : 's'} waiting to sync`}
+        </div>
+      )}
+
+      {/* Updates the server refused while syncing */}
+      {rejectedUpdates > 0 && (
+        <div
+          role="alert"
+          style={{
+            position: 'absolute',
+            top: !isOnline || pendingUpdates > 0 ? '9.5rem' : '7rem',
+            left: '50%',
+            transform: 'translateX(-50%)',
+            display: 'flex',
+            alignItems: 'center',
+            gap: '0.5rem',
+            backgroundColor: COLORS.error,
+            color: 'white',
+            padding: '0.5rem 0.75rem',
+            borderRadius: '8px',
+            fontSize: '0.75rem',
+            whiteSpace: 'nowrap',
+            zIndex: 999,
+            boxShadow: '0 4px 12px rgba(0,0,0,0.15)',
+          }}
+        >
+          ⚠️ {rejectedUpdates} queued update{rejectedUpdates === 1 ? ' was' : 's were'} refused by the server
+          <button
+            onClick={dismissRejectedUpdates}
+            style={{
+              background: 'rgba(255,255,255,0.2)',
+              border: 'none',
+              borderRadius: '4px',
+              color: 'white',
+              fontSize: '0.75rem',
+              padding: '0.25rem 0.5rem',
+              cursor: 'pointer',
+            }}
+          >
+            Dismiss
+          </button>
+        </div>
+      )}
+
       {/* Floating Bottom Panel */}
       <NavigationPanel
         nextWaypoint={navigationState.nextWaypoint}
         distanceToWaypoint={navigationState.distanceToNextWaypoint}
         eta={navigationState.etaToNextWaypoint}
+        scheduleDeviation={navigationState.scheduleDeviation}
+        waypointEtas={navigationState.waypointEtas}
         routeProgress={navigationState.routeProgress}
         canCompleteWaypoint={canCompleteWaypoint || false}
         onCompleteWaypoint={handleCompleteWaypoint}
         onSkipToNext={handleSkipToNext}
         onStopNavigation={handleStopNavigation}
         completedWaypoints={navigationState.completedWaypointIds.length}
-        totalWaypoints={route.waypoints.length}
-        waypoints={route.waypoints}
+        totalWaypoints={drivenRoute.waypoints.length}
+        waypoints={drivenRoute.waypoints}
       />
     </div>
   );
@@ -1,25 +1,40 @@
 import { useState, useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
-import { useRoutes } from '../hooks';
+import { useRoutes, useRouteTemplates } from '../hooks';
+import { useAuth } from '../context';
 import { 
   MapView, 
   RouteStatusBadge, 
   ShareModal, 
   SEO, 
-  LoadingSkeleton
+  LoadingSkeleton,
+  OfflineMapPanel,
+  RouteExportPanel,
+  RouteHistoryPanel,
+  RouteAnalyticsPanel,
+  RouteReportPanel,
+  RouteReplayPanel
 } from '../components';
 import type { Route } from '../types';
 import { formatDistance, formatDuration } from '../utils/mapbox';
+import { duplicateRoute } from '../utils/routeHelpers';
+import { createTemplateFromRoute } from '../utils/routeTemplates';
+import { RouteTransitionError } from '../utils/routeStatus';
+import type { RouteTransition } from '../utils/routeStatus';
 import { format } from 'date-fns';
 import { COLORS, FLOATING_PANEL, Z_INDEX } from '../utils/constants';
 
+const isDevMode = import.meta.env.VITE_DEV_MODE === 'true';
+
 export interface RouteDetailProps {
   routeId: string;
 }
 
 export function RouteDetail({ routeId }: RouteDetailProps) {
   const navigate = useNavigate();
-  const { getRoute, deleteRoute } = useRoutes();
+  const { user } = useAuth();
+  const { getRoute, deleteRoute, saveRoute, transitionRoute } = useRoutes();
+  const { saveTemplate } = useRouteTemplates();
   const [route, setRoute] = useState<Route | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<Error | null>(null);
@@ -63,31 +78,44 @@ export function RouteDetail({ routeId }: RouteDetailProps) {
     }
   };
 
-  const handleStatusChange = async (newStatus: Route['status']) => {
+  const handleDuplicate = async () => {
     if (!route) return;
-    
-    // Update route status
-    const updatedRoute = { ...route, status: newStatus };
-    
-    // If publishing, set publishedAt timestamp
-    if (newStatus === 'published' && !route.publishedAt) {
-      updatedRoute.publishedAt = new Date().toISOString();
+
+    const copy = duplicateRoute(route, user?.email);
+    try {
+      await saveRoute(copy);
+      navigate(`/routes/${copy.id}/edit`);
+    } catch (err) {
+      console.error('Failed to duplicate route:', err);
+      alert('Failed to duplicate route. Please try again.');
     }
-    
-    // If activating, set startedAt timestamp
-    if (newStatus === 'active' && !route.startedAt) {
-      updatedRoute.startedAt = new Date().toISOString();
+  };
+
+  const handleSaveAsTemplate = async () => {
+    if (!route) return;
+
+    const name = prompt('Template name', route.name)?.trim();
+    if (!name) return;
+
+    try {
+      await saveTemplate(createTemplateFromRoute(route, name, user?.email));
+      alert(`Saved "${name}" as a template. Use it from the dashboard to plan a new run.`);
+    } catch (err) {
+      console.error('Failed to save route template:', err);
+      alert('Failed to save template. Please try again.');
     }
-    
-    // If completing, set completedAt timestamp
-    if (newStatus === 'completed' && !route.completedAt) {
-      updatedRoute.completedAt = new Date().toISOString();
+  };
+
+  const handleTransition = async (transition: RouteTransition) => {
+    if (!route) return;
+
+    try {
+      // The server checks the transition and stamps publishedAt/startedAt/completedAt
+      setRoute(await transitionRoute(route.id, transition));
+    } catch (err) {
+      console.error(`Failed to ${transition} route:`, err);
+      alert(err instanceof RouteTransitionError ? err.message : 'Failed to update route status. Please try again.');
     }
-    
-    setRoute(updatedRoute);
-    
-    // Save to storage (this would need to be implemented in useRoutes)
-    // For now, just update local state
   };
 
   if (isLoading) {
@@ -379,6 +407,32 @@ export function RouteDetail({ routeId }: RouteDetailProps) {
                 )}
               </div>
             </div>
+
+            {/* Tracking page viewers against Santa's progress */}
+            {(route.status === 'active' || route.status === 'completed' || route.status === 'archived') && (
+              <RouteAnalyticsPanel key={route.id} route={route} />
+            )}
+
+            {/* Printable post-run summary */}
+            {(route.status === 'completed' || route.status === 'archived') && (
+              <RouteReportPanel route={route} />
+            )}
+
+            {/* Dev mode: play the recorded run back to tracking tabs */}
+            {isDevMode && (route.status === 'completed' || route.status === 'archived') && (
+              <RouteReplayPanel key={route.id} route={route} />
+            )}
+
+            {/* Saved revisions: compare and restore */}
+            <RouteHistoryPanel key={route.id} route={route} onRestored={setRoute} />
+
+            {/* GPX / KML / GeoJSON downloads */}
+            <RouteExportPanel route={route} />
+
+            {/* Offline map tiles for navigating without coverage */}
+            {route.status !== 'draft' && route.geometry && (
+              <OfflineMapPanel key={route.id} route={route} />
+            )}
           </div>
         )}
 
@@ -430,6 +484,25 @@ export function RouteDetail({ routeId }: RouteDetailProps) {
               🧭 Navigate
             </button>
 
+            {/* Dev mode: drive the route virtually, broadcasting to tracking tabs */}
+            {isDevMode && canNavigate && (
+              <button
+                onClick={() => navigate(`/routes/${route.id}/navigate?simulate`)}
+                style={{
+                  padding: '0.875rem 1rem',
+                  background: 'white',
+                  color: COLORS.neutral900,
+                  border: `2px solid ${COLORS.neutral300}`,
+                  borderRadius: FLOATING_PANEL.borderRadius.button,
+                  fontSize: '0.875rem',
+                  fontWeight: 600,
+                  cursor: 'pointer',
+                }}
+              >
+                🧪 Simulate
+              </button>
+            )}
+
             {/* Preview Public Link Button */}
             <button
               onClick={() => {
@@ -516,7 +589,7 @@ export function RouteDetail({ routeId }: RouteDetailProps) {
             {/* Status Change Buttons */}
             {route.status === 'draft' && (
               <button
-                onClick={() => handleStatusChange('published')}
+                onClick={() => handleTransition('publish')}
                 style={{
                   flex: 1,
                   minWidth: '140px',
@@ -540,7 +613,7 @@ export function RouteDetail({ routeId }: RouteDetailProps) {
 
             {route.status === 'published' && (
               <button
-                onClick={() => handleStatusChange('active')}
+                onClick={() => handleTransition('start')}
                 style={{
                   flex: 1,
                   minWidth: '140px',
@@ -564,7 +637,7 @@ export function RouteDetail({ routeId }: RouteDetailProps) {
 
             {route.status === 'active' && (
               <button
-                onClick={() => handleStatusChange('completed')}
+                onClick={() => handleTransition('complete')}
                 style={{
                   flex: 1,
                   minWidth: '140px',
@@ -585,6 +658,95 @@ export function RouteDetail({ routeId }: RouteDetailProps) {
               </button>
             )}
 
+            {route.status === 'published' && (
+              <button
+                onClick={() => handleTransition('revert-to-draft')}
+                style={{
+                  flex: 1,
+                  minWidth: '140px',
+                  padding: '0.75rem 1rem',
+                  background: 'white',
+                  color: COLORS.neutral900,
+                  border: `2px solid ${COLORS.neutral300}`,
+                  borderRadius: FLOATING_PANEL.borderRadius.button,
+                  fontSize: '0.875rem',
+                  fontWeight: 600,
+                  cursor: 'pointer',
+                  transition: 'all 0.2s',
+                }}
+                onMouseEnter={(e) => e.currentTarget.style.borderColor = COLORS.fireRed}
+                onMouseLeave={(e) => e.currentTarget.style.borderColor = COLORS.neutral300}
+              >
+                ↩️ Back to Draft
+              </button>
+            )}
+
+            {route.status === 'completed' && (
+              <button
+                onClick={() => handleTransition('archive')}
+                style={{
+                  flex: 1,
+                  minWidth: '140px',
+                  padding: '0.75rem 1rem',
+                  background: 'white',
+                  color: COLORS.neutral900,
+                  border: `2px solid ${COLORS.neutral300}`,
+                  borderRadius: FLOATING_PANEL.borderRadius.button,
+                  fontSize: '0.875rem',
+                  fontWeight: 600,
+                  cursor: 'pointer',
+                  transition: 'all 0.2s',
+                }}
+                onMouseEnter={(e) => e.currentTarget.style.borderColor = COLORS.fireRed}
+                onMouseLeave={(e) => e.currentTarget.style.borderColor = COLORS.neutral300}
+              >
+                🗄️ Archive
+              </button>
+            )}
+
+            {/* Duplicate & Template Buttons */}
+            <button
+              onClick={handleDuplicate}
+              style={{
+                flex: 1,
+                minWidth: '140px',
+                padding: '0.75rem 1rem',
+                background: 'white',
+                color: COLORS.neutral900,
+                border: `2px solid ${COLORS.neutral300}`,
+                borderRadius: FLOATING_PANEL.borderRadius.button,
+                fontSize: '0.875rem',
+                fontWeight: 600,
+                cursor: 'pointer',
+                transition: 'all 0.2s',
+              }}
+              onMouseEnter={(e) => e.currentTarget.style.borderColor = COLORS.fireRed}
+              onMouseLeave={(e) => e.currentTarget.style.borderColor = COLORS.neutral300}
+            >
+              📄 Duplicate
+            </button>
+
+            <button
+              onClick={handleSaveAsTemplate}
+              style={{
+                flex: 1,
+                minWidth: '140px',
+                padding: '0.75rem 1rem',
+                background: 'white',
+                color: COLORS.neutral900,
+                border: `2px solid ${COLORS.neutral300}`,
+                borderRadius: FLOATING_PANEL.borderRadius.button,
+                fontSize: '0.875rem',
+                fontWeight: 600,
+                cursor: 'pointer',
+                transition: 'all 0.2s',
+              }}
+              onMouseEnter={(e) => e.currentTarget.style.borderColor = COLORS.fireRed}
+              onMouseLeave={(e) => e.currentTarget.style.borderColor = COLORS.neutral300}
+            >
+              📋 Save as Template
+            </button>
+
             {/* Delete Button */}
             <button
               onClick={() => setDeleteConfirmOpen(true)}
@@ -1,13 +1,26 @@
 import { useState, useCallback, useEffect, useMemo } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { useAuth, useBrigade } from '../context';
-import { useRoutes, useRouteEditor } from '../hooks';
-import { MapView, WaypointList, AddressSearch } from '../components';
-import { createNewRoute, generateShareableLink, canPublishRoute } from '../utils/routeHelpers';
-import { reverseGeocode, type GeocodingResult } from '../utils/mapbox';
+import { useRoutes, useRouteEditor, useRouteCollaboration } from '../hooks';
+import {
+  MapView,
+  WaypointList,
+  AddressSearch,
+  OptimizeOrderPanel,
+  VehiclePanel,
+  RouteConflictDialog,
+  EditorPresenceBar,
+  type MapCursor,
+  type OptimizeOrderSettings,
+  type WaypointEditor,
+} from '../components';
+import { createNewRoute, generateShareableLink, canPublishRoute, sortWaypoints } from '../utils/routeHelpers';
+import { geocodingProvider, type GeocodingResult } from '../routing';
 import { formatDistance, formatDuration } from '../utils/mapbox';
 import { BREAKPOINTS, COLORS, Z_INDEX, MAP_LAYOUT } from '../utils/constants';
 import { getDefaultMapCenter } from '../utils/mapCenter';
+import { importRouteFile } from '../utils/routeFiles';
+import { RouteConflictError } from '../utils/routeVersion';
 import { DEFAULT_CENTER } from '../config/mapbox';
 import type { Route, Waypoint } from '../types';
 
@@ -20,7 +33,7 @@ export function RouteEditor({ routeId, mode }: RouteEditorProps) {
   const navigate = useNavigate();
   const { user } = useAuth();
   const { brigade } = useBrigade();
-  const { saveRoute, getRoute } = useRoutes();
+  const { saveRoute, getRoute, transitionRoute } = useRoutes();
   const [initialRoute, setInitialRoute] = useState<Route | null>(null);
   const [isLoading, setIsLoading] = useState(routeId ? true : false);
   const [isSaving, setIsSaving] = useState(false);
@@ -28,6 +41,7 @@ export function RouteEditor({ routeId, mode }: RouteEditorProps) {
   const [showWaypointModal, setShowWaypointModal] = useState(false);
   const [editingWaypoint, setEditingWaypoint] = useState<Waypoint | null>(null);
   const [waypointForm, setWaypointForm] = useState({ name: '', notes: '' });
+  const [importError, setImportError] = useState<string | null>(null);
   const [autoZoom, setAutoZoom] = useState(true);
   const [mapCenter, setMapCenter] = useState<[number, number]>(DEFAULT_CENTER);
   const [mapZoom, setMapZoom] = useState(5); // Default Australia-wide zoom
@@ -66,6 +80,12 @@ export function RouteEditor({ routeId, mode }: RouteEditorProps) {
     };
   }, [brigade?.stationCoordinates, brigade?.name]);
 
+  // Edited until the route is loaded; kept stable so the editor isn't reset every render
+  const placeholderRoute = useMemo(
+    () => createNewRoute(user?.brigadeId || '', user?.email),
+    [user?.brigadeId, user?.email]
+  );
+
   // Load existing route for edit mode
   useEffect(() => {
     if (mode === 'edit' && routeId) {
@@ -88,17 +108,80 @@ export function RouteEditor({ routeId, mode }: RouteEditorProps) {
     updateMetadata,
     addWaypoint,
     updateWaypoint,
+    updateWaypointSchedule,
     deleteWaypoint,
     moveWaypoint,
     optimizeRoute,
     validate,
     isOptimizing,
     optimizationError,
-  } = useRouteEditor(initialRoute || createNewRoute(user?.brigadeId || '', user?.email));
+    importRoute,
+    optimizeOrder,
+    acceptOrderProposal,
+    discardOrderProposal,
+    orderProposal,
+    isOptimizingOrder,
+    addVehicle,
+    updateVehicle,
+    removeVehicle,
+    assignWaypointVehicle,
+    conflict,
+    showConflict,
+    resolveConflict,
+    dismissConflict,
+    applyRemoteOperations,
+    mergeSavedRoute,
+  } = useRouteEditor(initialRoute || placeholderRoute);
+
+  // Live editing with anyone else who has this route open (only before the run starts)
+  const collaborator = useMemo(
+    () => (user ? { id: user.id, name: user.name || user.email } : null),
+    [user]
+  );
+
+  const handleRemoteSave = useCallback(() => {
+    getRoute(route.id).then(saved => {
+      if (saved) {
+        mergeSavedRoute(saved);
+      }
+    });
+  }, [getRoute, route.id, mergeSavedRoute]);
+
+  const { peers, shareCursor, shareSelection, announceSave } = useRouteCollaboration({
+    routeId: route.id,
+    enabled: mode === 'edit' && (initialRoute?.status === 'draft' || initialRoute?.status === 'published'),
+    user: collaborator,
+    waypoints: route.waypoints,
+    onRemoteOperations: applyRemoteOperations,
+    onRemoteSave: handleRemoteSave,
+  });
+
+  useEffect(() => {
+    shareSelection(editingWaypoint?.id ?? null);
+  }, [editingWaypoint, shareSelection]);
+
+  const peerCursors = useMemo<MapCursor[]>(() => peers.flatMap(peer => peer.cursor
+    ? [{ id: peer.sessionId, label: peer.name, color: peer.color, coordinates: peer.cursor }]
+    : []
+  ), [peers]);
+
+  const peerSelections = useMemo(() => {
+    const selections: Record<string, WaypointEditor[]> = {};
+    peers.forEach(peer => {
+      if (peer.selectedWaypointId) {
+        (selections[peer.selectedWaypointId] ??= []).push({ id: peer.sessionId, name: peer.name, color: peer.color });
+      }
+    });
+    return selections;
+  }, [peers]);
+
+  const highlightedWaypoints = useMemo(() => Object.fromEntries(
+    Object.entries(peerSelections).map(([waypointId, editors]) => [waypointId, editors[0].color])
+  ), [peerSelections]);
 
   const handleMapClick = useCallback(async (coordinates: [number, number]) => {
     try {
-      const address = await reverseGeocode(coordinates);
+      const address = await geocodingProvider.reverseGeocode(coordinates);
       addWaypoint(coordinates, address);
     } catch (error) {
       console.error('Failed to geocode:', error);
@@ -106,6 +189,35 @@ export function RouteEditor({ routeId, mode }: RouteEditorProps) {
     }
   }, [addWaypoint]);
 
+  const handleOptimizeOrder = useCallback((settings: OptimizeOrderSettings) => {
+    const lastWaypoint = sortWaypoints(route.waypoints).at(-1);
+    optimizeOrder({
+      start: settings.startAtStation ? brigadeStation?.coordinates : undefined,
+      fixedEndWaypointId: settings.keepLastStop ? lastWaypoint?.id : undefined,
+      returnToStart: settings.returnToStart,
+    });
+  }, [route.waypoints, brigadeStation, optimizeOrder]);
+
+  const handleImportFile = useCallback(async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    // Reset so the same file can be chosen again
+    event.target.value = '';
+    if (!file) return;
+
+    setImportError(null);
+    try {
+      const imported = await importRouteFile(file);
+      if (route.waypoints.length > 0 && !confirm(`Replace the ${route.waypoints.length} existing waypoints with ${imported.waypoints.length} from ${file.name}?`)) {
+        return;
+      }
+      importRoute(imported);
+      setAutoZoom(true);
+    } catch (error) {
+      console.error('Failed to import route file:', error);
+      setImportError(error instanceof Error ? error.message : 'Failed to import route file');
+    }
+  }, [route.waypoints.length, importRoute]);
+
   const handleAddressSelect = useCallback((result: GeocodingResult) => {
     addWaypoint(
       result.center,
@@ -145,24 +257,29 @@ export function RouteEditor({ routeId, mode }: RouteEditorProps) {
     try {
       const routeToSave: Route = {
         ...route,
-        status: shouldPublish ? 'published' : route.status,
-        publishedAt: shouldPublish && !route.publishedAt ? new Date().toISOString() : route.publishedAt,
         shareableLink: shouldPublish ? generateShareableLink(route.id) : route.shareableLink,
       };
 
       await saveRoute(routeToSave);
       
+      // Publishing is a status transition: the server checks it and stamps publishedAt
       if (shouldPublish) {
+        await transitionRoute(route.id, 'publish');
         alert('Route published successfully! Share link generated.');
       }
+      announceSave();
       
       navigate('/dashboard');
     } catch (error) {
-      setSaveError(error instanceof Error ? error.message : 'Failed to save route');
+      if (error instanceof RouteConflictError) {
+        showConflict(error.current);
+      } else {
+        setSaveError(error instanceof Error ? error.message : 'Failed to save route');
+      }
     } finally {
       setIsSaving(false);
     }
-  }, [route, validate, saveRoute, navigate]);
+  }, [route, validate, saveRoute, transitionRoute, navigate, showConflict, announceSave]);
 
   if (isLoading) {
     return (
@@ -193,6 +310,9 @@ export function RouteEditor({ routeId, mode }: RouteEditorProps) {
           autoZoom={autoZoom}
           fitBoundsPadding={MAP_LAYOUT.fitBoundsPadding.withSidebar}
           brigadeStation={brigadeStation}
+          onCursorMove={shareCursor}
+          cursors={peerCursors}
+          highlightedWaypoints={highlightedWaypoints}
         />
       </div>
 
@@ -224,6 +344,7 @@ export function RouteEditor({ routeId, mode }: RouteEditorProps) {
             }}>
               {mode === 'new' ? '➕ Create Route' : '✏️ Edit Route'}
             </h1>
+            <EditorPresenceBar peers={peers} />
             {route.geometry && (
               <div style={{ 
                 display: 'flex', 
@@ -463,9 +584,62 @@ export function RouteEditor({ routeId, mode }: RouteEditorProps) {
                 />
               </div>
             </div>
+
+            <div>
+              <label
+                htmlFor="default-dwell-minutes"
+                style={{ display: 'block', marginBottom: '0.5rem', fontWeight: 600, fontSize: '0.875rem' }}
+              >
+                Time at each stop (minutes)
+              </label>
+              <input
+                id="default-dwell-minutes"
+                type="number"
+                min={0}
+                max={240}
+                value={route.defaultDwellMinutes ?? ''}
+                onChange={(e) => {
+                  const minutes = parseInt(e.target.value, 10);
+                  updateMetadata({ defaultDwellMinutes: isNaN(minutes) ? undefined : Math.max(0, minutes) });
+                }}
+                placeholder="e.g., 5"
+                style={{
+                  width: '100%',
+                  padding: '0.75rem',
+                  border: '1px solid #e0e0e0',
+                  borderRadius: '8px',
+                  fontSize: '1rem',
+                  boxSizing: 'border-box',
+                }}
+              />
+              <p style={{ margin: '0.25rem 0 0 0', fontSize: '0.75rem', color: '#9e9e9e' }}>
+                Used in ETAs for stops without their own stop time
+              </p>
+            </div>
           </div>
         </div>
 
+        {/* Vehicles */}
+        <div>
+          <h3 style={{ 
+            margin: '0 0 1rem 0', 
+            fontSize: '1.125rem', 
+            color: 'var(--fire-red)',
+            fontFamily: 'var(--font-heading)',
+            display: 'flex',
+            alignItems: 'center',
+            gap: '0.5rem',
+          }}>
+            <span>🚒</span> Vehicles
+          </h3>
+          <VehiclePanel
+            route={route}
+            onAdd={addVehicle}
+            onUpdate={updateVehicle}
+            onRemove={removeVehicle}
+          />
+        </div>
+
         {/* Address Search */}
         <div>
           <h3 style={{ 
@@ -487,6 +661,34 @@ export function RouteEditor({ routeId, mode }: RouteEditorProps) {
           <p style={{ margin: '0.5rem 0 0 0', fontSize: '0.875rem', color: '#9e9e9e' }}>
             Or click on the map to add a waypoint
           </p>
+          <label
+            style={{
+              display: 'inline-flex',
+              alignItems: 'center',
+              gap: '0.5rem',
+              marginTop: '0.75rem',
+              padding: '0.5rem 0.875rem',
+              border: '1px solid #e0e0e0',
+              borderRadius: '8px',
+              fontSize: '0.875rem',
+              fontWeight: 500,
+              color: '#424242',
+              cursor: 'pointer',
+            }}
+          >
+            📂 Import GPX, KML or GeoJSON
+            <input
+              type="file"
+              accept=".gpx,.kml,.geojson,.json,application/gpx+xml,application/vnd.google-earth.kml+xml,application/geo+json"
+              onChange={handleImportFile}
+              style={{ display: 'none' }}
+            />
+          </label>
+          {importError && (
+            <p role="alert" style={{ margin: '0.5rem 0 0 0', fontSize: '0.875rem', color: '#d32f2f' }}>
+              {importError}
+            </p>
+          )}
         </div>
 
         {/* Map Controls Section */}
@@ -504,8 +706,20 @@ export function RouteEditor({ routeId, mode }: RouteEditorProps) {
           </h3>
           
           <div style={{ display: 'flex', flexDirection: 'column', gap: '0.75rem' }}>
+            {/* Optimise Visit Order */}
+            {route.waypoints.length >= 2 && (
+              <OptimizeOrderPanel
+                hasStation={Boolean(brigadeStation)}
+                isOptimizing={isOptimizingOrder}
+                proposal={orderProposal}
+                onOptimize={handleOptimizeOrder}
+                onAccept={acceptOrderProposal}
+                onDiscard={discardOrderProposal}
+              />
+            )}
+
             {/* Plan Route Button */}
-            {route.waypoints.length >= 2 && !route.geometry && (
+            {route.waypoints.length >= 2 && !route.navigationSteps && (
               <button
                 onClick={optimizeRoute}
                 disabled={isOptimizing}
@@ -586,7 +800,12 @@ export function RouteEditor({ routeId, mode }: RouteEditorProps) {
             onReorder={moveWaypoint}
             onEdit={handleEditWaypoint}
             onDelete={deleteWaypoint}
+            onScheduleChange={updateWaypointSchedule}
+            defaultDwellMinutes={route.defaultDwellMinutes}
+            vehicles={route.vehicles}
+            onVehicleChange={assignWaypointVehicle}
             editable={true}
+            selectedBy={peerSelections}
           />
         </div>
       </div>
@@ -742,6 +961,15 @@ export function RouteEditor({ routeId, mode }: RouteEditorProps) {
           </div>
         </div>
       )}
+
+      {conflict && (
+        <RouteConflictDialog
+          conflict={conflict}
+          onMerge={() => resolveConflict('merge')}
+          onReload={() => resolveConflict('reload')}
+          onCancel={dismissConflict}
+        />
+      )}
     </div>
   );
 }
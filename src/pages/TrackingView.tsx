@@ -2,32 +2,162 @@
  * TrackingView page
  * Public real-time Santa tracking interface
  * No authentication required - accessible via shareable link
+ * Multi-vehicle routes show one marker, trail and progress row per vehicle
+ * With embed options it renders the minimal, brigade-themed widget shown at /embed/:id
  */
 
 import { useEffect, useState, useRef } from 'react';
-import { useWebPubSub, useRoutes } from '../hooks';
-import { ShareModal, SEO } from '../components';
+import { useSearchParams } from 'react-router-dom';
+import { storageAdapter } from '../storage';
+import type { Brigade } from '../storage';
+import { useWebPubSub, useRoutes, useLocationHistory, useLastKnownLocation, useViewerTracking } from '../hooks';
+import { ShareModal, SEO, NearbyAlertPanel } from '../components';
+import type { NearbyAlertPoint } from '../components';
 import { MAPBOX_CONFIG } from '../config/mapbox';
 import mapboxgl from 'mapbox-gl';
-import type { Route, LocationBroadcast } from '../types';
+import type { Route, LocationBroadcast, TrackPoint, Vehicle } from '../types';
+import { splitTrackByVehicle, trackToLineString } from '../utils/locationHistory';
+import { formatLocationAge } from '../utils/lastLocation';
+import { formatScheduleDeviation, isBehindSchedule } from '../utils/schedule';
+import { formatETA } from '../utils/navigation';
+import { findVisitedWaypoint } from '../utils/geofence';
+import { checkLocalNearbyAlert, clearNearbyAlert, deleteNearbyAlert, loadNearbyAlert } from '../utils/nearbyAlerts';
+import type { NearbyAlert } from '../utils/nearbyAlerts';
+import { findVehicle, getVehicleProgress, getWaypointVehicleId, hasVehicles } from '../utils/vehicles';
+import type { EmbedOptions } from '../utils/embed';
 import 'mapbox-gl/dist/mapbox-gl.css';
 
 export interface TrackingViewProps {
   routeId: string;
+  /** Render the embeddable widget instead of the full-page tracker */
+  embed?: EmbedOptions;
 }
 
-export function TrackingView({ routeId }: TrackingViewProps) {
+const TRAIL_COLOR = '#43A047'; // Christmas green
+
+/**
+ * Breadcrumb source data: one line per vehicle, in the vehicle's colour
+ * (empty until a trail has two points)
+ */
+function toBreadcrumbData(points: TrackPoint[], route: Route | null): GeoJSON.FeatureCollection {
+  const features: GeoJSON.Feature[] = [];
+  splitTrackByVehicle(points).forEach((trail, vehicleId) => {
+    const line = trackToLineString(trail);
+    if (line) {
+      const color = (route && findVehicle(route, vehicleId)?.color) || TRAIL_COLOR;
+      features.push({ type: 'Feature', properties: { color }, geometry: line });
+    }
+  });
+  return { type: 'FeatureCollection', features };
+}
+
+/**
+ * Marker for one vehicle on a multi-vehicle route: Santa with the callsign underneath
+ */
+function createVehicleMarkerElement(vehicle: Vehicle): HTMLDivElement {
+  const el = document.createElement('div');
+  el.style.display = 'flex';
+  el.style.flexDirection = 'column';
+  el.style.alignItems = 'center';
+  el.style.transition = 'opacity 0.5s ease';
+
+  const icon = document.createElement('div');
+  icon.className = 'santa-marker-icon';
+  icon.style.fontSize = '44px';
+  icon.textContent = '🎅';
+
+  const label = document.createElement('div');
+  label.style.padding = '2px 8px';
+  label.style.borderRadius = '12px';
+  label.style.backgroundColor = vehicle.color;
+  label.style.color = 'white';
+  label.style.fontSize = '12px';
+  label.style.fontWeight = 'bold';
+  label.style.whiteSpace = 'nowrap';
+  label.style.boxShadow = '0 2px 4px rgba(0,0,0,0.3)';
+  label.textContent = vehicle.callsign;
+
+  el.append(icon, label);
+  return el;
+}
+
+/**
+ * Name of the stop a vehicle is at now, if its latest broadcast says it has arrived
+ */
+function getVisitedStopName(route: Route, location: LocationBroadcast | null | undefined): string | null {
+  const waypoint = findVisitedWaypoint(route.waypoints, location?.visit);
+  return waypoint ? waypoint.name || waypoint.address || 'a stop' : null;
+}
+
+/**
+ * One-line status for the embed widget's progress card
+ */
+function describeEmbedStatus(
+  route: Route,
+  currentLocation: LocationBroadcast | null,
+  isLocationStale: boolean,
+  vehicleSnapshots: Array<{ isStale: boolean }>
+): string {
+  if (hasVehicles(route) && vehicleSnapshots.length > 0) {
+    const onTheRoad = vehicleSnapshots.filter(s => !s.isStale).length;
+    return onTheRoad > 0
+      ? `🎅 ${onTheRoad} Santa ${onTheRoad === 1 ? 'truck is' : 'trucks are'} on the way!`
+      : '📡 Showing where Santa was last seen';
+  }
+  if (!hasVehicles(route) && currentLocation) {
+    if (isLocationStale) {
+      return '📡 Showing Santa\'s last known location';
+    }
+    const stopName = getVisitedStopName(route, currentLocation);
+    if (stopName) {
+      return `🎅 Santa is at ${stopName} now!`;
+    }
+    return currentLocation.nextWaypointEta
+      ? `🎅 Santa is on the way! Next stop ${currentLocation.nextWaypointEta}`
+      : '🎅 Santa is on the way!';
+  }
+  if (route.status === 'active') {
+    return '⏳ Waiting for Santa to start broadcasting...';
+  }
+  return route.status === 'completed'
+    ? '🎉 Santa has completed this route!'
+    : `📅 Santa sets off ${route.date} at ${route.startTime}`;
+}
+
+export function TrackingView({ routeId, embed }: TrackingViewProps) {
   const [route, setRoute] = useState<Route | null>(null);
+  const [brigade, setBrigade] = useState<Brigade | null>(null);
   const [loading, setLoading] = useState(true);
-  const [currentLocation, setCurrentLocation] = useState<LocationBroadcast | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [showShareModal, setShowShareModal] = useState(false);
+  const [nearbyAlert, setNearbyAlert] = useState<NearbyAlert | null>(() => loadNearbyAlert(routeId));
+  const [alertPoint, setAlertPoint] = useState<NearbyAlertPoint | null>(null);
+  const [isDroppingPin, setIsDroppingPin] = useState(false);
+  const [unsubscribeNotice, setUnsubscribeNotice] = useState<string | null>(null);
+  const [searchParams, setSearchParams] = useSearchParams();
 
   const mapContainerRef = useRef<HTMLDivElement>(null);
   const mapRef = useRef<mapboxgl.Map | null>(null);
   const santaMarkerRef = useRef<mapboxgl.Marker | null>(null);
+  const vehicleMarkersRef = useRef<Map<string, mapboxgl.Marker>>(new Map());
+  const alertPinMarkerRef = useRef<mapboxgl.Marker | null>(null);
+
+  // Read by the map click handler, which is registered once when the map loads
+  const isDroppingPinRef = useRef(false);
 
   const { getRoute } = useRoutes();
+  const { trackPoints, appendLocation } = useLocationHistory(routeId);
+  const {
+    snapshot,
+    snapshots: vehicleSnapshots,
+    ageMs: locationAgeMs,
+    isStale: isLocationStale,
+    markUpdated,
+  } = useLastKnownLocation({ routeId });
+  const currentLocation = snapshot?.location ?? null;
+
+  // Latest trail for the map load handler, which runs outside React's render cycle
+  const trackPointsRef = useRef<TrackPoint[]>([]);
 
   // Fetch route data
   useEffect(() => {
@@ -49,10 +179,51 @@ export function TrackingView({ routeId }: TrackingViewProps) {
       });
   }, [routeId, getRoute]);
 
+  // The widget is themed with the brigade's colour and logo
+  const isEmbed = embed !== undefined;
+  const brigadeId = route?.brigadeId;
+  useEffect(() => {
+    if (!isEmbed || !brigadeId) return;
+
+    storageAdapter.getBrigade(brigadeId)
+      .then(setBrigade)
+      .catch((err) => {
+        console.error('Failed to load brigade for embed:', err);
+      });
+  }, [isEmbed, brigadeId]);
+
+  // "Stop alerts" in a Santa alert links here with ?unsubscribe=<subscription id>
+  const unsubscribeId = searchParams.get('unsubscribe');
+  useEffect(() => {
+    if (!unsubscribeId) return;
+
+    deleteNearbyAlert(routeId, unsubscribeId)
+      .then((deleted) => {
+        if (loadNearbyAlert(routeId)?.subscriptionId === unsubscribeId) {
+          clearNearbyAlert(routeId);
+          setNearbyAlert(null);
+        }
+        setUnsubscribeNotice(deleted ? '🔕 Santa alerts are turned off.' : '🔕 This Santa alert was already turned off.');
+      })
+      .catch((err) => {
+        console.error('Failed to turn off Santa alert:', err);
+        setUnsubscribeNotice('⚠️ Could not turn off the Santa alert. Please try again.');
+      })
+      .finally(() => {
+        setSearchParams((params) => {
+          params.delete('unsubscribe');
+          return params;
+        }, { replace: true });
+      });
+  }, [routeId, unsubscribeId, setSearchParams]);
+
   // Initialize map
+  const embedInteractive = embed?.interactive ?? true;
   useEffect(() => {
     if (!mapContainerRef.current || !route || mapRef.current) return;
 
+    const vehicleMarkers = vehicleMarkersRef.current;
+
     const mapboxToken = import.meta.env.VITE_MAPBOX_TOKEN;
     if (!mapboxToken) {
       console.error('Mapbox token not configured');
@@ -75,9 +246,23 @@ export function TrackingView({ routeId }: TrackingViewProps) {
       fitBoundsOptions: {
         padding: 50,
       },
+      // Embedded maps don't capture the host page's scrolling; a locked widget ignores gestures entirely
+      interactive: embedInteractive,
+      cooperativeGestures: isEmbed && embedInteractive,
       ...MAPBOX_CONFIG,
     });
 
+    if (isEmbed && embedInteractive) {
+      map.addControl(new mapboxgl.NavigationControl({ showCompass: false }), 'top-right');
+    }
+
+    // Drop the "notify me" pin where the viewer taps
+    map.on('click', (event) => {
+      if (!isDroppingPinRef.current) return;
+      setAlertPoint({ location: [event.lngLat.lng, event.lngLat.lat], label: 'Dropped pin' });
+      setIsDroppingPin(false);
+    });
+
     map.on('load', () => {
       // Add route polyline with candy cane styling (white base + red dashes + glow)
       if (route.geometry) {
@@ -141,14 +326,37 @@ export function TrackingView({ routeId }: TrackingViewProps) {
         });
       }
 
+      // Add breadcrumb trail showing where Santa has already been
+      map.addSource('breadcrumb', {
+        type: 'geojson',
+        data: toBreadcrumbData(trackPointsRef.current, route),
+      });
+
+      map.addLayer({
+        id: 'breadcrumb-line',
+        type: 'line',
+        source: 'breadcrumb',
+        layout: {
+          'line-join': 'round',
+          'line-cap': 'round',
+        },
+        paint: {
+          'line-color': ['coalesce', ['get', 'color'], TRAIL_COLOR],
+          'line-width': 5,
+          'line-opacity': 0.85,
+        },
+      });
+
       // Add waypoint markers with improved styling
       route.waypoints.forEach((waypoint, index) => {
+        const vehicle = findVehicle(route, getWaypointVehicleId(route, waypoint));
+        const visitedBy = findVehicle(route, waypoint.completedByVehicleId);
         const el = document.createElement('div');
         el.className = 'waypoint-marker';
         el.style.width = '36px';
         el.style.height = '36px';
         el.style.borderRadius = '50%';
-        el.style.backgroundColor = waypoint.isCompleted ? 'var(--christmas-green)' : 'var(--summer-gold)';
+        el.style.backgroundColor = waypoint.isCompleted ? 'var(--christmas-green)' : vehicle?.color ?? 'var(--summer-gold)';
         el.style.color = 'white';
         el.style.display = 'flex';
         el.style.alignItems = 'center';
@@ -169,7 +377,8 @@ export function TrackingView({ routeId }: TrackingViewProps) {
               `<div style="padding: 0.75rem; font-family: var(--font-body);">
                 <strong style="color: var(--fire-red); font-size: 1rem;">${waypoint.name || `Stop ${index + 1}`}</strong>
                 ${waypoint.address ? `<br/><small style="color: var(--neutral-700);">${waypoint.address}</small>` : ''}
-                ${waypoint.isCompleted ? '<br/><span style="color: var(--christmas-green); font-weight: 600;">✓ Completed</span>' : ''}
+                ${vehicle && !waypoint.isCompleted ? `<br/><small style="color: var(--neutral-700);">🚒 ${vehicle.callsign}</small>` : ''}
+                ${waypoint.isCompleted ? `<br/><span style="color: var(--christmas-green); font-weight: 600;">✓ Completed${visitedBy ? ` by ${visitedBy.callsign}` : ''}</span>` : ''}
               </div>`
             )
           )
@@ -186,27 +395,83 @@ export function TrackingView({ routeId }: TrackingViewProps) {
         santaMarkerRef.current.remove();
         santaMarkerRef.current = null;
       }
+      vehicleMarkers.forEach(marker => marker.remove());
+      vehicleMarkers.clear();
+      alertPinMarkerRef.current = null;
     };
-  }, [route]);
+  }, [route, isEmbed, embedInteractive]);
+
+  // Switch the map into pin-dropping mode for the "notify me" alert
+  useEffect(() => {
+    isDroppingPinRef.current = isDroppingPin;
+    const canvas = mapRef.current?.getCanvas();
+    if (canvas) {
+      canvas.style.cursor = isDroppingPin ? 'crosshair' : '';
+    }
+  }, [isDroppingPin]);
+
+  // Show the point being chosen, or the point the alert is set for
+  const alertPinLocation = alertPoint?.location ?? nearbyAlert?.location ?? null;
+  useEffect(() => {
+    if (!mapRef.current) return;
+
+    if (!alertPinLocation) {
+      alertPinMarkerRef.current?.remove();
+      alertPinMarkerRef.current = null;
+      return;
+    }
+
+    if (alertPinMarkerRef.current) {
+      alertPinMarkerRef.current.setLngLat(alertPinLocation);
+    } else {
+      const el = document.createElement('div');
+      el.style.fontSize = '32px';
+      el.textContent = '🔔';
+      el.title = 'Santa alert';
+      alertPinMarkerRef.current = new mapboxgl.Marker({ element: el, anchor: 'bottom' })
+        .setLngLat(alertPinLocation)
+        .addTo(mapRef.current);
+    }
+  }, [alertPinLocation, route]);
+
+  // Extend the breadcrumb trail as history loads and live updates arrive
+  useEffect(() => {
+    trackPointsRef.current = trackPoints;
+    const source = mapRef.current?.getSource('breadcrumb') as mapboxgl.GeoJSONSource | undefined;
+    source?.setData(toBreadcrumbData(trackPoints, route));
+  }, [trackPoints, route]);
 
   // Handle location updates
   const handleLocationUpdate = (location: LocationBroadcast) => {
-    setCurrentLocation(location);
+    markUpdated(location);
+    appendLocation(location);
 
-    if (!mapRef.current) return;
+    // Dev mode has no push service, so the open page raises the alert itself
+    if (nearbyAlert) {
+      const notified = checkLocalNearbyAlert(nearbyAlert, location);
+      if (notified) {
+        setNearbyAlert(notified);
+      }
+    }
+  };
+
+  // Move Santa to the latest position (live update or last-known snapshot)
+  useEffect(() => {
+    if (!mapRef.current || !currentLocation || !route || hasVehicles(route)) return;
 
     // Update or create Santa marker with bouncing animation
     if (santaMarkerRef.current) {
-      santaMarkerRef.current.setLngLat(location.location);
+      santaMarkerRef.current.setLngLat(currentLocation.location);
     } else {
       const el = document.createElement('div');
       el.className = 'santa-marker-icon'; // Uses CSS animation for bouncing
       el.style.fontSize = '56px';
       el.style.cursor = 'pointer';
+      el.style.transition = 'opacity 0.5s ease';
       el.textContent = '🎅';
 
       const marker = new mapboxgl.Marker(el)
-        .setLngLat(location.location)
+        .setLngLat(currentLocation.location)
         .addTo(mapRef.current);
 
       santaMarkerRef.current = marker;
@@ -214,11 +479,40 @@ export function TrackingView({ routeId }: TrackingViewProps) {
 
     // Center map on Santa's location with smooth animation
     mapRef.current.easeTo({
-      center: location.location,
+      center: currentLocation.location,
       zoom: 15,
       duration: 1500,
     });
-  };
+  }, [currentLocation, route]);
+
+  // Fade Santa out while the position is stale
+  useEffect(() => {
+    if (santaMarkerRef.current) {
+      santaMarkerRef.current.getElement().style.opacity = isLocationStale ? '0.5' : '1';
+    }
+  }, [isLocationStale, currentLocation]);
+
+  // Multi-vehicle routes: one marker per vehicle, without following any one of them
+  useEffect(() => {
+    const map = mapRef.current;
+    if (!map || !route || !hasVehicles(route)) return;
+
+    vehicleSnapshots.forEach(({ location, isStale }) => {
+      const vehicle = findVehicle(route, location.vehicleId);
+      if (!vehicle) return;
+
+      let marker = vehicleMarkersRef.current.get(vehicle.id);
+      if (marker) {
+        marker.setLngLat(location.location);
+      } else {
+        marker = new mapboxgl.Marker({ element: createVehicleMarkerElement(vehicle), anchor: 'bottom' })
+          .setLngLat(location.location)
+          .addTo(map);
+        vehicleMarkersRef.current.set(vehicle.id, marker);
+      }
+      marker.getElement().style.opacity = isStale ? '0.5' : '1';
+    });
+  }, [vehicleSnapshots, route]);
 
   // Connect to Web PubSub for real-time updates
   const { isConnected, isConnecting, error: connectionError } = useWebPubSub({
@@ -227,6 +521,9 @@ export function TrackingView({ routeId }: TrackingViewProps) {
     onLocationUpdate: handleLocationUpdate,
   });
 
+  // Anonymous viewer analytics for the brigade's post-run report
+  useViewerTracking(routeId, { isConnected, embed: isEmbed, area: nearbyAlert?.location });
+
   // Loading state
   if (loading) {
     return (
@@ -275,6 +572,8 @@ export function TrackingView({ routeId }: TrackingViewProps) {
   }
 
   // Calculate progress
+  const isMultiVehicle = hasVehicles(route);
+  const currentStopName = getVisitedStopName(route, currentLocation);
   const completedWaypoints = route.waypoints.filter((w) => w.isCompleted).length;
   const totalWaypoints = route.waypoints.length;
   const progressPercent = (completedWaypoints / totalWaypoints) * 100;
@@ -284,6 +583,105 @@ export function TrackingView({ routeId }: TrackingViewProps) {
   const seoDescription = `🎅 Track Santa in real-time for ${route.name}! See Santa's location live as the ${route.brigadeId} Rural Fire Service brings Christmas joy on ${route.date}.`;
   const seoUrl = route.shareableLink || `${window.location.origin}/track/${route.id}`;
 
+  if (embed) {
+    const accentColor = brigade?.themeColor || 'var(--santa-red)';
+
+    return (
+      <div style={{ display: 'flex', flexDirection: 'column', width: '100%', height: '100vh', fontFamily: 'var(--font-body)' }}>
+        {embed.showHeader && (
+          <div
+            style={{
+              display: 'flex',
+              alignItems: 'center',
+              gap: '0.5rem',
+              padding: '0.5rem 0.75rem',
+              backgroundColor: accentColor,
+              color: 'white',
+            }}
+          >
+            {brigade?.logo ? (
+              <img
+                src={brigade.logo}
+                alt={`${brigade.name} logo`}
+                style={{ width: '28px', height: '28px', objectFit: 'contain', borderRadius: '6px', backgroundColor: 'white' }}
+              />
+            ) : (
+              <span style={{ fontSize: '24px', lineHeight: 1 }} aria-hidden="true">🎅</span>
+            )}
+            <div style={{ flex: 1, minWidth: 0 }}>
+              <h1 style={{ margin: 0, fontSize: '1rem', whiteSpace: 'nowrap', overflow: 'hidden', textOverflow: 'ellipsis' }}>
+                {route.name}
+              </h1>
+              {brigade && (
+                <p style={{ margin: 0, fontSize: '0.75rem', opacity: 0.9 }}>{brigade.name}</p>
+              )}
+            </div>
+            <div
+              className="live-pulse"
+              style={{
+                backgroundColor: isConnected ? 'var(--rfs-yellow)' :
+                                 isConnecting ? 'var(--summer-gold)' :
+                                 'var(--fire-red)',
+              }}
+              title={
+                isConnected ? 'Connected - Live Tracking Active' :
+                isConnecting ? 'Connecting...' :
+                'Disconnected'
+              }
+            />
+          </div>
+        )}
+
+        <div ref={mapContainerRef} style={{ flex: 1, minHeight: 0 }} />
+
+        {embed.showProgress && (
+          <div style={{ padding: '0.5rem 0.75rem', backgroundColor: 'white', borderTop: `3px solid ${accentColor}` }}>
+            <div style={{ display: 'flex', justifyContent: 'space-between', gap: '0.5rem', fontSize: '0.8125rem', color: 'var(--neutral-900)' }}>
+              <span style={{ overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+                {describeEmbedStatus(route, currentLocation, isLocationStale, vehicleSnapshots)}
+              </span>
+              <strong style={{ flexShrink: 0 }}>{completedWaypoints} / {totalWaypoints} stops</strong>
+            </div>
+            <div
+              style={{
+                marginTop: '0.375rem',
+                height: '6px',
+                backgroundColor: 'var(--neutral-200)',
+                borderRadius: 'var(--border-radius-xs)',
+                overflow: 'hidden',
+              }}
+            >
+              <div
+                style={{
+                  width: `${progressPercent}%`,
+                  height: '100%',
+                  backgroundColor: 'var(--christmas-green)',
+                  transition: 'width 0.5s ease',
+                }}
+              />
+            </div>
+          </div>
+        )}
+
+        <a
+          href={seoUrl}
+          target="_blank"
+          rel="noopener noreferrer"
+          style={{
+            padding: '0.25rem 0.75rem',
+            backgroundColor: 'var(--neutral-100)',
+            color: 'var(--neutral-700)',
+            fontSize: '0.75rem',
+            textAlign: 'right',
+            textDecoration: 'none',
+          }}
+        >
+          Open full Santa tracker ↗
+        </a>
+      </div>
+    );
+  }
+
   return (
     <>
       <SEO
@@ -455,12 +853,64 @@ export function TrackingView({ routeId }: TrackingViewProps) {
           </div>
         </div>
 
-        {currentLocation ? (
+        {isMultiVehicle ? (
+          <div style={{ display: 'flex', flexDirection: 'column', gap: '0.5rem' }}>
+            {getVehicleProgress(route).map(({ vehicle, completed, total }) => {
+              const vehicleSnapshot = vehicleSnapshots.find(s => s.location.vehicleId === vehicle.id);
+              const vehicleLocation = vehicleSnapshot?.location;
+              // Broadcasts list the stops still ahead, which is fresher than the route loaded with the page
+              const remaining = vehicleLocation?.waypointEtas?.length;
+              const visited = remaining === undefined ? completed : Math.max(completed, total - remaining);
+              const stopName = getVisitedStopName(route, vehicleLocation);
+              return (
+                <div
+                  key={vehicle.id}
+                  style={{
+                    padding: '0.75rem 1rem',
+                    backgroundColor: vehicleSnapshot?.isStale ? 'var(--neutral-100)' : 'rgba(255, 230, 0, 0.1)',
+                    borderRadius: 'var(--border-radius-xs)',
+                    borderLeft: `4px solid ${vehicle.color}`,
+                  }}
+                >
+                  <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', gap: '0.5rem' }}>
+                    <strong style={{ fontSize: '0.9375rem', color: 'var(--neutral-900)' }}>🚒 {vehicle.callsign}</strong>
+                    <span style={{ fontSize: '0.8125rem', fontWeight: 600, color: 'var(--neutral-700)' }}>
+                      {visited} / {total} stops
+                    </span>
+                  </div>
+                  <p style={{ margin: '0.25rem 0 0', fontSize: '0.75rem', color: 'var(--neutral-700)' }}>
+                    {!vehicleSnapshot
+                      ? route.status === 'active' ? '⏳ Waiting to start broadcasting...' : 'Not on the road'
+                      : vehicleSnapshot.isStale
+                      ? `📡 Last seen ${formatLocationAge(vehicleSnapshot.ageMs)}`
+                      : `🎅 ${stopName ? `At ${stopName} now` : 'On the way'} • updated ${formatLocationAge(vehicleSnapshot.ageMs)}`}
+                  </p>
+                  {vehicleLocation?.nextWaypointEta && (
+                    <p style={{ margin: '0.25rem 0 0', fontSize: '0.8125rem', color: 'var(--neutral-700)' }}>
+                      ⏱️ Next stop: <strong>{vehicleLocation.nextWaypointEta}</strong>
+                      {typeof vehicleLocation.scheduleDeviation === 'number' && !vehicleSnapshot?.isStale && (
+                        <span style={{
+                          marginLeft: '0.5rem',
+                          fontWeight: 600,
+                          color: isBehindSchedule(vehicleLocation.scheduleDeviation)
+                            ? 'var(--fire-red)'
+                            : 'var(--christmas-green)',
+                        }}>
+                          {formatScheduleDeviation(vehicleLocation.scheduleDeviation)}
+                        </span>
+                      )}
+                    </p>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        ) : currentLocation ? (
           <div style={{
             padding: '1rem',
-            backgroundColor: 'rgba(255, 230, 0, 0.1)',
+            backgroundColor: isLocationStale ? 'var(--neutral-100)' : 'rgba(255, 230, 0, 0.1)',
             borderRadius: 'var(--border-radius-xs)',
-            borderLeft: '4px solid var(--rfs-yellow)',
+            borderLeft: `4px solid ${isLocationStale ? 'var(--neutral-300)' : 'var(--rfs-yellow)'}`,
           }}>
             <p style={{ 
               margin: 0, 
@@ -468,8 +918,22 @@ export function TrackingView({ routeId }: TrackingViewProps) {
               color: 'var(--neutral-900)',
               fontWeight: 600,
             }}>
-              🎅 Santa is on the way!
+              {isLocationStale
+                ? '📡 Showing Santa\'s last known location'
+                : currentStopName
+                ? `🎅 Santa is at ${currentStopName} now!`
+                : '🎅 Santa is on the way!'}
             </p>
+            {locationAgeMs !== null && (
+              <p style={{
+                margin: '0.25rem 0 0',
+                fontSize: '0.75rem',
+                color: 'var(--neutral-700)',
+              }}>
+                Last updated {formatLocationAge(locationAgeMs)}
+                {isLocationStale && ' • waiting for Santa\'s next update'}
+              </p>
+            )}
             {currentLocation.nextWaypointEta && (
               <p style={{ 
                 margin: '0.5rem 0 0', 
@@ -479,6 +943,48 @@ export function TrackingView({ routeId }: TrackingViewProps) {
                 ⏱️ ETA to next stop: <strong>{currentLocation.nextWaypointEta}</strong>
               </p>
             )}
+            {typeof currentLocation.scheduleDeviation === 'number' && !isLocationStale && (
+              <p style={{
+                margin: '0.25rem 0 0',
+                fontSize: '0.875rem',
+                fontWeight: 600,
+                color: isBehindSchedule(currentLocation.scheduleDeviation)
+                  ? 'var(--fire-red)'
+                  : 'var(--christmas-green)',
+              }}>
+                {isBehindSchedule(currentLocation.scheduleDeviation) ? '🐢' : '✅'}{' '}
+                {formatScheduleDeviation(currentLocation.scheduleDeviation)}
+              </p>
+            )}
+            {currentLocation.waypointEtas && currentLocation.waypointEtas.length > 1 && (
+              <details style={{ marginTop: '0.5rem', fontSize: '0.875rem', color: 'var(--neutral-700)' }}>
+                <summary style={{ cursor: 'pointer', fontWeight: 600 }}>
+                  Upcoming stops ({currentLocation.waypointEtas.length})
+                </summary>
+                <ol style={{ margin: '0.5rem 0 0', padding: 0, listStyle: 'none', maxHeight: '140px', overflowY: 'auto' }}>
+                  {currentLocation.waypointEtas.map(({ waypointId, eta }) => {
+                    const waypoint = route.waypoints.find(wp => wp.id === waypointId);
+                    return (
+                      <li
+                        key={waypointId}
+                        style={{
+                          display: 'flex',
+                          justifyContent: 'space-between',
+                          gap: '0.5rem',
+                          padding: '0.25rem 0',
+                          borderBottom: '1px solid var(--neutral-200)',
+                        }}
+                      >
+                        <span style={{ overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+                          {waypoint?.name || waypoint?.address || 'Stop'}
+                        </span>
+                        <strong style={{ flexShrink: 0 }}>{formatETA(new Date(eta))}</strong>
+                      </li>
+                    );
+                  })}
+                </ol>
+              </details>
+            )}
           </div>
         ) : (
           <div style={{
@@ -496,6 +1002,25 @@ export function TrackingView({ routeId }: TrackingViewProps) {
           </div>
         )}
 
+        {unsubscribeNotice && (
+          <p role="status" style={{ margin: '1rem 0 0', fontSize: '0.875rem', color: 'var(--neutral-700)' }}>
+            {unsubscribeNotice}
+          </p>
+        )}
+
+        {(route.status === 'published' || route.status === 'active') && (
+          <NearbyAlertPanel
+            routeId={routeId}
+            alert={nearbyAlert}
+            onAlertChange={setNearbyAlert}
+            point={alertPoint}
+            onPointChange={setAlertPoint}
+            isDroppingPin={isDroppingPin}
+            onDropPinChange={setIsDroppingPin}
+            proximity={route.waypoints[0]?.coordinates}
+          />
+        )}
+
         {connectionError && (
           <div style={{
             marginTop: '1rem',
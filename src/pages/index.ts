@@ -6,11 +6,16 @@ export { RouteDetail } from './RouteDetail';
 export { ProfilePage } from './ProfilePage';
 export { BrigadeClaimingPage } from './BrigadeClaimingPage';
 export { MemberManagementPage } from './MemberManagementPage';
+export { AuditLogPage } from './AuditLogPage';
 export { InvitationAcceptancePage } from './InvitationAcceptancePage';
 export { LandingPage } from './LandingPage';
+export { EventPage } from './EventPage';
+export { BrigadePage } from './BrigadePage';
 export { LoginPage, LogoutPage, CallbackPage } from './auth';
 
 export type { RouteEditorProps } from './RouteEditor';
 export type { NavigationViewProps } from './NavigationView';
 export type { TrackingViewProps } from './TrackingView';
 export type { RouteDetailProps } from './RouteDetail';
+export type { EventPageProps } from './EventPage';
+export type { BrigadePageProps } from './BrigadePage';
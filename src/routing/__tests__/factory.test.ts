@@ -0,0 +1,65 @@
+/**
+ * Routing and geocoding provider factory tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { createGeocodingProvider, createRoutingProvider } from '../index';
+import { MapboxGeocodingProvider, MapboxRoutingProvider } from '../mapbox';
+import { OsrmRoutingProvider } from '../osrm';
+import { NominatimGeocodingProvider } from '../nominatim';
+import { FakeGeocodingProvider, FakeRoutingProvider } from '../fake';
+
+describe('Routing Provider Factory', () => {
+  it('should use the fake providers under test', () => {
+    const env = { VITEST: 'true', VITE_MAPBOX_TOKEN: 'pk.test' };
+
+    expect(createRoutingProvider(env)).toBeInstanceOf(FakeRoutingProvider);
+    expect(createGeocodingProvider(env)).toBeInstanceOf(FakeGeocodingProvider);
+  });
+
+  it('should use the fake providers in dev mode without a Mapbox token', () => {
+    const env = { VITE_DEV_MODE: 'true' };
+
+    expect(createRoutingProvider(env)).toBeInstanceOf(FakeRoutingProvider);
+    expect(createGeocodingProvider(env)).toBeInstanceOf(FakeGeocodingProvider);
+  });
+
+  it('should default to Mapbox when a token is configured', () => {
+    const env = { VITE_DEV_MODE: 'true', VITE_MAPBOX_TOKEN: 'pk.test' };
+
+    expect(createRoutingProvider(env)).toBeInstanceOf(MapboxRoutingProvider);
+    expect(createGeocodingProvider(env)).toBeInstanceOf(MapboxGeocodingProvider);
+  });
+
+  it('should default to Mapbox in production', () => {
+    expect(createRoutingProvider({ VITE_DEV_MODE: 'false' })).toBeInstanceOf(MapboxRoutingProvider);
+  });
+
+  it('should select self-hosted providers from configuration', () => {
+    const env = {
+      VITE_ROUTING_PROVIDER: 'osrm',
+      VITE_ROUTING_URL: 'https://osrm.example.org',
+      VITE_GEOCODING_PROVIDER: 'nominatim',
+      VITE_GEOCODING_URL: 'https://nominatim.example.org',
+    };
+
+    expect(createRoutingProvider(env)).toBeInstanceOf(OsrmRoutingProvider);
+    expect(createGeocodingProvider(env)).toBeInstanceOf(NominatimGeocodingProvider);
+  });
+
+  it('should let configuration override the test default', () => {
+    const env = { VITEST: 'true', VITE_ROUTING_PROVIDER: 'mapbox' };
+
+    expect(createRoutingProvider(env)).toBeInstanceOf(MapboxRoutingProvider);
+  });
+
+  it('should require a server URL for self-hosted providers', () => {
+    expect(() => createRoutingProvider({ VITE_ROUTING_PROVIDER: 'osrm' })).toThrow('VITE_ROUTING_URL');
+    expect(() => createGeocodingProvider({ VITE_GEOCODING_PROVIDER: 'nominatim' })).toThrow('VITE_GEOCODING_URL');
+  });
+
+  it('should reject unknown providers', () => {
+    expect(() => createRoutingProvider({ VITE_ROUTING_PROVIDER: 'valhalla' })).toThrow('Unknown routing provider "valhalla"');
+    expect(() => createGeocodingProvider({ VITE_GEOCODING_PROVIDER: 'google' })).toThrow('Unknown geocoding provider "google"');
+  });
+});
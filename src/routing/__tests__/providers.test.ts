@@ -0,0 +1,166 @@
+/**
+ * Routing and geocoding provider tests
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { FakeGeocodingProvider, FakeRoutingProvider, FAKE_PLACES } from '../fake';
+import { OsrmRoutingProvider, buildOsrmInstruction } from '../osrm';
+import { NominatimGeocodingProvider } from '../nominatim';
+import { MapboxGeocodingProvider, MapboxRoutingProvider } from '../mapbox';
+
+function mockFetchResponse(body: unknown, ok = true) {
+  vi.mocked(global.fetch).mockResolvedValueOnce({
+    ok,
+    json: async () => body,
+  } as Response);
+}
+
+describe('Routing providers', () => {
+  beforeEach(() => {
+    global.fetch = vi.fn();
+    vi.restoreAllMocks();
+  });
+
+  describe('FakeRoutingProvider', () => {
+    const provider = new FakeRoutingProvider();
+    const coordinates: [number, number][] = [[146.0391, -34.2908], [146.0445, -34.2845], [146.0521, -34.2756]];
+
+    it('should return the same straight-line route every time', async () => {
+      const first = await provider.getDirections(coordinates);
+      const second = await provider.getDirections(coordinates);
+
+      expect(first).toEqual(second);
+      expect(first.geometry.coordinates).toEqual(coordinates);
+      expect(first.steps.map(step => step.maneuver.type)).toEqual(['depart', 'arrive', 'depart', 'arrive']);
+      expect(first.distance).toBeCloseTo(first.steps.reduce((sum, step) => sum + step.distance, 0));
+      expect(global.fetch).not.toHaveBeenCalled();
+    });
+
+    it('should build a symmetric travel matrix', async () => {
+      const { distances, durations } = await provider.getTravelMatrix(coordinates);
+
+      expect(distances[0][0]).toBe(0);
+      expect(distances[0][2]).toBe(distances[2][0]);
+      expect(durations[0][1]).toBeGreaterThan(0);
+    });
+
+    it('should require at least 2 coordinates', async () => {
+      await expect(provider.getDirections([coordinates[0]])).rejects.toThrow('At least 2 waypoints required');
+    });
+  });
+
+  describe('FakeGeocodingProvider', () => {
+    const provider = new FakeGeocodingProvider();
+
+    it('should search the gazetteer', async () => {
+      const results = await provider.searchAddress('park');
+
+      expect(results.map(result => result.id)).toEqual(['fake.jubilee-park', 'fake.pioneer-park']);
+    });
+
+    it('should order results by proximity', async () => {
+      const results = await provider.searchAddress('park', FAKE_PLACES[3].center);
+
+      expect(results[0].id).toBe('fake.pioneer-park');
+    });
+
+    it('should reverse geocode nearby places and fall back to coordinates', async () => {
+      expect(await provider.reverseGeocode([146.0392, -34.2909])).toBe(FAKE_PLACES[0].place_name);
+      expect(await provider.reverseGeocode([151.2093, -33.8688])).toBe('-33.8688, 151.2093');
+    });
+  });
+
+  describe('OsrmRoutingProvider', () => {
+    const provider = new OsrmRoutingProvider('https://osrm.example.org/');
+
+    it('should convert OSRM routes to navigation steps', async () => {
+      const line = { type: 'LineString' as const, coordinates: [[146.0391, -34.2908], [146.0445, -34.2845]] as [number, number][] };
+      mockFetchResponse({
+        code: 'Ok',
+        routes: [{
+          geometry: line,
+          distance: 900,
+          duration: 120,
+          legs: [{
+            steps: [
+              { distance: 500, duration: 60, name: 'Banna Avenue', geometry: line, maneuver: { type: 'depart', location: line.coordinates[0] } },
+              { distance: 400, duration: 60, name: 'Yambil Street', geometry: line, maneuver: { type: 'turn', modifier: 'left', location: line.coordinates[1] } },
+            ],
+          }],
+        }],
+      });
+
+      const result = await provider.getDirections(line.coordinates);
+
+      expect(global.fetch).toHaveBeenCalledWith(
+        'https://osrm.example.org/route/v1/driving/146.0391,-34.2908;146.0445,-34.2845?geometries=geojson&steps=true&overview=full'
+      );
+      expect(result.distance).toBe(900);
+      expect(result.steps.map(step => step.instruction)).toEqual(['Head along Banna Avenue', 'Turn left onto Yambil Street']);
+      expect(result.steps[1].maneuver).toEqual({ type: 'turn', modifier: 'left', location: line.coordinates[1] });
+    });
+
+    it('should surface OSRM errors', async () => {
+      mockFetchResponse({ code: 'NoRoute', message: 'Impossible route between points' }, false);
+
+      await expect(provider.getDirections([[0, 0], [1, 1]])).rejects.toThrow('Impossible route between points');
+    });
+
+    it('should read travel matrices from the table service', async () => {
+      mockFetchResponse({ code: 'Ok', distances: [[0, 10], [12, 0]], durations: [[0, 1], [2, null]] });
+
+      const matrix = await provider.getTravelMatrix([[0, 0], [1, 1]]);
+
+      expect(vi.mocked(global.fetch).mock.calls[0][0]).toContain('/table/v1/driving/0,0;1,1?annotations=distance%2Cduration');
+      expect(matrix.durations).toEqual([[0, 1], [2, null]]);
+    });
+
+    it('should describe roundabouts with the exit number', () => {
+      expect(buildOsrmInstruction({
+        distance: 0,
+        duration: 0,
+        name: 'Jondaryan Avenue',
+        geometry: { type: 'LineString', coordinates: [] },
+        maneuver: { type: 'roundabout', exit: 2, location: [0, 0] },
+      })).toBe('Enter the roundabout and take the 2nd exit onto Jondaryan Avenue');
+    });
+  });
+
+  describe('NominatimGeocodingProvider', () => {
+    const provider = new NominatimGeocodingProvider('https://nominatim.example.org');
+
+    it('should map search results to geocoding results', async () => {
+      mockFetchResponse([{ place_id: 42, display_name: 'Banna Avenue, Griffith', lat: '-34.2845', lon: '146.0445' }]);
+
+      const results = await provider.searchAddress('Banna', [146.04, -34.28]);
+
+      const url = vi.mocked(global.fetch).mock.calls[0][0] as string;
+      expect(url).toContain('/search?q=Banna');
+      expect(url).toContain('countrycodes=au');
+      expect(url).toContain('viewbox=');
+      expect(results).toEqual([{ id: '42', place_name: 'Banna Avenue, Griffith', center: [146.0445, -34.2845] }]);
+    });
+
+    it('should fall back to coordinates when nothing is found', async () => {
+      mockFetchResponse({ error: 'Unable to geocode' });
+
+      expect(await provider.reverseGeocode([146.0445, -34.2845])).toBe('-34.2845, 146.0445');
+    });
+  });
+
+  describe('Mapbox providers', () => {
+    it('should require a token', async () => {
+      await expect(new MapboxRoutingProvider(undefined).getDirections([[0, 0], [1, 1]]))
+        .rejects.toThrow('Mapbox token not configured');
+      await expect(new MapboxGeocodingProvider(undefined).searchAddress('Griffith'))
+        .rejects.toThrow('Mapbox token not configured');
+    });
+
+    it('should limit travel matrices to 25 locations', async () => {
+      const coordinates = Array.from({ length: 26 }, (_, i): [number, number] => [146 + i / 100, -34]);
+
+      await expect(new MapboxRoutingProvider('pk.test').getTravelMatrix(coordinates))
+        .rejects.toThrow('Travel matrix supports at most 25 locations');
+    });
+  });
+});
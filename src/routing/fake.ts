@@ -0,0 +1,143 @@
+/**
+ * Deterministic in-memory routing and geocoding for tests and dev mode
+ *
+ * Routes are straight lines between the coordinates at a constant speed, and
+ * addresses come from a small gazetteer (Griffith, matching the dev brigade in
+ * utils/mockData). No network access and no API token needed.
+ */
+
+import type { NavigationStep } from '../types';
+import { calculateDistance } from '../utils/navigation';
+import type {
+  DirectionsResult,
+  GeocodingProvider,
+  GeocodingResult,
+  RoutingProvider,
+  TravelMatrixResult,
+} from './types';
+import { assertRoutable, formatCoordinates } from './shared';
+
+// Constant driving speed for fake routes (30 km/h)
+const FAKE_SPEED_MPS = 30 / 3.6;
+
+// Reverse geocoding matches a gazetteer place within this distance
+const REVERSE_GEOCODE_RADIUS_METERS = 250;
+
+export const FAKE_PLACES: GeocodingResult[] = [
+  {
+    id: 'fake.griffith-fire-station',
+    place_name: 'Griffith Fire Station, Benerembah St, Griffith NSW 2680',
+    center: [146.0391, -34.2908],
+  },
+  {
+    id: 'fake.jubilee-park',
+    place_name: 'Jubilee Park, Griffith NSW 2680',
+    center: [146.0445, -34.2845],
+  },
+  {
+    id: 'fake.griffith-shopping-centre',
+    place_name: 'Griffith Shopping Centre, Banna Ave, Griffith NSW 2680',
+    center: [146.0521, -34.2756],
+  },
+  {
+    id: 'fake.pioneer-park',
+    place_name: 'Pioneer Park Museum, Griffith NSW 2680',
+    center: [146.0389, -34.2634],
+  },
+  {
+    id: 'fake.lake-wyangan',
+    place_name: 'Lake Wyangan, Griffith NSW 2680',
+    center: [146.0189, -34.3134],
+  },
+];
+
+export class FakeRoutingProvider implements RoutingProvider {
+  readonly name = 'fake';
+  readonly usesRoadNetwork = false;
+  readonly maxMatrixCoordinates = Infinity;
+
+  /**
+   * Straight-line route with a depart and arrive step per leg, like Mapbox's
+   */
+  async getDirections(coordinates: [number, number][]): Promise<DirectionsResult> {
+    assertRoutable(coordinates);
+
+    const steps: NavigationStep[] = [];
+    let distance = 0;
+
+    for (let i = 1; i < coordinates.length; i++) {
+      const from = coordinates[i - 1];
+      const to = coordinates[i];
+      const legDistance = calculateDistance(from, to);
+      distance += legDistance;
+
+      steps.push(
+        {
+          instruction: `Head to stop ${i}`,
+          distance: legDistance,
+          duration: legDistance / FAKE_SPEED_MPS,
+          geometry: { type: 'LineString', coordinates: [from, to] },
+          maneuver: { type: 'depart', location: from },
+        },
+        {
+          instruction: 'You have arrived at your destination',
+          distance: 0,
+          duration: 0,
+          geometry: { type: 'LineString', coordinates: [to, to] },
+          maneuver: { type: 'arrive', location: to },
+        }
+      );
+    }
+
+    return {
+      geometry: { type: 'LineString', coordinates: [...coordinates] },
+      distance,
+      duration: distance / FAKE_SPEED_MPS,
+      steps,
+    };
+  }
+
+  async getTravelMatrix(coordinates: [number, number][]): Promise<TravelMatrixResult> {
+    assertRoutable(coordinates);
+
+    const distances = coordinates.map(from => coordinates.map(to => calculateDistance(from, to)));
+    return {
+      distances,
+      durations: distances.map(row => row.map(value => value / FAKE_SPEED_MPS)),
+    };
+  }
+}
+
+export class FakeGeocodingProvider implements GeocodingProvider {
+  readonly name = 'fake';
+  private readonly places: GeocodingResult[];
+
+  constructor(places: GeocodingResult[] = FAKE_PLACES) {
+    this.places = places;
+  }
+
+  /**
+   * Places whose name contains the query, nearest to `proximity` first
+   */
+  async searchAddress(query: string, proximity?: [number, number]): Promise<GeocodingResult[]> {
+    const needle = query.trim().toLowerCase();
+    if (!needle) {
+      return [];
+    }
+
+    const matches = this.places.filter(place => place.place_name.toLowerCase().includes(needle));
+    if (proximity) {
+      matches.sort((a, b) => calculateDistance(proximity, a.center) - calculateDistance(proximity, b.center));
+    }
+    return matches.slice(0, 5);
+  }
+
+  async reverseGeocode(coordinates: [number, number]): Promise<string> {
+    const nearest = this.places
+      .map(place => ({ place, distance: calculateDistance(coordinates, place.center) }))
+      .filter(({ distance }) => distance <= REVERSE_GEOCODE_RADIUS_METERS)
+      .sort((a, b) => a.distance - b.distance)[0];
+
+    return nearest?.place.place_name ?? formatCoordinates(coordinates);
+  }
+}
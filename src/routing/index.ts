@@ -0,0 +1,80 @@
+import type { GeocodingProvider, RoutingProvider } from './types';
+import { MapboxGeocodingProvider, MapboxRoutingProvider } from './mapbox';
+import { OsrmRoutingProvider } from './osrm';
+import { NominatimGeocodingProvider } from './nominatim';
+import { FakeGeocodingProvider, FakeRoutingProvider } from './fake';
+
+type ProviderEnv = Partial<Record<string, string | boolean | undefined>>;
+
+/**
+ * Provider used when none is configured explicitly:
+ * 1. Tests (Vitest) → fake, so nothing calls a real API
+ * 2. Dev mode without a Mapbox token → fake, so the editor works offline
+ * 3. Otherwise → Mapbox
+ */
+function getDefaultProvider(env: ProviderEnv): 'mapbox' | 'fake' {
+  const isDevMode = env.VITE_DEV_MODE === 'true';
+  if (env.VITEST || (isDevMode && !env.VITE_MAPBOX_TOKEN)) {
+    return 'fake';
+  }
+  return 'mapbox';
+}
+
+/**
+ * Routing provider factory, selected by VITE_ROUTING_PROVIDER:
+ * - mapbox: Mapbox Directions and Matrix APIs (VITE_MAPBOX_TOKEN)
+ * - osrm: OSRM-compatible HTTP server at VITE_ROUTING_URL
+ * - fake: deterministic straight-line routes for tests and dev mode
+ */
+export function createRoutingProvider(env: ProviderEnv = import.meta.env): RoutingProvider {
+  const provider = (env.VITE_ROUTING_PROVIDER as string | undefined) || getDefaultProvider(env);
+
+  switch (provider) {
+    case 'mapbox':
+      return new MapboxRoutingProvider(env.VITE_MAPBOX_TOKEN as string | undefined);
+    case 'osrm':
+      console.info('[Routing] Using OSRM routing provider.');
+      return new OsrmRoutingProvider(env.VITE_ROUTING_URL as string);
+    case 'fake':
+      console.info('[Routing] Using fake routing provider (straight-line routes).');
+      return new FakeRoutingProvider();
+    default:
+      throw new Error(`Unknown routing provider "${provider}". Use mapbox, osrm or fake.`);
+  }
+}
+
+/**
+ * Geocoding provider factory, selected by VITE_GEOCODING_PROVIDER:
+ * - mapbox: Mapbox Geocoding API (VITE_MAPBOX_TOKEN)
+ * - nominatim: Nominatim-compatible HTTP server at VITE_GEOCODING_URL
+ * - fake: fixed gazetteer for tests and dev mode
+ */
+export function createGeocodingProvider(env: ProviderEnv = import.meta.env): GeocodingProvider {
+  const provider = (env.VITE_GEOCODING_PROVIDER as string | undefined) || getDefaultProvider(env);
+
+  switch (provider) {
+    case 'mapbox':
+      return new MapboxGeocodingProvider(env.VITE_MAPBOX_TOKEN as string | undefined);
+    case 'nominatim':
+      console.info('[Geocoding] Using Nominatim geocoding provider.');
+      return new NominatimGeocodingProvider(env.VITE_GEOCODING_URL as string);
+    case 'fake':
+      console.info('[Geocoding] Using fake geocoding provider.');
+      return new FakeGeocodingProvider();
+    default:
+      throw new Error(`Unknown geocoding provider "${provider}". Use mapbox, nominatim or fake.`);
+  }
+}
+
+// Export singleton instances
+export const routingProvider = createRoutingProvider();
+export const geocodingProvider = createGeocodingProvider();
+
+// Export types for consumers
+export type {
+  RoutingProvider,
+  GeocodingProvider,
+  GeocodingResult,
+  DirectionsResult,
+  TravelMatrixResult,
+} from './types';
@@ -0,0 +1,201 @@
+/**
+ * Mapbox Geocoding, Directions and Matrix API providers
+ */
+
+import type { GeoJSON, NavigationStep } from '../types';
+import type {
+  DirectionsResult,
+  GeocodingProvider,
+  GeocodingResult,
+  RoutingProvider,
+  TravelMatrixResult,
+} from './types';
+import { assertMatrixSize, assertRoutable, formatCoordinates } from './shared';
+
+const GEOCODING_API = 'https://api.mapbox.com/geocoding/v5/mapbox.places';
+const DIRECTIONS_API = 'https://api.mapbox.com/directions/v5/mapbox/driving';
+const MATRIX_API = 'https://api.mapbox.com/directions-matrix/v1/mapbox/driving';
+
+// Maximum coordinates per Matrix API request (driving profile)
+const MAX_MATRIX_COORDINATES = 25;
+
+export interface DirectionsResponse {
+  routes: Array<{
+    geometry: GeoJSON.LineString;
+    distance: number; // meters
+    duration: number; // seconds
+    legs: Array<{
+      steps: Array<{
+        maneuver: {
+          type: string;
+          instruction: string;
+          modifier?: string;
+          location: [number, number];
+        };
+        distance: number;
+        duration: number;
+        geometry: GeoJSON.LineString;
+      }>;
+    }>;
+  }>;
+}
+
+function requireToken(token: string | undefined): string {
+  if (!token) {
+    throw new Error('Mapbox token not configured');
+  }
+  return token;
+}
+
+export class MapboxRoutingProvider implements RoutingProvider {
+  readonly name = 'mapbox';
+  readonly usesRoadNetwork = true;
+  readonly maxMatrixCoordinates = MAX_MATRIX_COORDINATES;
+
+  private readonly token: string | undefined;
+
+  constructor(token: string | undefined) {
+    this.token = token;
+  }
+
+  /**
+   * Route with turn-by-turn navigation from the Mapbox Directions API
+   */
+  async getDirections(coordinates: [number, number][]): Promise<DirectionsResult> {
+    const token = requireToken(this.token);
+    assertRoutable(coordinates);
+
+    // Format coordinates for Directions API
+    const coords = coordinates.map(c => c.join(',')).join(';');
+
+    const params = new URLSearchParams({
+      access_token: token,
+      geometries: 'geojson',
+      steps: 'true',
+      overview: 'full',
+      language: 'en',
+    });
+
+    const response = await fetch(`${DIRECTIONS_API}/${coords}?${params}`);
+
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.message || 'Failed to get directions');
+    }
+
+    const data: DirectionsResponse = await response.json();
+
+    if (!data.routes || data.routes.length === 0) {
+      throw new Error('No route found');
+    }
+
+    const route = data.routes[0];
+
+    // Convert Mapbox steps to our NavigationStep format
+    const steps: NavigationStep[] = [];
+    route.legs.forEach(leg => {
+      leg.steps.forEach(step => {
+        steps.push({
+          instruction: step.maneuver.instruction,
+          distance: step.distance,
+          duration: step.duration,
+          geometry: step.geometry,
+          maneuver: {
+            type: step.maneuver.type,
+            modifier: step.maneuver.modifier,
+            location: step.maneuver.location,
+          },
+        });
+      });
+    });
+
+    return {
+      geometry: route.geometry,
+      distance: route.distance,
+      duration: route.duration,
+      steps,
+    };
+  }
+
+  /**
+   * Driving distances and durations from the Mapbox Matrix API
+   */
+  async getTravelMatrix(coordinates: [number, number][]): Promise<TravelMatrixResult> {
+    const token = requireToken(this.token);
+    assertMatrixSize(coordinates, this.maxMatrixCoordinates);
+
+    const coords = coordinates.map(c => c.join(',')).join(';');
+
+    const params = new URLSearchParams({
+      access_token: token,
+      annotations: 'distance,duration',
+    });
+
+    const response = await fetch(`${MATRIX_API}/${coords}?${params}`);
+
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.message || 'Failed to get travel matrix');
+    }
+
+    const data = await response.json();
+    return {
+      distances: data.distances,
+      durations: data.durations,
+    };
+  }
+}
+
+export class MapboxGeocodingProvider implements GeocodingProvider {
+  readonly name = 'mapbox';
+
+  private readonly token: string | undefined;
+
+  constructor(token: string | undefined) {
+    this.token = token;
+  }
+
+  /**
+   * Search for addresses using the Mapbox Geocoding API
+   */
+  async searchAddress(query: string, proximity?: [number, number]): Promise<GeocodingResult[]> {
+    const params = new URLSearchParams({
+      access_token: requireToken(this.token),
+      limit: '5',
+      country: 'AU', // Limit to Australia
+    });
+
+    if (proximity) {
+      params.append('proximity', proximity.join(','));
+    }
+
+    const response = await fetch(`${GEOCODING_API}/${encodeURIComponent(query)}.json?${params}`);
+
+    if (!response.ok) {
+      throw new Error('Failed to search address');
+    }
+
+    const data = await response.json();
+    return data.features;
+  }
+
+  /**
+   * Reverse geocode coordinates to get address
+   */
+  async reverseGeocode(coordinates: [number, number]): Promise<string> {
+    const params = new URLSearchParams({
+      access_token: requireToken(this.token),
+    });
+
+    const response = await fetch(
+      `${GEOCODING_API}/${coordinates[0]},${coordinates[1]}.json?${params}`
+    );
+
+    if (!response.ok) {
+      throw new Error('Failed to reverse geocode');
+    }
+
+    const data = await response.json();
+    return data.features[0]?.place_name || formatCoordinates(coordinates);
+  }
+}
@@ -0,0 +1,78 @@
+/**
+ * Geocoding provider for servers implementing the Nominatim API
+ * (self-hosted Nominatim or a compatible hosted service)
+ */
+
+import type { GeocodingProvider, GeocodingResult } from './types';
+import { formatCoordinates } from './shared';
+
+// Half-width of the search bias box around `proximity`, in degrees (~50km)
+const PROXIMITY_BOX_DEGREES = 0.5;
+
+interface NominatimPlace {
+  place_id: number | string;
+  display_name: string;
+  lat: string;
+  lon: string;
+}
+
+export class NominatimGeocodingProvider implements GeocodingProvider {
+  readonly name = 'nominatim';
+  private readonly baseUrl: string;
+
+  constructor(baseUrl: string) {
+    if (!baseUrl) {
+      throw new Error('Nominatim geocoding requires a server URL (VITE_GEOCODING_URL)');
+    }
+    this.baseUrl = baseUrl.replace(/\/+$/, '');
+  }
+
+  async searchAddress(query: string, proximity?: [number, number]): Promise<GeocodingResult[]> {
+    const params = new URLSearchParams({
+      q: query,
+      format: 'jsonv2',
+      limit: '5',
+      countrycodes: 'au', // Limit to Australia
+    });
+
+    if (proximity) {
+      const [lng, lat] = proximity;
+      params.append('viewbox', [
+        lng - PROXIMITY_BOX_DEGREES,
+        lat + PROXIMITY_BOX_DEGREES,
+        lng + PROXIMITY_BOX_DEGREES,
+        lat - PROXIMITY_BOX_DEGREES,
+      ].join(','));
+    }
+
+    const response = await fetch(`${this.baseUrl}/search?${params}`);
+
+    if (!response.ok) {
+      throw new Error('Failed to search address');
+    }
+
+    const places: NominatimPlace[] = await response.json();
+    return places.map(place => ({
+      id: String(place.place_id),
+      place_name: place.display_name,
+      center: [Number(place.lon), Number(place.lat)],
+    }));
+  }
+
+  async reverseGeocode(coordinates: [number, number]): Promise<string> {
+    const params = new URLSearchParams({
+      lat: String(coordinates[1]),
+      lon: String(coordinates[0]),
+      format: 'jsonv2',
+    });
+
+    const response = await fetch(`${this.baseUrl}/reverse?${params}`);
+
+    if (!response.ok) {
+      throw new Error('Failed to reverse geocode');
+    }
+
+    const data: Partial<NominatimPlace> = await response.json();
+    return data.display_name || formatCoordinates(coordinates);
+  }
+}
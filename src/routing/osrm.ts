@@ -0,0 +1,172 @@
+/**
+ * Routing provider for servers implementing the OSRM HTTP API
+ * (osrm-backend, or any server exposing its /route and /table services),
+ * so brigades can self-host routing on open map data.
+ */
+
+import type { GeoJSON, NavigationStep } from '../types';
+import type { DirectionsResult, RoutingProvider, TravelMatrixResult } from './types';
+import { assertMatrixSize, assertRoutable } from './shared';
+
+// osrm-routed's default --max-table-size
+const DEFAULT_MAX_MATRIX_COORDINATES = 100;
+
+export interface OsrmRoutingOptions {
+  profile?: string;
+  maxMatrixCoordinates?: number;
+}
+
+interface OsrmStep {
+  distance: number;
+  duration: number;
+  name: string;
+  geometry: GeoJSON.LineString;
+  maneuver: {
+    type: string;
+    modifier?: string;
+    location: [number, number];
+    exit?: number;
+  };
+}
+
+interface OsrmRouteResponse {
+  code: string;
+  message?: string;
+  routes?: Array<{
+    geometry: GeoJSON.LineString;
+    distance: number;
+    duration: number;
+    legs: Array<{ steps: OsrmStep[] }>;
+  }>;
+}
+
+interface OsrmTableResponse {
+  code: string;
+  message?: string;
+  distances?: (number | null)[][];
+  durations?: (number | null)[][];
+}
+
+function ordinal(value: number): string {
+  const suffixes: Record<number, string> = { 1: 'st', 2: 'nd', 3: 'rd' };
+  const lastTwo = value % 100;
+  return `${value}${lastTwo >= 11 && lastTwo <= 13 ? 'th' : suffixes[value % 10] ?? 'th'}`;
+}
+
+/**
+ * OSRM returns maneuvers without text, so build instructions in the style of
+ * Mapbox's ("Turn left onto Main Street")
+ */
+export function buildOsrmInstruction(step: OsrmStep): string {
+  const { type, modifier, exit } = step.maneuver;
+  const onto = step.name ? ` onto ${step.name}` : '';
+  const direction = modifier ? ` ${modifier}` : '';
+
+  switch (type) {
+    case 'depart':
+      return step.name ? `Head along ${step.name}` : 'Depart';
+    case 'arrive':
+      return 'You have arrived at your destination';
+    case 'roundabout':
+    case 'rotary':
+      return exit
+        ? `Enter the roundabout and take the ${ordinal(exit)} exit${onto}`
+        : `Enter the roundabout${onto}`;
+    case 'merge':
+      return `Merge${direction}${onto}`;
+    case 'on ramp':
+      return `Take the ramp${direction}${onto}`;
+    case 'off ramp':
+      return `Take the exit${direction}${onto}`;
+    case 'fork':
+      return `Keep${direction} at the fork${onto}`;
+    case 'continue':
+    case 'new name':
+      return `Continue${onto}`;
+    default:
+      if (modifier === 'straight') {
+        return `Continue straight${onto}`;
+      }
+      return `Turn${direction}${onto}`;
+  }
+}
+
+export class OsrmRoutingProvider implements RoutingProvider {
+  readonly name = 'osrm';
+  readonly usesRoadNetwork = true;
+  readonly maxMatrixCoordinates: number;
+  private readonly baseUrl: string;
+  private readonly profile: string;
+
+  constructor(baseUrl: string, options: OsrmRoutingOptions = {}) {
+    if (!baseUrl) {
+      throw new Error('OSRM routing requires a server URL (VITE_ROUTING_URL)');
+    }
+    this.baseUrl = baseUrl.replace(/\/+$/, '');
+    this.profile = options.profile ?? 'driving';
+    this.maxMatrixCoordinates = options.maxMatrixCoordinates ?? DEFAULT_MAX_MATRIX_COORDINATES;
+  }
+
+  async getDirections(coordinates: [number, number][]): Promise<DirectionsResult> {
+    assertRoutable(coordinates);
+
+    const coords = coordinates.map(c => c.join(',')).join(';');
+    const params = new URLSearchParams({
+      geometries: 'geojson',
+      steps: 'true',
+      overview: 'full',
+    });
+
+    const response = await fetch(`${this.baseUrl}/route/v1/${this.profile}/${coords}?${params}`);
+    const data: OsrmRouteResponse = await response.json();
+
+    if (!response.ok || data.code !== 'Ok') {
+      throw new Error(data.message || 'Failed to get directions');
+    }
+
+    if (!data.routes || data.routes.length === 0) {
+      throw new Error('No route found');
+    }
+
+    const route = data.routes[0];
+    const steps: NavigationStep[] = route.legs.flatMap(leg =>
+      leg.steps.map(step => ({
+        instruction: buildOsrmInstruction(step),
+        distance: step.distance,
+        duration: step.duration,
+        geometry: step.geometry,
+        maneuver: {
+          type: step.maneuver.type,
+          modifier: step.maneuver.modifier,
+          location: step.maneuver.location,
+        },
+      }))
+    );
+
+    return {
+      geometry: route.geometry,
+      distance: route.distance,
+      duration: route.duration,
+      steps,
+    };
+  }
+
+  async getTravelMatrix(coordinates: [number, number][]): Promise<TravelMatrixResult> {
+    assertMatrixSize(coordinates, this.maxMatrixCoordinates);
+
+    const coords = coordinates.map(c => c.join(',')).join(';');
+    const params = new URLSearchParams({ annotations: 'distance,duration' });
+
+    const response = await fetch(`${this.baseUrl}/table/v1/${this.profile}/${coords}?${params}`);
+    const data: OsrmTableResponse = await response.json();
+
+    if (!response.ok || data.code !== 'Ok' || !data.distances || !data.durations) {
+      throw new Error(data.message || 'Failed to get travel matrix');
+    }
+
+    return {
+      distances: data.distances,
+      durations: data.durations,
+    };
+  }
+}
@@ -0,0 +1,23 @@
+/**
+ * Helpers shared by the routing and geocoding providers
+ */
+
+export function assertRoutable(coordinates: [number, number][]): void {
+  if (coordinates.length < 2) {
+    throw new Error('At least 2 waypoints required');
+  }
+}
+
+export function assertMatrixSize(coordinates: [number, number][], max: number): void {
+  assertRoutable(coordinates);
+  if (coordinates.length > max) {
+    throw new Error(`Travel matrix supports at most ${max} locations`);
+  }
+}
+
+/**
+ * Fallback label for a coordinate with no address
+ */
+export function formatCoordinates(coordinates: [number, number]): string {
+  return `${coordinates[1].toFixed(4)}, ${coordinates[0].toFixed(4)}`;
+}
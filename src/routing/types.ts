@@ -0,0 +1,58 @@
+import type { GeoJSON, NavigationStep } from '../types';
+
+export interface GeocodingResult {
+  id: string;
+  place_name: string;
+  center: [number, number]; // [lng, lat]
+  context?: Array<{
+    id: string;
+    text: string;
+  }>;
+}
+
+export interface DirectionsResult {
+  geometry: GeoJSON.LineString;
+  distance: number; // meters
+  duration: number; // seconds
+  steps: NavigationStep[];
+}
+
+export interface TravelMatrixResult {
+  /** Meters between each pair of coordinates; null where no route exists */
+  distances: (number | null)[][];
+  /** Seconds between each pair of coordinates; null where no route exists */
+  durations: (number | null)[][];
+}
+
+/**
+ * Turn-by-turn routing between coordinates
+ */
+export interface RoutingProvider {
+  /** Short identifier for logs and diagnostics (e.g. "mapbox", "osrm") */
+  readonly name: string;
+
+  /** Whether results follow the road network (false for straight-line estimates) */
+  readonly usesRoadNetwork: boolean;
+
+  /** Maximum coordinates per travel matrix request */
+  readonly maxMatrixCoordinates: number;
+
+  /** Driving route visiting the coordinates in order */
+  getDirections(coordinates: [number, number][]): Promise<DirectionsResult>;
+
+  /** Driving distance and time between every pair of coordinates */
+  getTravelMatrix(coordinates: [number, number][]): Promise<TravelMatrixResult>;
+}
+
+/**
+ * Address search and reverse geocoding
+ */
+export interface GeocodingProvider {
+  readonly name: string;
+
+  /** Search for addresses, biased towards `proximity` when given */
+  searchAddress(query: string, proximity?: [number, number]): Promise<GeocodingResult[]>;
+
+  /** Address for a coordinate, or a formatted "lat, lng" when none is found */
+  reverseGeocode(coordinates: [number, number]): Promise<string>;
+}
@@ -1,21 +1,27 @@
 import { TableClient } from '@azure/data-tables';
-import type { Route } from '../types';
+import type { BrigadeEvent, Route, RouteRevision, RouteTemplate } from '../types';
 import type { IStorageAdapter, Brigade } from './types';
 import type { User } from '../types/user';
 import type { BrigadeMembership } from '../types/membership';
 import type { MemberInvitation } from '../types/invitation';
 import type { AdminVerificationRequest } from '../types/verification';
+import { applyRouteTransition } from '../utils/routeStatus';
+import type { RouteTransition } from '../utils/routeStatus';
+import { applyRouteSnapshot, canRestoreRevision, createRouteRevision } from '../utils/routeRevisions';
 
 /**
  * Azure Table Storage implementation of the storage adapter.
  * Used in production mode (VITE_DEV_MODE=false) or dev mode with Azure credentials.
  * 
  * Table naming:
- * - Production: 'routes', 'brigades', 'users', 'memberships', 'invitations', 'verifications'
- * - Dev mode: 'devroutes', 'devbrigades', 'devusers', 'devmemberships', 'devinvitations', 'devverifications'
+ * - Production: 'routes', 'routerevisions', 'routetemplates', 'events', 'brigades', 'users', 'memberships', 'invitations', 'verifications'
+ * - Dev mode: 'devroutes', 'devrouterevisions', 'devroutetemplates', 'devevents', 'devbrigades', 'devusers', 'devmemberships', 'devinvitations', 'devverifications'
  */
 export class AzureTableStorageAdapter implements IStorageAdapter {
   private routesClient: TableClient;
+  private revisionsClient: TableClient;
+  private templatesClient: TableClient;
+  private eventsClient: TableClient;
   private brigadesClient: TableClient;
   private usersClient: TableClient;
   private membershipsClient: TableClient;
@@ -33,6 +39,9 @@ export class AzureTableStorageAdapter implements IStorageAdapter {
     }
 
     const routesTableName = tablePrefix ? `${tablePrefix}routes` : 'routes';
+    const revisionsTableName = tablePrefix ? `${tablePrefix}routerevisions` : 'routerevisions';
+    const templatesTableName = tablePrefix ? `${tablePrefix}routetemplates` : 'routetemplates';
+    const eventsTableName = tablePrefix ? `${tablePrefix}events` : 'events';
     const brigadesTableName = tablePrefix ? `${tablePrefix}brigades` : 'brigades';
     const usersTableName = tablePrefix ? `${tablePrefix}users` : 'users';
     const membershipsTableName = tablePrefix ? `${tablePrefix}memberships` : 'memberships';
@@ -40,6 +49,9 @@ export class AzureTableStorageAdapter implements IStorageAdapter {
     const verificationsTableName = tablePrefix ? `${tablePrefix}verifications` : 'verifications';
     
     this.routesClient = TableClient.fromConnectionString(connectionString, routesTableName);
+    this.revisionsClient = TableClient.fromConnectionString(connectionString, revisionsTableName);
+    this.templatesClient = TableClient.fromConnectionString(connectionString, templatesTableName);
+    this.eventsClient = TableClient.fromConnectionString(connectionString, eventsTableName);
     this.brigadesClient = TableClient.fromConnectionString(connectionString, brigadesTableName);
     this.usersClient = TableClient.fromConnectionString(connectionString, usersTableName);
     this.membershipsClient = TableClient.fromConnectionString(connectionString, membershipsTableName);
@@ -55,6 +67,9 @@ export class AzureTableStorageAdapter implements IStorageAdapter {
   private async initializeTables(): Promise<void> {
     const clients = [
       this.routesClient,
+      this.revisionsClient,
+      this.templatesClient,
+      this.eventsClient,
       this.brigadesClient,
       this.usersClient,
       this.membershipsClient,
@@ -76,11 +91,15 @@ export class AzureTableStorageAdapter implements IStorageAdapter {
   }
 
   async saveRoute(brigadeId: string, route: Route): Promise<void> {
+    // The version is the entity's ETag, not a stored property
+    // eslint-disable-next-line @typescript-eslint/no-unused-vars
+    const { version, ...routeData } = route;
     const entity = {
       partitionKey: brigadeId,
       rowKey: route.id,
-      ...route,
+      ...routeData,
     };
+    const previous = await this.getRoute(brigadeId, route.id);
     
     try {
       await this.routesClient.upsertEntity(entity, 'Replace');
@@ -88,6 +107,8 @@ export class AzureTableStorageAdapter implements IStorageAdapter {
       console.error('Failed to save route to Azure Table Storage:', error);
       throw new Error('Failed to save route');
     }
+
+    await this.recordRevision(createRouteRevision(previous, route, new Date()));
   }
 
   async getRoutes(brigadeId: string): Promise<Route[]> {
@@ -100,7 +121,7 @@ export class AzureTableStorageAdapter implements IStorageAdapter {
       for await (const entity of entities) {
         // eslint-disable-next-line @typescript-eslint/no-unused-vars
         const { partitionKey, rowKey, timestamp, etag, ...routeData } = entity;
-        routes.push(routeData as unknown as Route);
+        routes.push({ ...routeData, version: etag } as unknown as Route);
       }
       
       return routes;
@@ -115,7 +136,7 @@ export class AzureTableStorageAdapter implements IStorageAdapter {
       const entity = await this.routesClient.getEntity(brigadeId, routeId);
       // eslint-disable-next-line @typescript-eslint/no-unused-vars
       const { partitionKey, rowKey, timestamp, etag, ...routeData } = entity;
-      return routeData as unknown as Route;
+      return { ...routeData, version: etag } as unknown as Route;
     } catch (error: unknown) {
       const err = error as { statusCode?: number };
       if (err.statusCode === 404) {
@@ -138,6 +159,229 @@ export class AzureTableStorageAdapter implements IStorageAdapter {
       console.error('Failed to delete route from Azure Table Storage:', error);
       throw new Error('Failed to delete route');
     }
+
+    // Drop the route's history with it (best-effort)
+    try {
+      const revisions = this.revisionsClient.listEntities({
+        queryOptions: { filter: `PartitionKey eq '${routeId}'` }
+      });
+      for await (const revision of revisions) {
+        await this.revisionsClient.deleteEntity(routeId, revision.rowKey!);
+      }
+    } catch (error) {
+      console.error('Failed to delete route revisions from Azure Table Storage:', error);
+    }
+  }
+
+  async transitionRoute(brigadeId: string, routeId: string, transition: RouteTransition): Promise<Route> {
+    const route = await this.getRoute(brigadeId, routeId);
+    if (!route) {
+      throw new Error('Route not found');
+    }
+
+    const updated = applyRouteTransition(route, transition, new Date());
+    await this.saveRoute(brigadeId, updated);
+    return updated;
+  }
+
+  /**
+   * Append a revision to the route's history (best-effort: the save has already happened)
+   */
+  private async recordRevision(revision: RouteRevision | null): Promise<void> {
+    if (!revision) return;
+    const { snapshot, ...revisionData } = revision;
+    try {
+      await this.revisionsClient.createEntity({
+        partitionKey: revision.routeId,
+        rowKey: revision.id,
+        ...revisionData,
+        snapshot: JSON.stringify(snapshot),
+      });
+    } catch (error) {
+      console.error('Failed to record route revision in Azure Table Storage:', error);
+    }
+  }
+
+  async getRouteRevisions(brigadeId: string, routeId: string): Promise<RouteRevision[]> {
+    try {
+      const revisions: RouteRevision[] = [];
+      const entities = this.revisionsClient.listEntities({
+        queryOptions: { filter: `PartitionKey eq '${routeId}' and brigadeId eq '${brigadeId}'` }
+      });
+
+      for await (const entity of entities) {
+        // eslint-disable-next-line @typescript-eslint/no-unused-vars
+        const { partitionKey, rowKey, timestamp, etag, snapshot, ...revisionData } = entity;
+        revisions.push(revisionData as unknown as RouteRevision);
+      }
+
+      return revisions.sort((a, b) => b.savedAt.localeCompare(a.savedAt));
+    } catch (error) {
+      console.error('Failed to get route revisions from Azure Table Storage:', error);
+      return [];
+    }
+  }
+
+  async getRouteRevision(brigadeId: string, routeId: string, revisionId: string): Promise<RouteRevision | null> {
+    try {
+      const entity = await this.revisionsClient.getEntity(routeId, revisionId);
+      // eslint-disable-next-line @typescript-eslint/no-unused-vars
+      const { partitionKey, rowKey, timestamp, etag, snapshot, ...revisionData } = entity;
+      if (revisionData.brigadeId !== brigadeId) {
+        return null;
+      }
+      return { ...revisionData, snapshot: JSON.parse(snapshot as string) } as unknown as RouteRevision;
+    } catch (error: unknown) {
+      const err = error as { statusCode?: number };
+      if (err.statusCode === 404) {
+        return null;
+      }
+      console.error('Failed to get route revision from Azure Table Storage:', error);
+      throw new Error('Failed to get route revision');
+    }
+  }
+
+  async restoreRouteRevision(brigadeId: string, routeId: string, revisionId: string): Promise<Route> {
+    const route = await this.getRoute(brigadeId, routeId);
+    if (!route) {
+      throw new Error('Route not found');
+    }
+    if (!canRestoreRevision(route)) {
+      throw new Error(`The plan of a ${route.status} route can't be changed; only draft and published routes can be restored`);
+    }
+    const revision = await this.getRouteRevision(brigadeId, routeId, revisionId);
+    if (!revision?.snapshot) {
+      throw new Error('Revision not found');
+    }
+
+    const restored = applyRouteSnapshot(route, revision.snapshot);
+    // eslint-disable-next-line @typescript-eslint/no-unused-vars
+    const { version, ...routeData } = restored;
+    try {
+      await this.routesClient.upsertEntity({ partitionKey: brigadeId, rowKey: routeId, ...routeData }, 'Replace');
+    } catch (error) {
+      console.error('Failed to restore route in Azure Table Storage:', error);
+      throw new Error('Failed to restore route');
+    }
+
+    await this.recordRevision(createRouteRevision(route, restored, new Date(), {}, revisionId));
+    return (await this.getRoute(brigadeId, routeId)) ?? restored;
+  }
+
+  async saveRouteTemplate(brigadeId: string, template: RouteTemplate): Promise<void> {
+    const entity = {
+      partitionKey: brigadeId,
+      rowKey: template.id,
+      ...template,
+    };
+    
+    try {
+      await this.templatesClient.upsertEntity(entity, 'Replace');
+    } catch (error) {
+      console.error('Failed to save route template to Azure Table Storage:', error);
+      throw new Error('Failed to save route template');
+    }
+  }
+
+  async getRouteTemplates(brigadeId: string): Promise<RouteTemplate[]> {
+    try {
+      const templates: RouteTemplate[] = [];
+      const entities = this.templatesClient.listEntities({
+        queryOptions: { filter: `PartitionKey eq '${brigadeId}'` }
+      });
+      
+      for await (const entity of entities) {
+        // eslint-disable-next-line @typescript-eslint/no-unused-vars
+        const { partitionKey, rowKey, timestamp, etag, ...templateData } = entity;
+        templates.push(templateData as unknown as RouteTemplate);
+      }
+      
+      return templates;
+    } catch (error) {
+      console.error('Failed to get route templates from Azure Table Storage:', error);
+      return [];
+    }
+  }
+
+  async deleteRouteTemplate(brigadeId: string, templateId: string): Promise<void> {
+    try {
+      await this.templatesClient.deleteEntity(brigadeId, templateId);
+    } catch (error: unknown) {
+      const err = error as { statusCode?: number };
+      if (err.statusCode === 404) {
+        return;
+      }
+      console.error('Failed to delete route template from Azure Table Storage:', error);
+      throw new Error('Failed to delete route template');
+    }
+  }
+
+  async saveEvent(brigadeId: string, event: BrigadeEvent): Promise<void> {
+    const entity = {
+      partitionKey: brigadeId,
+      rowKey: event.id,
+      ...event,
+    };
+    
+    try {
+      await this.eventsClient.upsertEntity(entity, 'Replace');
+    } catch (error) {
+      console.error('Failed to save event to Azure Table Storage:', error);
+      throw new Error('Failed to save event');
+    }
+  }
+
+  async getEvents(brigadeId: string): Promise<BrigadeEvent[]> {
+    try {
+      const events: BrigadeEvent[] = [];
+      const entities = this.eventsClient.listEntities({
+        queryOptions: { filter: `PartitionKey eq '${brigadeId}'` }
+      });
+      
+      for await (const entity of entities) {
+        // eslint-disable-next-line @typescript-eslint/no-unused-vars
+        const { partitionKey, rowKey, timestamp, etag, ...eventData } = entity;
+        events.push(eventData as unknown as BrigadeEvent);
+      }
+      
+      return events;
+    } catch (error) {
+      console.error('Failed to get events from Azure Table Storage:', error);
+      return [];
+    }
+  }
+
+  async getEvent(eventId: string): Promise<BrigadeEvent | null> {
+    try {
+      // Event IDs are unique across brigades, so look up by RowKey alone
+      const entities = this.eventsClient.listEntities({
+        queryOptions: { filter: `RowKey eq '${eventId}'` }
+      });
+      
+      for await (const entity of entities) {
+        // eslint-disable-next-line @typescript-eslint/no-unused-vars
+        const { partitionKey, rowKey, timestamp, etag, ...eventData } = entity;
+        return eventData as unknown as BrigadeEvent;
+      }
+      
+      return null;
+    } catch (error) {
+      console.error('Failed to get event from Azure Table Storage:', error);
+      throw new Error('Failed to get event');
+    }
+  }
+
+  async deleteEvent(brigadeId: string, eventId: string): Promise<void> {
+    try {
+      await this.eventsClient.deleteEntity(brigadeId, eventId);
+    } catch (error: unknown) {
+      const err = error as { statusCode?: number };
+      if (err.statusCode === 404) {
+        return;
+      }
+      console.error('Failed to delete event from Azure Table Storage:', error);
+      throw new Error('Failed to delete event');
+    }
   }
 
   async getBrigade(brigadeId: string): Promise<Brigade | null> {
@@ -179,6 +423,27 @@ export class AzureTableStorageAdapter implements IStorageAdapter {
     }
   }
 
+  async getBrigadeBySlug(slug: string): Promise<Brigade | null> {
+    try {
+      const queryResults = this.brigadesClient.listEntities({
+        queryOptions: {
+          filter: `slug eq '${slug}'`,
+        },
+      });
+      
+      for await (const entity of queryResults) {
+        // eslint-disable-next-line @typescript-eslint/no-unused-vars
+        const { partitionKey, rowKey, timestamp, etag, ...brigadeData } = entity;
+        return brigadeData as unknown as Brigade;
+      }
+      
+      return null;
+    } catch (error) {
+      console.error('Failed to query brigade by slug from Azure Table Storage:', error);
+      throw new Error('Failed to query brigade by slug');
+    }
+  }
+
   async saveBrigade(brigade: Brigade): Promise<void> {
     const entity = {
       partitionKey: 'brigades',
@@ -1,4 +1,4 @@
-import type { Route } from '../types';
+import type { BrigadeEvent, Route, RouteRevision, RouteTemplate } from '../types';
 import type { IStorageAdapter, Brigade } from './types';
 import type { User } from '../types/user';
 import type { BrigadeMembership } from '../types/membership';
@@ -6,9 +6,13 @@ import type { MemberInvitation } from '../types/invitation';
 import type { AdminVerificationRequest } from '../types/verification';
 import type { PublicClientApplication } from '@azure/msal-browser';
 import { tokenRequest } from '../auth/msalConfig';
+import { RouteTransitionError } from '../utils/routeStatus';
+import type { RouteTransition, RouteTransitionErrorCode } from '../utils/routeStatus';
+import { RouteConflictError } from '../utils/routeVersion';
 
 // Access token helper for API calls in production mode.
-async function getAccessToken(): Promise<string | null> {
+// Also used by the real-time hooks to authenticate broadcaster requests.
+export async function getAccessToken(): Promise<string | null> {
   const isDevMode = import.meta.env.VITE_DEV_MODE === 'true';
   const clientId = import.meta.env.VITE_ENTRA_CLIENT_ID;
   
@@ -106,6 +110,19 @@ async function getAccessToken(): Promise<string | null> {
   }
 }
 
+/**
+ * A request the API answered with an error status
+ */
+export class HttpStatusError extends Error {
+  readonly status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.name = 'HttpStatusError';
+    this.status = status;
+  }
+}
+
 /**
  * HTTP API storage adapter for production mode.
  * Calls Azure Functions API endpoints instead of directly accessing Azure Table Storage.
@@ -150,9 +167,24 @@ export class HttpStorageAdapter implements IStorageAdapter {
     return token ? { Authorization: `Bearer ${token}` } : {};
   }
 
+  /**
+   * Auth headers for reads anyone may make, sent only when someone is signed in
+   * (so brigade members also get their drafts, while anonymous viewers skip MSAL)
+   */
+  private async getOptionalAuthHeaders(): Promise<HeadersInit> {
+    const msalInstance = (window as unknown as { __msalInstance?: PublicClientApplication }).__msalInstance;
+    if (import.meta.env.VITE_DEV_MODE === 'true' || !msalInstance?.getActiveAccount()) {
+      return {};
+    }
+    const token = await getAccessToken();
+    return token ? { Authorization: `Bearer ${token}` } : {};
+  }
+
   // Routes
   async getRoutes(brigadeId: string): Promise<Route[]> {
-    const response = await fetch(`${this.apiBaseUrl}/routes?brigadeId=${encodeURIComponent(brigadeId)}`);
+    const response = await fetch(`${this.apiBaseUrl}/routes?brigadeId=${encodeURIComponent(brigadeId)}`, {
+      headers: await this.getOptionalAuthHeaders(),
+    });
     if (!response.ok) {
       throw new Error(`Failed to fetch routes: ${response.statusText}`);
     }
@@ -160,7 +192,9 @@ export class HttpStorageAdapter implements IStorageAdapter {
   }
 
   async getRoute(brigadeId: string, routeId: string): Promise<Route | null> {
-    const response = await fetch(`${this.apiBaseUrl}/routes/${encodeURIComponent(routeId)}?brigadeId=${encodeURIComponent(brigadeId)}`);
+    const response = await fetch(`${this.apiBaseUrl}/routes/${encodeURIComponent(routeId)}?brigadeId=${encodeURIComponent(brigadeId)}`, {
+      headers: await this.getOptionalAuthHeaders(),
+    });
     if (response.status === 404) {
       return null;
     }
@@ -175,15 +209,25 @@ export class HttpStorageAdapter implements IStorageAdapter {
     const existingRoute = await this.getRoute(brigadeId, route.id);
     
     if (existingRoute) {
-      // Update
+      // Update, conditional on the version the route was loaded at (or the one just read, if it has none)
+      const version = route.version ?? existingRoute.version;
+      if (!version) {
+        throw new Error('Failed to update route: the saved route has no version');
+      }
       const authHeaders = await this.getAuthHeaders();
       const response = await fetch(`${this.apiBaseUrl}/routes/${encodeURIComponent(route.id)}`, {
         method: 'PUT',
-        headers: { 'Content-Type': 'application/json', ...authHeaders },
+        headers: { 'Content-Type': 'application/json', 'If-Match': version, ...authHeaders },
         body: JSON.stringify(route),
       });
+      if (response.status === 409 || response.status === 412) {
+        const body = await response.json().catch(() => null) as { current?: Route; message?: string } | null;
+        if (body?.current) {
+          throw new RouteConflictError(body.current, body.message);
+        }
+      }
       if (!response.ok) {
-        throw new Error(`Failed to update route: ${response.statusText}`);
+        throw new HttpStatusError(response.status, `Failed to update route: ${response.statusText}`);
       }
     } else {
       // Create
@@ -194,7 +238,7 @@ export class HttpStorageAdapter implements IStorageAdapter {
         body: JSON.stringify(route),
       });
       if (!response.ok) {
-        throw new Error(`Failed to create route: ${response.statusText}`);
+        throw new HttpStatusError(response.status, `Failed to create route: ${response.statusText}`);
       }
     }
   }
@@ -210,6 +254,153 @@ export class HttpStorageAdapter implements IStorageAdapter {
     }
   }
 
+  async transitionRoute(brigadeId: string, routeId: string, transition: RouteTransition): Promise<Route> {
+    const authHeaders = await this.getAuthHeaders();
+    const response = await fetch(
+      `${this.apiBaseUrl}/routes/${encodeURIComponent(routeId)}/${transition}?brigadeId=${encodeURIComponent(brigadeId)}`,
+      {
+        method: 'POST',
+        headers: { ...authHeaders },
+      }
+    );
+    if (!response.ok) {
+      const body = await response.json().catch(() => null) as { code?: RouteTransitionErrorCode | 'VERSION_CONFLICT'; message?: string; current?: Route } | null;
+      if (response.status === 412 && body?.current) {
+        throw new RouteConflictError(body.current, body.message);
+      }
+      if (body?.code && body.code !== 'VERSION_CONFLICT') {
+        throw new RouteTransitionError(body.code, body.message || `Failed to ${transition} route`);
+      }
+      throw new Error(`Failed to ${transition} route: ${response.statusText}`);
+    }
+    return await this.parseJsonResponse(response);
+  }
+
+  // Route history
+  async getRouteRevisions(brigadeId: string, routeId: string): Promise<RouteRevision[]> {
+    const authHeaders = await this.getAuthHeaders();
+    const response = await fetch(
+      `${this.apiBaseUrl}/routes/${encodeURIComponent(routeId)}/revisions?brigadeId=${encodeURIComponent(brigadeId)}`,
+      { headers: { ...authHeaders } }
+    );
+    if (!response.ok) {
+      throw new Error(`Failed to fetch route history: ${response.statusText}`);
+    }
+    return await this.parseJsonResponse(response);
+  }
+
+  async getRouteRevision(brigadeId: string, routeId: string, revisionId: string): Promise<RouteRevision | null> {
+    const authHeaders = await this.getAuthHeaders();
+    const response = await fetch(
+      `${this.apiBaseUrl}/routes/${encodeURIComponent(routeId)}/revisions/${encodeURIComponent(revisionId)}?brigadeId=${encodeURIComponent(brigadeId)}`,
+      { headers: { ...authHeaders } }
+    );
+    if (response.status === 404) {
+      return null;
+    }
+    if (!response.ok) {
+      throw new Error(`Failed to fetch route revision: ${response.statusText}`);
+    }
+    return await this.parseJsonResponse(response);
+  }
+
+  async restoreRouteRevision(brigadeId: string, routeId: string, revisionId: string): Promise<Route> {
+    const authHeaders = await this.getAuthHeaders();
+    const response = await fetch(
+      `${this.apiBaseUrl}/routes/${encodeURIComponent(routeId)}/revisions/${encodeURIComponent(revisionId)}/restore?brigadeId=${encodeURIComponent(brigadeId)}`,
+      {
+        method: 'POST',
+        headers: { ...authHeaders },
+      }
+    );
+    if (!response.ok) {
+      const body = await response.json().catch(() => null) as { current?: Route; message?: string } | null;
+      if (response.status === 412 && body?.current) {
+        throw new RouteConflictError(body.current, body.message);
+      }
+      throw new Error(body?.message || `Failed to restore route revision: ${response.statusText}`);
+    }
+    return await this.parseJsonResponse(response);
+  }
+
+  // Route templates
+  async getRouteTemplates(brigadeId: string): Promise<RouteTemplate[]> {
+    const authHeaders = await this.getAuthHeaders();
+    const response = await fetch(`${this.apiBaseUrl}/templates?brigadeId=${encodeURIComponent(brigadeId)}`, {
+      headers: { ...authHeaders },
+    });
+    if (!response.ok) {
+      throw new Error(`Failed to fetch route templates: ${response.statusText}`);
+    }
+    return await this.parseJsonResponse(response);
+  }
+
+  async saveRouteTemplate(brigadeId: string, template: RouteTemplate): Promise<void> {
+    const authHeaders = await this.getAuthHeaders();
+    const response = await fetch(`${this.apiBaseUrl}/templates/${encodeURIComponent(template.id)}`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json', ...authHeaders },
+      body: JSON.stringify({ ...template, brigadeId }),
+    });
+    if (!response.ok) {
+      throw new Error(`Failed to save route template: ${response.statusText}`);
+    }
+  }
+
+  async deleteRouteTemplate(brigadeId: string, templateId: string): Promise<void> {
+    const authHeaders = await this.getAuthHeaders();
+    const response = await fetch(`${this.apiBaseUrl}/templates/${encodeURIComponent(templateId)}?brigadeId=${encodeURIComponent(brigadeId)}`, {
+      method: 'DELETE',
+      headers: { ...authHeaders },
+    });
+    if (!response.ok && response.status !== 404) {
+      throw new Error(`Failed to delete route template: ${response.statusText}`);
+    }
+  }
+
+  // Events
+  async getEvents(brigadeId: string): Promise<BrigadeEvent[]> {
+    const response = await fetch(`${this.apiBaseUrl}/events?brigadeId=${encodeURIComponent(brigadeId)}`);
+    if (!response.ok) {
+      throw new Error(`Failed to fetch events: ${response.statusText}`);
+    }
+    return await this.parseJsonResponse(response);
+  }
+
+  async getEvent(eventId: string): Promise<BrigadeEvent | null> {
+    const response = await fetch(`${this.apiBaseUrl}/events/${encodeURIComponent(eventId)}`);
+    if (response.status === 404) {
+      return null;
+    }
+    if (!response.ok) {
+      throw new Error(`Failed to fetch event: ${response.statusText}`);
+    }
+    return await this.parseJsonResponse(response);
+  }
+
+  async saveEvent(brigadeId: string, event: BrigadeEvent): Promise<void> {
+    const authHeaders = await this.getAuthHeaders();
+    const response = await fetch(`${this.apiBaseUrl}/events/${encodeURIComponent(event.id)}`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json', ...authHeaders },
+      body: JSON.stringify({ ...event, brigadeId }),
+    });
+    if (!response.ok) {
+      throw new Error(`Failed to save event: ${response.statusText}`);
+    }
+  }
+
+  async deleteEvent(brigadeId: string, eventId: string): Promise<void> {
+    const authHeaders = await this.getAuthHeaders();
+    const response = await fetch(`${this.apiBaseUrl}/events/${encodeURIComponent(eventId)}?brigadeId=${encodeURIComponent(brigadeId)}`, {
+      method: 'DELETE',
+      headers: { ...authHeaders },
+    });
+    if (!response.ok && response.status !== 404) {
+      throw new Error(`Failed to delete event: ${response.statusText}`);
+    }
+  }
+
   // Brigades
   async getBrigades(): Promise<Brigade[]> {
     const response = await fetch(`${this.apiBaseUrl}/brigades`);
@@ -241,6 +432,17 @@ export class HttpStorageAdapter implements IStorageAdapter {
     return await this.parseJsonResponse(response);
   }
 
+  async getBrigadeBySlug(slug: string): Promise<Brigade | null> {
+    const response = await fetch(`${this.apiBaseUrl}/brigades/slug/${encodeURIComponent(slug)}`);
+    if (response.status === 404) {
+      return null;
+    }
+    if (!response.ok) {
+      throw new Error(`Failed to fetch brigade by slug: ${response.statusText}`);
+    }
+    return await this.parseJsonResponse(response);
+  }
+
   async saveBrigade(brigade: Brigade): Promise<void> {
     const existingBrigade = await this.getBrigade(brigade.id);
     
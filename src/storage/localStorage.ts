@@ -1,9 +1,17 @@
-import type { Route } from '../types';
+import type { BrigadeEvent, Route, RouteRevision, RouteTemplate } from '../types';
 import type { IStorageAdapter, Brigade } from './types';
 import type { User } from '../types/user';
 import type { BrigadeMembership } from '../types/membership';
 import type { MemberInvitation } from '../types/invitation';
 import type { AdminVerificationRequest } from '../types/verification';
+import { mergeWaypointCompletions } from '../utils/vehicles';
+import { applyRouteTransition } from '../utils/routeStatus';
+import type { RouteTransition } from '../utils/routeStatus';
+import { RouteConflictError, isVersionCheckedEdit } from '../utils/routeVersion';
+import { applyRouteSnapshot, canRestoreRevision, createRouteRevision } from '../utils/routeRevisions';
+
+// Dev mode always runs as AuthContext's mock user
+const DEV_AUTHOR = { id: 'dev-user-1', name: 'Development User' };
 
 /**
  * LocalStorage implementation of the storage adapter.
@@ -11,7 +19,7 @@ import type { AdminVerificationRequest } from '../types/verification';
  * Data is stored in browser localStorage with brigade namespacing.
  */
 export class LocalStorageAdapter implements IStorageAdapter {
-  private getStorageKey(brigadeId: string, type: 'routes' | 'brigade'): string {
+  private getStorageKey(brigadeId: string, type: 'routes' | 'revisions' | 'templates' | 'events' | 'brigade'): string {
     return `santa_${brigadeId}_${type}`;
   }
 
@@ -22,15 +30,29 @@ export class LocalStorageAdapter implements IStorageAdapter {
   async saveRoute(brigadeId: string, route: Route): Promise<void> {
     const routes = await this.getRoutes(brigadeId);
     const existingIndex = routes.findIndex(r => r.id === route.id);
+    const existing = existingIndex >= 0 ? routes[existingIndex] : null;
+    let stored: Route;
     
-    if (existingIndex >= 0) {
-      routes[existingIndex] = route;
+    if (existing) {
+      // Mirror the API's If-Match check so edit conflicts can be tried out in dev mode
+      if (route.version && existing.version && route.version !== existing.version &&
+        isVersionCheckedEdit(existing.status, route.status)) {
+        throw new RouteConflictError(existing);
+      }
+      // Mirror the API: navigator saves mid-run never un-complete another vehicle's stops
+      const saved = existing.status === 'active' && (route.status === 'active' || route.status === 'completed')
+        ? { ...route, waypoints: mergeWaypointCompletions(existing.waypoints, route.waypoints) }
+        : route;
+      stored = { ...saved, version: String(Number(existing.version ?? 0) + 1) };
+      routes[existingIndex] = stored;
     } else {
-      routes.push(route);
+      stored = { ...route, version: '1' };
+      routes.push(stored);
     }
     
     const key = this.getStorageKey(brigadeId, 'routes');
     localStorage.setItem(key, JSON.stringify(routes));
+    this.recordRevision(brigadeId, createRouteRevision(existing, stored, new Date(), DEV_AUTHOR));
   }
 
   async getRoutes(brigadeId: string): Promise<Route[]> {
@@ -50,6 +72,133 @@ export class LocalStorageAdapter implements IStorageAdapter {
     
     const key = this.getStorageKey(brigadeId, 'routes');
     localStorage.setItem(key, JSON.stringify(filtered));
+
+    const revisions = this.getAllRevisions(brigadeId).filter(r => r.routeId !== routeId);
+    localStorage.setItem(this.getStorageKey(brigadeId, 'revisions'), JSON.stringify(revisions));
+  }
+
+  async transitionRoute(brigadeId: string, routeId: string, transition: RouteTransition): Promise<Route> {
+    const route = await this.getRoute(brigadeId, routeId);
+    if (!route) {
+      throw new Error('Route not found');
+    }
+
+    const updated = applyRouteTransition(route, transition, new Date());
+    await this.saveRoute(brigadeId, updated);
+    return updated;
+  }
+
+  private getAllRevisions(brigadeId: string): RouteRevision[] {
+    const stored = localStorage.getItem(this.getStorageKey(brigadeId, 'revisions'));
+    return stored ? JSON.parse(stored) : [];
+  }
+
+  private recordRevision(brigadeId: string, revision: RouteRevision | null): void {
+    if (!revision) return;
+    const revisions = [...this.getAllRevisions(brigadeId), revision];
+    localStorage.setItem(this.getStorageKey(brigadeId, 'revisions'), JSON.stringify(revisions));
+  }
+
+  async getRouteRevisions(brigadeId: string, routeId: string): Promise<RouteRevision[]> {
+    return this.getAllRevisions(brigadeId)
+      .filter(r => r.routeId === routeId)
+      .sort((a, b) => b.savedAt.localeCompare(a.savedAt))
+      // eslint-disable-next-line @typescript-eslint/no-unused-vars
+      .map(({ snapshot, ...revision }) => revision);
+  }
+
+  async getRouteRevision(brigadeId: string, routeId: string, revisionId: string): Promise<RouteRevision | null> {
+    return this.getAllRevisions(brigadeId).find(r => r.routeId === routeId && r.id === revisionId) || null;
+  }
+
+  async restoreRouteRevision(brigadeId: string, routeId: string, revisionId: string): Promise<Route> {
+    const route = await this.getRoute(brigadeId, routeId);
+    if (!route) {
+      throw new Error('Route not found');
+    }
+    // Mirror the API: once a run has started its plan is fixed
+    if (!canRestoreRevision(route)) {
+      throw new Error(`The plan of a ${route.status} route can't be changed; only draft and published routes can be restored`);
+    }
+    const revision = await this.getRouteRevision(brigadeId, routeId, revisionId);
+    if (!revision?.snapshot) {
+      throw new Error('Revision not found');
+    }
+
+    const restored = { ...applyRouteSnapshot(route, revision.snapshot), version: String(Number(route.version ?? 0) + 1) };
+    const routes = (await this.getRoutes(brigadeId)).map(r => r.id === routeId ? restored : r);
+    localStorage.setItem(this.getStorageKey(brigadeId, 'routes'), JSON.stringify(routes));
+    this.recordRevision(brigadeId, createRouteRevision(route, restored, new Date(), DEV_AUTHOR, revisionId));
+    return restored;
+  }
+
+  // Route template operations
+  async saveRouteTemplate(brigadeId: string, template: RouteTemplate): Promise<void> {
+    const templates = await this.getRouteTemplates(brigadeId);
+    const existingIndex = templates.findIndex(t => t.id === template.id);
+    
+    if (existingIndex >= 0) {
+      templates[existingIndex] = template;
+    } else {
+      templates.push(template);
+    }
+    
+    const key = this.getStorageKey(brigadeId, 'templates');
+    localStorage.setItem(key, JSON.stringify(templates));
+  }
+
+  async getRouteTemplates(brigadeId: string): Promise<RouteTemplate[]> {
+    const key = this.getStorageKey(brigadeId, 'templates');
+    const stored = localStorage.getItem(key);
+    return stored ? JSON.parse(stored) : [];
+  }
+
+  async deleteRouteTemplate(brigadeId: string, templateId: string): Promise<void> {
+    const templates = await this.getRouteTemplates(brigadeId);
+    const key = this.getStorageKey(brigadeId, 'templates');
+    localStorage.setItem(key, JSON.stringify(templates.filter(t => t.id !== templateId)));
+  }
+
+  // Event operations
+  async saveEvent(brigadeId: string, event: BrigadeEvent): Promise<void> {
+    const events = await this.getEvents(brigadeId);
+    const existingIndex = events.findIndex(e => e.id === event.id);
+    
+    if (existingIndex >= 0) {
+      events[existingIndex] = event;
+    } else {
+      events.push(event);
+    }
+    
+    const key = this.getStorageKey(brigadeId, 'events');
+    localStorage.setItem(key, JSON.stringify(events));
+  }
+
+  async getEvents(brigadeId: string): Promise<BrigadeEvent[]> {
+    const key = this.getStorageKey(brigadeId, 'events');
+    const stored = localStorage.getItem(key);
+    return stored ? JSON.parse(stored) : [];
+  }
+
+  async getEvent(eventId: string): Promise<BrigadeEvent | null> {
+    // Event links don't carry the brigade, so search every brigade's events
+    const eventKeys = Object.keys(localStorage).filter(k => k.startsWith('santa_') && k.endsWith('_events'));
+    
+    for (const key of eventKeys) {
+      const stored = localStorage.getItem(key);
+      const event = stored ? (JSON.parse(stored) as BrigadeEvent[]).find(e => e.id === eventId) : undefined;
+      if (event) {
+        return event;
+      }
+    }
+    
+    return null;
+  }
+
+  async deleteEvent(brigadeId: string, eventId: string): Promise<void> {
+    const events = await this.getEvents(brigadeId);
+    const key = this.getStorageKey(brigadeId, 'events');
+    localStorage.setItem(key, JSON.stringify(events.filter(e => e.id !== eventId)));
   }
 
   async getBrigade(brigadeId: string): Promise<Brigade | null> {
@@ -77,6 +226,22 @@ export class LocalStorageAdapter implements IStorageAdapter {
     return null;
   }
 
+  async getBrigadeBySlug(slug: string): Promise<Brigade | null> {
+    const brigadeKeys = Object.keys(localStorage).filter(k => k.endsWith('_brigade'));
+    
+    for (const key of brigadeKeys) {
+      const stored = localStorage.getItem(key);
+      if (stored) {
+        const brigade: Brigade = JSON.parse(stored);
+        if (brigade.slug === slug) {
+          return brigade;
+        }
+      }
+    }
+    
+    return null;
+  }
+
   async saveBrigade(brigade: Brigade): Promise<void> {
     const key = this.getStorageKey(brigade.id, 'brigade');
     localStorage.setItem(key, JSON.stringify(brigade));
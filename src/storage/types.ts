@@ -1,4 +1,5 @@
-import type { Route } from '../types';
+import type { BrigadeEvent, Route, RouteRevision, RouteTemplate } from '../types';
+import type { RouteTransition } from '../utils/routeStatus';
 import type { User } from '../types/user';
 import type { BrigadeMembership } from '../types/membership';
 import type { MemberInvitation } from '../types/invitation';
@@ -70,10 +71,31 @@ export interface IStorageAdapter {
   getRoutes(brigadeId: string): Promise<Route[]>;
   getRoute(brigadeId: string, routeId: string): Promise<Route | null>;
   deleteRoute(brigadeId: string, routeId: string): Promise<void>;
+  /** Move a route along its status lifecycle; rejects with RouteTransitionError */
+  transitionRoute(brigadeId: string, routeId: string, transition: RouteTransition): Promise<Route>;
+
+  // Route history (a revision is recorded by each save that changes the plan)
+  /** A route's revisions, newest first, without their snapshots */
+  getRouteRevisions(brigadeId: string, routeId: string): Promise<RouteRevision[]>;
+  getRouteRevision(brigadeId: string, routeId: string, revisionId: string): Promise<RouteRevision | null>;
+  /** Put an earlier revision's plan back on a draft or published route, recorded as a new revision */
+  restoreRouteRevision(brigadeId: string, routeId: string, revisionId: string): Promise<Route>;
+  
+  // Route template operations
+  saveRouteTemplate(brigadeId: string, template: RouteTemplate): Promise<void>;
+  getRouteTemplates(brigadeId: string): Promise<RouteTemplate[]>;
+  deleteRouteTemplate(brigadeId: string, templateId: string): Promise<void>;
+  
+  // Event operations
+  saveEvent(brigadeId: string, event: BrigadeEvent): Promise<void>;
+  getEvents(brigadeId: string): Promise<BrigadeEvent[]>;
+  getEvent(eventId: string): Promise<BrigadeEvent | null>;
+  deleteEvent(brigadeId: string, eventId: string): Promise<void>;
   
   // Brigade operations
   getBrigade(brigadeId: string): Promise<Brigade | null>;
   getBrigadeByRFSId(rfsStationId: string): Promise<Brigade | null>;
+  getBrigadeBySlug(slug: string): Promise<Brigade | null>;
   saveBrigade(brigade: Brigade): Promise<void>;
   
   // User operations
@@ -6,8 +6,37 @@ export interface Waypoint {
   order: number;
   estimatedArrival?: string;
   actualArrival?: string;
+  actualDeparture?: string;       // When the vehicle left the stop's geofence
+  scheduledArrival?: string;      // Target arrival time ("HH:MM", local time on the route date)
+  dwellMinutes?: number;          // Planned time spent at the stop (defaults to the route's)
+  geofenceRadius?: number;        // Meters from the stop that count as arriving (see utils/geofence)
   notes?: string;
   isCompleted: boolean;
+  vehicleId?: string;             // Vehicle assigned to the stop (the route's first vehicle when unset)
+  completedByVehicleId?: string;  // Vehicle that visited the stop
+}
+
+/**
+ * A truck or other appliance on a multi-vehicle Santa run
+ */
+export interface Vehicle {
+  id: string;
+  callsign: string;               // e.g. "Cattai 1"
+  color: string;                  // Hex colour for the vehicle's marker, trail and stops
+  geometry?: GeoJSON.LineString;  // Planned path through the vehicle's stops
+  navigationSteps?: NavigationStep[];
+  distance?: number;              // Planned distance in meters
+  estimatedDuration?: number;     // Planned driving duration in seconds
+}
+
+/**
+ * Planned vs actual arrival at a stop, recorded when a route completes
+ */
+export interface WaypointScheduleResult {
+  waypointId: string;
+  scheduledArrival: string;       // ISO timestamp
+  actualArrival?: string;         // ISO timestamp (missing if the stop was never reached)
+  deviation?: number;             // Seconds late (negative when early)
 }
 
 export type RouteStatus = 'draft' | 'published' | 'active' | 'completed' | 'archived';
@@ -37,8 +66,11 @@ export interface Route {
   geometry?: GeoJSON.LineString;  // Mapbox Directions API route
   navigationSteps?: NavigationStep[]; // Turn-by-turn instructions
   distance?: number;              // Total distance in meters
-  estimatedDuration?: number;     // Estimated duration in seconds
+  estimatedDuration?: number;     // Estimated driving duration in seconds
+  defaultDwellMinutes?: number;   // Time spent at stops without their own dwell time
+  vehicles?: Vehicle[];           // Vehicles sharing the run (single-vehicle route when empty)
   actualDuration?: number;        // Actual duration in seconds
+  scheduleResults?: WaypointScheduleResult[]; // Planned vs actual arrivals, set on completion
   createdAt: string;
   createdBy?: string;             // User ID reference (not email)
   publishedAt?: string;
@@ -47,6 +79,70 @@ export interface Route {
   shareableLink?: string;
   qrCodeUrl?: string;
   viewCount?: number;
+  version?: string;               // Storage ETag the route was loaded at, sent back when saving edits
+}
+
+/**
+ * A brigade's saved route plan, instantiated as a new draft route each year
+ * Scheduled arrivals are kept relative to the template's start time.
+ */
+export interface RouteTemplate {
+  id: string;
+  brigadeId: string;
+  name: string;
+  description?: string;
+  startTime: string;              // "HH:MM" the scheduled arrivals were planned against
+  endTime?: string;
+  waypoints: Waypoint[];          // Stops with their plan only (no run progress)
+  vehicles?: Vehicle[];
+  geometry?: GeoJSON.LineString;
+  navigationSteps?: NavigationStep[];
+  distance?: number;
+  estimatedDuration?: number;
+  defaultDwellMinutes?: number;
+  sourceRouteId?: string;         // Route the template was saved from
+  createdAt: string;
+  createdBy?: string;             // User ID reference (not email)
+}
+
+/**
+ * The planned parts of a route, as kept in its version history
+ */
+export type RouteSnapshot = Pick<
+  Route,
+  | 'name' | 'description' | 'date' | 'startTime' | 'endTime' | 'waypoints' | 'vehicles'
+  | 'geometry' | 'navigationSteps' | 'distance' | 'estimatedDuration' | 'defaultDwellMinutes'
+>;
+
+/**
+ * One saved version of a route's plan
+ * History is append-only: restoring an earlier revision adds a new one.
+ */
+export interface RouteRevision {
+  id: string;
+  routeId: string;
+  brigadeId: string;
+  savedAt: string;
+  authorId?: string;
+  authorName?: string;
+  summary: string;                // e.g. "2 stops added, 1 stop renamed"
+  stopCount: number;
+  restoredFrom?: string;          // Revision ID this one restored
+  snapshot?: RouteSnapshot;       // Left out of history listings
+}
+
+/**
+ * A multi-night season of Santa runs (e.g. a different suburb every night for a week)
+ * The event's link and QR code stay the same all season and resolve to tonight's route.
+ */
+export interface BrigadeEvent {
+  id: string;
+  brigadeId: string;
+  name: string;                   // e.g. "Santa Week 2025"
+  description?: string;
+  routeIds: string[];             // The season's routes, one per night
+  createdAt: string;
+  createdBy?: string;             // User ID reference (not email)
 }
 
 export interface LiveLocation {
@@ -67,12 +163,77 @@ export interface RouteProgress {
 
 export interface LocationBroadcast {
   routeId: string;
+  vehicleId?: string;             // Broadcasting vehicle on a multi-vehicle route
   location: [number, number];
   timestamp: number;
   heading?: number;
   speed?: number;
   currentWaypointIndex?: number;
   nextWaypointEta?: string;
+  scheduleDeviation?: number;     // Seconds behind schedule (negative when ahead)
+  waypointEtas?: WaypointEta[];   // Cumulative ETA for every upcoming waypoint
+  visit?: WaypointVisit;          // The vehicle's latest arrival at or departure from a stop
+}
+
+/**
+ * A vehicle arriving at or leaving a stop, detected by the stop's geofence
+ */
+export interface WaypointVisit {
+  waypointId: string;
+  type: 'arrived' | 'departed';
+  timestamp: number;              // Unix timestamp (ms)
+}
+
+/**
+ * Estimated arrival at an upcoming waypoint, including dwell time at earlier stops
+ */
+export interface WaypointEta {
+  waypointId: string;
+  eta: number;                    // Unix timestamp (ms)
+}
+
+/**
+ * A recorded point on the path Santa has already travelled (breadcrumb trail)
+ */
+export interface TrackPoint {
+  location: [number, number];     // [lng, lat]
+  timestamp: number;              // Unix timestamp (ms) from the navigator device
+  vehicleId?: string;
+  heading?: number;
+  speed?: number;
+  currentWaypointIndex?: number;
+}
+
+/**
+ * One tracking page open, as recorded for viewer analytics (no personal data)
+ */
+export interface ViewerSession {
+  sessionId: string;
+  viewerHash: string;             // Per-route hash of the browser's random viewer ID
+  openedAt: number;               // Unix timestamp (ms)
+  lastSeenAt: number;
+  connectedAt?: number;           // When the live connection came up (missing if it never did)
+  closed: boolean;
+  embed: boolean;                 // Opened through the embeddable widget
+  timeZone?: string;
+  area?: [number, number];        // ~5 km grid cell of the viewer's alert pin [lng, lat]
+}
+
+/**
+ * Community engagement with a route's tracking page
+ */
+export interface RouteViewerAnalytics {
+  routeId: string;
+  opens: number;
+  uniqueViewers: number;
+  embedOpens: number;
+  peakConcurrent: number;
+  peakAt?: number;
+  averageSessionSeconds: number;
+  timeline: { time: number; viewers: number }[];
+  areas: { location: [number, number]; viewers: number }[];
+  timeZones: { timeZone: string; viewers: number }[];
+  generatedAt: number;
 }
 
 // GeoJSON types for TypeScript
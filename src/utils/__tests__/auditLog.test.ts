@@ -0,0 +1,44 @@
+/**
+ * Unit tests for audit log queries
+ */
+
+import { describe, it, expect } from 'vitest';
+import { EMPTY_AUDIT_LOG_FILTERS, buildAuditLogQuery } from '../auditLog';
+
+describe('auditLog', () => {
+  describe('buildAuditLogQuery', () => {
+    it('should only send the filters that are set', () => {
+      expect(buildAuditLogQuery(EMPTY_AUDIT_LOG_FILTERS)).toBe('limit=100');
+    });
+
+    it('should send every filter the page sets', () => {
+      const params = new URLSearchParams(buildAuditLogQuery({
+        brigadeId: 'brigade-1',
+        eventType: 'membership',
+        userId: '  user-1 ',
+        fromDate: '',
+        toDate: '',
+        source: 'server',
+      }, 50));
+
+      expect(Object.fromEntries(params)).toEqual({
+        brigadeId: 'brigade-1',
+        eventType: 'membership',
+        userId: 'user-1',
+        source: 'server',
+        limit: '50',
+      });
+    });
+
+    it('should include the whole of the last day in the date range', () => {
+      const params = new URLSearchParams(buildAuditLogQuery({
+        ...EMPTY_AUDIT_LOG_FILTERS,
+        fromDate: '2026-12-24',
+        toDate: '2026-12-24',
+      }));
+
+      expect(params.get('from')).toBe(new Date(2026, 11, 24).toISOString());
+      expect(params.get('to')).toBe(new Date(2026, 11, 25).toISOString());
+    });
+  });
+});
@@ -0,0 +1,143 @@
+/**
+ * Unit tests for live route editing presence and waypoint operations
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  PRESENCE_TIMEOUT_MS,
+  applyPresenceMessage,
+  applyWaypointOperations,
+  diffWaypointOperations,
+  isCollaborationMessage,
+  presenceColor,
+  prunePresence,
+} from '../collaboration';
+import type { Waypoint } from '../../types';
+import { createMockWaypoint } from '../../__tests__/integration/testUtils';
+
+// Each stop keeps its name, address and position wherever it is ordered, so renumbering doesn't edit it
+const stop = (id: string, order: number, overrides: Partial<Waypoint> = {}): Waypoint => createMockWaypoint(order, {
+  id,
+  name: `Stop ${id}`,
+  address: `${id} Test Street, Sydney NSW`,
+  coordinates: [151 + id.charCodeAt(0) / 1000, -33.8],
+  ...overrides,
+});
+
+const waypoints = [stop('a', 0), stop('b', 1), stop('c', 2)];
+
+const ids = (list: Waypoint[]) => list.map(wp => wp.id);
+
+describe('collaboration', () => {
+  describe('presence', () => {
+    const presence = {
+      type: 'presence' as const,
+      sessionId: 'session-1',
+      userId: 'user-1',
+      name: 'Captain Jones',
+      selectedWaypointId: 'b',
+    };
+
+    it('should add and update editors from presence messages', () => {
+      const joined = applyPresenceMessage([], presence, 1000);
+      expect(joined).toEqual([{
+        sessionId: 'session-1',
+        userId: 'user-1',
+        name: 'Captain Jones',
+        color: presenceColor('session-1'),
+        cursor: undefined,
+        selectedWaypointId: 'b',
+        lastSeen: 1000,
+      }]);
+
+      const moved = applyPresenceMessage(joined, { ...presence, cursor: [151.2, -33.8] }, 2000);
+      expect(moved).toHaveLength(1);
+      expect(moved[0].cursor).toEqual([151.2, -33.8]);
+      expect(moved[0].lastSeen).toBe(2000);
+    });
+
+    it('should remove editors that leave', () => {
+      const joined = applyPresenceMessage([], presence, 1000);
+      expect(applyPresenceMessage(joined, { type: 'leave', sessionId: 'session-1' }, 2000)).toEqual([]);
+    });
+
+    it('should drop editors that stop sending heartbeats', () => {
+      const joined = applyPresenceMessage([], presence, 1000);
+      expect(prunePresence(joined, 1000 + PRESENCE_TIMEOUT_MS - 1)).toBe(joined);
+      expect(prunePresence(joined, 1000 + PRESENCE_TIMEOUT_MS)).toEqual([]);
+    });
+
+    it('should give each session a stable colour', () => {
+      expect(presenceColor('session-1')).toBe(presenceColor('session-1'));
+      expect(presenceColor('session-1')).toMatch(/^#[0-9A-F]{6}$/);
+    });
+
+    it('should only accept known message types', () => {
+      expect(isCollaborationMessage(presence)).toBe(true);
+      expect(isCollaborationMessage({ type: 'saved', sessionId: 'session-1' })).toBe(true);
+      expect(isCollaborationMessage({ type: 'location', sessionId: 'session-1' })).toBe(false);
+      expect(isCollaborationMessage({ routeId: 'route-1', location: [151, -33] })).toBe(false);
+      expect(isCollaborationMessage(null)).toBe(false);
+    });
+  });
+
+  describe('applyWaypointOperations', () => {
+    it('should update stops in place and add new stops at the end', () => {
+      const result = applyWaypointOperations(waypoints, [
+        { kind: 'upsert', waypoint: stop('b', 1, { name: 'Town Square' }) },
+        { kind: 'upsert', waypoint: stop('d', 0) },
+      ]);
+
+      expect(ids(result)).toEqual(['a', 'b', 'c', 'd']);
+      expect(result[1].name).toBe('Town Square');
+      expect(result.map(wp => wp.order)).toEqual([0, 1, 2, 3]);
+    });
+
+    it('should delete stops and renumber the rest', () => {
+      const result = applyWaypointOperations(waypoints, [{ kind: 'delete', waypointId: 'a' }]);
+
+      expect(ids(result)).toEqual(['b', 'c']);
+      expect(result.map(wp => wp.order)).toEqual([0, 1]);
+    });
+
+    it('should keep stops a reorder does not know about after the ones it lists', () => {
+      const local = [...waypoints, stop('local', 3)];
+
+      const result = applyWaypointOperations(local, [{ kind: 'reorder', waypointIds: ['c', 'a', 'b'] }]);
+
+      expect(ids(result)).toEqual(['c', 'a', 'b', 'local']);
+    });
+  });
+
+  describe('diffWaypointOperations', () => {
+    it('should produce no operations when nothing changed', () => {
+      expect(diffWaypointOperations(waypoints, waypoints.map(wp => ({ ...wp })))).toEqual([]);
+    });
+
+    it('should describe edits, additions and deletions without a reorder', () => {
+      const after = [stop('a', 0, { notes: 'Gate code 1234' }), stop('c', 1), stop('d', 2)];
+
+      expect(diffWaypointOperations(waypoints, after)).toEqual([
+        { kind: 'delete', waypointId: 'b' },
+        { kind: 'upsert', waypoint: after[0] },
+        { kind: 'upsert', waypoint: after[2] },
+      ]);
+    });
+
+    it('should include the order when stops were reordered', () => {
+      const after = [stop('c', 0), stop('a', 1), stop('b', 2)];
+
+      expect(diffWaypointOperations(waypoints, after)).toEqual([
+        { kind: 'reorder', waypointIds: ['c', 'a', 'b'] },
+      ]);
+    });
+
+    it('should round-trip through applyWaypointOperations', () => {
+      const after = [stop('d', 0), stop('c', 1), stop('a', 2, { name: 'Renamed' })];
+
+      const result = applyWaypointOperations(waypoints, diffWaypointOperations(waypoints, after));
+
+      expect(result).toEqual(after);
+    });
+  });
+});
@@ -0,0 +1,106 @@
+/**
+ * Unit tests for the embeddable tracking widget options and embed code
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_EMBED_OPTIONS,
+  buildEmbedUrl,
+  clampEmbedHeight,
+  generateEmbedCode,
+  parseEmbedOptions,
+} from '../embed';
+import hostingConfig from '../../../staticwebapp.config.json';
+
+const origin = window.location.origin;
+
+/**
+ * Split a Content-Security-Policy header into its directives
+ */
+function parseCsp(policy: string): Map<string, string> {
+  return new Map(policy.split(';').map(directive => {
+    const [name, ...sources] = directive.trim().split(/\s+/);
+    return [name, sources.join(' ')];
+  }));
+}
+const route = { id: 'route-1', name: 'Christmas Eve "Big" Run' };
+
+describe('embed', () => {
+  describe('parseEmbedOptions', () => {
+    it('should use the defaults when no options are given', () => {
+      expect(parseEmbedOptions(new URLSearchParams())).toEqual(DEFAULT_EMBED_OPTIONS);
+    });
+
+    it('should turn options off with 0 or false', () => {
+      const options = parseEmbedOptions(new URLSearchParams('header=0&progress=false&controls=1'));
+
+      expect(options.showHeader).toBe(false);
+      expect(options.showProgress).toBe(false);
+      expect(options.interactive).toBe(true);
+    });
+  });
+
+  describe('buildEmbedUrl', () => {
+    it('should leave default options out of the URL', () => {
+      expect(buildEmbedUrl('route-1')).toBe(`${origin}/embed/route-1`);
+    });
+
+    it('should round-trip non-default options through the query string', () => {
+      const options = { ...DEFAULT_EMBED_OPTIONS, showProgress: false, interactive: false };
+      const url = new URL(buildEmbedUrl('route-1', options));
+
+      expect(url.search).toBe('?progress=0&controls=0');
+      expect(parseEmbedOptions(url.searchParams)).toEqual(options);
+    });
+  });
+
+  describe('clampEmbedHeight', () => {
+    it('should keep the height within the supported range', () => {
+      expect(clampEmbedHeight(100)).toBe(250);
+      expect(clampEmbedHeight(5000)).toBe(1200);
+      expect(clampEmbedHeight(480.4)).toBe(480);
+      expect(clampEmbedHeight(NaN)).toBe(DEFAULT_EMBED_OPTIONS.height);
+    });
+  });
+
+  describe('generateEmbedCode', () => {
+    it('should build an iframe with the chosen size and an escaped title', () => {
+      const code = generateEmbedCode(route, { ...DEFAULT_EMBED_OPTIONS, width: '600', height: 500, showHeader: false });
+
+      expect(code).toBe(
+        `<iframe src="${origin}/embed/route-1?header=0" width="600" height="500" ` +
+        'title="Track Santa - Christmas Eve &quot;Big&quot; Run" style="border:0;" loading="lazy" allowfullscreen></iframe>'
+      );
+    });
+
+    it('should build a script tag with data attributes for non-default options', () => {
+      const code = generateEmbedCode(route, { ...DEFAULT_EMBED_OPTIONS, interactive: false }, 'script');
+
+      expect(code).toContain('data-santa-route="route-1"');
+      expect(code).toContain('data-width="100%"');
+      expect(code).toContain('data-height="450"');
+      expect(code).toContain('data-controls="0"');
+      expect(code).not.toContain('data-header');
+      expect(code).toContain(`<script src="${origin}/embed.js" async></script>`);
+    });
+  });
+
+  describe('embed page headers', () => {
+    // The hosting config can't share one policy between routes, so the embed copy is checked here
+    const globalCsp = parseCsp(hostingConfig.globalHeaders['content-security-policy']);
+    const embedRoute = hostingConfig.routes.find(route => route.route === '/embed/*');
+    const embedCsp = parseCsp(embedRoute?.headers?.['content-security-policy'] ?? '');
+
+    it('should let any site frame embed pages', () => {
+      expect(globalCsp.get('frame-ancestors')).toBe("'none'");
+      expect(embedCsp.get('frame-ancestors')).toBe('*');
+    });
+
+    it('should keep every other directive the same as the rest of the app', () => {
+      const otherDirectives = (csp: Map<string, string>) =>
+        [...csp].filter(([name]) => name !== 'frame-ancestors');
+
+      expect(otherDirectives(embedCsp)).toEqual(otherDirectives(globalCsp));
+    });
+  });
+});
@@ -0,0 +1,68 @@
+/**
+ * Unit tests for multi-night events
+ */
+
+import { describe, it, expect } from 'vitest';
+import { formatEventDates, getEventNights, pickTonightRoute } from '../events';
+import type { Route, RouteStatus } from '../../types';
+
+function makeNight(id: string, date: string, status: RouteStatus): Route {
+  return {
+    id,
+    brigadeId: 'brigade-1',
+    name: id,
+    date,
+    startTime: '18:30',
+    status,
+    waypoints: [],
+    createdAt: '2025-11-01T00:00:00.000Z',
+  };
+}
+
+const monday = makeNight('monday', '2025-12-22', 'completed');
+const tuesday = makeNight('tuesday', '2025-12-23', 'published');
+const wednesday = makeNight('wednesday', '2025-12-24', 'published');
+const draft = makeNight('draft', '2025-12-21', 'draft');
+
+describe('events', () => {
+  describe('getEventNights', () => {
+    const event = { routeIds: ['wednesday', 'monday', 'draft', 'tuesday'] };
+    const routes = [wednesday, makeNight('other', '2025-12-20', 'published'), monday, draft, tuesday];
+
+    it('should return the event\'s routes in night order without drafts', () => {
+      expect(getEventNights(event, routes).map(r => r.id)).toEqual(['monday', 'tuesday', 'wednesday']);
+    });
+
+    it('should include drafts when asked', () => {
+      expect(getEventNights(event, routes, true).map(r => r.id)).toEqual(['draft', 'monday', 'tuesday', 'wednesday']);
+    });
+  });
+
+  describe('pickTonightRoute', () => {
+    it('should prefer a run in progress', () => {
+      const running = { ...monday, status: 'active' as const };
+      expect(pickTonightRoute([running, tuesday, wednesday], '2025-12-23')?.id).toBe('monday');
+    });
+
+    it('should pick tonight\'s route before it starts and after it finishes', () => {
+      expect(pickTonightRoute([monday, tuesday, wednesday], '2025-12-23')?.id).toBe('tuesday');
+      expect(pickTonightRoute([monday, tuesday, wednesday], '2025-12-22')?.id).toBe('monday');
+    });
+
+    it('should fall back to the next night coming up', () => {
+      expect(pickTonightRoute([monday, tuesday, wednesday], '2025-12-01')?.id).toBe('tuesday');
+    });
+
+    it('should return null once the season is over', () => {
+      expect(pickTonightRoute([monday], '2025-12-25')).toBeNull();
+    });
+  });
+
+  describe('formatEventDates', () => {
+    it('should show the first and last night', () => {
+      expect(formatEventDates([monday, tuesday, wednesday])).toBe('22 Dec – 24 Dec 2025');
+      expect(formatEventDates([monday])).toBe('22 Dec 2025');
+      expect(formatEventDates([])).toBe('');
+    });
+  });
+});
@@ -0,0 +1,100 @@
+/**
+ * Unit tests for geofenced stop arrival and departure
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_GEOFENCE_RADIUS_METERS,
+  findVisitedWaypoint,
+  getGeofenceRadius,
+  updateGeofence,
+} from '../geofence';
+import type { GeofenceState } from '../geofence';
+import type { Waypoint } from '../../types';
+
+// About 11 m per 0.0001° of longitude at the equator
+const at = (meters: number): [number, number] => [meters / 111_320, 0];
+
+const waypoint: Pick<Waypoint, 'id' | 'coordinates' | 'geofenceRadius'> = { id: 'wp-1', coordinates: [0, 0] };
+
+/**
+ * Feed positions (meters from the stop, seconds) through the geofence and collect the visits
+ */
+function drive(points: Array<[number, number]>, target = waypoint) {
+  let state: GeofenceState | null = null;
+  const visits = [];
+  for (const [meters, seconds] of points) {
+    const update = updateGeofence(state, target, at(meters), seconds * 1000);
+    state = update.state;
+    if (update.visit) visits.push(update.visit);
+  }
+  return { state, visits };
+}
+
+describe('geofence', () => {
+  describe('getGeofenceRadius', () => {
+    it('should default and clamp the radius', () => {
+      expect(getGeofenceRadius({})).toBe(DEFAULT_GEOFENCE_RADIUS_METERS);
+      expect(getGeofenceRadius({ geofenceRadius: 120 })).toBe(120);
+      expect(getGeofenceRadius({ geofenceRadius: 5 })).toBe(15);
+      expect(getGeofenceRadius({ geofenceRadius: 10_000 })).toBe(500);
+    });
+  });
+
+  describe('updateGeofence', () => {
+    it('should not arrive when driving straight past', () => {
+      const { state, visits } = drive([[-70, 0], [-30, 2], [0, 4], [30, 6], [90, 8]]);
+
+      expect(visits).toEqual([]);
+      expect(state).toBeNull();
+    });
+
+    it('should arrive after the minimum dwell, dated from entering', () => {
+      const { state, visits } = drive([[-70, 0], [-30, 5], [-10, 12], [-5, 25]]);
+
+      expect(visits).toEqual([{ waypointId: 'wp-1', type: 'arrived', timestamp: 5000 }]);
+      expect(state).toEqual({ waypointId: 'wp-1', enteredAt: 5000, arrivedAt: 5000 });
+    });
+
+    it('should only depart once well outside the radius', () => {
+      const { visits } = drive([[-30, 0], [-10, 20], [60, 30], [40, 35], [90, 40]]);
+
+      expect(visits).toEqual([
+        { waypointId: 'wp-1', type: 'arrived', timestamp: 0 },
+        { waypointId: 'wp-1', type: 'departed', timestamp: 40_000 },
+      ]);
+    });
+
+    it('should use the stop radius', () => {
+      const { visits } = drive([[90, 0], [90, 20]], { ...waypoint, geofenceRadius: 100 });
+
+      expect(visits).toEqual([{ waypointId: 'wp-1', type: 'arrived', timestamp: 0 }]);
+    });
+
+    it('should arrive immediately without a minimum dwell', () => {
+      const update = updateGeofence(null, waypoint, at(20), 1000, { minDwellSeconds: 0 });
+
+      expect(update.visit).toEqual({ waypointId: 'wp-1', type: 'arrived', timestamp: 1000 });
+    });
+
+    it('should start again when moving on to another stop', () => {
+      const state: GeofenceState = { waypointId: 'wp-0', enteredAt: 0, arrivedAt: null };
+      const update = updateGeofence(state, waypoint, at(20), 30_000);
+
+      expect(update).toEqual({ state: { waypointId: 'wp-1', enteredAt: 30_000, arrivedAt: null }, visit: null });
+    });
+  });
+
+  describe('findVisitedWaypoint', () => {
+    const waypoints = [{ id: 'wp-1', name: 'Smith Park' }, { id: 'wp-2', name: 'Town Hall' }];
+
+    it('should find the stop a vehicle has arrived at', () => {
+      expect(findVisitedWaypoint(waypoints, { waypointId: 'wp-2', type: 'arrived', timestamp: 0 })?.name).toBe('Town Hall');
+    });
+
+    it('should return null after departing or without a visit', () => {
+      expect(findVisitedWaypoint(waypoints, { waypointId: 'wp-2', type: 'departed', timestamp: 0 })).toBeNull();
+      expect(findVisitedWaypoint(waypoints, undefined)).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,154 @@
+/**
+ * Unit tests for last-known location utilities
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import {
+  fetchLastKnownLocation,
+  fetchLastKnownLocations,
+  formatLocationAge,
+  isLocationStale,
+  loadLocalLastLocation,
+  loadLocalLastLocations,
+  saveLocalLastLocation,
+} from '../lastLocation';
+import type { LocationBroadcast } from '../../types';
+
+const broadcast: LocationBroadcast = {
+  routeId: 'route-1',
+  location: [151.2, -33.8],
+  timestamp: 1703577600000,
+  currentWaypointIndex: 3,
+  nextWaypointEta: '5 min',
+};
+
+describe('lastLocation', () => {
+  describe('formatLocationAge', () => {
+    it('should describe very recent positions as just now', () => {
+      expect(formatLocationAge(0)).toBe('just now');
+      expect(formatLocationAge(9_999)).toBe('just now');
+    });
+
+    it('should format seconds, minutes and hours', () => {
+      expect(formatLocationAge(45_000)).toBe('45 sec ago');
+      expect(formatLocationAge(3 * 60_000 + 20_000)).toBe('3 min ago');
+      expect(formatLocationAge(60 * 60_000)).toBe('1 hr ago');
+      expect(formatLocationAge(65 * 60_000)).toBe('1 hr 5 min ago');
+    });
+
+    it('should treat negative ages as just now', () => {
+      expect(formatLocationAge(-5000)).toBe('just now');
+    });
+  });
+
+  describe('isLocationStale', () => {
+    it('should compare the age against the threshold', () => {
+      expect(isLocationStale(30_000, 60_000)).toBe(false);
+      expect(isLocationStale(60_000, 60_000)).toBe(false);
+      expect(isLocationStale(60_001, 60_000)).toBe(true);
+    });
+  });
+
+  describe('local snapshot (dev mode)', () => {
+    beforeEach(() => {
+      localStorage.clear();
+    });
+
+    it('should return null when nothing has been broadcast', () => {
+      expect(loadLocalLastLocation('route-1')).toBeNull();
+    });
+
+    it('should keep only the latest broadcast per route', () => {
+      saveLocalLastLocation(broadcast);
+      saveLocalLastLocation({ ...broadcast, location: [151.3, -33.7], timestamp: broadcast.timestamp + 5000 });
+
+      const snapshot = loadLocalLastLocation('route-1');
+      expect(snapshot?.location.location).toEqual([151.3, -33.7]);
+      expect(loadLocalLastLocation('route-2')).toBeNull();
+    });
+
+    it('should keep one snapshot per vehicle', () => {
+      saveLocalLastLocation({ ...broadcast, vehicleId: 'truck-1' });
+      saveLocalLastLocation({ ...broadcast, vehicleId: 'truck-2', location: [151.3, -33.7] });
+      saveLocalLastLocation({ ...broadcast, routeId: 'route-10', vehicleId: 'truck-1' });
+
+      expect(loadLocalLastLocation('route-1', 'truck-2')?.location.location).toEqual([151.3, -33.7]);
+      expect(loadLocalLastLocations('route-1').map(s => s.location.vehicleId).sort()).toEqual(['truck-1', 'truck-2']);
+    });
+  });
+
+  describe('fetchLastKnownLocation', () => {
+    let fetchMock: ReturnType<typeof vi.fn>;
+
+    beforeEach(() => {
+      fetchMock = vi.fn();
+      global.fetch = fetchMock;
+    });
+
+    afterEach(() => {
+      vi.restoreAllMocks();
+    });
+
+    it('should return null for unknown routes', async () => {
+      fetchMock.mockResolvedValueOnce({ ok: false, status: 404 });
+
+      expect(await fetchLastKnownLocation('route-1')).toBeNull();
+      expect(fetchMock).toHaveBeenCalledWith('/api/routes/route-1/location');
+    });
+
+    it('should return null when the route has not broadcast yet', async () => {
+      fetchMock.mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        json: async () => ({ routeId: 'route-1', location: null, serverTime: '2024-12-24T10:00:00Z' }),
+      });
+
+      expect(await fetchLastKnownLocation('route-1')).toBeNull();
+    });
+
+    it('should re-anchor the snapshot age to the viewer clock', async () => {
+      // Viewer clock is an hour ahead of the server; the snapshot is 90 seconds old
+      vi.spyOn(Date, 'now').mockReturnValue(new Date('2024-12-24T11:00:00Z').getTime());
+      fetchMock.mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        json: async () => ({
+          routeId: 'route-1',
+          location: { ...broadcast, receivedAt: '2024-12-24T09:58:30Z' },
+          serverTime: '2024-12-24T10:00:00Z',
+        }),
+      });
+
+      const snapshot = await fetchLastKnownLocation('route-1');
+
+      expect(snapshot?.location).toEqual(broadcast);
+      expect(Date.now() - snapshot!.receivedAt).toBe(90_000);
+    });
+
+    it('should return one snapshot per vehicle, newest first', async () => {
+      fetchMock.mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        json: async () => ({
+          routeId: 'route-1',
+          location: { ...broadcast, vehicleId: 'truck-2', receivedAt: '2024-12-24T09:59:50Z' },
+          locations: [
+            { ...broadcast, vehicleId: 'truck-1', receivedAt: '2024-12-24T09:58:00Z' },
+            { ...broadcast, vehicleId: 'truck-2', receivedAt: '2024-12-24T09:59:50Z' },
+          ],
+          serverTime: '2024-12-24T10:00:00Z',
+        }),
+      });
+
+      const snapshots = await fetchLastKnownLocations('route-1');
+
+      expect(snapshots.map(s => s.location.vehicleId)).toEqual(['truck-2', 'truck-1']);
+    });
+
+    it('should throw on server errors', async () => {
+      fetchMock.mockResolvedValueOnce({ ok: false, status: 500, statusText: 'Internal Server Error' });
+
+      await expect(fetchLastKnownLocation('route-1')).rejects.toThrow('Internal Server Error');
+    });
+  });
+});
@@ -0,0 +1,115 @@
+/**
+ * Unit tests for location history utilities
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  broadcastToTrackPoint,
+  mergeTrackPoints,
+  splitTrackByVehicle,
+  trackToLineString,
+  loadLocalTrack,
+  appendLocalTrack,
+} from '../locationHistory';
+import type { LocationBroadcast, TrackPoint } from '../../types';
+
+function makeBroadcast(timestamp: number, location: [number, number] = [151.2, -33.8]): LocationBroadcast {
+  return {
+    routeId: 'route-1',
+    location,
+    timestamp,
+    heading: 90,
+    speed: 10,
+    currentWaypointIndex: 2,
+    nextWaypointEta: '19:30',
+  };
+}
+
+function makePoint(timestamp: number, location: [number, number] = [151.2, -33.8]): TrackPoint {
+  return { location, timestamp };
+}
+
+describe('locationHistory', () => {
+  describe('broadcastToTrackPoint', () => {
+    it('should keep location, timing and progress fields', () => {
+      expect(broadcastToTrackPoint(makeBroadcast(1000))).toEqual({
+        location: [151.2, -33.8],
+        timestamp: 1000,
+        heading: 90,
+        speed: 10,
+        currentWaypointIndex: 2,
+      });
+    });
+  });
+
+  describe('mergeTrackPoints', () => {
+    it('should return points in chronological order', () => {
+      const merged = mergeTrackPoints([makePoint(3000)], [makePoint(1000), makePoint(2000)]);
+      expect(merged.map(p => p.timestamp)).toEqual([1000, 2000, 3000]);
+    });
+
+    it('should de-duplicate points with the same timestamp', () => {
+      const merged = mergeTrackPoints([makePoint(1000), makePoint(2000)], [makePoint(2000)]);
+      expect(merged).toHaveLength(2);
+    });
+
+    it('should return the existing array when there is nothing to merge', () => {
+      const existing = [makePoint(1000)];
+      expect(mergeTrackPoints(existing, [])).toBe(existing);
+    });
+
+    it('should keep points from different vehicles with the same timestamp', () => {
+      const merged = mergeTrackPoints(
+        [{ ...makePoint(1000), vehicleId: 'truck-1' }],
+        [{ ...makePoint(1000), vehicleId: 'truck-2' }]
+      );
+      expect(merged).toHaveLength(2);
+    });
+  });
+
+  describe('splitTrackByVehicle', () => {
+    it('should give each vehicle its own trail', () => {
+      const trails = splitTrackByVehicle([
+        { ...makePoint(1000), vehicleId: 'truck-1' },
+        { ...makePoint(2000), vehicleId: 'truck-2' },
+        { ...makePoint(3000), vehicleId: 'truck-1' },
+      ]);
+      expect(trails.get('truck-1')?.map(p => p.timestamp)).toEqual([1000, 3000]);
+      expect(trails.get('truck-2')?.map(p => p.timestamp)).toEqual([2000]);
+    });
+  });
+
+  describe('trackToLineString', () => {
+    it('should return null for fewer than two points', () => {
+      expect(trackToLineString([])).toBeNull();
+      expect(trackToLineString([makePoint(1000)])).toBeNull();
+    });
+
+    it('should build a LineString from point locations', () => {
+      const line = trackToLineString([makePoint(1000, [151.1, -33.9]), makePoint(2000, [151.2, -33.8])]);
+      expect(line).toEqual({
+        type: 'LineString',
+        coordinates: [[151.1, -33.9], [151.2, -33.8]],
+      });
+    });
+  });
+
+  describe('local track (dev mode)', () => {
+    beforeEach(() => {
+      localStorage.clear();
+    });
+
+    it('should return an empty trail when nothing is recorded', () => {
+      expect(loadLocalTrack('route-1')).toEqual([]);
+    });
+
+    it('should record broadcasts per route', () => {
+      appendLocalTrack(makeBroadcast(1000));
+      appendLocalTrack(makeBroadcast(2000));
+      appendLocalTrack({ ...makeBroadcast(3000), routeId: 'route-2' });
+
+      expect(loadLocalTrack('route-1').map(p => p.timestamp)).toEqual([1000, 2000]);
+      expect(loadLocalTrack('route-2').map(p => p.timestamp)).toEqual([3000]);
+    });
+  });
+});
@@ -15,6 +15,9 @@ import {
   calculateETA,
   formatETA,
   getRemainingDistance,
+  getDwellSeconds,
+  splitStepsIntoLegs,
+  calculateWaypointETAs,
 } from '../navigation';
 import type { Waypoint, NavigationStep, GeoJSON } from '../../types';
 
@@ -410,4 +413,115 @@ describe('navigation', () => {
       expect(remaining).toBe(0);
     });
   });
+
+  describe('dwell-aware ETAs', () => {
+    const line: GeoJSON.LineString = { type: 'LineString', coordinates: [] };
+    const step = (type: string, duration: number, location: [number, number], distance = duration * 10): NavigationStep => ({
+      instruction: type,
+      distance,
+      duration,
+      geometry: line,
+      maneuver: { type, location },
+    });
+    const makeWaypoint = (order: number, overrides: Partial<Waypoint> = {}): Waypoint => ({
+      id: `wp-${order}`,
+      coordinates: [151.2 + order / 100, -33.87],
+      order,
+      isCompleted: false,
+      ...overrides,
+    });
+
+    // Three stops: 300s to stop 2, then 600s to stop 3
+    const steps: NavigationStep[] = [
+      step('depart', 200, [151.2, -33.87]),
+      step('turn', 100, [151.205, -33.87]),
+      step('arrive', 0, [151.21, -33.87]),
+      step('depart', 600, [151.21, -33.87]),
+      step('arrive', 0, [151.22, -33.87]),
+    ];
+    const now = Date.parse('2024-12-24T18:00:00.000Z');
+
+    it('should use the waypoint dwell time before the route default', () => {
+      expect(getDwellSeconds(makeWaypoint(0, { dwellMinutes: 8 }), 5)).toBe(480);
+      expect(getDwellSeconds(makeWaypoint(0), 5)).toBe(300);
+      expect(getDwellSeconds(makeWaypoint(0))).toBe(0);
+    });
+
+    it('should split steps into legs at each arrival', () => {
+      expect(splitStepsIntoLegs(steps)).toEqual([
+        { start: 0, end: 3 },
+        { start: 3, end: 5 },
+      ]);
+    });
+
+    it('should add leg durations and dwell time for every upcoming stop', () => {
+      const route = {
+        waypoints: [
+          makeWaypoint(0, { isCompleted: true }),
+          makeWaypoint(1, { dwellMinutes: 10 }),
+          makeWaypoint(2),
+        ],
+        navigationSteps: steps,
+        defaultDwellMinutes: 5,
+      };
+
+      const etas = calculateWaypointETAs(route, [151.2, -33.87], {
+        currentStepIndex: 1,
+        distanceToManeuver: 500, // Half of the 100s turn step is still ahead
+        now,
+      });
+
+      expect(etas).toEqual([
+        { waypointId: 'wp-1', eta: now + 50_000 },
+        { waypointId: 'wp-2', eta: now + (50 + 600 + 600) * 1000 },
+      ]);
+    });
+
+    it('should count the rest of the dwell at the stop just reached', () => {
+      const route = {
+        waypoints: [
+          makeWaypoint(0, { isCompleted: true, actualArrival: new Date(now - 60_000).toISOString() }),
+          makeWaypoint(1),
+          makeWaypoint(2),
+        ],
+        navigationSteps: steps,
+        defaultDwellMinutes: 5,
+      };
+
+      const etas = calculateWaypointETAs(route, [151.2, -33.87], { currentStepIndex: 0, distanceToManeuver: 0, now });
+
+      // 4 minutes left at the first stop, then the rest of leg one (only the turn step is left)
+      expect(etas[0]).toEqual({ waypointId: 'wp-1', eta: now + (240 + 100) * 1000 });
+    });
+
+    it('should match legs to the remaining stops after a reroute', () => {
+      const route = {
+        waypoints: [
+          makeWaypoint(0, { isCompleted: true }),
+          makeWaypoint(1, { isCompleted: true }),
+          makeWaypoint(2),
+          makeWaypoint(3),
+        ],
+        navigationSteps: steps,
+      };
+
+      const etas = calculateWaypointETAs(route, [151.2, -33.87], { now });
+
+      expect(etas).toEqual([
+        { waypointId: 'wp-2', eta: now + 300_000 },
+        { waypointId: 'wp-3', eta: now + 900_000 },
+      ]);
+    });
+
+    it('should fall back to straight-line estimates without matching steps', () => {
+      const route = { waypoints: [makeWaypoint(0), makeWaypoint(1)] };
+      const userLocation: [number, number] = [151.2, -33.87];
+
+      const etas = calculateWaypointETAs(route, userLocation, { speed: 10, now });
+      const distance = calculateDistance(userLocation, route.waypoints[1].coordinates);
+
+      expect(etas[0]).toEqual({ waypointId: 'wp-0', eta: now });
+      expect(etas[1].eta).toBe(Math.round(now + (distance / 10) * 1000));
+    });
+  });
 });
@@ -0,0 +1,226 @@
+/**
+ * Unit tests for the navigator offline outbox and route cache
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import {
+  cacheNavigationRoute,
+  clearCachedNavigationRoute,
+  clearRejectedUpdates,
+  enqueueLocation,
+  enqueueRouteSave,
+  hasPendingNavigatorUpdates,
+  isRetryableFailure,
+  loadCachedNavigationRoute,
+  loadOutbox,
+  loadRejectedUpdates,
+  planOutboxReplay,
+  removeReplayedStep,
+  replayOutbox,
+} from '../navigatorOutbox';
+import { HttpStatusError } from '../../storage/http';
+import { RouteConflictError } from '../routeVersion';
+import type { LocationBroadcast } from '../../types';
+import { createMockRoute } from '../../__tests__/integration/testUtils';
+
+const ROUTE_ID = 'route-1';
+
+function makeBroadcast(timestamp: number): LocationBroadcast {
+  return { routeId: ROUTE_ID, location: [151.2, -33.8], timestamp };
+}
+
+const activeRoute = createMockRoute({ id: ROUTE_ID, status: 'active' });
+
+describe('navigatorOutbox', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  describe('route cache', () => {
+    it('should round-trip the route being navigated', () => {
+      const route = createMockRoute({
+        ...activeRoute,
+        geometry: { type: 'LineString', coordinates: [[151.1, -33.9], [151.2, -33.8]] },
+      });
+
+      cacheNavigationRoute(route);
+      expect(loadCachedNavigationRoute(ROUTE_ID)).toEqual(route);
+
+      clearCachedNavigationRoute(ROUTE_ID);
+      expect(loadCachedNavigationRoute(ROUTE_ID)).toBeNull();
+    });
+  });
+
+  describe('queueing', () => {
+    it('should keep queued locations in order', () => {
+      enqueueLocation(makeBroadcast(1000));
+      enqueueLocation(makeBroadcast(2000));
+
+      const outbox = loadOutbox(ROUTE_ID);
+      expect(outbox.map(item => item.type === 'location' && item.broadcast.timestamp)).toEqual([1000, 2000]);
+      expect(hasPendingNavigatorUpdates(ROUTE_ID)).toBe(true);
+      expect(hasPendingNavigatorUpdates('route-2')).toBe(false);
+    });
+
+    it('should keep only the latest queued route save', () => {
+      enqueueRouteSave(activeRoute);
+      enqueueLocation(makeBroadcast(1000));
+      enqueueRouteSave(createMockRoute({ ...activeRoute, status: 'completed' }));
+
+      const outbox = loadOutbox(ROUTE_ID);
+      expect(outbox.map(item => item.type)).toEqual(['location', 'route']);
+      expect(outbox[1].type === 'route' && outbox[1].route.status).toBe('completed');
+    });
+  });
+
+  describe('planOutboxReplay', () => {
+    it('should batch consecutive locations and keep route saves in place', () => {
+      enqueueLocation(makeBroadcast(1000));
+      enqueueLocation(makeBroadcast(2000));
+      enqueueRouteSave(activeRoute);
+      enqueueLocation(makeBroadcast(3000));
+
+      const steps = planOutboxReplay(loadOutbox(ROUTE_ID));
+
+      expect(steps.map(step => step.type)).toEqual(['locations', 'route', 'locations']);
+      expect(steps[0].type === 'locations' && steps[0].broadcasts.map(b => b.timestamp)).toEqual([1000, 2000]);
+    });
+
+    it('should split long runs of locations into batches', () => {
+      for (let i = 1; i <= 5; i++) {
+        enqueueLocation(makeBroadcast(i * 1000));
+      }
+
+      const steps = planOutboxReplay(loadOutbox(ROUTE_ID), 2);
+
+      expect(steps.map(step => step.type === 'locations' && step.broadcasts.length)).toEqual([2, 2, 1]);
+    });
+
+    it('should return no steps for an empty outbox', () => {
+      expect(planOutboxReplay([])).toEqual([]);
+    });
+  });
+
+  describe('removeReplayedStep', () => {
+    it('should remove replayed items but keep updates queued during replay', () => {
+      enqueueLocation(makeBroadcast(1000));
+      enqueueLocation(makeBroadcast(2000));
+      const [step] = planOutboxReplay(loadOutbox(ROUTE_ID));
+
+      // Queued while the batch was in flight
+      enqueueLocation(makeBroadcast(3000));
+
+      const remaining = removeReplayedStep(ROUTE_ID, step);
+      expect(remaining.map(item => item.type === 'location' && item.broadcast.timestamp)).toEqual([3000]);
+    });
+
+    it('should keep a newer route save that replaced the one being replayed', () => {
+      enqueueRouteSave(activeRoute);
+      const [step] = planOutboxReplay(loadOutbox(ROUTE_ID));
+
+      // Replace the queued save while it is being replayed (in the same millisecond)
+      enqueueRouteSave(createMockRoute({ ...activeRoute, status: 'completed' }));
+
+      const remaining = removeReplayedStep(ROUTE_ID, step);
+      expect(remaining).toHaveLength(1);
+      expect(remaining[0].type === 'route' && remaining[0].route.status).toBe('completed');
+    });
+
+    it('should clear the outbox once everything is replayed', () => {
+      enqueueLocation(makeBroadcast(1000));
+      const [step] = planOutboxReplay(loadOutbox(ROUTE_ID));
+
+      removeReplayedStep(ROUTE_ID, step);
+
+      expect(hasPendingNavigatorUpdates(ROUTE_ID)).toBe(false);
+    });
+  });
+
+  describe('isRetryableFailure', () => {
+    it('should retry network errors, timeouts, rate limiting and server errors', () => {
+      expect(isRetryableFailure(new TypeError('Failed to fetch'))).toBe(true);
+      expect(isRetryableFailure(new HttpStatusError(408, 'Request Timeout'))).toBe(true);
+      expect(isRetryableFailure(new HttpStatusError(429, 'Too Many Requests'))).toBe(true);
+      expect(isRetryableFailure(new HttpStatusError(503, 'Service Unavailable'))).toBe(true);
+    });
+
+    it('should not retry updates the server refuses', () => {
+      expect(isRetryableFailure(new HttpStatusError(400, 'Bad Request'))).toBe(false);
+      expect(isRetryableFailure(new HttpStatusError(403, 'Forbidden'))).toBe(false);
+      expect(isRetryableFailure(new RouteConflictError(activeRoute))).toBe(false);
+    });
+  });
+
+  describe('replayOutbox', () => {
+    beforeEach(() => {
+      vi.restoreAllMocks();
+      vi.spyOn(console, 'warn').mockImplementation(() => {});
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+    });
+
+    it('should set aside a refused update and carry on with the ones behind it', async () => {
+      enqueueRouteSave(createMockRoute({ ...activeRoute, status: 'completed' }));
+      enqueueLocation(makeBroadcast(1000));
+      const sendLocationBatch = vi.fn().mockResolvedValue(true);
+      const saveRoute = vi.fn().mockRejectedValue(new HttpStatusError(400, 'Invalid status change'));
+
+      const result = await replayOutbox(ROUTE_ID, { sendLocationBatch, saveRoute });
+
+      expect(result.completed).toBe(true);
+      expect(sendLocationBatch).toHaveBeenCalledWith([makeBroadcast(1000)]);
+      expect(hasPendingNavigatorUpdates(ROUTE_ID)).toBe(false);
+      expect(loadRejectedUpdates(ROUTE_ID)).toEqual([
+        expect.objectContaining({ step: expect.objectContaining({ type: 'route' }), reason: 'Invalid status change' }),
+      ]);
+
+      clearRejectedUpdates(ROUTE_ID);
+      expect(loadRejectedUpdates(ROUTE_ID)).toEqual([]);
+    });
+
+    it('should stop and keep the update when the failure is worth retrying', async () => {
+      enqueueRouteSave(activeRoute);
+      enqueueLocation(makeBroadcast(1000));
+      const sendLocationBatch = vi.fn().mockResolvedValue(true);
+      const saveRoute = vi.fn().mockRejectedValue(new HttpStatusError(503, 'Service Unavailable'));
+
+      const result = await replayOutbox(ROUTE_ID, { sendLocationBatch, saveRoute });
+
+      expect(result).toEqual({ completed: false, rejected: [] });
+      expect(sendLocationBatch).not.toHaveBeenCalled();
+      expect(loadOutbox(ROUTE_ID).map(item => item.type)).toEqual(['route', 'location']);
+    });
+
+    it('should set aside only the locations the server dropped from a batch', async () => {
+      enqueueLocation(makeBroadcast(1000));
+      enqueueLocation(makeBroadcast(2000));
+      enqueueLocation(makeBroadcast(3000));
+      const sendLocationBatch = vi.fn().mockResolvedValue([{ index: 1, error: 'Invalid timestamp' }]);
+
+      const result = await replayOutbox(ROUTE_ID, { sendLocationBatch, saveRoute: vi.fn() });
+
+      expect(result.completed).toBe(true);
+      expect(hasPendingNavigatorUpdates(ROUTE_ID)).toBe(false);
+      expect(loadRejectedUpdates(ROUTE_ID)).toEqual([
+        expect.objectContaining({
+          step: { type: 'locations', broadcasts: [makeBroadcast(2000)] },
+          reason: 'Invalid timestamp',
+        }),
+      ]);
+    });
+
+    it('should stop when a location batch cannot be sent yet', async () => {
+      enqueueLocation(makeBroadcast(1000));
+      const onProgress = vi.fn();
+
+      const result = await replayOutbox(ROUTE_ID, {
+        sendLocationBatch: vi.fn().mockResolvedValue(false),
+        saveRoute: vi.fn(),
+        onProgress,
+      });
+
+      expect(result.completed).toBe(false);
+      expect(onProgress).not.toHaveBeenCalled();
+      expect(hasPendingNavigatorUpdates(ROUTE_ID)).toBe(true);
+    });
+  });
+});
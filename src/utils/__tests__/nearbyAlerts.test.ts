@@ -0,0 +1,65 @@
+/**
+ * Unit tests for "Santa is near" viewer alerts
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  checkLocalNearbyAlert,
+  isSantaNearby,
+  loadNearbyAlert,
+  saveNearbyAlert,
+  urlBase64ToUint8Array,
+} from '../nearbyAlerts';
+import type { NearbyAlert } from '../nearbyAlerts';
+import type { LocationBroadcast } from '../../types';
+
+const home: [number, number] = [146.04, -34.28];
+
+const broadcast = (location: [number, number]): LocationBroadcast => ({
+  routeId: 'route-1',
+  location,
+  timestamp: 1000,
+});
+
+describe('nearbyAlerts', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  describe('isSantaNearby', () => {
+    it('should alert within about five minutes at Santa run speed', () => {
+      expect(isSantaNearby([146.04, -34.29], home)).toBe(true);
+      expect(isSantaNearby([146.04, -34.30], home)).toBe(false);
+    });
+  });
+
+  describe('urlBase64ToUint8Array', () => {
+    it('should decode unpadded base64url keys', () => {
+      expect(Array.from(urlBase64ToUint8Array('-_8'))).toEqual([0xfb, 0xff]);
+    });
+  });
+
+  describe('checkLocalNearbyAlert', () => {
+    const alert: NearbyAlert = {
+      routeId: 'route-1',
+      location: home,
+      label: 'Holly St',
+      createdAt: '2024-12-24T07:00:00.000Z',
+    };
+
+    it('should fire once when Santa comes in range', () => {
+      saveNearbyAlert(alert);
+
+      expect(checkLocalNearbyAlert(alert, broadcast([146.04, -34.30]))).toBeNull();
+
+      const notified = checkLocalNearbyAlert(alert, broadcast([146.04, -34.29]));
+      expect(notified?.notifiedAt).toBeDefined();
+      expect(loadNearbyAlert('route-1')?.notifiedAt).toBe(notified?.notifiedAt);
+      expect(checkLocalNearbyAlert(notified!, broadcast(home))).toBeNull();
+    });
+
+    it('should leave server-side alerts to the push service', () => {
+      expect(checkLocalNearbyAlert({ ...alert, subscriptionId: 'sub-1' }, broadcast(home))).toBeNull();
+    });
+  });
+});
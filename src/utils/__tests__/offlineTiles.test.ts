@@ -0,0 +1,132 @@
+/**
+ * Unit tests for offline map tile utilities
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  getCorridorTiles,
+  isOfflineTilesExpired,
+  lngLatToTile,
+  loadOfflineTilesInfo,
+  normalizeMapboxUrl,
+  formatCacheSize,
+  type OfflineTilesInfo,
+} from '../offlineTiles';
+
+function makeInfo(expiresAt: string): OfflineTilesInfo {
+  return {
+    routeId: 'route-1',
+    tileCount: 120,
+    resourceCount: 125,
+    bytes: 2_500_000,
+    zooms: [12, 13, 14, 15, 16],
+    bufferMeters: 500,
+    createdAt: '2024-12-01T00:00:00.000Z',
+    expiresAt,
+  };
+}
+
+describe('offlineTiles', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  describe('lngLatToTile', () => {
+    it('should return the tile containing a coordinate', () => {
+      expect(lngLatToTile(151.2093, -33.8688, 10)).toEqual({ x: 942, y: 614, z: 10 });
+      expect(lngLatToTile(151.2093, -33.8688, 14)).toEqual({ x: 15073, y: 9831, z: 14 });
+    });
+
+    it('should clamp coordinates at the edge of the world', () => {
+      expect(lngLatToTile(180, -85.1, 2)).toEqual({ x: 3, y: 3, z: 2 });
+      expect(lngLatToTile(-180, 85.1, 2)).toEqual({ x: 0, y: 0, z: 2 });
+    });
+  });
+
+  describe('getCorridorTiles', () => {
+    it('should cover the route at every requested zoom', () => {
+      const geometry = {
+        type: 'LineString' as const,
+        coordinates: [[151.2, -33.87], [151.25, -33.87]],
+      };
+
+      const tiles = getCorridorTiles(geometry, { zooms: [12, 14], bufferMeters: 200 });
+      const keys = new Set(tiles.map(tile => `${tile.z}/${tile.x}/${tile.y}`));
+
+      // Every point along the line must fall in a cached tile
+      for (let lng = 151.2; lng <= 151.25; lng += 0.001) {
+        [12, 14].forEach(zoom => {
+          const tile = lngLatToTile(lng, -33.87, zoom);
+          expect(keys.has(`${zoom}/${tile.x}/${tile.y}`)).toBe(true);
+        });
+      }
+    });
+
+    it('should not return duplicate tiles', () => {
+      const geometry = {
+        type: 'LineString' as const,
+        coordinates: [[151.2, -33.87], [151.2001, -33.87], [151.2, -33.87]],
+      };
+
+      const tiles = getCorridorTiles(geometry, { zooms: [14] });
+      const keys = tiles.map(tile => `${tile.z}/${tile.x}/${tile.y}`);
+
+      expect(new Set(keys).size).toBe(keys.length);
+    });
+
+    it('should grow with the buffer distance', () => {
+      const geometry = {
+        type: 'LineString' as const,
+        coordinates: [[151.2, -33.87], [151.21, -33.86]],
+      };
+
+      const narrow = getCorridorTiles(geometry, { zooms: [16], bufferMeters: 100 });
+      const wide = getCorridorTiles(geometry, { zooms: [16], bufferMeters: 1000 });
+
+      expect(wide.length).toBeGreaterThan(narrow.length);
+    });
+
+    it('should return no tiles for an empty geometry', () => {
+      expect(getCorridorTiles({ type: 'LineString', coordinates: [] })).toEqual([]);
+    });
+  });
+
+  describe('normalizeMapboxUrl', () => {
+    it('should ignore the access token, sku and tile host', () => {
+      const fromMap = 'https://a.tiles.mapbox.com/v4/mapbox.mapbox-streets-v8/14/15073/9831.vector.pbf?sku=101abc&access_token=pk.one';
+      const fromCache = 'https://api.mapbox.com/v4/mapbox.mapbox-streets-v8/14/15073/9831.vector.pbf?access_token=pk.two';
+
+      expect(normalizeMapboxUrl(fromMap)).toBe(normalizeMapboxUrl(fromCache));
+      expect(normalizeMapboxUrl(fromMap)).toBe(
+        'https://api.mapbox.com/v4/mapbox.mapbox-streets-v8/14/15073/9831.vector.pbf'
+      );
+    });
+
+    it('should keep other query parameters in a stable order', () => {
+      expect(normalizeMapboxUrl('https://api.mapbox.com/v4/x.json?secure&b=2&a=1')).toBe(
+        normalizeMapboxUrl('https://api.mapbox.com/v4/x.json?a=1&secure&b=2')
+      );
+    });
+  });
+
+  describe('expiry', () => {
+    it('should report whether the cache has expired', () => {
+      const info = makeInfo('2024-12-31T00:00:00.000Z');
+
+      expect(isOfflineTilesExpired(info, Date.parse('2024-12-24T00:00:00.000Z'))).toBe(false);
+      expect(isOfflineTilesExpired(info, Date.parse('2025-01-01T00:00:00.000Z'))).toBe(true);
+    });
+
+    it('should return null when no offline map has been prepared', () => {
+      expect(loadOfflineTilesInfo('route-1')).toBeNull();
+    });
+  });
+
+  describe('formatCacheSize', () => {
+    it('should format sizes in KB and MB', () => {
+      expect(formatCacheSize(500)).toBe('1 KB');
+      expect(formatCacheSize(850 * 1024)).toBe('850 KB');
+      expect(formatCacheSize(12.4 * 1024 * 1024)).toBe('12.4 MB');
+    });
+  });
+});
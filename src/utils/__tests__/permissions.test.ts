@@ -15,6 +15,7 @@ import {
   canCancelInvitation,
   canStartNavigation,
   canApproveMembership,
+  canViewAuditLog,
   getRoleDisplayName,
   getRoleDescription,
   getAvailableRolesToInvite,
@@ -282,6 +283,16 @@ describe('permissions', () => {
     });
   });
 
+  describe('canViewAuditLog', () => {
+    it('should allow only active admins to view the audit log', () => {
+      expect(canViewAuditLog(adminMembership)).toBe(true);
+      expect(canViewAuditLog(operatorMembership)).toBe(false);
+      expect(canViewAuditLog(viewerMembership)).toBe(false);
+      expect(canViewAuditLog({ ...adminMembership, status: 'pending' })).toBe(false);
+      expect(canViewAuditLog(null)).toBe(false);
+    });
+  });
+
   describe('getRoleDisplayName', () => {
     it('should return proper display names', () => {
       expect(getRoleDisplayName('admin')).toBe('Admin');
@@ -0,0 +1,127 @@
+/**
+ * Unit tests for route diffs and three-way merges
+ */
+
+import { describe, it, expect } from 'vitest';
+import { diffWaypoints, mergeRouteEdits } from '../routeDiff';
+import type { Waypoint } from '../../types';
+import { createMockRoute, createMockWaypoint } from '../../__tests__/integration/testUtils';
+
+// Each stop keeps its name, address and position wherever it is ordered, so renumbering doesn't edit it
+const stop = (id: string, order: number, overrides: Partial<Waypoint> = {}): Waypoint => createMockWaypoint(order, {
+  id,
+  name: `Stop ${id}`,
+  address: `${id} Test Street, Sydney NSW`,
+  coordinates: [151 + id.charCodeAt(0) / 1000, -33.8],
+  ...overrides,
+});
+
+const geometry: GeoJSON.LineString = { type: 'LineString', coordinates: [[151, -33.8], [151.02, -33.8]] };
+
+const baseWaypoints = [stop('a', 0), stop('b', 1), stop('c', 2)];
+
+describe('routeDiff', () => {
+  describe('diffWaypoints', () => {
+    it('should report added and removed stops', () => {
+      const after = [stop('a', 0), stop('c', 1), stop('d', 2)];
+
+      expect(diffWaypoints(baseWaypoints, after)).toEqual([
+        { waypointId: 'd', label: 'Stop d', type: 'added' },
+        { waypointId: 'b', label: 'Stop b', type: 'removed' },
+      ]);
+    });
+
+    it('should report moved, renamed and edited stops', () => {
+      const after = [
+        stop('a', 0, { coordinates: [150, -34] }),
+        stop('b', 1, { name: 'Town Square' }),
+        stop('c', 2, { notes: 'Park on the grass' }),
+      ];
+
+      expect(diffWaypoints(baseWaypoints, after)).toEqual([
+        { waypointId: 'a', label: 'Stop a', type: 'moved' },
+        { waypointId: 'b', label: 'Town Square', type: 'renamed' },
+        { waypointId: 'c', label: 'Stop c', type: 'edited' },
+      ]);
+    });
+
+    it('should only report the stop that was moved in the order', () => {
+      const after = [stop('b', 0), stop('c', 1), stop('a', 2)];
+
+      expect(diffWaypoints(baseWaypoints, after)).toEqual([
+        { waypointId: 'a', label: 'Stop a', type: 'reordered' },
+      ]);
+    });
+
+    it('should not report renumbering after a removal', () => {
+      const after = [stop('b', 0), stop('c', 1)];
+
+      expect(diffWaypoints(baseWaypoints, after)).toEqual([
+        { waypointId: 'a', label: 'Stop a', type: 'removed' },
+      ]);
+    });
+  });
+
+  describe('mergeRouteEdits', () => {
+    it('should combine stops added and removed on each side', () => {
+      const base = createMockRoute({ waypoints: baseWaypoints });
+      const mine = createMockRoute({ waypoints: [stop('a', 0), stop('c', 1), stop('mine', 2)] });
+      const theirs = createMockRoute({ waypoints: [...baseWaypoints, stop('theirs', 3)], version: 'v2' });
+
+      const merged = mergeRouteEdits(base, mine, theirs);
+
+      expect(merged.waypoints.map(wp => wp.id)).toEqual(['a', 'c', 'theirs', 'mine']);
+      expect(merged.waypoints.map(wp => wp.order)).toEqual([0, 1, 2, 3]);
+      expect(merged.version).toBe('v2');
+    });
+
+    it('should keep my edits to a stop over theirs and theirs elsewhere', () => {
+      const base = createMockRoute({ waypoints: baseWaypoints });
+      const mine = createMockRoute({ waypoints: [stop('a', 0, { name: 'Mine' }), stop('b', 1), stop('c', 2)] });
+      const theirs = createMockRoute({
+        waypoints: [
+          stop('a', 0, { name: 'Theirs' }),
+          stop('b', 1, { notes: 'Their note' }),
+          stop('c', 2),
+        ],
+      });
+
+      const merged = mergeRouteEdits(base, mine, theirs);
+
+      expect(merged.waypoints[0].name).toBe('Mine');
+      expect(merged.waypoints[1].notes).toBe('Their note');
+    });
+
+    it('should keep my order when I reordered the stops', () => {
+      const base = createMockRoute({ waypoints: baseWaypoints });
+      const mine = createMockRoute({ waypoints: [stop('c', 0), stop('b', 1), stop('a', 2)] });
+      const theirs = createMockRoute({ waypoints: [...baseWaypoints, stop('d', 3)] });
+
+      expect(mergeRouteEdits(base, mine, theirs).waypoints.map(wp => wp.id)).toEqual(['c', 'b', 'a', 'd']);
+    });
+
+    it('should merge route details field by field', () => {
+      const base = createMockRoute({ waypoints: baseWaypoints });
+      const mine = createMockRoute({ waypoints: baseWaypoints, name: 'Santa Sleigh Run' });
+      const theirs = createMockRoute({ waypoints: baseWaypoints, startTime: '18:30' });
+
+      const merged = mergeRouteEdits(base, mine, theirs);
+
+      expect(merged.name).toBe('Santa Sleigh Run');
+      expect(merged.startTime).toBe('18:30');
+    });
+
+    it('should keep the planned path only while it matches the merged stops', () => {
+      const base = createMockRoute({ waypoints: baseWaypoints });
+      const theirs = createMockRoute({ waypoints: baseWaypoints, geometry, distance: 2000 });
+
+      const renamed = createMockRoute({ waypoints: [stop('a', 0, { name: 'Renamed' }), stop('b', 1), stop('c', 2)] });
+      expect(mergeRouteEdits(base, renamed, theirs).geometry).toEqual(geometry);
+
+      const added = createMockRoute({ waypoints: [...baseWaypoints, stop('d', 3)] });
+      const merged = mergeRouteEdits(base, added, theirs);
+      expect(merged.geometry).toBeUndefined();
+      expect(merged.distance).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,168 @@
+/**
+ * Unit tests for GPX, KML and GeoJSON route import and export
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  detectRouteFileFormat,
+  exportRouteFile,
+  getRouteFileName,
+  parseRouteFile,
+  ROUTE_FILE_FORMATS,
+} from '../routeFiles';
+import type { TrackPoint } from '../../types';
+import { createMockRoute, createMockWaypoint } from '../../__tests__/integration/testUtils';
+
+// Stops out of order, with characters every format has to escape
+const carolsRoute = createMockRoute({
+  name: 'Christmas Eve Run & Carols',
+  status: 'completed',
+  waypoints: [
+    createMockWaypoint(1, {
+      coordinates: [151.2153, -33.8568],
+      name: 'Opera House <forecourt>',
+      address: undefined,
+      notes: 'Park on the "left"',
+      isCompleted: true,
+    }),
+    createMockWaypoint(0, {
+      coordinates: [151.2093, -33.8688],
+      name: 'Town Hall',
+      address: '483 George St, Sydney NSW 2000',
+      isCompleted: true,
+    }),
+  ],
+  geometry: {
+    type: 'LineString',
+    coordinates: [[151.2093, -33.8688], [151.2120, -33.8620], [151.2153, -33.8568]],
+  },
+});
+
+const TRACK: TrackPoint[] = [
+  { location: [151.2093, -33.8688], timestamp: Date.parse('2024-12-24T18:00:00.000Z') },
+  { location: [151.2101, -33.8650], timestamp: Date.parse('2024-12-24T18:00:05.000Z') },
+  { location: [151.2153, -33.8568], timestamp: Date.parse('2024-12-24T18:00:10.000Z') },
+];
+
+describe('routeFiles', () => {
+  describe.each(ROUTE_FILE_FORMATS)('%s round trip', format => {
+    it('should round-trip the planned route', () => {
+      const route = carolsRoute;
+
+      const imported = parseRouteFile(exportRouteFile(route, format), format);
+
+      expect(imported.name).toBe(route.name);
+      expect(imported.waypoints).toEqual([
+        { coordinates: [151.2093, -33.8688], name: 'Town Hall', address: '483 George St, Sydney NSW 2000' },
+        { coordinates: [151.2153, -33.8568], name: 'Opera House <forecourt>', notes: 'Park on the "left"' },
+      ]);
+      expect(imported.geometry).toEqual(route.geometry);
+      expect(imported.track).toBeUndefined();
+    });
+
+    it('should round-trip the driven track with timestamps', () => {
+      const imported = parseRouteFile(exportRouteFile(carolsRoute, format, TRACK), format);
+
+      expect(imported.waypoints).toEqual([]);
+      expect(imported.geometry?.coordinates).toEqual(TRACK.map(point => point.location));
+      expect(imported.track).toEqual(TRACK);
+    });
+
+    it('should export waypoints without geometry for unplanned routes', () => {
+      const imported = parseRouteFile(exportRouteFile(createMockRoute({ ...carolsRoute, geometry: undefined }), format), format);
+
+      expect(imported.waypoints).toHaveLength(2);
+      expect(imported.geometry).toBeUndefined();
+    });
+  });
+
+  describe('parseRouteFile', () => {
+    it('should read GPX route points when there are no waypoints', () => {
+      const gpx = `<?xml version="1.0"?>
+        <gpx version="1.1" xmlns="http://www.topografix.com/GPX/1/1">
+          <rte><name>Last year</name>
+            <rtept lat="-33.1" lon="151.1"><name>Start</name></rtept>
+            <rtept lat="-33.2" lon="151.2"/>
+          </rte>
+        </gpx>`;
+
+      const imported = parseRouteFile(gpx, 'gpx');
+
+      expect(imported.name).toBe('Last year');
+      expect(imported.waypoints).toEqual([
+        { coordinates: [151.1, -33.1], name: 'Start' },
+        { coordinates: [151.2, -33.2] },
+      ]);
+    });
+
+    it('should read Google My Maps KML with folders and altitudes', () => {
+      const kml = `<?xml version="1.0" encoding="UTF-8"?>
+        <kml xmlns="http://www.opengis.net/kml/2.2"><Document><name>Santa Run</name>
+          <Folder><name>Stops</name>
+            <Placemark><name>Park</name><Point><coordinates>
+              151.1,-33.1,0
+            </coordinates></Point></Placemark>
+          </Folder>
+          <Folder><name>Route</name>
+            <Placemark><name>Line</name><LineString><tessellate>1</tessellate><coordinates>
+              151.1,-33.1,0 151.2,-33.2,0
+            </coordinates></LineString></Placemark>
+          </Folder>
+        </Document></kml>`;
+
+      const imported = parseRouteFile(kml, 'kml');
+
+      expect(imported.name).toBe('Santa Run');
+      expect(imported.waypoints).toEqual([{ coordinates: [151.1, -33.1], name: 'Park' }]);
+      expect(imported.geometry?.coordinates).toEqual([[151.1, -33.1], [151.2, -33.2]]);
+    });
+
+    it('should read a bare GeoJSON geometry', () => {
+      const imported = parseRouteFile(
+        JSON.stringify({ type: 'MultiLineString', coordinates: [[[151.1, -33.1], [151.2, -33.2]], [[151.3, -33.3]]] }),
+        'geojson'
+      );
+
+      expect(imported.geometry?.coordinates).toEqual([[151.1, -33.1], [151.2, -33.2], [151.3, -33.3]]);
+    });
+
+    it('should reject malformed files', () => {
+      expect(() => parseRouteFile('<gpx><wpt', 'gpx')).toThrow('Not a valid GPX file');
+      expect(() => parseRouteFile('<gpx version="1.1"></gpx>', 'kml')).toThrow('Not a valid KML file');
+      expect(() => parseRouteFile('{not json', 'geojson')).toThrow('Not a valid GeoJSON file');
+    });
+
+    it('should reject files without waypoints or tracks', () => {
+      expect(() => parseRouteFile('<gpx version="1.1"></gpx>', 'gpx')).toThrow('No waypoints or tracks found in file');
+    });
+
+    it('should reject coordinates outside the valid range', () => {
+      expect(() => parseRouteFile(
+        JSON.stringify({ type: 'Point', coordinates: [200, -33] }),
+        'geojson'
+      )).toThrow('File contains invalid coordinates');
+    });
+  });
+
+  describe('detectRouteFileFormat', () => {
+    it('should detect the format from the file extension', () => {
+      expect(detectRouteFileFormat('run.GPX', '')).toBe('gpx');
+      expect(detectRouteFileFormat('run.kml', '')).toBe('kml');
+      expect(detectRouteFileFormat('run.json', '')).toBe('geojson');
+    });
+
+    it('should fall back to the file content', () => {
+      expect(detectRouteFileFormat('export', '<?xml version="1.0"?><gpx version="1.1">')).toBe('gpx');
+      expect(detectRouteFileFormat('export', '<kml xmlns="x">')).toBe('kml');
+      expect(detectRouteFileFormat('export', ' {"type":"Feature"}')).toBe('geojson');
+      expect(detectRouteFileFormat('photo.png', 'PNG')).toBeNull();
+    });
+  });
+
+  describe('getRouteFileName', () => {
+    it('should build a file name from the route name', () => {
+      expect(getRouteFileName(carolsRoute, 'gpx', 'planned')).toBe('christmas-eve-run-carols-planned.gpx');
+      expect(getRouteFileName(createMockRoute({ ...carolsRoute, name: '!!!' }), 'geojson', 'track')).toBe('route-track.geojson');
+    });
+  });
+});
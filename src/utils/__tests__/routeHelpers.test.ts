@@ -17,6 +17,8 @@ import {
   getStatusLabel,
   validateRoute,
   createNewRoute,
+  duplicateRoute,
+  calculateEstimatedArrivals,
 } from '../routeHelpers';
 import type { Route, Waypoint, RouteStatus } from '../../types';
 
@@ -330,6 +332,74 @@ describe('routeHelpers', () => {
     });
   });
 
+  describe('duplicateRoute', () => {
+    const completedRoute: Route = {
+      id: 'route-2024',
+      brigadeId: 'brigade-1',
+      name: 'Christmas Eve run',
+      date: '2024-12-24',
+      startTime: '18:00',
+      status: 'completed',
+      waypoints: [
+        {
+          id: 'wp-1',
+          name: 'Fire station',
+          coordinates: [151.2, -33.8],
+          order: 0,
+          scheduledArrival: '18:00',
+          estimatedArrival: '2024-12-24T07:00:00.000Z',
+          actualArrival: '2024-12-24T07:02:00.000Z',
+          isCompleted: true,
+          vehicleId: 'truck-1',
+          completedByVehicleId: 'truck-1',
+        },
+      ],
+      vehicles: [{ id: 'truck-1', callsign: 'Cattai 1', color: '#D32F2F' }],
+      distance: 5000,
+      createdAt: '2024-12-01T00:00:00.000Z',
+      createdBy: 'user-1',
+      publishedAt: '2024-12-20T00:00:00.000Z',
+      startedAt: '2024-12-24T07:00:00.000Z',
+      completedAt: '2024-12-24T10:00:00.000Z',
+      shareableLink: 'https://example.com/track/route-2024',
+      viewCount: 412,
+    };
+
+    it('should copy the plan as a new draft with fresh IDs', () => {
+      const copy = duplicateRoute(completedRoute, 'user-2');
+
+      expect(copy.id).not.toBe(completedRoute.id);
+      expect(copy.id).toMatch(/^route_/);
+      expect(copy.name).toBe('Christmas Eve run (copy)');
+      expect(copy.status).toBe('draft');
+      expect(copy.createdBy).toBe('user-2');
+      expect(copy.distance).toBe(5000);
+      expect(copy.vehicles).toEqual(completedRoute.vehicles);
+      expect(copy.waypoints[0].id).toMatch(/^waypoint_/);
+      expect(copy.waypoints[0]).toMatchObject({ name: 'Fire station', scheduledArrival: '18:00', vehicleId: 'truck-1' });
+    });
+
+    it('should clear runtime fields', () => {
+      const copy = duplicateRoute(completedRoute);
+
+      expect(copy.viewCount).toBe(0);
+      expect(copy.startedAt).toBeUndefined();
+      expect(copy.publishedAt).toBeUndefined();
+      expect(copy.completedAt).toBeUndefined();
+      expect(copy.shareableLink).toBeUndefined();
+      expect(copy.waypoints[0].isCompleted).toBe(false);
+      expect(copy.waypoints[0].actualArrival).toBeUndefined();
+      expect(copy.waypoints[0].estimatedArrival).toBeUndefined();
+      expect(copy.waypoints[0].completedByVehicleId).toBeUndefined();
+    });
+
+    it('should not share nested objects with the original', () => {
+      const copy = duplicateRoute(completedRoute);
+      copy.vehicles![0].callsign = 'Cattai 2';
+      expect(completedRoute.vehicles![0].callsign).toBe('Cattai 1');
+    });
+  });
+
   describe('createNewRoute', () => {
     it('should create new route with default values', () => {
       const brigadeId = 'brigade-123';
@@ -365,4 +435,36 @@ describe('routeHelpers', () => {
       expect(route1.id).not.toBe(route2.id);
     });
   });
+
+  describe('calculateEstimatedArrivals', () => {
+    it('should add each leg and the dwell time at the previous stop', () => {
+      const line = { type: 'LineString' as const, coordinates: [] };
+      const step = (type: string, duration: number) => ({
+        instruction: type,
+        distance: 0,
+        duration,
+        geometry: line,
+        maneuver: { type, location: [0, 0] as [number, number] },
+      });
+      const route: Route = {
+        ...createNewRoute('brigade-1'),
+        waypoints: [
+          { id: 'wp-0', coordinates: [0, 0], order: 0, isCompleted: false },
+          { id: 'wp-1', coordinates: [0, 0], order: 1, isCompleted: false, dwellMinutes: 10 },
+          { id: 'wp-2', coordinates: [0, 0], order: 2, isCompleted: false },
+        ],
+        navigationSteps: [step('depart', 300), step('arrive', 0), step('depart', 120), step('arrive', 0)],
+        defaultDwellMinutes: 5,
+      };
+      const start = new Date('2024-12-24T18:00:00.000Z');
+
+      const arrivals = calculateEstimatedArrivals(route, start).map(wp => wp.estimatedArrival);
+
+      expect(arrivals).toEqual([
+        '2024-12-24T18:00:00.000Z',
+        '2024-12-24T18:10:00.000Z', // 5 min stop + 5 min drive
+        '2024-12-24T18:22:00.000Z', // 10 min stop + 2 min drive
+      ]);
+    });
+  });
 });
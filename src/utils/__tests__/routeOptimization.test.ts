@@ -0,0 +1,131 @@
+/**
+ * Unit tests for waypoint visit-order optimisation
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  applyWaypointOrder,
+  optimizeWaypointOrder,
+  solveVisitOrder,
+  straightLineMatrixProvider,
+} from '../routeOptimization';
+import type { Waypoint } from '../../types';
+import { createMockWaypoint } from '../../__tests__/integration/testUtils';
+
+// Points along a street, roughly 1km apart, entered out of order
+const STOPS: Record<string, [number, number]> = {
+  a: [151.20, -33.87],
+  b: [151.21, -33.87],
+  c: [151.22, -33.87],
+  d: [151.23, -33.87],
+  e: [151.24, -33.87],
+};
+
+function makeWaypoints(ids: string[]): Waypoint[] {
+  return ids.map((id, order) => createMockWaypoint(order, { id, coordinates: STOPS[id] }));
+}
+
+describe('routeOptimization', () => {
+  describe('solveVisitOrder', () => {
+    it('should find the shortest path through points on a line', () => {
+      // Node i is at position i, so visiting in index order is optimal
+      const positions = [0, 3, 1, 4, 2];
+      const costs = positions.map(from => positions.map(to => Math.abs(from - to)));
+
+      const order = solveVisitOrder(costs, { start: 0, end: null, roundTrip: false });
+
+      expect(order.map(node => positions[node])).toEqual([1, 2, 3, 4]);
+    });
+
+    it('should keep a fixed end node last', () => {
+      const positions = [0, 5, 3, 2];
+      const costs = positions.map(from => positions.map(to => Math.abs(from - to)));
+
+      const order = solveVisitOrder(costs, { start: 0, end: 1, roundTrip: false });
+
+      expect(order).toEqual([3, 2]);
+    });
+
+    it('should never return a worse order than the initial one', () => {
+      // Asymmetric costs where the nearest neighbour is a trap
+      const costs = [
+        [0, 1, 10, 10],
+        [10, 0, 1, 50],
+        [10, 10, 0, 1],
+        [1, 10, 10, 0],
+      ];
+
+      const order = solveVisitOrder(costs, { start: 0, end: null, roundTrip: true }, [1, 2, 3]);
+
+      expect(order).toEqual([1, 2, 3]);
+    });
+  });
+
+  describe('optimizeWaypointOrder', () => {
+    it('should propose a shorter order and report the savings', async () => {
+      const waypoints = makeWaypoints(['a', 'd', 'b', 'e', 'c']);
+
+      const proposal = await optimizeWaypointOrder(waypoints, {}, straightLineMatrixProvider);
+
+      expect(proposal.waypointIds).toEqual(['a', 'b', 'c', 'd', 'e']);
+      expect(proposal.optimized.distance).toBeLessThan(proposal.current.distance);
+      expect(proposal.optimized.duration).toBeLessThan(proposal.current.duration);
+      expect(proposal.source).toBe('estimate');
+    });
+
+    it('should start from a fixed start that is not a waypoint', async () => {
+      const waypoints = makeWaypoints(['a', 'c', 'e']);
+      const station: [number, number] = [151.25, -33.87];
+
+      const proposal = await optimizeWaypointOrder(waypoints, { start: station }, straightLineMatrixProvider);
+
+      expect(proposal.waypointIds).toEqual(['e', 'c', 'a']);
+    });
+
+    it('should keep a fixed end waypoint last', async () => {
+      const waypoints = makeWaypoints(['c', 'a', 'b', 'e', 'd']);
+
+      const proposal = await optimizeWaypointOrder(
+        waypoints,
+        { fixedEndWaypointId: 'b' },
+        straightLineMatrixProvider
+      );
+
+      expect(proposal.waypointIds[0]).toBe('c');
+      expect(proposal.waypointIds[proposal.waypointIds.length - 1]).toBe('b');
+      expect(proposal.waypointIds).toHaveLength(5);
+    });
+
+    it('should include the drive back to the start for round trips', async () => {
+      const waypoints = makeWaypoints(['a', 'b', 'c']);
+
+      const oneWay = await optimizeWaypointOrder(waypoints, {}, straightLineMatrixProvider);
+      const roundTrip = await optimizeWaypointOrder(waypoints, { returnToStart: true }, straightLineMatrixProvider);
+
+      expect(roundTrip.optimized.distance).toBeGreaterThan(oneWay.optimized.distance);
+      expect(roundTrip.waypointIds[0]).toBe('a');
+    });
+
+    it('should require at least 2 waypoints', async () => {
+      await expect(optimizeWaypointOrder(makeWaypoints(['a']), {}, straightLineMatrixProvider))
+        .rejects.toThrow('At least 2 waypoints required');
+    });
+  });
+
+  describe('applyWaypointOrder', () => {
+    it('should reorder waypoints and renumber their order', () => {
+      const waypoints = makeWaypoints(['a', 'b', 'c']);
+
+      const result = applyWaypointOrder(waypoints, ['c', 'a', 'b']);
+
+      expect(result?.map(wp => [wp.id, wp.order])).toEqual([['c', 0], ['a', 1], ['b', 2]]);
+    });
+
+    it('should return null when the waypoints have changed', () => {
+      const waypoints = makeWaypoints(['a', 'b']);
+
+      expect(applyWaypointOrder(waypoints, ['a', 'b', 'c'])).toBeNull();
+      expect(applyWaypointOrder(waypoints, ['a', 'x'])).toBeNull();
+    });
+  });
+});
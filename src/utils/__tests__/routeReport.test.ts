@@ -0,0 +1,147 @@
+/**
+ * Unit tests for the post-run summary report
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  buildReportMapUrl,
+  buildRouteReportHtml,
+  downsampleLine,
+  encodePolyline,
+  getRouteReportFileName,
+  measureDrivenDistance,
+} from '../routeReport';
+import type { RouteViewerAnalytics, TrackPoint } from '../../types';
+import { createMockRoute, createMockWaypoint } from '../../__tests__/integration/testUtils';
+
+const completedRoute = createMockRoute({
+  name: 'Christmas Eve Run <North>',
+  date: '2026-12-24',
+  status: 'completed',
+  waypoints: [
+    createMockWaypoint(0, {
+      coordinates: [151.2093, -33.8688],
+      name: 'Town Hall',
+      scheduledArrival: '18:10',
+      actualArrival: new Date(2026, 11, 24, 18, 25).toISOString(),
+      isCompleted: true,
+    }),
+    createMockWaypoint(1, { coordinates: [151.2153, -33.8568], name: undefined, address: '1 Macquarie St' }),
+  ],
+  geometry: { type: 'LineString', coordinates: [[151.2093, -33.8688], [151.2153, -33.8568]] },
+  distance: 1500,
+  estimatedDuration: 3600,
+  actualDuration: 4500,
+});
+
+const track: TrackPoint[] = [
+  { location: [151.2093, -33.8688], timestamp: 1 },
+  { location: [151.2103, -33.8688], timestamp: 2 },
+];
+
+describe('routeReport', () => {
+  describe('encodePolyline', () => {
+    it('should match the reference polyline encoding', () => {
+      expect(encodePolyline([[-120.2, 38.5], [-120.95, 40.7], [-126.453, 43.252]])).toBe('_p~iF~ps|U_ulLnnqC_mqNvxq`@');
+    });
+  });
+
+  describe('downsampleLine', () => {
+    it('should keep both ends of a thinned line', () => {
+      const line = Array.from({ length: 101 }, (_, index) => [index, 0] as [number, number]);
+      const thinned = downsampleLine(line, 11);
+
+      expect(thinned).toHaveLength(11);
+      expect(thinned[0]).toEqual([0, 0]);
+      expect(thinned[10]).toEqual([100, 0]);
+    });
+  });
+
+  describe('measureDrivenDistance', () => {
+    it('should not count the gap between two vehicles', () => {
+      const distance = measureDrivenDistance([
+        { vehicleId: 'a', location: [151.2, -33.8], timestamp: 1 },
+        { vehicleId: 'b', location: [150.0, -33.8], timestamp: 2 },
+        { vehicleId: 'a', location: [151.201, -33.8], timestamp: 3 },
+      ]);
+
+      expect(distance).toBeGreaterThan(80);
+      expect(distance).toBeLessThan(100);
+    });
+  });
+
+  describe('buildReportMapUrl', () => {
+    it('should draw the planned and driven paths', () => {
+      const url = buildReportMapUrl(completedRoute, track, 'pk.test');
+
+      expect(url).toContain('path-4+1E88E5');
+      expect(url).toContain('path-3+43A047');
+      expect(url).toContain('access_token=pk.test');
+    });
+
+    it('should thin long tracks to fit the URL limit', () => {
+      const longTrack = Array.from({ length: 5000 }, (_, index): TrackPoint => ({
+        location: [151 + Math.sin(index) * 0.1, -33.8 + index * 0.0001],
+        timestamp: index,
+      }));
+
+      expect(buildReportMapUrl(completedRoute, longTrack, 'pk.test')!.length).toBeLessThanOrEqual(8000);
+    });
+
+    it('should return null with nothing to draw', () => {
+      expect(buildReportMapUrl(createMockRoute({ ...completedRoute, geometry: undefined }), [], 'pk.test')).toBeNull();
+    });
+  });
+
+  describe('buildRouteReportHtml', () => {
+    const analytics: RouteViewerAnalytics = {
+      routeId: 'route-1',
+      opens: 1234,
+      uniqueViewers: 800,
+      embedOpens: 0,
+      peakConcurrent: 150,
+      averageSessionSeconds: 600,
+      timeline: [],
+      areas: [],
+      timeZones: [],
+      generatedAt: 0,
+    };
+
+    it('should include the timings, stops and viewer stats', () => {
+      const html = buildRouteReportHtml({
+        route: completedRoute,
+        track,
+        analytics,
+        brigadeName: 'Cattai RFS',
+        generatedAt: new Date(2026, 11, 25, 9, 0),
+      });
+
+      expect(html).toContain('Christmas Eve Run &lt;North&gt;');
+      expect(html).toContain('Cattai RFS');
+      expect(html).toContain('<td>1h 15m</td>');
+      expect(html).toContain('15m longer');
+      expect(html).toContain('Running 15 min late');
+      expect(html).toContain('Not visited');
+      expect(html).toContain('1 Macquarie St');
+      expect(html).toContain((1234).toLocaleString());
+    });
+
+    it('should fall back to the stored view count without viewer stats', () => {
+      const html = buildRouteReportHtml({
+        route: createMockRoute({ ...completedRoute, viewCount: 42 }),
+        track: [],
+        analytics: null,
+        generatedAt: new Date(),
+      });
+
+      expect(html).toContain('42 live viewer connections');
+      expect(html).toContain('No track recorded');
+    });
+  });
+
+  describe('getRouteReportFileName', () => {
+    it('should name the file after the route and date', () => {
+      expect(getRouteReportFileName(completedRoute)).toBe('christmas-eve-run-north-report-2026-12-24.html');
+    });
+  });
+});
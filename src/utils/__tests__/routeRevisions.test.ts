@@ -0,0 +1,130 @@
+/**
+ * Unit tests for route version history
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  applyRouteSnapshot,
+  canRestoreRevision,
+  createRouteRevision,
+  summarizeRouteChanges,
+  takeRouteSnapshot,
+} from '../routeRevisions';
+import type { Waypoint } from '../../types';
+import { createMockRoute, createMockWaypoint } from '../../__tests__/integration/testUtils';
+
+// Each stop keeps its name, address and position wherever it is ordered, so renumbering doesn't edit it
+const stop = (id: string, order: number, overrides: Partial<Waypoint> = {}): Waypoint => createMockWaypoint(order, {
+  id,
+  name: `Stop ${id}`,
+  address: `${id} Test Street, Sydney NSW`,
+  coordinates: [151 + id.charCodeAt(0) / 1000, -33.8],
+  ...overrides,
+});
+
+const stops = [stop('a', 0), stop('b', 1), stop('c', 2)];
+
+const savedAt = new Date('2026-12-01T09:00:00Z');
+
+describe('routeRevisions', () => {
+  describe('summarizeRouteChanges', () => {
+    it('should summarise a new route by its stops', () => {
+      expect(summarizeRouteChanges(null, createMockRoute({ waypoints: stops }))).toBe('Created with 3 stops');
+    });
+
+    it('should count each kind of stop change', () => {
+      const before = createMockRoute({ waypoints: stops });
+      const after = createMockRoute({
+        waypoints: [
+          stop('c', 0),
+          stop('a', 1, { name: 'Town Square', coordinates: [151.2, -33.9] }),
+          stop('d', 2),
+        ],
+      });
+
+      expect(summarizeRouteChanges(before, after))
+        .toBe('1 stop added, 1 stop removed, 1 stop moved, 1 stop renamed, 1 stop reordered');
+    });
+
+    it('should list changed plan fields after the stops', () => {
+      const after = createMockRoute({ waypoints: stops, name: 'Boxing Day run', startTime: '17:30' });
+
+      expect(summarizeRouteChanges(createMockRoute({ waypoints: stops }), after)).toBe('name, startTime changed');
+    });
+
+    it('should ignore progress on the stops', () => {
+      const before = createMockRoute({ waypoints: stops, status: 'active' });
+      const after = createMockRoute({
+        status: 'active',
+        waypoints: before.waypoints.map(wp => ({ ...wp, isCompleted: true, actualArrival: '2026-12-24T18:10:00Z' })),
+      });
+
+      expect(summarizeRouteChanges(before, after)).toBe('');
+    });
+  });
+
+  describe('createRouteRevision', () => {
+    it('should snapshot the plan with who saved it', () => {
+      const route = createMockRoute({ waypoints: stops });
+
+      const revision = createRouteRevision(null, route, savedAt, { id: 'user-1', name: 'Captain Jones' });
+
+      expect(revision).toMatchObject({
+        routeId: 'test-route-123',
+        brigadeId: 'test-brigade',
+        savedAt: '2026-12-01T09:00:00.000Z',
+        authorId: 'user-1',
+        authorName: 'Captain Jones',
+        summary: 'Created with 3 stops',
+        stopCount: 3,
+      });
+      expect(revision?.snapshot).toEqual(takeRouteSnapshot(route));
+      expect(revision?.snapshot).not.toHaveProperty('status');
+    });
+
+    it('should skip saves that leave the plan alone', () => {
+      const route = createMockRoute({ waypoints: stops });
+
+      expect(createRouteRevision(route, { ...route, version: '4' }, savedAt)).toBeNull();
+    });
+
+    it('should always record a restore', () => {
+      const route = createMockRoute({ waypoints: stops });
+
+      const revision = createRouteRevision(route, route, savedAt, {}, 'revision-1');
+
+      expect(revision?.summary).toBe('No changes');
+      expect(revision?.restoredFrom).toBe('revision-1');
+    });
+  });
+
+  describe('applyRouteSnapshot', () => {
+    it('should put the plan back and keep the route\'s status and version', () => {
+      const earlier = createMockRoute({ waypoints: stops });
+      const current = createMockRoute({
+        name: 'Renamed run',
+        status: 'published',
+        publishedAt: '2026-12-02T00:00:00Z',
+        waypoints: [stop('a', 0)],
+        version: '7',
+      });
+
+      const restored = applyRouteSnapshot(current, takeRouteSnapshot(earlier));
+
+      expect(restored.name).toBe('Test Santa Run 2024');
+      expect(restored.waypoints.map(wp => wp.id)).toEqual(['a', 'b', 'c']);
+      expect(restored.status).toBe('published');
+      expect(restored.publishedAt).toBe('2026-12-02T00:00:00Z');
+      expect(restored.version).toBe('7');
+    });
+  });
+
+  describe('canRestoreRevision', () => {
+    it('should only restore routes whose plan can still change', () => {
+      expect(canRestoreRevision({ status: 'draft' })).toBe(true);
+      expect(canRestoreRevision({ status: 'published' })).toBe(true);
+      expect(canRestoreRevision({ status: 'active' })).toBe(false);
+      expect(canRestoreRevision({ status: 'completed' })).toBe(false);
+    });
+  });
+});
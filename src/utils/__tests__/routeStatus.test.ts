@@ -0,0 +1,49 @@
+/**
+ * Unit tests for route status transitions
+ */
+
+import { describe, it, expect } from 'vitest';
+import { RouteTransitionError, applyRouteTransition, getAvailableTransitions, getTransitionError } from '../routeStatus';
+import { createMockRoute, createMockWaypoint } from '../../__tests__/integration/testUtils';
+
+const draftRoute = createMockRoute({ waypoints: [createMockWaypoint(0), createMockWaypoint(1)] });
+
+describe('routeStatus', () => {
+  describe('getAvailableTransitions', () => {
+    it('should list the transitions allowed from each status', () => {
+      expect(getAvailableTransitions('draft')).toEqual(['publish']);
+      expect(getAvailableTransitions('published')).toEqual(['start', 'revert-to-draft']);
+      expect(getAvailableTransitions('active')).toEqual(['complete']);
+      expect(getAvailableTransitions('completed')).toEqual(['archive']);
+      expect(getAvailableTransitions('archived')).toEqual([]);
+    });
+  });
+
+  describe('getTransitionError', () => {
+    it('should reject a route with too few waypoints for publishing', () => {
+      const error = getTransitionError(createMockRoute({ ...draftRoute, waypoints: [] }), 'publish');
+
+      expect(error?.code).toBe('ROUTE_INCOMPLETE');
+    });
+
+    it('should reject out-of-order transitions', () => {
+      expect(getTransitionError(draftRoute, 'complete')?.code).toBe('INVALID_TRANSITION');
+      expect(getTransitionError(draftRoute, 'publish')).toBeNull();
+    });
+  });
+
+  describe('applyRouteTransition', () => {
+    it('should stamp startedAt when a route starts', () => {
+      const now = new Date('2026-12-24T18:05:00.000Z');
+      const started = applyRouteTransition(createMockRoute({ ...draftRoute, status: 'published' }), 'start', now);
+
+      expect(started.status).toBe('active');
+      expect(started.startedAt).toBe(now.toISOString());
+    });
+
+    it('should throw a RouteTransitionError for invalid transitions', () => {
+      expect(() => applyRouteTransition(createMockRoute({ ...draftRoute, status: 'archived' }), 'start', new Date()))
+        .toThrow(RouteTransitionError);
+    });
+  });
+});
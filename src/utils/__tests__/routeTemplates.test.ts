@@ -0,0 +1,73 @@
+/**
+ * Unit tests for brigade route templates
+ */
+
+import { describe, it, expect } from 'vitest';
+import { createRouteFromTemplate, createTemplateFromRoute, shiftTime } from '../routeTemplates';
+import type { Route } from '../../types';
+
+const lastYear: Route = {
+  id: 'route-2024',
+  brigadeId: 'brigade-1',
+  name: 'Christmas Eve run',
+  date: '2024-12-24',
+  startTime: '18:00',
+  endTime: '21:30',
+  status: 'completed',
+  waypoints: [
+    { id: 'wp-1', coordinates: [151.2, -33.8], order: 0, scheduledArrival: '18:00', isCompleted: true, actualArrival: '2024-12-24T07:01:00.000Z' },
+    { id: 'wp-2', coordinates: [151.3, -33.8], order: 1, scheduledArrival: '23:50', isCompleted: true },
+    { id: 'wp-3', coordinates: [151.4, -33.8], order: 2, isCompleted: false },
+  ],
+  defaultDwellMinutes: 5,
+  createdAt: '2024-12-01T00:00:00.000Z',
+  startedAt: '2024-12-24T07:00:00.000Z',
+  viewCount: 412,
+};
+
+describe('routeTemplates', () => {
+  describe('shiftTime', () => {
+    it('should shift forwards and backwards across midnight', () => {
+      expect(shiftTime('18:00', 30)).toBe('18:30');
+      expect(shiftTime('23:50', 20)).toBe('00:10');
+      expect(shiftTime('00:10', -20)).toBe('23:50');
+    });
+  });
+
+  describe('createTemplateFromRoute', () => {
+    it('should keep the plan and drop run progress', () => {
+      const template = createTemplateFromRoute(lastYear, 'Village loop', 'user-1');
+
+      expect(template.id).toMatch(/^template_/);
+      expect(template).toMatchObject({ name: 'Village loop', brigadeId: 'brigade-1', startTime: '18:00', sourceRouteId: 'route-2024' });
+      expect(template.waypoints.every(wp => !wp.isCompleted && !wp.actualArrival)).toBe(true);
+    });
+  });
+
+  describe('createRouteFromTemplate', () => {
+    const template = createTemplateFromRoute(lastYear, 'Village loop');
+
+    it('should create a draft for the new date with fresh IDs', () => {
+      const route = createRouteFromTemplate(template, { date: '2025-12-24', startTime: '18:00', shiftScheduledTimes: true }, 'user-2');
+
+      expect(route.id).toMatch(/^route_/);
+      expect(route).toMatchObject({ status: 'draft', date: '2025-12-24', name: 'Village loop', createdBy: 'user-2', viewCount: 0 });
+      expect(route.waypoints.map(wp => wp.id)).not.toContain('wp-1');
+      expect(route.defaultDwellMinutes).toBe(5);
+    });
+
+    it('should shift scheduled times with the start time', () => {
+      const route = createRouteFromTemplate(template, { date: '2025-12-24', startTime: '18:30', shiftScheduledTimes: true });
+
+      expect(route.endTime).toBe('22:00');
+      expect(route.waypoints.map(wp => wp.scheduledArrival)).toEqual(['18:30', '00:20', undefined]);
+    });
+
+    it('should keep scheduled times when not shifting', () => {
+      const route = createRouteFromTemplate(template, { date: '2025-12-24', startTime: '18:30', shiftScheduledTimes: false });
+
+      expect(route.startTime).toBe('18:30');
+      expect(route.waypoints.map(wp => wp.scheduledArrival)).toEqual(['18:00', '23:50', undefined]);
+    });
+  });
+});
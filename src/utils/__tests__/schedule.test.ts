@@ -0,0 +1,108 @@
+/**
+ * Unit tests for schedule-vs-actual tracking
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  buildScheduleResults,
+  calculateScheduleDeviation,
+  formatScheduleDeviation,
+  getScheduledArrival,
+  isBehindSchedule,
+} from '../schedule';
+import { createMockRoute, createMockWaypoint } from '../../__tests__/integration/testUtils';
+
+const at = (time: string, date = '2024-12-24') => new Date(`${date}T${time}`);
+
+describe('schedule', () => {
+  describe('getScheduledArrival', () => {
+    it('should combine the route date with the target time', () => {
+      const route = createMockRoute();
+
+      expect(getScheduledArrival(route, { scheduledArrival: '18:30' })).toEqual(at('18:30'));
+    });
+
+    it('should treat times before the start as after midnight', () => {
+      const route = createMockRoute();
+
+      expect(getScheduledArrival(route, { scheduledArrival: '00:15' })).toEqual(at('00:15', '2024-12-25'));
+    });
+
+    it('should return null without a target time', () => {
+      expect(getScheduledArrival(createMockRoute(), {})).toBeNull();
+    });
+  });
+
+  describe('calculateScheduleDeviation', () => {
+    it('should compare the ETA with the next stop\'s target time', () => {
+      const route = createMockRoute({ waypoints: [
+        createMockWaypoint(0, { isCompleted: true, actualArrival: at('18:00').toISOString() }),
+        createMockWaypoint(1, { scheduledArrival: '18:30' }),
+      ] });
+
+      expect(calculateScheduleDeviation(route, at('18:37'), at('18:20').getTime())).toBe(420);
+      expect(calculateScheduleDeviation(route, at('18:25'), at('18:20').getTime())).toBe(-300);
+    });
+
+    it('should fall back to the last stop reached that had a target time', () => {
+      const route = createMockRoute({ waypoints: [
+        createMockWaypoint(0, {
+          scheduledArrival: '18:10',
+          dwellMinutes: 10,
+          isCompleted: true,
+          actualArrival: at('18:15').toISOString(),
+        }),
+        createMockWaypoint(1),
+      ] });
+
+      // Arrived 5 minutes late
+      expect(calculateScheduleDeviation(route, at('18:40'), at('18:16').getTime())).toBe(300);
+      // Still there 8 minutes after the planned departure
+      expect(calculateScheduleDeviation(route, at('18:40'), at('18:28').getTime())).toBe(480);
+    });
+
+    it('should return null when no stop has a target time', () => {
+      const route = createMockRoute({ waypoints: [createMockWaypoint(0), createMockWaypoint(1)] });
+
+      expect(calculateScheduleDeviation(route, at('18:30'), at('18:20').getTime())).toBeNull();
+    });
+  });
+
+  describe('formatScheduleDeviation', () => {
+    it('should describe how late or early the run is', () => {
+      expect(formatScheduleDeviation(420)).toBe('Running 7 min late');
+      expect(formatScheduleDeviation(-300)).toBe('Running 5 min early');
+      expect(formatScheduleDeviation(3900)).toBe('Running 1 h 5 min late');
+    });
+
+    it('should treat small deviations as on schedule', () => {
+      expect(formatScheduleDeviation(90)).toBe('On schedule');
+      expect(isBehindSchedule(90)).toBe(false);
+      expect(isBehindSchedule(420)).toBe(true);
+      expect(isBehindSchedule(null)).toBe(false);
+    });
+  });
+
+  describe('buildScheduleResults', () => {
+    it('should record planned and actual arrivals for stops with a target time', () => {
+      const route = createMockRoute({ waypoints: [
+        createMockWaypoint(0, { scheduledArrival: '18:10', isCompleted: true, actualArrival: at('18:16').toISOString() }),
+        createMockWaypoint(1),
+        createMockWaypoint(2, { scheduledArrival: '18:40' }),
+      ] });
+
+      expect(buildScheduleResults(route)).toEqual([
+        {
+          waypointId: 'waypoint-0',
+          scheduledArrival: at('18:10').toISOString(),
+          actualArrival: at('18:16').toISOString(),
+          deviation: 360,
+        },
+        {
+          waypointId: 'waypoint-2',
+          scheduledArrival: at('18:40').toISOString(),
+        },
+      ]);
+    });
+  });
+});
@@ -0,0 +1,148 @@
+/**
+ * Unit tests for route simulation and track replay
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import {
+  SimulationPlayer,
+  buildDriveTimeline,
+  buildReplayTimeline,
+  formatSimulationTime,
+} from '../simulation';
+import { calculateDistance } from '../navigation';
+import type { TrackPoint } from '../../types';
+import { createMockRoute, createMockWaypoint } from '../../__tests__/integration/testUtils';
+
+const LINE: [number, number][] = [[0, 0], [0.01, 0], [0.02, 0]];
+const LEG_METERS = calculateDistance(LINE[0], LINE[1]);
+
+const plannedRoute = createMockRoute({
+  geometry: { type: 'LineString', coordinates: LINE },
+  waypoints: [createMockWaypoint(0, { id: 'wp-1', coordinates: [0.01, 0.0001], dwellMinutes: 1 })],
+});
+
+describe('simulation', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe('buildDriveTimeline', () => {
+    it('should drive the line at the set speed and dwell at each stop', () => {
+      const timeline = buildDriveTimeline(plannedRoute, { speedKmh: 36 })!;
+      const legSeconds = LEG_METERS / 10;
+
+      expect(timeline.duration).toBeCloseTo(legSeconds * 2 + 60, 5);
+      expect(timeline.stops).toHaveLength(1);
+      expect(timeline.stops[0]).toBeCloseTo(legSeconds, 5);
+
+      const halfway = timeline.positionAt(legSeconds / 2);
+      expect(halfway.coordinates[0]).toBeCloseTo(0.005, 6);
+      expect(halfway.speed).toBeCloseTo(10, 5);
+      expect(halfway.heading).toBeCloseTo(90, 0);
+
+      const dwelling = timeline.positionAt(legSeconds + 30);
+      expect(dwelling.coordinates).toEqual([0.01, 0]);
+      expect(dwelling.speed).toBe(0);
+      expect(dwelling.waypointId).toBe('wp-1');
+    });
+
+    it('should use the route default dwell and stop at the end of the line', () => {
+      const timeline = buildDriveTimeline(createMockRoute({
+        ...plannedRoute,
+        defaultDwellMinutes: 2,
+        waypoints: [createMockWaypoint(0, { id: 'wp-1', coordinates: [0.01, 0] })],
+      }), { speedKmh: 36 })!;
+
+      expect(timeline.duration).toBeCloseTo(LEG_METERS / 5 + 120, 5);
+      const end = timeline.positionAt(timeline.duration + 100);
+      expect(end.coordinates).toEqual([0.02, 0]);
+      expect(end.speed).toBe(0);
+    });
+
+    it('should return null without geometry to drive', () => {
+      expect(buildDriveTimeline(createMockRoute({ ...plannedRoute, geometry: undefined }))).toBeNull();
+    });
+  });
+
+  describe('buildReplayTimeline', () => {
+    const track: TrackPoint[] = [
+      { location: [0.01, 0], timestamp: 20_000, currentWaypointIndex: 1 },
+      { location: [0, 0], timestamp: 10_000, currentWaypointIndex: 0 },
+    ];
+
+    it('should interpolate between recorded points in time order', () => {
+      const timeline = buildReplayTimeline(track)!;
+
+      expect(timeline.duration).toBe(10);
+      expect(timeline.stops).toEqual([]);
+      const middle = timeline.positionAt(5);
+      expect(middle.coordinates[0]).toBeCloseTo(0.005, 6);
+      expect(middle.speed).toBeCloseTo(LEG_METERS / 10, 5);
+      expect(middle.currentWaypointIndex).toBe(0);
+      expect(timeline.positionAt(10).coordinates).toEqual([0.01, 0]);
+    });
+
+    it('should wait at the first point until the shared start catches up', () => {
+      const timeline = buildReplayTimeline(track, 0)!;
+
+      expect(timeline.duration).toBe(20);
+      expect(timeline.positionAt(5)).toMatchObject({ coordinates: [0, 0], speed: 0 });
+    });
+
+    it('should return null for an empty track', () => {
+      expect(buildReplayTimeline([])).toBeNull();
+    });
+  });
+
+  describe('SimulationPlayer', () => {
+    it('should advance by the playback rate and finish at the end', () => {
+      vi.useFakeTimers();
+      const player = new SimulationPlayer({ duration: 100, stops: [] }, 10);
+      const listener = vi.fn();
+      player.subscribe(listener);
+
+      player.play();
+      vi.advanceTimersByTime(3000);
+      expect(player.getState()).toMatchObject({ elapsed: 30, isPlaying: true });
+
+      player.setRate(60);
+      vi.advanceTimersByTime(2000);
+      expect(player.getState()).toMatchObject({ elapsed: 100, isPlaying: false });
+      expect(listener).toHaveBeenCalled();
+    });
+
+    it('should land on each stop instead of skipping past it', () => {
+      vi.useFakeTimers();
+      const player = new SimulationPlayer({ duration: 1000, stops: [45, 50] }, 60);
+
+      player.play();
+      vi.advanceTimersByTime(1000);
+      expect(player.getState().elapsed).toBe(45);
+      vi.advanceTimersByTime(1000);
+      expect(player.getState().elapsed).toBe(50);
+      player.pause();
+    });
+
+    it('should clamp seeks and restart when played from the end', () => {
+      const player = new SimulationPlayer({ duration: 100, stops: [] });
+
+      player.seek(250);
+      expect(player.getState().elapsed).toBe(100);
+      player.seek(-5);
+      expect(player.getState().elapsed).toBe(0);
+
+      player.seek(100);
+      player.play();
+      expect(player.getState()).toMatchObject({ elapsed: 0, isPlaying: true });
+      player.dispose();
+    });
+  });
+
+  describe('formatSimulationTime', () => {
+    it('should format minutes and hours', () => {
+      expect(formatSimulationTime(65)).toBe('1:05');
+      expect(formatSimulationTime(3909.7)).toBe('1:05:09');
+      expect(formatSimulationTime(-3)).toBe('0:00');
+    });
+  });
+});
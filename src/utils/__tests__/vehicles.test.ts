@@ -0,0 +1,147 @@
+/**
+ * Unit tests for multi-vehicle routes
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  buildVehicleRoute,
+  createVehicle,
+  getVehicleProgress,
+  getVehicleWaypoints,
+  getWaypointVehicleId,
+  mergeVehicleProgress,
+  mergeWaypointCompletions,
+  validateVehicles,
+} from '../vehicles';
+import type { Vehicle } from '../../types';
+import { createMockRoute, createMockWaypoint } from '../../__tests__/integration/testUtils';
+
+const truck1: Vehicle = { id: 'truck-1', callsign: 'Cattai 1', color: '#D32F2F' };
+const truck2: Vehicle = { id: 'truck-2', callsign: 'Cattai 7', color: '#1976D2', distance: 4200 };
+
+const multiVehicleRoute = createMockRoute({
+  status: 'active',
+  vehicles: [truck1, truck2],
+  waypoints: [
+    createMockWaypoint(0, { id: 'a' }),
+    createMockWaypoint(1, { id: 'b', vehicleId: 'truck-2' }),
+    createMockWaypoint(2, { id: 'c', vehicleId: 'truck-1' }),
+    createMockWaypoint(3, { id: 'd', vehicleId: 'truck-2' }),
+    createMockWaypoint(4, { id: 'e', vehicleId: 'retired-truck' }),
+  ],
+});
+
+describe('vehicles', () => {
+  describe('createVehicle', () => {
+    it('should number callsigns and cycle colours', () => {
+      const first = createVehicle([]);
+      const second = createVehicle([first]);
+      expect(first.callsign).toBe('Truck 1');
+      expect(second.callsign).toBe('Truck 2');
+      expect(second.color).not.toBe(first.color);
+    });
+  });
+
+  describe('getWaypointVehicleId', () => {
+    it('should give unassigned and orphaned stops to the first vehicle', () => {
+      const route = multiVehicleRoute;
+      expect(route.waypoints.map(wp => getWaypointVehicleId(route, wp))).toEqual([
+        'truck-1', 'truck-2', 'truck-1', 'truck-2', 'truck-1',
+      ]);
+    });
+
+    it('should return undefined on single-vehicle routes', () => {
+      const route = createMockRoute({ ...multiVehicleRoute, vehicles: undefined });
+      expect(getWaypointVehicleId(route, route.waypoints[1])).toBeUndefined();
+    });
+  });
+
+  describe('getVehicleWaypoints', () => {
+    it('should return a vehicle\'s stops in order', () => {
+      expect(getVehicleWaypoints(multiVehicleRoute, 'truck-1').map(wp => wp.id)).toEqual(['a', 'c', 'e']);
+    });
+  });
+
+  describe('validateVehicles', () => {
+    it('should require a callsign and two stops per vehicle', () => {
+      const route = createMockRoute({
+        ...multiVehicleRoute,
+        vehicles: [truck1, truck2, { id: 'truck-3', callsign: ' ', color: '#000000' }],
+        waypoints: [
+          createMockWaypoint(0, { id: 'a' }),
+          createMockWaypoint(1, { id: 'b' }),
+          createMockWaypoint(2, { id: 'c', vehicleId: 'truck-2' }),
+        ],
+      });
+      expect(validateVehicles(route)).toEqual([
+        'Cattai 7 needs at least 2 stops',
+        'Every vehicle needs a callsign',
+      ]);
+    });
+  });
+
+  describe('buildVehicleRoute', () => {
+    it('should use the vehicle\'s stops and planned path', () => {
+      const route = multiVehicleRoute;
+      const vehicleRoute = buildVehicleRoute(route, 'truck-2');
+
+      expect(vehicleRoute.waypoints.map(wp => wp.id)).toEqual(['b', 'd']);
+      expect(vehicleRoute.distance).toBe(4200);
+
+      vehicleRoute.waypoints[0].isCompleted = true;
+      expect(route.waypoints[1].isCompleted).toBe(false);
+    });
+  });
+
+  describe('mergeVehicleProgress', () => {
+    it('should copy completions back and attribute them to the vehicle', () => {
+      const route = multiVehicleRoute;
+      const vehicleRoute = buildVehicleRoute(route, 'truck-2');
+      vehicleRoute.waypoints[0] = { ...vehicleRoute.waypoints[0], isCompleted: true, actualArrival: '2024-12-24T08:00:00.000Z' };
+
+      const merged = mergeVehicleProgress(route, vehicleRoute, 'truck-2');
+
+      expect(merged.waypoints[1]).toMatchObject({
+        isCompleted: true,
+        actualArrival: '2024-12-24T08:00:00.000Z',
+        completedByVehicleId: 'truck-2',
+      });
+      expect(getVehicleProgress(merged).map(p => [p.vehicle.id, p.completed, p.total])).toEqual([
+        ['truck-1', 0, 3],
+        ['truck-2', 1, 2],
+      ]);
+    });
+
+    it('should add a departure recorded after the arrival was saved', () => {
+      const arrived = mergeVehicleProgress(multiVehicleRoute, {
+        ...buildVehicleRoute(multiVehicleRoute, 'truck-2'),
+        waypoints: [
+          createMockWaypoint(1, { id: 'b', vehicleId: 'truck-2', isCompleted: true, actualArrival: '2024-12-24T08:00:00.000Z' }),
+        ],
+      }, 'truck-2');
+      const departed = mergeVehicleProgress(arrived, {
+        ...buildVehicleRoute(multiVehicleRoute, 'truck-2'),
+        waypoints: [{
+          ...createMockWaypoint(1, { id: 'b', vehicleId: 'truck-2' }),
+          isCompleted: true,
+          actualArrival: '2024-12-24T08:00:00.000Z',
+          actualDeparture: '2024-12-24T08:05:00.000Z',
+        }],
+      }, 'truck-2');
+
+      expect(departed.waypoints.find(wp => wp.id === 'b')).toMatchObject({
+        actualArrival: '2024-12-24T08:00:00.000Z',
+        actualDeparture: '2024-12-24T08:05:00.000Z',
+        completedByVehicleId: 'truck-2',
+      });
+    });
+  });
+
+  describe('mergeWaypointCompletions', () => {
+    it('should keep stops another vehicle already completed', () => {
+      const stored = [{ ...createMockWaypoint(0, { id: 'a' }), isCompleted: true, completedByVehicleId: 'truck-1' }];
+      const merged = mergeWaypointCompletions(stored, [createMockWaypoint(0, { id: 'a' })]);
+      expect(merged[0]).toMatchObject({ isCompleted: true, completedByVehicleId: 'truck-1' });
+    });
+  });
+});
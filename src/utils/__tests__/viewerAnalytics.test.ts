@@ -0,0 +1,63 @@
+/**
+ * Unit tests for tracking page viewer analytics
+ */
+
+import { describe, it, expect } from 'vitest';
+import { applyViewerEvent, buildProgressSeries, summarizeViewerSessions } from '../viewerAnalytics';
+import type { Waypoint } from '../../types';
+
+const MINUTE = 60 * 1000;
+const START = Date.UTC(2026, 11, 24, 8, 0);
+
+function waypoint(id: string, actualArrival?: string): Waypoint {
+  return { id, coordinates: [151.2, -33.8], order: 0, isCompleted: Boolean(actualArrival), actualArrival };
+}
+
+describe('viewerAnalytics', () => {
+  describe('applyViewerEvent', () => {
+    it('should round the alert pin before keeping it', () => {
+      const session = applyViewerEvent(null, {
+        sessionId: 'session-1234',
+        viewerId: 'viewer-1234',
+        event: 'open',
+        area: [151.2093, -33.8688],
+      }, START);
+
+      expect(session.area).toEqual([151.2, -33.85]);
+    });
+  });
+
+  describe('summarizeViewerSessions', () => {
+    it('should count the peak from connected sessions only', () => {
+      const events = [
+        { sessionId: 'session-a', viewerId: 'viewer-a', event: 'open' as const },
+        { sessionId: 'session-b', viewerId: 'viewer-b', event: 'open' as const },
+      ];
+      const connected = applyViewerEvent(applyViewerEvent(null, events[0], START), { ...events[0], event: 'heartbeat' }, START);
+      const neverConnected = applyViewerEvent(null, events[1], START);
+
+      const summary = summarizeViewerSessions('route-1', [connected, neverConnected], START + MINUTE);
+
+      expect(summary.opens).toBe(2);
+      expect(summary.uniqueViewers).toBe(2);
+      expect(summary.peakConcurrent).toBe(1);
+    });
+  });
+
+  describe('buildProgressSeries', () => {
+    it('should count completed stops in arrival order', () => {
+      const series = buildProgressSeries({
+        waypoints: [
+          waypoint('wp-2', new Date(START + 20 * MINUTE).toISOString()),
+          waypoint('wp-1', new Date(START + 5 * MINUTE).toISOString()),
+          waypoint('wp-3'),
+        ],
+      });
+
+      expect(series).toEqual([
+        { time: START + 5 * MINUTE, completed: 1 },
+        { time: START + 20 * MINUTE, completed: 2 },
+      ]);
+    });
+  });
+});
@@ -2,9 +2,13 @@
  * Audit logging utility for tracking security-relevant events.
  * 
  * Logs authentication events, membership changes, and admin actions
- * for security auditing and compliance.
+ * for security auditing and compliance. The API records its own events for
+ * the changes it makes; the entries queued here add what only the browser
+ * sees, and the server stamps them with the caller's identity.
  */
 
+import { getAccessToken } from '../storage/http';
+
 /**
  * Audit event types
  */
@@ -49,6 +53,12 @@ export type AuditEventType =
   | 'route.published'
   | 'route.started'
   | 'route.completed'
+  | 'route.archived'
+  | 'route.unpublished'
+  
+  // Verification events
+  | 'verification.approved'
+  | 'verification.rejected'
   
   // Security events
   | 'security.unauthorized_access'
@@ -132,8 +142,7 @@ export function logAuditEvent(
     });
   }
 
-  // In production, send to Azure Table Storage or Application Insights
-  // This would be implemented as an API call to /api/audit/log
+  // In production, queue for POST /api/audit/batch
   if (import.meta.env.PROD && import.meta.env.VITE_DEV_MODE !== 'true') {
     // Queue the log entry for batch sending
     queueAuditLog(entry);
@@ -170,11 +179,13 @@ async function flushAuditLogs(): Promise<void> {
   auditLogQueue = [];
   
   try {
-    // Send to API endpoint
+    // Send to API endpoint (without a token, only auth.* events are kept)
+    const token = await getAccessToken();
     await fetch('/api/audit/batch', {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
+        ...(token ? { Authorization: `Bearer ${token}` } : {}),
       },
       body: JSON.stringify({ logs }),
     });
@@ -332,3 +343,95 @@ export function logPermissionDenied(
     }
   );
 }
+
+/**
+ * Who recorded an audit log entry
+ */
+export type AuditSource = 'server' | 'client';
+
+/**
+ * Audit log entry as stored by the API (GET /api/audit)
+ */
+export interface AuditLogRecord {
+  id: string;
+  /** Brigade partition, or 'system' for events outside any brigade */
+  brigadeId: string;
+  eventType: string;
+  message: string;
+  userId?: string;
+  userEmail?: string;
+  targetUserId?: string;
+  resourceId?: string;
+  metadata?: Record<string, unknown>;
+  source: AuditSource;
+  /** When the server recorded the entry */
+  occurredAt: string;
+  /** When the browser says it happened (client entries only) */
+  clientTimestamp?: string;
+  /** False for browser reports made without signing in */
+  verified: boolean;
+  ipAddress?: string;
+  userAgent?: string;
+}
+
+/**
+ * Filters for the audit log page
+ */
+export interface AuditLogFilters {
+  /** Brigade to read; empty reads every brigade (site owners only) */
+  brigadeId: string;
+  /** An event category (`membership`) or exact type (`membership.removed`) */
+  eventType: string;
+  /** Entries by or about this user */
+  userId: string;
+  /** Local date (yyyy-MM-dd), inclusive */
+  fromDate: string;
+  /** Local date (yyyy-MM-dd), inclusive */
+  toDate: string;
+  source: AuditSource | '';
+}
+
+export const EMPTY_AUDIT_LOG_FILTERS: AuditLogFilters = {
+  brigadeId: '',
+  eventType: '',
+  userId: '',
+  fromDate: '',
+  toDate: '',
+  source: '',
+};
+
+/**
+ * Event categories offered by the audit log filter
+ */
+export const AUDIT_EVENT_CATEGORIES: { value: string; label: string }[] = [
+  { value: 'auth', label: 'Sign-in' },
+  { value: 'user', label: 'Users' },
+  { value: 'brigade', label: 'Brigade' },
+  { value: 'membership', label: 'Membership' },
+  { value: 'role', label: 'Roles' },
+  { value: 'route', label: 'Routes' },
+  { value: 'verification', label: 'Verification' },
+  { value: 'security', label: 'Security' },
+];
+
+/**
+ * Build the GET /api/audit query string for a set of filters.
+ * Dates are whole local days, so the upper bound is the start of the next day.
+ */
+export function buildAuditLogQuery(filters: AuditLogFilters, limit = 100): string {
+  const params = new URLSearchParams();
+  if (filters.brigadeId) params.set('brigadeId', filters.brigadeId);
+  if (filters.eventType) params.set('eventType', filters.eventType);
+  if (filters.userId.trim()) params.set('userId', filters.userId.trim());
+  if (filters.fromDate) {
+    params.set('from', new Date(`${filters.fromDate}T00:00:00`).toISOString());
+  }
+  if (filters.toDate) {
+    const end = new Date(`${filters.toDate}T00:00:00`);
+    end.setDate(end.getDate() + 1);
+    params.set('to', end.toISOString());
+  }
+  if (filters.source) params.set('source', filters.source);
+  params.set('limit', String(limit));
+  return params.toString();
+}
@@ -0,0 +1,169 @@
+/**
+ * Live route editing
+ *
+ * Operators with the same route open in the editor share presence (who is
+ * there, where their cursor is and which stop they have selected) and their
+ * waypoint edits over the route's editing group in Web PubSub, or a
+ * BroadcastChannel in dev mode. Edits travel as operations worked out from the
+ * change to the stop list, so every editor action is shared without each one
+ * having to report itself. Saving still goes through the route's version check.
+ */
+
+import type { Waypoint } from '../types';
+import { isSameWaypoint } from './routeDiff';
+import { sortWaypoints } from './routeHelpers';
+
+/** How often an open editor re-announces itself */
+export const PRESENCE_HEARTBEAT_MS = 10_000;
+
+/** How long an editor stays listed without a heartbeat (e.g. after its tab was closed) */
+export const PRESENCE_TIMEOUT_MS = 30_000;
+
+const PRESENCE_COLORS = ['#8E24AA', '#0288D1', '#00897B', '#F4511E', '#3949AB', '#C0CA33', '#6D4C41', '#D81B60'];
+
+/**
+ * Another editor with the route open
+ */
+export interface EditorPresence {
+  sessionId: string;              // One per open editor (the same person can have two tabs)
+  userId: string;
+  name: string;
+  color: string;
+  cursor?: [number, number];      // [lng, lat] of their pointer over the map
+  selectedWaypointId?: string;
+  lastSeen: number;               // When we last heard from them (our clock)
+}
+
+export type WaypointOperation =
+  | { kind: 'upsert'; waypoint: Waypoint }
+  | { kind: 'delete'; waypointId: string }
+  | { kind: 'reorder'; waypointIds: string[] };
+
+export type CollaborationMessage =
+  | {
+      type: 'presence';
+      sessionId: string;
+      userId: string;
+      name: string;
+      cursor?: [number, number];
+      selectedWaypointId?: string;
+    }
+  | { type: 'leave'; sessionId: string }
+  | { type: 'operations'; sessionId: string; operations: WaypointOperation[] }
+  | { type: 'saved'; sessionId: string };
+
+/**
+ * A stable colour for an editor's cursor and selection
+ */
+export function presenceColor(sessionId: string): string {
+  let hash = 0;
+  for (let i = 0; i < sessionId.length; i++) {
+    hash = (hash * 31 + sessionId.charCodeAt(i)) >>> 0;
+  }
+  return PRESENCE_COLORS[hash % PRESENCE_COLORS.length];
+}
+
+export function isCollaborationMessage(value: unknown): value is CollaborationMessage {
+  if (!value || typeof value !== 'object') return false;
+  const message = value as { type?: unknown; sessionId?: unknown };
+  return typeof message.sessionId === 'string' &&
+    (message.type === 'presence' || message.type === 'leave' || message.type === 'operations' || message.type === 'saved');
+}
+
+/**
+ * Update the list of other editors from a presence or leave message
+ */
+export function applyPresenceMessage(
+  peers: EditorPresence[],
+  message: CollaborationMessage,
+  now: number
+): EditorPresence[] {
+  if (message.type === 'leave') {
+    return peers.filter(peer => peer.sessionId !== message.sessionId);
+  }
+  if (message.type !== 'presence') {
+    return peers;
+  }
+
+  const presence: EditorPresence = {
+    sessionId: message.sessionId,
+    userId: message.userId,
+    name: message.name,
+    color: presenceColor(message.sessionId),
+    cursor: message.cursor,
+    selectedWaypointId: message.selectedWaypointId,
+    lastSeen: now,
+  };
+  return peers.some(peer => peer.sessionId === message.sessionId)
+    ? peers.map(peer => peer.sessionId === message.sessionId ? presence : peer)
+    : [...peers, presence];
+}
+
+/**
+ * Drop editors that have stopped sending heartbeats
+ */
+export function prunePresence(peers: EditorPresence[], now: number): EditorPresence[] {
+  const active = peers.filter(peer => now - peer.lastSeen < PRESENCE_TIMEOUT_MS);
+  return active.length === peers.length ? peers : active;
+}
+
+/**
+ * Apply waypoint operations (local or remote) to a stop list
+ * Updated stops keep their place, new stops go on the end, and a reorder puts
+ * stops it doesn't know about (added meanwhile) after the ones it lists.
+ */
+export function applyWaypointOperations(waypoints: Waypoint[], operations: WaypointOperation[]): Waypoint[] {
+  let result = sortWaypoints(waypoints);
+
+  for (const operation of operations) {
+    switch (operation.kind) {
+      case 'upsert':
+        result = result.some(wp => wp.id === operation.waypoint.id)
+          ? result.map(wp => wp.id === operation.waypoint.id ? operation.waypoint : wp)
+          : [...result, operation.waypoint];
+        break;
+      case 'delete':
+        result = result.filter(wp => wp.id !== operation.waypointId);
+        break;
+      case 'reorder': {
+        const positions = new Map(operation.waypointIds.map((id, index) => [id, index]));
+        result = [...result].sort((a, b) =>
+          (positions.get(a.id) ?? Number.MAX_SAFE_INTEGER) - (positions.get(b.id) ?? Number.MAX_SAFE_INTEGER)
+        );
+        break;
+      }
+    }
+  }
+
+  return result.map((wp, index) => (wp.order === index ? wp : { ...wp, order: index }));
+}
+
+/**
+ * The operations that turn one stop list into another
+ */
+export function diffWaypointOperations(before: Waypoint[], after: Waypoint[]): WaypointOperation[] {
+  const beforeById = new Map(before.map(wp => [wp.id, wp]));
+  const afterSorted = sortWaypoints(after);
+  const afterIds = new Set(afterSorted.map(wp => wp.id));
+
+  const operations: WaypointOperation[] = [
+    ...before
+      .filter(wp => !afterIds.has(wp.id))
+      .map((wp): WaypointOperation => ({ kind: 'delete', waypointId: wp.id })),
+    ...afterSorted
+      .filter(wp => {
+        const previous = beforeById.get(wp.id);
+        return !previous || !isSameWaypoint(previous, wp);
+      })
+      .map((wp): WaypointOperation => ({ kind: 'upsert', waypoint: wp })),
+  ];
+
+  // Only send the order when the edits alone wouldn't produce it
+  const resultingIds = applyWaypointOperations(before, operations).map(wp => wp.id);
+  const targetIds = afterSorted.map(wp => wp.id);
+  if (resultingIds.join('\n') !== targetIds.join('\n')) {
+    operations.push({ kind: 'reorder', waypointIds: targetIds });
+  }
+
+  return operations;
+}
@@ -0,0 +1,114 @@
+/**
+ * Embeddable tracking widget
+ *
+ * Brigades put a live Santa map on their own website or Facebook page with an
+ * iframe of /embed/{routeId}, or with the /embed.js script which builds that
+ * iframe from data attributes. Display options travel as query parameters and
+ * are left out of the URL when they match the defaults.
+ */
+
+export type EmbedCodeFormat = 'iframe' | 'script';
+
+export interface EmbedOptions {
+  /** Frame width: a CSS length such as "100%" or a pixel count such as "600" */
+  width: string;
+  /** Frame height in pixels */
+  height: number;
+  /** Brigade-branded header with the route name */
+  showHeader: boolean;
+  /** Progress card under the map */
+  showProgress: boolean;
+  /** Pan and zoom the map (zoom buttons included) */
+  interactive: boolean;
+}
+
+export const DEFAULT_EMBED_OPTIONS: EmbedOptions = {
+  width: '100%',
+  height: 450,
+  showHeader: true,
+  showProgress: true,
+  interactive: true,
+};
+
+export const MIN_EMBED_HEIGHT = 250;
+export const MAX_EMBED_HEIGHT = 1200;
+
+// Query parameter for each on/off option
+const FLAG_PARAMS = {
+  showHeader: 'header',
+  showProgress: 'progress',
+  interactive: 'controls',
+} as const;
+
+function getAppOrigin(): string {
+  return import.meta.env.VITE_APP_URL || window.location.origin;
+}
+
+/**
+ * Clamp a requested frame height to something that fits the map and progress card
+ */
+export function clampEmbedHeight(height: number): number {
+  if (!Number.isFinite(height)) {
+    return DEFAULT_EMBED_OPTIONS.height;
+  }
+  return Math.min(MAX_EMBED_HEIGHT, Math.max(MIN_EMBED_HEIGHT, Math.round(height)));
+}
+
+/**
+ * Display options for the embed page, read from its query string
+ */
+export function parseEmbedOptions(params: URLSearchParams): EmbedOptions {
+  const options = { ...DEFAULT_EMBED_OPTIONS };
+  for (const [key, param] of Object.entries(FLAG_PARAMS) as Array<[keyof typeof FLAG_PARAMS, string]>) {
+    const value = params.get(param);
+    if (value !== null) {
+      options[key] = value !== '0' && value !== 'false';
+    }
+  }
+  return options;
+}
+
+/**
+ * URL of the embed page for a route, carrying any non-default display options
+ */
+export function buildEmbedUrl(routeId: string, options: EmbedOptions = DEFAULT_EMBED_OPTIONS): string {
+  const params = new URLSearchParams();
+  for (const [key, param] of Object.entries(FLAG_PARAMS) as Array<[keyof typeof FLAG_PARAMS, string]>) {
+    if (options[key] !== DEFAULT_EMBED_OPTIONS[key]) {
+      params.set(param, options[key] ? '1' : '0');
+    }
+  }
+  const query = params.toString();
+  return `${getAppOrigin()}/embed/${routeId}${query ? `?${query}` : ''}`;
+}
+
+function escapeAttribute(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+/**
+ * Copy-paste HTML for a brigade's website
+ */
+export function generateEmbedCode(
+  route: { id: string; name: string },
+  options: EmbedOptions,
+  format: EmbedCodeFormat = 'iframe'
+): string {
+  const height = clampEmbedHeight(options.height);
+  const title = escapeAttribute(`Track Santa - ${route.name}`);
+
+  if (format === 'script') {
+    const attributes = [
+      `data-santa-route="${escapeAttribute(route.id)}"`,
+      `data-width="${escapeAttribute(options.width)}"`,
+      `data-height="${height}"`,
+      ...(Object.entries(FLAG_PARAMS) as Array<[keyof typeof FLAG_PARAMS, string]>)
+        .filter(([key]) => options[key] !== DEFAULT_EMBED_OPTIONS[key])
+        .map(([key, param]) => `data-${param}="${options[key] ? '1' : '0'}"`),
+      `data-title="${title}"`,
+    ];
+    return `<div ${attributes.join(' ')}></div>\n<script src="${getAppOrigin()}/embed.js" async></script>`;
+  }
+
+  return `<iframe src="${escapeAttribute(buildEmbedUrl(route.id, options))}" width="${escapeAttribute(options.width)}" height="${height}" title="${title}" style="border:0;" loading="lazy" allowfullscreen></iframe>`;
+}
@@ -0,0 +1,88 @@
+/**
+ * Multi-night Santa run events
+ *
+ * An event groups a brigade's routes for one season, usually a different
+ * suburb each night. The public event page lists every night, and the event's
+ * stable link resolves to whichever route is running tonight, so a single
+ * flyer works for the whole week.
+ */
+
+import { format, parseISO } from 'date-fns';
+import type { BrigadeEvent, Route } from '../types';
+
+/**
+ * Generate a unique event ID
+ */
+export function generateEventId(): string {
+  return `event_${Date.now()}_${Math.random().toString(36).slice(2, 11)}`;
+}
+
+/**
+ * Create a new event with no nights yet
+ */
+export function createNewEvent(brigadeId: string, createdBy?: string): BrigadeEvent {
+  return {
+    id: generateEventId(),
+    brigadeId,
+    name: '',
+    description: '',
+    routeIds: [],
+    createdAt: new Date().toISOString(),
+    createdBy,
+  };
+}
+
+/**
+ * Stable link for an event's flyers and QR codes, which always opens tonight's route
+ */
+export function generateEventLink(eventId: string): string {
+  const baseUrl = import.meta.env.VITE_APP_URL || window.location.origin;
+  return `${baseUrl}/events/${eventId}/tonight`;
+}
+
+/**
+ * An event's routes in night order
+ * Drafts are left out unless requested, since viewers should never see them.
+ */
+export function getEventNights(
+  event: Pick<BrigadeEvent, 'routeIds'>,
+  routes: Route[],
+  includeDrafts = false
+): Route[] {
+  return routes
+    .filter(route => event.routeIds.includes(route.id) && (includeDrafts || route.status !== 'draft'))
+    .sort((a, b) => a.date.localeCompare(b.date) || a.startTime.localeCompare(b.startTime));
+}
+
+/**
+ * The night a viewer following the event link should see
+ * A run in progress wins, then tonight's route, then the next night coming up.
+ *
+ * @param nights - The event's nights in order (see getEventNights)
+ * @param today - The viewer's local date ("YYYY-MM-DD")
+ */
+export function pickTonightRoute(nights: Route[], today: string): Route | null {
+  const active = nights.filter(route => route.status === 'active');
+  if (active.length > 0) {
+    return active[active.length - 1];
+  }
+
+  return nights.find(route => route.date === today && route.status !== 'archived')
+    ?? nights.find(route => route.date > today && route.status === 'published')
+    ?? null;
+}
+
+/**
+ * The dates an event runs, e.g. "20 Dec – 24 Dec 2025"
+ */
+export function formatEventDates(nights: Pick<Route, 'date'>[]): string {
+  if (nights.length === 0) {
+    return '';
+  }
+  const first = parseISO(nights[0].date);
+  const last = parseISO(nights[nights.length - 1].date);
+  if (nights[0].date === nights[nights.length - 1].date) {
+    return format(first, 'd MMM yyyy');
+  }
+  return `${format(first, 'd MMM')} – ${format(last, 'd MMM yyyy')}`;
+}
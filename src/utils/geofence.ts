@@ -0,0 +1,115 @@
+/**
+ * Geofenced arrival and departure at stops
+ *
+ * Each stop has a circle around it (50 m unless the stop sets its own radius).
+ * The navigator has arrived once it has stayed inside for a minimum dwell, so
+ * driving straight past a stop doesn't count; the arrival is then dated from
+ * when it first entered. It has departed once it is well outside the circle:
+ * leaving needs more distance than entering, so GPS jitter at the edge doesn't
+ * flap between arrived and departed.
+ */
+
+import type { Waypoint, WaypointVisit } from '../types';
+import { calculateDistance } from './navigation';
+
+export const DEFAULT_GEOFENCE_RADIUS_METERS = 50;
+
+// Range a stop's own radius is kept to: much tighter than GPS accuracy would never arrive
+export const MIN_GEOFENCE_RADIUS_METERS = 15;
+export const MAX_GEOFENCE_RADIUS_METERS = 500;
+
+// Leaving means getting this many times the radius away
+export const GEOFENCE_EXIT_FACTOR = 1.5;
+
+// Time inside the geofence before it counts as an arrival
+export const MIN_ARRIVAL_DWELL_SECONDS = 15;
+
+/**
+ * The stop the navigator is inside (or was last inside and hasn't left yet)
+ */
+export interface GeofenceState {
+  waypointId: string;
+  enteredAt: number;        // Unix timestamp (ms)
+  arrivedAt: number | null; // Set once the dwell has been met
+}
+
+export interface GeofenceUpdate {
+  state: GeofenceState | null;
+  visit: WaypointVisit | null;
+}
+
+export interface GeofenceOptions {
+  minDwellSeconds?: number;
+}
+
+/**
+ * Arrival radius for a stop in meters
+ */
+export function getGeofenceRadius(waypoint: Pick<Waypoint, 'geofenceRadius'>): number {
+  if (!waypoint.geofenceRadius || waypoint.geofenceRadius <= 0) {
+    return DEFAULT_GEOFENCE_RADIUS_METERS;
+  }
+  return Math.min(MAX_GEOFENCE_RADIUS_METERS, Math.max(MIN_GEOFENCE_RADIUS_METERS, waypoint.geofenceRadius));
+}
+
+/**
+ * Whether a location is inside a stop's geofence, allowing for the exit margin once inside
+ */
+export function isInsideGeofence(
+  location: [number, number],
+  waypoint: Pick<Waypoint, 'coordinates' | 'geofenceRadius'>,
+  alreadyInside: boolean = false
+): boolean {
+  const radius = getGeofenceRadius(waypoint) * (alreadyInside ? GEOFENCE_EXIT_FACTOR : 1);
+  return calculateDistance(location, waypoint.coordinates) <= radius;
+}
+
+/**
+ * Advance a stop's geofence with a new position
+ * Pass the stop being approached, or the stop in `state` until it has been left.
+ * Returns the new state and the arrival or departure it caused, if any.
+ */
+export function updateGeofence(
+  state: GeofenceState | null,
+  waypoint: Pick<Waypoint, 'id' | 'coordinates' | 'geofenceRadius'>,
+  location: [number, number],
+  timestamp: number,
+  { minDwellSeconds = MIN_ARRIVAL_DWELL_SECONDS }: GeofenceOptions = {}
+): GeofenceUpdate {
+  let current = state?.waypointId === waypoint.id ? state : null;
+
+  if (!current) {
+    if (!isInsideGeofence(location, waypoint)) {
+      return { state: null, visit: null };
+    }
+    current = { waypointId: waypoint.id, enteredAt: timestamp, arrivedAt: null };
+  } else if (!isInsideGeofence(location, waypoint, true)) {
+    // Left the stop: a departure if it had arrived, otherwise it was just driving past
+    return {
+      state: null,
+      visit: current.arrivedAt !== null ? { waypointId: waypoint.id, type: 'departed', timestamp } : null,
+    };
+  }
+
+  if (current.arrivedAt === null && timestamp - current.enteredAt >= minDwellSeconds * 1000) {
+    return {
+      state: { ...current, arrivedAt: current.enteredAt },
+      visit: { waypointId: waypoint.id, type: 'arrived', timestamp: current.enteredAt },
+    };
+  }
+
+  return { state: current, visit: null };
+}
+
+/**
+ * The stop a vehicle is at now, from its latest broadcast visit (null between stops)
+ */
+export function findVisitedWaypoint<T extends Pick<Waypoint, 'id'>>(
+  waypoints: T[],
+  visit: WaypointVisit | undefined
+): T | null {
+  if (visit?.type !== 'arrived') {
+    return null;
+  }
+  return waypoints.find(wp => wp.id === visit.waypointId) ?? null;
+}
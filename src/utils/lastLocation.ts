@@ -0,0 +1,142 @@
+/**
+ * Last-known location snapshot for late-joining tracking viewers
+ *
+ * Production: the broadcast API caches the latest position, read from
+ * GET /api/routes/{id}/location.
+ * Dev mode: the navigator tab stores its latest broadcast in localStorage.
+ * Multi-vehicle routes have one snapshot per vehicle.
+ *
+ * Snapshot ages are tracked against the viewer's own clock (`receivedAt`), so a
+ * navigator phone with a wrong clock cannot make Santa look fresh or stale.
+ */
+
+import type { LocationBroadcast } from '../types';
+
+const API_BASE_URL = import.meta.env.VITE_API_BASE_URL || '/api';
+
+const DEFAULT_STALE_AFTER_SECONDS = 60;
+
+/**
+ * How long without a broadcast before Santa's position is shown as stale.
+ * Configurable via VITE_LOCATION_STALE_SECONDS.
+ */
+export const LOCATION_STALE_AFTER_MS = (() => {
+  const seconds = Number(import.meta.env.VITE_LOCATION_STALE_SECONDS);
+  return (Number.isFinite(seconds) && seconds > 0 ? seconds : DEFAULT_STALE_AFTER_SECONDS) * 1000;
+})();
+
+export interface LocationSnapshot {
+  location: LocationBroadcast;
+  receivedAt: number; // Viewer clock (ms) at which this position was current
+}
+
+function getLocalLastLocationKey(routeId: string, vehicleId?: string): string {
+  return vehicleId ? `santa_last_location_${routeId}@${vehicleId}` : `santa_last_location_${routeId}`;
+}
+
+/**
+ * Load the dev-mode snapshot recorded by the navigator tab (for one vehicle on multi-vehicle routes)
+ */
+export function loadLocalLastLocation(routeId: string, vehicleId?: string): LocationSnapshot | null {
+  const stored = localStorage.getItem(getLocalLastLocationKey(routeId, vehicleId));
+  return stored ? JSON.parse(stored) : null;
+}
+
+/**
+ * Load every dev-mode snapshot for a route (one per vehicle), newest first
+ */
+export function loadLocalLastLocations(routeId: string): LocationSnapshot[] {
+  const routeKey = getLocalLastLocationKey(routeId);
+  const snapshots: LocationSnapshot[] = [];
+  for (let i = 0; i < localStorage.length; i++) {
+    const key = localStorage.key(i);
+    if (key === routeKey || key?.startsWith(`${routeKey}@`)) {
+      snapshots.push(JSON.parse(localStorage.getItem(key)!));
+    }
+  }
+  return snapshots.sort((a, b) => b.receivedAt - a.receivedAt);
+}
+
+/**
+ * Record a broadcast as the dev-mode snapshot
+ */
+export function saveLocalLastLocation(location: LocationBroadcast): void {
+  const snapshot: LocationSnapshot = { location, receivedAt: Date.now() };
+  localStorage.setItem(getLocalLastLocationKey(location.routeId, location.vehicleId), JSON.stringify(snapshot));
+}
+
+/**
+ * Fetch the last known locations for a route from the API (one per vehicle), newest first
+ * Returns an empty list if the route has not broadcast yet (or is not public)
+ */
+export async function fetchLastKnownLocations(routeId: string): Promise<LocationSnapshot[]> {
+  const response = await fetch(`${API_BASE_URL}/routes/${encodeURIComponent(routeId)}/location`);
+
+  if (response.status === 404) {
+    return [];
+  }
+
+  if (!response.ok) {
+    throw new Error(`Failed to fetch last known location: ${response.statusText}`);
+  }
+
+  type ServerLocation = LocationBroadcast & { receivedAt: string };
+  const data = await response.json() as {
+    location: ServerLocation | null;
+    locations?: ServerLocation[];
+    serverTime: string;
+  };
+
+  const locations = data.locations ?? (data.location ? [data.location] : []);
+
+  return locations
+    .map(({ receivedAt, ...location }) => {
+      // Age according to the server, re-anchored to the viewer's clock
+      const ageMs = Math.max(0, new Date(data.serverTime).getTime() - new Date(receivedAt).getTime());
+      return {
+        location,
+        receivedAt: Date.now() - ageMs,
+      };
+    })
+    .sort((a, b) => b.receivedAt - a.receivedAt);
+}
+
+/**
+ * Fetch the newest last known location for a route from the API
+ * Returns null if the route has not broadcast yet (or is not public)
+ */
+export async function fetchLastKnownLocation(routeId: string): Promise<LocationSnapshot | null> {
+  const [latest] = await fetchLastKnownLocations(routeId);
+  return latest ?? null;
+}
+
+/**
+ * Whether a position last updated `ageMs` ago should be shown as stale
+ */
+export function isLocationStale(ageMs: number, staleAfterMs: number = LOCATION_STALE_AFTER_MS): boolean {
+  return ageMs > staleAfterMs;
+}
+
+/**
+ * Human-readable age, e.g. "just now", "45 sec ago", "3 min ago", "1 hr 5 min ago"
+ */
+export function formatLocationAge(ageMs: number): string {
+  const seconds = Math.floor(Math.max(0, ageMs) / 1000);
+
+  if (seconds < 10) {
+    return 'just now';
+  }
+
+  if (seconds < 60) {
+    return `${seconds} sec ago`;
+  }
+
+  const minutes = Math.floor(seconds / 60);
+  if (minutes < 60) {
+    return `${minutes} min ago`;
+  }
+
+  const hours = Math.floor(minutes / 60);
+  const remainingMinutes = minutes % 60;
+  return remainingMinutes > 0 ? `${hours} hr ${remainingMinutes} min ago` : `${hours} hr ago`;
+}
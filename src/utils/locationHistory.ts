@@ -0,0 +1,121 @@
+/**
+ * Location history utilities for the breadcrumb trail on the tracking page
+ *
+ * Production: history is persisted by the broadcast API and read from
+ * GET /api/routes/{id}/track.
+ * Dev mode: the navigator tab records broadcasts in localStorage so viewer tabs
+ * in the same browser can load the trail (mirrors the BroadcastChannel setup).
+ */
+
+import type { LocationBroadcast, TrackPoint, GeoJSON } from '../types';
+
+const API_BASE_URL = import.meta.env.VITE_API_BASE_URL || '/api';
+
+// Cap local history so a long dev session can't exhaust localStorage
+const MAX_LOCAL_TRACK_POINTS = 5000;
+
+function getLocalTrackKey(routeId: string): string {
+  return `santa_track_${routeId}`;
+}
+
+/**
+ * Convert a location broadcast to a track point
+ */
+export function broadcastToTrackPoint(broadcast: LocationBroadcast): TrackPoint {
+  return {
+    vehicleId: broadcast.vehicleId,
+    location: broadcast.location,
+    timestamp: broadcast.timestamp,
+    heading: broadcast.heading,
+    speed: broadcast.speed,
+    currentWaypointIndex: broadcast.currentWaypointIndex,
+  };
+}
+
+/**
+ * Merge new points into an existing trail.
+ * Points are de-duplicated by vehicle and timestamp and kept in chronological
+ * order, so the initial history fetch and live updates can arrive in any order.
+ */
+export function mergeTrackPoints(existing: TrackPoint[], incoming: TrackPoint[]): TrackPoint[] {
+  if (incoming.length === 0) {
+    return existing;
+  }
+
+  const pointKey = (point: TrackPoint) => `${point.vehicleId ?? ''}:${point.timestamp}`;
+  const byTimestamp = new Map<string, TrackPoint>();
+  existing.forEach(point => byTimestamp.set(pointKey(point), point));
+  incoming.forEach(point => byTimestamp.set(pointKey(point), point));
+
+  return Array.from(byTimestamp.values()).sort((a, b) => a.timestamp - b.timestamp);
+}
+
+/**
+ * Build a LineString for the map from a trail (null until there are 2 points)
+ */
+export function trackToLineString(points: TrackPoint[]): GeoJSON.LineString | null {
+  if (points.length < 2) {
+    return null;
+  }
+
+  return {
+    type: 'LineString',
+    coordinates: points.map(point => point.location),
+  };
+}
+
+/**
+ * Split a trail into one chronological trail per vehicle (keyed by vehicleId, '' for none)
+ */
+export function splitTrackByVehicle(points: TrackPoint[]): Map<string, TrackPoint[]> {
+  const trails = new Map<string, TrackPoint[]>();
+  points.forEach(point => {
+    const key = point.vehicleId ?? '';
+    const trail = trails.get(key);
+    if (trail) {
+      trail.push(point);
+    } else {
+      trails.set(key, [point]);
+    }
+  });
+  return trails;
+}
+
+/**
+ * Load the dev-mode trail recorded in localStorage
+ */
+export function loadLocalTrack(routeId: string): TrackPoint[] {
+  const stored = localStorage.getItem(getLocalTrackKey(routeId));
+  return stored ? JSON.parse(stored) : [];
+}
+
+/**
+ * Record a broadcast in the dev-mode trail
+ */
+export function appendLocalTrack(broadcast: LocationBroadcast): void {
+  const merged = mergeTrackPoints(loadLocalTrack(broadcast.routeId), [broadcastToTrackPoint(broadcast)]);
+  const trimmed = merged.slice(-MAX_LOCAL_TRACK_POINTS);
+  localStorage.setItem(getLocalTrackKey(broadcast.routeId), JSON.stringify(trimmed));
+}
+
+/**
+ * Fetch the persisted trail for a route from the API
+ *
+ * @param routeId - Route to fetch
+ * @param since - Only return points recorded after this timestamp (ms)
+ */
+export async function fetchRouteTrack(routeId: string, since?: number): Promise<TrackPoint[]> {
+  const params = since ? `?since=${since}` : '';
+  const response = await fetch(`${API_BASE_URL}/routes/${encodeURIComponent(routeId)}/track${params}`);
+
+  if (response.status === 404) {
+    return [];
+  }
+
+  if (!response.ok) {
+    throw new Error(`Failed to fetch route track: ${response.statusText}`);
+  }
+
+  const data = await response.json() as { points?: TrackPoint[] };
+  return data.points || [];
+}
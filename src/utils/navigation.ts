@@ -3,7 +3,10 @@
  * Handles geometry matching, distance calculation, and navigation state
  */
 
-import type { NavigationStep, Waypoint, GeoJSON } from '../types';
+import type { NavigationStep, Route, Waypoint, WaypointEta, GeoJSON } from '../types';
+
+// Default urban driving speed for straight-line estimates (km/h)
+const FALLBACK_SPEED_KMH = 40;
 
 /**
  * Calculate distance between two coordinates using Haversine formula
@@ -203,13 +206,124 @@ export function isOffRoute(
 export function calculateETA(
   distanceMeters: number,
   speedMetersPerSecond: number | null,
-  fallbackSpeedKmh: number = 40 // Default urban speed
+  fallbackSpeedKmh: number = FALLBACK_SPEED_KMH
 ): Date {
   const speed = speedMetersPerSecond || (fallbackSpeedKmh * 1000) / 3600;
   const timeSeconds = distanceMeters / speed;
   return new Date(Date.now() + timeSeconds * 1000);
 }
 
+/**
+ * Planned time at a stop in seconds (the stop's own dwell time, or the route default)
+ */
+export function getDwellSeconds(waypoint: Waypoint, defaultDwellMinutes: number = 0): number {
+  return (waypoint.dwellMinutes ?? defaultDwellMinutes) * 60;
+}
+
+/**
+ * Split navigation steps into legs, each ending with its 'arrive' step
+ * Returns [start, end) step index ranges.
+ */
+export function splitStepsIntoLegs(steps: NavigationStep[]): Array<{ start: number; end: number }> {
+  const legs: Array<{ start: number; end: number }> = [];
+  let start = 0;
+
+  steps.forEach((step, index) => {
+    if (step.maneuver.type === 'arrive') {
+      legs.push({ start, end: index + 1 });
+      start = index + 1;
+    }
+  });
+
+  if (start < steps.length) {
+    legs.push({ start, end: steps.length });
+  }
+
+  return legs;
+}
+
+function sumStepDurations(steps: NavigationStep[], start: number, end: number): number {
+  let total = 0;
+  for (let i = start; i < end; i++) {
+    total += steps[i].duration;
+  }
+  return total;
+}
+
+export interface WaypointEtaOptions {
+  currentStepIndex?: number;
+  distanceToManeuver?: number;
+  speed?: number | null;        // Current speed (m/s) for straight-line estimates
+  now?: number;
+}
+
+/**
+ * Cumulative ETA for every upcoming waypoint
+ *
+ * Uses the remaining driving time of each leg from the route's navigation
+ * steps plus the dwell time at each stop before it (including what is left
+ * of the dwell at the stop just reached). Legs are matched to
+ * waypoints either from the start of the route or, after a reroute, from the
+ * next uncompleted waypoint; when the steps cannot be matched, driving times
+ * are estimated from straight-line distances.
+ */
+export function calculateWaypointETAs(
+  route: Pick<Route, 'waypoints' | 'navigationSteps' | 'defaultDwellMinutes'>,
+  userLocation: [number, number],
+  { currentStepIndex, distanceToManeuver, speed = null, now = Date.now() }: WaypointEtaOptions = {}
+): WaypointEta[] {
+  const sorted = [...route.waypoints].sort((a, b) => a.order - b.order);
+  const remaining = sorted.filter(wp => !wp.isCompleted);
+  const steps = route.navigationSteps ?? [];
+  const legs = splitStepsIntoLegs(steps);
+  const estimateSpeed = speed || (FALLBACK_SPEED_KMH * 1000) / 3600;
+
+  const legFor = (waypoint: Waypoint) => {
+    if (legs.length === sorted.length - 1) {
+      const index = sorted.indexOf(waypoint);
+      return index > 0 ? legs[index - 1] : null;
+    }
+    if (legs.length === remaining.length) {
+      return legs[remaining.indexOf(waypoint)];
+    }
+    return null;
+  };
+
+  // Still handing out lollies at the stop just reached
+  const lastReached = sorted.filter(wp => wp.isCompleted && wp.actualArrival).pop();
+  let elapsedSeconds = lastReached
+    ? Math.max(0, new Date(lastReached.actualArrival!).getTime() +
+        getDwellSeconds(lastReached, route.defaultDwellMinutes) * 1000 - now) / 1000
+    : 0;
+  let from = userLocation;
+
+  return remaining.map((waypoint, index) => {
+    if (index > 0) {
+      elapsedSeconds += getDwellSeconds(remaining[index - 1], route.defaultDwellMinutes);
+    }
+
+    const leg = legFor(waypoint);
+    const isOnLeg = index === 0 && leg && currentStepIndex !== undefined &&
+      currentStepIndex >= leg.start && currentStepIndex < leg.end;
+
+    if (isOnLeg) {
+      // Rest of the current leg, counting only the part of the current step still ahead
+      const step = steps[currentStepIndex];
+      const fraction = step.distance > 0 && distanceToManeuver !== undefined
+        ? Math.min(1, distanceToManeuver / step.distance)
+        : 1;
+      elapsedSeconds += step.duration * fraction + sumStepDurations(steps, currentStepIndex + 1, leg.end);
+    } else if (leg && (index > 0 || currentStepIndex === undefined || currentStepIndex < leg.start)) {
+      elapsedSeconds += sumStepDurations(steps, leg.start, leg.end);
+    } else {
+      elapsedSeconds += calculateDistance(from, waypoint.coordinates) / estimateSpeed;
+    }
+
+    from = waypoint.coordinates;
+    return { waypointId: waypoint.id, eta: Math.round(now + elapsedSeconds * 1000) };
+  });
+}
+
 /**
  * Format ETA as time string
  */
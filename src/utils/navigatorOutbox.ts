@@ -0,0 +1,304 @@
+/**
+ * Offline support for the navigator device
+ *
+ * Country brigades regularly lose coverage mid-route. Once navigation starts the
+ * full route (geometry, navigation steps, waypoints) is cached locally so the
+ * navigator can reload without the network, and updates that cannot be sent are
+ * kept in a per-route outbox in localStorage:
+ * - location broadcasts, with their original timestamps
+ * - route saves (status changes and waypoint completions)
+ *
+ * When the connection returns the outbox is replayed in order: consecutive
+ * locations go to the backfill endpoint as one batch, route saves go through the
+ * storage adapter. Only the latest route save is kept, since each one carries the
+ * full route state.
+ *
+ * A step the server refuses outright (a 4xx other than timeout or rate limiting,
+ * e.g. an invalid status change or a version conflict) will never succeed, so it
+ * is set aside as rejected for the navigator to see instead of blocking the
+ * updates queued behind it. The backfill endpoint drops invalid points from a
+ * batch and accepts the rest, so only the points it reports are set aside.
+ */
+
+import type { LocationBroadcast, Route } from '../types';
+import { RouteConflictError } from './routeVersion';
+import { RouteTransitionError } from './routeStatus';
+
+// About 7 hours of broadcasts at one every 5 seconds
+const MAX_QUEUED_LOCATIONS = 5000;
+
+// Locations per backfill request (the API accepts up to 500)
+export const REPLAY_BATCH_SIZE = 100;
+
+export type NavigatorOutboxItem =
+  | { type: 'location'; broadcast: LocationBroadcast }
+  | { type: 'route'; route: Route; queuedAt: number };
+
+export type OutboxReplayStep =
+  | { type: 'locations'; broadcasts: LocationBroadcast[] }
+  | { type: 'route'; route: Route; queuedAt: number };
+
+function getRouteCacheKey(routeId: string): string {
+  return `santa_nav_route_${routeId}`;
+}
+
+function getOutboxKey(routeId: string): string {
+  return `santa_nav_outbox_${routeId}`;
+}
+
+/**
+ * Cache the route being navigated so navigation survives a reload without coverage
+ */
+export function cacheNavigationRoute(route: Route): void {
+  try {
+    localStorage.setItem(getRouteCacheKey(route.id), JSON.stringify(route));
+  } catch (error) {
+    // Quota errors should never interrupt navigation
+    console.warn('[NavigatorOutbox] Failed to cache route:', error);
+  }
+}
+
+/**
+ * Load the cached route for offline navigation
+ */
+export function loadCachedNavigationRoute(routeId: string): Route | null {
+  const stored = localStorage.getItem(getRouteCacheKey(routeId));
+  return stored ? JSON.parse(stored) : null;
+}
+
+/**
+ * Remove the cached route once the run is over and fully synced
+ */
+export function clearCachedNavigationRoute(routeId: string): void {
+  localStorage.removeItem(getRouteCacheKey(routeId));
+}
+
+/**
+ * Load queued updates for a route, oldest first
+ */
+export function loadOutbox(routeId: string): NavigatorOutboxItem[] {
+  const stored = localStorage.getItem(getOutboxKey(routeId));
+  return stored ? JSON.parse(stored) : [];
+}
+
+function saveOutbox(routeId: string, items: NavigatorOutboxItem[]): void {
+  if (items.length === 0) {
+    localStorage.removeItem(getOutboxKey(routeId));
+    return;
+  }
+  localStorage.setItem(getOutboxKey(routeId), JSON.stringify(items));
+}
+
+/**
+ * Queue a location broadcast that could not be sent
+ * The oldest locations are dropped once the queue is full.
+ */
+export function enqueueLocation(broadcast: LocationBroadcast): NavigatorOutboxItem[] {
+  const items = [...loadOutbox(broadcast.routeId), { type: 'location' as const, broadcast }];
+
+  let overflow = items.filter(item => item.type === 'location').length - MAX_QUEUED_LOCATIONS;
+  const trimmed = overflow > 0
+    ? items.filter(item => item.type !== 'location' || overflow-- <= 0)
+    : items;
+
+  saveOutbox(broadcast.routeId, trimmed);
+  return trimmed;
+}
+
+/**
+ * Queue a route save, replacing any earlier queued save for the route
+ */
+export function enqueueRouteSave(route: Route): NavigatorOutboxItem[] {
+  const existing = loadOutbox(route.id);
+
+  // queuedAt identifies the save during replay, so it must differ from the one it replaces
+  const previous = existing.find(item => item.type === 'route');
+  const queuedAt = previous?.type === 'route' ? Math.max(Date.now(), previous.queuedAt + 1) : Date.now();
+
+  const items: NavigatorOutboxItem[] = [
+    ...existing.filter(item => item.type !== 'route'),
+    { type: 'route', route, queuedAt },
+  ];
+  saveOutbox(route.id, items);
+  return items;
+}
+
+/**
+ * Drop the items covered by a replayed step
+ * Items are matched by identity rather than position, since new updates may be
+ * queued (and earlier route saves replaced) while a replay is in flight.
+ */
+export function removeReplayedStep(routeId: string, step: OutboxReplayStep): NavigatorOutboxItem[] {
+  const replayedTimestamps = step.type === 'locations'
+    ? new Set(step.broadcasts.map(broadcast => broadcast.timestamp))
+    : null;
+
+  const remaining = loadOutbox(routeId).filter(item => {
+    if (item.type === 'location') {
+      return !replayedTimestamps?.has(item.broadcast.timestamp);
+    }
+    return step.type !== 'route' || item.queuedAt !== step.queuedAt;
+  });
+
+  saveOutbox(routeId, remaining);
+  return remaining;
+}
+
+/**
+ * Whether a route has updates waiting to be replayed
+ */
+export function hasPendingNavigatorUpdates(routeId: string): boolean {
+  return loadOutbox(routeId).length > 0;
+}
+
+/**
+ * Group queued items into replay steps, preserving order
+ * Consecutive locations are batched (up to `batchSize` per step).
+ */
+export function planOutboxReplay(
+  items: NavigatorOutboxItem[],
+  batchSize: number = REPLAY_BATCH_SIZE
+): OutboxReplayStep[] {
+  const steps: OutboxReplayStep[] = [];
+
+  items.forEach(item => {
+    if (item.type === 'route') {
+      steps.push({ type: 'route', route: item.route, queuedAt: item.queuedAt });
+      return;
+    }
+
+    const last = steps[steps.length - 1];
+    if (last && last.type === 'locations' && last.broadcasts.length < batchSize) {
+      last.broadcasts.push(item.broadcast);
+    } else {
+      steps.push({ type: 'locations', broadcasts: [item.broadcast] });
+    }
+  });
+
+  return steps;
+}
+
+/**
+ * A queued update the server refused, kept so the navigator can be told
+ */
+export interface RejectedOutboxUpdate {
+  step: OutboxReplayStep;
+  reason: string;
+  rejectedAt: number;
+}
+
+/**
+ * A location the server dropped from a backfill batch it otherwise accepted
+ */
+export interface RefusedLocation {
+  index: number;  // Position in the batch that was sent
+  error: string;
+}
+
+export interface OutboxReplayHandlers {
+  /**
+   * Resolves false (or throws a retryable error) to stop and retry later; once
+   * the batch is accepted, true or the points the server dropped from it
+   */
+  sendLocationBatch: (locations: LocationBroadcast[]) => Promise<boolean | RefusedLocation[]>;
+  saveRoute: (route: Route) => Promise<void>;
+  /** Called after each step leaves the outbox, with the items still queued */
+  onProgress?: (remaining: NavigatorOutboxItem[]) => void;
+}
+
+export interface OutboxReplayResult {
+  completed: boolean;          // Nothing left that can be sent right now
+  rejected: RejectedOutboxUpdate[];
+}
+
+function getRejectedKey(routeId: string): string {
+  return `santa_nav_rejected_${routeId}`;
+}
+
+/**
+ * Whether a failed update may succeed if tried again
+ * Network errors, timeouts, rate limiting and server errors are worth retrying;
+ * any other 4xx means the server will keep refusing the update.
+ */
+export function isRetryableFailure(error: unknown): boolean {
+  if (error instanceof RouteConflictError || error instanceof RouteTransitionError) {
+    return false;
+  }
+  const status = (error as { status?: unknown } | null)?.status;
+  if (typeof status !== 'number') {
+    return true;
+  }
+  return status < 400 || status >= 500 || status === 408 || status === 429;
+}
+
+/**
+ * Load the updates the server refused for a route, oldest first
+ */
+export function loadRejectedUpdates(routeId: string): RejectedOutboxUpdate[] {
+  const stored = localStorage.getItem(getRejectedKey(routeId));
+  return stored ? JSON.parse(stored) : [];
+}
+
+function saveRejectedUpdate(routeId: string, rejected: RejectedOutboxUpdate): void {
+  try {
+    localStorage.setItem(getRejectedKey(routeId), JSON.stringify([...loadRejectedUpdates(routeId), rejected]));
+  } catch (error) {
+    console.warn('[NavigatorOutbox] Failed to keep rejected update:', error);
+  }
+}
+
+/**
+ * Forget the refused updates once the navigator has seen them
+ */
+export function clearRejectedUpdates(routeId: string): void {
+  localStorage.removeItem(getRejectedKey(routeId));
+}
+
+/**
+ * Replay a route's outbox in order
+ * Stops at the first failure worth retrying; steps the server refuses are moved
+ * to the rejected list and replay carries on with the next one.
+ */
+export async function replayOutbox(routeId: string, handlers: OutboxReplayHandlers): Promise<OutboxReplayResult> {
+  const rejected: RejectedOutboxUpdate[] = [];
+
+  for (const step of planOutboxReplay(loadOutbox(routeId))) {
+    try {
+      if (step.type === 'locations') {
+        const sent = await handlers.sendLocationBatch(step.broadcasts);
+        if (!sent) {
+          return { completed: false, rejected };
+        }
+        if (Array.isArray(sent) && sent.length > 0) {
+          const update = {
+            step: { type: 'locations' as const, broadcasts: sent.map(refused => step.broadcasts[refused.index]).filter(Boolean) },
+            reason: sent.map(refused => refused.error).join('; '),
+            rejectedAt: Date.now(),
+          };
+          console.error('[NavigatorOutbox] Locations refused by the server, skipping them:', update.reason);
+          saveRejectedUpdate(routeId, update);
+          rejected.push(update);
+        }
+      } else {
+        await handlers.saveRoute(step.route);
+      }
+    } catch (error) {
+      if (isRetryableFailure(error)) {
+        console.warn('[NavigatorOutbox] Replay interrupted, will retry:', error);
+        return { completed: false, rejected };
+      }
+      const update = {
+        step,
+        reason: error instanceof Error ? error.message : String(error),
+        rejectedAt: Date.now(),
+      };
+      console.error('[NavigatorOutbox] Update rejected by the server, skipping it:', error);
+      saveRejectedUpdate(routeId, update);
+      rejected.push(update);
+    }
+    const remaining = removeReplayedStep(routeId, step);
+    handlers.onProgress?.(remaining);
+  }
+
+  return { completed: true, rejected };
+}
@@ -0,0 +1,207 @@
+/**
+ * "Notify me when Santa is near" alerts for tracking viewers
+ *
+ * Production: the browser subscribes to Web Push and registers a point with
+ * POST /api/routes/{id}/alerts. The broadcast API sends one notification when
+ * Santa is about five minutes away, shown by the service worker (public/sw.js).
+ * Dev mode: there is no push service, so the tracking page checks each live
+ * update itself and shows a local notification while it is open.
+ *
+ * The alert for each route is remembered in localStorage so the page can show
+ * it and turn it off again.
+ */
+
+import type { LocationBroadcast } from '../types';
+
+const API_BASE_URL = import.meta.env.VITE_API_BASE_URL || '/api';
+
+// Keep in sync with api/src/utils/nearbyAlerts.ts
+export const NEARBY_ALERT_SECONDS = 5 * 60;
+const SANTA_RUN_SPEED_KMH = 20;
+const ROAD_DISTANCE_FACTOR = 1.3;
+
+export interface NearbyAlert {
+  routeId: string;
+  location: [number, number]; // [lng, lat]
+  label?: string;
+  /** Server subscription ID (absent for dev-mode local alerts) */
+  subscriptionId?: string;
+  createdAt: string;
+  /** Set once a dev-mode local alert has been shown */
+  notifiedAt?: string;
+}
+
+function isDevMode(): boolean {
+  return import.meta.env.VITE_DEV_MODE === 'true';
+}
+
+function getNearbyAlertKey(routeId: string): string {
+  return `santa_nearby_alert_${routeId}`;
+}
+
+/**
+ * The alert saved for a route on this device (null if none)
+ */
+export function loadNearbyAlert(routeId: string): NearbyAlert | null {
+  const stored = localStorage.getItem(getNearbyAlertKey(routeId));
+  return stored ? JSON.parse(stored) : null;
+}
+
+export function saveNearbyAlert(alert: NearbyAlert): void {
+  localStorage.setItem(getNearbyAlertKey(alert.routeId), JSON.stringify(alert));
+}
+
+export function clearNearbyAlert(routeId: string): void {
+  localStorage.removeItem(getNearbyAlertKey(routeId));
+}
+
+/**
+ * Whether this browser can receive alerts (push in production, notifications in dev mode)
+ */
+export function isNearbyAlertSupported(): boolean {
+  if (typeof window === 'undefined' || !('Notification' in window)) {
+    return false;
+  }
+  return isDevMode() || ('serviceWorker' in navigator && 'PushManager' in window);
+}
+
+/**
+ * Distance between two [lng, lat] coordinates in meters (Haversine)
+ */
+function distanceMeters(from: [number, number], to: [number, number]): number {
+  const R = 6371e3;
+  const φ1 = (from[1] * Math.PI) / 180;
+  const φ2 = (to[1] * Math.PI) / 180;
+  const Δφ = ((to[1] - from[1]) * Math.PI) / 180;
+  const Δλ = ((to[0] - from[0]) * Math.PI) / 180;
+
+  const a = Math.sin(Δφ / 2) ** 2 + Math.cos(φ1) * Math.cos(φ2) * Math.sin(Δλ / 2) ** 2;
+  return R * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+}
+
+/**
+ * Whether Santa is close enough to a point to alert (same estimate as the API)
+ */
+export function isSantaNearby(santa: [number, number], point: [number, number]): boolean {
+  const seconds = (distanceMeters(santa, point) * ROAD_DISTANCE_FACTOR) / (SANTA_RUN_SPEED_KMH / 3.6);
+  return seconds <= NEARBY_ALERT_SECONDS;
+}
+
+/**
+ * Decode a base64url VAPID key for PushManager.subscribe
+ */
+export function urlBase64ToUint8Array(base64Url: string): Uint8Array<ArrayBuffer> {
+  const base64 = (base64Url + '='.repeat((4 - (base64Url.length % 4)) % 4))
+    .replace(/-/g, '+')
+    .replace(/_/g, '/');
+  const raw = atob(base64);
+  const bytes = new Uint8Array(raw.length);
+  for (let i = 0; i < raw.length; i++) {
+    bytes[i] = raw.charCodeAt(i);
+  }
+  return bytes;
+}
+
+async function fetchVapidPublicKey(): Promise<string> {
+  const response = await fetch(`${API_BASE_URL}/alerts/vapid-public-key`);
+  if (!response.ok) {
+    throw new Error('Santa alerts are not available right now');
+  }
+  const data = await response.json() as { publicKey: string };
+  return data.publicKey;
+}
+
+/**
+ * Ask for permission and register a point for a route's "Santa is near" alert
+ */
+export async function subscribeToNearbyAlert(
+  routeId: string,
+  location: [number, number],
+  label?: string
+): Promise<NearbyAlert> {
+  const permission = await Notification.requestPermission();
+  if (permission !== 'granted') {
+    throw new Error('Notifications are blocked. Allow them in your browser settings to get alerts.');
+  }
+
+  if (isDevMode()) {
+    const alert: NearbyAlert = { routeId, location, label, createdAt: new Date().toISOString() };
+    saveNearbyAlert(alert);
+    return alert;
+  }
+
+  const registration = await navigator.serviceWorker.ready;
+  const subscription = await registration.pushManager.getSubscription()
+    ?? await registration.pushManager.subscribe({
+      userVisibleOnly: true,
+      applicationServerKey: urlBase64ToUint8Array(await fetchVapidPublicKey()),
+    });
+
+  const response = await fetch(`${API_BASE_URL}/routes/${encodeURIComponent(routeId)}/alerts`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ subscription: subscription.toJSON(), location, label }),
+  });
+
+  if (!response.ok) {
+    const data = await response.json().catch(() => null) as { error?: string } | null;
+    throw new Error(data?.error || `Failed to turn on alerts: ${response.statusText}`);
+  }
+
+  const { id } = await response.json() as { id: string };
+  const alert: NearbyAlert = { routeId, location, label, subscriptionId: id, createdAt: new Date().toISOString() };
+  saveNearbyAlert(alert);
+  return alert;
+}
+
+/**
+ * Remove a subscription by ID (used by the unsubscribe link in an alert)
+ * Resolves to false if the alert had already gone.
+ */
+export async function deleteNearbyAlert(routeId: string, subscriptionId: string): Promise<boolean> {
+  const response = await fetch(
+    `${API_BASE_URL}/routes/${encodeURIComponent(routeId)}/alerts/${encodeURIComponent(subscriptionId)}`,
+    { method: 'DELETE' }
+  );
+
+  if (response.status === 404) {
+    return false;
+  }
+  if (!response.ok) {
+    throw new Error(`Failed to turn off alerts: ${response.statusText}`);
+  }
+  return true;
+}
+
+/**
+ * Turn off this device's alert for a route
+ */
+export async function unsubscribeFromNearbyAlert(routeId: string): Promise<void> {
+  const alert = loadNearbyAlert(routeId);
+  if (alert?.subscriptionId) {
+    await deleteNearbyAlert(routeId, alert.subscriptionId);
+  }
+  clearNearbyAlert(routeId);
+}
+
+/**
+ * Dev mode: show the local alert once when a live update brings Santa in range
+ * Returns the updated alert when it fired, otherwise null.
+ */
+export function checkLocalNearbyAlert(alert: NearbyAlert, location: LocationBroadcast): NearbyAlert | null {
+  if (alert.subscriptionId || alert.notifiedAt || !isSantaNearby(location.location, alert.location)) {
+    return null;
+  }
+
+  if ('Notification' in window && Notification.permission === 'granted') {
+    const minutes = Math.round(NEARBY_ALERT_SECONDS / 60);
+    new Notification('🎅 Santa is nearly here!', {
+      body: `Santa is ~${minutes} minutes away from ${alert.label || 'your pin'}. Head outside to say hello!`,
+      tag: `santa-nearby-${alert.routeId}`,
+    });
+  }
+
+  const notified = { ...alert, notifiedAt: new Date().toISOString() };
+  saveNearbyAlert(notified);
+  return notified;
+}
@@ -0,0 +1,378 @@
+/**
+ * Offline map tiles for a published route
+ *
+ * "Prepare for offline" downloads the Mapbox style, sprites and vector tiles for
+ * a buffered corridor around the route geometry into a per-route Cache Storage
+ * cache. The service worker (public/sw.js) serves Mapbox requests from these
+ * caches, so the navigator's map keeps rendering in black spots.
+ *
+ * Metadata (size, tile count, expiry) is kept in localStorage. Caches expire
+ * after OFFLINE_TILES_TTL_DAYS and are purged when the app next starts.
+ */
+
+import type { GeoJSON, Route } from '../types';
+import { calculateDistance } from './navigation';
+
+// Zoom levels used while navigating (NavigationMap 14, TrackingView 15, MapView 12)
+export const OFFLINE_TILE_ZOOMS = [12, 13, 14, 15, 16];
+
+// Corridor either side of the route, in meters
+export const OFFLINE_BUFFER_METERS = 500;
+
+export const OFFLINE_TILES_TTL_DAYS = 30;
+
+// Guards against runaway downloads for very long routes
+export const MAX_OFFLINE_TILES = 4000;
+
+const MAPBOX_STYLE_URL = 'https://api.mapbox.com/styles/v1/mapbox/streets-v12';
+const CACHE_NAME_PREFIX = 'santa-offline-route-';
+const STORAGE_KEY_PREFIX = 'santa_offline_tiles_';
+const DOWNLOAD_CONCURRENCY = 6;
+const METERS_PER_DEGREE_LAT = 111320;
+
+export interface TileCoordinate {
+  x: number;
+  y: number;
+  z: number;
+}
+
+export interface CorridorOptions {
+  zooms?: number[];
+  bufferMeters?: number;
+}
+
+export interface OfflineTilesInfo {
+  routeId: string;
+  tileCount: number;
+  resourceCount: number;
+  bytes: number;
+  zooms: number[];
+  bufferMeters: number;
+  createdAt: string;
+  expiresAt: string;
+}
+
+export interface OfflineTilesProgress {
+  completed: number;
+  total: number;
+}
+
+interface TileSource {
+  template: string;
+  minzoom: number;
+  maxzoom: number;
+}
+
+function getCacheName(routeId: string): string {
+  return `${CACHE_NAME_PREFIX}${routeId}`;
+}
+
+function getStorageKey(routeId: string): string {
+  return `${STORAGE_KEY_PREFIX}${routeId}`;
+}
+
+/**
+ * Whether the browser can store tiles for offline use
+ */
+export function isOfflineTilesSupported(): boolean {
+  return typeof caches !== 'undefined' && typeof navigator !== 'undefined' && 'serviceWorker' in navigator;
+}
+
+/**
+ * Slippy map tile containing a coordinate
+ */
+export function lngLatToTile(lng: number, lat: number, zoom: number): TileCoordinate {
+  const n = 2 ** zoom;
+  const latRad = (lat * Math.PI) / 180;
+  const x = Math.floor(((lng + 180) / 360) * n);
+  const y = Math.floor(((1 - Math.log(Math.tan(latRad) + 1 / Math.cos(latRad)) / Math.PI) / 2) * n);
+
+  return {
+    x: Math.min(Math.max(x, 0), n - 1),
+    y: Math.min(Math.max(y, 0), n - 1),
+    z: zoom,
+  };
+}
+
+/**
+ * Tiles covering a buffered corridor around a route
+ * Each segment is sampled every `bufferMeters`, and the tiles under a box of
+ * `bufferMeters` around each sample are included, so the boxes overlap and the
+ * corridor has no gaps.
+ */
+export function getCorridorTiles(
+  geometry: GeoJSON.LineString,
+  { zooms = OFFLINE_TILE_ZOOMS, bufferMeters = OFFLINE_BUFFER_METERS }: CorridorOptions = {}
+): TileCoordinate[] {
+  const coordinates = geometry.coordinates as [number, number][];
+  if (coordinates.length === 0) {
+    return [];
+  }
+
+  const samples: [number, number][] = [coordinates[0]];
+  for (let i = 1; i < coordinates.length; i++) {
+    const [fromLng, fromLat] = coordinates[i - 1];
+    const [toLng, toLat] = coordinates[i];
+    const steps = Math.max(1, Math.ceil(calculateDistance(coordinates[i - 1], coordinates[i]) / bufferMeters));
+
+    for (let step = 1; step <= steps; step++) {
+      const t = step / steps;
+      samples.push([fromLng + (toLng - fromLng) * t, fromLat + (toLat - fromLat) * t]);
+    }
+  }
+
+  const tiles = new Map<string, TileCoordinate>();
+
+  samples.forEach(([lng, lat]) => {
+    const latBuffer = bufferMeters / METERS_PER_DEGREE_LAT;
+    const lngBuffer = bufferMeters / (METERS_PER_DEGREE_LAT * Math.cos((lat * Math.PI) / 180));
+
+    zooms.forEach(zoom => {
+      const topLeft = lngLatToTile(lng - lngBuffer, lat + latBuffer, zoom);
+      const bottomRight = lngLatToTile(lng + lngBuffer, lat - latBuffer, zoom);
+
+      for (let x = topLeft.x; x <= bottomRight.x; x++) {
+        for (let y = topLeft.y; y <= bottomRight.y; y++) {
+          tiles.set(`${zoom}/${x}/${y}`, { x, y, z: zoom });
+        }
+      }
+    });
+  });
+
+  return Array.from(tiles.values());
+}
+
+/**
+ * Cache key for a Mapbox request, ignoring the access token and billing
+ * session (sku) so tiles cached here match the map's own requests.
+ * Keep in sync with normalizeMapboxUrl in public/sw.js.
+ */
+export function normalizeMapboxUrl(url: string): string {
+  const parsed = new URL(url);
+  parsed.protocol = 'https:';
+  parsed.host = 'api.mapbox.com';
+  parsed.searchParams.delete('access_token');
+  parsed.searchParams.delete('sku');
+  parsed.searchParams.sort();
+  return parsed.toString();
+}
+
+/**
+ * Resolve a mapbox:// URL (or plain URL) to an authenticated https URL
+ */
+function toMapboxRequestUrl(url: string, token: string): string {
+  const resolved = url.startsWith('mapbox://sprites/')
+    ? url.replace('mapbox://sprites/', 'https://api.mapbox.com/styles/v1/') + '/sprite'
+    : url.startsWith('mapbox://')
+      ? `https://api.mapbox.com/v4/${url.slice('mapbox://'.length)}.json?secure`
+      : url;
+
+  const parsed = new URL(resolved);
+  parsed.searchParams.set('access_token', token);
+  return parsed.toString();
+}
+
+/**
+ * Load the stored offline cache details for a route
+ */
+export function loadOfflineTilesInfo(routeId: string): OfflineTilesInfo | null {
+  const stored = localStorage.getItem(getStorageKey(routeId));
+  return stored ? JSON.parse(stored) : null;
+}
+
+/**
+ * Whether an offline cache has passed its expiry date
+ */
+export function isOfflineTilesExpired(info: OfflineTilesInfo, now: number = Date.now()): boolean {
+  return new Date(info.expiresAt).getTime() <= now;
+}
+
+/**
+ * Delete the offline cache for a route
+ */
+export async function clearOfflineTiles(routeId: string): Promise<void> {
+  localStorage.removeItem(getStorageKey(routeId));
+  if (typeof caches !== 'undefined') {
+    await caches.delete(getCacheName(routeId));
+  }
+}
+
+/**
+ * Delete expired offline caches, and caches whose details were lost
+ */
+export async function purgeExpiredOfflineTiles(): Promise<void> {
+  if (typeof caches === 'undefined') {
+    return;
+  }
+
+  const names = await caches.keys();
+  await Promise.all(
+    names
+      .filter(name => name.startsWith(CACHE_NAME_PREFIX))
+      .map(async name => {
+        const routeId = name.slice(CACHE_NAME_PREFIX.length);
+        const info = loadOfflineTilesInfo(routeId);
+        if (!info || isOfflineTilesExpired(info)) {
+          await clearOfflineTiles(routeId);
+        }
+      })
+  );
+}
+
+async function fetchJson<T>(url: string, signal?: AbortSignal): Promise<T> {
+  const response = await fetch(url, { signal });
+  if (!response.ok) {
+    throw new Error(`Failed to download map data (${response.status})`);
+  }
+  return response.json();
+}
+
+/**
+ * Download the style, sprites and corridor tiles for a route into Cache Storage
+ * Tiles the server has no data for (404) are skipped; network failures abort
+ * the download and remove the partial cache.
+ */
+export async function prepareOfflineTiles(
+  route: Route,
+  token: string,
+  onProgress?: (progress: OfflineTilesProgress) => void,
+  signal?: AbortSignal
+): Promise<OfflineTilesInfo> {
+  if (!isOfflineTilesSupported()) {
+    throw new Error('Offline maps are not supported in this browser');
+  }
+  if (!route.geometry) {
+    throw new Error('Route has no geometry. Optimize the route first.');
+  }
+
+  const corridor = getCorridorTiles(route.geometry);
+  const styleUrl = toMapboxRequestUrl(MAPBOX_STYLE_URL, token);
+  const style = await fetchJson<{ sprite?: string; sources: Record<string, { type: string; url?: string }> }>(styleUrl, signal);
+
+  const tileSources: TileSource[] = [];
+  for (const source of Object.values(style.sources)) {
+    if (source.type !== 'vector' || !source.url) {
+      continue;
+    }
+    const tileJson = await fetchJson<{ tiles: string[]; minzoom?: number; maxzoom?: number }>(
+      toMapboxRequestUrl(source.url, token),
+      signal
+    );
+    tileSources.push({
+      template: tileJson.tiles[0],
+      minzoom: tileJson.minzoom ?? 0,
+      maxzoom: tileJson.maxzoom ?? 22,
+    });
+  }
+
+  const resourceUrls = [styleUrl];
+  if (style.sprite) {
+    const sprite = toMapboxRequestUrl(style.sprite, token);
+    ['.json', '.png', '@2x.json', '@2x.png'].forEach(suffix => {
+      const parsed = new URL(sprite);
+      parsed.pathname += suffix;
+      resourceUrls.push(parsed.toString());
+    });
+  }
+
+  const tileUrls = tileSources.flatMap(source =>
+    corridor
+      .filter(tile => tile.z >= source.minzoom && tile.z <= source.maxzoom)
+      .map(tile => {
+        const url = new URL(
+          source.template
+            .replace('{z}', String(tile.z))
+            .replace('{x}', String(tile.x))
+            .replace('{y}', String(tile.y))
+        );
+        url.searchParams.set('access_token', token);
+        return url.toString();
+      })
+  );
+
+  if (tileUrls.length > MAX_OFFLINE_TILES) {
+    throw new Error(
+      `This route needs ${tileUrls.length} map tiles, more than the ${MAX_OFFLINE_TILES} tile limit for offline maps`
+    );
+  }
+
+  // Start from an empty cache so refreshing does not keep tiles from an older route shape
+  await clearOfflineTiles(route.id);
+  const cache = await caches.open(getCacheName(route.id));
+
+  const queue = [...resourceUrls, ...tileUrls];
+  const tileUrlSet = new Set(tileUrls);
+  const total = queue.length;
+  let completed = 0;
+  let tileCount = 0;
+  let resourceCount = 0;
+  let bytes = 0;
+
+  onProgress?.({ completed, total });
+
+  const download = async (url: string) => {
+    const response = await fetch(url, { signal });
+
+    if (response.ok) {
+      const size = (await response.clone().blob()).size;
+      await cache.put(normalizeMapboxUrl(url), response);
+      bytes += size;
+      resourceCount++;
+      if (tileUrlSet.has(url)) {
+        tileCount++;
+      }
+    } else if (response.status !== 404) {
+      throw new Error(`Failed to download map data (${response.status})`);
+    }
+
+    completed++;
+    onProgress?.({ completed, total });
+  };
+
+  const worker = async () => {
+    let url = queue.shift();
+    while (url) {
+      try {
+        await download(url);
+      } catch (error) {
+        // Stop the other workers picking up more work
+        queue.length = 0;
+        throw error;
+      }
+      url = queue.shift();
+    }
+  };
+
+  // Wait for every worker to stop before cleaning up, so nothing is written after the clear
+  const results = await Promise.allSettled(Array.from({ length: DOWNLOAD_CONCURRENCY }, worker));
+  const failure = results.find((result): result is PromiseRejectedResult => result.status === 'rejected');
+  if (failure) {
+    await clearOfflineTiles(route.id);
+    throw failure.reason;
+  }
+
+  const createdAt = new Date();
+  const info: OfflineTilesInfo = {
+    routeId: route.id,
+    tileCount,
+    resourceCount,
+    bytes,
+    zooms: OFFLINE_TILE_ZOOMS,
+    bufferMeters: OFFLINE_BUFFER_METERS,
+    createdAt: createdAt.toISOString(),
+    expiresAt: new Date(createdAt.getTime() + OFFLINE_TILES_TTL_DAYS * 24 * 60 * 60 * 1000).toISOString(),
+  };
+
+  localStorage.setItem(getStorageKey(route.id), JSON.stringify(info));
+  return info;
+}
+
+/**
+ * Human readable cache size, e.g. "850 KB" or "12.4 MB"
+ */
+export function formatCacheSize(bytes: number): string {
+  if (bytes < 1024 * 1024) {
+    return `${Math.max(1, Math.round(bytes / 1024))} KB`;
+  }
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
@@ -246,6 +246,21 @@ export function canApproveMembership(
   return false;
 }
 
+/**
+ * Check if a user can read the brigade's audit log.
+ *
+ * Permissions:
+ * - Admin: Can view
+ * - Operator: Cannot view
+ * - Viewer: Cannot view
+ */
+export function canViewAuditLog(membership: BrigadeMembership | null): boolean {
+  if (!membership) return false;
+  if (membership.status !== 'active') return false;
+
+  return membership.role === 'admin';
+}
+
 /**
  * Get a human-readable role display name.
  */
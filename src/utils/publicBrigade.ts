@@ -0,0 +1,151 @@
+/**
+ * Public brigade page
+ *
+ * Residents find a brigade's runs at /b/{slug} without a direct tracking link.
+ * Only the brigade's public profile and its published, active and recently
+ * completed routes are shown; drafts and internal fields are left out.
+ */
+
+import { storageAdapter } from '../storage';
+import type { Brigade } from '../storage';
+import type { Route } from '../types';
+
+const API_BASE_URL = import.meta.env.VITE_API_BASE_URL || '/api';
+
+export type PublicRouteStatus = 'published' | 'active' | 'completed';
+
+/** How long a finished run stays on the brigade page */
+export const RECENTLY_COMPLETED_DAYS = 14;
+
+export interface PublicBrigadeProfile {
+  slug: string;
+  name: string;
+  location?: string;
+  logo?: string;
+  themeColor?: string;
+  contact?: {
+    email?: string;
+    phone?: string;
+    website?: string;
+  };
+}
+
+export interface PublicRouteSummary {
+  id: string;
+  name: string;
+  description?: string;
+  date: string;
+  startTime: string;
+  endTime?: string;
+  status: PublicRouteStatus;
+  stopCount: number;
+  distance?: number;
+  estimatedDuration?: number;
+  startedAt?: string;
+  completedAt?: string;
+}
+
+export interface PublicBrigadePage {
+  brigade: PublicBrigadeProfile;
+  routes: PublicRouteSummary[];
+}
+
+const STATUS_ORDER: Record<PublicRouteStatus, number> = { active: 0, published: 1, completed: 2 };
+
+function isPublicStatus(status: Route['status']): status is PublicRouteStatus {
+  return status === 'published' || status === 'active' || status === 'completed';
+}
+
+function isRecentlyCompleted(route: Pick<Route, 'date' | 'completedAt'>, now: Date): boolean {
+  const finished = new Date(route.completedAt || `${route.date}T23:59:59`).getTime();
+  return now.getTime() - finished <= RECENTLY_COMPLETED_DAYS * 24 * 60 * 60 * 1000;
+}
+
+function isDevMode(): boolean {
+  return import.meta.env.VITE_DEV_MODE === 'true';
+}
+
+/**
+ * The brigade fields shown to the public
+ */
+export function toPublicBrigadeProfile(brigade: Brigade): PublicBrigadeProfile {
+  const contact = brigade.contact?.email || brigade.contact?.phone || brigade.contact?.website
+    ? {
+      email: brigade.contact.email || undefined,
+      phone: brigade.contact.phone || undefined,
+      website: brigade.contact.website || undefined,
+    }
+    : undefined;
+  return {
+    slug: brigade.slug,
+    name: brigade.name,
+    location: brigade.location || undefined,
+    logo: brigade.logo || undefined,
+    themeColor: brigade.themeColor || undefined,
+    contact,
+  };
+}
+
+/**
+ * Build the public page from a brigade and all of its routes
+ * Live runs come first, then upcoming runs soonest first, then recent runs newest first.
+ * Keep in sync with api/src/utils/publicBrigade.ts.
+ */
+export function buildPublicBrigadePage(brigade: Brigade, routes: Route[], now: Date): PublicBrigadePage {
+  const publicRoutes: PublicRouteSummary[] = routes
+    .filter((route): route is Route & { status: PublicRouteStatus } =>
+      isPublicStatus(route.status) && (route.status !== 'completed' || isRecentlyCompleted(route, now)))
+    .map(route => ({
+      id: route.id,
+      name: route.name,
+      description: route.description || undefined,
+      date: route.date,
+      startTime: route.startTime,
+      endTime: route.endTime || undefined,
+      status: route.status,
+      stopCount: route.waypoints.length,
+      distance: route.distance || undefined,
+      estimatedDuration: route.estimatedDuration || undefined,
+      startedAt: route.startedAt || undefined,
+      completedAt: route.completedAt || undefined,
+    }));
+
+  publicRoutes.sort((a, b) => {
+    if (a.status !== b.status) {
+      return STATUS_ORDER[a.status] - STATUS_ORDER[b.status];
+    }
+    const byDate = `${a.date} ${a.startTime}`.localeCompare(`${b.date} ${b.startTime}`);
+    return a.status === 'completed' ? -byDate : byDate;
+  });
+
+  return {
+    brigade: toPublicBrigadeProfile(brigade),
+    routes: publicRoutes,
+  };
+}
+
+/**
+ * Load a brigade's public page by slug (null if there is no such brigade)
+ * Dev mode builds it from local storage; production asks the public API.
+ */
+export async function fetchPublicBrigadePage(slug: string): Promise<PublicBrigadePage | null> {
+  if (isDevMode()) {
+    const brigade = await storageAdapter.getBrigadeBySlug(slug);
+    if (!brigade) {
+      return null;
+    }
+    return buildPublicBrigadePage(brigade, await storageAdapter.getRoutes(brigade.id), new Date());
+  }
+
+  const response = await fetch(`${API_BASE_URL}/public/brigades/${encodeURIComponent(slug)}`);
+
+  if (response.status === 404) {
+    return null;
+  }
+
+  if (!response.ok) {
+    throw new Error(`Failed to fetch brigade: ${response.statusText}`);
+  }
+
+  return await response.json() as PublicBrigadePage;
+}
@@ -0,0 +1,221 @@
+/**
+ * Route diffs and three-way merges
+ *
+ * Used when a save hits a version conflict: the editor shows which stops each
+ * side changed since the version it loaded, and can merge the two edits.
+ */
+
+import type { Route, Waypoint } from '../types';
+import { sortWaypoints } from './routeHelpers';
+
+export type WaypointChangeType = 'added' | 'removed' | 'moved' | 'renamed' | 'reordered' | 'edited';
+
+export const WAYPOINT_CHANGE_LABELS: Record<WaypointChangeType, string> = {
+  added: '➕ Added',
+  removed: '🗑️ Removed',
+  moved: '📍 Moved',
+  renamed: '✏️ Renamed',
+  reordered: '↕️ Reordered',
+  edited: '📝 Edited',
+};
+
+export interface WaypointChange {
+  waypointId: string;
+  label: string;
+  type: WaypointChangeType;
+}
+
+/**
+ * A save that lost a race with someone else's: their saved route, and which
+ * stops each side changed since the version being edited
+ */
+export interface RouteEditConflict {
+  current: Route;
+  theirChanges: WaypointChange[];
+  myChanges: WaypointChange[];
+}
+
+// Route fields an editor plans, merged field by field
+export const PLAN_FIELDS = ['name', 'description', 'date', 'startTime', 'endTime', 'defaultDwellMinutes', 'vehicles'] as const;
+
+// Stop fields other than the location and name an editor can change
+const EDITABLE_WAYPOINT_FIELDS = ['notes', 'scheduledArrival', 'dwellMinutes', 'geofenceRadius', 'vehicleId'] as const;
+
+function sameValue(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/**
+ * Whether two versions of a stop match, ignoring position (deleting one stop renumbers every stop after it)
+ */
+export function isSameWaypoint(a: Waypoint, b: Waypoint): boolean {
+  return sameValue({ ...a, order: 0 }, { ...b, order: 0 });
+}
+
+/**
+ * Whether two stop lists (in order) visit the same places, so a path planned for one fits the other
+ */
+export function hasSamePath(a: Waypoint[], b: Waypoint[]): boolean {
+  return a.length === b.length && a.every((wp, index) =>
+    wp.id === b[index].id &&
+    wp.coordinates[0] === b[index].coordinates[0] &&
+    wp.coordinates[1] === b[index].coordinates[1]
+  );
+}
+
+function waypointLabel(waypoint: Waypoint, index: number): string {
+  return waypoint.name || waypoint.address?.split(',')[0] || `Stop ${index + 1}`;
+}
+
+/**
+ * IDs kept in their relative order (the longest common subsequence of the two orders)
+ */
+function keptInOrder(before: string[], after: string[]): Set<string> {
+  const lengths = before.map(() => new Array<number>(after.length + 1).fill(0));
+  lengths.push(new Array<number>(after.length + 1).fill(0));
+  for (let i = before.length - 1; i >= 0; i--) {
+    for (let j = after.length - 1; j >= 0; j--) {
+      lengths[i][j] = before[i] === after[j]
+        ? lengths[i + 1][j + 1] + 1
+        : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const kept = new Set<string>();
+  let i = 0;
+  let j = 0;
+  while (i < before.length && j < after.length) {
+    if (before[i] === after[j]) {
+      kept.add(before[i]);
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      i++;
+    } else {
+      j++;
+    }
+  }
+  return kept;
+}
+
+/**
+ * Stops added, removed, moved, renamed, reordered or otherwise edited between two versions
+ * A stop can appear more than once (e.g. moved and renamed).
+ */
+export function diffWaypoints(before: Waypoint[], after: Waypoint[]): WaypointChange[] {
+  const beforeSorted = sortWaypoints(before);
+  const afterSorted = sortWaypoints(after);
+  const beforeById = new Map(beforeSorted.map(wp => [wp.id, wp]));
+  const afterIds = new Set(afterSorted.map(wp => wp.id));
+
+  const commonBefore = beforeSorted.filter(wp => afterIds.has(wp.id)).map(wp => wp.id);
+  const commonAfter = afterSorted.filter(wp => beforeById.has(wp.id)).map(wp => wp.id);
+  const kept = keptInOrder(commonBefore, commonAfter);
+
+  const changes: WaypointChange[] = [];
+  afterSorted.forEach((wp, index) => {
+    const label = waypointLabel(wp, index);
+    const previous = beforeById.get(wp.id);
+    if (!previous) {
+      changes.push({ waypointId: wp.id, label, type: 'added' });
+      return;
+    }
+    if (previous.coordinates[0] !== wp.coordinates[0] || previous.coordinates[1] !== wp.coordinates[1]) {
+      changes.push({ waypointId: wp.id, label, type: 'moved' });
+    }
+    if ((previous.name || '') !== (wp.name || '')) {
+      changes.push({ waypointId: wp.id, label, type: 'renamed' });
+    }
+    if (!kept.has(wp.id)) {
+      changes.push({ waypointId: wp.id, label, type: 'reordered' });
+    }
+    if (EDITABLE_WAYPOINT_FIELDS.some(field => !sameValue(previous[field], wp[field]))) {
+      changes.push({ waypointId: wp.id, label, type: 'edited' });
+    }
+  });
+
+  beforeSorted.forEach((wp, index) => {
+    if (!afterIds.has(wp.id)) {
+      changes.push({ waypointId: wp.id, label: waypointLabel(wp, index), type: 'removed' });
+    }
+  });
+
+  return changes;
+}
+
+/**
+ * Merge my edits and theirs, both made from the same base version
+ *
+ * Their route is the starting point; my changed fields and stops win where
+ * we both edited the same thing, my removed stops are dropped and my new
+ * stops are added. If I reordered the stops my order is kept, otherwise
+ * theirs. The planned path is kept only if the merged stops still match it.
+ */
+export function mergeRouteEdits(base: Route, mine: Route, theirs: Route): Route {
+  const baseById = new Map(base.waypoints.map(wp => [wp.id, wp]));
+  const mineById = new Map(mine.waypoints.map(wp => [wp.id, wp]));
+  const theirsById = new Map(theirs.waypoints.map(wp => [wp.id, wp]));
+
+  const pick = (wp: Waypoint): Waypoint => {
+    const myVersion = mineById.get(wp.id);
+    const baseVersion = baseById.get(wp.id);
+    return myVersion && baseVersion && !isSameWaypoint(myVersion, baseVersion) ? myVersion : wp;
+  };
+
+  const theirsKept = sortWaypoints(theirs.waypoints)
+    .filter(wp => !baseById.has(wp.id) || mineById.has(wp.id))
+    .map(pick);
+  const myAdded = sortWaypoints(mine.waypoints)
+    .filter(wp => !baseById.has(wp.id) && !theirsById.has(wp.id));
+
+  const baseOrder = sortWaypoints(base.waypoints).map(wp => wp.id).filter(id => mineById.has(id));
+  const myOrder = sortWaypoints(mine.waypoints).map(wp => wp.id).filter(id => baseById.has(id));
+  const iReordered = !sameValue(baseOrder, myOrder);
+
+  const merged = [...theirsKept, ...myAdded];
+  const ordered = iReordered
+    ? [
+        ...sortWaypoints(mine.waypoints).map(wp => merged.find(m => m.id === wp.id)).filter((wp): wp is Waypoint => !!wp),
+        ...merged.filter(wp => !mineById.has(wp.id)),
+      ]
+    : merged;
+  const waypoints = ordered.map((wp, index) => ({ ...wp, order: index }));
+
+  const result: Route = { ...theirs, waypoints };
+  for (const field of PLAN_FIELDS) {
+    if (!sameValue(mine[field], base[field])) {
+      Object.assign(result, { [field]: mine[field] });
+    }
+  }
+
+  const pathSource = hasSamePath(waypoints, sortWaypoints(theirs.waypoints))
+    ? theirs
+    : hasSamePath(waypoints, sortWaypoints(mine.waypoints)) ? mine : null;
+  return pathSource
+    ? {
+        ...result,
+        geometry: pathSource.geometry,
+        navigationSteps: pathSource.navigationSteps,
+        distance: pathSource.distance,
+        estimatedDuration: pathSource.estimatedDuration,
+      }
+    : {
+        ...result,
+        geometry: undefined,
+        navigationSteps: undefined,
+        distance: undefined,
+        estimatedDuration: undefined,
+        vehicles: result.vehicles?.map(({ id, callsign, color }) => ({ id, callsign, color })),
+      };
+}
+
+/**
+ * What each side changed, for showing a save conflict
+ */
+export function describeRouteConflict(base: Route, mine: Route, current: Route): RouteEditConflict {
+  return {
+    current,
+    theirChanges: diffWaypoints(base.waypoints, current.waypoints),
+    myChanges: diffWaypoints(base.waypoints, mine.waypoints),
+  };
+}
@@ -0,0 +1,470 @@
+/**
+ * GPX, KML and GeoJSON import and export for routes
+ *
+ * Import maps points (GPX wpt/rtept, KML Point placemarks, GeoJSON Points) to
+ * waypoints and lines (GPX trk, KML LineString, GeoJSON LineString) to the
+ * route geometry. Multiple lines are joined in file order.
+ *
+ * Export writes the planned route (waypoints and geometry) or, for completed
+ * routes, the driven track with its timestamps. Waypoint fields are mapped as:
+ * - name: GPX <name>, KML <name>, GeoJSON properties.name
+ * - notes: GPX <desc>, KML <description>, GeoJSON properties.notes
+ * - address: GPX <cmt>, KML <address>, GeoJSON properties.address
+ */
+
+import type { GeoJSON, Route, TrackPoint } from '../types';
+import { sortWaypoints } from './routeHelpers';
+
+export type RouteFileFormat = 'gpx' | 'kml' | 'geojson';
+
+export const ROUTE_FILE_FORMATS: RouteFileFormat[] = ['gpx', 'kml', 'geojson'];
+
+// Large enough for a full night's GPS track
+export const MAX_ROUTE_FILE_SIZE_BYTES = 10 * 1024 * 1024; // 10MB
+
+const FILE_EXTENSIONS: Record<RouteFileFormat, string> = {
+  gpx: 'gpx',
+  kml: 'kml',
+  geojson: 'geojson',
+};
+
+const MIME_TYPES: Record<RouteFileFormat, string> = {
+  gpx: 'application/gpx+xml',
+  kml: 'application/vnd.google-earth.kml+xml',
+  geojson: 'application/geo+json',
+};
+
+export interface ImportedWaypoint {
+  coordinates: [number, number]; // [lng, lat]
+  name?: string;
+  notes?: string;
+  address?: string;
+}
+
+export interface ImportedRoute {
+  name?: string;
+  waypoints: ImportedWaypoint[];
+  geometry?: GeoJSON.LineString;
+  track?: TrackPoint[]; // Only when every line point has a time
+}
+
+interface GeoJsonGeometry {
+  type: string;
+  coordinates: unknown;
+}
+
+interface GeoJsonFeature {
+  type: 'Feature';
+  geometry: GeoJsonGeometry;
+  properties?: Record<string, unknown> | null;
+}
+
+interface GeoJsonObject {
+  type?: string;
+  name?: unknown;
+  features?: GeoJsonFeature[];
+}
+
+interface ParsedLinePoint {
+  coordinates: [number, number];
+  timestamp?: number;
+}
+
+/**
+ * Work out the format of a route file from its name, falling back to its content
+ */
+export function detectRouteFileFormat(filename: string, content: string): RouteFileFormat | null {
+  const extension = filename.toLowerCase().split('.').pop();
+  if (extension === 'gpx' || extension === 'kml') {
+    return extension;
+  }
+  if (extension === 'geojson' || extension === 'json') {
+    return 'geojson';
+  }
+
+  const trimmed = content.trimStart();
+  if (trimmed.startsWith('{')) {
+    return 'geojson';
+  }
+  if (/<gpx[\s>]/.test(trimmed)) {
+    return 'gpx';
+  }
+  if (/<kml[\s>]/.test(trimmed)) {
+    return 'kml';
+  }
+  return null;
+}
+
+function parseXml(content: string, rootName: string): Document {
+  const doc = new DOMParser().parseFromString(content, 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0 || doc.documentElement.localName !== rootName) {
+    throw new Error(`Not a valid ${rootName.toUpperCase()} file`);
+  }
+  return doc;
+}
+
+// Namespace-agnostic lookups, since files use both default and prefixed namespaces
+function childElements(parent: Element | Document, localName: string): Element[] {
+  return Array.from(parent.getElementsByTagNameNS('*', localName));
+}
+
+function directChildText(parent: Element, localName: string): string | undefined {
+  const child = Array.from(parent.children).find(el => el.localName === localName);
+  const text = child?.textContent?.trim();
+  return text ? text : undefined;
+}
+
+function parseCoordinate(lng: number, lat: number): [number, number] {
+  if (!Number.isFinite(lng) || !Number.isFinite(lat) || Math.abs(lat) > 90 || Math.abs(lng) > 180) {
+    throw new Error('File contains invalid coordinates');
+  }
+  return [lng, lat];
+}
+
+function toImportedWaypoint(coordinates: [number, number], name?: string, notes?: string, address?: string): ImportedWaypoint {
+  const waypoint: ImportedWaypoint = { coordinates };
+  if (name) waypoint.name = name;
+  if (notes) waypoint.notes = notes;
+  if (address) waypoint.address = address;
+  return waypoint;
+}
+
+function buildImportedRoute(name: string | undefined, waypoints: ImportedWaypoint[], line: ParsedLinePoint[]): ImportedRoute {
+  if (waypoints.length === 0 && line.length < 2) {
+    throw new Error('No waypoints or tracks found in file');
+  }
+
+  const imported: ImportedRoute = { waypoints };
+  if (name) {
+    imported.name = name;
+  }
+  if (line.length >= 2) {
+    imported.geometry = { type: 'LineString', coordinates: line.map(point => point.coordinates) };
+    if (line.every(point => point.timestamp !== undefined)) {
+      imported.track = line.map(point => ({ location: point.coordinates, timestamp: point.timestamp as number }));
+    }
+  }
+  return imported;
+}
+
+function parseGpx(content: string): ImportedRoute {
+  const doc = parseXml(content, 'gpx');
+
+  const readPoint = (el: Element): [number, number] =>
+    parseCoordinate(parseFloat(el.getAttribute('lon') ?? ''), parseFloat(el.getAttribute('lat') ?? ''));
+
+  // Standalone waypoints, or the points of a planned route if there are none
+  const wpts = childElements(doc, 'wpt');
+  const points = wpts.length > 0 ? wpts : childElements(doc, 'rtept');
+  const waypoints = points.map(el =>
+    toImportedWaypoint(readPoint(el), directChildText(el, 'name'), directChildText(el, 'desc'), directChildText(el, 'cmt'))
+  );
+
+  const line = childElements(doc, 'trkpt').map(el => {
+    const time = directChildText(el, 'time');
+    return { coordinates: readPoint(el), timestamp: time ? Date.parse(time) : undefined };
+  });
+
+  const metadata = childElements(doc, 'metadata')[0];
+  const name = (metadata && directChildText(metadata, 'name'))
+    ?? childElements(doc, 'trk').map(el => directChildText(el, 'name')).find(Boolean)
+    ?? childElements(doc, 'rte').map(el => directChildText(el, 'name')).find(Boolean);
+
+  return buildImportedRoute(name, waypoints, line);
+}
+
+function parseKmlCoordinates(text: string): [number, number][] {
+  return text
+    .trim()
+    .split(/\s+/)
+    .filter(Boolean)
+    .map(tuple => {
+      const [lng, lat] = tuple.split(',').map(Number);
+      return parseCoordinate(lng, lat);
+    });
+}
+
+function parseKml(content: string): ImportedRoute {
+  const doc = parseXml(content, 'kml');
+
+  const waypoints: ImportedWaypoint[] = [];
+  const line: ParsedLinePoint[] = [];
+
+  childElements(doc, 'Placemark').forEach(placemark => {
+    const name = directChildText(placemark, 'name');
+    const notes = directChildText(placemark, 'description');
+    const address = directChildText(placemark, 'address');
+
+    childElements(placemark, 'Point').forEach(point => {
+      const [coordinates] = parseKmlCoordinates(directChildText(point, 'coordinates') ?? '');
+      if (coordinates) {
+        waypoints.push(toImportedWaypoint(coordinates, name, notes, address));
+      }
+    });
+
+    childElements(placemark, 'LineString').forEach(lineString => {
+      const coordinates = parseKmlCoordinates(directChildText(lineString, 'coordinates') ?? '');
+      line.push(...coordinates.map(point => ({ coordinates: point })));
+    });
+
+    // Google Earth tracks (gx:Track) pair each <when> with a <gx:coord>
+    childElements(placemark, 'Track').forEach(track => {
+      const whens = Array.from(track.children).filter(el => el.localName === 'when');
+      const coords = Array.from(track.children).filter(el => el.localName === 'coord');
+      coords.forEach((coord, index) => {
+        const [lng, lat] = (coord.textContent ?? '').trim().split(/\s+/).map(Number);
+        const when = whens[index]?.textContent?.trim();
+        line.push({ coordinates: parseCoordinate(lng, lat), timestamp: when ? Date.parse(when) : undefined });
+      });
+    });
+  });
+
+  const documentEl = childElements(doc, 'Document')[0];
+  const name = documentEl ? directChildText(documentEl, 'name') : undefined;
+
+  return buildImportedRoute(name, waypoints, line);
+}
+
+function parseGeoJson(content: string): ImportedRoute {
+  let data: GeoJsonObject;
+  try {
+    data = JSON.parse(content);
+  } catch {
+    throw new Error('Not a valid GeoJSON file');
+  }
+
+  const features: GeoJsonFeature[] = data.type === 'FeatureCollection'
+    ? data.features ?? []
+    : data.type === 'Feature'
+      ? [data as GeoJsonFeature]
+      : [{ type: 'Feature', geometry: data as GeoJsonGeometry, properties: {} }];
+
+  if (!data.type || features.some(feature => !feature.geometry || !feature.geometry.type)) {
+    throw new Error('Not a valid GeoJSON file');
+  }
+
+  const waypoints: ImportedWaypoint[] = [];
+  const line: ParsedLinePoint[] = [];
+
+  const readPosition = (position: number[]) => parseCoordinate(position[0], position[1]);
+  const asText = (value: unknown) => (typeof value === 'string' && value.trim() ? value.trim() : undefined);
+
+  features.forEach(feature => {
+    const properties = feature.properties ?? {};
+    const name = asText(properties.name);
+    const notes = asText(properties.notes) ?? asText(properties.description);
+    const address = asText(properties.address);
+    const geometry = feature.geometry;
+
+    switch (geometry.type) {
+      case 'Point':
+        waypoints.push(toImportedWaypoint(readPosition(geometry.coordinates as number[]), name, notes, address));
+        break;
+      case 'MultiPoint':
+        (geometry.coordinates as number[][]).forEach(position => {
+          waypoints.push(toImportedWaypoint(readPosition(position), name, notes, address));
+        });
+        break;
+      case 'LineString': {
+        // Times follow the common coordTimes convention (ISO strings or ms)
+        const times = Array.isArray(properties.coordTimes) ? properties.coordTimes : [];
+        (geometry.coordinates as number[][]).forEach((position, index) => {
+          const time = times[index];
+          line.push({
+            coordinates: readPosition(position),
+            timestamp: typeof time === 'number' ? time : typeof time === 'string' ? Date.parse(time) : undefined,
+          });
+        });
+        break;
+      }
+      case 'MultiLineString':
+        (geometry.coordinates as number[][][]).forEach(segment => {
+          segment.forEach(position => line.push({ coordinates: readPosition(position) }));
+        });
+        break;
+    }
+  });
+
+  const name = data.type === 'FeatureCollection' ? asText(data.name) : undefined;
+  return buildImportedRoute(name, waypoints, line);
+}
+
+/**
+ * Parse a route file in the given format
+ */
+export function parseRouteFile(content: string, format: RouteFileFormat): ImportedRoute {
+  switch (format) {
+    case 'gpx':
+      return parseGpx(content);
+    case 'kml':
+      return parseKml(content);
+    case 'geojson':
+      return parseGeoJson(content);
+  }
+}
+
+/**
+ * Read and parse an uploaded route file
+ */
+export async function importRouteFile(file: File): Promise<ImportedRoute> {
+  if (file.size > MAX_ROUTE_FILE_SIZE_BYTES) {
+    throw new Error(`File is too large. Maximum size is ${MAX_ROUTE_FILE_SIZE_BYTES / (1024 * 1024)}MB`);
+  }
+
+  const content = await file.text();
+  const format = detectRouteFileFormat(file.name, content);
+  if (!format) {
+    throw new Error('Unsupported file type. Use a GPX, KML or GeoJSON file (export KMZ files from Google My Maps as KML)');
+  }
+
+  return parseRouteFile(content, format);
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+function xmlElement(tag: string, value: string | undefined): string {
+  return value ? `<${tag}>${escapeXml(value)}</${tag}>` : '';
+}
+
+function lineCoordinates(route: Route, track?: TrackPoint[]): [number, number][] {
+  if (track) {
+    return track.map(point => point.location);
+  }
+  return route.geometry?.coordinates ?? [];
+}
+
+function routeToGpx(route: Route, track?: TrackPoint[]): string {
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<gpx version="1.1" creator="Fire Santa Run" xmlns="http://www.topografix.com/GPX/1/1">',
+    `  <metadata>${xmlElement('name', route.name)}</metadata>`,
+  ];
+
+  if (!track) {
+    sortWaypoints(route.waypoints).forEach(wp => {
+      lines.push(
+        `  <wpt lat="${wp.coordinates[1]}" lon="${wp.coordinates[0]}">` +
+        `${xmlElement('name', wp.name)}${xmlElement('cmt', wp.address)}${xmlElement('desc', wp.notes)}</wpt>`
+      );
+    });
+  }
+
+  const coordinates = lineCoordinates(route, track);
+  if (coordinates.length > 0) {
+    lines.push(`  <trk>${xmlElement('name', route.name)}<trkseg>`);
+    coordinates.forEach(([lng, lat], index) => {
+      const time = track ? `<time>${new Date(track[index].timestamp).toISOString()}</time>` : '';
+      lines.push(`    <trkpt lat="${lat}" lon="${lng}">${time}</trkpt>`);
+    });
+    lines.push('  </trkseg></trk>');
+  }
+
+  lines.push('</gpx>', '');
+  return lines.join('\n');
+}
+
+function routeToKml(route: Route, track?: TrackPoint[]): string {
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<kml xmlns="http://www.opengis.net/kml/2.2" xmlns:gx="http://www.google.com/kml/ext/2.2">',
+    '<Document>',
+    `  ${xmlElement('name', route.name)}`,
+  ];
+
+  if (!track) {
+    sortWaypoints(route.waypoints).forEach(wp => {
+      lines.push(
+        `  <Placemark>${xmlElement('name', wp.name)}${xmlElement('address', wp.address)}${xmlElement('description', wp.notes)}` +
+        `<Point><coordinates>${wp.coordinates[0]},${wp.coordinates[1]}</coordinates></Point></Placemark>`
+      );
+    });
+  }
+
+  if (track && track.length > 0) {
+    // gx:Track keeps the time of each point
+    lines.push(`  <Placemark>${xmlElement('name', route.name)}<gx:Track>`);
+    track.forEach(point => lines.push(`    <when>${new Date(point.timestamp).toISOString()}</when>`));
+    track.forEach(point => lines.push(`    <gx:coord>${point.location[0]} ${point.location[1]} 0</gx:coord>`));
+    lines.push('  </gx:Track></Placemark>');
+  } else if (route.geometry && route.geometry.coordinates.length > 0) {
+    const coordinates = route.geometry.coordinates
+      .map(([lng, lat]) => `${lng},${lat}`)
+      .join(' ');
+    lines.push(`  <Placemark>${xmlElement('name', route.name)}<LineString><coordinates>${coordinates}</coordinates></LineString></Placemark>`);
+  }
+
+  lines.push('</Document>', '</kml>', '');
+  return lines.join('\n');
+}
+
+function routeToGeoJson(route: Route, track?: TrackPoint[]): string {
+  const features: GeoJsonFeature[] = [];
+
+  if (!track) {
+    sortWaypoints(route.waypoints).forEach(wp => {
+      const properties: Record<string, unknown> = { order: wp.order };
+      if (wp.name) properties.name = wp.name;
+      if (wp.address) properties.address = wp.address;
+      if (wp.notes) properties.notes = wp.notes;
+      features.push({ type: 'Feature', geometry: { type: 'Point', coordinates: wp.coordinates }, properties });
+    });
+  }
+
+  const coordinates = lineCoordinates(route, track);
+  if (coordinates.length > 0) {
+    const properties: Record<string, unknown> = { name: route.name };
+    if (track) {
+      properties.coordTimes = track.map(point => new Date(point.timestamp).toISOString());
+    }
+    features.push({ type: 'Feature', geometry: { type: 'LineString', coordinates }, properties });
+  }
+
+  return JSON.stringify({ type: 'FeatureCollection', name: route.name, features }, null, 2);
+}
+
+/**
+ * Serialise a route in the given format
+ * Pass the driven track to export it instead of the planned route.
+ */
+export function exportRouteFile(route: Route, format: RouteFileFormat, track?: TrackPoint[]): string {
+  switch (format) {
+    case 'gpx':
+      return routeToGpx(route, track);
+    case 'kml':
+      return routeToKml(route, track);
+    case 'geojson':
+      return routeToGeoJson(route, track);
+  }
+}
+
+/**
+ * File name for an exported route, e.g. "christmas-eve-run-planned.gpx"
+ */
+export function getRouteFileName(route: Route, format: RouteFileFormat, kind: 'planned' | 'track'): string {
+  const slug = route.name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'route';
+  return `${slug}-${kind}.${FILE_EXTENSIONS[format]}`;
+}
+
+/**
+ * Download an exported route in the browser
+ */
+export function downloadRouteFile(route: Route, format: RouteFileFormat, track?: TrackPoint[]): void {
+  const blob = new Blob([exportRouteFile(route, format, track)], { type: MIME_TYPES[format] });
+  const url = URL.createObjectURL(blob);
+
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = getRouteFileName(route, format, track ? 'track' : 'planned');
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+
+  URL.revokeObjectURL(url);
+}
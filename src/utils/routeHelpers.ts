@@ -20,6 +20,8 @@ function getNextChristmasEveAt4pm(): { date: string; time: string } {
  */
 
 import type { Route, RouteStatus, Waypoint } from '../types';
+import { getDwellSeconds, splitStepsIntoLegs } from './navigation';
+import { validateVehicles } from './vehicles';
 
 /**
  * Generate a unique route ID
@@ -153,6 +155,10 @@ export function validateRoute(route: Partial<Route>): { valid: boolean; errors:
     errors.push('At least 2 waypoints are required');
   }
 
+  if (route.waypoints) {
+    errors.push(...validateVehicles({ vehicles: route.vehicles, waypoints: route.waypoints }));
+  }
+
   return {
     valid: errors.length === 0,
     errors,
@@ -178,34 +184,68 @@ export function createNewRoute(brigadeId: string, createdBy?: string): Route {
   };
 }
 
+/**
+ * A stop's plan without anything recorded while a route was run
+ */
+export function clearWaypointProgress(waypoint: Waypoint): Waypoint {
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  const { actualArrival, actualDeparture, estimatedArrival, completedByVehicleId, ...plan } = waypoint;
+  return { ...plan, isCompleted: false };
+}
+
+/**
+ * Deep copy a route as a new draft with fresh IDs
+ * Stops, vehicles and the planned path are kept; publishing, run progress and
+ * sharing details are cleared so the copy can be edited and published on its own.
+ */
+export function duplicateRoute(route: Route, createdBy?: string): Route {
+  const copy: Route = structuredClone(route);
+  return {
+    id: generateRouteId(),
+    brigadeId: copy.brigadeId,
+    name: `${copy.name} (copy)`,
+    description: copy.description,
+    date: copy.date,
+    startTime: copy.startTime,
+    endTime: copy.endTime,
+    status: 'draft',
+    waypoints: copy.waypoints.map(wp => ({ ...clearWaypointProgress(wp), id: generateWaypointId() })),
+    geometry: copy.geometry,
+    navigationSteps: copy.navigationSteps,
+    distance: copy.distance,
+    estimatedDuration: copy.estimatedDuration,
+    defaultDwellMinutes: copy.defaultDwellMinutes,
+    vehicles: copy.vehicles,
+    createdAt: new Date().toISOString(),
+    createdBy: createdBy ?? copy.createdBy,
+    viewCount: 0,
+  };
+}
+
 /**
  * Calculate estimated arrival times for waypoints based on route navigation data
+ * Each arrival adds the driving time of the leg to it and the dwell time at the
+ * stop before it.
  */
 export function calculateEstimatedArrivals(
   route: Route,
   startDateTime: Date
 ): Waypoint[] {
-  if (!route.navigationSteps || route.navigationSteps.length === 0) {
+  const steps = route.navigationSteps ?? [];
+  const sorted = sortWaypoints(route.waypoints);
+  const legs = splitStepsIntoLegs(steps);
+  if (steps.length === 0 || legs.length !== sorted.length - 1) {
     return route.waypoints;
   }
 
-  const currentTime = startDateTime.getTime();
-  const updatedWaypoints = [...route.waypoints];
-
-  // For each waypoint, calculate estimated arrival based on duration
-  updatedWaypoints.forEach((waypoint, index) => {
-    if (index === 0) {
-      waypoint.estimatedArrival = startDateTime.toISOString();
-    } else {
-      // Sum durations from previous waypoints
-      const durationToWaypoint = route.navigationSteps!
-        .slice(0, index)
-        .reduce((sum, step) => sum + step.duration, 0);
-      
-      const arrivalTime = new Date(currentTime + durationToWaypoint * 1000);
-      waypoint.estimatedArrival = arrivalTime.toISOString();
+  let arrivalTime = startDateTime.getTime();
+
+  return sorted.map((waypoint, index) => {
+    if (index > 0) {
+      const leg = legs[index - 1];
+      const driveSeconds = steps.slice(leg.start, leg.end).reduce((sum, step) => sum + step.duration, 0);
+      arrivalTime += (getDwellSeconds(sorted[index - 1], route.defaultDwellMinutes) + driveSeconds) * 1000;
     }
+    return { ...waypoint, estimatedArrival: new Date(arrivalTime).toISOString() };
   });
-
-  return updatedWaypoints;
 }
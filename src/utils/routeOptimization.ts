@@ -0,0 +1,289 @@
+/**
+ * Waypoint visit-order optimisation
+ *
+ * Solves the order to visit a route's waypoints as a travelling salesman
+ * problem over a travel matrix: nearest-neighbour construction followed by
+ * 2-opt improvement, minimising driving time. The matrix comes from a
+ * TravelMatrixProvider:
+ * - The configured routing provider's travel matrix (driving times) for routes
+ *   within its location limit
+ * - Straight-line estimates for larger routes or when routing is unavailable
+ *
+ * The start can be fixed (e.g. the brigade station), as can the last stop, and
+ * the route can return to the start after the last stop.
+ */
+
+import type { Waypoint } from '../types';
+import { calculateDistance } from './navigation';
+import { routingProvider } from '../routing';
+import { sortWaypoints } from './routeHelpers';
+
+// Straight-line distance is scaled up to approximate the road network
+const ROAD_DISTANCE_FACTOR = 1.3;
+
+// Average driving speed for straight-line estimates (40 km/h)
+const ESTIMATED_SPEED_MPS = 40 / 3.6;
+
+export interface TravelMatrix {
+  distances: number[][]; // meters
+  durations: number[][]; // seconds
+}
+
+export interface TravelMatrixProvider {
+  name: 'road' | 'estimate';
+  maxCoordinates: number;
+  getMatrix(coordinates: [number, number][]): Promise<TravelMatrix>;
+}
+
+export interface VisitOrderOptions {
+  start?: [number, number];     // Fixed start (brigade station); defaults to the first waypoint
+  fixedEndWaypointId?: string;  // Waypoint that must be visited last
+  returnToStart?: boolean;      // Drive back to the start after the last stop
+}
+
+export interface TravelCost {
+  distance: number; // meters
+  duration: number; // seconds
+}
+
+export interface WaypointOrderProposal {
+  waypointIds: string[];
+  current: TravelCost;
+  optimized: TravelCost;
+  source: TravelMatrixProvider['name'];
+}
+
+export interface SolveOptions {
+  start: number;
+  end: number | null;
+  roundTrip: boolean;
+}
+
+/**
+ * Straight-line travel estimates, used when no road network data is available
+ */
+export const straightLineMatrixProvider: TravelMatrixProvider = {
+  name: 'estimate',
+  maxCoordinates: Infinity,
+  async getMatrix(coordinates) {
+    const distances = coordinates.map(from =>
+      coordinates.map(to => calculateDistance(from, to) * ROAD_DISTANCE_FACTOR)
+    );
+    return {
+      distances,
+      durations: distances.map(row => row.map(distance => distance / ESTIMATED_SPEED_MPS)),
+    };
+  },
+};
+
+/**
+ * Driving distances and times from the configured routing provider
+ * Pairs it cannot route between fall back to straight-line estimates.
+ */
+export const routingMatrixProvider: TravelMatrixProvider = {
+  name: routingProvider.usesRoadNetwork ? 'road' : 'estimate',
+  maxCoordinates: routingProvider.maxMatrixCoordinates,
+  async getMatrix(coordinates) {
+    const [matrix, estimate] = await Promise.all([
+      routingProvider.getTravelMatrix(coordinates),
+      straightLineMatrixProvider.getMatrix(coordinates),
+    ]);
+    return {
+      distances: matrix.distances.map((row, i) => row.map((value, j) => value ?? estimate.distances[i][j])),
+      durations: matrix.durations.map((row, i) => row.map((value, j) => value ?? estimate.durations[i][j])),
+    };
+  },
+};
+
+/**
+ * Pick the provider for a number of locations
+ */
+export function selectMatrixProvider(coordinateCount: number): TravelMatrixProvider {
+  return coordinateCount <= routingMatrixProvider.maxCoordinates
+    ? routingMatrixProvider
+    : straightLineMatrixProvider;
+}
+
+function getPath(order: number[], { start, end, roundTrip }: SolveOptions): number[] {
+  const path = [start, ...order];
+  if (end !== null) {
+    path.push(end);
+  }
+  if (roundTrip) {
+    path.push(start);
+  }
+  return path;
+}
+
+function getPathCost(path: number[], costs: number[][]): number {
+  let total = 0;
+  for (let i = 1; i < path.length; i++) {
+    total += costs[path[i - 1]][path[i]];
+  }
+  return total;
+}
+
+function nearestNeighbourOrder(free: number[], costs: number[][], start: number): number[] {
+  const remaining = new Set(free);
+  const order: number[] = [];
+  let current = start;
+
+  while (remaining.size > 0) {
+    let next = -1;
+    remaining.forEach(candidate => {
+      if (next === -1 || costs[current][candidate] < costs[current][next]) {
+        next = candidate;
+      }
+    });
+    order.push(next);
+    remaining.delete(next);
+    current = next;
+  }
+
+  return order;
+}
+
+/**
+ * Improve an order by reversing segments while that reduces the cost
+ * Costs are recomputed for the whole path since matrices can be asymmetric.
+ */
+function twoOpt(order: number[], costs: number[][], options: SolveOptions): number[] {
+  let best = order;
+  let bestCost = getPathCost(getPath(best, options), costs);
+  let improved = true;
+
+  while (improved) {
+    improved = false;
+    for (let i = 0; i < best.length - 1; i++) {
+      for (let j = i + 1; j < best.length; j++) {
+        const candidate = [
+          ...best.slice(0, i),
+          ...best.slice(i, j + 1).reverse(),
+          ...best.slice(j + 1),
+        ];
+        const cost = getPathCost(getPath(candidate, options), costs);
+        if (cost < bestCost - 1e-9) {
+          best = candidate;
+          bestCost = cost;
+          improved = true;
+        }
+      }
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Solve the visiting order for the nodes of a cost matrix
+ * Returns the free nodes (everything except the start and end) in visiting
+ * order. The result is never worse than `initialOrder`.
+ */
+export function solveVisitOrder(
+  costs: number[][],
+  options: SolveOptions,
+  initialOrder?: number[]
+): number[] {
+  const free = initialOrder ?? costs
+    .map((_, index) => index)
+    .filter(index => index !== options.start && index !== options.end);
+
+  const candidates = [
+    twoOpt(nearestNeighbourOrder(free, costs, options.start), costs, options),
+    twoOpt(free, costs, options),
+  ];
+
+  return candidates.reduce((best, candidate) =>
+    getPathCost(getPath(candidate, options), costs) < getPathCost(getPath(best, options), costs)
+      ? candidate
+      : best
+  );
+}
+
+/**
+ * Propose a more efficient visiting order for a route's waypoints
+ */
+export async function optimizeWaypointOrder(
+  waypoints: Waypoint[],
+  options: VisitOrderOptions = {},
+  provider?: TravelMatrixProvider
+): Promise<WaypointOrderProposal> {
+  const sorted = sortWaypoints(waypoints);
+  if (sorted.length < 2) {
+    throw new Error('At least 2 waypoints required');
+  }
+
+  // Matrix nodes: the fixed start (if any) followed by the waypoints in their current order
+  const offset = options.start ? 1 : 0;
+  const coordinates = [
+    ...(options.start ? [options.start] : []),
+    ...sorted.map(wp => wp.coordinates),
+  ];
+
+  const endIndex = options.fixedEndWaypointId && !options.returnToStart
+    ? sorted.findIndex(wp => wp.id === options.fixedEndWaypointId)
+    : -1;
+
+  const solveOptions: SolveOptions = {
+    start: 0,
+    end: endIndex >= 0 && endIndex + offset !== 0 ? endIndex + offset : null,
+    roundTrip: Boolean(options.returnToStart),
+  };
+
+  let matrixProvider = provider ?? selectMatrixProvider(coordinates.length);
+  let matrix: TravelMatrix;
+  try {
+    matrix = await matrixProvider.getMatrix(coordinates);
+  } catch (error) {
+    if (provider || matrixProvider === straightLineMatrixProvider) {
+      throw error;
+    }
+    // Still worth suggesting an order without road network data
+    console.warn('[RouteOptimization] Travel matrix unavailable, using straight-line estimates:', error);
+    matrixProvider = straightLineMatrixProvider;
+    matrix = await matrixProvider.getMatrix(coordinates);
+  }
+
+  const currentOrder = coordinates
+    .map((_, index) => index)
+    .filter(index => index !== solveOptions.start && index !== solveOptions.end);
+  const optimizedOrder = solveVisitOrder(matrix.durations, solveOptions, currentOrder);
+
+  const measure = (order: number[]): TravelCost => {
+    const path = getPath(order, solveOptions);
+    return {
+      distance: getPathCost(path, matrix.distances),
+      duration: getPathCost(path, matrix.durations),
+    };
+  };
+
+  // Map matrix nodes back to waypoints, dropping the fixed start if it is not a waypoint
+  const waypointPath = getPath(optimizedOrder, { ...solveOptions, roundTrip: false })
+    .filter(index => index >= offset)
+    .map(index => sorted[index - offset].id);
+
+  return {
+    waypointIds: waypointPath,
+    current: measure(currentOrder),
+    optimized: measure(optimizedOrder),
+    source: matrixProvider.name,
+  };
+}
+
+/**
+ * Apply a proposed order to the waypoints
+ * Returns null if the waypoints have changed since the proposal was made.
+ */
+export function applyWaypointOrder(waypoints: Waypoint[], waypointIds: string[]): Waypoint[] | null {
+  if (waypoints.length !== waypointIds.length) {
+    return null;
+  }
+
+  const byId = new Map(waypoints.map(wp => [wp.id, wp]));
+  const ordered = waypointIds.map(id => byId.get(id));
+  if (ordered.some(wp => !wp)) {
+    return null;
+  }
+
+  return (ordered as Waypoint[]).map((wp, index) => ({ ...wp, order: index }));
+}
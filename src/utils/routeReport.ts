@@ -0,0 +1,319 @@
+/**
+ * Post-run summary report for completed routes
+ *
+ * A standalone, printable HTML page for brigades' annual reports and insurance
+ * logs. It is built from what the run recorded when it completed, so the same
+ * route always produces the same report:
+ * - Map snapshot of the planned and driven paths (Mapbox Static Images API)
+ * - Planned and driven distance, estimated vs actual duration
+ * - Scheduled vs actual arrival at every stop
+ * - Tracking page viewer stats
+ *
+ * It downloads as an .html file, or opens in a new window and prints, where
+ * the browser's "Save as PDF" gives the PDF.
+ */
+
+import { format } from 'date-fns';
+import type { GeoJSON, Route, RouteViewerAnalytics, TrackPoint } from '../types';
+import { MAPBOX_TOKEN } from '../config/mapbox';
+import { formatDistance, formatDuration } from './mapbox';
+import { calculateDistance } from './navigation';
+import { splitTrackByVehicle } from './locationHistory';
+import { sortWaypoints } from './routeHelpers';
+import { buildScheduleResults, formatScheduleDeviation, isBehindSchedule } from './schedule';
+
+const STATIC_MAP_URL = 'https://api.mapbox.com/styles/v1/mapbox/streets-v12/static';
+// The Static Images API rejects URLs longer than 8192 characters
+const MAX_STATIC_MAP_URL_LENGTH = 8000;
+const MAP_WIDTH = 800;
+const MAP_HEIGHT = 450;
+
+const PLANNED_COLOR = '1E88E5';
+const DRIVEN_COLOR = '43A047'; // Christmas green, as on the tracking trail
+
+export interface RouteReportData {
+  route: Route;
+  /** Driven track recorded during the run (empty if none) */
+  track: TrackPoint[];
+  /** Viewer stats (null if they couldn't be loaded) */
+  analytics: RouteViewerAnalytics | null;
+  brigadeName?: string;
+  generatedAt: Date;
+}
+
+/**
+ * Encode coordinates as a Google polyline (precision 5), as the Static Images API expects
+ */
+export function encodePolyline(coordinates: [number, number][]): string {
+  let previousLat = 0;
+  let previousLng = 0;
+  let encoded = '';
+
+  const encodeValue = (value: number) => {
+    let shifted = value < 0 ? ~(value << 1) : value << 1;
+    while (shifted >= 0x20) {
+      encoded += String.fromCharCode((0x20 | (shifted & 0x1f)) + 63);
+      shifted >>= 5;
+    }
+    encoded += String.fromCharCode(shifted + 63);
+  };
+
+  coordinates.forEach(([lng, lat]) => {
+    const roundedLat = Math.round(lat * 1e5);
+    const roundedLng = Math.round(lng * 1e5);
+    encodeValue(roundedLat - previousLat);
+    encodeValue(roundedLng - previousLng);
+    previousLat = roundedLat;
+    previousLng = roundedLng;
+  });
+
+  return encoded;
+}
+
+/**
+ * Keep at most maxPoints of a line, evenly spaced, always keeping both ends
+ */
+export function downsampleLine(coordinates: [number, number][], maxPoints: number): [number, number][] {
+  if (coordinates.length <= maxPoints || maxPoints < 2) {
+    return coordinates;
+  }
+  const step = (coordinates.length - 1) / (maxPoints - 1);
+  return Array.from({ length: maxPoints }, (_, index) => coordinates[Math.round(index * step)]);
+}
+
+/**
+ * Total length of a line in meters
+ */
+export function measureLine(coordinates: [number, number][]): number {
+  let total = 0;
+  for (let index = 1; index < coordinates.length; index++) {
+    total += calculateDistance(coordinates[index - 1], coordinates[index]);
+  }
+  return total;
+}
+
+/**
+ * Distance actually driven, summed per vehicle so jumps between trucks don't count
+ */
+export function measureDrivenDistance(track: TrackPoint[]): number {
+  let total = 0;
+  splitTrackByVehicle(track).forEach(points => {
+    total += measureLine(points.map(point => point.location));
+  });
+  return total;
+}
+
+function plannedLines(route: Route): GeoJSON.LineString[] {
+  const vehicleLines = (route.vehicles ?? [])
+    .map(vehicle => vehicle.geometry)
+    .filter((geometry): geometry is GeoJSON.LineString => Boolean(geometry));
+  if (vehicleLines.length > 0) {
+    return vehicleLines;
+  }
+  return route.geometry ? [route.geometry] : [];
+}
+
+/**
+ * Static map of the planned (blue) and driven (green) paths, or null with nothing to draw
+ * Lines are thinned until the URL fits the API's length limit.
+ */
+export function buildReportMapUrl(route: Route, track: TrackPoint[], token: string = MAPBOX_TOKEN): string | null {
+  const planned = plannedLines(route).map(line => line.coordinates).filter(line => line.length >= 2);
+  const driven = Array.from(splitTrackByVehicle(track).values())
+    .map(points => points.map(point => point.location))
+    .filter(line => line.length >= 2);
+  if (planned.length === 0 && driven.length === 0) {
+    return null;
+  }
+
+  const buildUrl = (maxPointsPerLine: number) => {
+    const overlays = [
+      ...planned.map(line => `path-4+${PLANNED_COLOR}-0.6(${encodeURIComponent(encodePolyline(downsampleLine(line, maxPointsPerLine)))})`),
+      ...driven.map(line => `path-3+${DRIVEN_COLOR}-0.9(${encodeURIComponent(encodePolyline(downsampleLine(line, maxPointsPerLine)))})`),
+    ].join(',');
+    return `${STATIC_MAP_URL}/${overlays}/auto/${MAP_WIDTH}x${MAP_HEIGHT}@2x?padding=40&access_token=${encodeURIComponent(token)}`;
+  };
+
+  let maxPointsPerLine = 500;
+  let url = buildUrl(maxPointsPerLine);
+  while (url.length > MAX_STATIC_MAP_URL_LENGTH && maxPointsPerLine > 2) {
+    maxPointsPerLine = Math.max(2, Math.floor(maxPointsPerLine * 0.7));
+    url = buildUrl(maxPointsPerLine);
+  }
+  return url.length <= MAX_STATIC_MAP_URL_LENGTH ? url : null;
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+function formatTimestamp(value: string | number | undefined, pattern = 'h:mm a'): string {
+  return value === undefined || value === '' ? '—' : format(new Date(value), pattern);
+}
+
+function summaryRow(label: string, value: string): string {
+  return `<tr><th scope="row">${escapeHtml(label)}</th><td>${escapeHtml(value)}</td></tr>`;
+}
+
+/**
+ * Render the report as a complete HTML document
+ */
+export function buildRouteReportHtml({ route, track, analytics, brigadeName, generatedAt }: RouteReportData): string {
+  const waypoints = sortWaypoints(route.waypoints);
+  const scheduleResults = route.scheduleResults ?? buildScheduleResults(route);
+  const resultsByWaypoint = new Map(scheduleResults.map(result => [result.waypointId, result]));
+  const completedStops = waypoints.filter(waypoint => waypoint.isCompleted).length;
+  const drivenDistance = measureDrivenDistance(track);
+  const mapUrl = buildReportMapUrl(route, track);
+
+  const durationDifference = route.actualDuration && route.estimatedDuration
+    ? route.actualDuration - route.estimatedDuration
+    : null;
+
+  const summaryRows = [
+    summaryRow('Date', format(new Date(`${route.date}T00:00:00`), 'EEEE d MMMM yyyy')),
+    summaryRow('Started', formatTimestamp(route.startedAt)),
+    summaryRow('Completed', formatTimestamp(route.completedAt)),
+    summaryRow('Stops visited', `${completedStops} of ${waypoints.length}`),
+    summaryRow('Planned distance', route.distance ? formatDistance(route.distance) : '—'),
+    summaryRow('Driven distance', track.length >= 2 ? formatDistance(drivenDistance) : 'No track recorded'),
+    summaryRow('Estimated duration', route.estimatedDuration ? formatDuration(route.estimatedDuration) : '—'),
+    summaryRow('Actual duration', route.actualDuration ? formatDuration(route.actualDuration) : '—'),
+  ];
+  if (durationDifference !== null) {
+    summaryRows.push(summaryRow(
+      'Difference',
+      durationDifference === 0 ? 'As estimated' : `${formatDuration(Math.abs(durationDifference))} ${durationDifference > 0 ? 'longer' : 'shorter'}`
+    ));
+  }
+  if (route.vehicles && route.vehicles.length > 0) {
+    summaryRows.push(summaryRow('Vehicles', route.vehicles.map(vehicle => vehicle.callsign).join(', ')));
+  }
+
+  const stopRows = waypoints.map((waypoint, index) => {
+    const result = resultsByWaypoint.get(waypoint.id);
+    const deviation = result?.deviation;
+    const vehicle = route.vehicles?.find(v => v.id === waypoint.completedByVehicleId);
+    const status = !waypoint.isCompleted
+      ? 'Not visited'
+      : deviation === undefined
+        ? 'Visited'
+        : formatScheduleDeviation(deviation);
+    return `<tr${isBehindSchedule(deviation) ? ' class="late"' : ''}>
+        <td>${index + 1}</td>
+        <td>${escapeHtml(waypoint.name || waypoint.address || `Stop ${index + 1}`)}${waypoint.name && waypoint.address ? `<div class="muted">${escapeHtml(waypoint.address)}</div>` : ''}</td>
+        <td>${formatTimestamp(result?.scheduledArrival)}</td>
+        <td>${formatTimestamp(waypoint.actualArrival)}</td>
+        <td>${escapeHtml(status)}${vehicle ? `<div class="muted">${escapeHtml(vehicle.callsign)}</div>` : ''}</td>
+      </tr>`;
+  }).join('\n');
+
+  const viewerSection = analytics
+    ? `<table class="summary">
+        ${summaryRow('Tracking page opens', analytics.opens.toLocaleString())}
+        ${summaryRow('Unique viewers', analytics.uniqueViewers.toLocaleString())}
+        ${summaryRow('Peak watching live', `${analytics.peakConcurrent.toLocaleString()}${analytics.peakAt ? ` at ${formatTimestamp(analytics.peakAt)}` : ''}`)}
+        ${summaryRow('Average visit', formatDuration(analytics.averageSessionSeconds))}
+        ${analytics.embedOpens > 0 ? summaryRow('Opens from embedded widgets', analytics.embedOpens.toLocaleString()) : ''}
+      </table>
+      <p class="muted">Anonymous counts only: no names, IP addresses or exact locations are recorded.</p>`
+    : `<p class="muted">${route.viewCount ? `${route.viewCount.toLocaleString()} live viewer connections.` : 'Viewer stats are not available.'}</p>`;
+
+  const title = `${route.name} – Santa Run Report`;
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(title)}</title>
+<style>
+  body { font-family: system-ui, -apple-system, 'Segoe UI', sans-serif; color: #212121; margin: 2rem auto; max-width: 800px; padding: 0 1rem; }
+  h1 { margin: 0; font-size: 1.75rem; color: #D32F2F; }
+  h2 { margin: 2rem 0 0.75rem; font-size: 1.125rem; border-bottom: 2px solid #EEEEEE; padding-bottom: 0.25rem; }
+  table { width: 100%; border-collapse: collapse; font-size: 0.875rem; }
+  th, td { text-align: left; padding: 0.375rem 0.5rem; border-bottom: 1px solid #EEEEEE; vertical-align: top; }
+  table.summary th { width: 40%; font-weight: 600; }
+  tr.late td { color: #D32F2F; }
+  img { width: 100%; border-radius: 8px; border: 1px solid #E0E0E0; }
+  .muted { color: #616161; font-size: 0.75rem; }
+  .legend span { margin-right: 1rem; }
+  @media print { body { margin: 0; } h2 { break-after: avoid; } tr { break-inside: avoid; } }
+</style>
+</head>
+<body>
+<header>
+  <h1>${escapeHtml(route.name)}</h1>
+  <p class="muted">${brigadeName ? `${escapeHtml(brigadeName)} · ` : ''}Santa Run summary · Generated ${format(generatedAt, 'd MMM yyyy, h:mm a')}</p>
+  ${route.description ? `<p>${escapeHtml(route.description)}</p>` : ''}
+</header>
+
+<h2>Route</h2>
+${mapUrl
+    ? `<img src="${escapeHtml(mapUrl)}" alt="Map of the planned and driven route">
+<p class="muted legend"><span style="color:#${PLANNED_COLOR}">━ Planned route</span><span style="color:#${DRIVEN_COLOR}">━ Driven path</span></p>`
+    : '<p class="muted">No route geometry or driven track to map.</p>'}
+
+<h2>Summary</h2>
+<table class="summary">
+${summaryRows.join('\n')}
+</table>
+
+<h2>Stops</h2>
+${waypoints.length > 0
+    ? `<table>
+  <thead><tr><th>#</th><th>Stop</th><th>Scheduled</th><th>Arrived</th><th>Result</th></tr></thead>
+  <tbody>
+${stopRows}
+  </tbody>
+</table>`
+    : '<p class="muted">This route has no stops.</p>'}
+
+<h2>Community engagement</h2>
+${viewerSection}
+</body>
+</html>
+`;
+}
+
+/**
+ * File name for a route report, e.g. "christmas-eve-run-report-2026-12-24.html"
+ */
+export function getRouteReportFileName(route: Route): string {
+  const slug = route.name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'route';
+  return `${slug}-report-${route.date}.html`;
+}
+
+/**
+ * Download a report as an HTML file
+ */
+export function downloadRouteReport(route: Route, html: string): void {
+  const blob = new Blob([html], { type: 'text/html' });
+  const url = URL.createObjectURL(blob);
+
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = getRouteReportFileName(route);
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Show a report in a window and print it (the browser offers "Save as PDF")
+ * Open the window in the click handler, before loading the report's data,
+ * or popup blockers will stop it.
+ */
+export function printRouteReport(reportWindow: Window, html: string): void {
+  reportWindow.document.open();
+  reportWindow.document.write(html);
+  reportWindow.document.close();
+  // Wait for the map snapshot before printing
+  reportWindow.addEventListener('load', () => reportWindow.print(), { once: true });
+}
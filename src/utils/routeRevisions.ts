@@ -0,0 +1,118 @@
+/**
+ * Route version history
+ *
+ * Every save that changes a route's plan keeps a snapshot of it, with who
+ * saved it and a short summary of what changed, so a mistake (say a bulk
+ * delete of stops) can be undone by restoring an earlier revision. Saves that
+ * only record progress (a navigator marking stops complete) aren't revisions.
+ * Keep in sync with api/src/utils/routeRevisions.ts.
+ */
+
+import type { Route, RouteRevision, RouteSnapshot } from '../types';
+import { PLAN_FIELDS, diffWaypoints, type WaypointChangeType } from './routeDiff';
+import { sortWaypoints } from './routeHelpers';
+
+// Statuses whose plan can still be restored (the same ones the editor edits)
+const RESTORABLE_STATUSES: Route['status'][] = ['draft', 'published'];
+
+// Order stop changes are listed in a summary
+const CHANGE_TYPES: WaypointChangeType[] = ['added', 'removed', 'moved', 'renamed', 'reordered', 'edited'];
+
+/**
+ * The planned parts of a route
+ */
+export function takeRouteSnapshot(route: RouteSnapshot): RouteSnapshot {
+  return {
+    name: route.name,
+    description: route.description,
+    date: route.date,
+    startTime: route.startTime,
+    endTime: route.endTime,
+    waypoints: route.waypoints,
+    vehicles: route.vehicles,
+    geometry: route.geometry,
+    navigationSteps: route.navigationSteps,
+    distance: route.distance,
+    estimatedDuration: route.estimatedDuration,
+    defaultDwellMinutes: route.defaultDwellMinutes,
+  };
+}
+
+/**
+ * A short description of what changed between two versions of a route's plan,
+ * e.g. "2 stops added, 1 stop renamed; date changed" (empty if nothing did)
+ */
+export function summarizeRouteChanges(before: RouteSnapshot | null, after: RouteSnapshot): string {
+  if (!before) {
+    return `Created with ${after.waypoints.length} ${after.waypoints.length === 1 ? 'stop' : 'stops'}`;
+  }
+
+  const counts = new Map<WaypointChangeType, number>();
+  for (const change of diffWaypoints(before.waypoints, after.waypoints)) {
+    counts.set(change.type, (counts.get(change.type) ?? 0) + 1);
+  }
+  const stopChanges = CHANGE_TYPES
+    .filter(type => counts.has(type))
+    .map(type => {
+      const count = counts.get(type)!;
+      return `${count} ${count === 1 ? 'stop' : 'stops'} ${type}`;
+    });
+
+  const fieldChanges = PLAN_FIELDS.filter(field =>
+    JSON.stringify(before[field] ?? null) !== JSON.stringify(after[field] ?? null)
+  );
+
+  return [
+    stopChanges.join(', '),
+    fieldChanges.length > 0 ? `${fieldChanges.join(', ')} changed` : '',
+  ].filter(Boolean).join('; ');
+}
+
+/**
+ * The revision to record for a save, or null if the plan didn't change
+ */
+export function createRouteRevision(
+  before: Route | null,
+  after: Route,
+  savedAt: Date,
+  author: { id?: string; name?: string } = {},
+  restoredFrom?: string
+): RouteRevision | null {
+  const summary = summarizeRouteChanges(before && takeRouteSnapshot(before), after);
+  if (!summary && !restoredFrom) {
+    return null;
+  }
+
+  return {
+    id: crypto.randomUUID(),
+    routeId: after.id,
+    brigadeId: after.brigadeId,
+    savedAt: savedAt.toISOString(),
+    authorId: author.id,
+    authorName: author.name,
+    summary: summary || 'No changes',
+    stopCount: after.waypoints.length,
+    restoredFrom,
+    snapshot: takeRouteSnapshot(after),
+  };
+}
+
+/**
+ * Whether an earlier revision can be restored onto the route
+ * Once a run has started its plan is fixed.
+ */
+export function canRestoreRevision(route: Pick<Route, 'status'>): boolean {
+  return RESTORABLE_STATUSES.includes(route.status);
+}
+
+/**
+ * The route with an earlier revision's plan put back
+ * Status, lifecycle timestamps and sharing stay as they are.
+ */
+export function applyRouteSnapshot(route: Route, snapshot: RouteSnapshot): Route {
+  return {
+    ...route,
+    ...takeRouteSnapshot(snapshot),
+    waypoints: sortWaypoints(snapshot.waypoints).map((wp, index) => ({ ...wp, order: index })),
+  };
+}
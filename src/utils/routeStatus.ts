@@ -0,0 +1,114 @@
+/**
+ * Route status transitions
+ *
+ * draft → published → active → completed → archived, plus published → draft
+ * to pull a route before the run. The API enforces these transitions and stamps
+ * their timestamps; dev mode storage applies the same rules locally.
+ * Keep in sync with api/src/utils/routeStatus.ts.
+ */
+
+import type { Route, RouteStatus } from '../types';
+
+export type RouteTransition = 'publish' | 'start' | 'complete' | 'archive' | 'revert-to-draft';
+
+export type RouteTransitionErrorCode =
+  | 'UNKNOWN_TRANSITION'
+  | 'INVALID_TRANSITION'
+  | 'ROUTE_INCOMPLETE';
+
+export const ROUTE_TRANSITIONS: Record<RouteTransition, { from: RouteStatus[]; to: RouteStatus }> = {
+  publish: { from: ['draft'], to: 'published' },
+  start: { from: ['published'], to: 'active' },
+  complete: { from: ['active'], to: 'completed' },
+  archive: { from: ['completed'], to: 'archived' },
+  'revert-to-draft': { from: ['published'], to: 'draft' },
+};
+
+/**
+ * A rejected status change, with the API's error code
+ */
+export class RouteTransitionError extends Error {
+  readonly code: RouteTransitionErrorCode;
+
+  constructor(code: RouteTransitionErrorCode, message: string) {
+    super(message);
+    this.name = 'RouteTransitionError';
+    this.code = code;
+  }
+}
+
+/**
+ * Transitions that can be tried from a status, in lifecycle order
+ */
+export function getAvailableTransitions(status: RouteStatus): RouteTransition[] {
+  return (Object.keys(ROUTE_TRANSITIONS) as RouteTransition[])
+    .filter(transition => ROUTE_TRANSITIONS[transition].from.includes(status));
+}
+
+/**
+ * Why a transition can't run on this route, or null if it can
+ */
+export function getTransitionError(route: Route, transition: RouteTransition): RouteTransitionError | null {
+  const rule = ROUTE_TRANSITIONS[transition];
+  if (!rule) {
+    return new RouteTransitionError(
+      'UNKNOWN_TRANSITION',
+      `Unknown transition "${transition}". Expected one of: ${Object.keys(ROUTE_TRANSITIONS).join(', ')}`
+    );
+  }
+
+  if (!rule.from.includes(route.status)) {
+    return new RouteTransitionError(
+      'INVALID_TRANSITION',
+      `Cannot ${transition} a route that is ${route.status} (allowed from: ${rule.from.join(', ')})`
+    );
+  }
+
+  if (transition === 'publish') {
+    const missing = [
+      !route.name.trim() ? 'a name' : null,
+      !route.date ? 'a date' : null,
+      route.waypoints.length < 2 ? 'at least 2 waypoints' : null,
+    ].filter(Boolean);
+    if (missing.length > 0) {
+      return new RouteTransitionError('ROUTE_INCOMPLETE', `Route needs ${missing.join(', ')} before it can be published`);
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Run a transition, stamping its timestamp (throws RouteTransitionError if it isn't allowed)
+ */
+export function applyRouteTransition(route: Route, transition: RouteTransition, now: Date): Route {
+  const error = getTransitionError(route, transition);
+  if (error) {
+    throw error;
+  }
+
+  const at = now.toISOString();
+  const updated: Route = { ...route, status: ROUTE_TRANSITIONS[transition].to };
+
+  switch (transition) {
+    case 'publish':
+      updated.publishedAt = at;
+      break;
+    case 'start':
+      updated.startedAt = at;
+      break;
+    case 'complete':
+      updated.completedAt = at;
+      if (route.startedAt) {
+        updated.actualDuration = Math.max(0, Math.floor((now.getTime() - new Date(route.startedAt).getTime()) / 1000));
+      }
+      break;
+    case 'revert-to-draft':
+      updated.publishedAt = undefined;
+      break;
+    case 'archive':
+      break;
+  }
+
+  return updated;
+}
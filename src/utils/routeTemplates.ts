@@ -0,0 +1,104 @@
+/**
+ * Brigade route templates
+ *
+ * Most brigades drive essentially the same run every December. A template keeps
+ * a route's stops, vehicles and planned path so next year's route can be created
+ * from it for a new date, optionally moving every scheduled time along with the
+ * new start time.
+ */
+
+import type { Route, RouteTemplate } from '../types';
+import { clearWaypointProgress, generateRouteId, generateWaypointId } from './routeHelpers';
+
+const MINUTES_PER_DAY = 24 * 60;
+
+export interface TemplateInstanceOptions {
+  date: string;                   // "YYYY-MM-DD"
+  startTime: string;              // "HH:MM"
+  shiftScheduledTimes: boolean;   // Move scheduled arrivals and end time with the start time
+}
+
+/**
+ * Generate a unique template ID
+ */
+export function generateTemplateId(): string {
+  return `template_${Date.now()}_${Math.random().toString(36).slice(2, 11)}`;
+}
+
+function toMinutes(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+}
+
+/**
+ * Move an "HH:MM" time by a number of minutes, wrapping around midnight
+ */
+export function shiftTime(time: string, minutes: number): string {
+  const shifted = ((toMinutes(time) + minutes) % MINUTES_PER_DAY + MINUTES_PER_DAY) % MINUTES_PER_DAY;
+  const hh = String(Math.floor(shifted / 60)).padStart(2, '0');
+  const mm = String(shifted % 60).padStart(2, '0');
+  return `${hh}:${mm}`;
+}
+
+/**
+ * Save a route's plan as a brigade template
+ */
+export function createTemplateFromRoute(route: Route, name: string, createdBy?: string): RouteTemplate {
+  const copy: Route = structuredClone(route);
+  return {
+    id: generateTemplateId(),
+    brigadeId: copy.brigadeId,
+    name,
+    description: copy.description,
+    startTime: copy.startTime,
+    endTime: copy.endTime,
+    waypoints: copy.waypoints.map(clearWaypointProgress),
+    vehicles: copy.vehicles,
+    geometry: copy.geometry,
+    navigationSteps: copy.navigationSteps,
+    distance: copy.distance,
+    estimatedDuration: copy.estimatedDuration,
+    defaultDwellMinutes: copy.defaultDwellMinutes,
+    sourceRouteId: copy.id,
+    createdAt: new Date().toISOString(),
+    createdBy,
+  };
+}
+
+/**
+ * Create a new draft route from a template
+ */
+export function createRouteFromTemplate(
+  template: RouteTemplate,
+  options: TemplateInstanceOptions,
+  createdBy?: string
+): Route {
+  const copy: RouteTemplate = structuredClone(template);
+  const offset = options.shiftScheduledTimes ? toMinutes(options.startTime) - toMinutes(copy.startTime) : 0;
+  const shift = (time: string | undefined) => (time && offset !== 0 ? shiftTime(time, offset) : time);
+
+  return {
+    id: generateRouteId(),
+    brigadeId: copy.brigadeId,
+    name: copy.name,
+    description: copy.description,
+    date: options.date,
+    startTime: options.startTime,
+    endTime: shift(copy.endTime),
+    status: 'draft',
+    waypoints: copy.waypoints.map(wp => ({
+      ...clearWaypointProgress(wp),
+      id: generateWaypointId(),
+      scheduledArrival: shift(wp.scheduledArrival),
+    })),
+    geometry: copy.geometry,
+    navigationSteps: copy.navigationSteps,
+    distance: copy.distance,
+    estimatedDuration: copy.estimatedDuration,
+    defaultDwellMinutes: copy.defaultDwellMinutes,
+    vehicles: copy.vehicles,
+    createdAt: new Date().toISOString(),
+    createdBy,
+    viewCount: 0,
+  };
+}
@@ -0,0 +1,33 @@
+/**
+ * Optimistic concurrency for route edits
+ *
+ * Routes carry the version they were loaded at, and saving an edit to a draft
+ * or published route that someone else has saved since fails with a
+ * RouteConflictError holding their version. Status changes and navigator saves
+ * mid-run aren't checked. Keep in sync with api/src/utils/routeVersion.ts.
+ */
+
+import type { Route, RouteStatus } from '../types';
+
+const PLANNING_STATUSES: RouteStatus[] = ['draft', 'published'];
+
+/**
+ * A save rejected because the route changed since it was loaded
+ */
+export class RouteConflictError extends Error {
+  /** The route as it is now saved */
+  readonly current: Route;
+
+  constructor(current: Route, message = 'Someone else saved this route since you opened it') {
+    super(message);
+    this.name = 'RouteConflictError';
+    this.current = current;
+  }
+}
+
+/**
+ * Whether a save is a plan edit that must match the stored version
+ */
+export function isVersionCheckedEdit(storedStatus: RouteStatus, requestedStatus: RouteStatus): boolean {
+  return PLANNING_STATUSES.includes(storedStatus) && requestedStatus === storedStatus;
+}
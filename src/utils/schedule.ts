@@ -0,0 +1,123 @@
+/**
+ * Schedule-vs-actual tracking
+ *
+ * Planners can give each stop a target arrival time (local "HH:MM" on the
+ * route date) and a dwell time. During a run the truck's deviation from that
+ * plan is worked out from the ETA to the next stop, or from the last stop
+ * reached when the next one has no target. When the route completes, planned
+ * and actual arrivals are recorded on the route.
+ */
+
+import type { Route, Waypoint, WaypointScheduleResult } from '../types';
+import { sortWaypoints } from './routeHelpers';
+
+// Deviations within this many seconds count as on schedule
+export const ON_SCHEDULE_TOLERANCE_SECONDS = 120;
+
+/**
+ * Resolve a stop's target arrival time to a date
+ * Times earlier than the route's start time are taken to be after midnight.
+ */
+export function getScheduledArrival(
+  route: Pick<Route, 'date' | 'startTime'>,
+  waypoint: Pick<Waypoint, 'scheduledArrival'>
+): Date | null {
+  if (!waypoint.scheduledArrival || !route.date) {
+    return null;
+  }
+
+  const scheduled = new Date(`${route.date}T${waypoint.scheduledArrival}`);
+  if (isNaN(scheduled.getTime())) {
+    return null;
+  }
+
+  if (route.startTime && waypoint.scheduledArrival < route.startTime) {
+    scheduled.setDate(scheduled.getDate() + 1);
+  }
+
+  return scheduled;
+}
+
+/**
+ * How far behind (positive) or ahead (negative) of schedule the truck is, in seconds
+ * Returns null when no stop involved has a target time.
+ */
+export function calculateScheduleDeviation(
+  route: Pick<Route, 'date' | 'startTime' | 'waypoints'>,
+  nextWaypointEta: Date | null,
+  now: number = Date.now()
+): number | null {
+  const sorted = sortWaypoints(route.waypoints);
+
+  const next = sorted.find(wp => !wp.isCompleted);
+  const nextScheduled = next ? getScheduledArrival(route, next) : null;
+  if (nextScheduled && nextWaypointEta) {
+    return Math.round((nextWaypointEta.getTime() - nextScheduled.getTime()) / 1000);
+  }
+
+  // Fall back to the most recent stop reached that had a target time
+  for (let i = sorted.length - 1; i >= 0; i--) {
+    const waypoint = sorted[i];
+    const scheduled = getScheduledArrival(route, waypoint);
+    if (!waypoint.isCompleted || !waypoint.actualArrival || !scheduled) {
+      continue;
+    }
+
+    const arrivalDeviation = (new Date(waypoint.actualArrival).getTime() - scheduled.getTime()) / 1000;
+    // Still at (or just left) the stop after its planned departure means running later still
+    const scheduledDeparture = scheduled.getTime() + (waypoint.dwellMinutes ?? 0) * 60_000;
+    const departureDeviation = (now - scheduledDeparture) / 1000;
+    return Math.round(Math.max(arrivalDeviation, departureDeviation));
+  }
+
+  return null;
+}
+
+/**
+ * Format a deviation for display, e.g. "Running 7 min late"
+ */
+export function formatScheduleDeviation(deviationSeconds: number): string {
+  if (Math.abs(deviationSeconds) < ON_SCHEDULE_TOLERANCE_SECONDS) {
+    return 'On schedule';
+  }
+
+  const totalMinutes = Math.round(Math.abs(deviationSeconds) / 60);
+  const hours = Math.floor(totalMinutes / 60);
+  const minutes = totalMinutes % 60;
+  const amount = hours > 0
+    ? `${hours} h${minutes > 0 ? ` ${minutes} min` : ''}`
+    : `${minutes} min`;
+
+  return `Running ${amount} ${deviationSeconds > 0 ? 'late' : 'early'}`;
+}
+
+/**
+ * Whether a deviation is late enough to flag
+ */
+export function isBehindSchedule(deviationSeconds: number | null | undefined): boolean {
+  return typeof deviationSeconds === 'number' && deviationSeconds >= ON_SCHEDULE_TOLERANCE_SECONDS;
+}
+
+/**
+ * Planned vs actual arrival for every stop with a target time
+ */
+export function buildScheduleResults(route: Pick<Route, 'date' | 'startTime' | 'waypoints'>): WaypointScheduleResult[] {
+  return sortWaypoints(route.waypoints).flatMap(waypoint => {
+    const scheduled = getScheduledArrival(route, waypoint);
+    if (!scheduled) {
+      return [];
+    }
+
+    const result: WaypointScheduleResult = {
+      waypointId: waypoint.id,
+      scheduledArrival: scheduled.toISOString(),
+    };
+    if (waypoint.actualArrival) {
+      result.actualArrival = waypoint.actualArrival;
+      result.deviation = Math.round(
+        (new Date(waypoint.actualArrival).getTime() - scheduled.getTime()) / 1000
+      );
+    }
+    return [result];
+  });
+}
@@ -0,0 +1,24 @@
+/**
+ * Service worker registration
+ * The worker (public/sw.js) precaches the app shell and serves offline map
+ * tiles. It is only registered in production builds, since it would otherwise
+ * cache Vite's dev server modules.
+ */
+
+import { purgeExpiredOfflineTiles } from './offlineTiles';
+
+export function registerServiceWorker(): void {
+  if (!import.meta.env.PROD || !('serviceWorker' in navigator)) {
+    return;
+  }
+
+  window.addEventListener('load', () => {
+    navigator.serviceWorker.register('/sw.js').catch(error => {
+      console.warn('[ServiceWorker] Registration failed:', error);
+    });
+
+    purgeExpiredOfflineTiles().catch(error => {
+      console.warn('[ServiceWorker] Failed to purge expired offline maps:', error);
+    });
+  });
+}
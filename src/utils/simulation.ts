@@ -0,0 +1,388 @@
+/**
+ * Route simulation and replay for testing and demos
+ *
+ * Simulation drives a virtual vehicle along a route's geometry at a set speed,
+ * stopping at each waypoint for its dwell time. Replay plays back the track
+ * recorded on a completed run. Both are timelines of positions over elapsed
+ * seconds, played by a SimulationPlayer that can pause, seek and change speed.
+ *
+ * A simulation feeds the navigator through a stand-in for navigator.geolocation
+ * (see setSimulatedGeolocation), so useGeolocation, useNavigation and the real
+ * location broadcasts run unchanged. Simulation is dev-mode only, where
+ * broadcasts go over the BroadcastChannel to tracking tabs in the same browser.
+ */
+
+import type { Route, TrackPoint } from '../types';
+import { calculateBearing, calculateDistance, getDwellSeconds } from './navigation';
+import { sortWaypoints } from './routeHelpers';
+
+export const DEFAULT_SIMULATION_SPEED_KMH = 30;
+export const SIMULATION_RATES = [1, 2, 5, 10, 30, 60];
+
+// How often a playing simulation reports a position (wall clock)
+const TICK_MS = 1000;
+
+/**
+ * Where the virtual vehicle is at a moment of the timeline
+ */
+export interface SimulatedPosition {
+  coordinates: [number, number]; // [lng, lat]
+  heading: number | null;
+  speed: number;                 // m/s (0 while dwelling)
+  /** Waypoint the vehicle is dwelling at */
+  waypointId?: string;
+  /** Recorded progress, when replaying a track */
+  currentWaypointIndex?: number;
+}
+
+export interface SimulationTimeline {
+  /** Length in seconds */
+  duration: number;
+  /** Moments the player must report, so fast playback can't skip past a stop */
+  stops: number[];
+  positionAt(elapsed: number): SimulatedPosition;
+}
+
+interface DrivePhase {
+  start: number;       // Elapsed seconds
+  end: number;
+  fromDistance: number; // Meters along the line
+  toDistance: number;
+  waypointId?: string;  // Set for dwell phases
+}
+
+export interface DriveSimulationOptions {
+  speedKmh?: number;
+}
+
+/**
+ * Point and heading a given distance along a line
+ */
+function pointAlong(
+  coordinates: [number, number][],
+  cumulative: number[],
+  distance: number
+): { coordinates: [number, number]; heading: number | null } {
+  const last = coordinates.length - 1;
+  let index = 1;
+  while (index < last && cumulative[index] < distance) {
+    index++;
+  }
+
+  const from = coordinates[index - 1];
+  const to = coordinates[index];
+  const segment = cumulative[index] - cumulative[index - 1];
+  const fraction = segment > 0 ? Math.min(1, Math.max(0, (distance - cumulative[index - 1]) / segment)) : 0;
+
+  return {
+    coordinates: [from[0] + (to[0] - from[0]) * fraction, from[1] + (to[1] - from[1]) * fraction],
+    heading: segment > 0 ? calculateBearing(from, to) : null,
+  };
+}
+
+/**
+ * Drive a route's geometry at a steady speed, dwelling at each stop
+ * Stops are placed at the closest point of the line, in visit order. Returns
+ * null when the route has no geometry to drive.
+ */
+export function buildDriveTimeline(
+  route: Pick<Route, 'geometry' | 'waypoints' | 'defaultDwellMinutes'>,
+  { speedKmh = DEFAULT_SIMULATION_SPEED_KMH }: DriveSimulationOptions = {}
+): SimulationTimeline | null {
+  const coordinates = route.geometry?.coordinates ?? [];
+  if (coordinates.length < 2 || speedKmh <= 0) {
+    return null;
+  }
+
+  const cumulative = [0];
+  for (let index = 1; index < coordinates.length; index++) {
+    cumulative.push(cumulative[index - 1] + calculateDistance(coordinates[index - 1], coordinates[index]));
+  }
+  const speed = speedKmh / 3.6;
+
+  // Find each stop on the line, never going back along it
+  const phases: DrivePhase[] = [];
+  let time = 0;
+  let distance = 0;
+  let searchFrom = 0;
+  sortWaypoints(route.waypoints).forEach(waypoint => {
+    let closest = searchFrom;
+    for (let index = searchFrom; index < coordinates.length; index++) {
+      if (calculateDistance(coordinates[index], waypoint.coordinates) <
+          calculateDistance(coordinates[closest], waypoint.coordinates)) {
+        closest = index;
+      }
+    }
+    searchFrom = closest;
+
+    const stopDistance = cumulative[closest];
+    const driveTime = (stopDistance - distance) / speed;
+    phases.push({ start: time, end: time + driveTime, fromDistance: distance, toDistance: stopDistance });
+    time += driveTime;
+
+    const dwell = getDwellSeconds(waypoint, route.defaultDwellMinutes);
+    phases.push({ start: time, end: time + dwell, fromDistance: stopDistance, toDistance: stopDistance, waypointId: waypoint.id });
+    time += dwell;
+    distance = stopDistance;
+  });
+
+  const total = cumulative[cumulative.length - 1];
+  phases.push({ start: time, end: time + (total - distance) / speed, fromDistance: distance, toDistance: total });
+  const duration = phases[phases.length - 1].end;
+
+  return {
+    duration,
+    stops: phases.filter(phase => phase.waypointId !== undefined).map(phase => phase.start),
+    positionAt(elapsed: number): SimulatedPosition {
+      const at = Math.min(Math.max(elapsed, 0), duration);
+      const phase = phases.find(p => at <= p.end) ?? phases[phases.length - 1];
+      const span = phase.end - phase.start;
+      const fraction = span > 0 ? (at - phase.start) / span : 1;
+      const point = pointAlong(coordinates, cumulative, phase.fromDistance + (phase.toDistance - phase.fromDistance) * fraction);
+      const moving = phase.waypointId === undefined && span > 0 && at < duration;
+
+      return {
+        coordinates: point.coordinates,
+        heading: point.heading,
+        speed: moving ? speed : 0,
+        waypointId: phase.waypointId,
+      };
+    },
+  };
+}
+
+/**
+ * Play back a recorded track, with the run's original timing
+ * Pass a start time to line up several vehicles' tracks on one clock; before
+ * its first point a vehicle waits where it started.
+ */
+export function buildReplayTimeline(track: TrackPoint[], startTime?: number): SimulationTimeline | null {
+  const points = [...track].sort((a, b) => a.timestamp - b.timestamp);
+  if (points.length === 0) {
+    return null;
+  }
+
+  const origin = startTime ?? points[0].timestamp;
+  const duration = (points[points.length - 1].timestamp - origin) / 1000;
+
+  return {
+    duration,
+    stops: [],
+    positionAt(elapsed: number): SimulatedPosition {
+      const at = origin + Math.min(Math.max(elapsed, 0), duration) * 1000;
+      let index = 1;
+      while (index < points.length && points[index].timestamp < at) {
+        index++;
+      }
+
+      if (index >= points.length || at <= points[0].timestamp) {
+        const point = at <= points[0].timestamp ? points[0] : points[points.length - 1];
+        return {
+          coordinates: point.location,
+          heading: point.heading ?? null,
+          speed: 0,
+          currentWaypointIndex: point.currentWaypointIndex,
+        };
+      }
+
+      const from = points[index - 1];
+      const to = points[index];
+      const span = to.timestamp - from.timestamp;
+      const fraction = span > 0 ? (at - from.timestamp) / span : 1;
+
+      return {
+        coordinates: [
+          from.location[0] + (to.location[0] - from.location[0]) * fraction,
+          from.location[1] + (to.location[1] - from.location[1]) * fraction,
+        ],
+        heading: to.heading ?? from.heading ?? calculateBearing(from.location, to.location),
+        speed: to.speed ?? (span > 0 ? calculateDistance(from.location, to.location) / (span / 1000) : 0),
+        currentWaypointIndex: from.currentWaypointIndex,
+      };
+    },
+  };
+}
+
+export interface SimulationPlayerState {
+  elapsed: number;
+  duration: number;
+  isPlaying: boolean;
+  /** Simulated seconds per real second */
+  rate: number;
+}
+
+/**
+ * Clock for a timeline: play, pause, seek and speed up
+ * Listeners are told on every tick and every control change.
+ */
+export class SimulationPlayer {
+  private state: SimulationPlayerState;
+  private listeners = new Set<(state: SimulationPlayerState) => void>();
+  private interval: ReturnType<typeof setInterval> | null = null;
+  private lastTick = 0;
+
+  private stops: number[];
+
+  constructor(timeline: Pick<SimulationTimeline, 'duration' | 'stops'>, rate: number = 1) {
+    this.state = { elapsed: 0, duration: timeline.duration, isPlaying: false, rate };
+    this.stops = [...timeline.stops].sort((a, b) => a - b);
+  }
+
+  getState(): SimulationPlayerState {
+    return this.state;
+  }
+
+  subscribe(listener: (state: SimulationPlayerState) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  play(): void {
+    if (this.state.isPlaying) return;
+    // Playing from the end starts again
+    const elapsed = this.state.elapsed >= this.state.duration ? 0 : this.state.elapsed;
+    this.lastTick = Date.now();
+    this.interval = setInterval(() => this.tick(), TICK_MS);
+    this.update({ elapsed, isPlaying: true });
+  }
+
+  pause(): void {
+    if (!this.state.isPlaying) return;
+    this.stopTimer();
+    this.update({ isPlaying: false });
+  }
+
+  seek(elapsed: number): void {
+    this.lastTick = Date.now();
+    this.update({ elapsed: Math.min(Math.max(elapsed, 0), this.state.duration) });
+  }
+
+  setRate(rate: number): void {
+    this.update({ rate: Math.max(0, rate) });
+  }
+
+  dispose(): void {
+    this.stopTimer();
+    this.listeners.clear();
+  }
+
+  private tick(): void {
+    const now = Date.now();
+    const previous = this.state.elapsed;
+    let elapsed = previous + ((now - this.lastTick) / 1000) * this.state.rate;
+    this.lastTick = now;
+
+    // Land on the next stop rather than jumping over it
+    const stop = this.stops.find(time => time > previous && time < elapsed);
+    if (stop !== undefined) {
+      elapsed = stop;
+    }
+
+    if (elapsed >= this.state.duration) {
+      this.stopTimer();
+      this.update({ elapsed: this.state.duration, isPlaying: false });
+    } else {
+      this.update({ elapsed });
+    }
+  }
+
+  private stopTimer(): void {
+    if (this.interval !== null) {
+      clearInterval(this.interval);
+      this.interval = null;
+    }
+  }
+
+  private update(changes: Partial<SimulationPlayerState>): void {
+    this.state = { ...this.state, ...changes };
+    this.listeners.forEach(listener => listener(this.state));
+  }
+}
+
+export type GeolocationSource = Pick<Geolocation, 'getCurrentPosition' | 'watchPosition' | 'clearWatch'>;
+
+function toGeolocationPosition(position: SimulatedPosition): GeolocationPosition {
+  const coords = {
+    latitude: position.coordinates[1],
+    longitude: position.coordinates[0],
+    accuracy: 5,
+    altitude: null,
+    altitudeAccuracy: null,
+    heading: position.heading,
+    speed: position.speed,
+  };
+  const timestamp = Date.now();
+  return {
+    coords: { ...coords, toJSON: () => coords },
+    timestamp,
+    toJSON: () => ({ coords, timestamp }),
+  } as GeolocationPosition;
+}
+
+/**
+ * A navigator.geolocation stand-in reporting the timeline's position on every player update
+ * Positions carry the real time, so ETAs and "last seen" ages stay sensible at any speed.
+ */
+export function createSimulatedGeolocation(timeline: SimulationTimeline, player: SimulationPlayer): GeolocationSource {
+  const watches = new Map<number, () => void>();
+  let nextWatchId = 1;
+  const current = () => toGeolocationPosition(timeline.positionAt(player.getState().elapsed));
+
+  return {
+    getCurrentPosition(success) {
+      setTimeout(() => success(current()), 0);
+    },
+    watchPosition(success) {
+      const watchId = nextWatchId++;
+      watches.set(watchId, player.subscribe(() => success(current())));
+      setTimeout(() => success(current()), 0);
+      return watchId;
+    },
+    clearWatch(watchId) {
+      watches.get(watchId)?.();
+      watches.delete(watchId);
+    },
+  };
+}
+
+let simulatedGeolocation: GeolocationSource | null = null;
+const sourceListeners = new Set<() => void>();
+
+/**
+ * Swap the device's location for a simulation (null to go back to real GPS)
+ */
+export function setSimulatedGeolocation(source: GeolocationSource | null): void {
+  simulatedGeolocation = source;
+  sourceListeners.forEach(listener => listener());
+}
+
+/**
+ * The location source in use: the simulation if one is running, else the device's GPS
+ */
+export function getGeolocationSource(): GeolocationSource | null {
+  if (simulatedGeolocation) {
+    return simulatedGeolocation;
+  }
+  return typeof navigator !== 'undefined' && 'geolocation' in navigator ? navigator.geolocation : null;
+}
+
+export function subscribeGeolocationSource(listener: () => void): () => void {
+  sourceListeners.add(listener);
+  return () => {
+    sourceListeners.delete(listener);
+  };
+}
+
+/**
+ * Format elapsed simulation time, e.g. "1:05:09"
+ */
+export function formatSimulationTime(seconds: number): string {
+  const total = Math.max(0, Math.floor(seconds));
+  const hours = Math.floor(total / 3600);
+  const minutes = Math.floor((total % 3600) / 60);
+  const secs = total % 60;
+  const pad = (value: number) => value.toString().padStart(2, '0');
+  return hours > 0 ? `${hours}:${pad(minutes)}:${pad(secs)}` : `${minutes}:${pad(secs)}`;
+}
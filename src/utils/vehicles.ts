@@ -0,0 +1,183 @@
+/**
+ * Multi-vehicle Santa runs
+ *
+ * Larger brigades send several appliances out on one run. Each vehicle has a
+ * callsign, a colour and its own subset of the route's stops; stops without a
+ * (valid) assignment belong to the first vehicle. A navigator device drives one
+ * vehicle's stops as a route of their own and broadcasts as that vehicle.
+ */
+
+import type { Route, Vehicle, Waypoint } from '../types';
+
+/**
+ * Colours handed out to new vehicles, in order
+ */
+export const VEHICLE_COLORS = ['#D32F2F', '#1976D2', '#F57C00', '#7B1FA2', '#00897B', '#5D4037'];
+
+function generateVehicleId(): string {
+  return `vehicle_${Date.now()}_${Math.random().toString(36).slice(2, 11)}`;
+}
+
+function getSelectedVehicleKey(routeId: string): string {
+  return `santa_nav_vehicle_${routeId}`;
+}
+
+/**
+ * Whether the route is shared between several vehicles
+ */
+export function hasVehicles(route: Pick<Route, 'vehicles'>): boolean {
+  return (route.vehicles?.length ?? 0) > 0;
+}
+
+/**
+ * A new vehicle with the next callsign number and colour
+ */
+export function createVehicle(existing: Vehicle[]): Vehicle {
+  return {
+    id: generateVehicleId(),
+    callsign: `Truck ${existing.length + 1}`,
+    color: VEHICLE_COLORS[existing.length % VEHICLE_COLORS.length],
+  };
+}
+
+/**
+ * The vehicle a stop belongs to (undefined on a single-vehicle route)
+ */
+export function getWaypointVehicleId(route: Pick<Route, 'vehicles'>, waypoint: Waypoint): string | undefined {
+  const vehicles = route.vehicles ?? [];
+  if (vehicles.length === 0) {
+    return undefined;
+  }
+  return vehicles.some(vehicle => vehicle.id === waypoint.vehicleId) ? waypoint.vehicleId : vehicles[0].id;
+}
+
+/**
+ * Look up a vehicle by ID
+ */
+export function findVehicle(route: Pick<Route, 'vehicles'>, vehicleId: string | undefined): Vehicle | undefined {
+  return vehicleId ? route.vehicles?.find(vehicle => vehicle.id === vehicleId) : undefined;
+}
+
+/**
+ * A vehicle's stops in visiting order
+ */
+export function getVehicleWaypoints(route: Pick<Route, 'vehicles' | 'waypoints'>, vehicleId: string): Waypoint[] {
+  return route.waypoints
+    .filter(wp => getWaypointVehicleId(route, wp) === vehicleId)
+    .sort((a, b) => a.order - b.order);
+}
+
+/**
+ * Problems that stop a multi-vehicle route from being saved
+ */
+export function validateVehicles(route: Pick<Route, 'vehicles' | 'waypoints'>): string[] {
+  const errors: string[] = [];
+  for (const vehicle of route.vehicles ?? []) {
+    if (vehicle.callsign.trim() === '') {
+      errors.push('Every vehicle needs a callsign');
+    } else if (getVehicleWaypoints(route, vehicle.id).length < 2) {
+      errors.push(`${vehicle.callsign} needs at least 2 stops`);
+    }
+  }
+  return errors;
+}
+
+/**
+ * Completed and total stops for each vehicle
+ */
+export function getVehicleProgress(route: Pick<Route, 'vehicles' | 'waypoints'>): Array<{
+  vehicle: Vehicle;
+  completed: number;
+  total: number;
+}> {
+  return (route.vehicles ?? []).map(vehicle => {
+    const waypoints = getVehicleWaypoints(route, vehicle.id);
+    return {
+      vehicle,
+      completed: waypoints.filter(wp => wp.isCompleted).length,
+      total: waypoints.length,
+    };
+  });
+}
+
+/**
+ * The part of a route one vehicle drives, with that vehicle's planned path
+ * Waypoints are copies, so navigation can mark them complete without touching the full route.
+ */
+export function buildVehicleRoute(route: Route, vehicleId: string): Route {
+  const vehicle = findVehicle(route, vehicleId);
+  return {
+    ...route,
+    waypoints: getVehicleWaypoints(route, vehicleId).map(wp => ({ ...wp })),
+    geometry: vehicle?.geometry,
+    navigationSteps: vehicle?.navigationSteps,
+    distance: vehicle?.distance,
+    estimatedDuration: vehicle?.estimatedDuration,
+  };
+}
+
+/**
+ * Copy a vehicle's progress back into the full route, attributing each stop it completed
+ */
+export function mergeVehicleProgress(route: Route, vehicleRoute: Route, vehicleId: string): Route {
+  const visited = new Map(vehicleRoute.waypoints.map(wp => [wp.id, wp]));
+  return {
+    ...route,
+    waypoints: route.waypoints.map(wp => {
+      const progress = visited.get(wp.id);
+      if (!progress?.isCompleted) {
+        return wp;
+      }
+      if (wp.isCompleted) {
+        // The departure is recorded after the arrival has been saved
+        return wp.completedByVehicleId === vehicleId && progress.actualDeparture && !wp.actualDeparture
+          ? { ...wp, actualDeparture: progress.actualDeparture }
+          : wp;
+      }
+      return {
+        ...wp,
+        isCompleted: true,
+        actualArrival: progress.actualArrival,
+        actualDeparture: progress.actualDeparture,
+        completedByVehicleId: vehicleId,
+      };
+    }),
+  };
+}
+
+/**
+ * Keep stops already completed by another device when a route is saved mid-run
+ * Each navigator saves the whole route, so without this the last save wins and
+ * drops the other vehicles' completions. Keep in sync with api/src/utils/routeProgress.ts.
+ */
+export function mergeWaypointCompletions(stored: Waypoint[], incoming: Waypoint[]): Waypoint[] {
+  const storedById = new Map(stored.map(wp => [wp.id, wp]));
+  return incoming.map(wp => {
+    const previous = storedById.get(wp.id);
+    if (wp.isCompleted || !previous?.isCompleted) {
+      return wp;
+    }
+    return {
+      ...wp,
+      isCompleted: true,
+      actualArrival: previous.actualArrival,
+      actualDeparture: previous.actualDeparture,
+      completedByVehicleId: previous.completedByVehicleId,
+    };
+  });
+}
+
+/**
+ * Vehicle this device last navigated as, for a route
+ */
+export function loadSelectedVehicleId(routeId: string): string | null {
+  return localStorage.getItem(getSelectedVehicleKey(routeId));
+}
+
+export function saveSelectedVehicleId(routeId: string, vehicleId: string): void {
+  localStorage.setItem(getSelectedVehicleKey(routeId), vehicleId);
+}
+
+export function clearSelectedVehicleId(routeId: string): void {
+  localStorage.removeItem(getSelectedVehicleKey(routeId));
+}
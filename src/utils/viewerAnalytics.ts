@@ -0,0 +1,283 @@
+/**
+ * Viewer analytics for tracking pages
+ *
+ * Each tracking page open reports `open`, then a `heartbeat` every minute while
+ * its live connection is up, then `close` when the page is hidden. Brigades see
+ * the summary on the route after the run, to report community engagement.
+ *
+ * Production: events go to POST /api/routes/{id}/views (with sendBeacon for
+ * `close`, so it survives the page unloading) and the summary comes from
+ * GET /api/routes/{id}/analytics, where peak concurrency and the timeline are
+ * the Web PubSub service's own connection counts rather than these reports.
+ * Dev mode: sessions are kept in localStorage so the RouteDetail tab in the
+ * same browser can summarise them (mirrors the track history setup); with no
+ * service to ask, concurrency there comes from the heartbeats.
+ *
+ * Only a random viewer ID is kept in the browser; the server hashes it per
+ * route, and never stores IP addresses or user agents.
+ */
+
+import type { Route, RouteViewerAnalytics, ViewerSession } from '../types';
+import { getAccessToken } from '../storage/http';
+
+const API_BASE_URL = import.meta.env.VITE_API_BASE_URL || '/api';
+
+const VIEWER_ID_KEY = 'santa_viewer_id';
+
+// Keep in sync with api/src/utils/viewerAnalytics.ts
+export const HEARTBEAT_INTERVAL_MS = 60 * 1000;
+const AREA_GRID_DEGREES = 0.05;
+const TIMELINE_BUCKET_MS = 5 * 60 * 1000;
+const MAX_TIMELINE_BUCKETS = 288;
+const MAX_TIME_ZONES = 10;
+
+export type ViewerEventType = 'open' | 'heartbeat' | 'close';
+
+export interface ViewerEvent {
+  sessionId: string;
+  viewerId: string;
+  event: ViewerEventType;
+  embed?: boolean;
+  timeZone?: string;
+  area?: [number, number];
+}
+
+/**
+ * A point on the run's progress line: stops completed by a moment in time
+ */
+export interface ProgressPoint {
+  time: number;
+  completed: number;
+}
+
+function isDevMode(): boolean {
+  return import.meta.env.VITE_DEV_MODE === 'true';
+}
+
+function getLocalViewersKey(routeId: string): string {
+  return `santa_viewers_${routeId}`;
+}
+
+/**
+ * This browser's random viewer ID, created on first use
+ */
+export function getViewerId(): string {
+  let viewerId = localStorage.getItem(VIEWER_ID_KEY);
+  if (!viewerId) {
+    viewerId = crypto.randomUUID();
+    localStorage.setItem(VIEWER_ID_KEY, viewerId);
+  }
+  return viewerId;
+}
+
+/**
+ * The browser's time zone, if it reports one
+ */
+export function getViewerTimeZone(): string | undefined {
+  try {
+    return Intl.DateTimeFormat().resolvedOptions().timeZone || undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Snap a location to the coarse analytics grid
+ */
+export function roundViewerArea(location: [number, number]): [number, number] {
+  const snap = (value: number) => Math.round(Math.round(value / AREA_GRID_DEGREES) * AREA_GRID_DEGREES * 100) / 100;
+  return [snap(location[0]), snap(location[1])];
+}
+
+/**
+ * Fold a viewer event into its session (null for the session's first event)
+ * Dev mode keeps the raw viewer ID as the hash, since it never leaves the browser.
+ */
+export function applyViewerEvent(session: ViewerSession | null, event: ViewerEvent, now: number): ViewerSession {
+  const updated: ViewerSession = session
+    ? { ...session, lastSeenAt: Math.max(session.lastSeenAt, now) }
+    : {
+        sessionId: event.sessionId,
+        viewerHash: event.viewerId,
+        openedAt: now,
+        lastSeenAt: now,
+        closed: false,
+        embed: event.embed === true,
+      };
+
+  if (event.event === 'heartbeat' && updated.connectedAt === undefined) {
+    updated.connectedAt = now;
+  }
+  if (event.event === 'close') {
+    updated.closed = true;
+  }
+  updated.timeZone = event.timeZone ?? updated.timeZone;
+  updated.area = event.area ? roundViewerArea(event.area) : updated.area;
+  return updated;
+}
+
+function connectedInterval(session: ViewerSession, now: number): [number, number] | null {
+  if (session.connectedAt === undefined) {
+    return null;
+  }
+  const end = session.closed
+    ? session.lastSeenAt
+    : Math.min(now, session.lastSeenAt + HEARTBEAT_INTERVAL_MS);
+  return [session.connectedAt, Math.max(end, session.connectedAt)];
+}
+
+function countDistinctViewers<K>(sessions: ViewerSession[], keyOf: (session: ViewerSession) => K | undefined) {
+  const viewersByKey = new Map<string, { key: K; viewers: Set<string> }>();
+  sessions.forEach(session => {
+    const key = keyOf(session);
+    if (key === undefined) return;
+    const id = JSON.stringify(key);
+    const entry = viewersByKey.get(id) ?? { key, viewers: new Set<string>() };
+    entry.viewers.add(session.viewerHash);
+    viewersByKey.set(id, entry);
+  });
+  return Array.from(viewersByKey.values())
+    .map(({ key, viewers }) => ({ key, viewers: viewers.size }))
+    .sort((a, b) => b.viewers - a.viewers);
+}
+
+/**
+ * Start of each timeline bucket from `first` to `last`, keeping to MAX_TIMELINE_BUCKETS
+ */
+function timelineBuckets(first: number, last: number): { starts: number[]; bucketMs: number } {
+  const bucketMs = Math.max(
+    TIMELINE_BUCKET_MS,
+    Math.ceil((last - first) / MAX_TIMELINE_BUCKETS / TIMELINE_BUCKET_MS) * TIMELINE_BUCKET_MS
+  );
+  const starts: number[] = [];
+  for (let time = Math.floor(first / bucketMs) * bucketMs; time <= last; time += bucketMs) {
+    starts.push(time);
+  }
+  return { starts, bucketMs };
+}
+
+/**
+ * Summarise a route's viewer sessions
+ * Keep in sync with api/src/utils/viewerAnalytics.ts
+ */
+export function summarizeViewerSessions(routeId: string, sessions: ViewerSession[], now: number): RouteViewerAnalytics {
+  const intervals = sessions
+    .map(session => connectedInterval(session, now))
+    .filter((interval): interval is [number, number] => interval !== null);
+
+  // Sweep the connection starts and ends; at the same instant, ends go first
+  const edges = intervals
+    .flatMap(([start, end]) => [{ time: start, delta: 1 }, { time: end, delta: -1 }])
+    .sort((a, b) => a.time - b.time || a.delta - b.delta);
+  let concurrent = 0;
+  let peakConcurrent = 0;
+  let peakAt: number | undefined;
+  edges.forEach(edge => {
+    concurrent += edge.delta;
+    if (concurrent > peakConcurrent) {
+      peakConcurrent = concurrent;
+      peakAt = edge.time;
+    }
+  });
+
+  const timeline: RouteViewerAnalytics['timeline'] = [];
+  if (intervals.length > 0) {
+    const first = Math.min(...intervals.map(([start]) => start));
+    const last = Math.max(...intervals.map(([, end]) => end));
+    const { starts, bucketMs } = timelineBuckets(first, last);
+    starts.forEach(time => {
+      const viewers = intervals.filter(([start, end]) => start < time + bucketMs && end >= time).length;
+      timeline.push({ time, viewers });
+    });
+  }
+
+  const totalSessionMs = sessions.reduce((sum, session) => sum + (session.lastSeenAt - session.openedAt), 0);
+
+  return {
+    routeId,
+    opens: sessions.length,
+    uniqueViewers: new Set(sessions.map(session => session.viewerHash)).size,
+    embedOpens: sessions.filter(session => session.embed).length,
+    peakConcurrent,
+    peakAt,
+    averageSessionSeconds: sessions.length > 0 ? Math.round(totalSessionMs / sessions.length / 1000) : 0,
+    timeline,
+    areas: countDistinctViewers(sessions, session => session.area)
+      .map(({ key, viewers }) => ({ location: key, viewers })),
+    timeZones: countDistinctViewers(sessions, session => session.timeZone)
+      .slice(0, MAX_TIME_ZONES)
+      .map(({ key, viewers }) => ({ timeZone: key, viewers })),
+    generatedAt: now,
+  };
+}
+
+/**
+ * Cumulative completed stops over the run, from each stop's actual arrival
+ */
+export function buildProgressSeries(route: Pick<Route, 'waypoints'>): ProgressPoint[] {
+  const arrivals = route.waypoints
+    .filter(waypoint => waypoint.isCompleted && waypoint.actualArrival)
+    .map(waypoint => new Date(waypoint.actualArrival!).getTime())
+    .filter(time => Number.isFinite(time))
+    .sort((a, b) => a - b);
+
+  return arrivals.map((time, index) => ({ time, completed: index + 1 }));
+}
+
+/**
+ * Load the dev-mode viewer sessions recorded in localStorage
+ */
+export function loadLocalViewerSessions(routeId: string): ViewerSession[] {
+  const stored = localStorage.getItem(getLocalViewersKey(routeId));
+  return stored ? JSON.parse(stored) : [];
+}
+
+function recordLocalViewerEvent(routeId: string, event: ViewerEvent): void {
+  const sessions = loadLocalViewerSessions(routeId);
+  const index = sessions.findIndex(session => session.sessionId === event.sessionId);
+  const updated = applyViewerEvent(index >= 0 ? sessions[index] : null, event, Date.now());
+  if (index >= 0) {
+    sessions[index] = updated;
+  } else {
+    sessions.push(updated);
+  }
+  localStorage.setItem(getLocalViewersKey(routeId), JSON.stringify(sessions));
+}
+
+/**
+ * Report a tracking page event (best-effort: analytics never break the page)
+ */
+export function recordViewerEvent(routeId: string, event: ViewerEvent): void {
+  if (isDevMode()) {
+    recordLocalViewerEvent(routeId, event);
+    return;
+  }
+
+  const url = `${API_BASE_URL}/routes/${encodeURIComponent(routeId)}/views`;
+  const body = JSON.stringify(event);
+
+  // A beacon still goes out while the page unloads
+  if (event.event === 'close' && typeof navigator.sendBeacon === 'function' && navigator.sendBeacon(url, body)) {
+    return;
+  }
+
+  fetch(url, { method: 'POST', headers: { 'Content-Type': 'application/json' }, body, keepalive: true })
+    .catch(error => console.warn('[ViewerAnalytics] Failed to record view:', error));
+}
+
+/**
+ * Fetch a route's viewer analytics from the API (brigade route managers only)
+ */
+export async function fetchRouteAnalytics(routeId: string): Promise<RouteViewerAnalytics> {
+  const token = await getAccessToken();
+  const response = await fetch(`${API_BASE_URL}/routes/${encodeURIComponent(routeId)}/analytics`, {
+    headers: token ? { Authorization: `Bearer ${token}` } : {},
+  });
+
+  if (!response.ok) {
+    const body = await response.json().catch(() => ({}));
+    throw new Error(body.message || body.error || `Failed to load route analytics: ${response.statusText}`);
+  }
+
+  return response.json();
+}
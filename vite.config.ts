@@ -1,5 +1,50 @@
-import { defineConfig, type ConfigEnv, type UserConfig } from 'vite'
+import { defineConfig, type ConfigEnv, type Plugin, type UserConfig } from 'vite'
 import react from '@vitejs/plugin-react'
+import { createHash } from 'node:crypto'
+import { readFileSync, writeFileSync } from 'node:fs'
+import { resolve } from 'node:path'
+
+// Line in public/sw.js replaced with this build's precache manifest
+const SW_MANIFEST_PLACEHOLDER = "const BUILD_MANIFEST = { version: 'dev', assets: [] };"
+
+/**
+ * Write the hashed files this build emitted into the service worker's precache
+ * list, so the navigator can reopen the whole app without coverage. The version
+ * changes whenever the app does, so each deploy installs a fresh shell cache.
+ */
+function swPrecacheManifest(): Plugin {
+  let outDir = 'dist'
+  let assets: string[] = []
+  let version = 'dev'
+
+  return {
+    name: 'sw-precache-manifest',
+    apply: 'build',
+    configResolved(config) {
+      outDir = resolve(config.root, config.build.outDir)
+    },
+    generateBundle(_options, bundle) {
+      assets = Object.keys(bundle)
+        .filter(fileName => fileName.startsWith('assets/') && !fileName.endsWith('.map'))
+        .map(fileName => `/${fileName}`)
+        .sort()
+      const indexHtml = bundle['index.html']
+      version = createHash('sha256')
+        .update(assets.join('\n'))
+        .update(indexHtml?.type === 'asset' ? indexHtml.source : '')
+        .digest('hex')
+        .slice(0, 12)
+    },
+    closeBundle() {
+      const swPath = resolve(outDir, 'sw.js')
+      const sw = readFileSync(swPath, 'utf8')
+      if (!sw.includes(SW_MANIFEST_PLACEHOLDER)) {
+        throw new Error(`public/sw.js must contain "${SW_MANIFEST_PLACEHOLDER}" for the precache manifest`)
+      }
+      writeFileSync(swPath, sw.replace(SW_MANIFEST_PLACEHOLDER, `const BUILD_MANIFEST = ${JSON.stringify({ version, assets })};`))
+    },
+  }
+}
 
 // https://vite.dev/config/
 export default defineConfig(( env: ConfigEnv ): UserConfig => {
@@ -7,7 +52,7 @@ export default defineConfig(( env: ConfigEnv ): UserConfig => {
   const isDev = mode === 'development' || process.env.VITE_DEV_MODE === 'true';
 
   return {
-    plugins: [react()],
+    plugins: [react(), swPrecacheManifest()],
     server: isDev
       ? {
           proxy: {